@@ -120,11 +120,11 @@ router.post('/symbols.zip', async (req, res) => {
 
 router.post('/wiring.svg', async (req, res) => {
   try {
-    const { projectName, components, wires } = req.body ?? {}
+    const { projectName, components, wires, netLabels } = req.body ?? {}
     if (!Array.isArray(components) || components.length === 0) {
       return res.status(400).json({ error: 'components array is required' })
     }
-    const svg = await composeWiringSchematic({ projectName, components, wires: wires ?? [] })
+    const svg = await composeWiringSchematic({ projectName, components, wires: wires ?? [], netLabels: netLabels ?? [] })
     const safeName = (projectName || 'circuitwiz-wiring').replace(/[^a-z0-9-_]+/gi, '-')
     res.setHeader('Content-Type', 'image/svg+xml')
     res.setHeader('Content-Disposition', `attachment; filename="${safeName}-wiring.svg"`)
@@ -137,11 +137,11 @@ router.post('/wiring.svg', async (req, res) => {
 
 router.post('/wiring.pdf', async (req, res) => {
   try {
-    const { projectName, components, wires } = req.body ?? {}
+    const { projectName, components, wires, netLabels } = req.body ?? {}
     if (!Array.isArray(components) || components.length === 0) {
       return res.status(400).json({ error: 'components array is required' })
     }
-    const svg = await composeWiringSchematic({ projectName, components, wires: wires ?? [] })
+    const svg = await composeWiringSchematic({ projectName, components, wires: wires ?? [], netLabels: netLabels ?? [] })
     const counts = uniqueModuleNames(components)
     const parts = []
     for (const [moduleName] of counts.entries()) {
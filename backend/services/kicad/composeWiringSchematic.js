@@ -22,7 +22,47 @@ function placeSvg(svg, x, y) {
   return svg.replace('<svg ', `<svg x="${x}" y="${y}" `)
 }
 
-async function composeWiringSchematic({ projectName, components, wires }) {
+/**
+ * KiCad-style marks for net labels and power flags, centred on the cell (cx, cy).
+ * GND gets the ground symbol below the pin; other rails a bar above it; ports a
+ * double-pointed global label; plain net labels a pennant with the name.
+ */
+function netLabelMark(label, cx, cy) {
+  const name = escapeXml(label.name)
+  const font = 'font-family="ui-sans-serif, system-ui, sans-serif" font-size="11"'
+  if (label.kind === 'power' && label.name === 'GND') {
+    const y = cy + CELL_PX * 0.25
+    return [
+      `<line x1="${cx}" y1="${cy}" x2="${cx}" y2="${y}" stroke="#60a5fa" stroke-width="2" />`,
+      `<line x1="${cx - 12}" y1="${y}" x2="${cx + 12}" y2="${y}" stroke="#60a5fa" stroke-width="2" />`,
+      `<line x1="${cx - 8}" y1="${y + 5}" x2="${cx + 8}" y2="${y + 5}" stroke="#60a5fa" stroke-width="2" />`,
+      `<line x1="${cx - 4}" y1="${y + 10}" x2="${cx + 4}" y2="${y + 10}" stroke="#60a5fa" stroke-width="2" />`,
+    ].join('')
+  }
+  if (label.kind === 'power') {
+    const y = cy - CELL_PX * 0.3
+    return [
+      `<line x1="${cx}" y1="${cy}" x2="${cx}" y2="${y}" stroke="#f87171" stroke-width="2" />`,
+      `<line x1="${cx - 10}" y1="${y}" x2="${cx + 10}" y2="${y}" stroke="#f87171" stroke-width="2" />`,
+      `<text x="${cx}" y="${y - 5}" fill="#f87171" ${font} text-anchor="middle">${name}</text>`,
+    ].join('')
+  }
+  const w = Math.max(28, label.name.length * 7 + 14)
+  const x = cx + 4
+  if (label.kind === 'port') {
+    // Global label: pointed at both ends, as KiCad draws a port shared between sheets
+    return [
+      `<path d="M ${x} ${cy} l 8 -8 h ${w} l 8 8 l -8 8 h -${w} z" fill="#0f0f0f" stroke="#34d399" stroke-width="1.5" />`,
+      `<text x="${x + 12}" y="${cy + 4}" fill="#34d399" ${font}>${name}</text>`,
+    ].join('')
+  }
+  return [
+    `<path d="M ${x} ${cy} l 8 -8 h ${w} v 16 h -${w} z" fill="#0f0f0f" stroke="#a78bfa" stroke-width="1.5" />`,
+    `<text x="${x + 12}" y="${cy + 4}" fill="#a78bfa" ${font}>${name}</text>`,
+  ].join('')
+}
+
+async function composeWiringSchematic({ projectName, components, wires, netLabels }) {
   if (!components?.length) {
     return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="200"><rect width="100%" height="100%" fill="#0f0f0f"/><text x="20" y="40" fill="#888">No components</text></svg>`
   }
@@ -51,6 +91,13 @@ async function composeWiringSchematic({ projectName, components, wires }) {
     }
   }
 
+  for (const label of netLabels ?? []) {
+    minX = Math.min(minX, label.x)
+    minY = Math.min(minY, label.y - 1)
+    maxX = Math.max(maxX, label.x + 3)
+    maxY = Math.max(maxY, label.y + 2)
+  }
+
   // Grid → pixel. Identical mapping for symbols, wires, and pins.
   const px = (gx) => MARGIN + (gx - minX) * CELL_PX
   const py = (gy) => HEADER + MARGIN + (gy - minY) * CELL_PX
@@ -75,7 +122,7 @@ async function composeWiringSchematic({ projectName, components, wires }) {
     `<text x="${MARGIN}" y="30" fill="#e5e5e5" font-family="ui-sans-serif, system-ui, sans-serif" font-size="18" font-weight="600">${escapeXml(projectName || 'Wiring Schematic')}</text>`
   )
   parts.push(
-    `<text x="${MARGIN}" y="48" fill="#737373" font-family="ui-sans-serif, system-ui, sans-serif" font-size="11">KiCad symbols · ${components.length} component(s) · ${(wires ?? []).length} wire(s)</text>`
+    `<text x="${MARGIN}" y="48" fill="#737373" font-family="ui-sans-serif, system-ui, sans-serif" font-size="11">KiCad symbols · ${components.length} component(s) · ${(wires ?? []).length} wire(s)${netLabels?.length ? ` · ${netLabels.length} net label(s)` : ''}</text>`
   )
 
   // Wires first, drawn in the same grid coordinate system (cell centers).
@@ -90,6 +137,12 @@ async function composeWiringSchematic({ projectName, components, wires }) {
     }
   }
 
+  // Net labels and power flags join their nets by name, as in KiCad.
+  for (const label of netLabels ?? []) {
+    if (typeof label.x !== 'number' || typeof label.y !== 'number' || !label.name) continue
+    parts.push(netLabelMark(label, px(label.x + 0.5), py(label.y + 0.5)))
+  }
+
   // Components placed into their real grid footprint, symbol scaled to fit.
   for (const component of components) {
     const gx = component.size?.gridX ?? 1
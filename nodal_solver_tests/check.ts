@@ -0,0 +1,19 @@
+/**
+ * Pass/fail bookkeeping shared by the TypeScript test scripts: `check` prints
+ * one PASS/FAIL line per assertion and `finish` prints the tally and sets the
+ * exit code run_all.py reads.
+ */
+
+let passed = 0
+let failed = 0
+
+export function check(label: string, ok: boolean, detail: string): void {
+  if (ok) passed++
+  else failed++
+  console.log(`${ok ? 'PASS' : 'FAIL'}  ${label}  ${detail}`)
+}
+
+export function finish(): never {
+  console.log(`\n${passed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
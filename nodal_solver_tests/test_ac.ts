@@ -0,0 +1,151 @@
+/**
+ * AC small-signal sweep — RC low-pass corner at 1/(2πRC), series LC
+ * resonance peaking at Q, and a biased non-inverting op-amp stage whose
+ * small-signal gain is set by the divider and feedback network, and a
+ * direct-coupled diode biased at the AC source's mean rather than its peak.
+ *
+ * Run: npx tsx nodal_solver_tests/test_ac.ts
+ */
+
+import { solveAcSweep } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { check, finish } from './check'
+
+function nearestIndex(frequencies: number[], f: number): number {
+  let best = 0
+  frequencies.forEach((freq, idx) => {
+    if (Math.abs(Math.log(freq / f)) < Math.abs(Math.log(frequencies[best] / f))) best = idx
+  })
+  return best
+}
+
+// 5V → 1kΩ → 1µF → GND, fc ≈ 159.2 Hz
+const rc = buildSchematic('RC Low-Pass', '5V -> 1kΩ -> 1µF -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 1_000 })
+  const c = place('Capacitor', 10, 10, { capacitance: 0.000001 })
+
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), c.pin('1')])
+  wire([c.pin('2'), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+
+const fc = 1 / (2 * Math.PI * 1_000 * 0.000001)
+const rcResult = solveAcSweep(rc.gridData, rc.wires, { startFrequency: 1, stopFrequency: 100_000, pointsPerDecade: 40 })
+check('RC sweep solves', rcResult.works, rcResult.reason ?? '')
+const rcOut = rcResult.netResponses.get(rcResult.posToNet.get(posKey(8, 10)) ?? -1)
+if (rcOut) {
+  const low = nearestIndex(rcResult.frequencies, 1)
+  check('RC passband gain', Math.abs(rcOut.magnitudeDb[low]) < 0.01, `${rcOut.magnitudeDb[low].toFixed(4)} dB at 1 Hz`)
+  const corner = rcResult.frequencies.findIndex((f) => f >= fc)
+  const f = rcResult.frequencies[corner]
+  const expectedDb = -10 * Math.log10(1 + (f / fc) ** 2)
+  const expectedPhase = (-Math.atan(f / fc) * 180) / Math.PI
+  check(
+    'RC corner magnitude',
+    Math.abs(rcOut.magnitudeDb[corner] - expectedDb) < 0.01 && Math.abs(expectedDb + 3.01) < 0.3,
+    `expected ${expectedDb.toFixed(3)} dB got ${rcOut.magnitudeDb[corner].toFixed(3)} dB at ${f.toFixed(1)} Hz`
+  )
+  check(
+    'RC corner phase',
+    Math.abs(rcOut.phaseDeg[corner] - expectedPhase) < 0.1,
+    `expected ${expectedPhase.toFixed(2)}° got ${rcOut.phaseDeg[corner].toFixed(2)}°`
+  )
+  const decadeUp = nearestIndex(rcResult.frequencies, fc * 100)
+  check('RC rolls off 20 dB/decade', Math.abs(rcOut.magnitudeDb[decadeUp] + 40) < 0.1, `${rcOut.magnitudeDb[decadeUp].toFixed(2)} dB at 100·fc`)
+} else {
+  check('RC output net found', false, '')
+}
+
+// 5V → 1mH (0.5Ω DCR) → 10µF → GND: Vc peaks at f0 with gain Q = √(L/C)/R = 20
+const lc = buildSchematic('Series LC', '5V -> 1mH -> 10µF -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const l = place('Inductor', 6, 10, { inductance: 0.001 })
+  const c = place('Capacitor', 10, 10, { capacitance: 0.00001 })
+
+  wire([ps.pin('5V'), l.pin('1')], { powered: true })
+  wire([l.pin('2'), c.pin('1')])
+  wire([c.pin('2'), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+
+const f0 = 1 / (2 * Math.PI * Math.sqrt(0.001 * 0.00001))
+const lcResult = solveAcSweep(lc.gridData, lc.wires, { startFrequency: 1_000, stopFrequency: 2_500, pointsPerDecade: 1_000 })
+check('LC sweep solves', lcResult.works, lcResult.reason ?? '')
+const lcNet = lcResult.posToNet.get(posKey(10, 10))
+const lcOut = lcNet !== undefined ? lcResult.netResponses.get(lcNet) : undefined
+const lcMag = lcOut?.magnitude ?? [0]
+const peakIdx = lcMag.indexOf(Math.max(...lcMag))
+const peakF = lcResult.frequencies[peakIdx] ?? NaN
+check('LC resonance frequency', Math.abs(peakF - f0) / f0 < 0.01, `expected ${f0.toFixed(1)} Hz got ${peakF.toFixed(1)} Hz`)
+check('LC resonance gain ≈ Q', Math.abs(lcMag[peakIdx] - 20) < 1, `peak ${lcMag[peakIdx].toFixed(2)}`)
+
+// Non-inverting stage: + biased at 1.25 V by a 30k/10k divider, gain 1 + 10k/10k → Vout = 2.5 V (linear).
+// Small-signal gain from the supply: 0.25 at (+), 0.5 at OUT.
+const opAmp = buildSchematic('Biased Non-Inverting', '30k/10k bias into a gain-2 non-inverting stage.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rTop = place('Resistor', 4, 16, { resistance: 30_000 })
+  const rBot = place('Resistor', 6, 20, { resistance: 10_000 })
+  const rg = place('Resistor', 8, 10, { resistance: 10_000 })
+  const rf = place('Resistor', 10, 6, { resistance: 10_000 })
+  const op = place('OpAmp', 14, 9)
+  const rLoad = place('Resistor', 20, 10, { resistance: 10_000 })
+
+  wire([ps.pin('5V'), { x: 2, y: 8 }, { x: 15, y: 8 }, op.pin('V+')], { powered: true })
+  wire([op.pin('V-'), { x: 15, y: 18 }, { x: 3, y: 18 }, ps.pin('GND')], { grounded: true })
+
+  wire([ps.pin('5V'), { x: 2, y: 16 }, rTop.at(0, 0)], { powered: true })
+  wire([rTop.at(2, 0), rBot.at(0, 0)])
+  wire([rBot.at(2, 0), { x: 8, y: 20 }, { x: 8, y: 18 }, { x: 3, y: 18 }], { grounded: true })
+  wire([rTop.at(2, 0), { x: 6, y: 12 }, { x: 13, y: 12 }, { x: 13, y: 11 }, op.pin('+')])
+
+  wire([op.pin('-'), rg.at(2, 0)])
+  wire([rg.at(0, 0), { x: 7, y: 10 }, { x: 7, y: 19 }, { x: 3, y: 19 }, { x: 3, y: 18 }], { grounded: true })
+  wire([op.pin('-'), { x: 13, y: 10 }, { x: 13, y: 5 }, { x: 10, y: 5 }, rf.at(0, 0)])
+  wire([rf.at(2, 0), { x: 18, y: 6 }, { x: 18, y: 10 }, op.pin('OUT')])
+
+  wire([{ x: 18, y: 10 }, rLoad.at(0, 0)])
+  wire([rLoad.at(2, 0), { x: 22, y: 10 }, { x: 22, y: 18 }, { x: 3, y: 18 }], { grounded: true })
+})
+
+const opResult = solveAcSweep(opAmp.gridData, opAmp.wires, { startFrequency: 10, stopFrequency: 1_000, pointsPerDecade: 5 })
+check('Op-amp sweep solves', opResult.works, opResult.reason ?? '')
+const plusNet = opResult.posToNet.get(posKey(14, 11))
+const outNet = opResult.posToNet.get(posKey(16, 10))
+const plusGain = plusNet !== undefined ? opResult.netResponses.get(plusNet)?.magnitude[0] ?? NaN : NaN
+const outResponse = outNet !== undefined ? opResult.netResponses.get(outNet) : undefined
+check('Op-amp (+) divider gain', Math.abs(plusGain - 0.25) < 1e-6, `got ${plusGain.toFixed(6)}`)
+check(
+  'Op-amp closed-loop gain',
+  Math.abs((outResponse?.magnitude[0] ?? NaN) - 0.5) < 1e-3 && Math.abs(outResponse?.phaseDeg[0] ?? NaN) < 0.01,
+  `got ${(outResponse?.magnitude[0] ?? NaN).toFixed(5)} ∠${(outResponse?.phaseDeg[0] ?? NaN).toFixed(3)}°`
+)
+
+// 12 Vrms → 1kΩ → diode → return, direct-coupled: biased at the source's 0 V mean the junction is
+// off and the anode follows the input. Biased at the 17 V peak it would conduct and short it to a few ohms.
+const clipper = buildSchematic('Direct-Coupled Diode', '12Vrms -> 1kΩ -> diode -> return.', ({ place, wire }) => {
+  const src = place('ACSource', 2, 10, { vrms: 12, frequency: 60 })
+  const r = place('Resistor', 6, 10, { resistance: 1_000 })
+  const d = place('Diode', 10, 10, { model: 'shockley' })
+
+  wire([src.pin('AC1'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), d.pin('A')])
+  wire([d.pin('K'), { x: 14, y: 10 }, { x: 14, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, src.pin('AC2')], {
+    grounded: true,
+  })
+})
+
+const clipperResult = solveAcSweep(clipper.gridData, clipper.wires, { startFrequency: 10, stopFrequency: 1_000, pointsPerDecade: 5 })
+check('Direct-coupled diode sweep solves', clipperResult.works, clipperResult.reason ?? '')
+const anodeNet = clipperResult.posToNet.get(posKey(10, 10))
+const anodeGain = anodeNet !== undefined ? clipperResult.netResponses.get(anodeNet)?.magnitude[0] ?? NaN : NaN
+check('AC source biases the diode at its mean, not its peak', anodeGain > 0.99, `anode gain ${anodeGain.toFixed(4)}`)
+
+const invalid = solveAcSweep(rc.gridData, rc.wires, { startFrequency: 100, stopFrequency: 10 })
+check('Rejects inverted frequency range', !invalid.works, invalid.reason ?? '')
+
+finish()
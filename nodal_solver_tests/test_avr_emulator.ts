@@ -0,0 +1,143 @@
+/**
+ * ATmega328P emulator — hand-assembled programs exercise the core (ALU, calls,
+ * 16-bit loops), Timer0 overflow interrupts (what millis() runs on), fast PWM
+ * on OC0A, the ADC, USART transmit, port inputs and Intel HEX loading.
+ *
+ * Run: npx tsx nodal_solver_tests/test_avr_emulator.ts
+ */
+
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import { FirmwareFormatError, parseIntelHex } from '../src/services/avr/firmware'
+import { check, finish } from './check'
+
+// --- A few encoders, enough to write the test programs ---------------------
+const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+const out = (a: number, r: number) => 0xb800 | ((a & 0x30) << 5) | (r << 4) | (a & 0x0f)
+const inp = (r: number, a: number) => 0xb000 | ((a & 0x30) << 5) | (r << 4) | (a & 0x0f)
+const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+const jmp = (k: number) => [0x940c, k]
+const rjmp = (k: number) => 0xc000 | (k & 0x0fff)
+const rcall = (k: number) => 0xd000 | (k & 0x0fff)
+const brne = (k: number) => 0xf401 | ((k & 0x7f) << 3)
+const sbi = (a: number, b: number) => 0x9a00 | (a << 3) | b
+const sbrc = (r: number, b: number) => 0xfc00 | (r << 4) | b
+const inc = (r: number) => 0x9403 | (r << 4)
+const add = (d: number, r: number) => 0x0c00 | ((r & 0x10) << 5) | (d << 4) | (r & 0x0f)
+const adc = (d: number, r: number) => 0x1c00 | ((r & 0x10) << 5) | (d << 4) | (r & 0x0f)
+const sbiw = (d: number, k: number) => 0x9700 | ((k & 0x30) << 2) | (((d - 24) / 2) << 4) | (k & 0x0f)
+const push = (r: number) => 0x920f | (r << 4)
+const pop = (r: number) => 0x900f | (r << 4)
+const SEI = 0x9478
+const RET = 0x9508
+const HALT = rjmp(-1)
+
+function assemble(sections: Record<number, Array<number | number[]>>): Uint16Array {
+  const words = new Uint16Array(0x200)
+  for (const [at, code] of Object.entries(sections)) words.set(code.flat(), Number(at))
+  return words
+}
+
+// --- ALU, stack and a 16-bit countdown loop --------------------------------
+{
+  const mcu = new ATmega328P(assemble({
+    0: [
+      ldi(24, 0xff), ldi(25, 0x00), ldi(22, 0x01), ldi(23, 0x00),
+      add(24, 22), adc(25, 23), // r25:r24 = 0x00ff + 1
+      ldi(16, 0x5a), push(16), ldi(16, 0), rcall(6), pop(17),
+      ldi(26, 0xe8), ldi(27, 0x03), // X = 1000
+      sbiw(26, 1), brne(-2),
+      HALT,
+      ldi(18, 0x77), RET,
+    ],
+  }))
+  mcu.runFor(1)
+  const r = mcu.cpu.data
+  check('ADD/ADC carries into the high byte', (r[24] | (r[25] << 8)) === 0x0100, `0x${(r[24] | (r[25] << 8)).toString(16)}`)
+  check('RCALL/RET return to the caller', r[18] === 0x77, `r18=0x${r[18].toString(16)}`)
+  check('PUSH/POP round-trip', r[17] === 0x5a, `r17=0x${r[17].toString(16)}`)
+  check('SBIW/BRNE loop counts X down to zero', r[26] === 0 && r[27] === 0, `X=${r[26] | (r[27] << 8)}`)
+  check('No unsupported opcodes', mcu.cpu.halted === null, String(mcu.cpu.halted))
+}
+
+// --- Timer0 overflow interrupt toggling D13 every 1.024 ms -----------------
+{
+  const mcu = new ATmega328P(assemble({
+    0: [jmp(0x40)],
+    32: [jmp(0x60)], // TIMER0_OVF vector
+    0x40: [sbi(0x04, 5), ldi(16, 0x03), out(0x25, 16), ldi(16, 0x01), ...sts(0x6e, 16), SEI, HALT],
+    0x60: [inc(20), sbi(0x03, 5), 0x9518], // inc r20; toggle PB5 via PINB; RETI
+  }))
+  mcu.runFor(100)
+  const overflows = mcu.cpu.data[20]
+  check('Timer0 overflows ~every 1.024 ms (prescaler 64)', overflows >= 96 && overflows <= 98, `${overflows} in 100 ms`)
+  const d13 = mcu.getPinStates().get(13)
+  check('ISR toggles D13 through PINB', d13?.state === (overflows % 2 ? 'HIGH' : 'LOW'), `${d13?.state} after ${overflows} toggles`)
+}
+
+// --- Fast PWM on OC0A (D6) as analogWrite(6, 127) sets it up --------------
+{
+  const mcu = new ATmega328P(assemble({
+    0: [sbi(0x0a, 6), ldi(16, 0x83), out(0x24, 16), ldi(16, 0x03), out(0x25, 16), ldi(16, 127), out(0x27, 16), HALT],
+  }))
+  mcu.runFor(2)
+  const d6 = mcu.getPinStates().get(6)
+  check('OC0A reports PULSING at 50% duty', d6?.state === 'PULSING' && Math.abs((d6?.dutyCycle ?? 0) - 0.5) < 0.01, `${d6?.state} ${d6?.dutyCycle}`)
+  check('PWM runs at 16 MHz / 64 / 256', Math.abs((d6?.frequency ?? 0) - 976.5625) < 0.01, `${d6?.frequency?.toFixed(2)} Hz`)
+  check('Unconfigured pins read as inputs', mcu.getPinStates().get(7)?.state === 'INPUT', '')
+}
+
+// --- ADC: AVCC reference, channel 0, poll ADSC then read the result --------
+{
+  const mcu = new ATmega328P(assemble({
+    0: [
+      ldi(16, 0x40), ...sts(0x7c, 16), // ADMUX: AVCC, ADC0
+      ldi(16, 0xc7), ...sts(0x7a, 16), // ADCSRA: enable, start, /128
+      ...lds(16, 0x7a), sbrc(16, 6), rjmp(-4),
+      ...lds(24, 0x78), ...lds(25, 0x79),
+      HALT,
+    ],
+  }))
+  mcu.setAnalogInput(0, 2.5)
+  mcu.runFor(1)
+  const reading = mcu.cpu.data[24] | (mcu.cpu.data[25] << 8)
+  check('analogRead of 2.5 V on A0 is 512', reading === 512, String(reading))
+}
+
+// --- USART transmit and digital input --------------------------------------
+{
+  const mcu = new ATmega328P(assemble({
+    0: [ldi(16, 0x08), ...sts(0xc1, 16), ldi(16, 0x48), ...sts(0xc6, 16), ldi(16, 0x69), ...sts(0xc6, 16), inp(20, 0x09), HALT],
+  }))
+  const sent: number[] = []
+  mcu.usart.onTransmit.push((byte) => sent.push(byte))
+  mcu.setDigitalInput(2, true)
+  mcu.runFor(1)
+  check('UDR0 writes reach the transmit listener', String.fromCharCode(...sent) === 'Hi', JSON.stringify(String.fromCharCode(...sent)))
+  check('PIND reads an externally driven D2', (mcu.cpu.data[20] & 0x04) !== 0, `PIND=0x${mcu.cpu.data[20].toString(16)}`)
+}
+
+// --- Intel HEX firmware through the GPIO runner -----------------------------
+{
+  const words = assemble({ 0: [sbi(0x04, 5), sbi(0x05, 5), HALT] }).subarray(0, 4)
+  const bytes = Array.from(words).flatMap((w) => [w & 0xff, w >> 8])
+  const record = [bytes.length, 0, 0, 0, ...bytes]
+  const checksum = (0x100 - (record.reduce((a, b) => a + b, 0) & 0xff)) & 0xff
+  const hexByte = (b: number) => b.toString(16).padStart(2, '0').toUpperCase()
+  const hex = `:${[...record, checksum].map(hexByte).join('')}\n:00000001FF\n`
+
+  const runner = AvrFirmwareGPIO.fromFirmware(btoa(hex))
+  runner.updateStates(5)
+  check('HEX firmware drives D13 HIGH through the runner', runner.getCurrentStates().get(13)?.state === 'HIGH', '')
+
+  let threw = false
+  try {
+    parseIntelHex(hex.replace(/..\n:00/, '00\n:00'))
+  } catch (error) {
+    threw = error instanceof FirmwareFormatError
+  }
+  check('A bad checksum is rejected', threw, '')
+}
+
+finish()
@@ -0,0 +1,199 @@
+/**
+ * Bus links — UART, I2C and SPI buses found on a wired sheet, UART bytes
+ * routed between an MCU and a USB-serial bridge, the AVR's TWI and SPI
+ * hardware reaching modules through the bus hub, and Wire/SPI calls replayed
+ * for pattern-matched sketches.
+ *
+ * Run: npx tsx nodal_solver_tests/test_bus_links.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { busKindsForProtocol, findBusLinks } from '../src/systems/chain'
+import { busHub } from '../src/services/BusHub'
+import { getSerialChannel, type SerialChannel } from '../src/services/SerialMonitor'
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import { check, finish } from './check'
+
+const hex = (bytes: number[]) => bytes.map((b) => b.toString(16).padStart(2, '0')).join(' ')
+const rxLines = (channel: SerialChannel) =>
+  channel.getEntries().filter((entry) => entry.direction === 'rx').map((entry) => entry.text)
+
+const ids = { uno: '', serial: '', display: '' }
+const { gridData, wires } = buildSchematic('Buses', 'Uno to a USB-serial bridge and an SSD1306 on I2C and SPI', ({ place, wire }) => {
+  const uno = place('Arduino Uno R3', 10, 2)
+  const serial = place('Serial Driver', 2, 2)
+  const display = place('Display Driver', 20, 2)
+  Object.assign(ids, { uno: uno.id, serial: serial.id, display: display.id })
+
+  wire([uno.pin('D1/TX'), { x: 6, y: 9 }, { x: 6, y: 3 }, serial.pin('RX')])
+  wire([serial.pin('TX'), { x: 3, y: 0 }, { x: 14, y: 0 }, { x: 14, y: 8 }, uno.pin('D0/RX')])
+  wire([uno.pin('A4/SDA'), { x: 16, y: 7 }, { x: 16, y: 1 }, display.pin('SDA')])
+  wire([uno.pin('A5/SCL'), { x: 8, y: 8 }, { x: 8, y: 20 }, { x: 22, y: 20 }, display.pin('SCL')])
+  wire([uno.pin('D13/SCK'), { x: 7, y: 15 }, { x: 7, y: 18 }, { x: 20, y: 18 }, display.pin('D0')])
+  wire([uno.pin('D11/MOSI'), { x: 9, y: 14 }, { x: 9, y: 19 }, { x: 26, y: 19 }, { x: 26, y: 4 }, display.pin('D1')])
+  wire([uno.pin('D10'), { x: 18, y: 13 }, { x: 18, y: 10 }, { x: 25, y: 10 }, { x: 25, y: 3 }, display.pin('CS')])
+})
+
+// --- Topology ---------------------------------------------------------------------
+const links = findBusLinks(gridData, wires)
+{
+  const uart = links.filter((link) => link.kind === 'uart')
+  const toBridge = uart.find((link) => link.tx.componentId === ids.uno && link.rx.componentId === ids.serial)
+  const fromBridge = uart.find((link) => link.tx.componentId === ids.serial && link.rx.componentId === ids.uno)
+  check('TX → RX forms a UART link each way', uart.length === 2 && Boolean(toBridge && fromBridge), uart.map((l) => l.id).join(', '))
+  check('Only the MCU end is marked as a controller', toBridge?.tx.controller === true && toBridge?.rx.controller === false, '')
+
+  const i2c = links.find((link) => link.kind === 'i2c')
+  check(
+    'SDA + SCL form an I2C bus with the display at its default 0x3C',
+    i2c?.kind === 'i2c' && i2c.controllers.join() === ids.uno && i2c.devices[0]?.address === 0x3c,
+    JSON.stringify(i2c)
+  )
+
+  const spi = links.find((link) => link.kind === 'spi')
+  check(
+    'D0/D1 read as SCK/MOSI and CS traces back to D10',
+    spi?.kind === 'spi' && spi.controller === ids.uno && spi.devices[0]?.componentId === ids.display && spi.devices[0]?.cs === 10,
+    JSON.stringify(spi)
+  )
+}
+
+check('Protocol requirement text maps to bus kinds', busKindsForProtocol('I2C + BLE').join() === 'uart,i2c', busKindsForProtocol('I2C + BLE').join())
+check('LoRa modules hang off SPI', busKindsForProtocol('LoRa').join() === 'spi' && busKindsForProtocol('WiFi').length === 0, '')
+
+busHub.configure(links)
+
+const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+const sbrs = (r: number, b: number) => 0xfe00 | (r << 4) | b
+const rjmp = (k: number) => 0xc000 | (k & 0x0fff)
+const store = (addr: number, value: number) => [ldi(16, value), ...sts(addr, 16)]
+const waitFor = (addr: number, bit: number) => [...lds(17, addr), sbrs(17, bit), rjmp(-4)]
+
+// --- UART: firmware ↔ USB-serial bridge ------------------------------------------------
+{
+  const program = [
+    // 9600 baud, print "Hi\n", then echo whatever arrives
+    ...store(0xc0, 0x02), ...store(0xc4, 207), ...store(0xc1, 0x18),
+    ...store(0xc6, 0x48), ...store(0xc6, 0x69), ...store(0xc6, 0x0a),
+    ...waitFor(0xc0, 7), ...lds(18, 0xc6), ...sts(0xc6, 18), rjmp(-9),
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  runner.attachSerial(getSerialChannel(ids.uno))
+  const bridge = getSerialChannel(ids.serial)
+  runner.updateStates(2)
+  check('What the MCU transmits appears on the bridge', rxLines(bridge)[0] === 'Hi', JSON.stringify(rxLines(bridge)))
+  check('The bridge takes on the transmitter baud', Math.abs((bridge.deviceBaud ?? 0) - 9615) < 1, `${bridge.deviceBaud?.toFixed(0)} baud`)
+  bridge.send('ok', '\n')
+  runner.updateStates(4)
+  check('Bytes sent from the bridge reach the firmware and echo back', rxLines(bridge)[1] === 'ok', JSON.stringify(rxLines(bridge)))
+  const logged = busHub.getTransactions().filter((t) => t.kind === 'uart')
+  check(
+    'UART traffic is logged in both directions',
+    logged.some((t) => t.kind === 'uart' && t.from === ids.uno && String.fromCharCode(...t.bytes).startsWith('Hi')) &&
+      logged.some((t) => t.kind === 'uart' && t.from === ids.serial),
+    logged.map((t) => (t.kind === 'uart' ? `${t.from === ids.uno ? 'mcu' : 'bridge'}:${JSON.stringify(String.fromCharCode(...t.bytes))}` : '')).join(' ')
+  )
+  runner.stopSimulation()
+}
+
+// --- I2C: TWI master writes to the display, then addresses nobody ----------------------
+{
+  busHub.clear()
+  const waitTwint = waitFor(0xbc, 7)
+  const send = (byte: number) => [...store(0xbb, byte), ...store(0xbc, 0x84), ...waitTwint]
+  const program = [
+    ...store(0xb8, 72), // 100 kHz SCL at 16 MHz
+    ...store(0xbc, 0xa4), ...waitTwint, ...send(0x3c << 1), ...send(0x00), ...send(0xaf), ...store(0xbc, 0x94),
+    ...store(0xbc, 0xa4), ...waitTwint, ...send(0x50 << 1), ...lds(20, 0xb9), ...store(0xbc, 0x94),
+    rjmp(-1),
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  runner.attachBuses(busHub.port(ids.uno))
+  runner.updateStates(2)
+  const i2c = busHub.getTransactions().filter((t) => t.kind === 'i2c')
+  const [write, miss] = i2c
+  check(
+    'SLA+W to 0x3C is acknowledged and carries the data bytes',
+    write?.kind === 'i2c' && write.address === 0x3c && !write.read && write.acked && write.device === ids.display && hex(write.bytes) === '00 af',
+    JSON.stringify(write)
+  )
+  check('An unused address is NACKed', miss?.kind === 'i2c' && miss.address === 0x50 && !miss.acked, JSON.stringify(miss))
+  check('TWSR reports SLA+W NACK (0x20)', (runner.mcu.cpu.data[20] & 0xf8) === 0x20, `0x${runner.mcu.cpu.data[20].toString(16)}`)
+  runner.stopSimulation()
+}
+
+// --- SPI: two chip-select frames -------------------------------------------------------------
+{
+  busHub.clear()
+  const transfer = (byte: number) => [...store(0x4e, byte), ...waitFor(0x4d, 7), ...lds(21, 0x4e)]
+  const program = [
+    // SS, MOSI, SCK as outputs, CS (D10 = PB2) idle high, SPI master at F/4
+    ...store(0x24, 0x2c), ...store(0x25, 0x04), ...store(0x4c, 0x50),
+    ...store(0x25, 0x00), ...transfer(0xa5), ...transfer(0x5a), ...store(0x25, 0x04),
+    ...store(0x25, 0x00), ...transfer(0x11), ...store(0x25, 0x04),
+    ...transfer(0x22),
+    rjmp(-1),
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  runner.attachBuses(busHub.port(ids.uno))
+  runner.updateStates(2)
+  const frames = busHub.getTransactions().filter((t) => t.kind === 'spi')
+  check(
+    'Raising CS between transfers splits SPI frames',
+    frames.length === 3 && frames[0].kind === 'spi' && hex(frames[0].mosi) === 'a5 5a' && frames[1].kind === 'spi' && hex(frames[1].mosi) === '11',
+    frames.map((f) => (f.kind === 'spi' ? `[${f.devices.length}] ${hex(f.mosi)}` : '')).join(' | ')
+  )
+  check('A byte sent with CS high reaches no device', frames[2]?.kind === 'spi' && frames[2].devices.length === 0, '')
+  check('MISO idles high when the device does not drive it', frames[0]?.kind === 'spi' && hex(frames[0].miso) === 'ff ff', '')
+  runner.stopSimulation()
+}
+
+// --- Pattern-matched sketch: Wire and SPI calls ------------------------------------------------
+{
+  busHub.clear()
+  const sketch = `#include <Wire.h>
+#include <SPI.h>
+#define OLED 0x3C
+void setup() {
+  Wire.begin();
+  SPI.begin();
+  pinMode(10, OUTPUT);
+}
+void loop() {
+  Wire.beginTransmission(OLED);
+  Wire.write(0x00);
+  Wire.write(0xAF);
+  Wire.endTransmission();
+  digitalWrite(10, LOW);
+  SPI.transfer(0x42);
+  digitalWrite(10, HIGH);
+  delay(1000);
+}`
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  // The replay runs on the serial runner, as when the simulation starts
+  gpio.attachSerial(getSerialChannel(ids.uno))
+  gpio.attachBuses(busHub.port(ids.uno))
+  gpio.updateStates(0)
+  const transactions = busHub.getTransactions()
+  const write = transactions.find((t) => t.kind === 'i2c')
+  const frame = transactions.find((t) => t.kind === 'spi')
+  check(
+    'Wire.beginTransmission/write/endTransmission replays as an I2C write',
+    write?.kind === 'i2c' && write.address === 0x3c && write.acked && hex(write.bytes) === '00 af',
+    JSON.stringify(write)
+  )
+  check(
+    'SPI.transfer between digitalWrite(CS) calls selects the display',
+    frame?.kind === 'spi' && frame.devices.join() === ids.display && hex(frame.mosi) === '42',
+    JSON.stringify(frame)
+  )
+  gpio.stopSimulation()
+}
+
+finish()
@@ -0,0 +1,150 @@
+/**
+ * Electrical rule check — each rule firing on a small faulty sheet and staying
+ * quiet once the fault is fixed, plus waivers and severity overrides.
+ *
+ * Run: npx tsx nodal_solver_tests/test_erc.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { runElectricalRuleCheck, type ErcOptions, type ErcRuleId } from '../src/utils/electricalRuleCheck'
+import type { Schematic } from '../src/types/workspace'
+import { check, finish } from './check'
+
+const erc = (schematic: Schematic, options?: ErcOptions) =>
+  runElectricalRuleCheck(schematic.gridData, schematic.wires, options)
+const ofRule = (schematic: Schematic, rule: ErcRuleId, options?: ErcOptions) =>
+  erc(schematic, options).violations.filter((violation) => violation.rule === rule)
+const messages = (violations: Array<{ message: string }>) => JSON.stringify(violations.map((v) => v.message))
+
+function ledCircuit(resistor: boolean): Schematic {
+  return buildSchematic('LED', resistor ? '5 V through 330 Ω into an LED' : '5 V straight into an LED', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const l = place('LED', 10, 10)
+    if (resistor) {
+      const r = place('Resistor', 6, 10, { resistance: 330 })
+      wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+      wire([r.at(2, 0), l.pin('+')])
+    } else {
+      wire([ps.pin('5V'), { x: 2, y: 9 }, { x: 10, y: 9 }, l.pin('+')], { powered: true })
+    }
+    wire([l.pin('-'), { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], { grounded: true })
+  })
+}
+
+// --- LEDs ---------------------------------------------------------------------------
+{
+  const bare = ofRule(ledCircuit(false), 'led-current-limit')
+  check('LED across the supply is flagged', bare.length === 1 && bare[0].message.includes('LED1') && bare[0].severity === 'error', messages(bare))
+  check('its anode, cathode and the rail are highlighted', bare[0]?.cells.length === 3, JSON.stringify(bare[0]?.cells))
+  const limited = erc(ledCircuit(true))
+  check('a series resistor clears it', limited.violations.length === 0, messages(limited.violations))
+}
+
+// --- 5 V into an ESP32 --------------------------------------------------------------------
+{
+  const esp = (volts: number) =>
+    buildSchematic('ESP32', 'a bench supply wired to IO23', ({ place, wire }) => {
+      const ps = place('PowerSupply', 2, 4, { voltage: volts })
+      const board = place('ESP32-WROOM-32 (38-pin)', 10, 2)
+      wire([ps.pin('5V'), { x: 2, y: 3 }, board.pin('IO23')], { powered: true })
+      wire([ps.pin('GND'), { x: 3, y: 12 }, { x: 8, y: 12 }, { x: 8, y: 2 }, board.pin('GND')], { grounded: true })
+    })
+  const over = ofRule(esp(5), 'pin-overvoltage')
+  check('5 V on IO23 is over the 3.6 V limit', over.length === 1 && over[0].message.includes('IO23') && over[0].message.includes('3.6 V'), messages(over))
+  check('3.3 V is within it', ofRule(esp(3.3), 'pin-overvoltage').length === 0, messages(ofRule(esp(3.3), 'pin-overvoltage')))
+}
+
+// --- Floating inputs ----------------------------------------------------------------------
+const buttonToGround = (pulldown: boolean) =>
+  buildSchematic('Button', 'a button from D2 to GND', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 4)
+    const button = place('Push Button', 16, 9)
+    const uno = place('Arduino Uno R3', 10, 2)
+    wire([button.pin('IN'), uno.pin('D2')])
+    wire([button.pin('OUT'), { x: 18, y: 12 }, { x: 3, y: 12 }, ps.pin('GND')], { grounded: true })
+    if (pulldown) {
+      const r = place('Resistor', 20, 4, { resistance: 10_000 })
+      wire([r.at(0, 0), { x: 16, y: 4 }, uno.pin('D2')])
+    }
+  })
+{
+  const floating = ofRule(buttonToGround(false), 'floating-input')
+  check('D2 wired only to a button floats', floating.length === 1 && floating[0].message.includes('D2') && floating[0].severity === 'warning', messages(floating))
+  const pullup = ofRule(buttonToGround(false), 'floating-input', { gpio: new Map([[2, { pin: 2, state: 'INPUT', value: 1, timestamp: 0 }]]) })
+  check('INPUT_PULLUP holds it', pullup.length === 0, messages(pullup))
+  const resistor = ofRule(buttonToGround(true), 'floating-input')
+  check('so does an external resistor', resistor.length === 0, messages(resistor))
+}
+
+// --- Output conflicts -------------------------------------------------------------------
+{
+  const tied = buildSchematic('Tied outputs', 'D3 and D4 wired together', ({ place, wire }) => {
+    const uno = place('Arduino Uno R3', 10, 2)
+    wire([uno.pin('D3'), { x: 14, y: 14 }, uno.pin('D4')])
+  })
+  const gpio = (d4: string) =>
+    new Map([
+      [3, { pin: 3, state: 'HIGH', value: 1, timestamp: 0 }],
+      [4, { pin: 4, state: d4, value: d4 === 'HIGH' ? 1 : 0, timestamp: 0 }],
+    ])
+  const fight = ofRule(tied, 'output-conflict', { gpio: gpio('LOW') })
+  check('two outputs on one net conflict', fight.length === 1 && fight[0].message.includes('D3 (HIGH)') && fight[0].message.includes('D4 (LOW)'), messages(fight))
+  const input = ofRule(tied, 'output-conflict', { gpio: gpio('INPUT') })
+  check('an output into an input is fine', input.length === 0, messages(input))
+
+  const parallel = (volts: number) =>
+    buildSchematic('Parallel supplies', 'two supplies sharing a rail', ({ place, wire }) => {
+      const a = place('PowerSupply', 2, 4)
+      const b = place('PowerSupply', 2, 10, { voltage: volts })
+      const r = place('Resistor', 8, 4, { resistance: 1_000 })
+      wire([a.pin('5V'), r.at(0, 0)], { powered: true })
+      wire([b.pin('5V'), { x: 6, y: 9 }, { x: 6, y: 4 }, r.at(0, 0)], { powered: true })
+      wire([r.at(2, 0), { x: 10, y: 16 }, { x: 3, y: 16 }, b.pin('GND')], { grounded: true })
+      wire([a.pin('GND'), { x: 1, y: 16 }, { x: 3, y: 16 }], { grounded: true })
+    })
+  const clash = ofRule(parallel(3.3), 'output-conflict')
+  check('5 V and 3.3 V supplies on one rail conflict', clash.length === 1, messages(clash))
+  check('matching supplies may share it', ofRule(parallel(5), 'output-conflict').length === 0, messages(ofRule(parallel(5), 'output-conflict')))
+}
+
+// --- Supply pins ----------------------------------------------------------------------------
+{
+  const sensor = (powered: boolean) =>
+    buildSchematic('Sensor', 'a temperature probe on D2', ({ place, wire }) => {
+      const uno = place('Arduino Uno R3', 10, 2)
+      const probe = place('Temperature Sensor', 2, 2)
+      wire([probe.pin('DATA'), { x: 2, y: 12 }, { x: 16, y: 12 }, uno.pin('D2')])
+      if (powered) {
+        wire([probe.pin('VCC'), { x: 1, y: 1 }, { x: 14, y: 1 }, uno.pin('5V')])
+        wire([probe.pin('GND'), { x: 0, y: 14 }, { x: 9, y: 14 }, uno.pin('GND')], { grounded: true })
+      }
+    })
+  const bare = ofRule(sensor(false), 'unpowered-supply')
+  check('an unwired VCC is reported', bare.length === 1 && bare[0].message === 'TemperatureSensor1.VCC has no supply', messages(bare))
+  const fed = ofRule(sensor(true), 'unpowered-supply')
+  check('VCC from the Uno 5V pin counts as powered', fed.length === 0, messages(fed))
+}
+
+// --- Wire ratings -----------------------------------------------------------------------------
+{
+  const thin = ledCircuit(true)
+  thin.wires = thin.wires.map((wire, i) => (i === 0 ? { ...wire, gauge: 30, maxCurrent: 0.005 } : wire))
+  const hot = ofRule(thin, 'wire-overcurrent')
+  check('a 5 mA wire carrying the LED current is over its rating', hot.length === 1 && hot[0].wireIds[0] === thin.wires[0].id, messages(hot))
+  check('the whole run is highlighted', (hot[0]?.cells.length ?? 0) >= 2, JSON.stringify(hot[0]?.cells))
+}
+
+// --- Waivers and severities -------------------------------------------------------------------
+{
+  const sheet = ledCircuit(false)
+  const first = erc(sheet)
+  const id = first.violations[0]?.id ?? ''
+  const waived = erc(sheet, { waivers: [id] })
+  check('a waived violation is kept but not counted', waived.violations[0]?.waived === true && waived.errors === 0 && waived.waived === 1, `errors=${waived.errors} waived=${waived.waived}`)
+  check('ids are stable across runs', erc(sheet).violations[0]?.id === id, id)
+  const relaxed = erc(sheet, { severities: { 'led-current-limit': 'info' } })
+  check('severity overrides apply', relaxed.infos === 1 && relaxed.errors === 0, `infos=${relaxed.infos}`)
+  check('a rule can be turned off', erc(sheet, { severities: { 'led-current-limit': 'off' } }).violations.length === 0, '')
+}
+
+finish()
@@ -0,0 +1,168 @@
+/**
+ * ESP32 peripherals in pattern-matched sketches — LEDC PWM (core 2.x channels
+ * and 3.x ledcAttach), ledcWriteTone, the two DAC pins, capacitive touch pads,
+ * the stubbed WiFi/MQTT stack reporting to the Serial Monitor, and the solver
+ * flagging 5 V on a 3.3 V pin.
+ *
+ * Run: npx tsx nodal_solver_tests/test_esp32_peripherals.ts
+ */
+
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import { ESP32_INPUT_PROFILE, touchReading } from '../src/services/gpioInputs'
+import { SerialChannel } from '../src/services/SerialMonitor'
+import { gpioOutputVoltage } from '../src/systems/chain/components/registry'
+import { check, finish } from './check'
+
+const near = (a: number | undefined, b: number, tol = 1e-3) => a !== undefined && Math.abs(a - b) <= tol
+
+function run(sketch: string): DynamicGPIO {
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  return gpio
+}
+
+function stateAt(gpio: DynamicGPIO, pin: number, t: number) {
+  gpio.updateStates(t)
+  return gpio.getCurrentStates().get(pin)
+}
+
+// --- LEDC ------------------------------------------------------------------------
+{
+  const channel = stateAt(
+    run(`
+void setup() {
+  ledcSetup(0, 5000, 8);
+  ledcAttachPin(16, 0);
+  ledcWrite(0, 128);
+}
+void loop() {}`),
+    16,
+    100
+  )
+  check(
+    'ledcSetup/ledcAttachPin/ledcWrite → 5 kHz at 128/255',
+    channel?.state === 'PULSING' && channel.frequency === 5000 && near(channel.dutyCycle, 128 / 255),
+    `state=${channel?.state} f=${channel?.frequency} d=${channel?.dutyCycle}`
+  )
+
+  const fade = run(`
+const int led = 2;
+void setup() { ledcAttach(led, 1000, 10); }
+void loop() {
+  for (int duty = 0; duty <= 1023; duty++) { ledcWrite(led, duty); delay(1); }
+}`)
+  const early = stateAt(fade, 2, 256)
+  const late = stateAt(fade, 2, 768)
+  check(
+    'ledcAttach (core 3.x) fade ramps the duty on the pin',
+    early?.frequency === 1000 && near(early?.dutyCycle, 256 / 1023, 0.01) && near(late?.dutyCycle, 768 / 1023, 0.01),
+    `d=${early?.dutyCycle}, ${late?.dutyCycle}`
+  )
+
+  const maxCount = stateAt(run(`void setup() { ledcAttach(4, 5000, 8); ledcWrite(4, 255); }\nvoid loop() {}`), 4, 100)
+  const pastMax = stateAt(run(`void setup() { ledcAttach(4, 5000, 8); ledcWrite(4, 256); }\nvoid loop() {}`), 4, 100)
+  check(
+    'Duties of 2^bits - 1 and 2^bits are both fully on',
+    near(maxCount?.dutyCycle, 1) && near(pastMax?.dutyCycle, 1),
+    `d=${maxCount?.dutyCycle}, ${pastMax?.dutyCycle}`
+  )
+
+  const tone = run(`
+void setup() { ledcSetup(1, 1000, 8); ledcAttachPin(17, 1); }
+void loop() { ledcWriteTone(1, 440); delay(500); ledcWriteTone(1, 0); delay(500); }`)
+  const sounding = stateAt(tone, 17, 100)
+  const silent = stateAt(tone, 17, 700)
+  check(
+    'ledcWriteTone is a square wave, 0 Hz silences it',
+    sounding?.frequency === 440 && near(sounding?.dutyCycle, 0.5) && silent?.state === 'LOW',
+    `f=${sounding?.frequency} d=${sounding?.dutyCycle} then ${silent?.state}`
+  )
+}
+
+// --- DAC -------------------------------------------------------------------------
+{
+  const gpio = run(`
+void setup() { dacWrite(25, 128); dacWrite(14, 200); }
+void loop() {}`)
+  const dac = stateAt(gpio, 25, 100)
+  check('dacWrite(25, 128) holds 128/255', dac?.frequency === 0 && near(dac?.dutyCycle, 128 / 255), `f=${dac?.frequency} d=${dac?.dutyCycle}`)
+  const volts = gpioOutputVoltage('ESP32-WROOM-32 (38-pin)', dac).voltage
+  check('DAC1 solves to about 1.66 V', near(volts, 3.3 * (128 / 255), 0.01), `${volts.toFixed(3)} V`)
+  const ignored = stateAt(gpio, 14, 100)
+  check('dacWrite on a pin without a DAC does nothing', ignored === undefined || ignored.state === 'LOW', `state=${ignored?.state}`)
+}
+
+// --- Touch pads --------------------------------------------------------------------
+{
+  check(
+    'touchRead counts drop when the pad is touched',
+    touchReading(3.3, ESP32_INPUT_PROFILE) === 70 && touchReading(0, ESP32_INPUT_PROFILE) === 10,
+    `${touchReading(3.3, ESP32_INPUT_PROFILE)} / ${touchReading(0, ESP32_INPUT_PROFILE)}`
+  )
+  const gpio = run(`
+void setup() { pinMode(2, OUTPUT); }
+void loop() { if (touchRead(T0) < 40) { digitalWrite(2, HIGH); } else { digitalWrite(2, LOW); } }`)
+  gpio.setInputVoltages(new Map([[4, 3.3]]), ESP32_INPUT_PROFILE)
+  const idle = stateAt(gpio, 2, 10)
+  gpio.setInputVoltages(new Map([[4, 0]]), ESP32_INPUT_PROFILE)
+  const touched = stateAt(gpio, 2, 20)
+  check('touching T0 (GPIO4) switches the LED', idle?.state === 'LOW' && touched?.state === 'HIGH', `${idle?.state} → ${touched?.state}`)
+}
+
+// --- WiFi and MQTT notes ----------------------------------------------------------------
+{
+  const channel = new SerialChannel()
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(
+    gpio.analyzeCode(`
+#include <WiFi.h>
+#include <PubSubClient.h>
+const char* ssid = "workshop";
+WiFiClient espClient;
+PubSubClient client(espClient);
+void setup() {
+  Serial.begin(115200);
+  WiFi.begin(ssid, "secret");
+  Serial.println("booted");
+  client.setServer("broker.local", 1883);
+  client.connect("esp32-node");
+}
+void loop() {
+  client.publish("sensors/temp", "21.5");
+  delay(1000);
+}`)
+  )
+  gpio.attachSerial(channel)
+  channel.monitorBaud = 115200
+  for (let t = 0; t <= 1500; t += 100) gpio.updateStates(t)
+  const notes = channel.getEntries().filter((entry) => entry.direction === 'note').map((entry) => entry.text)
+  const printed = channel.getEntries().filter((entry) => entry.direction === 'rx').map((entry) => entry.text)
+  check('WiFi.begin connects at once', notes.includes('WiFi: connecting to "workshop"') && notes.some((note) => note.startsWith('WiFi: connected')), JSON.stringify(notes))
+  check('MQTT connect names the broker', notes.includes('MQTT: connected to broker.local:1883 as "esp32-node"'), JSON.stringify(notes))
+  check('each loop() publish is logged', notes.filter((note) => note === 'MQTT: publish "sensors/temp" "21.5"').length === 2, JSON.stringify(notes))
+  check('Serial output still reaches the monitor', printed.includes('booted'), JSON.stringify(printed))
+}
+
+// --- Pin voltage limit -------------------------------------------------------------------
+{
+  const overdriven = (volts: number) => {
+    const { gridData, wires } = buildSchematic('5 V into an ESP32', 'a bench supply wired straight to IO23', ({ place, wire }) => {
+      const ps = place('PowerSupply', 2, 4, { voltage: volts })
+      const esp = place('ESP32-WROOM-32 (38-pin)', 10, 2)
+      wire([ps.pin('5V'), { x: 2, y: 3 }, esp.pin('IO23')], { powered: true })
+      wire([ps.pin('GND'), { x: 3, y: 12 }, { x: 8, y: 12 }, { x: 8, y: 2 }, esp.pin('GND')], { grounded: true })
+    })
+    return solveCircuit(gridData, wires)
+  }
+  const over = overdriven(5)
+  check('5 V on IO23 is over the 3.6 V limit', over.warnings.some((warning) => warning.includes('IO23') && warning.includes('over its 3.6V limit')), JSON.stringify(over.warnings))
+  check('…as a warning, not an error', !over.errors.some((error) => error.includes('limit')), JSON.stringify(over.errors))
+  const fine = overdriven(3.3)
+  check('3.3 V on the same pin is fine', !fine.warnings.some((warning) => warning.includes('limit')), JSON.stringify(fine.warnings))
+}
+
+finish()
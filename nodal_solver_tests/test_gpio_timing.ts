@@ -0,0 +1,164 @@
+/**
+ * Sketch timing beyond delay() — the pattern matcher turns millis()/micros()
+ * timers into blinks, attachInterrupt handlers into outputs latched by solved
+ * input edges, tone()/noTone() into square-wave timelines and Servo writes
+ * into 50 Hz pulse trains.
+ *
+ * Run: npx tsx nodal_solver_tests/test_gpio_timing.ts
+ */
+
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import { ATMEGA328P_INPUT_PROFILE } from '../src/services/gpioInputs'
+import { check, finish } from './check'
+
+const near = (a: number | undefined, b: number, tol = 1e-3) => a !== undefined && Math.abs(a - b) <= tol
+
+function run(sketch: string): DynamicGPIO {
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  return gpio
+}
+
+function stateAt(gpio: DynamicGPIO, pin: number, t: number) {
+  gpio.updateStates(t)
+  return gpio.getCurrentStates().get(pin)
+}
+
+// --- BlinkWithoutDelay ---
+{
+  const sketch = `
+const int ledPin = 13;
+int ledState = LOW;
+unsigned long previousMillis = 0;
+const long interval = 250;
+void setup() { pinMode(ledPin, OUTPUT); }
+void loop() {
+  unsigned long currentMillis = millis();
+  if (currentMillis - previousMillis >= interval) {
+    previousMillis = currentMillis;
+    if (ledState == LOW) { ledState = HIGH; } else { ledState = LOW; }
+    digitalWrite(ledPin, ledState);
+  }
+}`
+  const animation = new DynamicGPIO().analyzeCode(sketch).find((a) => a.pin === 13)
+  check('millis() timer → BLINK', animation?.pattern === 'BLINK', `pattern=${animation?.pattern}`)
+  check('toggles every interval → 2 Hz', near(animation?.frequency, 2), `f=${animation?.frequency}`)
+
+  const micros = new DynamicGPIO()
+    .analyzeCode(`void setup() { pinMode(9, OUTPUT); }
+void loop() {
+  static unsigned long last = 0;
+  if (micros() - last >= 500000UL) { last = micros(); digitalWrite(9, !digitalRead(9)); }
+}`)
+    .find((a) => a.pin === 9)
+  check('micros() interval read in µs', micros?.pattern === 'BLINK' && near(micros.frequency, 1), `f=${micros?.frequency}`)
+}
+
+// --- attachInterrupt ---
+{
+  const sketch = `
+const byte buttonPin = 2;
+const byte ledPin = 13;
+volatile byte state = LOW;
+void setup() {
+  pinMode(ledPin, OUTPUT);
+  pinMode(buttonPin, INPUT_PULLUP);
+  attachInterrupt(digitalPinToInterrupt(buttonPin), blink, FALLING);
+}
+void loop() { digitalWrite(ledPin, state); }
+void blink() { state = !state; }`
+  const gpio = run(sketch)
+  const level = (t: number) => stateAt(gpio, 13, t)?.state
+  check('interrupt output starts at its initial level', level(0) === 'LOW', `state=${level(0)}`)
+
+  gpio.setInputVoltages(new Map([[2, 5]]), ATMEGA328P_INPUT_PROFILE)
+  check('released pulled-up button fires nothing', level(10) === 'LOW', `state=${level(10)}`)
+  gpio.setInputVoltages(new Map([[2, 0]]), ATMEGA328P_INPUT_PROFILE)
+  check('falling edge toggles the LED on', level(20) === 'HIGH', `state=${level(20)}`)
+  gpio.setInputVoltages(new Map([[2, 0]]), ATMEGA328P_INPUT_PROFILE)
+  gpio.setInputVoltages(new Map([[2, 5]]), ATMEGA328P_INPUT_PROFILE)
+  check('holding and releasing leaves it on', level(30) === 'HIGH', `state=${level(30)}`)
+  gpio.setInputVoltages(new Map([[2, 0]]), ATMEGA328P_INPUT_PROFILE)
+  check('next press toggles it off', level(40) === 'LOW', `state=${level(40)}`)
+
+  const flag = run(`
+volatile bool pressed = false;
+void onPress() { pressed = true; }
+void setup() {
+  pinMode(12, OUTPUT);
+  pinMode(3, INPUT);
+  attachInterrupt(1, onPress, RISING);
+}
+void loop() {
+  if (pressed) { pressed = false; digitalWrite(12, HIGH); }
+}`)
+  flag.setInputVoltages(new Map([[3, 0]]), ATMEGA328P_INPUT_PROFILE)
+  flag.setInputVoltages(new Map([[3, 5]]), ATMEGA328P_INPUT_PROFILE)
+  const latched = stateAt(flag, 12, 5)
+  check('flag set in the ISR, acted on in loop() (INT1 = D3)', latched?.state === 'HIGH', `state=${latched?.state}`)
+}
+
+// --- tone() ---
+{
+  const gpio = run(`
+const int buzzer = 8;
+void setup() { pinMode(buzzer, OUTPUT); }
+void loop() {
+  tone(buzzer, 440, 200);
+  delay(500);
+  tone(buzzer, 880);
+  delay(300);
+  noTone(buzzer);
+  delay(200);
+}`)
+  const a = stateAt(gpio, 8, 100)
+  check('tone(pin, 440) is a 440 Hz square wave', a?.state === 'PULSING' && a.frequency === 440 && near(a.dutyCycle, 0.5), `f=${a?.frequency} d=${a?.dutyCycle}`)
+  const quiet = stateAt(gpio, 8, 300)
+  check('duration ends the tone', quiet?.state === 'LOW', `state=${quiet?.state}`)
+  const b = stateAt(gpio, 8, 600)
+  check('second tone at 880 Hz', b?.frequency === 880, `f=${b?.frequency}`)
+  const off = stateAt(gpio, 8, 900)
+  check('noTone silences the pin', off?.state === 'LOW', `state=${off?.state}`)
+  const again = stateAt(gpio, 8, 1050)
+  check('loop() repeats every 1 s', again?.frequency === 440, `f=${again?.frequency}`)
+}
+
+// --- Servo ---
+{
+  const gpio = run(`
+#include <Servo.h>
+Servo myservo;
+int pos = 0;
+void setup() { myservo.attach(9); }
+void loop() {
+  for (pos = 0; pos <= 180; pos += 1) { myservo.write(pos); delay(15); }
+  for (pos = 180; pos >= 0; pos -= 1) { myservo.write(pos); delay(15); }
+}`)
+  const start = stateAt(gpio, 9, 0)
+  check('servo pulses at 50 Hz', start?.state === 'PULSING' && start.frequency === 50, `state=${start?.state} f=${start?.frequency}`)
+  check('0° is a 544 µs pulse', near(start?.dutyCycle, 544 / 20_000), `d=${start?.dutyCycle}`)
+  const top = stateAt(gpio, 9, 181 * 15)
+  check('sweep reaches 180° (2400 µs)', near(top?.dutyCycle, 2400 / 20_000), `d=${top?.dutyCycle}`)
+  const mid = stateAt(gpio, 9, 181 * 15 + 90 * 15)
+  check('sweeps back through 90°', near(mid?.dutyCycle, 1472 / 20_000, 2e-3), `d=${mid?.dutyCycle}`)
+
+  const fixed = run(`
+#include <Servo.h>
+Servo arm;
+void setup() { arm.attach(6, 1000, 2000); arm.write(90); }
+void loop() {}`)
+  const held = stateAt(fixed, 6, 500)
+  check('write(90) with custom limits → 1500 µs, held', near(held?.dutyCycle, 1500 / 20_000), `d=${held?.dutyCycle}`)
+
+  const micro = run(`
+#include <Servo.h>
+Servo s;
+void setup() { s.attach(5); }
+void loop() { s.writeMicroseconds(1200); delay(1000); s.write(2000); delay(1000); }`)
+  const first = stateAt(micro, 5, 100)
+  const second = stateAt(micro, 5, 1100)
+  check('writeMicroseconds and write(µs) set the pulse width', near(first?.dutyCycle, 0.06) && near(second?.dutyCycle, 0.1), `d=${first?.dutyCycle}, ${second?.dutyCycle}`)
+}
+
+finish()
@@ -0,0 +1,195 @@
+/**
+ * Logic analyzer — UART, I2C, SPI and servo decoders run over generated
+ * waveforms, edge triggers, PWM drawn out from frame samples, the AVR's
+ * port writes and bus hardware captured as edges, and logic-gate outputs
+ * recorded from a circuit solve.
+ *
+ * Run: npx tsx nodal_solver_tests/test_logic_analyzer.ts
+ */
+
+import { solveCircuit } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { LogicCapture, logicCapture } from '../src/services/LogicCapture'
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import {
+  decodeI2c,
+  decodeServo,
+  decodeSpi,
+  decodeUart,
+  edgesInWindow,
+  findTrigger,
+  findTriggerAfter,
+  i2cEdges,
+  spiByteEdges,
+  uartFrameEdges,
+  type LineEdge,
+  type LogicEdge,
+} from '../src/utils/logicAnalyzer'
+import { check, finish } from './check'
+
+const texts = (spans: Array<{ text: string }>) => spans.map((span) => span.text).join(' | ')
+
+/** Lay generated line changes end to end as traces, each line starting at `idle`. */
+function traces<Line extends string>(ops: Array<Array<LineEdge<Line>>>, idle: Record<Line, boolean>, gap = 0) {
+  const lines = new Map<Line, LogicEdge[]>()
+  ;(Object.keys(idle) as Line[]).forEach((line) => lines.set(line, [{ t: 0, level: idle[line] }]))
+  let t = 1
+  ops.forEach((edges) => {
+    edges.forEach((edge) => {
+      const trace = lines.get(edge.line)!
+      if (trace[trace.length - 1].level !== edge.level) trace.push({ t: t + edge.dt, level: edge.level })
+    })
+    t += Math.max(...edges.map((edge) => edge.dt)) + gap
+  })
+  return (line: Line) => lines.get(line)!
+}
+
+// --- Decoders over generated waveforms ----------------------------------------------
+{
+  const tx = traces([...'Hi\n'].map((c) => uartFrameEdges(c.charCodeAt(0), 9600)), { tx: true }, 0.2)
+  check('UART frames decode back to their bytes', texts(decodeUart(tx('tx'), 9600)) === "'H' | 'i' | \\n", texts(decodeUart(tx('tx'), 9600)))
+  check('The wrong baud reports framing errors', decodeUart(tx('tx'), 4800).some((span) => span.error), texts(decodeUart(tx('tx'), 4800)))
+
+  const i2c = traces(
+    [
+      i2cEdges({ kind: 'start' }, 100_000),
+      i2cEdges({ kind: 'byte', byte: 0x3c << 1, ack: true }, 100_000),
+      i2cEdges({ kind: 'byte', byte: 0xaf, ack: false }, 100_000),
+      i2cEdges({ kind: 'stop' }, 100_000),
+    ],
+    { sda: true, scl: true }
+  )
+  const decoded = texts(decodeI2c(i2c('sda'), i2c('scl')))
+  check('I2C decodes START, address with direction, data with NACK, STOP', decoded === 'S | 0x3C W ACK | 0xAF NACK | P', decoded)
+
+  const modes = [0, 1, 2, 3].map((mode) => {
+    const spi = traces([spiByteEdges(0xa5, 0x3c, 1_000_000, mode), spiByteEdges(0x01, 0x80, 1_000_000, mode)], {
+      sck: mode >= 2,
+      mosi: false,
+      miso: false,
+    })
+    return texts(decodeSpi(spi('sck'), spi('mosi'), spi('miso'), { mode }))
+  })
+  check(
+    'SPI decodes in all four modes',
+    modes.every((text) => text === 'MOSI 0xA5 MISO 0x3C | MOSI 0x01 MISO 0x80'),
+    modes.join(' / ')
+  )
+
+  const cs: LogicEdge[] = [
+    { t: 0, level: true },
+    { t: 0.5, level: false },
+    { t: 1.008, level: true },
+  ]
+  const split = traces([spiByteEdges(0xff, 0, 1_000_000, 0), spiByteEdges(0x0f, 0, 1_000_000, 0)], { sck: false, mosi: false, miso: false })
+  const framed = texts(decodeSpi(split('sck'), split('mosi'), null, { mode: 0, cs }))
+  check('Clocks while CS is high are ignored', framed === 'MOSI 0xFF', framed)
+
+  const servo: LogicEdge[] = [0, 20, 40].flatMap((t, i) => [
+    { t, level: true },
+    { t: t + [0.544, 1.472, 2.4][i], level: false },
+  ])
+  const angles = texts(decodeServo([{ t: -1, level: false }, ...servo]))
+  check('Servo pulse widths map to 0°, 90° and 180°', angles === '544 µs 0° | 1472 µs 90° | 2400 µs 180°', angles)
+}
+
+// --- Triggers and windows ----------------------------------------------------------------
+{
+  const edges: LogicEdge[] = [
+    { t: 0, level: false },
+    { t: 1, level: true },
+    { t: 2, level: false },
+    { t: 3, level: true },
+  ]
+  check(
+    'Triggers find the last edge before and the first after a time',
+    findTrigger(edges, 'rising', 2.5) === 1 && findTrigger(edges, 'falling') === 2 && findTriggerAfter(edges, 'either', 1) === 2,
+    ''
+  )
+  const view = edgesInWindow(edges, 1.5, 2.5)
+  check('A window carries the level it opens on', view.initial === true && view.edges.length === 1 && !view.edges[0].level, JSON.stringify(view))
+}
+
+// --- PWM from frame samples ------------------------------------------------------------------
+{
+  const capture = new LogicCapture()
+  capture.start()
+  const start = Date.now()
+  const pwm = new Map([[9, { pin: 9, state: 'PULSING' as const, value: 0.25, frequency: 500, dutyCycle: 0.25, timestamp: 0 }]])
+  capture.sampleGpio('uno', pwm, start, 0)
+  capture.sampleGpio('uno', pwm, start, 20)
+  const edges = capture.getTraces()[0]?.edges ?? []
+  const highs = edges.slice(1).filter((edge, i, list) => edge.level && list[i + 1])
+  const widths = highs.map((edge) => edges[edges.indexOf(edge) + 1].t - edge.t)
+  check(
+    'A PULSING pin is drawn as a square wave between samples',
+    highs.length >= 9 && widths.every((width) => Math.abs(width - 0.5) < 1e-6),
+    `${highs.length} pulses, widths ${[...new Set(widths.map((w) => w.toFixed(3)))].join(',')} ms`
+  )
+  capture.stop()
+  capture.sampleGpio('uno', pwm, start, 40)
+  check('Nothing is recorded while stopped', capture.getTraces()[0].edges.length === edges.length, '')
+}
+
+// --- AVR edges: port writes, USART, TWI and SPI ----------------------------------------------
+const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+const sbrs = (r: number, b: number) => 0xfe00 | (r << 4) | b
+const rjmp = (k: number) => 0xc000 | (k & 0x0fff)
+const store = (addr: number, value: number) => [ldi(16, value), ...sts(addr, 16)]
+const waitFor = (addr: number, bit: number) => [...lds(17, addr), sbrs(17, bit), rjmp(-4)]
+{
+  const waitTwint = waitFor(0xbc, 7)
+  const twiSend = (byte: number) => [...store(0xbb, byte), ...store(0xbc, 0x84), ...waitTwint]
+  const program = [
+    // D2 pulses high, USART prints "A" at 9600 baud
+    ...store(0x2a, 0x04), ...store(0x2b, 0x04), ...store(0x2b, 0x00),
+    ...store(0xc0, 0x02), ...store(0xc4, 207), ...store(0xc1, 0x08), ...store(0xc6, 0x41),
+    // TWI at 100 kHz: START, SLA+W 0x3C (nobody answers), STOP
+    ...store(0xb8, 72), ...store(0xbc, 0xa4), ...waitTwint, ...twiSend(0x3c << 1), ...store(0xbc, 0x94),
+    // SPI master, mode 0 at F/16: send 0xA5
+    ...store(0x24, 0x2c), ...store(0x4c, 0x51), ...store(0x4e, 0xa5), ...waitFor(0x4d, 7),
+    rjmp(-1),
+  ]
+  logicCapture.clear()
+  logicCapture.start()
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  runner.attachLogic(logicCapture.probe('avr', runner.getStartTime()))
+  runner.updateStates(5)
+  const trace = (pin: number) => logicCapture.getTraces().find((t) => t.id === `avr:${pin}`)?.edges ?? []
+
+  const d2 = trace(2)
+  check('Port writes are captured at instruction resolution', d2.length === 2 && d2[1].t - d2[0].t < 0.001, JSON.stringify(d2))
+  check('USART bytes are drawn on TX', texts(decodeUart(trace(1), 9600)) === "'A'", texts(decodeUart(trace(1), 9600)))
+  const twi = texts(decodeI2c(trace(104), trace(105)))
+  check('TWI START, SLA+W NACK and STOP are drawn on A4/A5', twi === 'S | 0x3C W NACK | P', twi)
+  const spi = texts(decodeSpi(trace(13), trace(11), null, { mode: 0 }))
+  check('SPI shifts are drawn on SCK/MOSI', spi === 'MOSI 0xA5', spi)
+  runner.stopSimulation()
+  logicCapture.stop()
+}
+
+// --- Logic-gate outputs from a solve -------------------------------------------------------------
+{
+  const { gridData, wires } = buildSchematic('Inverter', 'A 74HC04 with 1A tied low', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 4, { voltage: 5 })
+    const chip = place('74HC04', 12, 4)
+    wire([ps.pin('5V'), { x: 2, y: 1 }, chip.pin('VCC')], { powered: true })
+    wire([chip.pin('GND'), { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+    wire([chip.pin('1A'), { x: 9, y: 14 }, { x: 3, y: 14 }], { grounded: true })
+  })
+  const result = solveCircuit(gridData, wires)
+  const capture = new LogicCapture()
+  capture.start()
+  capture.sampleCircuit(result.nodeVoltages, result.logicGates)
+  const gate = capture.getTraces().find((trace) => trace.source.kind === 'gate' && trace.source.gate === 0)
+  check(
+    'The solver reports settled gate outputs and the capture records them',
+    gate?.source.kind === 'gate' && gate.source.chipId === '74HC04' && gate.edges[0]?.level === true,
+    JSON.stringify(gate ?? result.logicGates)
+  )
+}
+
+finish()
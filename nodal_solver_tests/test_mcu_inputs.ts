@@ -0,0 +1,147 @@
+/**
+ * Circuit → MCU inputs — a potentiometer on A0 and a push button on D2 (with
+ * the internal pull-up) are solved, read back off the Uno's pins and fed to
+ * the AVR emulator and to the sketch pattern matcher as analogRead counts and
+ * digitalRead levels.
+ *
+ * Run: npx tsx nodal_solver_tests/test_mcu_inputs.ts
+ */
+
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { readMcuPinVoltages } from '../src/systems/chain'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import {
+  ATMEGA328P_INPUT_PROFILE,
+  ESP32_INPUT_PROFILE,
+  adcReading,
+  digitalInputLevel,
+} from '../src/services/gpioInputs'
+import { check, finish } from './check'
+
+const PULLUP = { pin: 2, state: 'INPUT', value: 1, timestamp: 0 }
+
+function potAndButton(wiperPosition: number, pressed: boolean) {
+  const schematic = buildSchematic('Pot + button', '5 V across a pot into A0, button from D2 to GND', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 4, { voltage: 5 })
+    const pot = place('Potentiometer', 18, 5, { resistance: 10_000, wiperPosition })
+    const button = place('Push Button', 16, 9)
+    const uno = place('Arduino Uno R3', 10, 2)
+
+    wire([ps.pin('5V'), { x: 2, y: 1 }, { x: 18, y: 1 }, pot.pin('A')], { powered: true })
+    wire([pot.pin('W'), { x: 19, y: 7 }, { x: 14, y: 7 }, { x: 14, y: 5 }, uno.pin('A0')])
+    wire([pot.pin('B'), { x: 20, y: 12 }, { x: 18, y: 12 }, { x: 3, y: 12 }, ps.pin('GND')], { grounded: true })
+    wire([button.pin('IN'), uno.pin('D2')])
+    wire([button.pin('OUT'), { x: 18, y: 12 }], { grounded: true })
+  })
+  if (pressed) schematic.gridData[9][17] = { ...schematic.gridData[9][17], isOn: true }
+  return schematic
+}
+
+function unoPins(wiperPosition: number, pressed: boolean, gpio = new Map<number, any>([[2, PULLUP]])) {
+  const { gridData, wires } = potAndButton(wiperPosition, pressed)
+  const result = solveCircuit(gridData, wires, gpio)
+  const readings = [...readMcuPinVoltages(gridData, result.nodeVoltages).values()]
+  return readings[0]?.pins ?? new Map<number, number>()
+}
+
+// --- Input conversion --------------------------------------------------------
+check('Uno ADC is 10-bit on 5 V', adcReading(2.5, ATMEGA328P_INPUT_PROFILE) === 512, '')
+check('ESP32 ADC is 12-bit on 3.3 V', adcReading(1.65, ESP32_INPUT_PROFILE) === 2048 && adcReading(4, ESP32_INPUT_PROFILE) === 4095, '')
+check(
+  'Digital thresholds hold the last level between VIL and VIH',
+  digitalInputLevel(2.0, ATMEGA328P_INPUT_PROFILE, true) && !digitalInputLevel(2.0, ATMEGA328P_INPUT_PROFILE, false) &&
+    digitalInputLevel(3.5, ATMEGA328P_INPUT_PROFILE) && !digitalInputLevel(1.0, ATMEGA328P_INPUT_PROFILE, true),
+  ''
+)
+
+// --- Solved pin voltages -----------------------------------------------------
+const released = unoPins(0.25, false)
+const pressed = unoPins(0.25, true)
+const a0 = released.get(100) ?? NaN
+check('Wiper voltage reaches A0', Math.abs(a0 - 3.75) < 0.05, `${a0.toFixed(3)} V`)
+check('Pull-up holds a released button HIGH', (released.get(2) ?? 0) > 4.9, `${released.get(2)?.toFixed(3)} V`)
+check('Pressing the button pulls D2 LOW', (pressed.get(2) ?? 5) < 0.1, `${pressed.get(2)?.toFixed(3)} V`)
+const floating = unoPins(0.25, false, new Map())
+check('Without the pull-up a released button reads 0 V', (floating.get(2) ?? 5) < 0.1, `${floating.get(2)?.toFixed(3)} V`)
+
+// --- AVR firmware reads them ---------------------------------------------------
+{
+  const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+  const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+  const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+  const inp = (r: number, a: number) => 0xb000 | ((a & 0x30) << 5) | (r << 4) | (a & 0x0f)
+  const sbrc = (r: number, b: number) => 0xfc00 | (r << 4) | b
+  const rjmp = (k: number) => 0xc000 | (k & 0x0fff)
+  // loop: analogRead(A0) into r25:r24, PIND into r20
+  const program = [
+    ldi(16, 0x40), ...sts(0x7c, 16),
+    ldi(16, 0xc7), ...sts(0x7a, 16),
+    ...lds(16, 0x7a), sbrc(16, 6), rjmp(-4),
+    ...lds(24, 0x78), ...lds(25, 0x79),
+    inp(20, 0x09),
+    rjmp(-16),
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  const sample = (pins: Map<number, number>, atMs: number) => {
+    runner.setInputVoltages(pins)
+    runner.updateStates(atMs)
+    const data = runner.mcu.cpu.data
+    return { adc: data[24] | (data[25] << 8), d2: (data[20] & 0x04) !== 0 }
+  }
+
+  const up = sample(released, 5)
+  const expected = adcReading(a0, ATMEGA328P_INPUT_PROFILE)
+  check('Firmware analogRead(A0) matches the wiper', Math.abs(up.adc - expected) <= 1, `${up.adc} (expected ${expected})`)
+  check('Firmware digitalRead(D2) is HIGH when released', up.d2, '')
+  const down = sample(pressed, 10)
+  check('Firmware digitalRead(D2) is LOW when pressed', !down.d2, '')
+  const turned = sample(unoPins(0.75, false), 15)
+  check('Turning the pot changes the firmware reading', Math.abs(turned.adc - up.adc) > 400, `${up.adc} → ${turned.adc}`)
+}
+
+// --- Pattern-matched sketch follows its inputs ----------------------------------
+{
+  const sketch = `
+const int BUTTON = 2;
+const int LED = 9;
+
+void setup() {
+  pinMode(BUTTON, INPUT_PULLUP);
+  pinMode(LED, OUTPUT);
+}
+
+void loop() {
+  int level = analogRead(A0);
+  analogWrite(LED, map(level, 0, 1023, 0, 255));
+  if (digitalRead(BUTTON) == LOW) {
+    digitalWrite(13, HIGH);
+  } else {
+    digitalWrite(13, LOW);
+  }
+}`
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  const states = gpio.getCurrentStates()
+  check('INPUT_PULLUP reports an input with its pull-up', states.get(2)?.state === 'INPUT' && states.get(2)?.value === 1, JSON.stringify(states.get(2)))
+
+  // Drive the solve with the sketch's own states so the pull-up comes from pinMode
+  const { gridData, wires } = potAndButton(0.25, true)
+  const result = solveCircuit(gridData, wires, states)
+  const pins = [...readMcuPinVoltages(gridData, result.nodeVoltages).values()][0].pins
+  gpio.setInputVoltages(pins, ATMEGA328P_INPUT_PROFILE)
+  gpio.updateStates(20)
+  const led = gpio.getCurrentStates().get(9)
+  const duty = adcReading(pins.get(100) ?? 0, ATMEGA328P_INPUT_PROFILE) / 1023
+  check('analogWrite follows map(analogRead(A0))', led?.state === 'PULSING' && Math.abs((led?.dutyCycle ?? 0) - duty) < 0.01, `${led?.state} ${led?.dutyCycle?.toFixed(3)}`)
+  check('Pressed button turns D13 on', gpio.getCurrentStates().get(13)?.state === 'HIGH', '')
+
+  gpio.setInputVoltages(unoPins(0.25, false), ATMEGA328P_INPUT_PROFILE)
+  gpio.updateStates(40)
+  check('Released button turns D13 off', gpio.getCurrentStates().get(13)?.state === 'LOW', '')
+}
+
+finish()
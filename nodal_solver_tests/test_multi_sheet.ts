@@ -0,0 +1,151 @@
+/**
+ * Multi-sheet schematics — a power sheet and an LED sheet joined by a port and
+ * solved as one netlist, linked sheets found transitively through ports only,
+ * sheet-local net labels staying apart, power flags joining only sheets a port
+ * linked, the solve cut back down to the open sheet, and the agent and
+ * headless reports solving across sheets.
+ *
+ * Run: npx tsx nodal_solver_tests/test_multi_sheet.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { solveCircuit } from '../src/systems/chain'
+import { calculateElectricalFlow, type GridCell } from '../src/systems/ElectricalSystem'
+import { linkSheets, linkedSheetsOf, sliceToSheet } from '../src/utils/multiSheet'
+import { simulateSchematic as agentSimulate } from '../src/agent/schematic/operations'
+import { simulateSchematic as reportSimulate } from '../src/utils/projectReport'
+import { collectSchematicExport } from '../src/services/schematicExport/collectSchematic'
+import { createSchematicCellLabel, type Schematic, type SchematicCellLabel, type SchematicLabelKind } from '../src/types/workspace'
+import { check, finish } from './check'
+
+const label = (x: number, y: number, text: string, kind: SchematicLabelKind) => createSchematicCellLabel(x, y, text, kind)
+
+// The supply on one sheet, its 5 V pin carried out on a port.
+const power = {
+  ...buildSchematic('Power stage', 'a 5 V supply', ({ place }) => {
+    place('PowerSupply', 2, 10)
+  }),
+  labels: [label(2, 10, '5V', 'port')],
+}
+
+// 330 Ω → LED on another, fed by the same port and returned through a GND flag.
+const ledSheet = (portKind: SchematicLabelKind): Schematic => ({
+  ...buildSchematic('LED board', 'an LED fed from the power sheet', ({ place, wire }) => {
+    const r = place('Resistor', 6, 10, { resistance: 330 })
+    const l = place('LED', 10, 10)
+    wire([r.at(2, 0), l.pin('+')])
+  }),
+  labels: [label(6, 10, '5V', portKind), label(12, 10, 'GND', 'power')],
+})
+const led = ledSheet('port')
+const project = [power, led]
+
+const ledOn = (states: Map<string, { componentType?: string; isOn?: boolean }>) =>
+  [...states.values()].some((state) => state.componentType === 'LED' && state.isOn)
+
+// --- Solving across sheets -------------------------------------------------------------------
+{
+  const alone = linkSheets(led, [])
+  check('on its own the LED sheet is dark', !ledOn(solveCircuit(alone.gridData, alone.wires).componentStates), '')
+
+  const circuit = linkSheets(led, project)
+  const solved = solveCircuit(circuit.gridData, circuit.wires)
+  check('linked to the power sheet, the LED lights', ledOn(solved.componentStates), `works=${solved.works} ${solved.errors.join('; ')}`)
+  check(
+    'the power sheet is found through its port',
+    circuit.sheets.length === 1 && circuit.sheets[0].schematicId === power.id && circuit.sheets[0].sharedNets.join() === '5V',
+    JSON.stringify(circuit.sheets)
+  )
+
+  const fromPower = linkSheets(power, project)
+  const powerSolve = solveCircuit(fromPower.gridData, fromPower.wires)
+  check(
+    "solving from the power sheet lights the other sheet's LED",
+    [...powerSolve.componentStates.entries()].some(([id, state]) => id.startsWith(`${led.id}/`) && state.componentType === 'LED' && state.isOn),
+    ''
+  )
+
+  const local = ledSheet('net')
+  const localCircuit = linkSheets(local, [power, local])
+  check('a same-named net label stays on its sheet', localCircuit.sheets.length === 0 && !ledOn(solveCircuit(localCircuit.gridData, localCircuit.wires).componentStates), '')
+
+  const flagged = ledSheet('power')
+  const flaggedCircuit = linkSheets(flagged, [power, flagged])
+  check('a same-named power flag does not link sheets', flaggedCircuit.sheets.length === 0 && !ledOn(solveCircuit(flaggedCircuit.gridData, flaggedCircuit.wires).componentStates), '')
+}
+
+// --- Stacking and slicing ----------------------------------------------------------------------
+{
+  const circuit = linkSheets(led, project)
+  const [band] = circuit.sheets
+  const foreignWires = circuit.wires.filter((wire) => wire.id.startsWith(`${power.id}/`))
+  const foreignCells = circuit.gridData.slice(band.offsetY).flat().filter((cell) => cell?.componentId)
+  check('linked sheets go below the open one', band.offsetY > led.gridData.length && circuit.gridData.length === band.offsetY + band.height, `offset ${band.offsetY}, rows ${circuit.gridData.length}`)
+  check(
+    'their component and wire ids are prefixed',
+    foreignCells.length > 0 && foreignCells.every((cell) => cell.componentId!.startsWith(`${power.id}/`)) && foreignWires.length === power.wires.length,
+    `${foreignCells.length} cells, ${foreignWires.length} wires`
+  )
+  check('the open sheet keeps its own ids', circuit.wires.slice(0, led.wires.length).every((wire, i) => wire.id === led.wires[i].id), '')
+
+  const stamped = (grid: typeof circuit.gridData, x: number, y: number) => grid[y]?.[x]?.netLabel
+  const twoLocal = (sheet: Schematic): Schematic => ({ ...sheet, labels: [...(sheet.labels ?? []), label(8, 10, 'VLED', 'net')] })
+  const scoped = linkSheets(twoLocal(led), [twoLocal(power), twoLocal(led)])
+  check(
+    'net labels are scoped to their sheet, ports are not',
+    stamped(scoped.gridData, 8, 10) === `${led.id}:VLED` && stamped(scoped.gridData, 6, 10) === '5V',
+    `${stamped(scoped.gridData, 8, 10)} / ${stamped(scoped.gridData, 6, 10)}`
+  )
+  const withRail = (sheet: Schematic): Schematic => ({ ...sheet, labels: [...(sheet.labels ?? []), label(4, 12, 'VBUS', 'power')] })
+  const railed = linkSheets(withRail(led), [withRail(power), withRail(led)])
+  const linkedRow = (railed.sheets[0]?.offsetY ?? 0) + 12
+  check(
+    'power flags join rails across port-linked sheets',
+    stamped(railed.gridData, 4, 12) === 'VBUS' && stamped(railed.gridData, 4, linkedRow) === 'VBUS',
+    `${stamped(railed.gridData, 4, 12)} / ${stamped(railed.gridData, 4, linkedRow)}`
+  )
+
+  // What ProjectGrid does with the open sheet's linked solve
+  const sliced = sliceToSheet(calculateElectricalFlow(circuit.gridData as GridCell[][], circuit.wires), circuit, led.gridData.length)
+  check(
+    'the solve is cut back down to the open sheet',
+    sliced.updatedGridData.length === led.gridData.length &&
+      sliced.updatedWires.length === led.wires.length &&
+      [...sliced.componentStates.keys()].every((id) => !id.startsWith(`${power.id}/`)) &&
+      ledOn(sliced.componentStates),
+    `${sliced.updatedGridData.length} rows, ${sliced.updatedWires.length} wires, ${sliced.componentStates.size} states`
+  )
+}
+
+// --- Linking through a chain of sheets -----------------------------------------------------------
+{
+  const sheet = (id: string, labels: SchematicCellLabel[]) => ({ id, name: id, gridData: [], wires: [], labels })
+  const a = sheet('a', [label(0, 0, 'P', 'port')])
+  const b = sheet('b', [label(0, 0, 'P', 'port'), label(1, 0, 'Q', 'port')])
+  const c = sheet('c', [label(0, 0, 'Q', 'port'), label(1, 0, '3V3', 'power')])
+  const d = sheet('d', [label(0, 0, 'R', 'port'), label(1, 0, 'P', 'net')])
+  const e = sheet('e', [label(0, 0, '3V3', 'power')])
+  const reached = linkedSheetsOf(a, [a, d, e, c, b]).map(({ sheet }) => sheet.id)
+  check('sheets are linked transitively through ports', reached.join() === 'b,c', reached.join())
+  check('not through a power flag alone', !reached.includes('e'), reached.join())
+  check('and not through a local net label', !reached.includes('d'), reached.join())
+}
+
+// --- Agent, headless report and export ------------------------------------------------------------
+{
+  const agent = agentSimulate(led, project)
+  check('schematic_simulate solves with the linked sheets', agent.works && agent.linkedSheets.map((s) => s.name).join() === 'Power stage', JSON.stringify(agent.linkedSheets))
+
+  const report = reportSimulate('Project', led, undefined, project)
+  const ledPart = report.parts.find((part) => part.module === 'LED')
+  check(
+    "the project report lists only the sheet's own parts",
+    report.parts.length === 2 && !!ledPart?.isOn && report.linkedSheets.join() === 'Power stage',
+    report.parts.map((part) => `${part.ref}:${part.isOn}`).join(' ')
+  )
+
+  const exported = collectSchematicExport(power)
+  check('ports export as global labels', exported.netLabels.some((l) => l.kind === 'port' && l.name === '5V'), JSON.stringify(exported.netLabels))
+}
+
+finish()
@@ -0,0 +1,88 @@
+/**
+ * Net labels and power flags — same-named cells joined without a wire in the
+ * solver, buildNets, buildCircuitGraph, the SPICE deck and the KiCad export,
+ * a GND flag joining ground, and plain text labels staying cosmetic.
+ *
+ * Run: npx tsx nodal_solver_tests/test_net_labels.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { buildCircuitGraph, canTraverse } from '../src/systems/chain/graph'
+import { buildNets, solveCircuit } from '../src/systems/chain'
+import { posKey } from '../src/systems/chain/utils'
+import { applyNetLabels } from '../src/utils/netLabels'
+import { buildSpiceNetlist } from '../src/services/schematicExport/spiceNetlist'
+import { collectSchematicExport } from '../src/services/schematicExport/collectSchematic'
+import { createSchematicCellLabel, type SchematicCellLabel, type SchematicLabelKind } from '../src/types/workspace'
+import { check, finish } from './check'
+
+// 5 V → 330 Ω → LED, with nothing wired from the resistor on: the labels do the rest.
+const sheet = buildSchematic('Labelled LED', 'an LED fed through net labels', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 330 })
+  place('LED', 10, 10)
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+})
+const RESISTOR_OUT = { x: 8, y: 10 }
+const LED_ANODE = { x: 10, y: 10 }
+const LED_CATHODE = { x: 12, y: 10 }
+
+const label = (at: { x: number; y: number }, text: string, kind: SchematicLabelKind) => createSchematicCellLabel(at.x, at.y, text, kind)
+const lit = (labels: SchematicCellLabel[]) =>
+  [...solveCircuit(applyNetLabels(sheet.gridData, labels), sheet.wires).componentStates.values()].some(
+    (state) => state.componentType === 'LED' && state.isOn
+  )
+
+const joined = [label(RESISTOR_OUT, 'VLED', 'net'), label(LED_ANODE, 'VLED', 'net'), label(LED_CATHODE, 'GND', 'power')]
+
+// --- Solver ------------------------------------------------------------------------------
+{
+  check('unlabelled, the LED is dark', !lit([]), '')
+  check('a net label pair and a GND flag light it', lit(joined), '')
+  check('renaming one label breaks the net', !lit([label(RESISTOR_OUT, 'VLED', 'net'), label(LED_ANODE, 'VLED2', 'net'), label(LED_CATHODE, 'GND', 'power')]), '')
+  const works = solveCircuit(applyNetLabels(sheet.gridData, joined), sheet.wires)
+  check("the GND flag closes the supply's loop", works.works, works.errors.join('; '))
+  check('plain text labels stay cosmetic', !lit(joined.map((l) => ({ ...l, kind: 'text' as const }))), '')
+}
+
+// --- buildNets and buildCircuitGraph ---------------------------------------------------------
+{
+  const grid = applyNetLabels(sheet.gridData, joined)
+  const { posToNet, groundNet } = buildNets(grid, sheet.wires)
+  const net = (p: { x: number; y: number }) => posToNet.get(posKey(p.x, p.y))
+  check('buildNets puts both VLED cells on one net', net(RESISTOR_OUT) !== undefined && net(RESISTOR_OUT) === net(LED_ANODE), `${net(RESISTOR_OUT)} / ${net(LED_ANODE)}`)
+  check('a GND flag is on the ground net', net(LED_CATHODE) === groundNet, `${net(LED_CATHODE)} vs ${groundNet}`)
+  const graph = buildCircuitGraph(grid, sheet.wires)
+  check(
+    'buildCircuitGraph links labelled cells',
+    canTraverse(graph, posKey(RESISTOR_OUT.x, RESISTOR_OUT.y), posKey(LED_ANODE.x, LED_ANODE.y)),
+    ''
+  )
+}
+
+// --- Stamping the grid ---------------------------------------------------------------------
+{
+  const stamped = applyNetLabels(sheet.gridData, joined)
+  check('labels are stamped onto their cells', stamped[10][8]?.netLabel === 'VLED' && stamped[10][12]?.netLabel === 'GND', '')
+  check('re-stamping an up-to-date grid returns it as is', applyNetLabels(stamped, joined) === stamped, '')
+  const cleared = applyNetLabels(stamped, [])
+  check('removed labels are cleared', cleared.every((row) => row.every((cell) => cell?.netLabel === undefined)), '')
+  check('the stored grid is never modified', sheet.gridData[10][8]?.netLabel === undefined, '')
+}
+
+// --- Exports ----------------------------------------------------------------------------------
+{
+  const { netlist } = buildSpiceNetlist({ ...sheet, labels: joined })
+  const ledLine = netlist.split('\n').find((line) => /^D\d/.test(line)) ?? ''
+  const resistorLine = netlist.split('\n').find((line) => /^R\d/.test(line)) ?? ''
+  const resistorOut = resistorLine.split(/\s+/)[2]
+  check('the SPICE LED sits between the VLED node and ground', ledLine.split(/\s+/)[1] === resistorOut && ledLine.split(/\s+/)[2] === '0', `${resistorLine} | ${ledLine}`)
+
+  const exported = collectSchematicExport({ ...sheet, labels: [...joined, label({ x: 4, y: 4 }, 'note', 'text')] })
+  const names = exported.netLabels.map((l) => `${l.kind}:${l.name}`).sort()
+  check('the KiCad export carries net labels and power flags, not notes', JSON.stringify(names) === JSON.stringify(['net:VLED', 'net:VLED', 'power:GND']), JSON.stringify(names))
+  const pinAt = (x: number, y: number) => exported.components.flatMap((c) => c.pins).some((pin) => pin.x === x && pin.y === y)
+  check('and each label still sits on a pin after the export tidy', exported.netLabels.every((l) => pinAt(l.x, l.y)), JSON.stringify(exported.netLabels))
+}
+
+finish()
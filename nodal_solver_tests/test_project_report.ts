@@ -0,0 +1,136 @@
+/**
+ * Headless project simulation — exported sessions, folders (kept apart by
+ * id) and compacted schematics read back into solvable grids, net and part
+ * reports named the way stimulus scripts name them, saved and supplied test
+ * benches, and the simulate-project CLI's output and exit status.
+ *
+ * Run: npx tsx nodal_solver_tests/test_project_report.ts
+ */
+
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { createProjectFolder, type Schematic } from '../src/types/workspace'
+import { extractOccupiedComponents } from '../src/utils/gridUtils'
+import { formatReportTable, readProjectFile, simulateSchematic } from '../src/utils/projectReport'
+import { check, finish } from './check'
+
+const near = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol
+
+const divider = buildSchematic('Divider', '5 V across two 10 kΩ resistors', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r1 = place('Resistor', 6, 10, { resistance: 10_000 })
+  const r2 = place('Resistor', 6, 14, { resistance: 10_000 })
+
+  wire([ps.pin('5V'), r1.at(0, 0)], { powered: true })
+  wire([r1.at(2, 0), { x: 8, y: 12 }, r2.at(0, 0)])
+  wire([r2.at(2, 0), { x: 8, y: 16 }, { x: 3, y: 16 }, { x: 3, y: 10 }, ps.pin('GND')], { grounded: true })
+})
+const led = buildSchematic('LED', '5 V through 330 Ω into an LED', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 330 })
+  const l = place('LED', 10, 10)
+
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), l.pin('+')])
+  wire([l.pin('-'), { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], { grounded: true })
+})
+led.testBench = 'expect LED1 on\nexpect I(LED1) > 5 mA'
+
+/** What local storage keeps: components without the grid, as an exported session carries them. */
+const compact = (schematic: Schematic): Schematic => ({
+  ...schematic,
+  gridData: [],
+  occupiedComponents: extractOccupiedComponents(schematic.gridData),
+})
+const folder = createProjectFolder('Bench designs', '', { schematics: [compact(divider), compact(led)] })
+const session = { projectFolders: [folder], selectedFolderId: null, selectedItemId: null, activeView: 'folders' }
+
+// --- Reading project files ----------------------------------------------------------------
+{
+  const fromSession = readProjectFile(JSON.parse(JSON.stringify(session)))
+  check(
+    'Sessions yield every schematic with its folder and a rebuilt grid',
+    fromSession.length === 2 && fromSession[0].folder === 'Bench designs' && fromSession.every(({ schematic }) => schematic.gridData.length > 0),
+    fromSession.map(({ folder, schematic }) => `${folder}/${schematic.name} ${schematic.gridData.length} rows`).join(', ')
+  )
+  const twin = createProjectFolder('Bench designs', '', { schematics: [compact(divider)] })
+  const twins = readProjectFile([folder, twin])
+  check(
+    'Folders that share a name keep their own ids',
+    twins.length === 3 && twins[0].folderId === folder.id && twins[2].folderId === twin.id && folder.id !== twin.id,
+    twins.map(({ folder, folderId }) => `${folder}#${folderId}`).join(', ')
+  )
+  check('A bare folder or schematic reads as well', readProjectFile(folder).length === 2 && readProjectFile(divider).length === 1, '')
+  let message = ''
+  try {
+    readProjectFile({ hello: 'world' })
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error)
+  }
+  check('Anything else is rejected', /not a CircuitWiz project/.test(message), message)
+}
+
+// --- Reports ------------------------------------------------------------------------------
+const [dividerEntry, ledEntry] = readProjectFile(session)
+{
+  const report = simulateSchematic(dividerEntry.folder, dividerEntry.schematic)
+  const mid = report.nets.find((net) => net.pins.includes('Resistor1.2'))
+  check(
+    'Nets list the pins on them with the solved voltage',
+    report.works && Boolean(mid?.pins.includes('Resistor2.1')) && near(mid?.voltage ?? NaN, 2.5, 0.01),
+    mid ? `${mid.pins.join(', ')} at ${mid.voltage?.toFixed(3)} V` : 'no midpoint net'
+  )
+  check('Ground is marked and listed first', report.nets[0]?.ground === true && report.nets[0].pins.includes('Resistor2.2'), report.nets[0]?.pins.join(', ') ?? '')
+  check('Without a script there is no bench', report.bench === null, '')
+}
+{
+  const report = simulateSchematic(ledEntry.folder, ledEntry.schematic)
+  const part = report.parts.find((p) => p.ref === 'LED1')
+  check('Parts report their state and current', part?.isOn === true && (part?.current ?? 0) > 0.005, `${part?.status} ${part?.current}`)
+  check('The saved test bench runs', report.bench?.passed === 2 && report.bench.failed === 0, `${report.bench?.passed} passed`)
+  const override = simulateSchematic(ledEntry.folder, ledEntry.schematic, 'expect LED1 off')
+  check('A supplied stimulus replaces the saved one', override.bench?.results.length === 1 && override.bench.failed === 1, `${override.bench?.failed} failed`)
+  const table = formatReportTable([report, override])
+  check(
+    'The table shows nets, parts and bench lines',
+    table.includes('== Bench designs / LED  [works]') && /GND\s+.*LED1\.-/.test(table) && table.includes('FAIL line 1 @ 0 ms  LED1 off — got on'),
+    table.split('\n').slice(0, 3).join(' | ')
+  )
+}
+
+// --- CLI ----------------------------------------------------------------------------------
+{
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuitwiz-cli-'))
+  const projectFile = path.join(dir, 'designs.circuitwiz')
+  const stimulusFile = path.join(dir, 'bench.txt')
+  fs.writeFileSync(projectFile, JSON.stringify(session))
+  fs.writeFileSync(stimulusFile, 'expect V(Resistor1.2) = 2.5 V\n')
+  const cli = spawnSync(
+    'npx',
+    ['tsx', 'scripts/simulate-project.ts', projectFile, '--stimulus', stimulusFile, '--schematic', 'Divider', '--format', 'json'],
+    { cwd: path.join(__dirname, '..'), encoding: 'utf8', timeout: 120_000 }
+  )
+  let reports: Array<{ schematic: string; bench: { passed: number } | null }> = []
+  try {
+    reports = JSON.parse(cli.stdout)
+  } catch {
+    // reported below
+  }
+  check(
+    'The CLI prints JSON for the picked schematic and exits 0 when its bench passes',
+    cli.status === 0 && reports.length === 1 && reports[0].schematic === 'Divider' && reports[0].bench?.passed === 1,
+    `exit ${cli.status} ${cli.stderr.trim()}`
+  )
+  const missing = spawnSync('npx', ['tsx', 'scripts/simulate-project.ts', path.join(dir, 'nope.circuitwiz')], {
+    cwd: path.join(__dirname, '..'),
+    encoding: 'utf8',
+    timeout: 120_000,
+  })
+  check('An unreadable project exits 2', missing.status === 2, `exit ${missing.status}`)
+  fs.rmSync(dir, { recursive: true, force: true })
+}
+
+finish()
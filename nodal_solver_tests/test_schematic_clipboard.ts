@@ -0,0 +1,91 @@
+/**
+ * Schematic copy/paste — only wires between selected parts are copied, pasted
+ * parts get fresh component and PSU ids, and the paste lands on free cells
+ * without joining the original's nets; a stray wire loop elsewhere on the
+ * sheet stays behind.
+ *
+ * Run: npx tsx nodal_solver_tests/test_schematic_clipboard.ts
+ */
+
+import { buildNets } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { ensurePowerSupplyIdsInGrid, listPlacedPowerSupplies } from '../src/utils/powerSupplies'
+import {
+  copySchematicSelection,
+  findPasteOrigin,
+  pasteSchematicClipboard,
+} from '../src/utils/schematicClipboard'
+import { check, finish } from './check'
+
+// 5V → R → LED → GND: the R–LED wire is internal to an {R, LED} selection, the supply wires are not
+let ids = { ps: '', r: '', led: '' }
+const channel = buildSchematic('LED channel', 'One resistor/LED channel.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 6, { resistance: 330 })
+  const led = place('LED', 12, 6)
+  ids = { ps: ps.id, r: r.id, led: led.id }
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), led.pin('+')])
+  wire([led.pin('-'), { x: 14, y: 6 }, { x: 14, y: 13 }, { x: 3, y: 13 }, ps.pin('GND')], { grounded: true })
+})
+
+const clipboard = copySchematicSelection(channel.gridData, channel.wires, [ids.r, ids.led])
+check('Selection copies both parts', clipboard?.components.length === 2, String(clipboard?.components.length))
+check('Only the R–LED wire is internal', clipboard?.wires.length === 1, String(clipboard?.wires.length))
+
+const origin = clipboard && findPasteOrigin(channel.gridData, channel.wires, clipboard, clipboard.origin)
+check('Paste keeps a free cell around the original', origin !== null && origin !== undefined && (origin.x !== clipboard!.origin.x || origin.y !== clipboard!.origin.y), JSON.stringify(origin))
+
+const pasted = clipboard && origin ? pasteSchematicClipboard(channel.gridData, channel.wires, clipboard, origin, 42) : null
+check(
+  'Pasted parts get fresh ids',
+  pasted !== null && pasted.componentIds.length === 2 && !pasted.componentIds.includes(ids.r) && !pasted.componentIds.includes(ids.led),
+  pasted?.componentIds.join(', ') ?? ''
+)
+
+if (pasted && origin && clipboard) {
+  const nets = buildNets(pasted.gridData, pasted.wires)
+  const newWire = pasted.wires[pasted.wires.length - 1]
+  const start = newWire.segments[0].from
+  const end = newWire.segments[newWire.segments.length - 1].to
+  const startNet = nets.posToNet.get(posKey(start.x, start.y))
+  check('Pasted wire joins the pasted R and LED', startNet !== undefined && startNet === nets.posToNet.get(posKey(end.x, end.y)), `${start.x},${start.y} → ${end.x},${end.y}`)
+
+  const originalNet = nets.posToNet.get(posKey(8, 6))
+  check('Pasted net is separate from the original channel', originalNet !== startNet, `${originalNet} vs ${startNet}`)
+
+  const ownersOfNewCells = pasted.gridData.flat().filter((cell) => cell?.componentId && pasted.componentIds.includes(cell.componentId))
+  check('All pasted cells sit at the chosen origin', ownersOfNewCells.every((cell) => cell.x >= origin.x && cell.y >= origin.y), '')
+}
+
+// Copying the supply hands out the next PSU id (the editor numbers supplies on load)
+const numbered = ensurePowerSupplyIdsInGrid(channel.gridData)
+const supplyClipboard = copySchematicSelection(numbered, channel.wires, [ids.ps])
+const supplyOrigin = supplyClipboard && findPasteOrigin(numbered, channel.wires, supplyClipboard, { x: 20, y: 20 })
+const withSupply = supplyClipboard && supplyOrigin
+  ? pasteSchematicClipboard(numbered, channel.wires, supplyClipboard, supplyOrigin, 7)
+  : null
+const supplyIds = withSupply ? listPlacedPowerSupplies(withSupply.gridData).map((s) => s.supplyId).sort() : []
+check('Pasted supply gets the next PSU id', supplyIds.join() === 'PSU-1,PSU-2', supplyIds.join())
+check('Supply wires stay behind', supplyClipboard?.wires.length === 0, String(supplyClipboard?.wires.length))
+
+// A closed loop has no ends to test, so only its position decides; one drawn elsewhere stays behind
+const withLoop = buildSchematic('Stray loop', 'The channel plus a wire loop off to the side.', ({ place, wire }) => {
+  const r = place('Resistor', 6, 6, { resistance: 330 })
+  const led = place('LED', 12, 6)
+  ids = { ...ids, r: r.id, led: led.id }
+  wire([r.at(2, 0), led.pin('+')])
+  wire([{ x: 30, y: 20 }, { x: 34, y: 20 }, { x: 34, y: 24 }, { x: 30, y: 24 }, { x: 30, y: 20 }])
+})
+const loopClipboard = copySchematicSelection(withLoop.gridData, withLoop.wires, [ids.r, ids.led])
+check(
+  'A stray loop outside the selection is not copied',
+  withLoop.wires.length === 2 && loopClipboard?.wires.length === 1 && (loopClipboard?.width ?? 0) < 20,
+  `${loopClipboard?.wires.length} wires, ${loopClipboard?.width}×${loopClipboard?.height}`
+)
+
+check('Empty selection copies nothing', copySchematicSelection(channel.gridData, channel.wires, []) === null, '')
+
+finish()
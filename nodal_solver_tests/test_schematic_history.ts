@@ -0,0 +1,56 @@
+/**
+ * Schematic undo/redo stack — commands restore the state recorded before them,
+ * redo replays, a new command clears redo, same-key commands coalesce inside
+ * the window, and the stack is capped.
+ *
+ * Run: npx tsx nodal_solver_tests/test_schematic_history.ts
+ */
+
+import {
+  SCHEMATIC_HISTORY_COALESCE_MS,
+  emptySchematicHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from '../src/utils/schematicHistory'
+import { check, finish } from './check'
+
+// Document states are plain strings here; the editor uses grid/wire/box/label snapshots.
+let history = emptySchematicHistory<string>()
+history = recordCommand(history, 'Place Resistor', 'empty', { now: 0 })
+history = recordCommand(history, 'Add wire', 'R', { now: 10 })
+
+const undone = undoCommand(history, 'R+wire')
+check('Undo restores the state before the last command', undone?.snapshot === 'R' && undone.label === 'Add wire', String(undone?.snapshot))
+
+const undoneTwice = undone && undoCommand(undone.history, 'R')
+check('Second undo reaches the empty sheet', undoneTwice?.snapshot === 'empty', String(undoneTwice?.snapshot))
+check('Nothing left to undo', undoneTwice !== null && undoCommand(undoneTwice.history, 'empty') === null, '')
+
+const redone = undoneTwice && redoCommand(undoneTwice.history, 'empty')
+const redoneTwice = redone && redoCommand(redone.history, 'R')
+check(
+  'Redo replays in order',
+  redone?.snapshot === 'R' && redoneTwice?.snapshot === 'R+wire',
+  `${redone?.snapshot} → ${redoneTwice?.snapshot}`
+)
+
+const branched = undone && recordCommand(undone.history, 'Delete component', 'R', { now: 20 })
+check('A new command clears the redo stack', branched?.redo.length === 0 && branched.undo.length === 2, '')
+
+// Dragging a group box emits many updates; they collapse into one step while they keep coming
+let drag = emptySchematicHistory<string>()
+drag = recordCommand(drag, 'Edit group box', 'box@0', { coalesceKey: 'groupBox:a', now: 0 })
+drag = recordCommand(drag, 'Edit group box', 'box@1', { coalesceKey: 'groupBox:a', now: 400 })
+drag = recordCommand(drag, 'Edit group box', 'box@2', { coalesceKey: 'groupBox:a', now: 800 })
+check('Same-key commands coalesce', drag.undo.length === 1 && drag.undo[0].snapshot === 'box@0', JSON.stringify(drag.undo.map((e) => e.snapshot)))
+
+drag = recordCommand(drag, 'Edit group box', 'box@3', { coalesceKey: 'groupBox:a', now: 800 + SCHEMATIC_HISTORY_COALESCE_MS + 1 })
+drag = recordCommand(drag, 'Edit group box', 'other', { coalesceKey: 'groupBox:b', now: 2000 })
+check('A pause or another key starts a new step', drag.undo.length === 3, `${drag.undo.length} entries`)
+
+let capped = emptySchematicHistory<number>()
+for (let i = 0; i < 10; i++) capped = recordCommand(capped, 'Edit', i, { now: i * 5000, limit: 4 })
+check('Stack keeps the newest entries up to the limit', capped.undo.map((e) => e.snapshot).join() === '6,7,8,9', capped.undo.map((e) => e.snapshot).join())
+
+finish()
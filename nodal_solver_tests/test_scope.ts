@@ -0,0 +1,105 @@
+/**
+ * Oscilloscope acquisition — a 60 Hz AC source into 1kΩ, triggered on the
+ * rising zero crossing, with a voltage probe on the source pin and a current
+ * clamp on the wire feeding the resistor; then sweeps resumed from the last
+ * one, keeping the AC phase and an RC charge running across acquisitions.
+ *
+ * Run: npx tsx nodal_solver_tests/test_scope.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { buildNets } from '../src/systems/chain'
+import { posKey } from '../src/systems/chain/utils'
+import {
+  acquireScopeTrace,
+  findTriggerIndex,
+  listCurrentProbePoints,
+  listVoltageProbePoints,
+  sampleTraceAt,
+  type ScopeAcquisition,
+} from '../src/utils/oscilloscope'
+import { check, finish } from './check'
+
+const VPEAK = 12 * Math.SQRT2
+
+const ac = buildSchematic('Scope AC', '12Vrms 60 Hz into 1kΩ.', ({ place, wire }) => {
+  const src = place('ACSource', 2, 10, { vrms: 12, frequency: 60 })
+  const r = place('Resistor', 8, 10, { resistance: 1_000 })
+
+  wire([src.pin('AC1'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, src.pin('AC2')], {
+    grounded: true,
+  })
+})
+
+const nets = buildNets(ac.gridData, ac.wires)
+const voltageProbes = listVoltageProbePoints(ac.gridData, nets.posToNet, nets.groundNet)
+const currentProbes = listCurrentProbePoints(ac.gridData, ac.wires)
+check('Voltage probe on the hot net', voltageProbes.length === 1, voltageProbes.map((p) => p.label).join(', '))
+check('Current clamp on both wires', currentProbes.length === 2, currentProbes.map((p) => p.label).join(', '))
+
+const vProbe = voltageProbes[0]
+const iProbe = currentProbes[0]
+const scope = acquireScopeTrace(ac.gridData, ac.wires, [vProbe, iProbe], {
+  timePerDiv: 5e-3,
+  trigger: { probeKey: vProbe.key, level: 0, edge: 'rising' },
+})
+check('Acquisition works', scope.works, scope.reason ?? '')
+check('Trigger found', scope.triggered, '')
+
+const v = scope.channels.get(vProbe.key) ?? []
+const i = scope.channels.get(iProbe.key) ?? []
+check('Screen starts at the rising edge', Math.abs(v[0]) < 0.5 && v[10] > v[0], `v0 ${v[0]?.toFixed(3)} v10 ${v[10]?.toFixed(3)}`)
+check('Window spans 10 divisions', Math.abs(scope.time[scope.time.length - 1] - 0.05) < 1e-6, `${scope.time[scope.time.length - 1]}`)
+check('Peak voltage', Math.abs(Math.max(...v) - VPEAK) < 0.05, `${Math.max(...v).toFixed(3)} V`)
+const quarter = sampleTraceAt(scope.time, v, 1 / 240) ?? NaN
+check('Quarter period hits the peak', Math.abs(quarter - VPEAK) < 0.1, `${quarter.toFixed(3)} V`)
+const nextEdge = findTriggerIndex(v, 0, 'rising', 2)
+const period = nextEdge >= 0 ? scope.time[nextEdge] : NaN
+check('Period from successive edges', Math.abs(period - 1 / 60) < 1e-4, `${(period * 1000).toFixed(3)} ms`)
+check('Current clamp reads V/R', Math.abs(Math.max(...i.map(Math.abs)) - VPEAK / 1_000) < 1e-4, `${(Math.max(...i.map(Math.abs)) * 1000).toFixed(3)} mA`)
+
+// Free-running sweeps of a live circuit follow on from each other rather than restarting at t = 0.
+const freeRun = (resume?: ScopeAcquisition['state']) =>
+  acquireScopeTrace(ac.gridData, ac.wires, [vProbe], { timePerDiv: 2e-3, resume })
+const firstSweep = freeRun()
+const secondSweep = freeRun(firstSweep.state)
+const firstV = firstSweep.channels.get(vProbe.key) ?? []
+const secondV = secondSweep.channels.get(vProbe.key) ?? []
+check(
+  'A resumed sweep keeps the AC phase',
+  Math.abs(secondV[0] - firstV[firstV.length - 1]) < 1e-6 && Math.abs(secondV[0]) > 1,
+  `${firstV[firstV.length - 1]?.toFixed(3)} V → ${secondV[0]?.toFixed(3)} V`
+)
+
+// 5V → 10kΩ → 1µF: τ = 10 ms, so each 10 ms sweep charges another 63% of the way.
+const rc = buildSchematic('Scope RC', '5V -> 10kΩ -> 1µF -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 10_000 })
+  const c = place('Capacitor', 10, 10, { capacitance: 0.000001 })
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), c.pin('1')])
+  wire([c.pin('2'), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+const rcNets = buildNets(rc.gridData, rc.wires)
+const capProbe = listVoltageProbePoints(rc.gridData, rcNets.posToNet, rcNets.groundNet).find((p) => p.key === posKey(8, 10))!
+const charge = (resume?: ScopeAcquisition['state']) =>
+  acquireScopeTrace(rc.gridData, rc.wires, [capProbe], { timePerDiv: 1e-3, resume })
+const firstCharge = charge()
+const secondCharge = charge(firstCharge.state)
+const lastOf = (scope: ScopeAcquisition) => {
+  const samples = scope.channels.get(capProbe.key) ?? []
+  return samples[samples.length - 1] ?? NaN
+}
+const firstOf = (scope: ScopeAcquisition) => scope.channels.get(capProbe.key)?.[0] ?? NaN
+check(
+  'The capacitor keeps charging across sweeps',
+  Math.abs(firstOf(secondCharge) - lastOf(firstCharge)) < 1e-3 &&
+    Math.abs(lastOf(firstCharge) - 5 * (1 - Math.exp(-1))) < 0.05 &&
+    Math.abs(lastOf(secondCharge) - 5 * (1 - Math.exp(-2))) < 0.05,
+  `${lastOf(firstCharge).toFixed(3)} V → ${firstOf(secondCharge).toFixed(3)} V → ${lastOf(secondCharge).toFixed(3)} V`
+)
+
+finish()
@@ -0,0 +1,217 @@
+/**
+ * Sensors — thermistor, LDR and module sensors (IR distance, PIR, ADXL335)
+ * stamped into the solver from their stimulus values, the Controls panel
+ * scan/patch that sets them, and the DS18B20 on 1-Wire: line timing, ROM
+ * search and conversions, the AVR's GPIO seeing its presence pulse, and a
+ * DallasTemperature sketch replayed by the pattern matcher.
+ *
+ * Run: npx tsx nodal_solver_tests/test_sensors.ts
+ */
+
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { findBusLinks } from '../src/systems/chain'
+import { posKey } from '../src/systems/chain/utils'
+import { accelerometerRatio, irDistanceVolts, thermistorResistance } from '../src/systems/chain/sensorStamps'
+import { patchInteractableCell, scanInteractableComponents } from '../src/utils/interactableComponents'
+import { busHub } from '../src/services/BusHub'
+import { Ds18b20, OneWireLine, OneWireMaster, oneWireCrc8 } from '../src/services/OneWire'
+import { getSerialChannel } from '../src/services/SerialMonitor'
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import { check, finish } from './check'
+
+const near = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol
+const hex = (bytes: number[]) => bytes.map((b) => b.toString(16).padStart(2, '0')).join(' ')
+
+// --- Analog sensors in the solver -------------------------------------------------------
+const ids = { thermistor: '', distance: '', pir: '', accel: '' }
+const taps = { divider: { x: 0, y: 0 }, vout: { x: 0, y: 0 }, pirOut: { x: 0, y: 0 }, x: { x: 0, y: 0 }, z: { x: 0, y: 0 } }
+const sheet = buildSchematic('Sensors', '5 V into a thermistor divider, an IR distance sensor, a PIR and an ADXL335', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 20, { voltage: 5 })
+  const r = place('Resistor', 2, 2, { resistance: 10_000 })
+  const thermistor = place('Thermistor', 8, 2)
+  const distance = place('Distance Sensor', 2, 6)
+  const pir = place('PIR Motion Sensor', 8, 6)
+  const accel = place('Accelerometer', 14, 6)
+  Object.assign(ids, { thermistor: thermistor.id, distance: distance.id, pir: pir.id, accel: accel.id })
+  Object.assign(taps, { divider: r.at(2, 0), vout: distance.pin('VOUT'), pirOut: pir.pin('OUT'), x: accel.pin('X'), z: accel.pin('Z') })
+
+  wire([ps.pin('5V'), { x: 1, y: 20 }, { x: 1, y: 2 }, r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), { x: 6, y: 2 }, thermistor.pin('1')])
+  wire([thermistor.pin('2'), { x: 11, y: 2 }, { x: 11, y: 18 }, { x: 3, y: 18 }, ps.pin('GND')], { grounded: true })
+  wire([distance.pin('VCC'), { x: 4, y: 10 }, { x: 1, y: 10 }], { powered: true })
+  wire([distance.pin('GND'), { x: 3, y: 18 }], { grounded: true })
+  wire([pir.pin('VCC'), { x: 8, y: 11 }, { x: 1, y: 11 }], { powered: true })
+  wire([pir.pin('GND'), { x: 10, y: 18 }], { grounded: true })
+  wire([accel.pin('VCC'), { x: 14, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 }], { powered: true })
+  wire([accel.pin('GND'), { x: 18, y: 18 }, { x: 11, y: 18 }], { grounded: true })
+})
+
+const solveAt = (gridData: typeof sheet.gridData) => {
+  const voltages = solveCircuit(gridData, sheet.wires).nodeVoltages
+  return (tap: { x: number; y: number }) => voltages.get(posKey(tap.x, tap.y)) ?? NaN
+}
+
+{
+  const v = solveAt(sheet.gridData)
+  check('Thermistor at 25 °C halves the 10 kΩ divider', near(v(taps.divider), 2.5, 0.02), `${v(taps.divider).toFixed(3)} V`)
+  check('IR distance sensor outputs its 30 cm voltage', near(v(taps.vout), irDistanceVolts(30), 0.02), `${v(taps.vout).toFixed(3)} V`)
+  check('PIR output idles low', near(v(taps.pirOut), 0, 0.01), `${v(taps.pirOut).toFixed(3)} V`)
+  check(
+    'ADXL335 lying flat: X at Vs/2, Z at +1 g',
+    near(v(taps.x), 2.5, 0.02) && near(v(taps.z), 5 * accelerometerRatio(1), 0.02),
+    `X ${v(taps.x).toFixed(3)} V, Z ${v(taps.z).toFixed(3)} V`
+  )
+}
+
+{
+  const controls = scanInteractableComponents(sheet.gridData)
+  const sensors = controls.filter((control) => control.kind === 'sensor')
+  check('Every sensor shows up in the Controls panel', sensors.length === 4, sensors.map((c) => c.label).join(', '))
+  const thermistor = sensors.find((control) => control.componentId === ids.thermistor)
+  check(
+    'Stimuli start at their defaults',
+    thermistor?.sensorInputs?.temperature === 25 && sensors.find((c) => c.componentId === ids.accel)?.sensorInputs?.z === 1,
+    JSON.stringify(thermistor?.sensorInputs)
+  )
+
+  let gridData = sheet.gridData
+  const patch = (componentId: string, sensorInputs: Record<string, number>) => {
+    const control = sensors.find((c) => c.componentId === componentId)!
+    gridData = patchInteractableCell(gridData, componentId, control.bodyCellIndex, { sensorInputs })
+  }
+  patch(ids.thermistor, { temperature: 0 })
+  patch(ids.distance, { distance: 10 })
+  patch(ids.pir, { motion: 1 })
+  patch(ids.accel, { x: -1, y: 0, z: 1 })
+  const v = solveAt(gridData)
+  const r0 = thermistorResistance(10_000, 3950, 0)
+  check('Cooling the NTC raises its share of the divider', near(v(taps.divider), (5 * r0) / (r0 + 10_000), 0.02), `${v(taps.divider).toFixed(3)} V at 0 °C`)
+  check('A near target raises the IR output', near(v(taps.vout), irDistanceVolts(10), 0.02), `${v(taps.vout).toFixed(3)} V at 10 cm`)
+  check('Motion drives the PIR output to 3.3 V', near(v(taps.pirOut), 3.3, 0.02), `${v(taps.pirOut).toFixed(3)} V`)
+  check('Tilting to −1 g moves X below Vs/2', near(v(taps.x), 5 * accelerometerRatio(-1), 0.02), `${v(taps.x).toFixed(3)} V`)
+  check('The sheet keeps the stimulus for the next scan', scanInteractableComponents(gridData).find((c) => c.componentId === ids.pir)?.sensorInputs?.motion === 1, '')
+}
+
+// --- DS18B20 on a 1-Wire line ------------------------------------------------------------
+{
+  const a = new Ds18b20('ds-a')
+  const b = new Ds18b20('ds-b')
+  const line = new OneWireLine([a, b])
+  const master = new OneWireMaster(line)
+  check('ROM codes carry family 0x28 and a valid CRC', a.rom[0] === 0x28 && oneWireCrc8(a.rom.slice(0, 7)) === a.rom[7], hex(a.rom))
+  check('Reset sees a presence pulse', master.reset(), '')
+  check('An empty line has no presence', !new OneWireMaster(new OneWireLine([])).reset(), '')
+
+  const roms = master.search()
+  check(
+    'Search ROM finds both devices',
+    roms.length === 2 && roms.some((rom) => hex(rom) === hex(a.rom)) && roms.some((rom) => hex(rom) === hex(b.rom)),
+    roms.map(hex).join(' | ')
+  )
+
+  check('Before a conversion the scratchpad holds 85 °C', master.readTemperature(a.rom) === 85, '')
+  a.setInputs({ temperature: 23.5 })
+  b.setInputs({ temperature: -10.0625 })
+  master.reset()
+  master.select(null)
+  master.writeByte(0x44)
+  check('Read slots return 0 while a conversion runs', !master.readBit(), '')
+  master.requestTemperatures()
+  check(
+    'Convert T then Read Scratchpad returns each device\'s temperature',
+    master.readTemperature(a.rom) === 23.5 && master.readTemperature(b.rom) === -10.0625,
+    `${master.readTemperature(a.rom)} / ${master.readTemperature(b.rom)}`
+  )
+  const scratchpad = a.scratchpad()
+  check('Scratchpad CRC checks out', oneWireCrc8(scratchpad.slice(0, 8)) === scratchpad[8], hex(scratchpad))
+
+  master.setResolution(b.rom, 9)
+  master.requestTemperatures()
+  check('At 9 bits the reading rounds to 0.5 °C', master.readTemperature(b.rom) === -10, `${master.readTemperature(b.rom)}`)
+  check('9-bit conversions take 93.75 ms', b.conversionMs === 93.75 && a.conversionMs === 750, '')
+}
+
+// --- Wired to an Uno: bus link, AVR pin and a DallasTemperature sketch ------------------------
+{
+  const ids = { uno: '', probe: '' }
+  const { gridData, wires } = buildSchematic('DS18B20', 'Uno D2 to a DS18B20 data pin', ({ place, wire }) => {
+    const uno = place('Arduino Uno R3', 10, 2)
+    const probe = place('Temperature Sensor', 2, 2)
+    Object.assign(ids, { uno: uno.id, probe: probe.id })
+    wire([probe.pin('DATA'), { x: 2, y: 12 }, { x: 16, y: 12 }, uno.pin('D2')])
+  })
+  const links = findBusLinks(gridData, wires)
+  const bus = links.find((link) => link.kind === 'onewire')
+  check(
+    'A GPIO on the DATA net forms a 1-Wire bus',
+    bus?.kind === 'onewire' && bus.controller === ids.uno && bus.gpio === 2 && bus.devices[0]?.componentId === ids.probe,
+    JSON.stringify(bus)
+  )
+  busHub.configure(links)
+  busHub.clear()
+
+  const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+  const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+  const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+  const dec = (d: number) => 0x940a | (d << 4)
+  const brne = (k: number) => 0xf401 | ((k & 0x7f) << 3)
+  // ~48 µs per 256 passes of dec/brne at 16 MHz
+  const spin = (count: number) => [ldi(24, count), dec(24), brne(-2)]
+  const program = [
+    // Pull D2 low through DDRD for ~530 µs, release, wait ~70 µs and sample PIND
+    ldi(16, 0x04), ...sts(0x2a, 16),
+    ldi(25, 11), ...spin(0), dec(25), brne(-5),
+    ldi(16, 0x00), ...sts(0x2a, 16),
+    ...spin(0), ...spin(120),
+    ...lds(20, 0x29),
+    0xc000 | 0xfff, // rjmp .-2
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  runner.mcu.setDigitalInput(2, true) // the 4.7 kΩ pull-up
+  runner.attachBuses(busHub.port(ids.uno))
+  runner.updateStates(1)
+  check('The AVR reads the presence pulse on D2 despite the pull-up', (runner.mcu.cpu.data[20] & 0x04) === 0, `PIND 0x${runner.mcu.cpu.data[20].toString(16)}`)
+  const reset = busHub.getTransactions().find((t) => t.kind === 'onewire')
+  check('The reset is logged with presence', reset?.kind === 'onewire' && reset.presence && reset.gpio === 2, JSON.stringify(reset))
+  runner.stopSimulation()
+
+  busHub.clear()
+  busHub.setSensorInputs(ids.probe, { temperature: 21.5 })
+  const sketch = `#include <OneWire.h>
+#include <DallasTemperature.h>
+#define ONE_WIRE_BUS 2
+OneWire oneWire(ONE_WIRE_BUS);
+DallasTemperature sensors(&oneWire);
+void setup() {
+  Serial.begin(9600);
+  sensors.begin();
+  Serial.println(sensors.getDeviceCount());
+}
+void loop() {
+  sensors.requestTemperatures();
+  float c = sensors.getTempCByIndex(0);
+  Serial.println(c);
+  Serial.println(sensors.getTempFByIndex(1));
+  delay(1000);
+}`
+  const channel = getSerialChannel(ids.uno)
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  gpio.attachSerial(channel)
+  gpio.attachBuses(busHub.port(ids.uno))
+  // Setup's output takes a few ms at 9600 baud before loop() starts
+  gpio.updateStates(10)
+  const lines = channel.getEntries().filter((entry) => entry.direction === 'rx').map((entry) => entry.text)
+  check('sensors.begin() finds the probe', lines[0] === '1', JSON.stringify(lines))
+  check('getTempCByIndex reads the stimulus temperature', lines[1] === '21.50', JSON.stringify(lines))
+  check('A missing index reads as disconnected', lines[2] === '-196.60', JSON.stringify(lines))
+  const commands = busHub.getTransactions().flatMap((t) => (t.kind === 'onewire' && t.bytes.length > 0 ? [t.bytes[0]] : []))
+  check('The analyzer logs Search ROM and Skip ROM exchanges', commands.includes(0xf0) && commands.includes(0xcc), hex(commands))
+  gpio.stopSimulation()
+}
+
+finish()
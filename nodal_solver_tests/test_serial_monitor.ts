@@ -0,0 +1,172 @@
+/**
+ * Serial Monitor — the virtual port's line assembly and baud matching,
+ * USART0 traffic both ways on the AVR emulator, and Serial.print replay for
+ * pattern-matched sketches (integer/float formatting, analogRead inputs,
+ * delay() timing, if/else and loops run on their conditions).
+ *
+ * Run: npx tsx nodal_solver_tests/test_serial_monitor.ts
+ */
+
+import { SerialChannel } from '../src/services/SerialMonitor'
+import { ATmega328P } from '../src/services/avr/ATmega328P'
+import { AvrFirmwareGPIO } from '../src/services/avr/AvrFirmwareGPIO'
+import { DynamicGPIO } from '../src/services/DynamicGPIO'
+import { ATMEGA328P_INPUT_PROFILE } from '../src/services/gpioInputs'
+import { check, finish } from './check'
+
+const rxLines = (channel: SerialChannel) =>
+  channel.getEntries().filter((entry) => entry.direction === 'rx').map((entry) => entry.text)
+
+// --- The port itself ------------------------------------------------------------
+{
+  const channel = new SerialChannel()
+  channel.deviceWriteText('Hello, ')
+  channel.deviceWriteText('world\r\nsecond')
+  check('Bytes assemble into lines, CR dropped', JSON.stringify(rxLines(channel)) === '["Hello, world","second"]', JSON.stringify(rxLines(channel)))
+
+  const sent: number[] = []
+  channel.attachDevice((bytes) => sent.push(...bytes))
+  channel.send('go', '\r\n')
+  check('Sent text reaches the device with its line ending', String.fromCharCode(...sent) === 'go\r\n', JSON.stringify(String.fromCharCode(...sent)))
+
+  channel.clear()
+  channel.deviceBaud = 115200
+  channel.deviceWriteText('OK\n')
+  check('A mismatched baud rate garbles the output', channel.baudMismatch && rxLines(channel)[0] !== 'OK', JSON.stringify(rxLines(channel)))
+  channel.monitorBaud = 115200
+  channel.clear()
+  channel.deviceWriteText('OK\n')
+  check('Matching the sketch baud rate reads clean', !channel.baudMismatch && rxLines(channel)[0] === 'OK', JSON.stringify(rxLines(channel)))
+}
+
+// --- AVR firmware: Serial.begin(9600), print, then echo -----------------------
+{
+  const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0x0f)
+  const sts = (addr: number, r: number) => [0x9200 | (r << 4), addr]
+  const lds = (r: number, addr: number) => [0x9000 | (r << 4), addr]
+  const sbrs = (r: number, b: number) => 0xfe00 | (r << 4) | b
+  const rjmp = (k: number) => 0xc000 | (k & 0x0fff)
+  const program = [
+    // U2X, UBRR0 = 207 (what the Arduino core picks for 9600 at 16 MHz), RX+TX on
+    ldi(16, 0x02), ...sts(0xc0, 16), ldi(16, 207), ...sts(0xc4, 16), ldi(16, 0x18), ...sts(0xc1, 16),
+    ldi(16, 0x48), ...sts(0xc6, 16), ldi(16, 0x69), ...sts(0xc6, 16), ldi(16, 0x0a), ...sts(0xc6, 16),
+    // echo: wait for RXC, copy UDR0 back out
+    ...lds(17, 0xc0), sbrs(17, 7), rjmp(-4), ...lds(18, 0xc6), ...sts(0xc6, 18), rjmp(-9),
+  ]
+  const runner = new AvrFirmwareGPIO(new ATmega328P(new Uint16Array(program)))
+  const channel = new SerialChannel()
+  runner.attachSerial(channel)
+  runner.updateStates(2)
+  check('UDR0 output shows up as a line', rxLines(channel)[0] === 'Hi', JSON.stringify(rxLines(channel)))
+  check('UBRR0 reads back as ~9600 baud', Math.abs((channel.deviceBaud ?? 0) - 9615) < 1 && !channel.baudMismatch, `${channel.deviceBaud?.toFixed(0)} baud`)
+  channel.send('ok', '\n')
+  runner.updateStates(4)
+  check('Monitor input reaches the firmware and echoes back', rxLines(channel)[1] === 'ok', JSON.stringify(rxLines(channel)))
+  runner.stopSimulation()
+  channel.send('x')
+  runner.updateStates(6)
+  check('A stopped simulation no longer receives input', rxLines(channel).length === 2, JSON.stringify(rxLines(channel)))
+}
+
+// --- Pattern-matched sketches ----------------------------------------------------
+function sketchChannel(sketch: string, a0Volts: number, times: number[]): SerialChannel {
+  const gpio = new DynamicGPIO()
+  gpio.setPassiveMode(true)
+  gpio.startSimulation(gpio.analyzeCode(sketch))
+  gpio.setInputVoltages(new Map([[100, a0Volts]]), ATMEGA328P_INPUT_PROFILE)
+  const channel = new SerialChannel()
+  gpio.attachSerial(channel)
+  for (const t of times) gpio.updateStates(t)
+  return channel
+}
+
+const runSketch = (sketch: string, a0Volts: number, times: number[]) => rxLines(sketchChannel(sketch, a0Volts, times))
+
+{
+  // The Temperature Sensor example project
+  const sketch = `void setup() {\n  Serial.begin(9600);\n}\nvoid loop() {\n  int v = analogRead(A0);\n  Serial.println(v * (5.0 / 1023.0) * 100);\n  delay(1000);\n}`
+  const first = runSketch(sketch, 1.0, [0])
+  check('analogRead feeds a float expression printed to 2 places', first[0] === '99.71', JSON.stringify(first))
+  const later = runSketch(sketch, 1.0, [0, 500, 1000, 2500])
+  check('loop() repeats on its delay()', later.length === 3, `${later.length} lines after 2.5 s`)
+}
+
+{
+  // The AnalogRead template
+  const sketch = `void setup() {
+  Serial.begin(9600);
+}
+
+void loop() {
+  // Read the input on analog pin 0
+  int sensorValue = analogRead(A0);
+  float voltage = sensorValue * (5.0 / 1023.0);
+  Serial.print("Sensor Value: ");
+  Serial.print(sensorValue);
+  Serial.print(" | Voltage: ");
+  Serial.println(voltage);
+  delay(100);
+}`
+  const lines = runSketch(sketch, 2.5, [0])
+  check('print pieces join into one println line', lines[0] === 'Sensor Value: 512 | Voltage: 2.50', JSON.stringify(lines))
+}
+
+{
+  const sketch = `int count = 0;
+void setup() {
+  Serial.begin(9600);
+  Serial.println(F("ready"));
+  Serial.println(7 / 2);
+  Serial.println(255, HEX);
+  Serial.println(PI, 4);
+}
+void loop() {
+  count++;
+  Serial.print("n=");
+  Serial.println(count);
+  delay(10);
+}`
+  // setup() spends ~23 ms on the wire at 9600 baud before loop() starts
+  const lines = runSketch(sketch, 0, [0, 45])
+  check('F() strings, integer division, HEX and decimals', lines.slice(0, 4).join('|') === 'ready|3|FF|3.1416', JSON.stringify(lines.slice(0, 4)))
+  check('Globals persist across loop passes', lines.slice(4).join('|') === 'n=1|n=2|n=3', JSON.stringify(lines.slice(4)))
+}
+
+{
+  const sketch = `void setup() {
+  Serial.begin(9600);
+  int v = analogRead(A0);
+  if (v > 500) Serial.println("HIGH");
+  else Serial.println("LOW");
+  for (int i = 0; i < 3; i++) {
+    if (i == 1) continue;
+    Serial.print(i);
+  }
+  Serial.println();
+  while (v >= 0 && !(v > 500)) {
+    v -= 60;
+  }
+  Serial.println(v);
+}
+void loop() {}`
+  // analogRead(A0) reads 100 counts
+  const lines = runSketch(sketch, (100 * 5) / 1023, [0])
+  check('if/else runs only the branch its condition picks', lines[0] === 'LOW' && !lines.includes('HIGH'), JSON.stringify(lines))
+  check('for and while loops follow their conditions', lines.slice(1).join('|') === '02|-20', JSON.stringify(lines.slice(1)))
+}
+
+{
+  const sketch = `void setup() {
+  Serial.begin(9600);
+  if (sensor.available()) Serial.println("ready");
+  else Serial.println("waiting");
+  Serial.println("done");
+}
+void loop() {}`
+  const channel = sketchChannel(sketch, 0, [0])
+  const notes = channel.getEntries().filter((entry) => entry.direction === 'note').map((entry) => entry.text)
+  check('A condition the replay cannot evaluate skips both branches', rxLines(channel).join('|') === 'done', JSON.stringify(rxLines(channel)))
+  check('…and is reported as unsupported control flow', notes.some((note) => note.includes('unsupported control flow')), JSON.stringify(notes))
+}
+
+finish()
@@ -0,0 +1,123 @@
+/**
+ * Shockley junction model — a diode into 1kΩ and a zener clamp checked
+ * against the analytic exponential, an LED wired straight across 5V that
+ * must settle at a finite (over-rated) current, and the piecewise default.
+ *
+ * Run: npx tsx nodal_solver_tests/test_shockley.ts
+ */
+
+import { solveCircuit } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { THERMAL_VOLTAGE } from '../src/systems/chain/solver/junction'
+import { check, finish } from './check'
+
+/** Root of a monotonically increasing f on [lo, hi]. */
+function bisect(f: (x: number) => number, lo: number, hi: number): number {
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2
+    if (f(mid) > 0) hi = mid
+    else lo = mid
+  }
+  return (lo + hi) / 2
+}
+
+/** Terminal voltage of a junction carrying `current`, with Is derived from Vf at the reference current. */
+function forwardDrop(current: number, vf: number, reference: number, n: number, rs: number): number {
+  const nVt = n * THERMAL_VOLTAGE
+  const is = reference / Math.exp((vf - reference * rs) / nVt)
+  return nVt * Math.log(current / is + 1) + current * rs
+}
+
+// 5V → diode (0.7V @ 10mA, n=1.8, Rs=0.5Ω) → 1kΩ → GND
+const diode = buildSchematic('Shockley diode', '5V -> 1N4148 -> 1kΩ -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const d = place('Diode', 6, 10, { model: 'shockley' })
+  const r = place('Resistor', 10, 10, { resistance: 1_000 })
+
+  wire([ps.pin('5V'), d.pin('A')], { powered: true })
+  wire([d.pin('K'), r.at(0, 0)])
+  wire([r.at(2, 0), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+const diodeResult = solveCircuit(diode.gridData, diode.wires)
+const diodeCurrent = bisect((i) => forwardDrop(i, 0.7, 0.01, 1.8, 0.5) + i * 1_000 - 5, 1e-9, 0.005)
+const cathode = diodeResult.nodeVoltages.get(posKey(8, 10)) ?? NaN
+check('Diode circuit solves', diodeResult.works, diodeResult.errors.join('; '))
+check(
+  'Newton converges',
+  diodeResult.convergence?.converged === true,
+  `${diodeResult.convergence?.iterations} iterations, ΔV ${diodeResult.convergence?.maxVoltageDelta.toExponential(2)}`
+)
+check(
+  'Diode drop matches Shockley',
+  Math.abs(5 - cathode - forwardDrop(diodeCurrent, 0.7, 0.01, 1.8, 0.5)) < 1e-4,
+  `Vd ${(5 - cathode).toFixed(4)} V expected ${forwardDrop(diodeCurrent, 0.7, 0.01, 1.8, 0.5).toFixed(4)} V`
+)
+const diodeReported = [...diodeResult.componentStates.values()].find((s) => s.componentType === 'Diode')
+check(
+  'Diode reports model current',
+  Math.abs((diodeReported?.outputCurrent ?? 0) - diodeCurrent) < 1e-6,
+  `${((diodeReported?.outputCurrent ?? 0) * 1000).toFixed(4)} mA expected ${(diodeCurrent * 1000).toFixed(4)} mA`
+)
+
+// 12V → 1kΩ → zener (5.1V, 5mA knee) → GND: clamps a little above BV at ~6.9mA
+const zener = buildSchematic('Shockley zener', '12V -> 1kΩ -> 5V1 zener -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10, { voltage: 12 })
+  const r = place('Resistor', 6, 10, { resistance: 1_000 })
+  const z = place('ZenerDiode', 10, 10, { model: 'shockley' })
+
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), z.pin('K')])
+  wire([z.pin('A'), { x: 14, y: 10 }, { x: 14, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+const zenerResult = solveCircuit(zener.gridData, zener.wires)
+const clampV = zenerResult.nodeVoltages.get(posKey(10, 10)) ?? NaN
+const zenerCurrent = bisect((i) => 5.1 + THERMAL_VOLTAGE * Math.log(i / 0.005) + i * 0.5 + i * 1_000 - 12, 1e-6, 0.012)
+const expectedClamp = 12 - zenerCurrent * 1_000
+const zenerState = [...zenerResult.componentStates.values()].find((s) => s.componentType === 'ZenerDiode')
+check('Zener clamps at the knee', Math.abs(clampV - expectedClamp) < 1e-3, `${clampV.toFixed(4)} V expected ${expectedClamp.toFixed(4)} V`)
+check('Zener in breakdown', zenerState?.zenerMode === 'zener', `${zenerState?.zenerMode}`)
+
+// LED (2V @ 20mA, n=2, Rs=10Ω) straight across 5V — piecewise would be a stiff Vf source; Shockley must settle
+const bareLed = buildSchematic('Bare LED', 'LED across 5V with no resistor.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const led = place('LED', 6, 10, { model: 'shockley' })
+
+  wire([ps.pin('5V'), led.pin('+')], { powered: true })
+  wire([led.pin('-'), { x: 8, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], { grounded: true })
+})
+const ledResult = solveCircuit(bareLed.gridData, bareLed.wires)
+const ledCurrent = bisect((i) => forwardDrop(i, 2, 0.02, 2, 10) - 5, 1e-6, 1)
+const ledState = [...ledResult.componentStates.values()].find((s) => s.componentType === 'LED' && s.isOn)
+check('Bare LED converges', ledResult.convergence?.converged === true, `${ledResult.convergence?.iterations} iterations`)
+check(
+  'Bare LED current is finite and Shockley-limited',
+  Math.abs((ledState?.outputCurrent ?? 0) - ledCurrent) < 1e-4,
+  `${((ledState?.outputCurrent ?? 0) * 1000).toFixed(2)} mA expected ${(ledCurrent * 1000).toFixed(2)} mA`
+)
+check(
+  'Over-current warning',
+  ledResult.errors.some((e) => e.includes('over its 20mA rating')),
+  ledResult.errors.join('; ')
+)
+
+// Default model stays piecewise: no Newton report, LED lit through 220Ω
+const piecewise = buildSchematic('Piecewise LED', '5V -> 220Ω -> LED -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 220 })
+  const led = place('LED', 10, 10)
+
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), led.pin('+')])
+  wire([led.pin('-'), { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], { grounded: true })
+})
+const piecewiseResult = solveCircuit(piecewise.gridData, piecewise.wires)
+const piecewiseLed = [...piecewiseResult.componentStates.values()].find((s) => s.componentType === 'LED' && s.isOn)
+check('Piecewise default has no Newton report', piecewiseResult.convergence === undefined, '')
+check('Piecewise LED lights', piecewiseLed !== undefined, piecewiseResult.errors.join('; '))
+
+finish()
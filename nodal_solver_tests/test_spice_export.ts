@@ -0,0 +1,151 @@
+/**
+ * SPICE netlist export — node names follow buildNets, the ground net is node
+ * 0, elements carry the solver's values, semiconductors get shared `.model`
+ * cards, AC sources get a transient spec, op-amp outputs are driven against
+ * ground, potentiometer legs never drop to 0 Ω, and unsupported parts are
+ * reported.
+ *
+ * Run: npx tsx nodal_solver_tests/test_spice_export.ts
+ */
+
+import { buildNets } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { buildSpiceNetlist } from '../src/services/schematicExport/spiceNetlist'
+import { check, finish } from './check'
+
+function cards(netlist: string, prefix: string): string[][] {
+  return netlist
+    .split('\n')
+    .filter((line) => line.startsWith(prefix))
+    .map((line) => line.split(/\s+/))
+}
+
+// 5V → Rc 2k → NPN collector, 5V → Rb 430k → base, emitter → GND; two identical LEDs off the rail
+const ce = buildSchematic('CE stage', '5V, Rb to base, Rc to collector, two LEDs.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rc = place('Resistor', 6, 6, { resistance: 2_000 })
+  const rb = place('Resistor', 6, 11, { resistance: 430_000 })
+  const q = place('NPNTransistor', 12, 10, { model: 'ebers-moll' })
+  const led1 = place('LED', 6, 2)
+  const led2 = place('LED', 12, 2)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, rc.at(0, 0)], { powered: true })
+  wire([rc.at(2, 0), { x: 13, y: 6 }, q.pin('C')])
+  wire([ps.pin('5V'), { x: 2, y: 11 }, rb.at(0, 0)], { powered: true })
+  wire([rb.at(2, 0), q.pin('B')])
+  wire([q.pin('E'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  wire([ps.pin('5V'), { x: 1, y: 10 }, { x: 1, y: 2 }, led1.pin('+')], { powered: true })
+  wire([led1.pin('-'), { x: 10, y: 2 }, { x: 10, y: 0 }, { x: 16, y: 0 }, { x: 16, y: 14 }, { x: 13, y: 14 }])
+  wire([rc.at(2, 0), { x: 9, y: 4 }, { x: 12, y: 4 }, led2.pin('+')])
+  wire([led2.pin('-'), { x: 15, y: 2 }, { x: 15, y: 12 }, q.pin('E')])
+})
+
+const nets = buildNets(ce.gridData, ce.wires)
+const node = (x: number, y: number): string => {
+  const net = nets.posToNet.get(posKey(x, y))
+  return net === nets.groundNet ? '0' : `n${net}`
+}
+const { netlist, warnings } = buildSpiceNetlist(ce)
+
+check('Title line is the schematic name', netlist.startsWith('* CE stage\n'), netlist.split('\n')[0])
+check('Deck ends with .op and .end', /\n\.op\n\.end\n$/.test(netlist), '')
+check('No warnings for a fully supported schematic', warnings.length === 0, warnings.join('; '))
+
+const [supply] = cards(netlist, 'V')
+check(
+  'Supply from the 5V net to node 0',
+  supply?.[1] === node(2, 10) && supply?.[2] === '0' && supply?.slice(3).join(' ') === 'DC 5',
+  supply?.join(' ') ?? 'missing'
+)
+
+const resistors = cards(netlist, 'R')
+const rcCard = resistors.find((r) => r[3] === '2000')
+const rbCard = resistors.find((r) => r[3] === '430000')
+check(
+  'Rc between the rail and the collector net',
+  rcCard !== undefined && rcCard.slice(1, 3).sort().join() === [node(6, 6), node(13, 10)].sort().join(),
+  rcCard?.join(' ') ?? 'missing'
+)
+check(
+  'Rb between the rail and the base net',
+  rbCard !== undefined && rbCard.slice(1, 3).sort().join() === [node(6, 11), node(12, 11)].sort().join(),
+  rbCard?.join(' ') ?? 'missing'
+)
+
+const [q] = cards(netlist, 'Q')
+const qModel = cards(netlist, '.model').find((m) => m[1] === q?.[4])
+check(
+  'BJT pins in C B E order',
+  q?.slice(1, 4).join(' ') === `${node(13, 10)} ${node(12, 11)} 0`,
+  q?.join(' ') ?? 'missing'
+)
+check(
+  'BJT model card carries Is and beta',
+  qModel !== undefined && qModel[2].startsWith('NPN(IS=') && qModel.includes('BF=100'),
+  qModel?.join(' ') ?? 'missing'
+)
+
+const diodes = cards(netlist, 'D')
+const diodeModels = cards(netlist, '.model').filter((m) => m[2].startsWith('D('))
+check(
+  'Identical LEDs share one .model card',
+  diodes.length === 2 && diodes[0][3] === diodes[1][3] && diodeModels.length === 1,
+  diodeModels.map((m) => m.join(' ')).join('; ')
+)
+check('LED model has N=2 and RS=10', diodeModels[0]?.includes('N=2') && diodeModels[0]?.includes('RS=10)'), diodeModels[0]?.join(' ') ?? '')
+
+// AC source: SIN spec at the source's peak and frequency, plus a .tran covering five periods
+const rc = buildSchematic('RC low-pass', '12Vrms 50 Hz into 1k / 10µF, and an ESC.', ({ place, wire }) => {
+  const ac = place('ACSource', 2, 10, { vrms: 12, frequency: 50 })
+  const r = place('Resistor', 8, 10, { resistance: 1_000 })
+  const c = place('Capacitor', 12, 10, { capacitance: 0.00001 })
+  place('BLDC ESC', 20, 20)
+
+  wire([ac.pin('AC1'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), c.at(0, 0)])
+  wire([c.at(2, 0), { x: 14, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ac.pin('AC2')], { grounded: true })
+})
+const rcDeck = buildSpiceNetlist(rc)
+const [acCard] = cards(rcDeck.netlist, 'V')
+check(
+  'AC source is a 16.97V 50Hz sine',
+  acCard?.slice(3).join(' ') === 'DC 0 AC 1 SIN(0 16.9706 50)',
+  acCard?.join(' ') ?? 'missing'
+)
+check('Capacitor value', cards(rcDeck.netlist, 'C')[0]?.[3] === '0.00001', cards(rcDeck.netlist, 'C')[0]?.join(' ') ?? '')
+check('Transient covers five periods', rcDeck.netlist.includes('\n.tran 0.0001 0.1\n'), '')
+check(
+  'Unsupported parts are reported',
+  rcDeck.warnings.some((w) => w.includes('has no SPICE equivalent')),
+  rcDeck.warnings.join('; ')
+)
+
+// Op-amp fed from a pot turned fully to A
+const split = buildSchematic('Pot op-amp', 'Pot into an op-amp.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const pot = place('Potentiometer', 4, 4, { resistance: 10_000, wiperPosition: 0 })
+  const op = place('OpAmp', 12, 9)
+
+  wire([ps.pin('5V'), { x: 2, y: 4 }, pot.pin('A')], { powered: true })
+  wire([pot.pin('W'), { x: 5, y: 5 }, { x: 10, y: 5 }, { x: 10, y: 11 }, op.pin('+')])
+  wire([pot.pin('B'), { x: 6, y: 3 }, { x: 11, y: 3 }, { x: 11, y: 10 }, op.pin('-')])
+  wire([op.pin('V-'), { x: 13, y: 16 }, { x: 3, y: 16 }, ps.pin('GND')], { grounded: true })
+})
+const splitNets = buildNets(split.gridData, split.wires)
+const splitDeck = buildSpiceNetlist(split)
+const [opCard] = cards(splitDeck.netlist, 'E')
+check(
+  'Op-amp output is referenced to ground',
+  opCard?.[2] === '0' && opCard[1] !== '0',
+  opCard?.join(' ') ?? 'missing'
+)
+const wiperNode = `n${splitNets.posToNet.get(posKey(5, 4))}`
+const potLegs = cards(splitDeck.netlist, 'R').filter((card) => card[1] === wiperNode || card[2] === wiperNode)
+check(
+  'Potentiometer legs stay above 0 Ω at the end of the track',
+  potLegs.length === 2 && potLegs.every((card) => Number(card[3]) >= 1e-3),
+  potLegs.map((card) => card.join(' ')).join(' | ')
+)
+
+finish()
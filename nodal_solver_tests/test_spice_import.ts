@@ -0,0 +1,141 @@
+/**
+ * SPICE netlist import — a hand-written deck with models and a subcircuit is
+ * placed, wired and solved; an exported CE stage survives the round trip;
+ * sources written ground-first import upright or not at all; unsupported
+ * cards are reported instead of silently dropped.
+ *
+ * Run: npx tsx nodal_solver_tests/test_spice_import.ts
+ */
+
+import { buildNets, solveCircuit } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { listComponents } from '../src/agent/schematic/operations'
+import { posKey } from '../src/systems/chain/utils'
+import { buildSpiceNetlist } from '../src/services/schematicExport/spiceNetlist'
+import { importSpiceNetlist, parseSpiceNumber } from '../src/services/schematicExport/spiceImport'
+import { check, finish } from './check'
+
+const numbers: Array<[string, number]> = [
+  ['4.7k', 4700],
+  ['10uF', 1e-5],
+  ['2MEG', 2e6],
+  ['3m', 0.003],
+  ['1e-3', 0.001],
+]
+check(
+  'SPICE numbers and suffixes',
+  numbers.every(([token, value]) => Math.abs((parseSpiceNumber(token) ?? NaN) / value - 1) < 1e-12),
+  numbers.map(([token]) => `${token}=${parseSpiceNumber(token)}`).join(' ')
+)
+
+// Divider inside a subcircuit, a 1N4148 off its tap, and a current source CircuitWiz cannot place
+const deck = `Divider with diode
+* top level
+V1 vin 0 DC 10
+X1 vin tap 0 DIVIDER
+D1 tap out D1N4148
+R3 out 0 10k ; load
+I1 vin 0 1m
+.model D1N4148 D(IS=2.52n N=1.752
++ RS=0.568)
+.subckt DIVIDER top mid bot
+RA top mid 1k
+RB mid bot 1k
+.ends
+.op
+.end
+`
+const imported = importSpiceNetlist(deck)
+if ('error' in imported) {
+  check('Deck imports', false, imported.error)
+} else {
+  const { schematic, warnings } = imported
+  const parts = listComponents(schematic)
+  const byId = new Map(parts.map((p) => [p.id, p]))
+  check('Title becomes the schematic name', schematic.name === 'Divider with diode', schematic.name)
+  check(
+    'Subcircuit flattened into prefixed parts',
+    byId.has('spice-x1-ra') && byId.has('spice-x1-rb') && parts.length === 5,
+    parts.map((p) => p.id).join(', ')
+  )
+  check(
+    'Diode carries its .model card',
+    byId.get('spice-d1')?.properties.saturationCurrent === 2.52e-9 &&
+      byId.get('spice-d1')?.properties.model === 'shockley',
+    JSON.stringify(byId.get('spice-d1')?.properties.saturationCurrent)
+  )
+  check('Current source reported', warnings.some((w) => w.startsWith('i1:')), warnings.join('; '))
+  check('Routing keeps every node distinct', !warnings.some((w) => w.startsWith('Node')), warnings.join('; '))
+
+  const nets = buildNets(schematic.gridData, schematic.wires)
+  const pinNet = (id: string, pin: string) => {
+    const p = byId.get(id)?.pins.find((q) => q.name === pin)
+    return p ? nets.posToNet.get(posKey(p.x, p.y)) : undefined
+  }
+  check(
+    'Divider tap drives the diode anode',
+    pinNet('spice-x1-ra', '2') !== undefined &&
+      [pinNet('spice-x1-rb', '1'), pinNet('spice-x1-rb', '2'), pinNet('spice-d1', 'A')].filter(
+        (n) => n === pinNet('spice-x1-ra', '2')
+      ).length >= 2,
+    ''
+  )
+
+  const result = solveCircuit(schematic.gridData, schematic.wires)
+  const supply = byId.get('spice-v1')?.pins.find((p) => p.name === '5V')
+  const vin = supply ? result.nodeVoltages.get(posKey(supply.x, supply.y)) : undefined
+  check('Imported circuit solves at 10 V', result.works && Math.abs((vin ?? 0) - 10) < 1e-6, `${vin} V; ${result.errors.join('; ')}`)
+}
+
+// Round trip: export the CE stage, import it, and the collector lands at the same voltage
+const ce = buildSchematic('CE stage', '', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rc = place('Resistor', 6, 6, { resistance: 2_000 })
+  const rb = place('Resistor', 6, 11, { resistance: 430_000 })
+  const q = place('NPNTransistor', 12, 10, { model: 'ebers-moll' })
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, rc.at(0, 0)], { powered: true })
+  wire([rc.at(2, 0), { x: 13, y: 6 }, q.pin('C')])
+  wire([ps.pin('5V'), { x: 2, y: 11 }, rb.at(0, 0)], { powered: true })
+  wire([rb.at(2, 0), q.pin('B')])
+  wire([q.pin('E'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+})
+const original = solveCircuit(ce.gridData, ce.wires).nodeVoltages.get(posKey(13, 10)) ?? NaN
+const roundTrip = importSpiceNetlist(buildSpiceNetlist(ce).netlist)
+if ('error' in roundTrip) {
+  check('Round trip imports', false, roundTrip.error)
+} else {
+  const q = listComponents(roundTrip.schematic).find((p) => p.moduleName === 'NPNTransistor')
+  const collector = q?.pins.find((p) => p.name === 'C')
+  const result = solveCircuit(roundTrip.schematic.gridData, roundTrip.schematic.wires)
+  const vc = collector ? result.nodeVoltages.get(posKey(collector.x, collector.y)) ?? NaN : NaN
+  check('Round trip has no warnings', roundTrip.warnings.length === 0, roundTrip.warnings.join('; '))
+  check('Round-trip collector voltage matches', Math.abs(vc - original) < 2e-3, `${vc.toFixed(4)} V vs ${original.toFixed(4)} V`)
+}
+
+// Sources written ground-first: -5 V from 0 to vcc is a +5 V rail, 5 V from 0 to vee is a negative rail
+const reversed = importSpiceNetlist(`Reversed sources
+V1 0 vcc DC -5
+R1 vcc 0 1k
+V2 0 vee 5
+R2 vee 0 1k
+.end
+`)
+if ('error' in reversed) {
+  check('Reversed sources import', false, reversed.error)
+} else {
+  const supplies = listComponents(reversed.schematic).filter((p) => p.moduleName === 'PowerSupply')
+  const result = solveCircuit(reversed.schematic.gridData, reversed.schematic.wires)
+  const rail = supplies[0]?.pins.find((p) => p.name === '5V')
+  const vcc = rail ? result.nodeVoltages.get(posKey(rail.x, rail.y)) : undefined
+  check(
+    'Ground-first source with a negative value imports as a positive supply',
+    supplies.length === 1 && supplies[0].properties.voltage === 5 && Math.abs((vcc ?? 0) - 5) < 1e-6,
+    `${supplies.map((p) => `${p.id}=${p.properties.voltage}`).join(', ')}; ${vcc} V`
+  )
+  check('Negative rail is reported and skipped', reversed.warnings.some((w) => w.startsWith('v2:')), reversed.warnings.join('; '))
+}
+
+check('Empty deck is an error', 'error' in importSpiceNetlist('title\n.end\n'), '')
+
+finish()
@@ -0,0 +1,92 @@
+/**
+ * Sub-circuit blocks — a selection collapses into a block whose ports are the
+ * nets that leave it, and the solver flattens placed blocks back into the same
+ * circuit, so a collapsed divider solves to the same voltages as the original,
+ * whatever the block is named.
+ *
+ * Run: npx tsx nodal_solver_tests/test_subcircuits.ts
+ */
+
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { flattenSubcircuits } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { createSubcircuitBlock } from '../src/types/workspace'
+import { buildSubcircuitDefinition, moduleDisplayName } from '../src/modules/subcircuitModule'
+import { collapseToBlockInstance, componentsInRegion, extractSubcircuit } from '../src/utils/subcircuitBlocks'
+import { check, finish } from './check'
+
+// 10V → R1 → mid → R2 → GND, with a load R3 from mid to GND left outside the {R1, R2} selection
+let ids = { r1: '', r2: '', r3: '' }
+const divider = buildSchematic('Divider', 'Two-resistor divider with a load.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 14, { voltage: 10 })
+  const r1 = place('Resistor', 6, 6, { resistance: 1000 })
+  const r2 = place('Resistor', 12, 6, { resistance: 1000 })
+  const r3 = place('Resistor', 12, 10, { resistance: 2000 })
+  ids = { r1: r1.id, r2: r2.id, r3: r3.id }
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, r1.at(0, 0)], { powered: true })
+  wire([r1.at(2, 0), r2.at(0, 0)])
+  wire([r2.at(0, 0), { x: 10, y: 6 }, { x: 10, y: 10 }, r3.at(0, 0)])
+  wire([r2.at(2, 0), { x: 18, y: 6 }, { x: 18, y: 17 }, { x: 16, y: 17 }, { x: 3, y: 17 }, ps.pin('GND')], { grounded: true })
+  wire([r3.at(2, 0), { x: 16, y: 10 }, { x: 16, y: 17 }], { grounded: true })
+})
+
+const loadNode = posKey(12, 10)
+const flatVoltage = solveCircuit(divider.gridData, divider.wires).nodeVoltages.get(loadNode) ?? NaN
+check('Flat divider loads to 4 V', Math.abs(flatVoltage - 4) < 0.05, flatVoltage.toFixed(3))
+
+const inRegion = componentsInRegion(divider.gridData, { x: 5, y: 5, width: 11, height: 3 })
+check('Region picks up R1 and R2 only', inRegion.sort().join() === [ids.r1, ids.r2].sort().join(), inRegion.join(', '))
+
+const extracted = extractSubcircuit(divider.gridData, divider.wires, [ids.r1, ids.r2])
+if ('error' in extracted) {
+  check('Selection extracts', false, extracted.error)
+} else {
+  const ports = extracted.content.ports
+  check('Three nets leave the selection', ports.length === 3, ports.map((p) => p.name).join(', '))
+  check('Only the R1–R2 wire moves into the block', extracted.content.wires.length === 1, String(extracted.content.wires.length))
+
+  const block = createSubcircuitBlock('Divider', extracted.content)
+  const collapsed = collapseToBlockInstance(divider.gridData, divider.wires, extracted, block, 'divider-1')
+  if ('error' in collapsed) {
+    check('Selection collapses', false, collapsed.error)
+  } else {
+    const remaining = new Set(collapsed.gridData.flat().map((cell) => cell?.componentId).filter(Boolean))
+    check('R1 and R2 leave the sheet', !remaining.has(ids.r1) && !remaining.has(ids.r2) && remaining.has('divider-1'), '')
+
+    const flat = flattenSubcircuits(collapsed.gridData, collapsed.wires)
+    const inner = new Set(flat.gridData.flat().map((cell) => cell?.componentId).filter(Boolean))
+    check('Flattening restores the inner parts', inner.has(`divider-1/${ids.r1}`) && inner.has(`divider-1/${ids.r2}`), '')
+
+    const result = solveCircuit(collapsed.gridData, collapsed.wires)
+    const blockVoltage = result.nodeVoltages.get(loadNode) ?? NaN
+    check('Collapsed divider solves like the flat one', Math.abs(blockVoltage - flatVoltage) < 0.01, blockVoltage.toFixed(3))
+
+    const sheetIds = new Set(collapsed.wires.map((w) => w.id))
+    check('Solver hands back only sheet wires', result.updatedWires.every((w) => sheetIds.has(w.id)), String(result.updatedWires.length))
+  }
+}
+
+// A block named after a part is still a block to everything that branches on the module id
+{
+  const picked = extractSubcircuit(divider.gridData, divider.wires, [ids.r1, ids.r2])
+  if ('error' in picked) {
+    check('Selection extracts', false, picked.error)
+  } else {
+    const block = createSubcircuitBlock('LED', picked.content)
+    const definition = buildSubcircuitDefinition(block)
+    check(
+      'A block keeps the Subcircuit module id and its own name for display',
+      definition.module === 'Subcircuit' && moduleDisplayName(definition) === 'LED',
+      `${definition.module} / ${moduleDisplayName(definition)}`
+    )
+    const collapsed = collapseToBlockInstance(divider.gridData, divider.wires, picked, block, 'led-block')
+    const voltage = 'error' in collapsed ? NaN : solveCircuit(collapsed.gridData, collapsed.wires).nodeVoltages.get(loadNode) ?? NaN
+    check('A block named "LED" solves as its contents', Math.abs(voltage - flatVoltage) < 0.01, voltage.toFixed(3))
+  }
+}
+
+check('Empty selection is refused', 'error' in extractSubcircuit(divider.gridData, divider.wires, []), '')
+
+finish()
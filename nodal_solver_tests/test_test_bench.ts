@@ -0,0 +1,156 @@
+/**
+ * Test bench — stimulus scripts parsed into timed set/expect steps, parts named
+ * by module and ordinal, and a run over a switch → resistor → LED string, a pot
+ * divider and a thermistor divider: switch, wiper, sensor and supply changes
+ * re-solved before each voltage, current and LED-state expectation.
+ *
+ * Run: npx tsx nodal_solver_tests/test_test_bench.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { thermistorResistance } from '../src/systems/chain/sensorStamps'
+import { listBenchParts, parseQuantity, parseTestBench, runTestBench } from '../src/utils/testBench'
+import { check, finish } from './check'
+
+const near = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol
+
+// --- Parsing ------------------------------------------------------------------------------
+{
+  const q = (text: string) => parseQuantity(text)?.value ?? NaN
+  check(
+    'Quantities scale SI prefixes on electrical units only',
+    near(q('20mA'), 0.02, 1e-12) && near(q('2.5 V'), 2.5, 1e-12) && q('40') === 40 && q('10 cm') === 10 && q('4.7k') === 4.7,
+    `20mA=${q('20mA')} 2.5 V=${q('2.5 V')} 10 cm=${q('10 cm')}`
+  )
+  check('Percentages become fractions', parseQuantity('25%')?.value === 0.25 && parseQuantity('25%')?.percent === true, '25% → 0.25')
+
+  const { commands, errors } = parseTestBench(`
+    # comment
+    set SW1 on
+    at 1 s
+    set POT1 wiper 30%
+    wait 250 ms
+    expect V(R1.2, 4,7) >= 2.5 V ± 50 mV   // trailing comment
+    expect I(LED1) < 20mA
+    expect LED1 off
+  `)
+  const times = commands.map((c) => c.atMs).join(',')
+  check('Steps carry their times; `at` is absolute and `wait` relative', errors.length === 0 && times === '0,1000,1250,1250,1250', times)
+  const expect = commands[2]
+  check(
+    'Voltage probes take a part pin and a grid reference with a tolerance',
+    expect?.kind === 'expect' &&
+      expect.probe.kind === 'voltage' &&
+      'part' in expect.probe.at &&
+      expect.probe.at.pin === '2' &&
+      expect.probe.ref !== null &&
+      'x' in expect.probe.ref &&
+      expect.op === '>=' &&
+      near(expect.tolerance ?? 0, 0.05, 1e-12),
+    JSON.stringify(expect)
+  )
+
+  const bad = parseTestBench('at 2 s\nat 1 s\nset\nexpect V(R1) = 3\nflip SW1')
+  check(
+    'Malformed lines are reported with their line numbers',
+    bad.errors.map((e) => e.line).join(',') === '2,3,4,5',
+    bad.errors.map((e) => `${e.line}: ${e.message}`).join(' | ')
+  )
+}
+
+// --- A sheet to drive ---------------------------------------------------------------------
+const sheet = buildSchematic('Bench', 'Switched LED, pot divider and thermistor divider on 5 V', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 16, { voltage: 5 })
+  const sw = place('Switch', 4, 2)
+  const r = place('Resistor', 8, 2, { resistance: 330 })
+  const led = place('LED', 12, 2)
+  const pot = place('Potentiometer', 4, 6, { resistance: 10_000, wiperPosition: 0.5 })
+  const rt = place('Resistor', 4, 10, { resistance: 10_000 })
+  const thermistor = place('Thermistor', 8, 10)
+
+  wire([ps.pin('5V'), { x: 1, y: 16 }, { x: 1, y: 10 }, { x: 1, y: 6 }, { x: 1, y: 2 }, sw.pin('IN')], { powered: true })
+  wire([sw.pin('OUT'), r.at(0, 0)])
+  wire([r.at(2, 0), led.pin('+')])
+  wire([led.pin('-'), { x: 16, y: 2 }, { x: 16, y: 14 }, { x: 10, y: 14 }, { x: 6, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], {
+    grounded: true,
+  })
+  wire([pot.pin('A'), { x: 1, y: 6 }], { powered: true })
+  wire([pot.pin('B'), { x: 6, y: 14 }], { grounded: true })
+  wire([rt.at(0, 0), { x: 1, y: 10 }], { powered: true })
+  wire([rt.at(2, 0), thermistor.pin('1')])
+  wire([thermistor.pin('2'), { x: 10, y: 14 }], { grounded: true })
+})
+const gridData = sheet.gridData
+
+{
+  const refs = listBenchParts(gridData).map((part) => part.ref)
+  check(
+    'Parts are named by module and ordinal in reading order',
+    refs.join(',') === 'Switch1,Resistor1,LED1,Potentiometer1,Resistor2,Thermistor1,PowerSupply1',
+    refs.join(', ')
+  )
+}
+
+// --- Running --------------------------------------------------------------------------------
+const run = runTestBench(
+  `
+  at 0
+  expect LED1 off
+  expect V(Potentiometer1.W) = 2.5 V
+  expect V(Resistor2.2) = 2.5 V ± 20 mV
+  at 100 ms
+  set Switch1 on
+  expect LED1 on
+  expect I(LED1) > 5 mA
+  expect V(LED1.+, LED1.-) < 2.5 V
+  set Potentiometer1 wiper 25%
+  expect V(Potentiometer1.W) = 3.75 V
+  set Thermistor1 temperature 60
+  expect V(Resistor2.2) < 1.5 V
+  at 200 ms
+  set PowerSupply1 voltage 9
+  expect V(Potentiometer1.W) = 6.75 V
+  expect LED1 off
+  `,
+  gridData,
+  sheet.wires
+)
+const outcome = (line: number) => run.results.find((r) => r.line === line)
+
+check('Every expectation ran without script errors', run.errors.length === 0 && run.results.length === 10, `${run.results.length} results`)
+check('Switch off leaves the LED dark', outcome(3)?.passed === true, outcome(3)?.message ?? '')
+check('Pot at mid travel splits 5 V', outcome(4)?.passed === true, outcome(4)?.message ?? '')
+check('Switching on lights the LED', outcome(8)?.passed === true && outcome(9)?.passed === true, `${outcome(9)?.message}`)
+check('Differential probe reads the LED drop', outcome(10)?.passed === true, outcome(10)?.message ?? '')
+check('Wiper changes reach the solver', outcome(12)?.passed === true, outcome(12)?.message ?? '')
+{
+  const rt60 = thermistorResistance(10_000, 3950, 60)
+  const expected = (5 * rt60) / (10_000 + rt60)
+  check(
+    'Sensor stimulus moves the thermistor divider',
+    outcome(14)?.passed === true && near(outcome(14)?.measured ?? NaN, expected, 0.02),
+    `${outcome(14)?.measured?.toFixed(3)} V (expected ${expected.toFixed(3)} V)`
+  )
+}
+check('Supply voltage changes scale the divider', outcome(17)?.passed === true, outcome(17)?.message ?? '')
+check(
+  'A wrong expectation fails with the measured value',
+  outcome(18)?.passed === false && run.failed === 1 && /got on/.test(outcome(18)?.message ?? ''),
+  `${outcome(18)?.message}; ${run.passed} passed, ${run.failed} failed`
+)
+check(
+  'The run leaves the input sheet untouched',
+  !gridData.flat().some((cell) => cell?.isOn) && run.gridData.flat().some((cell) => cell?.isOn),
+  'switch closed only in the run copy'
+)
+
+{
+  const bad = runTestBench('set Resistor1 on\nset Nope1 on\nset Switch1 wiper 3\nexpect V(LED1.9) > 1\nexpect V(Ghost1.+) > 1', gridData, sheet.wires)
+  check(
+    'Unknown parts, settings and pins are reported against their lines',
+    bad.errors.map((e) => e.line).join(',') === '1,2,3' && bad.results.every((r) => !r.passed && r.measured === null),
+    [...bad.errors.map((e) => `${e.line}: ${e.message}`), ...bad.results.map((r) => `${r.line}: ${r.message}`)].join(' | ')
+  )
+}
+
+finish()
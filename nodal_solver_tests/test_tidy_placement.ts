@@ -0,0 +1,140 @@
+/**
+ * Connectivity placement for the tidy layout — shorter wiring and fewer
+ * crossings than a scrambled sheet, a decoupling capacitor kept beside its
+ * regulator, pinned parts and group boxes respected, and the tidied circuit
+ * solving as it did before.
+ *
+ * Run: npx tsx nodal_solver_tests/test_tidy_placement.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { applyTidyLayout, planTidyLayout, type TidyLayoutNode } from '../src/utils/schematicTidyLayout'
+import { SCHEMATIC_LAYOUT_GUIDELINES } from '../src/agent/schematic/layoutGuidelines'
+import { createSchematicGroupBox } from '../src/types/workspace'
+import { check, finish } from './check'
+
+const { minGapCells } = SCHEMATIC_LAYOUT_GUIDELINES
+
+/** Pairs of parts whose footprints come closer than the layout gap. */
+function crowded(nodes: TidyLayoutNode[]): string[] {
+  const found: string[] = []
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = { ...nodes[i].proposedOrigin, w: nodes[i].size.gridX, h: nodes[i].size.gridY }
+      const b = { ...nodes[j].proposedOrigin, w: nodes[j].size.gridX, h: nodes[j].size.gridY }
+      if (a.x < b.x + b.w + minGapCells && b.x < a.x + a.w + minGapCells && a.y < b.y + b.h + minGapCells && b.y < a.y + a.h + minGapCells) {
+        found.push(`${nodes[i].moduleName}/${nodes[j].moduleName}`)
+      }
+    }
+  }
+  return found
+}
+
+const metricsText = (plan: ReturnType<typeof planTidyLayout>) =>
+  `wire ${plan.metrics.before.wireLength}→${plan.metrics.after.wireLength}, crossings ${plan.metrics.before.crossings}→${plan.metrics.after.crossings}`
+
+// --- A scrambled series chain ----------------------------------------------------------------------
+{
+  // 5 V → R1 → R2 → R3 → LED → GND, with the parts strewn across the sheet in the wrong order.
+  const sheet = buildSchematic('Scrambled chain', 'a resistor chain placed out of order', ({ place, wire }) => {
+    const ps = place('PowerSupply', 30, 30)
+    const r1 = place('Resistor', 4, 36, { resistance: 100 })
+    const r2 = place('Resistor', 34, 4, { resistance: 100 })
+    const r3 = place('Resistor', 4, 4, { resistance: 100 })
+    const led = place('LED', 20, 40)
+    wire([ps.pin('5V'), { x: 30, y: 26 }, { x: 4, y: 26 }, r1.at(0, 0)], { powered: true })
+    wire([r1.at(2, 0), { x: 34, y: 36 }, r2.at(0, 0)])
+    wire([r2.at(2, 0), { x: 36, y: 2 }, { x: 4, y: 2 }, r3.at(0, 0)])
+    wire([r3.at(2, 0), { x: 20, y: 6 }, led.pin('+')])
+    wire([led.pin('-'), { x: 22, y: 44 }, { x: 31, y: 44 }, ps.pin('GND')], { grounded: true })
+  })
+
+  check('the tidy layout still defaults to signal-flow columns', planTidyLayout(sheet).mode === 'layers', '')
+
+  const plan = planTidyLayout(sheet, { mode: 'connectivity' })
+  check('connectivity placement moves the parts', plan.hasChanges && plan.mode === 'connectivity', plan.summary)
+  check('it shortens the wiring', plan.metrics.after.wireLength < plan.metrics.before.wireLength / 2, metricsText(plan))
+  check('and no two parts end up crowded', crowded(plan.nodes).length === 0, JSON.stringify(crowded(plan.nodes)))
+
+  const layered = planTidyLayout(sheet)
+  check('it wires no longer than the column layout', plan.metrics.after.wireLength <= layered.metrics.after.wireLength, `${plan.metrics.after.wireLength} vs ${layered.metrics.after.wireLength}`)
+
+  const current = (solve: ReturnType<typeof solveCircuit>) => Math.max(...solve.updatedWires.map((w) => w.current ?? 0))
+  const before = solveCircuit(sheet.gridData, sheet.wires)
+  const tidied = applyTidyLayout(sheet, plan)
+  const after = solveCircuit(tidied.gridData, tidied.wires)
+  check(
+    'the tidied circuit solves the same',
+    Math.abs(current(before) - current(after)) < 1e-6 && current(after) > 0.001,
+    `${(current(before) * 1000).toFixed(2)} mA → ${(current(after) * 1000).toFixed(2)} mA`
+  )
+}
+
+// --- Crossings -----------------------------------------------------------------------------------
+{
+  // Two links drawn as an X: top-left to bottom-right and bottom-left to top-right.
+  const sheet = buildSchematic('Crossed', 'two nets drawn across each other', ({ place, wire }) => {
+    const a = place('Resistor', 2, 2)
+    const b = place('Resistor', 20, 14)
+    const c = place('Resistor', 2, 14)
+    const d = place('Resistor', 20, 2)
+    wire([a.at(2, 0), { x: 12, y: 2 }, { x: 12, y: 14 }, b.at(0, 0)])
+    wire([c.at(2, 0), { x: 14, y: 14 }, { x: 14, y: 2 }, d.at(0, 0)])
+  })
+  const plan = planTidyLayout(sheet, { mode: 'connectivity' })
+  check('crossing links are untangled', plan.metrics.before.crossings > 0 && plan.metrics.after.crossings === 0, metricsText(plan))
+}
+
+// --- Decoupling, pins and group boxes -------------------------------------------------------------------
+{
+  // An LM317 with its input capacitor drawn far away, and an LED stage beside it.
+  const sheet = buildSchematic('Regulator', 'an LM317 with a far-off input capacitor', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const reg = place('LM317M', 10, 10)
+    const cap = place('Capacitor', 30, 30, { capacitance: 1e-7 })
+    const r = place('Resistor', 18, 4, { resistance: 330 })
+    const led = place('LED', 26, 4)
+    wire([ps.pin('5V'), reg.pin('VIN')], { powered: true })
+    wire([ps.pin('GND'), { x: 3, y: 14 }, { x: 10, y: 14 }, reg.pin('GND')], { grounded: true })
+    wire([reg.pin('VIN'), { x: 10, y: 8 }, { x: 30, y: 8 }, cap.at(0, 0)])
+    wire([reg.pin('GND'), { x: 8, y: 11 }, { x: 8, y: 32 }, { x: 32, y: 32 }, cap.at(2, 0)])
+    wire([reg.pin('VOUT'), { x: 12, y: 4 }, r.at(0, 0)])
+    wire([r.at(2, 0), led.pin('+')])
+  })
+  const plan = planTidyLayout(sheet, { mode: 'connectivity' })
+  const node = (module: string) => plan.nodes.find((n) => n.moduleName === module)!
+  const cap = node('Capacitor')
+  const reg = node('LM317M')
+  const gap = Math.abs(cap.proposedOrigin.x - reg.proposedOrigin.x) + Math.abs(cap.proposedOrigin.y - reg.proposedOrigin.y)
+  check('the capacitor is recognised as decoupling the regulator', cap.decouples === reg.id, `${cap.decouples} vs ${reg.id}`)
+  check('and placed beside it', gap <= 8, `${gap} cells apart`)
+
+  const ps = node('PowerSupply')
+  const pinned = planTidyLayout(sheet, { mode: 'connectivity', pinned: [ps.id] })
+  const pinnedPs = pinned.nodes.find((n) => n.id === ps.id)!
+  check(
+    'a pinned part stays put while the rest move',
+    !!pinnedPs.pinned && pinnedPs.proposedOrigin.x === ps.currentOrigin.x && pinnedPs.proposedOrigin.y === ps.currentOrigin.y && pinned.hasChanges,
+    JSON.stringify(pinnedPs.proposedOrigin)
+  )
+  const saved = planTidyLayout({ ...sheet, layoutPins: [ps.id] }, { mode: 'connectivity' })
+  check("the schematic's saved pins are used by default", !!saved.nodes.find((n) => n.id === ps.id)?.pinned, '')
+
+  // Box the LED stage; it keeps to its box and everything else keeps out.
+  const box = { ...createSchematicGroupBox(16, 2, 16, 6, 'LED stage'), id: 'box-led' }
+  const boxed = planTidyLayout({ ...sheet, groupBoxes: [box] }, { mode: 'connectivity' })
+  const inside = (n: TidyLayoutNode) =>
+    n.proposedOrigin.x >= box.x && n.proposedOrigin.y >= box.y && n.proposedOrigin.x + n.size.gridX <= box.x + box.width && n.proposedOrigin.y + n.size.gridY <= box.y + box.height
+  const outside = (n: TidyLayoutNode) =>
+    n.proposedOrigin.x + n.size.gridX <= box.x || n.proposedOrigin.x >= box.x + box.width || n.proposedOrigin.y + n.size.gridY <= box.y || n.proposedOrigin.y >= box.y + box.height
+  const members = boxed.nodes.filter((n) => n.moduleName === 'Resistor' || n.moduleName === 'LED')
+  const others = boxed.nodes.filter((n) => !members.includes(n))
+  check('parts in a group box stay inside it', members.every(inside), JSON.stringify(members.map((n) => n.proposedOrigin)))
+  check('and the others keep out of it', others.every(outside), JSON.stringify(others.map((n) => n.proposedOrigin)))
+  check('without crowding each other', crowded(boxed.nodes).length === 0 && crowded(plan.nodes).length === 0, JSON.stringify([...crowded(boxed.nodes), ...crowded(plan.nodes)]))
+  const applied = applyTidyLayout({ ...sheet, groupBoxes: [box] }, boxed)
+  check('applying it leaves the box where it was', applied.groupBoxes?.[0]?.x === box.x && applied.groupBoxes?.[0]?.y === box.y, JSON.stringify(applied.groupBoxes?.[0]))
+}
+
+finish()
@@ -0,0 +1,112 @@
+/**
+ * Transient analysis — RC charging against the analytic exponential, an
+ * underdamped series LC ringing at 1/(2π√LC), and a half-wave rectifier
+ * following its AC source.
+ *
+ * Run: npx tsx nodal_solver_tests/test_transient.ts
+ */
+
+import { solveTransient } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { check, finish } from './check'
+
+const VCC = 5
+
+function sampleAt(time: number[], samples: number[], t: number): number {
+  const idx = time.findIndex((s) => s >= t - 1e-12)
+  return samples[idx < 0 ? samples.length - 1 : idx]
+}
+
+// 5V → 1kΩ → 100µF → GND, τ = 0.1 s
+const rc = buildSchematic('RC Transient', '5V -> 1kΩ -> 100µF -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r = place('Resistor', 6, 10, { resistance: 1_000 })
+  const c = place('Capacitor', 10, 10, { capacitance: 0.0001 })
+
+  wire([ps.pin('5V'), r.at(0, 0)], { powered: true })
+  wire([r.at(2, 0), c.pin('1')])
+  wire([c.pin('2'), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+
+const tau = 0.1
+const rcResult = solveTransient(rc.gridData, rc.wires, { timeStep: 0.0005, endTime: 0.5 })
+check('RC solves', rcResult.works, rcResult.reason ?? '')
+const capWave = [...rcResult.components.values()].find((w) => w.componentType === 'Capacitor')
+for (const multiple of [0, 1, 2, 3]) {
+  const t = multiple * tau
+  const expected = VCC * (1 - Math.exp(-t / tau))
+  const measured = capWave ? sampleAt(rcResult.time, capWave.voltage, t) : NaN
+  check(`RC Vc at ${multiple}τ`, Math.abs(measured - expected) <= 0.02, `expected ${expected.toFixed(3)} got ${measured.toFixed(3)}`)
+}
+const midNet = rcResult.posToNet.get(posKey(8, 10))
+const midWave = midNet !== undefined ? rcResult.netVoltages.get(midNet) ?? [] : []
+check(
+  'RC net waveform tracks capacitor',
+  midWave.length === rcResult.time.length && Math.abs((midWave[200] ?? 0) - (capWave?.voltage[200] ?? -1)) < 1e-6,
+  `samples ${midWave.length}/${rcResult.time.length}`
+)
+
+// 5V → 1mH (0.5Ω DCR) → 10µF → GND, f0 ≈ 1591 Hz, lightly damped
+const lc = buildSchematic('LC Transient', '5V -> 1mH -> 10µF -> GND.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const l = place('Inductor', 6, 10, { inductance: 0.001 })
+  const c = place('Capacitor', 10, 10, { capacitance: 0.00001 })
+
+  wire([ps.pin('5V'), l.pin('1')], { powered: true })
+  wire([l.pin('2'), c.pin('1')])
+  wire([c.pin('2'), { x: 12, y: 10 }, { x: 12, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+
+const f0 = 1 / (2 * Math.PI * Math.sqrt(0.001 * 0.00001))
+const lcResult = solveTransient(lc.gridData, lc.wires, { timeStep: 1e-6, endTime: 0.003 })
+check('LC solves', lcResult.works, lcResult.reason ?? '')
+const lcCap = [...lcResult.components.values()].find((w) => w.componentType === 'Capacitor')
+const vc = lcCap?.voltage ?? []
+const peak = Math.max(...vc)
+check('LC overshoot near 2×Vin', peak > 9 && peak < 10.01, `peak ${peak.toFixed(3)} V`)
+const upCrossings: number[] = []
+for (let i = 1; i < vc.length; i++) {
+  if (vc[i - 1] < VCC && vc[i] >= VCC) upCrossings.push(lcResult.time[i])
+}
+const period = upCrossings.length >= 2 ? upCrossings[1] - upCrossings[0] : NaN
+check(
+  'LC ringing frequency',
+  Math.abs(1 / period - f0) / f0 < 0.02,
+  `expected ${f0.toFixed(1)} Hz got ${(1 / period).toFixed(1)} Hz`
+)
+const lcInductor = [...lcResult.components.values()].find((w) => w.componentType === 'Inductor')
+const currentPeak = Math.max(...(lcInductor?.current ?? [0]))
+const expectedCurrentPeak = VCC * Math.sqrt(0.00001 / 0.001)
+check(
+  'LC inductor current peak',
+  Math.abs(currentPeak - expectedCurrentPeak) / expectedCurrentPeak < 0.1,
+  `expected ~${expectedCurrentPeak.toFixed(3)} A got ${currentPeak.toFixed(3)} A`
+)
+
+// 12Vrms 60 Hz → diode → 1kΩ: output follows positive half-cycles, clamps the negative ones
+const halfWave = buildSchematic('Half-Wave Transient', '12Vrms AC through a diode into 1kΩ.', ({ place, wire }) => {
+  const ac = place('ACSource', 2, 10, { vrms: 12, frequency: 60 })
+  const d = place('Diode', 8, 10)
+  const rLoad = place('Resistor', 12, 10, { resistance: 1_000 })
+
+  wire([ac.pin('AC1'), d.pin('A')], { powered: true })
+  wire([d.pin('K'), rLoad.at(0, 0)])
+  wire([rLoad.at(2, 0), { x: 14, y: 10 }, { x: 14, y: 14 }, { x: 3, y: 14 }, { x: 3, y: 10 }, ac.pin('AC2')], {
+    grounded: true,
+  })
+})
+
+const hwResult = solveTransient(halfWave.gridData, halfWave.wires, { timeStep: 1e-5, endTime: 1 / 60 })
+check('Half-wave solves', hwResult.works, hwResult.reason ?? '')
+const loadWave = [...hwResult.components.values()].find((w) => w.componentType === 'Resistor')
+const loadV = loadWave?.voltage ?? []
+const expectedPeak = 12 * Math.SQRT2 - 0.7
+check('Half-wave peak', Math.abs(Math.max(...loadV) - expectedPeak) < 0.1, `peak ${Math.max(...loadV).toFixed(3)} V`)
+check('Half-wave blocks negative cycle', Math.min(...loadV) > -0.01, `min ${Math.min(...loadV).toFixed(4)} V`)
+
+finish()
@@ -0,0 +1,228 @@
+/**
+ * Linear-region transistor models — a common-emitter NPN bias point and its
+ * small-signal gain, the same stage with a coupling capacitor on its base, NPN
+ * saturation, PNP and PMOS mirrors, NMOS triode and
+ * saturation against the square law, and a zener + emitter-follower
+ * regulator built from discretes.
+ *
+ * Run: npx tsx nodal_solver_tests/test_transistors.ts
+ */
+
+import { solveAcSweep, solveCircuit } from '../src/systems/chain'
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { posKey } from '../src/systems/chain/utils'
+import { THERMAL_VOLTAGE } from '../src/systems/chain/solver/junction'
+import { check, finish } from './check'
+
+/** Root of a monotonically increasing f on [lo, hi]. */
+function bisect(f: (x: number) => number, lo: number, hi: number): number {
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2
+    if (f(mid) > 0) hi = mid
+    else lo = mid
+  }
+  return (lo + hi) / 2
+}
+
+const IS = 1e-3 / Math.exp(0.65 / THERMAL_VOLTAGE)
+const BETA = 100
+const EBERS_MOLL = { model: 'ebers-moll' }
+
+function regionOf(result: ReturnType<typeof solveCircuit>, componentType: string): unknown {
+  return [...result.componentStates.values()].find((s) => s.componentType === componentType && s.transistorRegion)
+    ?.transistorRegion
+}
+
+// Q at (12,10): C (13,10), B (12,11), E (13,12). 5V → Rc → C, 5V → Rb → B, E → GND.
+function commonEmitter(rb: number, rc: number) {
+  return buildSchematic('CE stage', '5V, Rb to base, Rc to collector.', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const rcPart = place('Resistor', 6, 6, { resistance: rc })
+    const rbPart = place('Resistor', 6, 11, { resistance: rb })
+    const q = place('NPNTransistor', 12, 10, EBERS_MOLL)
+
+    wire([ps.pin('5V'), { x: 2, y: 6 }, rcPart.at(0, 0)], { powered: true })
+    wire([rcPart.at(2, 0), { x: 13, y: 6 }, q.pin('C')])
+    wire([ps.pin('5V'), { x: 2, y: 11 }, rbPart.at(0, 0)], { powered: true })
+    wire([rbPart.at(2, 0), q.pin('B')])
+    wire([q.pin('E'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  })
+}
+
+// Active region: Ib from the base resistor, Ic = β·Ib
+const ce = commonEmitter(430_000, 2_000)
+const ceResult = solveCircuit(ce.gridData, ce.wires)
+const vbe = bisect((v) => (IS * (Math.exp(v / THERMAL_VOLTAGE) - 1)) / BETA - (5 - v) / 430_000, 0.3, 0.9)
+const ic = IS * (Math.exp(vbe / THERMAL_VOLTAGE) - 1)
+const vc = ceResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('CE converges', ceResult.convergence?.converged === true, `${ceResult.convergence?.iterations} iterations`)
+check('CE collector at 5V − Rc·β·Ib', Math.abs(vc - (5 - 2_000 * ic)) < 1e-3, `${vc.toFixed(4)} V expected ${(5 - 2_000 * ic).toFixed(4)} V`)
+check('CE in active region', regionOf(ceResult, 'NPNTransistor') === 'active', `${regionOf(ceResult, 'NPNTransistor')}`)
+
+// Small-signal: vb = vin/(1 + Rb·gm/β), vc = vin − Rc·gm·vb
+const gm = (ic + IS) / THERMAL_VOLTAGE
+const expectedGain = 1 - (2_000 * gm) / (1 + (430_000 * gm) / BETA)
+const ceAc = solveAcSweep(ce.gridData, ce.wires, { startFrequency: 10, stopFrequency: 100 })
+const acGain = ceAc.netResponses.get(ceAc.posToNet.get(posKey(13, 10)) ?? -1)?.magnitude[0] ?? NaN
+check('CE small-signal gain (hybrid-π)', Math.abs(acGain - expectedGain) < 0.005, `${acGain.toFixed(4)} expected ${expectedGain.toFixed(4)}`)
+
+// The same stage with its base fed through a coupling capacitor from a 1kΩ source: the cap blocks DC,
+// so the bias point (and the region the result reports) is unchanged
+const coupled = buildSchematic('Coupled CE stage', 'The CE stage with a 1nF input coupling capacitor.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rcPart = place('Resistor', 6, 6, { resistance: 2_000 })
+  const rbPart = place('Resistor', 6, 11, { resistance: 430_000 })
+  const cin = place('Capacitor', 8, 16, { capacitance: 1e-9 })
+  const rs = place('Resistor', 12, 16, { resistance: 1_000 })
+  const q = place('NPNTransistor', 12, 10, EBERS_MOLL)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, rcPart.at(0, 0)], { powered: true })
+  wire([rcPart.at(2, 0), { x: 13, y: 6 }, q.pin('C')])
+  wire([ps.pin('5V'), { x: 2, y: 11 }, rbPart.at(0, 0)], { powered: true })
+  wire([rbPart.at(2, 0), q.pin('B')])
+  wire([rbPart.at(2, 0), cin.pin('1')])
+  wire([cin.pin('2'), rs.at(0, 0)])
+  wire([q.pin('E'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  wire([rs.at(2, 0), { x: 14, y: 20 }, { x: 3, y: 20 }, { x: 3, y: 14 }], { grounded: true })
+})
+const coupledResult = solveCircuit(coupled.gridData, coupled.wires)
+const coupledQ = [...coupledResult.componentStates.values()].find((s) => s.componentType === 'NPNTransistor')
+const coupledVc = coupledResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('Coupled CE keeps its bias point', Math.abs(coupledVc - vc) < 1e-3, `${coupledVc.toFixed(4)} V expected ${vc.toFixed(4)} V`)
+check(
+  'Coupled CE reports the active region it conducts in',
+  coupledQ?.transistorRegion === 'active' && coupledQ.isOn === true && coupledQ.outputCurrent > 1e-4,
+  `${coupledQ?.transistorRegion} isOn=${coupledQ?.isOn} Ic=${coupledQ?.outputCurrent}`
+)
+
+// Saturation: base overdriven through 10kΩ
+const sat = commonEmitter(10_000, 2_000)
+const satResult = solveCircuit(sat.gridData, sat.wires)
+const vce = satResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('Overdriven NPN saturates', regionOf(satResult, 'NPNTransistor') === 'saturation' && vce < 0.2, `Vce ${vce.toFixed(4)} V`)
+
+// PNP at (12,10): emitter to 5V, base → 430kΩ → GND, collector → 2kΩ → GND
+const pnp = buildSchematic('PNP stage', 'Emitter at 5V, base and collector resistors to ground.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rb = place('Resistor', 6, 11, { resistance: 430_000 })
+  const rc = place('Resistor', 13, 7, { resistance: 2_000 })
+  const q = place('PNPTransistor', 12, 10, EBERS_MOLL)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, { x: 16, y: 6 }, { x: 16, y: 12 }, q.pin('E')], { powered: true })
+  wire([q.pin('B'), rb.at(2, 0)])
+  wire([rb.at(0, 0), { x: 5, y: 11 }, { x: 5, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  wire([q.pin('C'), rc.at(0, 0)])
+  wire([rc.at(2, 0), { x: 15, y: 4 }, { x: 1, y: 4 }, { x: 1, y: 15 }, { x: 3, y: 15 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+const pnpResult = solveCircuit(pnp.gridData, pnp.wires)
+const pnpVc = pnpResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('PNP mirrors the NPN bias', Math.abs(pnpVc - 2_000 * ic) < 1e-3, `Vc ${pnpVc.toFixed(4)} V expected ${(2_000 * ic).toFixed(4)} V`)
+check('PNP in active region', regionOf(pnpResult, 'PNPTransistor') === 'active', `${regionOf(pnpResult, 'PNPTransistor')}`)
+
+// MOSFETs: K = 20mA/V², Vth = 1.5V, λ = 0, gate at 2.5V from a 10k/10k divider → Vov = 1V
+const SQUARE_LAW = { model: 'square-law', vth: 1.5, transconductance: 0.02, channelModulation: 0 }
+
+// M at (12,10): D (13,10), G (12,11), S (13,12)
+function nmosStage(rd: number) {
+  return buildSchematic('NMOS stage', '5V → Rd → drain, gate divider.', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const rdPart = place('Resistor', 6, 6, { resistance: rd })
+    const r1 = place('Resistor', 6, 11, { resistance: 10_000 })
+    const r2 = place('Resistor', 8, 13, { resistance: 10_000 })
+    const m = place('MOSFET', 12, 10, SQUARE_LAW)
+
+    wire([ps.pin('5V'), { x: 2, y: 6 }, rdPart.at(0, 0)], { powered: true })
+    wire([rdPart.at(2, 0), { x: 13, y: 6 }, m.pin('D')])
+    wire([ps.pin('5V'), { x: 2, y: 11 }, r1.at(0, 0)], { powered: true })
+    wire([r1.at(2, 0), m.pin('G')])
+    wire([r1.at(2, 0), r2.at(0, 0)])
+    wire([r2.at(2, 0), { x: 10, y: 15 }, { x: 3, y: 15 }, ps.pin('GND')], { grounded: true })
+    wire([m.pin('S'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  })
+}
+
+const nSat = nmosStage(100)
+const nSatResult = solveCircuit(nSat.gridData, nSat.wires)
+const nSatVd = nSatResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('NMOS saturation Id = K/2·Vov²', Math.abs(nSatVd - 4) < 1e-3, `Vd ${nSatVd.toFixed(4)} V expected 4.0000 V`)
+check('NMOS in saturation', regionOf(nSatResult, 'MOSFET') === 'saturation', `${regionOf(nSatResult, 'MOSFET')}`)
+
+const nTri = nmosStage(1_000)
+const nTriResult = solveCircuit(nTri.gridData, nTri.wires)
+const nTriVd = nTriResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+const triodeVds = bisect((v) => 0.02 * (v - (v * v) / 2) - (5 - v) / 1_000, 0, 1)
+check('NMOS triode Id = K·(Vov·Vds − Vds²/2)', Math.abs(nTriVd - triodeVds) < 1e-3, `Vd ${nTriVd.toFixed(4)} V expected ${triodeVds.toFixed(4)} V`)
+check('NMOS in triode', regionOf(nTriResult, 'MOSFET') === 'triode', `${regionOf(nTriResult, 'MOSFET')}`)
+
+// PMOS high-side: source at 5V, gate at 2.5V, drain → 100Ω → GND: 10mA, Vd = 1V
+const pmos = buildSchematic('PMOS stage', 'High-side PMOS into 100Ω.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const r1 = place('Resistor', 6, 11, { resistance: 10_000 })
+  const r2 = place('Resistor', 8, 13, { resistance: 10_000 })
+  const rd = place('Resistor', 13, 7, { resistance: 100 })
+  const m = place('PMOSFET', 12, 10, SQUARE_LAW)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, { x: 16, y: 6 }, { x: 16, y: 12 }, m.pin('S')], { powered: true })
+  wire([ps.pin('5V'), { x: 2, y: 11 }, r1.at(0, 0)], { powered: true })
+  wire([r1.at(2, 0), m.pin('G')])
+  wire([r1.at(2, 0), r2.at(0, 0)])
+  wire([r2.at(2, 0), { x: 10, y: 15 }, { x: 3, y: 15 }, ps.pin('GND')], { grounded: true })
+  wire([m.pin('D'), rd.at(0, 0)])
+  wire([rd.at(2, 0), { x: 15, y: 4 }, { x: 1, y: 4 }, { x: 1, y: 16 }, { x: 3, y: 16 }, ps.pin('GND')], {
+    grounded: true,
+  })
+})
+const pmosResult = solveCircuit(pmos.gridData, pmos.wires)
+const pmosVd = pmosResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('PMOS mirrors the NMOS square law', Math.abs(pmosVd - 1) < 1e-3, `Vd ${pmosVd.toFixed(4)} V expected 1.0000 V`)
+check('PMOS in saturation', regionOf(pmosResult, 'PMOSFET') === 'saturation', `${regionOf(pmosResult, 'PMOSFET')}`)
+
+// Discrete linear regulator: 12V → 1kΩ → 5.1V zener sets the base, emitter follower into 100Ω
+const regulator = buildSchematic('Zener + follower', '12V, zener-referenced emitter follower.', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10, { voltage: 12 })
+  const rz = place('Resistor', 6, 11, { resistance: 1_000 })
+  const z = place('ZenerDiode', 8, 13)
+  const load = place('Resistor', 13, 14, { resistance: 100 })
+  const q = place('NPNTransistor', 12, 10, EBERS_MOLL)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, { x: 13, y: 6 }, q.pin('C')], { powered: true })
+  wire([ps.pin('5V'), { x: 2, y: 11 }, rz.at(0, 0)], { powered: true })
+  wire([rz.at(2, 0), q.pin('B')])
+  wire([rz.at(2, 0), z.pin('K')])
+  wire([z.pin('A'), { x: 10, y: 15 }, { x: 3, y: 15 }, ps.pin('GND')], { grounded: true })
+  wire([q.pin('E'), load.at(0, 0)])
+  wire([load.at(2, 0), { x: 15, y: 16 }, { x: 3, y: 16 }, ps.pin('GND')], { grounded: true })
+})
+const regResult = solveCircuit(regulator.gridData, regulator.wires)
+const vBase = regResult.nodeVoltages.get(posKey(12, 11)) ?? NaN
+const vOut = regResult.nodeVoltages.get(posKey(13, 12)) ?? NaN
+const ie = vOut / 100
+const followerVbe = THERMAL_VOLTAGE * Math.log((ie * BETA) / (BETA + 1) / IS + 1)
+check('Regulator base held by the zener', Math.abs(vBase - 5.1) < 0.05, `${vBase.toFixed(4)} V`)
+check(
+  'Regulator output one Vbe below the zener',
+  Math.abs(vBase - vOut - followerVbe) < 2e-3,
+  `Vout ${vOut.toFixed(4)} V, Vbe ${(vBase - vOut).toFixed(4)} V expected ${followerVbe.toFixed(4)} V`
+)
+check('Follower in active region', regionOf(regResult, 'NPNTransistor') === 'active', `${regionOf(regResult, 'NPNTransistor')}`)
+
+// The default model is still the saturated switch
+const switchCe = buildSchematic('Switch CE', '', ({ place, wire }) => {
+  const ps = place('PowerSupply', 2, 10)
+  const rc = place('Resistor', 6, 6, { resistance: 1_000 })
+  const rb = place('Resistor', 6, 11, { resistance: 10_000 })
+  const q = place('NPNTransistor', 12, 10)
+
+  wire([ps.pin('5V'), { x: 2, y: 6 }, rc.at(0, 0)], { powered: true })
+  wire([rc.at(2, 0), { x: 13, y: 6 }, q.pin('C')])
+  wire([ps.pin('5V'), { x: 2, y: 11 }, rb.at(0, 0)], { powered: true })
+  wire([rb.at(2, 0), q.pin('B')])
+  wire([q.pin('E'), { x: 13, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+})
+const switchResult = solveCircuit(switchCe.gridData, switchCe.wires)
+const switchVc = switchResult.nodeVoltages.get(posKey(13, 10)) ?? NaN
+check('Default NPN is the vceSat switch', switchResult.convergence === undefined && Math.abs(switchVc - 0.2) < 0.01, `Vc ${switchVc.toFixed(4)} V`)
+
+finish()
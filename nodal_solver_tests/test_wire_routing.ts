@@ -0,0 +1,153 @@
+/**
+ * Wire routing — the A* router stepping around parts, crossing other wires
+ * instead of running along them and keeping bends down; schematic_connect_pins
+ * using it; and rip-up-and-reroute of a sheet with overlapping wires keeping
+ * every net as it was.
+ *
+ * Run: npx tsx nodal_solver_tests/test_wire_routing.ts
+ */
+
+import { buildSchematic } from '../src/examples/schematicBuilder'
+import { connectPins, rerouteWires } from '../src/agent/schematic/operations'
+import { solveCircuit } from '../src/services/CircuitSolver'
+import { routeWire, wireObstacles } from '../src/utils/wireRouting'
+import type { WireConnection } from '../src/modules/types'
+import type { GridCellLike } from '../src/systems/chain/types'
+import type { Schematic } from '../src/types/workspace'
+import { check, finish } from './check'
+
+type Point = { x: number; y: number }
+
+const emptyGrid = (width: number, height: number): unknown[][] =>
+  Array.from({ length: height }, () => Array.from({ length: width }, () => ({ occupied: false })))
+
+/** Id of the first part of `module` on the sheet. */
+const componentIdOf = (schematic: Schematic, module: string): string =>
+  schematic.gridData.flat().find((cell: GridCellLike | undefined) => cell?.moduleDefinition?.module === module)?.componentId ?? ''
+
+/** Every cell a path passes, in order. */
+function cellsOf(path: Point[]): Point[] {
+  const cells: Point[] = [path[0]]
+  for (let i = 1; i < path.length; i++) {
+    const { x: x0, y: y0 } = path[i - 1]
+    const { x: x1, y: y1 } = path[i]
+    for (let x = x0, y = y0; x !== x1 || y !== y1; ) {
+      x += Math.sign(x1 - x0)
+      y += Math.sign(y1 - y0)
+      cells.push({ x, y })
+    }
+  }
+  return cells
+}
+
+const pathOf = (wire: WireConnection): Point[] => [wire.segments[0].from, ...wire.segments.map((s) => s.to)]
+const show = (path: Point[] | null) => (path ? path.map((p) => `(${p.x},${p.y})`).join('→') : 'null')
+
+/** Cells two different wires run through along the same axis. */
+function overlaps(wires: WireConnection[]): string[] {
+  const seen = new Map<string, string>()
+  const found: string[] = []
+  for (const wire of wires) {
+    for (const segment of wire.segments) {
+      const axis = segment.from.y === segment.to.y ? 'h' : 'v'
+      const inner = cellsOf([segment.from, segment.to]).slice(1, -1)
+      for (const cell of inner) {
+        const key = `${cell.x},${cell.y},${axis}`
+        const other = seen.get(key)
+        if (other && other !== wire.id) found.push(key)
+        seen.set(key, wire.id)
+      }
+    }
+  }
+  return found
+}
+
+// --- A* on a bare grid -------------------------------------------------------------
+{
+  const open = routeWire({ x: 1, y: 1 }, { x: 9, y: 7 }, emptyGrid(20, 20))
+  check('an open diagonal run takes a single bend', open?.length === 3, show(open))
+
+  const grid = emptyGrid(20, 20)
+  for (let x = 4; x <= 8; x++) (grid[5][x] as { occupied: boolean }).occupied = true
+  const around = routeWire({ x: 2, y: 5 }, { x: 10, y: 5 }, grid)
+  const blocked = around ? cellsOf(around).filter((c) => c.y === 5 && c.x >= 4 && c.x <= 8) : []
+  check('a part body in the way is stepped around', !!around && blocked.length === 0, show(around))
+
+  const bus = wireObstacles([{ segments: [{ from: { x: 0, y: 5 }, to: { x: 19, y: 5 } }] }])
+  const across = routeWire({ x: 3, y: 2 }, { x: 12, y: 9 }, emptyGrid(20, 20), bus)
+  const onBus = across ? cellsOf(across).filter((c) => c.y === 5) : []
+  check('another wire is crossed once, never run along', onBus.length === 1, show(across))
+
+  const junction = wireObstacles([{ segments: [{ from: { x: 5, y: 5 }, to: { x: 8, y: 5 } }] }])
+  const past = routeWire({ x: 5, y: 1 }, { x: 5, y: 9 }, emptyGrid(20, 20), junction)
+  check(
+    "it doesn't pass through another wire's end",
+    !!past && !cellsOf(past).some((c) => (c.x === 5 || c.x === 8) && c.y === 5),
+    show(past)
+  )
+
+  const walled = emptyGrid(20, 20)
+  for (let y = 0; y < 20; y++) (walled[y][6] as { occupied: boolean }).occupied = true
+  check('a wall it cannot get round gives null', routeWire({ x: 2, y: 5 }, { x: 10, y: 5 }, walled) === null, '')
+}
+
+// --- schematic_connect_pins --------------------------------------------------------------
+{
+  // A second wire out of the supply pin used to stack up the same column as the first.
+  const sheet = buildSchematic('Two from one pin', 'a supply pin feeding two places', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    place('Resistor', 6, 4, { resistance: 330 })
+    wire([ps.pin('5V'), { x: 2, y: 2 }, { x: 14, y: 2 }], { powered: true })
+  })
+  const result = connectPins(sheet, componentIdOf(sheet, 'PowerSupply'), '5V', componentIdOf(sheet, 'Resistor'), '1')
+  const added = 'wire' in result ? result.wire : null
+  check('connect_pins reaches both pins', !!added && show(pathOf(added)).startsWith('(2,10)') && show(pathOf(added)).endsWith('(6,4)'), show(added && pathOf(added)))
+  check('and keeps off the wire already on that pin', 'schematic' in result && overlaps(result.schematic.wires).length === 0, 'schematic' in result ? JSON.stringify(overlaps(result.schematic.wires)) : result.error)
+}
+
+// --- Rip-up and reroute --------------------------------------------------------------------
+{
+  const tangled = buildSchematic('Tangled LED', 'an LED circuit drawn with overlapping wires', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const r = place('Resistor', 6, 4, { resistance: 330 })
+    const l = place('LED', 10, 10)
+    wire([ps.pin('5V'), { x: 2, y: 6 }, { x: 6, y: 6 }, r.at(0, 0)], { powered: true })
+    wire([r.at(2, 0), { x: 8, y: 6 }, { x: 4, y: 6 }, { x: 4, y: 12 }, { x: 10, y: 12 }, l.pin('+')])
+    wire([l.pin('-'), { x: 12, y: 14 }, { x: 3, y: 14 }, ps.pin('GND')], { grounded: true })
+  })
+  check('the hand-drawn sheet overlaps', overlaps(tangled.wires).length > 0, JSON.stringify(overlaps(tangled.wires)))
+
+  const before = solveCircuit(tangled.gridData, tangled.wires)
+  const result = rerouteWires(tangled)
+  const after = solveCircuit(result.schematic.gridData, result.schematic.wires)
+  check('every wire is rerouted cleanly', result.rerouted === 3 && result.failed.length === 0 && result.kept.length === 0, `rerouted=${result.rerouted} failed=${result.failed.length} kept=${result.kept.length}`)
+  check('no two wires overlap afterwards', overlaps(result.schematic.wires).length === 0, JSON.stringify(overlaps(result.schematic.wires)))
+
+  const ends = (wires: WireConnection[]) => wires.map((w) => show([pathOf(w)[0], pathOf(w)[pathOf(w).length - 1]])).join(' ')
+  check('each wire still joins the same two pins', ends(result.schematic.wires) === ends(tangled.wires), ends(result.schematic.wires))
+  const throughParts = result.schematic.wires.flatMap((w) =>
+    cellsOf(pathOf(w))
+      .slice(1, -1)
+      .filter((c) => result.schematic.gridData[c.y]?.[c.x]?.occupied)
+  )
+  check('none runs through a part', throughParts.length === 0, JSON.stringify(throughParts))
+
+  const ledCurrent = (solve: typeof before) => Math.max(...solve.updatedWires.map((w) => w.current ?? 0))
+  check(
+    'the circuit solves the same',
+    Math.abs(ledCurrent(before) - ledCurrent(after)) < 1e-6 && ledCurrent(after) > 0.001,
+    `${(ledCurrent(before) * 1000).toFixed(2)} mA → ${(ledCurrent(after) * 1000).toFixed(2)} mA`
+  )
+
+  const teed = buildSchematic('Tee', 'a wire branching off another partway along', ({ place, wire }) => {
+    const ps = place('PowerSupply', 2, 10)
+    const r = place('Resistor', 6, 4, { resistance: 330 })
+    const l = place('LED', 10, 10)
+    wire([ps.pin('5V'), { x: 2, y: 6 }, { x: 6, y: 6 }, r.at(0, 0)], { powered: true })
+    wire([{ x: 6, y: 6 }, { x: 10, y: 6 }, l.pin('+')])
+  })
+  const tee = rerouteWires(teed)
+  check('a wire with a branch partway along is left alone', tee.kept.length === 1 && tee.kept[0] === teed.wires[0].id, JSON.stringify(tee.kept))
+}
+
+finish()
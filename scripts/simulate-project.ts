@@ -0,0 +1,87 @@
+/**
+ * Headless simulation of an exported CircuitWiz project, for CI.
+ *
+ * Solves every schematic in the file and prints its nets and parts, as a table
+ * or as JSON. Schematics with a saved test bench run it; `--stimulus` runs a
+ * script file instead (on every schematic, or on those picked with
+ * `--schematic`). A schematic whose ports reach other sheets of its folder is
+ * solved together with them.
+ *
+ * Exit status: 0 when every bench passes, 1 when an expectation fails or a
+ * script line can't be applied (or, with --strict, a schematic doesn't work),
+ * 2 when the arguments or the project file can't be read.
+ *
+ * Run with: npx tsx scripts/simulate-project.ts <project.circuitwiz> [--stimulus bench.txt]
+ *   [--schematic <name or id>] [--format table|json] [--strict]
+ */
+
+import fs from 'fs'
+import { formatReportTable, readProjectFile, simulateSchematic, type SchematicReport } from '../src/utils/projectReport'
+
+const USAGE =
+  'usage: simulate-project <project.circuitwiz> [--stimulus <file>] [--schematic <name or id>] [--format table|json] [--strict]'
+
+interface Options {
+  project: string
+  stimulus?: string
+  schematics: string[]
+  format: 'table' | 'json'
+  strict: boolean
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { project: '', schematics: [], format: 'table', strict: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new Error(`${arg} needs a value`)
+      return next
+    }
+    if (arg === '--stimulus') options.stimulus = value()
+    else if (arg === '--schematic') options.schematics.push(value())
+    else if (arg === '--format') {
+      const format = value()
+      if (format !== 'table' && format !== 'json') throw new Error(`unknown format "${format}"`)
+      options.format = format
+    } else if (arg === '--json') options.format = 'json'
+    else if (arg === '--strict') options.strict = true
+    else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE)
+      process.exit(0)
+    } else if (arg.startsWith('-')) throw new Error(`unknown option ${arg}`)
+    else if (!options.project) options.project = arg
+    else throw new Error(`unexpected argument ${arg}`)
+  }
+  if (!options.project) throw new Error('no project file given')
+  return options
+}
+
+function main(): number {
+  let options: Options
+  let reports: SchematicReport[]
+  try {
+    options = parseArgs(process.argv.slice(2))
+    const stimulus = options.stimulus ? fs.readFileSync(options.stimulus, 'utf8') : undefined
+    const project = readProjectFile(JSON.parse(fs.readFileSync(options.project, 'utf8')))
+    const picked = options.schematics.length
+      ? project.filter(({ schematic }) => options.schematics.some((name) => name === schematic.id || name === schematic.name))
+      : project
+    if (picked.length === 0) throw new Error(`no schematics${options.schematics.length ? ` named ${options.schematics.join(', ')}` : ''} in ${options.project}`)
+    const sheetsOf = (folderId: string) => project.filter((entry) => entry.folderId === folderId).map((entry) => entry.schematic)
+    reports = picked.map(({ folder, folderId, schematic }) => simulateSchematic(folder, schematic, stimulus, sheetsOf(folderId)))
+  } catch (error) {
+    console.error(`simulate-project: ${error instanceof Error ? error.message : String(error)}`)
+    console.error(USAGE)
+    return 2
+  }
+
+  if (options.format === 'json') console.log(JSON.stringify(reports, null, 2))
+  else console.log(formatReportTable(reports))
+
+  const benchFailed = reports.some((report) => report.bench && (report.bench.failed > 0 || report.bench.errors.length > 0))
+  const broken = options.strict && reports.some((report) => !report.works)
+  return benchFailed || broken ? 1 : 0
+}
+
+process.exit(main())
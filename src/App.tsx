@@ -15,6 +15,7 @@ import {
   Pencil,
   Tag,
   LayoutGrid,
+  Route,
   FileDown,
   Network,
 } from 'lucide-react'
@@ -53,6 +54,8 @@ import { EditorFloatingChrome } from './components/EditorFloatingChrome'
 import { SchematicTidyModal } from './components/SchematicTidyModal'
 import { DatasheetExportModal } from './components/DatasheetExportModal'
 import { SchematicExportModal } from './components/SchematicExportModal'
+import { importSpiceNetlist } from './services/schematicExport/spiceImport'
+import { rerouteWires } from './agent/schematic/operations'
 import type { HoverStats } from './utils/hoverStats'
 import type { ComponentState } from './systems/ElectricalSystem'
 import { ModuleDefinition } from './modules/types'
@@ -79,6 +82,7 @@ import {
   type SchematicGroupBox,
   type SchematicCellLabel,
   type ProgramCompilation,
+  type SubcircuitBlock,
 } from './types/workspace'
 import {
   loadLocalSession,
@@ -191,10 +195,13 @@ function AppContent() {
   const [groupBoxes, setGroupBoxes] = useState<SchematicGroupBox[]>([])
   const [selectedGroupBoxId, setSelectedGroupBoxId] = useState<string | null>(null)
   const [focusGroupBoxRequest, setFocusGroupBoxRequest] = useState<SchematicGroupBox | null>(null)
+  const [blockFromGroupBoxRequest, setBlockFromGroupBoxRequest] = useState<SchematicGroupBox | null>(null)
   const [labelMode, setLabelMode] = useState(false)
   const [deleteMode, setDeleteMode] = useState(false)
   const [labels, setLabels] = useState<SchematicCellLabel[]>([])
   const [selectedLabelId, setSelectedLabelId] = useState<string | null>(null)
+  // Port label to select once the sheet a port jump opened has loaded
+  const pendingPortLabelRef = useRef<string | null>(null)
   const [workspaceOverlay, setWorkspaceOverlay] = useState<HTMLDivElement | null>(null)
   const [projectsLoading, setProjectsLoading] = useState(false)
   const [deleteModal, setDeleteModal] = useState<{
@@ -233,8 +240,10 @@ function AppContent() {
       setGroupBoxes(selectedSchematic.groupBoxes ?? [])
       setLabels(selectedSchematic.labels ?? [])
       setSelectedGroupBoxId(null)
-      setSelectedLabelId(null)
+      setSelectedLabelId(pendingPortLabelRef.current)
+      pendingPortLabelRef.current = null
       setFocusGroupBoxRequest(null)
+      setBlockFromGroupBoxRequest(null)
       setLabelMode(false)
     }
   }, [selectedSchematic?.id])
@@ -422,6 +431,51 @@ function AppContent() {
     setSaveStatus({ isSaving: false, lastSaved: new Date(), error: null, hasUnsavedChanges: false })
   }
 
+  const handleImportSpice = (text: string, fileName: string) => {
+    if (!selectedFolder) return
+    const result = importSpiceNetlist(text, fileName.replace(/\.[^.]+$/, ''))
+    if ('error' in result) {
+      alert(`Could not import ${fileName}: ${result.error}`)
+      return
+    }
+    const schematic: Schematic =
+      result.warnings.length > 0
+        ? { ...result.schematic, description: `${result.schematic.description}\n\n${result.warnings.join('\n')}` }
+        : result.schematic
+    const updated: ProjectFolder = {
+      ...selectedFolder,
+      schematics: [schematic, ...selectedFolder.schematics],
+      metadata: { ...selectedFolder.metadata, updatedAt: new Date().toISOString() },
+    }
+    updateFolders(
+      (folders) => folders.map((f) => (f.id === updated.id ? updated : f)),
+      updated,
+      schematic.id,
+      'schematic'
+    )
+    setSelectedItemId(schematic.id)
+    setActiveView('schematic')
+    setLastSavedState({ gridData: schematic.gridData, wires: schematic.wires, componentStates: schematic.componentStates })
+    setSaveStatus({ isSaving: false, lastSaved: new Date(), error: null, hasUnsavedChanges: false })
+  }
+
+  const handleCreateBlock = (block: SubcircuitBlock) => {
+    if (!selectedFolder) return
+    updateFolders(
+      (folders) =>
+        folders.map((f) =>
+          f.id === selectedFolder.id
+            ? {
+                ...f,
+                blocks: [block, ...(f.blocks ?? [])],
+                metadata: { ...f.metadata, updatedAt: new Date().toISOString() },
+              }
+            : f
+        ),
+      selectedFolder
+    )
+  }
+
   const handleCreateDocument = () => {
     if (!selectedFolder) return
     const count = selectedFolder.documents.length
@@ -480,6 +534,21 @@ function AppContent() {
     })
   }
 
+  /** Open the next sheet (in folder order, wrapping) with a port of this name, and select that port. */
+  const handleNavigatePort = (name: string) => {
+    if (!selectedFolder || !selectedItemId) return
+    const sheets = selectedFolder.schematics
+    const start = sheets.findIndex((s) => s.id === selectedItemId)
+    for (let step = 1; step < sheets.length; step++) {
+      const sheet = sheets[(start + step) % sheets.length]
+      const port = sheet.labels?.find((label) => label.kind === 'port' && label.text.trim() === name)
+      if (!port) continue
+      pendingPortLabelRef.current = port.id
+      handleOpenSchematic(sheet.id)
+      return
+    }
+  }
+
   const handleOpenDocument = (documentId: string) => {
     if (!selectedFolder) return
     setSelectedItemId(documentId)
@@ -744,6 +813,9 @@ function AppContent() {
     componentStates?: Record<string, unknown>
     groupBoxes?: SchematicGroupBox[]
     labels?: SchematicCellLabel[]
+    testBench?: string
+    ercWaivers?: string[]
+    layoutPins?: string[]
     hasUnsavedChanges?: boolean
     triggerUnsavedCheck?: boolean
   }) => {
@@ -772,6 +844,9 @@ function AppContent() {
         componentStates: {},
         groupBoxes: projectData.groupBoxes ?? selectedSchematic.groupBoxes ?? [],
         labels: projectData.labels ?? selectedSchematic.labels ?? [],
+        testBench: projectData.testBench ?? selectedSchematic.testBench,
+        ercWaivers: projectData.ercWaivers ?? selectedSchematic.ercWaivers,
+        layoutPins: projectData.layoutPins ?? selectedSchematic.layoutPins,
         occupiedComponents,
         metadata: { ...selectedSchematic.metadata, updatedAt: new Date().toISOString() },
       }
@@ -814,11 +889,30 @@ function AppContent() {
         wires: updated.wires,
         groupBoxes: updated.groupBoxes,
         labels: updated.labels,
+        layoutPins: updated.layoutPins,
       })
     },
     [handleSchematicDataChange]
   )
 
+  const handleRerouteWires = useCallback(() => {
+    if (!selectedSchematic || selectedSchematic.wires.length === 0) return
+    const { schematic, rerouted, failed, kept } = rerouteWires(selectedSchematic)
+    handleSchematicDataChange({ wires: schematic.wires })
+    if (failed.length > 0 || kept.length > 0) {
+      const wireCount = (count: number) => `${count} wire${count === 1 ? '' : 's'}`
+      alert(
+        [
+          `Rerouted ${wireCount(rerouted - failed.length)} cleanly.`,
+          failed.length > 0 && `${wireCount(failed.length)} found no clear path and may still cross parts or other wires.`,
+          kept.length > 0 && `${wireCount(kept.length)} left as drawn because another wire joins them partway along.`,
+        ]
+          .filter(Boolean)
+          .join('\n')
+      )
+    }
+  }, [selectedSchematic, handleSchematicDataChange])
+
   const documentSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const handleDocumentChange = (content: string) => {
@@ -1096,6 +1190,14 @@ function AppContent() {
               <LayoutGrid className="h-4 w-4" />
               Tidy
             </button>
+            <button
+              onClick={handleRerouteWires}
+              className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm text-gray-400 transition-colors hover:bg-white/10 hover:text-gray-200"
+              title="Re-route every wire around components, avoiding overlaps"
+            >
+              <Route className="h-4 w-4" />
+              Reroute all
+            </button>
             <button
               onClick={() => setDatasheetExportOpen(true)}
               className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm text-gray-400 transition-colors hover:bg-white/10 hover:text-gray-200"
@@ -1190,6 +1292,14 @@ function AppContent() {
             <LayoutGrid className="h-4 w-4" />
             <span className="hidden sm:inline">Tidy</span>
           </button>
+          <button
+            onClick={handleRerouteWires}
+            className="flex items-center gap-1.5 rounded-full px-3 py-1.5 text-sm text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-800 dark:text-zinc-400 dark:hover:bg-white/10 dark:hover:text-zinc-200"
+            title="Re-route every wire around components, avoiding overlaps"
+          >
+            <Route className="h-4 w-4" />
+            <span className="hidden sm:inline">Reroute all</span>
+          </button>
           <button
             onClick={() => setDatasheetExportOpen(true)}
             className="flex items-center gap-1.5 rounded-full px-3 py-1.5 text-sm text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-800 dark:text-zinc-400 dark:hover:bg-white/10 dark:hover:text-zinc-200"
@@ -1253,6 +1363,8 @@ function AppContent() {
             initialComponentStates={selectedSchematic.componentStates || {}}
             initialGroupBoxes={selectedSchematic.groupBoxes || []}
             initialLabels={selectedSchematic.labels || []}
+            initialTestBench={selectedSchematic.testBench ?? ''}
+            initialErcWaivers={selectedSchematic.ercWaivers ?? []}
             schematicUpdatedAt={selectedSchematic.metadata.updatedAt}
             schematicSyncKey={schematicSyncKey}
             groupBoxes={groupBoxes}
@@ -1269,6 +1381,9 @@ function AppContent() {
             onSelectedGroupBoxIdChange={setSelectedGroupBoxId}
             focusGroupBoxRequest={focusGroupBoxRequest}
             onFocusGroupBoxHandled={() => setFocusGroupBoxRequest(null)}
+            blockFromGroupBoxRequest={blockFromGroupBoxRequest}
+            onBlockFromGroupBoxHandled={() => setBlockFromGroupBoxRequest(null)}
+            onCreateBlock={handleCreateBlock}
             schematicId={selectedSchematic.id}
             key={selectedSchematic.id}
             getAccessToken={getAccessToken}
@@ -1278,12 +1393,15 @@ function AppContent() {
             onHoveredPositionChange={setHoveredPosition}
             onHoverStatsChange={setHoverStats}
             projectPrograms={selectedFolder.programs}
+            projectSheets={selectedFolder.schematics}
+            onNavigatePort={handleNavigatePort}
             programFlashes={selectedSchematic.programFlashes}
             showWorkspacePanels
             workspaceOverlay={workspaceOverlay}
             showExamplesDocs={selectedFolder.id === EXAMPLES_FOLDER_ID}
             examplesSchematicId={selectedSchematic.id}
             examplesSchematicName={selectedSchematic.name}
+            commsProtocol={selectedFolder.requirements?.commsProtocol}
           />
         </div>
 
@@ -1318,7 +1436,9 @@ function AppContent() {
               if (selectedGroupBoxId === id) setSelectedGroupBoxId(null)
             },
             onFocus: (box) => setFocusGroupBoxRequest(box),
+            onCreateBlock: (box) => setBlockFromGroupBoxRequest(box),
           }}
+          projectBlocks={selectedFolder.blocks}
         />
 
         {moduleConfigSelector && moduleConfigDraft && (
@@ -1453,6 +1573,7 @@ function AppContent() {
             onOpenProgram={handleOpenProgram}
             onOpenPlanSpace={handleOpenPlanSpace}
             onCreateSchematic={handleCreateSchematic}
+            onImportSpice={handleImportSpice}
             onCreateDocument={handleCreateDocument}
             onCreateProgram={handleCreateProgram}
             onDeleteSchematic={handleDeleteSchematic}
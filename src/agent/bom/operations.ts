@@ -21,6 +21,11 @@ const DEFAULT_UNIT_PRICES: Record<string, number> = {
   BridgeRectifier: 1.2,
   ACSource: 4.5,
   'Temperature Sensor': 4.95,
+  Thermistor: 0.35,
+  Photoresistor: 0.3,
+  'PIR Motion Sensor': 2.5,
+  'Distance Sensor': 11.95,
+  Accelerometer: 14.95,
   Motor: 8.5,
   Servo: 12.99,
   Buzzer: 1.25,
@@ -21,6 +21,9 @@ Schematics
 - Use exact catalog module names from lookup results when placing (e.g. "Push Button" not PushButton, "Limit Switch", "Arduino Uno R3").
 - Place each part with schematic_place_component (one call per component). Use tight spacing: only 1 grid cell between adjacent parts. Read layoutGuidelines and suggestedNextPlacement from schematic_get_state; use size.gridX from schematic_list_components to compute the next origin (next X = previous origin X + gridX + 1).
 - Wire with schematic_connect_pins using pin names from catalog_get_module or schematic_list_components.
+- For ground and supply rails shared by distant parts, put a power label (schematic_add_label kind power, text GND/VCC/3V3/5V) on each pin instead of dragging one wire across the sheet.
+- To join a net across schematics of the project (e.g. a power stage sheet feeding an MCU sheet), put a port label (schematic_add_label kind port) with the same name on each sheet; power flags only join between sheets a port already links, and net labels never leave their sheet.
+- Once everything is wired, call schematic_reroute_wires so the wires route around parts without overlapping.
 - Pick a colorId per wire when connecting (red for power/VCC, black for GND, distinct colors for separate signals). Colors auto-assign from pin type if omitted.
 - Don't claim a circuit is complete until components and wires exist.
 - Validate and simulate after building (schematic_validate, schematic_simulate).
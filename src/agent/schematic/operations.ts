@@ -4,6 +4,7 @@ import {
   Schematic,
   SchematicGroupBox,
   SchematicCellLabel,
+  SchematicLabelKind,
   createSchematicGroupBox,
   createSchematicCellLabel,
   GROUP_BOX_COLOR_PRESETS,
@@ -28,7 +29,8 @@ import {
   SCHEMATIC_LAYOUT_GUIDELINES,
 } from './layoutGuidelines'
 import { cellMatchesPin, primaryPinName } from '../../utils/pinNames'
-import { buildWirePath } from '../../utils/wireRouting'
+import { linkSheets } from '../../utils/multiSheet'
+import { buildWirePath, planReroute, routeWire, segmentsFromPath, wireObstacles } from '../../utils/wireRouting'
 import { pickWireColorForConnection, pickWireColorForPath, PickWireColorOptions } from '../../utils/pickWireColor'
 
 function pinMatchesForCell(
@@ -468,7 +470,10 @@ export function connectPins(
   const validation = validateConnection(from, to)
   if (!validation.isValid) return { error: validation.error ?? 'Invalid connection' }
 
-  const path = buildWirePath(from.position, to.position, schematic.gridData)
+  const obstacles = wireObstacles(schematic.wires)
+  const path =
+    routeWire(from.position, to.position, schematic.gridData, obstacles) ??
+    buildWirePath(from.position, to.position, schematic.gridData, obstacles.junctions)
   const colorChoice = pickWireColorForConnection(schematic.wires, from, to, opts)
   const wire = wireBetween(path, {
     colorId: colorChoice.colorId,
@@ -511,6 +516,30 @@ export function addWirePath(
   }
 }
 
+/**
+ * Rip up every point-to-point wire and route it again around components and
+ * the other wires (see planReroute). Colors and ratings are kept.
+ */
+export function rerouteWires(schematic: Schematic): {
+  schematic: Schematic
+  rerouted: number
+  failed: string[]
+  kept: string[]
+} {
+  const plan = planReroute(schematic.gridData, schematic.wires)
+  const wires = schematic.wires.map((wire) => {
+    const path = plan.paths.get(wire.id)
+    const segments = path ? segmentsFromPath(path, wire) : []
+    return segments.length > 0 ? { ...wire, segments } : wire
+  })
+  return {
+    schematic: rebuildSchematic(schematic, getComponents(schematic), wires),
+    rerouted: plan.paths.size,
+    failed: plan.failed,
+    kept: plan.kept,
+  }
+}
+
 export function removeWire(schematic: Schematic, wireId: string): Schematic {
   return rebuildSchematic(
     schematic,
@@ -596,6 +625,7 @@ export function listLabels(schematic: Schematic) {
     x: label.x,
     y: label.y,
     text: label.text,
+    kind: label.kind ?? 'text',
   }))
 }
 
@@ -604,9 +634,10 @@ export function addLabel(
   x: number,
   y: number,
   text: string,
-  labelId?: string
+  labelId?: string,
+  kind: SchematicLabelKind = 'text'
 ): { schematic: Schematic; label: SchematicCellLabel } {
-  const label = createSchematicCellLabel(x, y, text)
+  const label = createSchematicCellLabel(x, y, text, kind)
   if (labelId) label.id = labelId
   return {
     schematic: touchSchematic({
@@ -684,12 +715,16 @@ export function validateSchematicConnections(schematic: Schematic) {
   return { valid: !issues.some((i) => i.severity === 'error'), issues }
 }
 
-export function simulateSchematic(schematic: Schematic) {
-  const result = solveCircuit(schematic.gridData, schematic.wires)
+/** Solve the sheet, together with the project sheets its ports reach when they are given. */
+export function simulateSchematic(schematic: Schematic, projectSheets: Schematic[] = []) {
+  const circuit = linkSheets(schematic, projectSheets)
+  const result = solveCircuit(circuit.gridData, circuit.wires)
   return {
+    linkedSheets: circuit.sheets.map((sheet) => ({ id: sheet.schematicId, name: sheet.name, via: sheet.sharedNets })),
     works: result.works,
     reason: result.reason,
     errors: result.errors,
+    warnings: result.warnings,
     totalVoltage: result.totalVoltage,
     totalCurrent: result.totalCurrent,
     totalPower: result.totalPower,
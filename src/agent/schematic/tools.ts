@@ -12,6 +12,7 @@ import * as ops from './operations'
 import { SCHEMATIC_LAYOUT_GUIDELINES } from './layoutGuidelines'
 import { AGENT_WIRE_COLOR_IDS } from '../../utils/pickWireColor'
 import { isWireColorId } from '../../theme/colors'
+import type { SchematicLabelKind } from '../../types/workspace'
 
 const COMPONENT_PROPERTIES_PARAM = {
   name: 'properties',
@@ -37,6 +38,19 @@ function parseWireColorArgs(args: Record<string, unknown>) {
   }
 }
 
+const LABEL_KIND_PARAM = {
+  name: 'kind',
+  type: 'string' as const,
+  description:
+    "text (annotation, default), net (named net label on this sheet), power (power flag such as VCC or GND) or port (joins the same-named port on the project's other sheets)",
+  required: false,
+  enum: ['text', 'net', 'power', 'port'],
+}
+
+function parseLabelKind(value: unknown): SchematicLabelKind {
+  return value === 'net' || value === 'power' || value === 'port' ? value : 'text'
+}
+
 function parseComponentProperties(args: Record<string, unknown>): Record<string, unknown> {
   const props: Record<string, unknown> = {}
   if (args.properties && typeof args.properties === 'object' && !Array.isArray(args.properties)) {
@@ -354,6 +368,26 @@ export const schematicAgentTools: AgentTool[] = [
     }
   ),
 
+  makeTool(
+    'schematic_reroute_wires',
+    'Rip up and re-route every point-to-point wire around components, with few bends and crossings. Use after placing all wires, or when wires overlap.',
+    'schematic',
+    [{ name: 'schematicId', type: 'string', description: 'Schematic id (optional)', required: false }],
+    (ctx, args) => {
+      const id = resolveSchematicId(ctx, args.schematicId as string)
+      if (!id) return fail('No schematic specified.')
+      const schematic = getSchematic(ctx.folder, id)
+      if (!schematic) return fail(`Schematic not found: ${id}`)
+      const result = ops.rerouteWires(schematic)
+      const folder = updateSchematicInFolder(ctx.folder, id, () => result.schematic)
+      if (!folder) return fail('Failed to save schematic.')
+      return ok(ctx, folder, `Rerouted ${result.rerouted} wire(s).`, {
+        failed: result.failed,
+        kept: result.kept,
+      })
+    }
+  ),
+
   makeTool(
     'schematic_add_group_box',
     'Add a labeled region box to organize subsystems on the schematic canvas.',
@@ -479,13 +513,14 @@ export const schematicAgentTools: AgentTool[] = [
 
   makeTool(
     'schematic_add_label',
-    'Add a text label to a grid cell. Use for net names, node annotations, or subsystem markers.',
+    'Add a label to a grid cell. kind "text" is annotation only. kind "net" (e.g. SDA) or "power" (VCC, GND, 3V3, 5V) on a pin or wire end joins it to every other cell with the same name, so distant parts need no long wire — a GND power flag joins ground. kind "port" does the same across the project schematics, so separate sheets simulate as one circuit.',
     'schematic',
     [
       { name: 'schematicId', type: 'string', description: 'Schematic id (optional)', required: false },
       { name: 'x', type: 'number', description: 'Grid cell X', required: true },
       { name: 'y', type: 'number', description: 'Grid cell Y', required: true },
-      { name: 'text', type: 'string', description: 'Label text', required: true },
+      { name: 'text', type: 'string', description: 'Label text, or the net name for net/power labels', required: true },
+      LABEL_KIND_PARAM,
       { name: 'labelId', type: 'string', description: 'Optional custom label id', required: false },
     ],
     (ctx, args) => {
@@ -498,7 +533,8 @@ export const schematicAgentTools: AgentTool[] = [
         args.x as number,
         args.y as number,
         args.text as string,
-        args.labelId as string | undefined
+        args.labelId as string | undefined,
+        parseLabelKind(args.kind)
       )
       const folder = updateSchematicInFolder(ctx.folder, id, () => result.schematic)
       if (!folder) return fail('Failed to save schematic.')
@@ -508,12 +544,13 @@ export const schematicAgentTools: AgentTool[] = [
 
   makeTool(
     'schematic_update_label',
-    'Update label text or move it to a different grid cell.',
+    'Update label text or kind, or move it to a different grid cell.',
     'schematic',
     [
       { name: 'schematicId', type: 'string', description: 'Schematic id (optional)', required: false },
       { name: 'labelId', type: 'string', description: 'Label id', required: true },
       { name: 'text', type: 'string', description: 'New label text', required: false },
+      { ...LABEL_KIND_PARAM, description: 'New label kind' },
       { name: 'x', type: 'number', description: 'New grid cell X', required: false },
       { name: 'y', type: 'number', description: 'New grid cell Y', required: false },
     ],
@@ -524,6 +561,7 @@ export const schematicAgentTools: AgentTool[] = [
       if (!schematic) return fail(`Schematic not found: ${id}`)
       const patch: Record<string, unknown> = {}
       if (args.text != null) patch.text = args.text
+      if (args.kind != null) patch.kind = parseLabelKind(args.kind)
       if (args.x != null) patch.x = args.x
       if (args.y != null) patch.y = args.y
       const result = ops.updateLabel(schematic, args.labelId as string, patch)
@@ -579,7 +617,7 @@ export const schematicAgentTools: AgentTool[] = [
 
   makeTool(
     'schematic_simulate',
-    'Run DC circuit simulation (MNA solver) on the schematic.',
+    'Run DC circuit simulation (MNA solver) on the schematic, together with any project sheets its ports link to.',
     'schematic',
     [{ name: 'schematicId', type: 'string', description: 'Schematic id (optional)', required: false }],
     (ctx, args) => {
@@ -587,7 +625,7 @@ export const schematicAgentTools: AgentTool[] = [
       if (!id) return fail('No schematic specified.')
       const schematic = getSchematic(ctx.folder, id)
       if (!schematic) return fail(`Schematic not found: ${id}`)
-      return okRead(ctx, 'Simulation complete.', ops.simulateSchematic(schematic))
+      return okRead(ctx, 'Simulation complete.', ops.simulateSchematic(schematic, ctx.folder.schematics))
     }
   ),
 ]
@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle, Cable, ChevronDown, ChevronUp, Pause, Play, Trash2 } from 'lucide-react'
+import { busKindsForProtocol, findBusLinks, type BusKind, type BusLink } from '../systems/chain'
+import { getPlacedComponents } from '../systems/chain/components/registry'
+import type { GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+import { busHub, type BusTransaction } from '../services/BusHub'
+import { formatTimestamp } from './SerialMonitor'
+
+interface BusAnalyzerPanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  /** The project's `commsProtocol` requirement, if one was captured */
+  commsProtocol?: string
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+type Filter = 'all' | BusKind
+
+const KIND_LABELS: Record<BusKind, string> = { uart: 'UART', i2c: 'I2C', spi: 'SPI', onewire: '1-Wire' }
+const KIND_BADGES: Record<BusKind, string> = {
+  uart: 'bg-sky-500/15 text-sky-700 dark:text-sky-300',
+  i2c: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+  spi: 'bg-fuchsia-500/15 text-fuchsia-700 dark:text-fuchsia-300',
+  onewire: 'bg-amber-500/15 text-amber-700 dark:text-amber-300',
+}
+/** ROM commands that open a 1-Wire exchange after the reset. */
+const ONE_WIRE_ROM_COMMANDS: Record<number, string> = {
+  0x33: 'Read ROM',
+  0x55: 'Match ROM',
+  0xcc: 'Skip ROM',
+  0xf0: 'Search ROM',
+  0xec: 'Alarm Search',
+}
+/** Rows kept on screen; the hub holds a longer history. */
+const MAX_ROWS = 200
+
+function hexBytes(bytes: number[]): string {
+  return bytes.map((b) => b.toString(16).toUpperCase().padStart(2, '0')).join(' ')
+}
+
+function printableBytes(bytes: number[]): string {
+  return bytes
+    .map((b) => {
+      if (b === 0x0a) return '\\n'
+      if (b === 0x0d) return '\\r'
+      if (b >= 0x20 && b < 0x7f) return String.fromCharCode(b)
+      return `\\x${b.toString(16).padStart(2, '0')}`
+    })
+    .join('')
+}
+
+function describeLink(link: BusLink, nameOf: (id: string) => string): string {
+  switch (link.kind) {
+    case 'uart':
+      return `${nameOf(link.tx.componentId)} ${link.tx.pin} → ${nameOf(link.rx.componentId)} ${link.rx.pin}`
+    case 'i2c':
+      return `${link.controllers.map(nameOf).join(', ')} ↔ ${link.devices
+        .map((d) => `${nameOf(d.componentId)} @${d.address === null ? '—' : `0x${d.address.toString(16).toUpperCase()}`}`)
+        .join(', ')}`
+    case 'spi':
+      return `${nameOf(link.controller)} → ${link.devices
+        .map((d) => `${nameOf(d.componentId)} (CS ${d.cs === null ? 'floating' : d.cs === 'low' ? 'GND' : d.cs >= 100 ? `A${d.cs - 100}` : d.cs})`)
+        .join(', ')}`
+    case 'onewire':
+      return `${nameOf(link.controller)} ${link.gpio >= 100 ? `A${link.gpio - 100}` : link.gpio} ↔ ${link.devices
+        .map((d) => nameOf(d.componentId))
+        .join(', ')}`
+  }
+}
+
+function describeTransaction(transaction: BusTransaction, nameOf: (id: string) => string): { summary: string; detail: string } {
+  switch (transaction.kind) {
+    case 'uart':
+      return {
+        summary: `${nameOf(transaction.from)} → ${nameOf(transaction.to)}  "${printableBytes(transaction.bytes)}"${
+          transaction.garbled ? '  (baud mismatch)' : ''
+        }`,
+        detail: hexBytes(transaction.bytes),
+      }
+    case 'i2c': {
+      const address = `0x${transaction.address.toString(16).toUpperCase().padStart(2, '0')}`
+      const target = transaction.device ? nameOf(transaction.device) : 'no device'
+      return {
+        summary: `${address} ${transaction.read ? 'R' : 'W'} ${transaction.acked ? hexBytes(transaction.bytes) || '(empty)' : 'NACK'}`,
+        detail: `${nameOf(transaction.controller)} → ${target}`,
+      }
+    }
+    case 'spi':
+      return {
+        summary: `MOSI ${hexBytes(transaction.mosi)}  MISO ${hexBytes(transaction.miso)}`,
+        detail: `${nameOf(transaction.controller)} → ${
+          transaction.devices.length > 0 ? transaction.devices.map(nameOf).join(', ') : 'no chip selected'
+        }`,
+      }
+    case 'onewire': {
+      const command = transaction.bytes.length > 0 ? ONE_WIRE_ROM_COMMANDS[transaction.bytes[0]] : undefined
+      return {
+        summary: transaction.presence
+          ? ['RESET', command, hexBytes(transaction.bytes)].filter(Boolean).join(' ')
+          : 'RESET (no presence)',
+        detail: `${nameOf(transaction.controller)} → ${transaction.devices.map(nameOf).join(', ') || 'no device'}`,
+      }
+    }
+  }
+}
+
+/**
+ * Decoded traffic on the UART, I2C, SPI and 1-Wire buses wired between parts, with the
+ * links the sheet forms and a check against the project's comms requirement.
+ */
+export function BusAnalyzerPanel({
+  gridData,
+  wires,
+  commsProtocol,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: BusAnalyzerPanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  const isExpanded = hideHeader ? (expandedProp ?? true) : (expandedProp ?? internalExpanded)
+  const [transactions, setTransactions] = useState<BusTransaction[]>(() => busHub.getTransactions())
+  const [paused, setPaused] = useState(false)
+  const [filter, setFilter] = useState<Filter>('all')
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const links = useMemo(() => (isExpanded ? findBusLinks(gridData, wires) : []), [gridData, wires, isExpanded])
+  const required = useMemo(() => busKindsForProtocol(commsProtocol), [commsProtocol])
+  const missing = required.filter((kind) => !links.some((link) => link.kind === kind))
+
+  const names = useMemo(() => {
+    const labels = new Map<string, string>()
+    getPlacedComponents(gridData).forEach((c) => {
+      labels.set(c.componentId, `${c.moduleDefinition?.module ?? 'Part'} (${c.baseX}, ${c.baseY})`)
+    })
+    return labels
+  }, [gridData])
+  const nameOf = (id: string) => names.get(id) ?? id
+
+  // Buses move a byte at a time; redraw at most once per frame.
+  useEffect(() => {
+    if (!isExpanded || paused) return
+    let frame: number | null = null
+    const unsubscribe = busHub.subscribe(() => {
+      if (frame !== null) return
+      frame = requestAnimationFrame(() => {
+        frame = null
+        setTransactions(busHub.getTransactions())
+      })
+    })
+    setTransactions(busHub.getTransactions())
+    return () => {
+      unsubscribe()
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [isExpanded, paused])
+
+  const visible = useMemo(
+    () => transactions.filter((t) => filter === 'all' || t.kind === filter).slice(-MAX_ROWS),
+    [transactions, filter]
+  )
+
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [visible])
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  return (
+    <aside
+      className={`bus-analyzer-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Bus analyzer"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-sky-400/15">
+              <Cable className="h-4 w-4 text-sky-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">Bus Analyzer</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">
+                {links.length === 0 ? 'No buses wired' : `${links.length} bus link${links.length === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(60vh,560px)] overflow-y-auto'
+            }`}
+          >
+            {missing.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-500/10 px-2.5 py-2 text-xs text-amber-800 dark:text-amber-300">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span>
+                  Requirements call for {missing.map((kind) => KIND_LABELS[kind]).join(' and ')} ({commsProtocol}), but no{' '}
+                  {missing.length === 1 ? 'such bus is' : 'such buses are'} wired.
+                </span>
+              </div>
+            )}
+
+            <div>
+              <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-zinc-500">Links</h3>
+              {links.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-zinc-500">
+                  Wire a microcontroller's TX/RX, SDA/SCL or SCK/MOSI/MISO pins to a module, or any GPIO to a 1-Wire data pin, to form a bus.
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {links.map((link) => (
+                    <li key={link.id} className="flex items-start gap-2 text-xs text-gray-700 dark:text-zinc-300">
+                      <span className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-semibold ${KIND_BADGES[link.kind]}`}>
+                        {KIND_LABELS[link.kind]}
+                      </span>
+                      <span className="min-w-0 break-words">{describeLink(link, nameOf)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1">
+              {(['all', 'uart', 'i2c', 'spi', 'onewire'] as Filter[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFilter(option)}
+                  className={`rounded-md px-2 py-1 text-xs font-medium transition-colors ${
+                    filter === option
+                      ? 'bg-primary-600 text-white'
+                      : 'text-gray-600 hover:bg-gray-100 dark:text-zinc-400 dark:hover:bg-white/5'
+                  }`}
+                >
+                  {option === 'all' ? 'All' : KIND_LABELS[option]}
+                </button>
+              ))}
+              <div className="flex-1" />
+              <button
+                type="button"
+                onClick={() => setPaused((p) => !p)}
+                className="rounded p-1 text-gray-500 hover:text-gray-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+                title={paused ? 'Resume capture' : 'Pause capture'}
+              >
+                {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  busHub.clear()
+                  setTransactions([])
+                }}
+                className="rounded p-1 text-gray-500 hover:text-gray-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+                title="Clear capture"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+
+            <div
+              ref={listRef}
+              className="min-h-[10rem] flex-1 overflow-y-auto rounded border border-gray-200 bg-white p-1.5 font-mono text-[11px] leading-4 text-gray-800 dark:border-white/10 dark:bg-black/40 dark:text-zinc-200"
+            >
+              {visible.length === 0 ? (
+                <p className="text-gray-400 dark:text-zinc-500">
+                  {links.length === 0 ? 'Nothing to capture yet.' : 'Run the microcontrollers to capture bus traffic.'}
+                </p>
+              ) : (
+                visible.map((transaction, index) => {
+                  const { summary, detail } = describeTransaction(transaction, nameOf)
+                  return (
+                    <div key={index} className="flex gap-2 py-0.5" title={detail}>
+                      <span className="shrink-0 text-gray-400 dark:text-zinc-500">{formatTimestamp(transaction.timestamp)}</span>
+                      <span className={`shrink-0 rounded px-1 text-[10px] font-semibold ${KIND_BADGES[transaction.kind]}`}>
+                        {KIND_LABELS[transaction.kind]}
+                      </span>
+                      <span className="min-w-0 break-all">{summary}</span>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -11,12 +11,16 @@ import { KicadSymbol } from './KicadSymbol'
 import { ModuleDefinition } from '../modules/types'
 import type { ModuleRegistryEntry } from '../modules/registry'
 import { isNPinConnectorModule } from '../modules/connectors/buildConnectorDefinition'
+import { buildSubcircuitDefinition, moduleDisplayName, subcircuitBlockId } from '../modules/subcircuitModule'
+import type { SubcircuitBlock } from '../types/workspace'
 
 interface ComponentPaletteProps {
   selectedModule: ModuleDefinition | null
   onModuleSelect: (module: ModuleDefinition | null) => void
   deleteMode?: boolean
   onToggleDeleteMode?: () => void
+  /** Sub-circuit blocks saved in the open project, listed under "Project Blocks". */
+  projectBlocks?: SubcircuitBlock[]
 }
 
 function ModuleCard({
@@ -45,7 +49,7 @@ function ModuleCard({
           <div className="flex min-w-0 flex-1 flex-col justify-between py-0.5">
             <div className="flex items-start justify-between gap-1">
               <h3 className="truncate text-xs font-medium text-gray-900 dark:text-dark-text-primary">
-                {module.module}
+                {moduleDisplayName(module)}
               </h3>
               {entry.type || isNPinConnectorModule(module) ? (
                 <div title="Configurable component">
@@ -67,6 +71,12 @@ function ModuleCard({
   )
 }
 
+/** Every project block shares the `Subcircuit` module id, so blocks are told apart by block id. */
+function paletteKey(definition: ModuleDefinition): string {
+  const blockId = subcircuitBlockId(definition)
+  return blockId ? `block:${blockId}` : definition.module
+}
+
 function ModuleList({
   entries,
   selectedModule,
@@ -82,9 +92,9 @@ function ModuleList({
     <div className="space-y-1">
       {entries.map((entry) => (
         <ModuleCard
-          key={entry.definition.module}
+          key={paletteKey(entry.definition)}
           entry={entry}
-          selected={selectedModule?.module === entry.definition.module}
+          selected={!!selectedModule && paletteKey(selectedModule) === paletteKey(entry.definition)}
           onSelect={() => onSelect(entry.definition)}
         />
       ))}
@@ -176,6 +186,7 @@ export function ComponentPalette({
   onModuleSelect,
   deleteMode = false,
   onToggleDeleteMode,
+  projectBlocks = [],
 }: ComponentPaletteProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(
@@ -189,13 +200,24 @@ export function ComponentPalette({
         'output.light',
         'output.electromechanical',
         'organization',
+        'project-blocks',
       ])
   )
 
   const paletteStructure = useMemo(() => {
     const matching = getAllModulesWithTypes().filter((e) => moduleMatchesSearch(e, searchQuery))
-    return groupEntriesForPalette(matching)
-  }, [searchQuery])
+    const groups = groupEntriesForPalette(matching)
+    const blockEntries: ModuleRegistryEntry[] = projectBlocks
+      .map((block) => ({
+        definition: buildSubcircuitDefinition(block),
+        category: 'project-blocks',
+        keywords: [block.name, 'block', 'subcircuit', ...block.ports.map((p) => p.name)],
+      }))
+      .filter((e) => moduleMatchesSearch(e, searchQuery))
+    if (blockEntries.length === 0) return groups
+    const blocksGroup: PaletteGroup = { groupId: 'project-blocks', label: 'Project Blocks', entries: blockEntries }
+    return [blocksGroup, ...groups]
+  }, [searchQuery, projectBlocks])
 
   const isSearching = searchQuery.trim().length > 0
 
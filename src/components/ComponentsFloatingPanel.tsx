@@ -11,6 +11,7 @@ interface ComponentsFloatingPanelProps {
   deleteMode?: boolean
   onToggleDeleteMode?: () => void
   groupBoxBrowser?: GroupBoxBrowserProps
+  projectBlocks?: ComponentProps<typeof ComponentPalette>['projectBlocks']
 }
 
 export function ComponentsFloatingPanel({
@@ -19,6 +20,7 @@ export function ComponentsFloatingPanel({
   deleteMode,
   onToggleDeleteMode,
   groupBoxBrowser,
+  projectBlocks,
 }: ComponentsFloatingPanelProps) {
   return (
     <FloatingPanel
@@ -36,6 +38,7 @@ export function ComponentsFloatingPanel({
             onModuleSelect={onModuleSelect}
             deleteMode={deleteMode}
             onToggleDeleteMode={onToggleDeleteMode}
+            projectBlocks={projectBlocks}
           />
         </div>
         {groupBoxBrowser && (
@@ -46,6 +49,7 @@ export function ComponentsFloatingPanel({
             onUpdate={groupBoxBrowser.onUpdate}
             onDelete={groupBoxBrowser.onDelete}
             onFocus={groupBoxBrowser.onFocus}
+            onCreateBlock={groupBoxBrowser.onCreateBlock}
           />
         )}
       </div>
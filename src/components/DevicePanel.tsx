@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react'
-import { ChevronDown, ChevronRight, Code, Play, Save, Check, AlertCircle, Cpu, Zap, FolderOpen, FileText, X, Plus, Download, Upload, Settings, Bug, ExternalLink } from 'lucide-react'
+import { ChevronDown, ChevronRight, Code, Play, Save, Check, AlertCircle, Cpu, Zap, FolderOpen, FileText, X, Plus, Download, Upload, Settings, Bug, ExternalLink, Terminal } from 'lucide-react'
 import { WireConnection } from '../modules/types'
 import { GridCell } from '../systems/ElectricalSystem'
 import { ArduinoCompilerReal, CompilationResult, CompilationError, ArduinoProject, ArduinoFile, SystemStatus } from '../services/ArduinoCompilerReal'
@@ -28,6 +28,8 @@ import {
 import type { Program, ProgramFlashAssignment } from '../types/workspace'
 import { gpioPinNumber } from '../systems/chain/components/registry'
 import { McuProgramModal } from './McuProgramModal'
+import { isAtmega328Board } from '../services/avr/ATmega328P'
+import { SerialMonitor } from './SerialMonitor'
 
 type GpioDisplayState = GPIOState & { state?: GPIOState['state'] | 'PULSING' }
 
@@ -260,6 +262,7 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
   const isExpanded = hideHeader ? true : (expandedProp ?? internalExpanded)
   const [activeTab, setActiveTab] = useState<'microcontrollers' | 'wires' | 'simulation'>('microcontrollers')
   const [expandedMicrocontroller, setExpandedMicrocontroller] = useState<string | null>(null)
+  const [serialMonitorFor, setSerialMonitorFor] = useState<string | null>(null)
   const [showCodingModal, setShowCodingModal] = useState(false)
   const [selectedMicrocontroller, setSelectedMicrocontroller] = useState<Microcontroller | null>(null)
   const [microcontrollerCode, setMicrocontrollerCode] = useState<Map<string, string>>(new Map())
@@ -840,7 +843,10 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
     try {
       // Start multi-microcontroller GPIO simulation for this specific microcontroller
       console.log(`[MULTI_MCU_GPIO] Starting simulation for ${microcontroller.id} with code:`, code)
-      startMultiMicrocontrollerGPIO(microcontroller.id, code)
+      const firmware = isAtmega328Board(getBoardForMicrocontroller(microcontroller.name))
+        ? compilationResult.firmware
+        : undefined
+      startMultiMicrocontrollerGPIO(microcontroller.id, code, firmware)
 
       // Also start emulation with the compiled firmware for additional data
       const result = await qemuEmulator.startEmulation(
@@ -1198,7 +1204,7 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
     const sketch = code.trim() || getMicrocontrollerSketch(selectedMicrocontroller.id)
     if (!sketch) return
 
-    startMultiMicrocontrollerGPIO(selectedMicrocontroller.id, sketch)
+    startMultiMicrocontrollerGPIO(selectedMicrocontroller.id, sketch, firmwareForSketch(selectedMicrocontroller, sketch))
     const dynamicStates = getAllMultiMicrocontrollerGPIOStates()
     const initialGpioStates = new Map<number, GPIOState>()
     const initialWireStates = new Map<string, 'active' | 'inactive'>()
@@ -1236,7 +1242,7 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
       return
     }
 
-    startMultiMicrocontrollerGPIO(microcontroller.id, sketch)
+    startMultiMicrocontrollerGPIO(microcontroller.id, sketch, firmwareForSketch(microcontroller, sketch))
 
     const dynamicStates = getAllMultiMicrocontrollerGPIOStates()
     const initialGpioStates = new Map<number, GPIOState>()
@@ -1292,6 +1298,14 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
     }
   }
 
+  /** Compiled image to emulate, when it was built for an ATmega328P from this exact sketch. */
+  const firmwareForSketch = (microcontroller: Microcontroller, sketch: string): string | undefined => {
+    const compiled = compiledCodes.get(microcontroller.id)
+    if (!compiled?.compilationResult.success || compiled.code.trim() !== sketch.trim()) return undefined
+    if (!isAtmega328Board(getBoardForMicrocontroller(microcontroller.name))) return undefined
+    return compiled.compilationResult.firmware
+  }
+
   const getWokwiBoardConfig = (microcontrollerName: string) => {
     switch (microcontrollerName.toLowerCase()) {
       case 'arduino uno':
@@ -1477,7 +1491,7 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
                             mcusWithCode.forEach((mcu) => {
                               const compiledCode = compiledCodes.get(mcu.id)
                               if (compiledCode) {
-                                startMultiMicrocontrollerGPIO(mcu.id, compiledCode.code)
+                                startMultiMicrocontrollerGPIO(mcu.id, compiledCode.code, firmwareForSketch(mcu, compiledCode.code))
                               }
                             })
                             setSimulationState((prev) => ({
@@ -1757,6 +1771,21 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
                               </>
                             )}
                           </button>
+                          <button
+                            className={`flex items-center justify-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+                              serialMonitorFor === microcontroller.id
+                                ? 'bg-slate-700 text-white dark:bg-slate-200 dark:text-slate-900'
+                                : 'bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700'
+                            }`}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setSerialMonitorFor(serialMonitorFor === microcontroller.id ? null : microcontroller.id)
+                            }}
+                            title="Serial Monitor"
+                          >
+                            <Terminal className="w-3.5 h-3.5" />
+                            {!hideHeader && 'Serial'}
+                          </button>
                           {!hideHeader && (
                           <button
                             className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors"
@@ -1772,6 +1801,14 @@ export function DevicePanel({ gridData, wires, componentStates, projectPrograms,
                           )}
                         </div>
                         
+                        {serialMonitorFor === microcontroller.id && (
+                          <SerialMonitor
+                            microcontrollerId={microcontroller.id}
+                            running={simulationState.runningMicrocontrollers.has(microcontroller.id)}
+                            onClose={() => setSerialMonitorFor(null)}
+                          />
+                        )}
+
                         {/* Expanded Pins View */}
                         {!hideHeader && expandedMicrocontroller === microcontroller.id && (
                           <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, ChevronDown, ChevronUp, Info, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react'
+import type { GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+import { ERC_RULES, runElectricalRuleCheck, type ErcSeverity, type ErcViolation } from '../utils/electricalRuleCheck'
+
+interface ErcPanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  /** Pin states of the running sketch, when there is one */
+  gpioStates?: Map<number, any>
+  /** Ids of violations the schematic has waived */
+  waivers: string[]
+  onWaiversChange: (waivers: string[]) => void
+  /** Cells of the picked violation, or null to clear the highlight */
+  onHighlight?: (cells: Array<{ x: number; y: number }> | null) => void
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+const SEVERITY_ICON: Record<ErcSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: XCircle, className: 'text-red-500' },
+  warning: { icon: AlertTriangle, className: 'text-amber-500' },
+  info: { icon: Info, className: 'text-sky-500' },
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+const percent = (fraction: unknown) => (typeof fraction === 'number' ? Math.round(fraction * 100) : '')
+
+/**
+ * Electrical rule check over the sheet (see utils/electricalRuleCheck), re-run as
+ * it's edited. Picking a violation highlights its cells on the grid; waiving one
+ * keeps it listed but out of the counts.
+ */
+export function ErcPanel({
+  gridData,
+  wires,
+  gpioStates,
+  waivers,
+  onWaiversChange,
+  onHighlight,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: ErcPanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  const isExpanded = hideHeader ? (expandedProp ?? true) : (expandedProp ?? internalExpanded)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showWaived, setShowWaived] = useState(false)
+
+  // A running sketch hands over a new pin map every tick. The check solves the circuit with it, so it
+  // reruns when a pin's mode, level, duty or value changes (to the percent), not on every tick.
+  const gpioKey = gpioStates
+    ? [...gpioStates]
+        .map(([pin, state]) => `${pin}:${state?.state}:${percent(state?.dutyCycle)}:${percent(state?.value)}`)
+        .join(',')
+    : ''
+  const [gpio, setGpio] = useState(gpioStates)
+  const [gpioKeyRun, setGpioKeyRun] = useState(gpioKey)
+  if (gpioKey !== gpioKeyRun) {
+    setGpioKeyRun(gpioKey)
+    setGpio(gpioStates)
+  }
+
+  const report = useMemo(
+    () => (isExpanded ? runElectricalRuleCheck(gridData, wires, { gpio, waivers }) : null),
+    [gridData, wires, gpio, waivers, isExpanded]
+  )
+  const selected = report?.violations.find((violation) => violation.id === selectedId) ?? null
+
+  useEffect(() => {
+    onHighlight?.(selected ? selected.cells : null)
+  }, [selected, onHighlight])
+
+  // Drop the highlight when the panel goes away
+  useEffect(() => () => onHighlight?.(null), [onHighlight])
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  const toggleWaiver = (violation: ErcViolation) => {
+    onWaiversChange(violation.waived ? waivers.filter((id) => id !== violation.id) : [...waivers, violation.id])
+  }
+
+  const summary = !report
+    ? 'Electrical rule check'
+    : report.errors + report.warnings + report.infos === 0
+      ? report.waived > 0
+        ? `No violations (${report.waived} waived)`
+        : 'No violations'
+      : [
+          report.errors > 0 && plural(report.errors, 'error'),
+          report.warnings > 0 && plural(report.warnings, 'warning'),
+          report.infos > 0 && plural(report.infos, 'note'),
+        ]
+          .filter(Boolean)
+          .join(', ')
+  const listed = report?.violations.filter((violation) => showWaived || !violation.waived) ?? []
+
+  return (
+    <aside
+      className={`erc-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Electrical rule check"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-red-400/15">
+              <ShieldAlert className="h-4 w-4 text-red-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">ERC</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">{summary}</p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && report && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(60vh,560px)] overflow-y-auto'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className={`text-xs font-medium ${
+                  report.errors > 0
+                    ? 'text-red-600 dark:text-red-400'
+                    : report.warnings > 0
+                      ? 'text-amber-700 dark:text-amber-300'
+                      : 'text-emerald-600 dark:text-emerald-400'
+                }`}
+              >
+                {summary}
+              </span>
+              <div className="flex-1" />
+              {report.waived > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowWaived((v) => !v)}
+                  className="rounded-md px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-zinc-400 dark:hover:bg-white/5"
+                >
+                  {showWaived ? 'Hide waived' : `Show waived (${report.waived})`}
+                </button>
+              )}
+            </div>
+
+            {listed.length === 0 ? (
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-zinc-500">
+                <ShieldCheck className="h-4 w-4 text-emerald-500" />
+                Nothing to fix on this sheet.
+              </div>
+            ) : (
+              <ul className="min-h-[6rem] flex-1 space-y-1 overflow-y-auto">
+                {listed.map((violation) => {
+                  const { icon: Icon, className } = SEVERITY_ICON[violation.severity]
+                  const active = violation.id === selectedId
+                  return (
+                    <li key={violation.id}>
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => setSelectedId(active ? null : violation.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault()
+                            setSelectedId(active ? null : violation.id)
+                          }
+                        }}
+                        className={`flex cursor-pointer items-start gap-2 rounded-md border px-2.5 py-2 text-xs transition-colors ${
+                          active
+                            ? 'border-red-400/60 bg-red-500/10'
+                            : 'border-gray-200 hover:bg-gray-50 dark:border-white/10 dark:hover:bg-white/5'
+                        } ${violation.waived ? 'opacity-50' : ''}`}
+                        aria-pressed={active}
+                      >
+                        <Icon className={`mt-0.5 h-3.5 w-3.5 shrink-0 ${className}`} />
+                        <div className="min-w-0 flex-1">
+                          <div className="font-semibold text-gray-800 dark:text-zinc-200">{ERC_RULES[violation.rule].title}</div>
+                          <div className="break-words text-gray-600 dark:text-zinc-400">{violation.message}</div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            toggleWaiver(violation)
+                          }}
+                          className="shrink-0 rounded px-1.5 py-0.5 text-[11px] font-medium text-gray-500 hover:bg-gray-100 hover:text-gray-800 dark:text-zinc-500 dark:hover:bg-white/10 dark:hover:text-zinc-200"
+                          title={violation.waived ? 'Report this again' : 'Accept this on this schematic'}
+                        >
+                          {violation.waived ? 'Unwaive' : 'Waive'}
+                        </button>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
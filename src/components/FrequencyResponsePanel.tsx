@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronUp, LineChart } from 'lucide-react'
+import { solveAcSweep } from '../systems/chain'
+import { getPlacedComponents } from '../systems/chain/components/registry'
+import { listVoltageProbePoints } from '../utils/oscilloscope'
+import { listPlacedPowerSupplies } from '../utils/powerSupplies'
+import type { GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+
+interface FrequencyResponsePanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+const PLOT_WIDTH = 360
+const PLOT_HEIGHT = 120
+const PLOT_PAD = { left: 34, right: 8, top: 8, bottom: 18 }
+
+function formatFrequency(hz: number): string {
+  if (hz >= 1e6) return `${+(hz / 1e6).toPrecision(3)}M`
+  if (hz >= 1e3) return `${+(hz / 1e3).toPrecision(3)}k`
+  return `${+hz.toPrecision(3)}`
+}
+
+function BodePlot({
+  frequencies,
+  values,
+  unit,
+  stroke,
+}: {
+  frequencies: number[]
+  values: number[]
+  unit: string
+  stroke: string
+}) {
+  if (frequencies.length < 2) return null
+  const innerW = PLOT_WIDTH - PLOT_PAD.left - PLOT_PAD.right
+  const innerH = PLOT_HEIGHT - PLOT_PAD.top - PLOT_PAD.bottom
+  const logMin = Math.log10(frequencies[0])
+  const logMax = Math.log10(frequencies[frequencies.length - 1])
+  let yMin = Math.min(...values)
+  let yMax = Math.max(...values)
+  if (yMax - yMin < 1) {
+    yMin -= 0.5
+    yMax += 0.5
+  }
+  const x = (f: number) => PLOT_PAD.left + ((Math.log10(f) - logMin) / (logMax - logMin)) * innerW
+  const y = (v: number) => PLOT_PAD.top + (1 - (v - yMin) / (yMax - yMin)) * innerH
+  const path = frequencies.map((f, i) => `${i === 0 ? 'M' : 'L'}${x(f).toFixed(1)},${y(values[i]).toFixed(1)}`).join(' ')
+  const decades: number[] = []
+  for (let d = Math.ceil(logMin); d <= Math.floor(logMax); d++) decades.push(10 ** d)
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full" role="img" aria-label={`Frequency response (${unit})`}>
+      {decades.map((f) => (
+        <g key={f}>
+          <line x1={x(f)} x2={x(f)} y1={PLOT_PAD.top} y2={PLOT_PAD.top + innerH} className="stroke-gray-200 dark:stroke-white/10" />
+          <text x={x(f)} y={PLOT_HEIGHT - 4} textAnchor="middle" className="fill-gray-500 text-[9px] dark:fill-zinc-500">
+            {formatFrequency(f)}
+          </text>
+        </g>
+      ))}
+      {[yMin, (yMin + yMax) / 2, yMax].map((v) => (
+        <text key={v} x={PLOT_PAD.left - 4} y={y(v) + 3} textAnchor="end" className="fill-gray-500 text-[9px] dark:fill-zinc-500">
+          {v.toFixed(Math.abs(yMax - yMin) < 10 ? 1 : 0)}
+        </text>
+      ))}
+      <rect x={PLOT_PAD.left} y={PLOT_PAD.top} width={innerW} height={innerH} fill="none" className="stroke-gray-300 dark:stroke-white/15" />
+      <path d={path} fill="none" stroke={stroke} strokeWidth={1.5} />
+    </svg>
+  )
+}
+
+export function FrequencyResponsePanel({
+  gridData,
+  wires,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: FrequencyResponsePanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  const isExpanded = hideHeader ? true : (expandedProp ?? internalExpanded)
+  const [inputSourceId, setInputSourceId] = useState<string | undefined>(undefined)
+  const [probeKey, setProbeKey] = useState<string | null>(null)
+  const [startInput, setStartInput] = useState('1')
+  const [stopInput, setStopInput] = useState('1000000')
+  const [range, setRange] = useState({ start: 1, stop: 1_000_000 })
+
+  const result = useMemo(
+    () =>
+      isExpanded
+        ? solveAcSweep(gridData, wires, { startFrequency: range.start, stopFrequency: range.stop, inputSourceId })
+        : null,
+    [gridData, wires, range, inputSourceId, isExpanded]
+  )
+
+  const probes = useMemo(
+    () => (result ? listVoltageProbePoints(gridData, result.posToNet, result.groundNet) : []),
+    [gridData, result]
+  )
+
+  const sourceLabels = useMemo(() => {
+    const labels = new Map<string, string>()
+    listPlacedPowerSupplies(gridData).forEach((s) => labels.set(s.componentId, `${s.supplyId} · ${s.voltage}V`))
+    getPlacedComponents(gridData).forEach((c) => {
+      if (!labels.has(c.componentId)) {
+        labels.set(c.componentId, `${c.moduleDefinition?.module ?? 'Source'} (${c.baseX}, ${c.baseY})`)
+      }
+    })
+    return labels
+  }, [gridData])
+
+  useEffect(() => {
+    if (inputSourceId && result && !result.sourceIds.includes(inputSourceId)) setInputSourceId(undefined)
+  }, [result, inputSourceId])
+
+  useEffect(() => {
+    if (probes.length === 0) return
+    if (!probeKey || !probes.some((p) => p.key === probeKey)) {
+      setProbeKey(probes[probes.length - 1].key)
+    }
+  }, [probes, probeKey])
+
+  const probe = probes.find((p) => p.key === probeKey) ?? null
+  const response = probe && result?.works ? result.netResponses.get(probe.net) : undefined
+
+  const applyRange = () => {
+    const start = parseFloat(startInput)
+    const stop = parseFloat(stopInput)
+    if (!Number.isFinite(start) || !Number.isFinite(stop) || start <= 0 || stop <= start) return
+    setRange({ start, stop })
+  }
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    if (expandedProp === undefined) setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 outline-none focus:border-primary-400 dark:border-white/10 dark:bg-black/30 dark:text-zinc-100'
+
+  return (
+    <aside
+      className={`frequency-response-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Frequency response"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-sky-400/15">
+              <LineChart className="h-4 w-4 text-sky-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">Frequency response</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">AC small-signal sweep</p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && result && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(48vh,420px)] overflow-y-auto'
+            }`}
+          >
+            {result.sourceIds.length === 0 ? (
+              <p className="text-xs leading-relaxed text-zinc-500">
+                Place a Power Supply or AC Source to inject the sweep stimulus.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-zinc-400">Input</label>
+                    <select
+                      value={result.inputSourceId ?? ''}
+                      onChange={(e) => setInputSourceId(e.target.value)}
+                      className={inputClass}
+                    >
+                      {result.sourceIds.map((id) => (
+                        <option key={id} value={id}>
+                          {sourceLabels.get(id) ?? id}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-zinc-400">Probe</label>
+                    <select value={probeKey ?? ''} onChange={(e) => setProbeKey(e.target.value)} className={inputClass}>
+                      {probes.map((p) => (
+                        <option key={p.key} value={p.key}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-zinc-400">From (Hz)</label>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={startInput}
+                      onChange={(e) => setStartInput(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-1 block text-xs font-medium text-gray-600 dark:text-zinc-400">To (Hz)</label>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={stopInput}
+                      onChange={(e) => setStopInput(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={applyRange}
+                    className="rounded-lg bg-primary-600 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+                  >
+                    Sweep
+                  </button>
+                </div>
+
+                {!result.works ? (
+                  <p className="rounded-lg border border-orange-500/30 bg-orange-500/10 px-3 py-2 text-xs text-orange-700 dark:text-orange-300">
+                    {result.reason}
+                  </p>
+                ) : response ? (
+                  <>
+                    <div>
+                      <div className="mb-1 text-xs font-medium text-gray-600 dark:text-zinc-400">Magnitude (dB)</div>
+                      <BodePlot frequencies={result.frequencies} values={response.magnitudeDb} unit="dB" stroke="#0ea5e9" />
+                    </div>
+                    <div>
+                      <div className="mb-1 text-xs font-medium text-gray-600 dark:text-zinc-400">Phase (°)</div>
+                      <BodePlot frequencies={result.frequencies} values={response.phaseDeg} unit="deg" stroke="#a855f7" />
+                    </div>
+                    <p className="text-[10px] leading-relaxed text-gray-500 dark:text-zinc-500">
+                      Gain from a 1 V stimulus on the input source, linearized around the DC operating point.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-zinc-500">Pick a probe point to plot.</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -6,12 +6,14 @@ import {
   type InteractableControl,
   type InteractableKind,
 } from '../utils/interactableComponents'
+import type { SensorStimulus } from '../modules/sensors/stimulus'
 
 type DockEdge = 'left' | 'right' | 'top' | 'bottom' | null
 
 interface InteractiveControlsPanelProps {
   gridData: Parameters<typeof scanInteractableComponents>[0]
-  onGridPatch: (nextGrid: Parameters<typeof patchInteractableCell>[0]) => void
+  /** `componentId` is the control that moved, so repeated drags of one control undo as one step. */
+  onGridPatch: (nextGrid: Parameters<typeof patchInteractableCell>[0], componentId: string) => void
   containerRef?: HTMLElement | null
 }
 
@@ -25,9 +27,32 @@ function kindLabel(kind: InteractableKind): string {
       return 'Push button'
     case 'limitSwitch':
       return 'Limit switch'
+    case 'sensor':
+      return 'Sensor'
   }
 }
 
+/** Log-scaled stimuli travel in this many slider steps. */
+const LOG_SLIDER_STEPS = 1000
+
+function toSlider(stimulus: SensorStimulus, value: number): number {
+  if (!stimulus.log) return value
+  const t = Math.log(value / stimulus.min) / Math.log(stimulus.max / stimulus.min)
+  return Math.round(Math.max(0, Math.min(1, t)) * LOG_SLIDER_STEPS)
+}
+
+function fromSlider(stimulus: SensorStimulus, position: number): number {
+  if (!stimulus.log) return position
+  const value = stimulus.min * Math.pow(stimulus.max / stimulus.min, position / LOG_SLIDER_STEPS)
+  return Number(value.toPrecision(3))
+}
+
+function formatStimulus(stimulus: SensorStimulus, value: number): string {
+  const digits = stimulus.step >= 1 ? 0 : stimulus.step >= 0.1 ? 1 : 2
+  const text = stimulus.log && value >= 10 ? Math.round(value).toLocaleString() : value.toFixed(digits)
+  return `${text}${stimulus.unit ? ` ${stimulus.unit}` : ''}`
+}
+
 export function InteractiveControlsPanel({
   gridData,
   onGridPatch,
@@ -42,7 +67,7 @@ export function InteractiveControlsPanel({
 
   const patchControl = useCallback(
     (control: InteractableControl, patch: Record<string, unknown>) => {
-      onGridPatch(patchInteractableCell(gridData, control.componentId, control.bodyCellIndex, patch))
+      onGridPatch(patchInteractableCell(gridData, control.componentId, control.bodyCellIndex, patch), control.componentId)
     },
     [gridData, onGridPatch]
   )
@@ -262,6 +287,48 @@ function ControlCard({
           {control.isOn ? 'Pressed' : 'Hold to press'}
         </button>
       )}
+
+      {control.kind === 'sensor' && (
+        <div className="space-y-2">
+          {control.stimuli?.map((stimulus) => {
+            const value = control.sensorInputs?.[stimulus.key] ?? stimulus.default
+            const set = (next: number) => onPatch(control, { sensorInputs: { ...control.sensorInputs, [stimulus.key]: next } })
+            if (stimulus.toggle) {
+              return (
+                <button
+                  key={stimulus.key}
+                  type="button"
+                  onClick={() => set(value ? 0 : 1)}
+                  className={`w-full rounded-lg border px-3 py-2 text-sm font-medium transition ${
+                    value
+                      ? 'border-emerald-600 bg-emerald-600 text-white'
+                      : 'border-gray-300 bg-gray-100 text-gray-700 dark:border-white/15 dark:bg-zinc-800 dark:text-zinc-200'
+                  }`}
+                >
+                  {value ? `${stimulus.label} — click to clear` : `No ${stimulus.label.toLowerCase()} — click to trigger`}
+                </button>
+              )
+            }
+            return (
+              <div key={stimulus.key} className="space-y-1">
+                <div className="flex items-baseline justify-between text-[10px] text-gray-500 dark:text-zinc-400">
+                  <span>{stimulus.label}</span>
+                  <span className="tabular-nums">{formatStimulus(stimulus, value)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={stimulus.log ? 0 : stimulus.min}
+                  max={stimulus.log ? LOG_SLIDER_STEPS : stimulus.max}
+                  step={stimulus.log ? 1 : stimulus.step}
+                  value={toSlider(stimulus, value)}
+                  onChange={(e) => set(fromSlider(stimulus, Number(e.target.value)))}
+                  className="w-full accent-primary-600"
+                />
+              </div>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
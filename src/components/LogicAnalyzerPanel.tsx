@@ -0,0 +1,639 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Binary, ChevronDown, ChevronUp, Pause, Play, Plus, Trash2, X, ZoomIn, ZoomOut } from 'lucide-react'
+import { buildNets } from '../systems/chain'
+import { getPlacedComponents } from '../systems/chain/components/registry'
+import type { GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+import { logicCapture } from '../services/LogicCapture'
+import { listVoltageProbePoints } from '../utils/oscilloscope'
+import {
+  LOGIC_DIVISIONS,
+  LOGIC_TIMEBASES_MS,
+  decodeI2c,
+  decodeServo,
+  decodeSpi,
+  decodeUart,
+  edgesInWindow,
+  findTrigger,
+  findTriggerAfter,
+  type DecodedSpan,
+  type LogicChannelSource,
+  type LogicEdge,
+  type LogicTrace,
+  type LogicTriggerEdge,
+} from '../utils/logicAnalyzer'
+
+interface LogicAnalyzerPanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+type DecoderKind = 'uart' | 'i2c' | 'spi' | 'servo'
+
+interface Decoder {
+  id: number
+  kind: DecoderKind
+  /** Channel ids by role: rx | sda, scl | sck, mosi, miso, cs | pwm */
+  lines: Record<string, string>
+  baud: number
+  spiMode: number
+}
+
+const DECODER_LINES: Record<DecoderKind, Array<{ role: string; optional?: boolean }>> = {
+  uart: [{ role: 'rx' }],
+  i2c: [{ role: 'sda' }, { role: 'scl' }],
+  spi: [{ role: 'sck' }, { role: 'mosi', optional: true }, { role: 'miso', optional: true }, { role: 'cs', optional: true }],
+  servo: [{ role: 'pwm' }],
+}
+const DECODER_LABELS: Record<DecoderKind, string> = { uart: 'UART', i2c: 'I2C', spi: 'SPI', servo: 'Servo' }
+const BAUD_RATES = [300, 1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200]
+
+const MAX_CHANNELS = 8
+const TRACE_COLORS = ['#4ade80', '#facc15', '#22d3ee', '#e879f9', '#fb923c', '#60a5fa', '#f87171', '#a3e635']
+const SCREEN_W = 360
+const ROW_H = 22
+const DECODE_ROW_H = 18
+/** Where a trigger edge sits on screen, as a fraction of the window. */
+const TRIGGER_POSITION = 0.1
+const POLL_INTERVAL_MS = 100
+
+function formatTime(ms: number): string {
+  const abs = Math.abs(ms)
+  if (abs >= 1000) return `${+(ms / 1000).toPrecision(3)} s`
+  if (abs >= 1) return `${+ms.toPrecision(3)} ms`
+  return `${+(ms * 1000).toPrecision(3)} µs`
+}
+
+function pinName(pin: number, moduleType: string): string {
+  if (pin >= 100) return `A${pin - 100}`
+  return moduleType.includes('ESP32') ? `GPIO${pin}` : `D${pin}`
+}
+
+function decode(decoder: Decoder, traces: Map<string, LogicEdge[]>): DecodedSpan[] {
+  const line = (role: string) => (decoder.lines[role] ? traces.get(decoder.lines[role]) ?? null : null)
+  switch (decoder.kind) {
+    case 'uart':
+      return decodeUart(line('rx') ?? [], decoder.baud)
+    case 'i2c':
+      return decodeI2c(line('sda') ?? [], line('scl') ?? [])
+    case 'spi':
+      return decodeSpi(line('sck') ?? [], line('mosi'), line('miso'), { mode: decoder.spiMode, cs: line('cs') ?? undefined })
+    case 'servo':
+      return decodeServo(line('pwm') ?? [])
+  }
+}
+
+/**
+ * Multi-channel logic analyzer over simulated time: microcontroller pins,
+ * watched nets and logic-gate outputs as digital traces, with an edge
+ * trigger, zoom, and UART/I2C/SPI/servo decoders under the traces.
+ */
+export function LogicAnalyzerPanel({
+  gridData,
+  wires,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: LogicAnalyzerPanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  const isExpanded = hideHeader ? (expandedProp ?? true) : (expandedProp ?? internalExpanded)
+  const [running, setRunning] = useState(true)
+  const [armed, setArmed] = useState(false)
+  const [timebase, setTimebase] = useState(1)
+  const [traces, setTraces] = useState<LogicTrace[]>(() => logicCapture.getTraces())
+  const [viewEnd, setViewEnd] = useState(() => logicCapture.now())
+  const [channels, setChannels] = useState<string[]>([])
+  const [pendingChannel, setPendingChannel] = useState('')
+  const [triggerChannel, setTriggerChannel] = useState('')
+  const [triggerEdge, setTriggerEdge] = useState<LogicTriggerEdge | 'off'>('off')
+  const [decoders, setDecoders] = useState<Decoder[]>([])
+  const [pendingDecoder, setPendingDecoder] = useState<DecoderKind>('uart')
+
+  const span = timebase * LOGIC_DIVISIONS
+
+  const names = useMemo(() => {
+    const labels = new Map<string, { name: string; moduleType: string }>()
+    getPlacedComponents(gridData).forEach((c) => {
+      labels.set(c.componentId, {
+        name: `${c.moduleDefinition?.module ?? 'Part'} (${c.baseX}, ${c.baseY})`,
+        moduleType: c.moduleDefinition?.module ?? '',
+      })
+    })
+    return labels
+  }, [gridData])
+
+  const netProbes = useMemo(() => {
+    if (!isExpanded) return []
+    const { posToNet, groundNet } = buildNets(gridData, wires)
+    return listVoltageProbePoints(gridData, posToNet, groundNet)
+  }, [gridData, wires, isExpanded])
+
+  const labelFor = (id: string, source?: LogicChannelSource): string => {
+    if (id.startsWith('net:')) {
+      const key = id.slice(4)
+      return netProbes.find((probe) => probe.key === key)?.label ?? `Net at ${key}`
+    }
+    if (source?.kind === 'gpio') {
+      const part = names.get(source.componentId)
+      return `${part?.name ?? source.componentId} ${pinName(source.pin, part?.moduleType ?? '')}`
+    }
+    if (source?.kind === 'gate') return `${source.chipId} gate ${source.gate + 1} (${names.get(source.componentId)?.name ?? source.componentId})`
+    return id
+  }
+
+  const traceMap = useMemo(() => new Map(traces.map((trace) => [trace.id, trace.edges])), [traces])
+  const sources = useMemo(() => new Map(traces.map((trace) => [trace.id, trace.source])), [traces])
+
+  const available = useMemo(() => {
+    const options = traces
+      .filter((trace) => trace.source.kind !== 'net')
+      .map((trace) => ({ id: trace.id, label: labelFor(trace.id, trace.source) }))
+    netProbes.forEach((probe) => options.push({ id: `net:${probe.key}`, label: `Net: ${probe.label}` }))
+    return options.filter((option) => !channels.includes(option.id)).sort((a, b) => a.label.localeCompare(b.label))
+  }, [traces, netProbes, channels, names])
+
+  // Nets are only recorded while a channel shows them.
+  useEffect(() => {
+    logicCapture.watchNets(channels.filter((id) => id.startsWith('net:')).map((id) => id.slice(4)))
+  }, [channels])
+
+  // Once channels are set up, recording carries on while the tab is hidden; only the redraw pauses.
+  const recording = running && (isExpanded || channels.length > 0)
+  useEffect(() => {
+    if (!recording) return
+    logicCapture.start()
+    return () => logicCapture.stop()
+  }, [recording])
+
+  useEffect(() => {
+    if (!isExpanded || !running) return
+    let version = -1
+    const poll = () => {
+      const now = logicCapture.now()
+      if (logicCapture.getVersion() !== version) {
+        version = logicCapture.getVersion()
+        setTraces(logicCapture.getTraces())
+      }
+      setViewEnd(now)
+    }
+    poll()
+    const timer = window.setInterval(poll, POLL_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [isExpanded, running])
+
+  const triggerEdges = triggerEdge !== 'off' ? traceMap.get(triggerChannel) : undefined
+  const armedAt = useMemo(() => (armed ? logicCapture.now() : 0), [armed])
+
+  // Single shot: freeze on the first trigger edge after arming.
+  useEffect(() => {
+    if (!armed || !triggerEdges || triggerEdge === 'off') return
+    const hit = findTriggerAfter(triggerEdges, triggerEdge, armedAt)
+    if (hit === null || viewEnd < hit + span * (1 - TRIGGER_POSITION)) return
+    setArmed(false)
+    setRunning(false)
+    setViewEnd(hit + span * (1 - TRIGGER_POSITION))
+  }, [armed, armedAt, triggerEdges, triggerEdge, viewEnd, span])
+
+  const windowEnd = useMemo(() => {
+    if (!running || !triggerEdges || triggerEdge === 'off' || armed) return viewEnd
+    const hit = findTrigger(triggerEdges, triggerEdge, viewEnd - span * (1 - TRIGGER_POSITION))
+    return hit === null ? viewEnd : hit + span * (1 - TRIGGER_POSITION)
+  }, [running, triggerEdges, triggerEdge, armed, viewEnd, span])
+  const windowStart = windowEnd - span
+
+  const captureStart = useMemo(
+    () => traces.reduce((min, trace) => Math.min(min, trace.edges[0]?.t ?? Infinity), Infinity),
+    [traces]
+  )
+  const triggerWaiting = running && triggerEdge !== 'off' && (!triggerEdges || armed || windowEnd === viewEnd)
+
+  const decoded = useMemo(
+    () =>
+      decoders.map((decoder) =>
+        decode(decoder, traceMap).filter((spanItem) => spanItem.end >= windowStart && spanItem.start <= windowEnd)
+      ),
+    [decoders, traceMap, windowStart, windowEnd]
+  )
+
+  const xFor = (t: number) => ((t - windowStart) / span) * SCREEN_W
+  const screenH = channels.length * ROW_H + decoders.length * DECODE_ROW_H
+
+  const tracePath = (edges: LogicEdge[], row: number): string => {
+    const { initial, edges: inside } = edgesInWindow(edges, windowStart, windowEnd)
+    const yHigh = row * ROW_H + 4
+    const yLow = row * ROW_H + ROW_H - 4
+    const y = (level: boolean) => (level ? yHigh : yLow)
+    if (edges.length === 0 || edges[0].t > windowEnd) return ''
+    // Nothing is drawn before the channel's first sample or past the present.
+    const startT = Math.max(windowStart, edges[0].t)
+    const lastT = Math.min(windowEnd, Math.max(viewEnd, edges[edges.length - 1].t))
+    let level = edges[0].t > windowStart ? edges[0].level : initial
+    let d = `M${xFor(startT).toFixed(1)},${y(level)}`
+    for (const edge of inside) {
+      if (edge.level === level) continue
+      const x = xFor(edge.t).toFixed(1)
+      d += ` H${x} V${y(edge.level)}`
+      level = edge.level
+    }
+    return `${d} H${xFor(lastT).toFixed(1)}`
+  }
+
+  const addChannel = () => {
+    if (!pendingChannel || channels.length >= MAX_CHANNELS) return
+    setChannels((list) => [...list, pendingChannel])
+    if (!triggerChannel) setTriggerChannel(pendingChannel)
+    setPendingChannel('')
+  }
+
+  const removeChannel = (id: string) => {
+    setChannels((list) => list.filter((c) => c !== id))
+    setDecoders((list) =>
+      list.map((decoder) => ({
+        ...decoder,
+        lines: Object.fromEntries(Object.entries(decoder.lines).filter(([, channel]) => channel !== id)),
+      }))
+    )
+    if (triggerChannel === id) setTriggerChannel('')
+  }
+
+  const addDecoder = () => {
+    const lines: Record<string, string> = {}
+    DECODER_LINES[pendingDecoder].forEach(({ role, optional }, i) => {
+      if (!optional && channels[i]) lines[role] = channels[i]
+    })
+    setDecoders((list) => [...list, { id: Date.now(), kind: pendingDecoder, lines, baud: 9600, spiMode: 0 }])
+  }
+
+  const updateDecoder = (id: number, patch: Partial<Decoder>) =>
+    setDecoders((list) => list.map((decoder) => (decoder.id === id ? { ...decoder, ...patch } : decoder)))
+
+  const zoom = (step: number) => {
+    const index = LOGIC_TIMEBASES_MS.indexOf(timebase) + step
+    if (index >= 0 && index < LOGIC_TIMEBASES_MS.length) setTimebase(LOGIC_TIMEBASES_MS[index])
+  }
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  const selectClass =
+    'w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 outline-none focus:border-primary-400 dark:border-white/10 dark:bg-black/30 dark:text-zinc-100'
+  const labelClass = 'mb-1 block text-[10px] font-medium uppercase tracking-wide text-gray-500 dark:text-zinc-500'
+  const iconButtonClass =
+    'rounded p-1 text-gray-500 hover:text-gray-700 disabled:opacity-40 dark:text-zinc-400 dark:hover:text-zinc-200'
+
+  return (
+    <aside
+      className={`logic-analyzer-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Logic analyzer"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-emerald-400/15">
+              <Binary className="h-4 w-4 text-emerald-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">Logic Analyzer</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">
+                {channels.length === 0 ? 'No channels' : `${channels.length} channel${channels.length === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(60vh,560px)] overflow-y-auto'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setArmed(false)
+                  setRunning((r) => !r)
+                }}
+                className={`inline-flex items-center gap-1 rounded-md px-2.5 py-1.5 text-xs font-medium transition-colors ${
+                  running
+                    ? 'bg-emerald-500/15 text-emerald-700 hover:bg-emerald-500/25 dark:text-emerald-300'
+                    : 'bg-red-500/15 text-red-700 hover:bg-red-500/25 dark:text-red-300'
+                }`}
+              >
+                {running ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                {running ? 'Run' : 'Stop'}
+              </button>
+              <button
+                type="button"
+                disabled={triggerEdge === 'off' || !triggerChannel}
+                onClick={() => {
+                  setRunning(true)
+                  setArmed(true)
+                }}
+                className="rounded-md px-2.5 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 disabled:opacity-40 dark:text-zinc-400 dark:hover:bg-white/5"
+                title="Stop on the next trigger edge"
+              >
+                Single
+              </button>
+              <button type="button" onClick={() => logicCapture.clear()} className={iconButtonClass} title="Clear capture">
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+              <div className="ml-auto flex items-center gap-1">
+                <button type="button" onClick={() => zoom(-1)} className={iconButtonClass} title="Zoom in">
+                  <ZoomIn className="h-3.5 w-3.5" />
+                </button>
+                <select
+                  value={timebase}
+                  onChange={(e) => setTimebase(Number(e.target.value))}
+                  className={`${selectClass} w-24`}
+                  aria-label="Timebase"
+                >
+                  {LOGIC_TIMEBASES_MS.map((t) => (
+                    <option key={t} value={t}>
+                      {formatTime(t)}/div
+                    </option>
+                  ))}
+                </select>
+                <button type="button" onClick={() => zoom(1)} className={iconButtonClass} title="Zoom out">
+                  <ZoomOut className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-hidden rounded-lg border border-gray-300 bg-zinc-950 dark:border-white/10">
+              {channels.length === 0 ? (
+                <p className="px-3 py-6 text-center text-xs text-zinc-500">Add a pin, net or gate output to start capturing.</p>
+              ) : (
+                <svg viewBox={`0 0 ${SCREEN_W} ${screenH}`} className="block w-full" role="img" aria-label="Logic traces">
+                  {Array.from({ length: LOGIC_DIVISIONS + 1 }, (_, i) => (
+                    <line
+                      key={`v${i}`}
+                      x1={(i * SCREEN_W) / LOGIC_DIVISIONS}
+                      x2={(i * SCREEN_W) / LOGIC_DIVISIONS}
+                      y1={0}
+                      y2={screenH}
+                      stroke="#3f3f46"
+                      strokeWidth={0.5}
+                    />
+                  ))}
+                  {channels.map((id, row) => (
+                    <g key={id}>
+                      <line x1={0} x2={SCREEN_W} y1={(row + 1) * ROW_H} y2={(row + 1) * ROW_H} stroke="#27272a" strokeWidth={0.5} />
+                      <path d={tracePath(traceMap.get(id) ?? [], row)} fill="none" stroke={TRACE_COLORS[row]} strokeWidth={1.25} />
+                      <text x={2} y={row * ROW_H + 10} fill={TRACE_COLORS[row]} fontSize={8}>
+                        {row + 1}
+                      </text>
+                    </g>
+                  ))}
+                  {decoded.map((spans, i) => {
+                    const top = channels.length * ROW_H + i * DECODE_ROW_H
+                    return (
+                      <g key={decoders[i].id}>
+                        {spans.map((item, j) => {
+                          const x1 = Math.max(0, xFor(item.start))
+                          const x2 = Math.min(SCREEN_W, Math.max(xFor(item.end), x1 + 1))
+                          const color = item.error ? '#f87171' : '#a5b4fc'
+                          return (
+                            <g key={j}>
+                              <rect x={x1} y={top + 2} width={x2 - x1} height={DECODE_ROW_H - 4} rx={2} fill={color} fillOpacity={0.18} stroke={color} strokeWidth={0.5} />
+                              {x2 - x1 > 14 && (
+                                <text x={x1 + 2} y={top + DECODE_ROW_H - 6} fill={color} fontSize={7}>
+                                  {item.text}
+                                </text>
+                              )}
+                            </g>
+                          )
+                        })}
+                      </g>
+                    )
+                  })}
+                  {triggerEdge !== 'off' && triggerEdges && !triggerWaiting && (
+                    <line
+                      x1={SCREEN_W * TRIGGER_POSITION}
+                      x2={SCREEN_W * TRIGGER_POSITION}
+                      y1={0}
+                      y2={screenH}
+                      stroke="#f97316"
+                      strokeDasharray="4 3"
+                      strokeWidth={1}
+                    />
+                  )}
+                </svg>
+              )}
+              <div className="flex items-center justify-between px-2 py-1 font-mono text-[10px] text-zinc-400">
+                <span>{formatTime(timebase)}/div</span>
+                <span>
+                  {armed ? 'Armed' : triggerWaiting ? 'Waiting for trigger' : running ? 'Capturing' : 'Stopped'}
+                </span>
+              </div>
+            </div>
+
+            {!running && Number.isFinite(captureStart) && viewEnd - span > captureStart && (
+              <input
+                type="range"
+                min={captureStart + span}
+                max={logicCapture.now()}
+                step={span / 20}
+                value={viewEnd}
+                onChange={(e) => setViewEnd(Number(e.target.value))}
+                className="w-full"
+                aria-label="Scroll through the capture"
+              />
+            )}
+
+            <div>
+              <span className={labelClass}>Channels</span>
+              <ul className="space-y-1">
+                {channels.map((id, row) => (
+                  <li key={id} className="flex items-center gap-2 text-xs text-gray-700 dark:text-zinc-300">
+                    <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: TRACE_COLORS[row] }} />
+                    <span className="min-w-0 flex-1 truncate">
+                      {row + 1}. {labelFor(id, sources.get(id))}
+                    </span>
+                    <button type="button" onClick={() => removeChannel(id)} className={iconButtonClass} title="Remove channel">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {channels.length < MAX_CHANNELS && (
+                <div className="mt-1 flex items-center gap-1">
+                  <select value={pendingChannel} onChange={(e) => setPendingChannel(e.target.value)} className={selectClass}>
+                    <option value="">
+                      {available.length === 0 ? 'Run a microcontroller or wire a net…' : 'Add a channel…'}
+                    </option>
+                    {available.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" onClick={addChannel} disabled={!pendingChannel} className={iconButtonClass} title="Add channel">
+                    <Plus className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Trigger</label>
+                <select value={triggerEdge} onChange={(e) => setTriggerEdge(e.target.value as LogicTriggerEdge | 'off')} className={selectClass}>
+                  <option value="off">Free run</option>
+                  <option value="rising">Rising edge</option>
+                  <option value="falling">Falling edge</option>
+                  <option value="either">Either edge</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>On channel</label>
+                <select
+                  value={triggerChannel}
+                  onChange={(e) => setTriggerChannel(e.target.value)}
+                  className={selectClass}
+                  disabled={triggerEdge === 'off'}
+                >
+                  <option value="">—</option>
+                  {channels.map((id, row) => (
+                    <option key={id} value={id}>
+                      {row + 1}. {labelFor(id, sources.get(id))}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Decoders</span>
+              <div className="space-y-2">
+                {decoders.map((decoder) => (
+                  <div key={decoder.id} className="rounded-md border border-gray-200 p-2 dark:border-white/10">
+                    <div className="mb-1 flex items-center justify-between text-xs font-medium text-gray-700 dark:text-zinc-300">
+                      {DECODER_LABELS[decoder.kind]}
+                      <button
+                        type="button"
+                        onClick={() => setDecoders((list) => list.filter((d) => d.id !== decoder.id))}
+                        className={iconButtonClass}
+                        title="Remove decoder"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1">
+                      {DECODER_LINES[decoder.kind].map(({ role, optional }) => (
+                        <label key={role} className="text-[10px] uppercase text-gray-500 dark:text-zinc-500">
+                          {role}
+                          <select
+                            value={decoder.lines[role] ?? ''}
+                            onChange={(e) => updateDecoder(decoder.id, { lines: { ...decoder.lines, [role]: e.target.value } })}
+                            className={selectClass}
+                          >
+                            <option value="">{optional ? 'None' : '—'}</option>
+                            {channels.map((id, row) => (
+                              <option key={id} value={id}>
+                                {row + 1}. {labelFor(id, sources.get(id))}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                      {decoder.kind === 'uart' && (
+                        <label className="text-[10px] uppercase text-gray-500 dark:text-zinc-500">
+                          Baud
+                          <select
+                            value={decoder.baud}
+                            onChange={(e) => updateDecoder(decoder.id, { baud: Number(e.target.value) })}
+                            className={selectClass}
+                          >
+                            {BAUD_RATES.map((rate) => (
+                              <option key={rate} value={rate}>
+                                {rate}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      {decoder.kind === 'spi' && (
+                        <label className="text-[10px] uppercase text-gray-500 dark:text-zinc-500">
+                          Mode
+                          <select
+                            value={decoder.spiMode}
+                            onChange={(e) => updateDecoder(decoder.id, { spiMode: Number(e.target.value) })}
+                            className={selectClass}
+                          >
+                            {[0, 1, 2, 3].map((mode) => (
+                              <option key={mode} value={mode}>
+                                Mode {mode}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center gap-1">
+                  <select value={pendingDecoder} onChange={(e) => setPendingDecoder(e.target.value as DecoderKind)} className={selectClass}>
+                    {(Object.keys(DECODER_LABELS) as DecoderKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {DECODER_LABELS[kind]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={addDecoder}
+                    disabled={channels.length === 0}
+                    className={iconButtonClass}
+                    title="Add decoder"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -7,8 +7,9 @@ import {
   ChevronRight,
   Code,
   Check,
+  Upload,
 } from 'lucide-react'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { ProjectFolder } from '../types/workspace'
 import { ProjectPreview } from './ProjectPreview'
 import { ProductDefinitionCard, ProductDefinitionModal } from './ProductDefinitionView'
@@ -21,6 +22,8 @@ interface ProjectFolderViewProps {
   onOpenProgram: (programId: string) => void
   onOpenPlanSpace: () => void
   onCreateSchematic: () => void
+  /** Receives the text of a picked .cir / .sp file. */
+  onImportSpice?: (text: string, fileName: string) => void
   onCreateDocument: () => void
   onCreateProgram: () => void
   onDeleteSchematic: (schematicId: string) => void
@@ -37,6 +40,7 @@ export function ProjectFolderView({
   onOpenProgram,
   onOpenPlanSpace,
   onCreateSchematic,
+  onImportSpice,
   onCreateDocument,
   onCreateProgram,
   onDeleteSchematic,
@@ -48,6 +52,7 @@ export function ProjectFolderView({
   const [localName, setLocalName] = useState(folder.name)
   const [localDescription, setLocalDescription] = useState(folder.description ?? '')
   const [productDefOpen, setProductDefOpen] = useState(false)
+  const spiceInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     setLocalName(folder.name)
@@ -136,13 +141,38 @@ export function ProjectFolderView({
               <CircuitBoard className="h-5 w-5 text-primary-500" />
               Schematics
             </h2>
-            <button
-              onClick={onCreateSchematic}
-              className="inline-flex items-center gap-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400"
-            >
-              <Plus className="h-4 w-4" />
-              New Schematic
-            </button>
+            <div className="flex items-center gap-4">
+              {onImportSpice && (
+                <>
+                  <input
+                    ref={spiceInputRef}
+                    type="file"
+                    accept=".cir,.sp,.spice,.net,.txt"
+                    className="hidden"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) onImportSpice(await file.text(), file.name)
+                    }}
+                  />
+                  <button
+                    onClick={() => spiceInputRef.current?.click()}
+                    className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-dark-text-muted dark:hover:text-dark-text-primary"
+                    title="Create a schematic from a SPICE netlist"
+                  >
+                    <Upload className="h-4 w-4" />
+                    Import SPICE
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onCreateSchematic}
+                className="inline-flex items-center gap-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400"
+              >
+                <Plus className="h-4 w-4" />
+                New Schematic
+              </button>
+            </div>
           </div>
 
           {folder.schematics.length === 0 ? (
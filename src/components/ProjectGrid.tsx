@@ -29,6 +29,7 @@ import { isOutputModule } from '../modules/registry'
 import { resolveLogicModule } from '../modules/logicModule'
 import { connectorIsConfigured, isNPinConnectorModule } from '../modules/connectors/buildConnectorDefinition'
 import { getPassiveValueKind } from '../modules/passiveValueKind'
+import { moduleDisplayName } from '../modules/subcircuitModule'
 import {
   applyModuleConfig,
   getModuleConfigKind,
@@ -36,7 +37,22 @@ import {
 } from '../modules/moduleConfigKind'
 import { SchematicGroupBoxLayer } from './SchematicGroupBoxLayer'
 import { SchematicLabelLayer } from './SchematicLabelLayer'
-import { createSchematicGroupBox, createSchematicCellLabel, type SchematicGroupBox, type SchematicCellLabel, type Program, type ProgramFlashAssignment } from '../types/workspace'
+import {
+  emptySchematicHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+  type SchematicHistory,
+} from '../utils/schematicHistory'
+import {
+  copySchematicSelection,
+  findPasteOrigin,
+  pasteSchematicClipboard,
+  type SchematicClipboard,
+} from '../utils/schematicClipboard'
+import { createSchematicGroupBox, createSchematicCellLabel, createSubcircuitBlock, type SchematicGroupBox, type SchematicCellLabel, type Program, type ProgramFlashAssignment, type Schematic, type SubcircuitBlock } from '../types/workspace'
+import { collapseToBlockInstance, componentsInRegion, extractSubcircuit } from '../utils/subcircuitBlocks'
+import { isAtmega328Board } from '../services/avr/ATmega328P'
 import { ResistorBodyLabel } from './ResistorBodyLabel'
 import { CapacitorBodyLabel } from './CapacitorBodyLabel'
 import { ACSourceBodyLabel } from './ACSourceBodyLabel'
@@ -59,6 +75,8 @@ import { OpAmpBodyLabel } from './OpAmpBodyLabel'
 import { BridgeRectifierBodyLabel } from './BridgeRectifierBodyLabel'
 import { getDisplayPin } from '../utils/smdVisual'
 import { resolveCellResistance } from '../utils/resistorVisual'
+import { applyNetLabels } from '../utils/netLabels'
+import { linkSheets, sliceToSheet } from '../utils/multiSheet'
 import { buildHoverStats, resolveInspectPosition, type HoverStats } from '../utils/hoverStats'
 import { applyACSourceProperties, readACSourceSettings } from '../utils/acSourceVisual'
 import {
@@ -112,6 +130,10 @@ interface ProjectGridProps {
   initialComponentStates?: Record<string, any>
   initialGroupBoxes?: SchematicGroupBox[]
   initialLabels?: SchematicCellLabel[]
+  /** Saved stimulus script for the Test Bench tab */
+  initialTestBench?: string
+  /** ERC violations waived on this schematic */
+  initialErcWaivers?: string[]
   /** Switches internal grid state when opening a different schematic. */
   schematicId?: string
   /** Auth0 cloud project id (`proj_*`) — CRDT cloud sync only runs when set. */
@@ -123,6 +145,8 @@ interface ProjectGridProps {
     componentStates?: Record<string, any>
     groupBoxes?: SchematicGroupBox[]
     labels?: SchematicCellLabel[]
+    testBench?: string
+    ercWaivers?: string[]
     hasUnsavedChanges?: boolean
     triggerUnsavedCheck?: boolean
   }) => void
@@ -142,6 +166,11 @@ interface ProjectGridProps {
   onSelectedGroupBoxIdChange?: (id: string | null) => void
   focusGroupBoxRequest?: SchematicGroupBox | null
   onFocusGroupBoxHandled?: () => void
+  /** Collapse the parts inside this group box into a project block. */
+  blockFromGroupBoxRequest?: SchematicGroupBox | null
+  onBlockFromGroupBoxHandled?: () => void
+  /** A selection or region was collapsed into a new project block. */
+  onCreateBlock?: (block: SubcircuitBlock) => void
   labelMode?: boolean
   onLabelModeChange?: (enabled: boolean) => void
   labels?: SchematicCellLabel[]
@@ -149,6 +178,10 @@ interface ProjectGridProps {
   selectedLabelId?: string | null
   onSelectedLabelIdChange?: (id: string | null) => void
   projectPrograms?: Program[]
+  /** The project's schematics; ports join this sheet to them for the solve */
+  projectSheets?: Schematic[]
+  /** A port label was followed to the other sheets carrying the same name */
+  onNavigatePort?: (name: string) => void
   programFlashes?: Record<string, ProgramFlashAssignment>
   /** Bumps when schematic is updated externally (e.g. agent tools) — triggers grid resync. */
   schematicUpdatedAt?: string
@@ -164,6 +197,8 @@ interface ProjectGridProps {
   showExamplesDocs?: boolean
   examplesSchematicId?: string
   examplesSchematicName?: string
+  /** Project requirement the bus analyzer checks wired buses against. */
+  commsProtocol?: string
 }
 
 interface GridCell {
@@ -186,6 +221,14 @@ interface GridCell {
   wiperPosition?: number // Potentiometer wiper 0–1
 }
 
+/** The parts of the document the undo/redo history restores. */
+interface EditorSnapshot {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  groupBoxes: SchematicGroupBox[]
+  labels: SchematicCellLabel[]
+}
+
 interface LastPlacedObject {
   x: number
   y: number
@@ -346,14 +389,21 @@ export function ProjectGrid({
   onSelectedGroupBoxIdChange,
   focusGroupBoxRequest,
   onFocusGroupBoxHandled,
+  blockFromGroupBoxRequest,
+  onBlockFromGroupBoxHandled,
+  onCreateBlock,
   labelMode = false,
   onLabelModeChange,
   initialLabels,
+  initialTestBench,
+  initialErcWaivers,
   labels: controlledLabels,
   onLabelsChange,
   selectedLabelId: externalSelectedLabelId,
   onSelectedLabelIdChange,
   projectPrograms,
+  projectSheets,
+  onNavigatePort,
   programFlashes,
   schematicUpdatedAt,
   schematicSyncKey,
@@ -364,6 +414,7 @@ export function ProjectGrid({
   showExamplesDocs = false,
   examplesSchematicId,
   examplesSchematicName,
+  commsProtocol,
 }: ProjectGridProps) {
   const { wireColorMode } = useTheme()
   const { componentStyle } = useComponentStyle()
@@ -378,7 +429,9 @@ export function ProjectGrid({
     for (const [componentId, assignment] of Object.entries(programFlashes)) {
       const program = projectPrograms.find((p) => p.id === assignment.programId)
       if (program?.code?.trim()) {
-        startMultiMicrocontrollerGPIO(componentId, program.code)
+        const firmware =
+          program.compilation?.success && isAtmega328Board(program.board) ? program.compilation.firmware : undefined
+        startMultiMicrocontrollerGPIO(componentId, program.code, firmware)
         runningIds.add(componentId)
       }
     }
@@ -552,6 +605,12 @@ export function ProjectGrid({
   const lastSyncedAtRef = useRef<string | null>(null)
   const prevAgentBusyRef = useRef(false)
   const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const historyRef = useRef<SchematicHistory<EditorSnapshot>>(emptySchematicHistory())
+  const editorStateRef = useRef<EditorSnapshot | null>(null)
+  const agentBaselineRef = useRef<EditorSnapshot | null>(null)
+  const agentEditedRef = useRef(false)
+  const [selectedComponentIds, setSelectedComponentIds] = useState<Set<string>>(() => new Set())
+  const clipboardRef = useRef<SchematicClipboard<GridCell> | null>(null)
 
   const syncGridFromProps = useCallback(() => {
     if (initialGridData && initialGridData.length > 0) {
@@ -575,21 +634,32 @@ export function ProjectGrid({
   useEffect(() => {
     if (!externalSyncToken || externalSyncToken === lastSyncedAtRef.current) return
     lastSyncedAtRef.current = externalSyncToken
+    if (agentBusy) agentEditedRef.current = true
     if (autosaveTimerRef.current) {
       clearTimeout(autosaveTimerRef.current)
       autosaveTimerRef.current = null
     }
     skipAutosaveRef.current = true
     syncGridFromProps()
-  }, [externalSyncToken, syncGridFromProps])
+  }, [externalSyncToken, syncGridFromProps, agentBusy])
 
   useEffect(() => {
+    if (!prevAgentBusyRef.current && agentBusy) {
+      agentBaselineRef.current = editorStateRef.current
+      agentEditedRef.current = false
+    }
     if (prevAgentBusyRef.current && !agentBusy) {
       if (autosaveTimerRef.current) {
         clearTimeout(autosaveTimerRef.current)
         autosaveTimerRef.current = null
       }
       skipAutosaveRef.current = true
+      // Everything the agent's schematic_* tools did during the run is undone as one step.
+      if (agentEditedRef.current && agentBaselineRef.current) {
+        historyRef.current = recordCommand(historyRef.current, 'Agent edits', agentBaselineRef.current)
+      }
+      agentBaselineRef.current = null
+      agentEditedRef.current = false
       syncGridFromProps()
     }
     prevAgentBusyRef.current = agentBusy
@@ -597,6 +667,16 @@ export function ProjectGrid({
 
   const [internalLabels, setInternalLabels] = useState<SchematicCellLabel[]>(() => initialLabels ?? [])
   const labels = controlledLabels ?? internalLabels
+  // What the solver and analysis panels see: the grid with net labels stamped on (see utils/netLabels)
+  const circuitGrid = useMemo(() => applyNetLabels(gridData, labels), [gridData, labels])
+  // The solve also takes in every sheet this one's ports reach (see utils/multiSheet)
+  const linkedCircuit = useMemo(
+    () => linkSheets({ id: schematicId ?? '', gridData, wires, labels }, projectSheets),
+    [schematicId, gridData, wires, labels, projectSheets]
+  )
+  const [testBench, setTestBench] = useState(() => initialTestBench ?? '')
+  const [ercWaivers, setErcWaivers] = useState<string[]>(() => initialErcWaivers ?? [])
+  const [ercHighlight, setErcHighlight] = useState<Array<{ x: number; y: number }> | null>(null)
   const [internalSelectedLabelId, setInternalSelectedLabelId] = useState<string | null>(null)
   const selectedLabelId = externalSelectedLabelId !== undefined ? externalSelectedLabelId : internalSelectedLabelId
   const setSelectedLabelId = onSelectedLabelIdChange ?? setInternalSelectedLabelId
@@ -604,6 +684,14 @@ export function ProjectGrid({
 
   const isGroupBoxMode = selectedModule?.module === 'Group Box'
 
+  editorStateRef.current = { gridData, wires, groupBoxes, labels }
+
+  /** Call before an editing command mutates the document; see utils/schematicHistory. */
+  const recordHistory = useCallback((label: string, coalesceKey?: string) => {
+    if (!editorStateRef.current) return
+    historyRef.current = recordCommand(historyRef.current, label, editorStateRef.current, { coalesceKey })
+  }, [])
+
   useEffect(() => {
     if (isGroupBoxMode) setHoverState(null)
   }, [isGroupBoxMode])
@@ -652,6 +740,11 @@ export function ProjectGrid({
     }
     setSelectedLabelId(null)
     setEditRequestLabelId(null)
+    setTestBench(initialTestBench ?? '')
+    setErcWaivers(initialErcWaivers ?? [])
+    setErcHighlight(null)
+    historyRef.current = emptySchematicHistory()
+    setSelectedComponentIds(new Set())
   }, [schematicId]) // eslint-disable-line react-hooks/exhaustive-deps
   
   // Simulation state for wire visual feedback
@@ -678,6 +771,8 @@ export function ProjectGrid({
         wires,
         groupBoxes,
         labels,
+        testBench,
+        ercWaivers,
         hasUnsavedChanges: true,
         triggerUnsavedCheck: true
       })
@@ -696,10 +791,12 @@ export function ProjectGrid({
           wires,
           groupBoxes,
           labels,
+          testBench,
+          ercWaivers,
         })
       }, 500) // 500ms debounce to prevent excessive saves
     }
-  }, [gridData, wires, groupBoxes, labels, agentBusy, onProjectDataChange])
+  }, [gridData, wires, groupBoxes, labels, testBench, ercWaivers, agentBusy, onProjectDataChange])
 
   // Clear any pending autosave timer on unmount (the autosave effect above no
   // longer returns a per-render cleanup, so handle unmount explicitly here).
@@ -1261,6 +1358,7 @@ export function ProjectGrid({
           groupBoxDrawPreview.width,
           groupBoxDrawPreview.height
         )
+        recordHistory('Add group box')
         updateGroupBoxes((prev) => [...prev, newBox])
         setSelectedGroupBoxId(newBox.id)
         justFinishedGroupBoxDraw.current = true
@@ -1269,7 +1367,7 @@ export function ProjectGrid({
     }
     setGroupBoxDrawStart(null)
     setGroupBoxDrawPreview(null)
-  }, [groupBoxDrawStart, groupBoxDrawPreview, updateGroupBoxes, setSelectedGroupBoxId, onModuleSelect])
+  }, [groupBoxDrawStart, groupBoxDrawPreview, updateGroupBoxes, setSelectedGroupBoxId, onModuleSelect, recordHistory])
 
   const releaseHeldPushButtons = useCallback(() => {
     setGridData(prev => {
@@ -1486,8 +1584,23 @@ export function ProjectGrid({
   }, [setGridData])
 
   // Handle clicking on placed components
+  const toggleComponentSelection = useCallback((componentId: string) => {
+    setSelectedComponentIds(prev => {
+      const next = new Set(prev)
+      if (next.has(componentId)) next.delete(componentId)
+      else next.add(componentId)
+      return next
+    })
+  }, [])
+
   const handleComponentClick = useCallback((e: React.MouseEvent, componentId: string, cellIndex: number) => {
     e.stopPropagation() // Prevent grid click from firing
+
+    // Shift+click adds/removes the part from the multi-selection instead of operating it
+    if (e.shiftKey && !selectedModule && !deleteMode) {
+      toggleComponentSelection(componentId)
+      return
+    }
     
     const cell = gridData.find(row => row.find(c => c.componentId === componentId))
     if (!cell) return
@@ -1507,7 +1620,7 @@ export function ProjectGrid({
     if (module.behavior?.onClick) {
       executeComponentBehavior(module.behavior.onClick, componentId, cellIndex)
     }
-  }, [executeComponentBehavior])
+  }, [executeComponentBehavior, toggleComponentSelection, selectedModule, deleteMode])
 
   const handleComponentMouseDown = useCallback((e: React.MouseEvent, componentId: string, cellIndex: number) => {
     e.stopPropagation()
@@ -1572,11 +1685,12 @@ export function ProjectGrid({
     calcInFlightRef.current = true
 
     try {
-      const result = calculateElectricalFlow(
-        gridData,
-        wires,
+      const solved = calculateElectricalFlow(
+        linkedCircuit.gridData,
+        linkedCircuit.wires,
         simulationState.isRunning ? simulationState.gpioStates : undefined
       )
+      const result = { ...solved, ...sliceToSheet(solved, linkedCircuit, gridData.length) }
 
       
       // The electrical calculation only writes DERIVED power state (isPowered,
@@ -1624,7 +1738,7 @@ export function ProjectGrid({
         requestAnimationFrame(() => performElectricalCalculation())
       }
     }
-  }, [gridData, wires, simulationState.isRunning, simulationState.gpioStates, onCircuitPathwaysChange, onCircuitInfoChange, onWiresChange, onComponentStatesChange])
+  }, [linkedCircuit, gridData.length, simulationState.isRunning, simulationState.gpioStates, onCircuitPathwaysChange, onCircuitInfoChange, onWiresChange, onComponentStatesChange])
 
   // Recalculate continuously while simulation runs; debounce when idle
   useEffect(() => {
@@ -1714,12 +1828,14 @@ export function ProjectGrid({
 
   const handlePowerSupplyUpdate = useCallback(
     (componentId: string, patch: { voltage: number; current: number }) => {
+      recordHistory('Edit power supply', `supply:${componentId}`)
       setGridData((prev) => updatePowerSupplyInGrid(prev, componentId, patch))
     },
-    []
+    [recordHistory]
   )
 
   const deleteComponent = useCallback((componentId: string) => {
+    recordHistory('Delete component')
     setGridData(prev => {
       const newGrid = [...prev]
       let hasChanges = false
@@ -1760,7 +1876,7 @@ export function ProjectGrid({
     
     // Delete connected wires
     deleteWiresConnectedToComponent(componentId)
-  }, [])
+  }, [recordHistory])
 
   const deleteWiresConnectedToComponent = useCallback((componentId: string) => {
     setWires(prev => {
@@ -1776,8 +1892,9 @@ export function ProjectGrid({
   }, [gridData])
 
   const deleteWire = useCallback((wireId: string) => {
+    recordHistory('Delete wire')
     setWires(prev => prev.filter(wire => wire.id !== wireId))
-  }, [])
+  }, [recordHistory])
 
 
   // Merge connected wires into networks while preserving parent-child relationships
@@ -2102,6 +2219,7 @@ export function ProjectGrid({
       })
     }
     
+    recordHistory(existingWire ? 'Extend wire' : 'Add wire')
     setWires(prev => {
       console.log('🔍 Setting wires, previous count:', prev.length)
       if (existingWire) {
@@ -2125,7 +2243,7 @@ export function ProjectGrid({
     
     setWiringState({ isWiring: false, currentConnection: null })
     setWirePreview(null)
-  }, [wiringState.currentConnection, gridData, cancelWiring, mergeConnectedWires, snapToNearestConnectionPoint])
+  }, [wiringState.currentConnection, gridData, cancelWiring, mergeConnectedWires, snapToNearestConnectionPoint, recordHistory])
 
   // Handle click to place module or wire
   const handleGridClick = useCallback((e: React.MouseEvent) => {
@@ -2147,6 +2265,7 @@ export function ProjectGrid({
         setEditRequestLabelId(existing.id)
       } else {
         const newLabel = createSchematicCellLabel(x, y)
+        recordHistory('Add label')
         updateLabels((prev) => [...prev, newLabel])
         setSelectedLabelId(newLabel.id)
         setEditRequestLabelId(newLabel.id)
@@ -2158,6 +2277,7 @@ export function ProjectGrid({
     if (deleteMode) {
       const labelAt = labels.find((label) => label.x === x && label.y === y)
       if (labelAt) {
+        recordHistory('Delete label')
         updateLabels((prev) => prev.filter((label) => label.id !== labelAt.id))
         if (selectedLabelId === labelAt.id) setSelectedLabelId(null)
         return
@@ -2173,6 +2293,14 @@ export function ProjectGrid({
     const isConnection = isConnectionPoint(x, y)
     const wireAtPosition = getWirePassingThrough(x, y)
     
+    // Shift+click builds a multi-selection for copy/cut/duplicate; a plain click clears it
+    if (e.shiftKey && !wiringState.isWiring && !selectedModule) {
+      const target = gridData[y]?.[x]
+      if (target?.occupied && target.componentId) toggleComponentSelection(target.componentId)
+      return
+    }
+    if (selectedComponentIds.size > 0) setSelectedComponentIds(new Set())
+
     // Handle wiring mode
     if (wiringState.isWiring) {
       const wireCoords = screenToGridCoords(e.clientX, e.clientY, 'wire')
@@ -2251,6 +2379,8 @@ export function ProjectGrid({
       
       if (isValid) {
         
+        recordHistory(`Place ${moduleDisplayName(selectedModule)}`)
+
         // Check if we need to expand the grid for this placement
         checkAndExpandForPlacement(centeredX, centeredY, selectedModule.gridX, selectedModule.gridY)
         
@@ -2372,7 +2502,7 @@ export function ProjectGrid({
     } else if (!wiringState.isWiring && !deleteMode && !labelMode) {
       setSelectedGroupBoxId(null)
     }
-  }, [selectedModule, gridSize.width, gridSize.height, onModuleSelect, wiringState, addWireSegment, finishWiringWithValidation, startWiring, isConnectionPoint, snapToNearestConnectionPoint, screenToGridCoords, checkAndExpandForPlacement, deleteMode, labelMode, gridData, setSelectedGroupBoxId, labels, updateLabels, setSelectedLabelId, selectedLabelId, showWorkspacePanels, liveMonitorExpanded, emitHoverStats, wires, componentStates])
+  }, [selectedModule, gridSize.width, gridSize.height, onModuleSelect, wiringState, addWireSegment, finishWiringWithValidation, startWiring, isConnectionPoint, snapToNearestConnectionPoint, screenToGridCoords, checkAndExpandForPlacement, deleteMode, labelMode, gridData, setSelectedGroupBoxId, labels, updateLabels, setSelectedLabelId, selectedLabelId, showWorkspacePanels, liveMonitorExpanded, emitHoverStats, wires, componentStates, recordHistory, toggleComponentSelection, selectedComponentIds])
 
   // Handle mouse leave to clear hover state
   const handleMouseLeave = useCallback(() => {
@@ -2391,6 +2521,174 @@ export function ProjectGrid({
   }, [onHoveredPositionChange, emitHoverStats, liveMonitorExpanded, gridData, wires, componentStates])
 
 
+  const restoreSnapshot = useCallback((snapshot: EditorSnapshot) => {
+    cancelWiring()
+    setGridData(snapshot.gridData)
+    setGridSize({ width: snapshot.gridData[0]?.length ?? 50, height: snapshot.gridData.length })
+    setLastPlacedObject(findLastPlacedFromGrid(snapshot.gridData))
+    setWires(snapshot.wires)
+    updateGroupBoxes(snapshot.groupBoxes)
+    updateLabels(snapshot.labels)
+    setSelectedGroupBoxId(null)
+    setSelectedLabelId(null)
+  }, [cancelWiring, updateGroupBoxes, updateLabels, setSelectedGroupBoxId, setSelectedLabelId])
+
+  const undo = useCallback(() => {
+    if (agentBusy || !editorStateRef.current) return
+    const step = undoCommand(historyRef.current, editorStateRef.current)
+    if (!step) return
+    historyRef.current = step.history
+    restoreSnapshot(step.snapshot)
+  }, [agentBusy, restoreSnapshot])
+
+  const redo = useCallback(() => {
+    if (agentBusy || !editorStateRef.current) return
+    const step = redoCommand(historyRef.current, editorStateRef.current)
+    if (!step) return
+    historyRef.current = step.history
+    restoreSnapshot(step.snapshot)
+  }, [agentBusy, restoreSnapshot])
+
+  // Wire colour/gauge edits from the device panel
+  const handleWiresEdit = useCallback((next: WireConnection[]) => {
+    recordHistory('Edit wires')
+    setWires(next)
+  }, [recordHistory])
+
+  const pasteClipboardAt = useCallback((clipboard: SchematicClipboard<GridCell>, preferred: { x: number; y: number }, label: string) => {
+    const origin = findPasteOrigin(gridData, wires, clipboard, preferred)
+    if (!origin) {
+      console.warn('⚠️ ProjectGrid: no free space on the grid for the pasted selection')
+      return
+    }
+    recordHistory(label)
+    const result = pasteSchematicClipboard(gridData, wires, clipboard, origin)
+    setGridData(result.gridData)
+    setWires(result.wires)
+    setSelectedComponentIds(new Set(result.componentIds))
+  }, [gridData, wires, recordHistory])
+
+  const copySelection = useCallback(() => {
+    const clipboard = copySchematicSelection(gridData, wires, selectedComponentIds)
+    if (clipboard) clipboardRef.current = clipboard
+    return clipboard
+  }, [gridData, wires, selectedComponentIds])
+
+  const cutSelection = useCallback(() => {
+    if (!copySelection()) return
+    recordHistory('Cut')
+    const removed = selectedComponentIds
+    setGridData(prev => prev.map(row => row.some(cell => cell?.componentId && removed.has(cell.componentId))
+      ? row.map(cell => cell?.componentId && removed.has(cell.componentId)
+        ? {
+            ...cell,
+            occupied: false,
+            componentId: undefined,
+            componentType: undefined,
+            moduleDefinition: undefined,
+            isPowered: false,
+            cellIndex: undefined,
+            isClickable: false
+          }
+        : cell)
+      : row))
+    // Same rule as deleting a single part: wires touching a removed part go with it
+    setWires(prev => prev.filter(wire => !wire.segments.some(segment => {
+      const cell = gridData[segment.from.y]?.[segment.from.x] || gridData[segment.to.y]?.[segment.to.x]
+      return cell?.componentId !== undefined && removed.has(cell.componentId)
+    })))
+    setSelectedComponentIds(new Set())
+  }, [copySelection, recordHistory, selectedComponentIds, gridData])
+
+  const pasteFromClipboard = useCallback(() => {
+    const clipboard = clipboardRef.current
+    if (!clipboard) return
+    const preferred = hoverCellRef.current ?? { x: clipboard.origin.x + clipboard.width + 1, y: clipboard.origin.y }
+    pasteClipboardAt(clipboard, preferred, 'Paste')
+  }, [pasteClipboardAt])
+
+  const duplicateSelection = useCallback(() => {
+    const clipboard = copySchematicSelection(gridData, wires, selectedComponentIds)
+    if (!clipboard) return
+    pasteClipboardAt(clipboard, { x: clipboard.origin.x + clipboard.width + 1, y: clipboard.origin.y }, 'Duplicate')
+  }, [gridData, wires, selectedComponentIds, pasteClipboardAt])
+
+  const collapseToBlock = useCallback((componentIds: Iterable<string>, suggestedName: string) => {
+    const extracted = extractSubcircuit(gridData, wires, componentIds, labels)
+    if ('error' in extracted) {
+      console.warn(`⚠️ ProjectGrid: ${extracted.error}`)
+      return
+    }
+    const name = window.prompt('Block name', suggestedName)?.trim()
+    if (!name) return
+    const block = createSubcircuitBlock(name, extracted.content)
+    const collapsed = collapseToBlockInstance(gridData, wires, extracted, block)
+    if ('error' in collapsed) {
+      console.warn(`⚠️ ProjectGrid: ${collapsed.error}`)
+      return
+    }
+    recordHistory('Create block')
+    setGridData(collapsed.gridData)
+    setWires(collapsed.wires)
+    setSelectedComponentIds(new Set([collapsed.instanceId]))
+    onCreateBlock?.(block)
+  }, [gridData, wires, labels, recordHistory, onCreateBlock])
+
+  const collapseSelectionToBlock = useCallback(() => {
+    collapseToBlock(selectedComponentIds, 'Block')
+  }, [collapseToBlock, selectedComponentIds])
+
+  useEffect(() => {
+    if (!blockFromGroupBoxRequest) return
+    onBlockFromGroupBoxHandled?.()
+    const ids = componentsInRegion(gridData, blockFromGroupBoxRequest)
+    if (ids.length === 0) {
+      console.warn('⚠️ ProjectGrid: no parts lie fully inside the region')
+      return
+    }
+    collapseToBlock(ids, blockFromGroupBoxRequest.title || 'Block')
+  }, [blockFromGroupBoxRequest, onBlockFromGroupBoxHandled, gridData, collapseToBlock])
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (text fields keep their own undo);
+  // Ctrl/Cmd+C/X/V/D copy, cut, paste and duplicate the Shift+click selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+      if (e.key === 'Escape' && selectedComponentIds.size > 0) {
+        setSelectedComponentIds(new Set())
+        return
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || agentBusy) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      } else if (key === 'c' && selectedComponentIds.size > 0) {
+        e.preventDefault()
+        copySelection()
+      } else if (key === 'x' && selectedComponentIds.size > 0) {
+        e.preventDefault()
+        cutSelection()
+      } else if (key === 'v' && clipboardRef.current) {
+        e.preventDefault()
+        pasteFromClipboard()
+      } else if (key === 'd' && selectedComponentIds.size > 0) {
+        e.preventDefault()
+        duplicateSelection()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [undo, redo, copySelection, cutSelection, pasteFromClipboard, duplicateSelection, selectedComponentIds, agentBusy])
+
   // Handle ESC key to cancel wiring and close color picker
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -2547,6 +2845,30 @@ export function ProjectGrid({
     )
   }, [hoverState, selectedModule, gridData, wires, gridSize.width, gridSize.height])
 
+  const selectionOutlines = useMemo(() => {
+    if (selectedComponentIds.size === 0) return []
+    const bounds = new Map<string, { minX: number; minY: number; maxX: number; maxY: number }>()
+    gridData.forEach((row, y) => row?.forEach((cell, x) => {
+      if (!cell?.occupied || !cell.componentId || !selectedComponentIds.has(cell.componentId)) return
+      const b = bounds.get(cell.componentId)
+      if (b) {
+        b.minX = Math.min(b.minX, x)
+        b.minY = Math.min(b.minY, y)
+        b.maxX = Math.max(b.maxX, x)
+        b.maxY = Math.max(b.maxY, y)
+      } else {
+        bounds.set(cell.componentId, { minX: x, minY: y, maxX: x, maxY: y })
+      }
+    }))
+    return Array.from(bounds, ([componentId, b]) => ({
+      componentId,
+      x: b.minX,
+      y: b.minY,
+      width: b.maxX - b.minX + 1,
+      height: b.maxY - b.minY + 1,
+    }))
+  }, [gridData, selectedComponentIds])
+
   const showCursorHover =
     Boolean(hoveredTile) &&
     !deleteMode &&
@@ -3587,11 +3909,13 @@ const GridCell = React.memo(({
           cellSizePx={cellSizePx}
           onSelect={setSelectedGroupBoxId}
           onUpdate={(id, patch) => {
+            recordHistory('Edit group box', `groupBox:${id}`)
             updateGroupBoxes((prev) =>
               prev.map((box) => (box.id === id ? { ...box, ...patch } : box))
             )
           }}
           onDelete={(id) => {
+            recordHistory('Delete group box')
             updateGroupBoxes((prev) => prev.filter((box) => box.id !== id))
             if (selectedGroupBoxId === id) setSelectedGroupBoxId(null)
           }}
@@ -3641,15 +3965,18 @@ const GridCell = React.memo(({
           editRequestId={editRequestLabelId}
           onSelect={setSelectedLabelId}
           onUpdate={(id, patch) => {
+            recordHistory('Edit label', `label:${id}`)
             updateLabels((prev) =>
               prev.map((label) => (label.id === id ? { ...label, ...patch } : label))
             )
           }}
           onDelete={(id) => {
+            recordHistory('Delete label')
             updateLabels((prev) => prev.filter((label) => label.id !== id))
             if (selectedLabelId === id) setSelectedLabelId(null)
           }}
           onEditRequestHandled={() => setEditRequestLabelId(null)}
+          onNavigatePort={onNavigatePort ? (label) => onNavigatePort(label.text.trim()) : undefined}
         />
       </div>
 
@@ -3675,6 +4002,32 @@ const GridCell = React.memo(({
             }}
           />
         )}
+        {ercHighlight?.map(({ x, y }) => (
+          <div
+            key={`erc-${x}-${y}`}
+            data-erc-highlight
+            className="absolute animate-pulse border-2 border-red-500 bg-red-400/25 shadow-[inset_0_0_0_1px_rgb(239,68,68,0.4)]"
+            style={{
+              left: `${x * 2.5}vw`,
+              top: `${y * 2.5}vw`,
+              width: '2.5vw',
+              height: '2.5vw',
+            }}
+          />
+        ))}
+        {selectionOutlines.map((box) => (
+          <div
+            key={box.componentId}
+            data-selected-component
+            className="absolute border-2 border-dashed border-blue-500 bg-blue-400/15"
+            style={{
+              left: `${box.x * 2.5}vw`,
+              top: `${box.y * 2.5}vw`,
+              width: `${box.width * 2.5}vw`,
+              height: `${box.height * 2.5}vw`,
+            }}
+          />
+        ))}
         {showPlacementPreview && hoverState && selectedModule && (
           <div
             className={`absolute border-2 ${
@@ -3708,13 +4061,30 @@ const GridCell = React.memo(({
         </button>
       )}
 
+      {selectedComponentIds.size > 0 && (
+        <div
+          className="absolute bottom-4 left-1/2 z-workspace-controls flex -translate-x-1/2 items-center gap-3 rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs text-gray-700 shadow-lg dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200"
+          data-control-buttons
+        >
+          <span>{selectedComponentIds.size} selected</span>
+          <button
+            onClick={collapseSelectionToBlock}
+            disabled={agentBusy}
+            className="rounded-md bg-cyan-700 px-2 py-1 font-medium text-white hover:bg-cyan-600 disabled:opacity-40"
+            title="Collapse the selection into a reusable project block"
+          >
+            Save as block
+          </button>
+        </div>
+      )}
+
     </div>
   )
 
   const workspaceFloatingPanels =
     showWorkspacePanels && workspaceOverlay ? (
       <WorkspaceFloatingPanels
-        gridData={gridData}
+        gridData={circuitGrid}
         wires={wires}
         componentStates={componentStates}
         projectPrograms={projectPrograms}
@@ -3722,7 +4092,7 @@ const GridCell = React.memo(({
         onMicrocontrollerHighlight={setHighlightedMicrocontroller}
         onModalStateChange={setIsModalOpen}
         onSimulationStateChange={setSimulationState}
-        onWiresChange={setWires}
+        onWiresChange={handleWiresEdit}
         onUpdatePowerSupply={handlePowerSupplyUpdate}
         onRecenter={() => zoomToCircuit()}
         recenterEnabled={Boolean(computeContentBounds(gridData, wires))}
@@ -3732,6 +4102,13 @@ const GridCell = React.memo(({
         showExamplesDocs={showExamplesDocs}
         examplesSchematicId={examplesSchematicId}
         examplesSchematicName={examplesSchematicName}
+        commsProtocol={commsProtocol}
+        testBench={testBench}
+        onTestBenchChange={setTestBench}
+        gpioStates={simulationState.isRunning ? simulationState.gpioStates : undefined}
+        ercWaivers={ercWaivers}
+        onErcWaiversChange={setErcWaivers}
+        onErcHighlight={setErcHighlight}
       />
     ) : null
 
@@ -3744,7 +4121,10 @@ const GridCell = React.memo(({
     workspaceOverlay ? (
       <InteractiveControlsPanel
         gridData={gridData}
-        onGridPatch={(next) => setGridData(next as typeof gridData)}
+        onGridPatch={(next, componentId) => {
+          recordHistory('Adjust control', `control:${componentId}`)
+          setGridData(next as typeof gridData)
+        }}
         containerRef={workspaceOverlay}
       />
     ) : null
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { createPortal } from 'react-dom'
-import { Download, FileDown, Loader2, Network, X, AlertTriangle } from 'lucide-react'
+import { Download, FileCode, FileDown, Loader2, Network, X, AlertTriangle } from 'lucide-react'
 import type { Schematic } from '../types/workspace'
 import { collectSchematicExport } from '../services/schematicExport/collectSchematic'
 import {
@@ -10,6 +10,7 @@ import {
   previewSchematicExport,
   type SchematicSymbolPreview,
 } from '../services/schematicExport/api'
+import { buildSpiceNetlist, downloadSpiceNetlist } from '../services/schematicExport/spiceNetlist'
 
 interface SchematicExportModalProps {
   open: boolean
@@ -24,7 +25,7 @@ export function SchematicExportModal({ open, onClose, schematic, projectName }:
   const [error, setError] = useState<string | null>(null)
   const [parts, setParts] = useState<SchematicSymbolPreview[]>([])
 
-  const { components, wires } = useMemo(() => collectSchematicExport(schematic), [schematic])
+  const { components, wires, netLabels } = useMemo(() => collectSchematicExport(schematic), [schematic])
 
   const loadPreview = useCallback(async () => {
     if (!open || components.length === 0) {
@@ -54,8 +55,8 @@ export function SchematicExportModal({ open, onClose, schematic, projectName }:
     setError(null)
     try {
       if (kind === 'symbols') await downloadSymbolZip(projectName, components)
-      else if (kind === 'wiring-svg') await downloadWiringSvg(projectName, components, wires)
-      else await downloadWiringPdf(projectName, components, wires)
+      else if (kind === 'wiring-svg') await downloadWiringSvg(projectName, components, wires, netLabels)
+      else await downloadWiringPdf(projectName, components, wires, netLabels)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Export failed')
     } finally {
@@ -63,6 +64,13 @@ export function SchematicExportModal({ open, onClose, schematic, projectName }:
     }
   }
 
+  const exportSpice = () => {
+    if (!schematic) return
+    const { netlist, warnings } = buildSpiceNetlist(schematic)
+    downloadSpiceNetlist(projectName, netlist)
+    setError(warnings.length > 0 ? `SPICE netlist: ${warnings.join('; ')}` : null)
+  }
+
   if (!open) return null
 
   return createPortal(
@@ -137,6 +145,15 @@ export function SchematicExportModal({ open, onClose, schematic, projectName }:
           >
             Cancel
           </button>
+          <button
+            type="button"
+            onClick={exportSpice}
+            disabled={!!exporting || components.length === 0}
+            className="inline-flex items-center gap-2 rounded-lg border border-white/15 px-4 py-2 text-sm text-gray-100 transition-colors hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <FileCode className="h-4 w-4" />
+            SPICE .cir
+          </button>
           <button
             type="button"
             onClick={() => void runExport('symbols')}
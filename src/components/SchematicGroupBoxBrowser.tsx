@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { ChevronDown, ChevronRight, Focus, Trash2, Box } from 'lucide-react'
+import { ChevronDown, ChevronRight, Focus, Trash2, Box, Boxes } from 'lucide-react'
 import type { SchematicGroupBox } from '../types/workspace'
 import { GROUP_BOX_COLOR_PRESETS } from '../types/workspace'
 
@@ -10,6 +10,8 @@ interface SchematicGroupBoxBrowserProps {
   onUpdate: (id: string, patch: Partial<SchematicGroupBox>) => void
   onDelete: (id: string) => void
   onFocus: (box: SchematicGroupBox) => void
+  /** Collapse the parts inside the region into a project block. */
+  onCreateBlock?: (box: SchematicGroupBox) => void
 }
 
 export function SchematicGroupBoxBrowser({
@@ -19,6 +21,7 @@ export function SchematicGroupBoxBrowser({
   onUpdate,
   onDelete,
   onFocus,
+  onCreateBlock,
 }: SchematicGroupBoxBrowserProps) {
   const [expanded, setExpanded] = useState(true)
 
@@ -83,6 +86,19 @@ export function SchematicGroupBoxBrowser({
                     >
                       <Focus className="h-3.5 w-3.5" />
                     </button>
+                    {onCreateBlock && (
+                      <button
+                        type="button"
+                        title="Save region as block"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onCreateBlock(box)
+                        }}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-dark-card text-gray-500"
+                      >
+                        <Boxes className="h-3.5 w-3.5" />
+                      </button>
+                    )}
                     <button
                       type="button"
                       title="Delete region"
@@ -1,5 +1,6 @@
 import React, { useCallback, useEffect, useState } from 'react'
-import type { SchematicCellLabel } from '../types/workspace'
+import type { SchematicCellLabel, SchematicLabelKind } from '../types/workspace'
+import { POWER_FLAG_NAMES } from '../utils/netLabels'
 
 const CELL_VW = 2.5
 
@@ -13,6 +14,33 @@ interface SchematicLabelLayerProps {
   onUpdate: (id: string, patch: Partial<SchematicCellLabel>) => void
   onDelete: (id: string) => void
   onEditRequestHandled: () => void
+  /** Follow a port to the other sheets carrying its name */
+  onNavigatePort?: (label: SchematicCellLabel) => void
+}
+
+const KIND_OPTIONS: Array<{ kind: SchematicLabelKind; title: string; hint: string }> = [
+  { kind: 'text', title: 'Text', hint: 'Annotation only' },
+  { kind: 'net', title: 'Net', hint: 'Joins every cell with the same net name' },
+  { kind: 'power', title: 'Power', hint: 'Power flag: VCC, GND, 3V3… join by name' },
+  { kind: 'port', title: 'Port', hint: "Joins the same-named port on the project's other sheets" },
+]
+
+/** Chip styling per kind; net labels and power flags read as connections, not notes. */
+function chipClass(label: SchematicCellLabel): string {
+  if (label.kind === 'port') return 'bg-emerald-100 text-emerald-800 ring-1 ring-emerald-500 dark:bg-emerald-900/60 dark:text-emerald-100'
+  if (label.kind === 'net') return 'bg-violet-100 text-violet-800 ring-1 ring-violet-400 dark:bg-violet-900/60 dark:text-violet-100'
+  if (label.kind === 'power') {
+    return label.text.trim() === 'GND'
+      ? 'bg-sky-100 text-sky-800 ring-1 ring-sky-400 dark:bg-sky-900/60 dark:text-sky-100'
+      : 'bg-red-100 text-red-800 ring-1 ring-red-400 dark:bg-red-900/60 dark:text-red-100'
+  }
+  return 'bg-white/85 text-gray-800 dark:bg-dark-surface/90 dark:text-gray-100'
+}
+
+function chipText(label: SchematicCellLabel): string {
+  if (label.kind === 'port') return `⇄ ${label.text}`
+  if (label.kind !== 'power') return label.text
+  return `${label.text.trim() === 'GND' ? '⏚' : '▲'} ${label.text}`
 }
 
 function labelStyle(label: SchematicCellLabel) {
@@ -34,6 +62,7 @@ export function SchematicLabelLayer({
   onUpdate,
   onDelete,
   onEditRequestHandled,
+  onNavigatePort,
 }: SchematicLabelLayerProps) {
   const [editingId, setEditingId] = useState<string | null>(null)
 
@@ -54,8 +83,17 @@ export function SchematicLabelLayer({
     [onDelete]
   )
 
+  const navigable = (label: SchematicCellLabel) => !!onNavigatePort && label.kind === 'port' && !!label.text.trim()
+
   const handleLabelMouseDown = (e: React.MouseEvent, label: SchematicCellLabel) => {
-    if (!isLabelMode && !deleteMode) return
+    if (!isLabelMode && !deleteMode) {
+      if (navigable(label)) {
+        e.stopPropagation()
+        e.preventDefault()
+        onNavigatePort?.(label)
+      }
+      return
+    }
     e.stopPropagation()
     e.preventDefault()
 
@@ -74,6 +112,11 @@ export function SchematicLabelLayer({
 
   return (
     <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 18 }}>
+      <datalist id="schematic-power-flags">
+        {POWER_FLAG_NAMES.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
       {labels.map((label) => {
         const isSelected = selectedId === label.id
         const isEditing = editingId === label.id
@@ -82,38 +125,73 @@ export function SchematicLabelLayer({
           <div
             key={label.id}
             className={`absolute flex items-center justify-center ${
-              interactive ? 'pointer-events-auto' : 'pointer-events-none'
+              interactive || navigable(label) ? 'pointer-events-auto' : 'pointer-events-none'
             }`}
             style={labelStyle(label)}
             onMouseDown={(e) => handleLabelMouseDown(e, label)}
             onClick={(e) => e.stopPropagation()}
           >
             {isEditing ? (
-              <input
-                autoFocus
-                value={label.text}
-                onChange={(e) => onUpdate(label.id, { text: e.target.value })}
-                onBlur={() => finishEditing(label)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') finishEditing(label)
-                  if (e.key === 'Escape') {
-                    setEditingId(null)
-                    if (!label.text.trim()) onDelete(label.id)
+              <>
+                <div className="absolute bottom-full left-1/2 mb-1 flex -translate-x-1/2 overflow-hidden rounded border border-gray-300 bg-white shadow-sm dark:border-white/15 dark:bg-dark-surface">
+                  {KIND_OPTIONS.map((option) => (
+                    <button
+                      key={option.kind}
+                      type="button"
+                      title={option.hint}
+                      // Keep focus in the text field while switching kind
+                      onMouseDown={(e) => {
+                        e.preventDefault()
+                        e.stopPropagation()
+                        onUpdate(label.id, { kind: option.kind })
+                      }}
+                      className={`px-1.5 py-0.5 text-[9px] font-medium ${
+                        (label.kind ?? 'text') === option.kind
+                          ? 'bg-primary-500 text-white'
+                          : 'text-gray-600 hover:bg-gray-100 dark:text-zinc-300 dark:hover:bg-white/10'
+                      }`}
+                    >
+                      {option.title}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  autoFocus
+                  list={label.kind === 'power' ? 'schematic-power-flags' : undefined}
+                  value={label.text}
+                  onChange={(e) => onUpdate(label.id, { text: e.target.value })}
+                  onBlur={() => finishEditing(label)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishEditing(label)
+                    if (e.key === 'Escape') {
+                      setEditingId(null)
+                      if (!label.text.trim()) onDelete(label.id)
+                    }
+                  }}
+                  placeholder={
+                    label.kind === 'net' || label.kind === 'port' ? 'Net name...' : label.kind === 'power' ? 'VCC, GND...' : 'Label...'
                   }
-                }}
-                placeholder="Label..."
-                className="w-[90%] min-w-0 text-[10px] font-medium text-center bg-white/95 dark:bg-dark-surface/95 border border-primary-400 dark:border-primary-500 rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-primary-500 shadow-sm"
-                onClick={(e) => e.stopPropagation()}
-                onMouseDown={(e) => e.stopPropagation()}
-              />
+                  className="w-[90%] min-w-0 text-[10px] font-medium text-center bg-white/95 dark:bg-dark-surface/95 border border-primary-400 dark:border-primary-500 rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-primary-500 shadow-sm"
+                  onClick={(e) => e.stopPropagation()}
+                  onMouseDown={(e) => e.stopPropagation()}
+                />
+              </>
             ) : (
               label.text.trim() && (
                 <span
                   className={`max-w-full truncate rounded px-1 py-0.5 text-[10px] font-medium shadow-sm ${
-                    isSelected && isLabelMode
+                    // A port stays highlighted after a jump lands on it
+                    isSelected && (isLabelMode || label.kind === 'port')
                       ? 'bg-primary-100 text-primary-800 ring-1 ring-primary-400 dark:bg-primary-900/50 dark:text-primary-200'
-                      : 'bg-white/85 text-gray-800 dark:bg-dark-surface/90 dark:text-gray-100'
-                  } ${isLabelMode ? 'cursor-text' : ''}`}
+                      : chipClass(label)
+                  } ${isLabelMode ? 'cursor-text' : navigable(label) && !interactive ? 'cursor-pointer' : ''}`}
+                  title={
+                    label.kind === 'port'
+                      ? `Port ${label.text.trim()}${navigable(label) ? ' — click to go to its other sheet' : ''}`
+                      : label.kind === 'net' || label.kind === 'power'
+                        ? `Net ${label.text.trim()}`
+                        : undefined
+                  }
                   onDoubleClick={(e) => {
                     e.stopPropagation()
                     if (isLabelMode) {
@@ -122,7 +200,7 @@ export function SchematicLabelLayer({
                     }
                   }}
                 >
-                  {label.text}
+                  {chipText(label)}
                 </span>
               )
             )}
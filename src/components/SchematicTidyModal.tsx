@@ -1,11 +1,12 @@
 import { useMemo, useState } from 'react'
 import { createPortal } from 'react-dom'
-import { Copy, LayoutGrid, X } from 'lucide-react'
+import { Copy, LayoutGrid, Pin, PinOff, X } from 'lucide-react'
 import type { Schematic } from '../types/workspace'
 import {
   applyTidyLayout,
   formatTidyLayoutExport,
   planTidyLayout,
+  type TidyLayoutMode,
   type TidyLayoutPlan,
 } from '../utils/schematicTidyLayout'
 
@@ -15,10 +16,20 @@ interface SchematicTidyModalProps {
   onApply: (updated: Schematic) => void
 }
 
+const MODE_OPTIONS: Array<{ mode: TidyLayoutMode; title: string; hint: string }> = [
+  { mode: 'layers', title: 'Signal flow', hint: 'Columns by category: power → passives → ICs → outputs' },
+  { mode: 'connectivity', title: 'Connectivity', hint: 'Shortest wiring and fewest crossings; decoupling capacitors stay by their IC' },
+]
+
 export function SchematicTidyModal({ schematic, onClose, onApply }: SchematicTidyModalProps) {
-  const plan = useMemo(() => planTidyLayout(schematic), [schematic])
+  const [mode, setMode] = useState<TidyLayoutMode>('layers')
+  const [pinned, setPinned] = useState<string[]>(() => schematic.layoutPins ?? [])
+  const plan = useMemo(() => planTidyLayout(schematic, { mode, pinned }), [schematic, mode, pinned])
   const [copied, setCopied] = useState(false)
 
+  const togglePin = (id: string) =>
+    setPinned((prev) => (prev.includes(id) ? prev.filter((pinnedId) => pinnedId !== id) : [...prev, id]))
+
   const handleCopy = async () => {
     const text = formatTidyLayoutExport(plan, schematic.name)
     try {
@@ -31,7 +42,7 @@ export function SchematicTidyModal({ schematic, onClose, onApply }: SchematicTid
   }
 
   const handleApply = () => {
-    onApply(applyTidyLayout(schematic, plan))
+    onApply({ ...applyTidyLayout(schematic, plan), layoutPins: pinned })
     onClose()
   }
 
@@ -51,6 +62,24 @@ export function SchematicTidyModal({ schematic, onClose, onApply }: SchematicTid
               </h2>
             </div>
             <p className="mt-1 text-sm text-gray-600 dark:text-zinc-400">{plan.summary}</p>
+            <div className="mt-3 inline-flex overflow-hidden rounded-lg border border-gray-200 dark:border-white/10" role="group">
+              {MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.mode}
+                  type="button"
+                  title={option.hint}
+                  onClick={() => setMode(option.mode)}
+                  aria-pressed={mode === option.mode}
+                  className={`px-3 py-1.5 text-xs font-medium ${
+                    mode === option.mode
+                      ? 'bg-primary-600 text-white'
+                      : 'text-gray-600 hover:bg-gray-100 dark:text-zinc-300 dark:hover:bg-white/10'
+                  }`}
+                >
+                  {option.title}
+                </button>
+              ))}
+            </div>
           </div>
           <button
             type="button"
@@ -72,12 +101,16 @@ export function SchematicTidyModal({ schematic, onClose, onApply }: SchematicTid
                   <th className="py-2 pr-3 font-medium">Component</th>
                   <th className="py-2 pr-3 font-medium">Now</th>
                   <th className="py-2 pr-3 font-medium">After</th>
-                  <th className="py-2 font-medium">Flow</th>
+                  <th className="py-2 font-medium">{mode === 'connectivity' ? 'Pin' : 'Flow'}</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100 dark:divide-white/5">
                 {plan.nodes.map((node) => (
-                  <NodeRow key={node.id} node={node} />
+                  <NodeRow
+                    key={node.id}
+                    node={node}
+                    onTogglePin={mode === 'connectivity' ? () => togglePin(node.id) : undefined}
+                  />
                 ))}
               </tbody>
             </table>
@@ -118,7 +151,7 @@ export function SchematicTidyModal({ schematic, onClose, onApply }: SchematicTid
   )
 }
 
-function NodeRow({ node }: { node: TidyLayoutPlan['nodes'][number] }) {
+function NodeRow({ node, onTogglePin }: { node: TidyLayoutPlan['nodes'][number]; onTogglePin?: () => void }) {
   const moved =
     node.currentOrigin.x !== node.proposedOrigin.x || node.currentOrigin.y !== node.proposedOrigin.y
 
@@ -126,7 +159,10 @@ function NodeRow({ node }: { node: TidyLayoutPlan['nodes'][number] }) {
     <tr className={moved ? '' : 'opacity-60'}>
       <td className="py-2.5 pr-3">
         <div className="font-medium text-gray-900 dark:text-zinc-100">{node.moduleName}</div>
-        <div className="text-xs text-gray-500 dark:text-zinc-500">{node.category}</div>
+        <div className="text-xs text-gray-500 dark:text-zinc-500">
+          {node.category}
+          {node.decouples && ' · decoupling'}
+        </div>
       </td>
       <td className="py-2.5 pr-3 font-mono text-xs text-gray-600 dark:text-zinc-400">
         ({node.currentOrigin.x}, {node.currentOrigin.y})
@@ -134,7 +170,25 @@ function NodeRow({ node }: { node: TidyLayoutPlan['nodes'][number] }) {
       <td className="py-2.5 pr-3 font-mono text-xs text-primary-700 dark:text-primary-300">
         ({node.proposedOrigin.x}, {node.proposedOrigin.y})
       </td>
-      <td className="py-2.5 font-mono text-xs text-gray-500 dark:text-zinc-500">L{node.layer}</td>
+      {onTogglePin ? (
+        <td className="py-2.5">
+          <button
+            type="button"
+            onClick={onTogglePin}
+            aria-pressed={!!node.pinned}
+            title={node.pinned ? 'Let the layout move this part' : 'Keep this part where it is'}
+            className={`rounded p-1 ${
+              node.pinned
+                ? 'text-primary-600 hover:bg-primary-50 dark:text-primary-400 dark:hover:bg-white/10'
+                : 'text-gray-400 hover:bg-gray-100 hover:text-gray-700 dark:text-zinc-500 dark:hover:bg-white/10 dark:hover:text-zinc-200'
+            }`}
+          >
+            {node.pinned ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+          </button>
+        </td>
+      ) : (
+        <td className="py-2.5 font-mono text-xs text-gray-500 dark:text-zinc-500">L{node.layer}</td>
+      )}
     </tr>
   )
 }
@@ -0,0 +1,525 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ComponentProps } from 'react'
+import { ChevronDown, ChevronUp, Pause, Play, Plus, Waves, X } from 'lucide-react'
+import { buildNets } from '../systems/chain'
+import { resolveEffectiveGPIOStates, type GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+import type { DevicePanel } from './DevicePanel'
+import { formatCurrent, formatVoltage } from '../utils/electricalFormatting'
+import {
+  SCOPE_DIVISIONS,
+  SCOPE_SCALES,
+  SCOPE_TIMEBASES,
+  SCOPE_VERTICAL_DIVISIONS,
+  acquireScopeTrace,
+  listCurrentProbePoints,
+  listVoltageProbePoints,
+  sampleTraceAt,
+  type ScopeAcquisition,
+  type ScopeProbePoint,
+  type TriggerEdge,
+} from '../utils/oscilloscope'
+
+interface ScopePanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  /** Changes on every solver tick; each tick re-arms the next acquisition, which continues the last sweep. */
+  componentStates: ComponentProps<typeof DevicePanel>['componentStates']
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+interface ScopeChannel {
+  id: number
+  probeKey: string
+  /** Volts (or amps) per division. */
+  scale: number
+  /** Vertical offset of the zero line, in divisions from screen centre. */
+  position: number
+}
+
+const CHANNEL_COLORS = ['#facc15', '#22d3ee', '#e879f9', '#4ade80']
+const MAX_CHANNELS = CHANNEL_COLORS.length
+const DIV_PX = 36
+const SCREEN_W = DIV_PX * SCOPE_DIVISIONS
+const SCREEN_H = DIV_PX * SCOPE_VERTICAL_DIVISIONS
+/** Minimum gap between acquisitions while running, so ticks do not stall the UI. */
+const ACQUIRE_INTERVAL_MS = 250
+
+function formatTime(seconds: number): string {
+  const abs = Math.abs(seconds)
+  if (abs >= 1) return `${+seconds.toPrecision(3)} s`
+  if (abs >= 1e-3) return `${+(seconds * 1e3).toPrecision(3)} ms`
+  return `${+(seconds * 1e6).toPrecision(3)} µs`
+}
+
+function formatScale(scale: number, kind: ScopeProbePoint['kind']): string {
+  return kind === 'current' ? formatCurrent(scale) : formatVoltage(scale)
+}
+
+export function ScopePanel({
+  gridData,
+  wires,
+  componentStates,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: ScopePanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  // Embedded without a header the host drives `expanded`, so a hidden tab stops acquiring.
+  const isExpanded = hideHeader ? (expandedProp ?? true) : (expandedProp ?? internalExpanded)
+  const [running, setRunning] = useState(true)
+  const [timePerDiv, setTimePerDiv] = useState(1e-3)
+  const [channels, setChannels] = useState<ScopeChannel[]>([])
+  const [pendingProbe, setPendingProbe] = useState('')
+  const [triggerEnabled, setTriggerEnabled] = useState(true)
+  const [triggerChannelId, setTriggerChannelId] = useState<number | null>(null)
+  const [triggerEdge, setTriggerEdge] = useState<TriggerEdge>('rising')
+  const [triggerLevelInput, setTriggerLevelInput] = useState('1')
+  const [cursorsEnabled, setCursorsEnabled] = useState(false)
+  const [cursorA, setCursorA] = useState(2)
+  const [cursorB, setCursorB] = useState(8)
+  const [acquisition, setAcquisition] = useState<ScopeAcquisition | null>(null)
+  const lastAcquireRef = useRef(0)
+  /** End of the last sweep; the next one picks up the running simulation from there. */
+  const liveStateRef = useRef<ScopeAcquisition['state']>(undefined)
+  const nextChannelIdRef = useRef(1)
+
+  const probes = useMemo((): ScopeProbePoint[] => {
+    const nets = buildNets(gridData, wires)
+    return [
+      ...listVoltageProbePoints(gridData, nets.posToNet, nets.groundNet),
+      ...listCurrentProbePoints(gridData, wires),
+    ]
+  }, [gridData, wires])
+  const probeByKey = useMemo(() => new Map(probes.map((p) => [p.key, p])), [probes])
+
+  // Channels whose probe point disappeared (part deleted, wire rerouted) are dropped.
+  useEffect(() => {
+    setChannels((prev) => {
+      const next = prev.filter((c) => probeByKey.has(c.probeKey))
+      return next.length === prev.length ? prev : next
+    })
+  }, [probeByKey])
+
+  const triggerChannel = channels.find((c) => c.id === triggerChannelId) ?? channels[0]
+  const triggerLevel = parseFloat(triggerLevelInput)
+
+  const acquire = useCallback(() => {
+    lastAcquireRef.current = Date.now()
+    const activeProbes = channels
+      .map((c) => probeByKey.get(c.probeKey))
+      .filter((p): p is ScopeProbePoint => p !== undefined)
+    if (activeProbes.length === 0) {
+      setAcquisition(null)
+      return
+    }
+    const trigger =
+      triggerEnabled && triggerChannel && Number.isFinite(triggerLevel)
+        ? { probeKey: triggerChannel.probeKey, level: triggerLevel, edge: triggerEdge }
+        : undefined
+    const next = acquireScopeTrace(
+      gridData,
+      wires,
+      activeProbes,
+      { timePerDiv, trigger, resume: liveStateRef.current },
+      resolveEffectiveGPIOStates()
+    )
+    liveStateRef.current = next.state
+    setAcquisition(next)
+  }, [channels, probeByKey, triggerEnabled, triggerChannel, triggerLevel, triggerEdge, gridData, wires, timePerDiv])
+
+  useEffect(() => {
+    if (!running || !isExpanded) return
+    const wait = Math.max(0, ACQUIRE_INTERVAL_MS - (Date.now() - lastAcquireRef.current))
+    const timeoutId = setTimeout(acquire, wait)
+    return () => clearTimeout(timeoutId)
+  }, [running, isExpanded, acquire, componentStates])
+
+  const addChannel = () => {
+    const probe = probeByKey.get(pendingProbe) ?? probes.find((p) => !channels.some((c) => c.probeKey === p.key))
+    if (!probe || channels.length >= MAX_CHANNELS) return
+    const id = nextChannelIdRef.current++
+    setChannels((prev) => [
+      ...prev,
+      { id, probeKey: probe.key, scale: probe.kind === 'current' ? 0.01 : 1, position: -3 },
+    ])
+    setPendingProbe('')
+  }
+
+  const updateChannel = (id: number, patch: Partial<ScopeChannel>) => {
+    setChannels((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)))
+  }
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    if (expandedProp === undefined) setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  const span = timePerDiv * SCOPE_DIVISIONS
+  const xFor = (t: number) => (t / span) * SCREEN_W
+  const yFor = (value: number, channel: ScopeChannel) =>
+    SCREEN_H / 2 - (value / channel.scale + channel.position) * DIV_PX
+  const cursorTimes = [cursorA, cursorB].map((div) => div * timePerDiv)
+
+  const selectClass =
+    'w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 outline-none focus:border-primary-400 dark:border-white/10 dark:bg-black/30 dark:text-zinc-100'
+  const labelClass = 'mb-1 block text-[10px] font-medium uppercase tracking-wide text-gray-500 dark:text-zinc-500'
+
+  return (
+    <aside
+      className={`scope-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Oscilloscope"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-yellow-400/15">
+              <Waves className="h-4 w-4 text-yellow-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">Scope</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">
+                {channels.length === 0 ? 'No probes placed' : `${channels.length} channel${channels.length === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(60vh,560px)] overflow-y-auto'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setRunning((r) => !r)}
+                className={`inline-flex items-center gap-1 rounded-md px-2.5 py-1.5 text-xs font-medium transition-colors ${
+                  running
+                    ? 'bg-emerald-500/15 text-emerald-700 hover:bg-emerald-500/25 dark:text-emerald-300'
+                    : 'bg-red-500/15 text-red-700 hover:bg-red-500/25 dark:text-red-300'
+                }`}
+              >
+                {running ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                {running ? 'Run' : 'Stop'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setRunning(false)
+                  acquire()
+                }}
+                className="rounded-md px-2.5 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 dark:text-zinc-400 dark:hover:bg-white/5"
+              >
+                Single
+              </button>
+              <div className="ml-auto w-32">
+                <select
+                  value={timePerDiv}
+                  onChange={(e) => setTimePerDiv(Number(e.target.value))}
+                  className={selectClass}
+                  aria-label="Timebase"
+                >
+                  {SCOPE_TIMEBASES.map((t) => (
+                    <option key={t} value={t}>
+                      {formatTime(t)}/div
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="overflow-hidden rounded-lg border border-gray-300 bg-zinc-950 dark:border-white/10">
+              <svg viewBox={`0 0 ${SCREEN_W} ${SCREEN_H}`} className="block w-full" role="img" aria-label="Scope traces">
+                <defs>
+                  <clipPath id="scope-screen">
+                    <rect x={0} y={0} width={SCREEN_W} height={SCREEN_H} />
+                  </clipPath>
+                </defs>
+                {Array.from({ length: SCOPE_DIVISIONS + 1 }, (_, i) => (
+                  <line key={`v${i}`} x1={i * DIV_PX} x2={i * DIV_PX} y1={0} y2={SCREEN_H} stroke="#3f3f46" strokeWidth={i === SCOPE_DIVISIONS / 2 ? 1 : 0.5} />
+                ))}
+                {Array.from({ length: SCOPE_VERTICAL_DIVISIONS + 1 }, (_, i) => (
+                  <line key={`h${i}`} x1={0} x2={SCREEN_W} y1={i * DIV_PX} y2={i * DIV_PX} stroke="#3f3f46" strokeWidth={i === SCOPE_VERTICAL_DIVISIONS / 2 ? 1 : 0.5} />
+                ))}
+                <g clipPath="url(#scope-screen)">
+                  {acquisition?.works &&
+                    channels.map((channel, idx) => {
+                      const samples = acquisition.channels.get(channel.probeKey)
+                      if (!samples) return null
+                      const d = samples
+                        .map((v, i) => `${i === 0 ? 'M' : 'L'}${xFor(acquisition.time[i]).toFixed(1)},${yFor(v, channel).toFixed(1)}`)
+                        .join(' ')
+                      return <path key={channel.id} d={d} fill="none" stroke={CHANNEL_COLORS[idx]} strokeWidth={1.25} />
+                    })}
+                  {channels.map((channel, idx) => (
+                    <text key={`z${channel.id}`} x={2} y={yFor(0, channel) + 3} fill={CHANNEL_COLORS[idx]} fontSize={9}>
+                      {idx + 1}▸
+                    </text>
+                  ))}
+                  {triggerEnabled && triggerChannel && Number.isFinite(triggerLevel) && (
+                    <text
+                      x={SCREEN_W - 10}
+                      y={yFor(triggerLevel, triggerChannel) + 3}
+                      fill={CHANNEL_COLORS[channels.indexOf(triggerChannel)]}
+                      fontSize={9}
+                    >
+                      ◂T
+                    </text>
+                  )}
+                  {cursorsEnabled &&
+                    [cursorA, cursorB].map((div, i) => (
+                      <line
+                        key={`c${i}`}
+                        x1={div * DIV_PX}
+                        x2={div * DIV_PX}
+                        y1={0}
+                        y2={SCREEN_H}
+                        stroke="#f97316"
+                        strokeDasharray="4 3"
+                        strokeWidth={1}
+                      />
+                    ))}
+                </g>
+              </svg>
+              <div className="flex items-center justify-between px-2 py-1 font-mono text-[10px] text-zinc-400">
+                <span>{formatTime(timePerDiv)}/div</span>
+                <span>
+                  {!acquisition
+                    ? channels.length === 0
+                      ? 'Add a probe'
+                      : 'Waiting'
+                    : !acquisition.works
+                      ? acquisition.reason
+                      : triggerEnabled
+                        ? acquisition.triggered
+                          ? `Trig'd ${triggerEdge === 'rising' ? '↑' : '↓'}`
+                          : 'Auto'
+                        : 'Free run'}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {channels.map((channel, idx) => {
+                const probe = probeByKey.get(channel.probeKey)
+                if (!probe) return null
+                const samples = acquisition?.works ? acquisition.channels.get(channel.probeKey) ?? [] : []
+                const format = probe.kind === 'current' ? formatCurrent : formatVoltage
+                const min = samples.length ? Math.min(...samples) : 0
+                const max = samples.length ? Math.max(...samples) : 0
+                const mean = samples.length ? samples.reduce((a, b) => a + b, 0) / samples.length : 0
+                return (
+                  <div key={channel.id} className="rounded-lg border border-gray-200 px-2 py-2 dark:border-white/10">
+                    <div className="flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ background: CHANNEL_COLORS[idx] }} />
+                      <span className="min-w-0 flex-1 truncate text-xs font-medium">
+                        CH{idx + 1} · {probe.kind === 'current' ? 'I' : 'V'} · {probe.label}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setChannels((prev) => prev.filter((c) => c.id !== channel.id))}
+                        className="rounded p-0.5 text-gray-400 hover:bg-gray-100 hover:text-gray-700 dark:hover:bg-white/5 dark:hover:text-zinc-200"
+                        aria-label={`Remove channel ${idx + 1}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <select
+                        value={channel.scale}
+                        onChange={(e) => updateChannel(channel.id, { scale: Number(e.target.value) })}
+                        className={selectClass}
+                        aria-label={`Channel ${idx + 1} scale`}
+                      >
+                        {SCOPE_SCALES.map((s) => (
+                          <option key={s} value={s}>
+                            {formatScale(s, probe.kind)}/div
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="range"
+                        min={-SCOPE_VERTICAL_DIVISIONS / 2}
+                        max={SCOPE_VERTICAL_DIVISIONS / 2}
+                        step={0.5}
+                        value={channel.position}
+                        onChange={(e) => updateChannel(channel.id, { position: Number(e.target.value) })}
+                        aria-label={`Channel ${idx + 1} position`}
+                      />
+                    </div>
+                    {samples.length > 0 && (
+                      <div className="mt-1 font-mono text-[10px] text-gray-500 dark:text-zinc-500">
+                        pp {format(max - min)} · mean {format(mean)}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+
+              {channels.length < MAX_CHANNELS && (
+                <div className="flex gap-2">
+                  <select
+                    value={pendingProbe}
+                    onChange={(e) => setPendingProbe(e.target.value)}
+                    className={selectClass}
+                    aria-label="Probe point"
+                  >
+                    <option value="">{probes.length === 0 ? 'No probe points' : 'Choose a probe point…'}</option>
+                    {probes.map((p) => (
+                      <option key={p.key} value={p.key}>
+                        {p.kind === 'current' ? 'I' : 'V'} · {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={addChannel}
+                    disabled={probes.length === 0}
+                    className="inline-flex shrink-0 items-center gap-1 rounded-md bg-primary-600 px-2.5 py-1 text-xs font-medium text-white transition-colors hover:bg-primary-500 disabled:opacity-40"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                    Probe
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {channels.length > 0 && (
+              <div className="grid grid-cols-3 gap-2 rounded-lg border border-gray-200 px-2 py-2 dark:border-white/10">
+                <label className="col-span-3 flex items-center gap-2 text-xs font-medium">
+                  <input type="checkbox" checked={triggerEnabled} onChange={(e) => setTriggerEnabled(e.target.checked)} />
+                  Trigger on edge
+                </label>
+                <div>
+                  <span className={labelClass}>Source</span>
+                  <select
+                    value={triggerChannel?.id ?? ''}
+                    onChange={(e) => setTriggerChannelId(Number(e.target.value))}
+                    className={selectClass}
+                    disabled={!triggerEnabled}
+                  >
+                    {channels.map((c, idx) => (
+                      <option key={c.id} value={c.id}>
+                        CH{idx + 1}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className={labelClass}>Edge</span>
+                  <select
+                    value={triggerEdge}
+                    onChange={(e) => setTriggerEdge(e.target.value as TriggerEdge)}
+                    className={selectClass}
+                    disabled={!triggerEnabled}
+                  >
+                    <option value="rising">Rising</option>
+                    <option value="falling">Falling</option>
+                  </select>
+                </div>
+                <div>
+                  <span className={labelClass}>Level</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={triggerLevelInput}
+                    onChange={(e) => setTriggerLevelInput(e.target.value)}
+                    className={selectClass}
+                    disabled={!triggerEnabled}
+                  />
+                </div>
+              </div>
+            )}
+
+            {channels.length > 0 && (
+              <div className="space-y-2 rounded-lg border border-gray-200 px-2 py-2 dark:border-white/10">
+                <label className="flex items-center gap-2 text-xs font-medium">
+                  <input type="checkbox" checked={cursorsEnabled} onChange={(e) => setCursorsEnabled(e.target.checked)} />
+                  Time cursors
+                </label>
+                {cursorsEnabled && (
+                  <>
+                    {[
+                      { label: 'A', value: cursorA, set: setCursorA },
+                      { label: 'B', value: cursorB, set: setCursorB },
+                    ].map(({ label, value, set }) => (
+                      <div key={label} className="flex items-center gap-2">
+                        <span className="w-3 text-xs font-medium text-orange-500">{label}</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={SCOPE_DIVISIONS}
+                          step={0.05}
+                          value={value}
+                          onChange={(e) => set(Number(e.target.value))}
+                          className="flex-1"
+                          aria-label={`Cursor ${label}`}
+                        />
+                        <span className="w-16 text-right font-mono text-[10px]">{formatTime(value * timePerDiv)}</span>
+                      </div>
+                    ))}
+                    <div className="font-mono text-[10px] text-gray-600 dark:text-zinc-400">
+                      Δt {formatTime(Math.abs(cursorTimes[1] - cursorTimes[0]))}
+                      {cursorTimes[1] !== cursorTimes[0] &&
+                        ` · 1/Δt ${+(1 / Math.abs(cursorTimes[1] - cursorTimes[0])).toPrecision(4)} Hz`}
+                    </div>
+                    {acquisition?.works &&
+                      channels.map((channel, idx) => {
+                        const probe = probeByKey.get(channel.probeKey)
+                        const samples = acquisition.channels.get(channel.probeKey)
+                        if (!probe || !samples) return null
+                        const format = probe.kind === 'current' ? formatCurrent : formatVoltage
+                        const [a, b] = cursorTimes.map((t) => sampleTraceAt(acquisition.time, samples, t) ?? 0)
+                        return (
+                          <div key={channel.id} className="font-mono text-[10px]" style={{ color: CHANNEL_COLORS[idx] }}>
+                            CH{idx + 1} A {format(a)} · B {format(b)} · Δ {format(b - a)}
+                          </div>
+                        )
+                      })}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react'
+import { Clock, Send, Trash2, X } from 'lucide-react'
+import { SERIAL_BAUD_RATES, getSerialChannel, type SerialEntry } from '../services/SerialMonitor'
+
+interface SerialMonitorProps {
+  microcontrollerId: string
+  running: boolean
+  onClose: () => void
+}
+
+const LINE_ENDINGS = [
+  { label: 'No line ending', value: '' },
+  { label: 'Newline', value: '\n' },
+  { label: 'Carriage return', value: '\r' },
+  { label: 'Both NL & CR', value: '\r\n' },
+]
+
+export function formatTimestamp(ms: number): string {
+  const date = new Date(ms)
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
+
+/**
+ * Arduino-IDE style console on a simulated microcontroller's serial port:
+ * what the sketch prints, a baud rate that must match Serial.begin, and a
+ * send box whose bytes reach the running firmware.
+ */
+export function SerialMonitor({ microcontrollerId, running, onClose }: SerialMonitorProps) {
+  const channel = getSerialChannel(microcontrollerId)
+  const [entries, setEntries] = useState<SerialEntry[]>(() => channel.getEntries())
+  const [baud, setBaud] = useState(channel.monitorBaud)
+  const [showTimestamps, setShowTimestamps] = useState(false)
+  const [autoscroll, setAutoscroll] = useState(true)
+  const [input, setInput] = useState('')
+  const [lineEnding, setLineEnding] = useState('\n')
+  const outputRef = useRef<HTMLDivElement>(null)
+
+  // Devices write byte by byte; redraw at most once per frame.
+  useEffect(() => {
+    let frame: number | null = null
+    const unsubscribe = channel.subscribe(() => {
+      if (frame !== null) return
+      frame = requestAnimationFrame(() => {
+        frame = null
+        setEntries(channel.getEntries())
+        setBaud(channel.monitorBaud)
+      })
+    })
+    setEntries(channel.getEntries())
+    return () => {
+      unsubscribe()
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [channel])
+
+  useEffect(() => {
+    if (autoscroll && outputRef.current) outputRef.current.scrollTop = outputRef.current.scrollHeight
+  }, [entries, autoscroll])
+
+  const send = () => {
+    if (!input) return
+    channel.send(input, lineEnding)
+    setInput('')
+  }
+
+  const selectClass =
+    'rounded border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface px-1.5 py-0.5 text-[11px] text-gray-700 dark:text-dark-text-primary outline-none focus:border-primary-500'
+
+  return (
+    <div
+      className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-2 dark:border-gray-700 dark:bg-gray-800"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h5 className="text-sm font-medium text-gray-900 dark:text-dark-text-primary">Serial Monitor</h5>
+        <div className="flex items-center gap-1">
+          <select
+            value={baud}
+            onChange={(e) => {
+              channel.monitorBaud = Number(e.target.value)
+              setBaud(channel.monitorBaud)
+            }}
+            className={selectClass}
+            title="Monitor baud rate"
+          >
+            {SERIAL_BAUD_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} baud
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setShowTimestamps((v) => !v)}
+            className={`rounded p-1 ${
+              showTimestamps
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+            }`}
+            title="Show timestamps"
+          >
+            <Clock className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => channel.clear()}
+            className="rounded p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Clear output"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {channel.baudMismatch && (
+        <p className="mb-1 text-[11px] text-amber-700 dark:text-amber-300">
+          Sketch runs at {Math.round(channel.deviceBaud ?? 0)} baud — output is garbled at {baud}.
+        </p>
+      )}
+
+      <div
+        ref={outputRef}
+        className="h-40 overflow-y-auto rounded border border-gray-200 bg-white p-1.5 font-mono text-[11px] leading-4 text-gray-800 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-200"
+        onScroll={(e) => {
+          const el = e.currentTarget
+          setAutoscroll(el.scrollHeight - el.scrollTop - el.clientHeight < 8)
+        }}
+      >
+        {entries.length === 0 ? (
+          <p className="text-gray-400 dark:text-gray-500">
+            {running ? 'Waiting for Serial output…' : 'Run the microcontroller to see Serial output.'}
+          </p>
+        ) : (
+          entries.map((entry, index) => (
+            <div
+              key={index}
+              className={`whitespace-pre-wrap break-all ${
+                entry.direction === 'tx'
+                  ? 'text-primary-600 dark:text-primary-300'
+                  : entry.direction === 'note'
+                    ? 'italic text-amber-700 dark:text-amber-400'
+                    : ''
+              }`}
+            >
+              {showTimestamps && (
+                <span className="text-gray-400 dark:text-gray-500">
+                  {formatTimestamp(entry.timestamp)} {entry.direction === 'tx' ? '<-' : entry.direction === 'note' ? '--' : '->'}{' '}
+                </span>
+              )}
+              {entry.text}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="mt-2 flex items-center gap-1">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send()
+          }}
+          placeholder={running ? 'Message to send' : 'Not running'}
+          className="min-w-0 flex-1 rounded border border-gray-200 bg-white px-2 py-1 font-mono text-[11px] text-gray-800 outline-none focus:border-primary-500 dark:border-dark-border dark:bg-dark-surface dark:text-dark-text-primary"
+        />
+        <select value={lineEnding} onChange={(e) => setLineEnding(e.target.value)} className={selectClass} title="Line ending">
+          {LINE_ENDINGS.map((ending) => (
+            <option key={ending.label} value={ending.value}>
+              {ending.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={send}
+          disabled={!input}
+          className="flex items-center gap-1 rounded bg-primary-600 px-2 py-1 text-[11px] font-medium text-white hover:bg-primary-500 disabled:opacity-50"
+        >
+          <Send className="h-3 w-3" />
+          Send
+        </button>
+      </div>
+    </div>
+  )
+}
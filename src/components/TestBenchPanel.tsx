@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react'
+import { CheckCircle2, ChevronDown, ChevronUp, FlaskConical, Play, XCircle } from 'lucide-react'
+import type { GridCell } from '../systems/ElectricalSystem'
+import type { WireConnection } from '../modules/types'
+import { listBenchParts, parseTestBench, runTestBench, type TestBenchRun } from '../utils/testBench'
+
+interface TestBenchPanelProps {
+  gridData: GridCell[][]
+  wires: WireConnection[]
+  /** The schematic's saved stimulus script */
+  script: string
+  onScriptChange: (script: string) => void
+  embedded?: boolean
+  floating?: boolean
+  stacked?: boolean
+  expanded?: boolean
+  hideHeader?: boolean
+  onExpandedChange?: (expanded: boolean) => void
+}
+
+const PLACEHOLDER = `# Set inputs, then check the sheet
+at 0 ms
+set PushButton1 off
+expect LED1 off
+at 100 ms
+set PushButton1 on
+expect LED1 on
+expect V(LED1.+) > 1.8 V`
+
+/**
+ * Runs the schematic's stimulus script (see utils/testBench) against a copy of the
+ * sheet and lists each expectation's outcome; the sheet itself is left as it was.
+ */
+export function TestBenchPanel({
+  gridData,
+  wires,
+  script,
+  onScriptChange,
+  embedded = false,
+  floating = false,
+  stacked = false,
+  expanded: expandedProp,
+  hideHeader = false,
+  onExpandedChange,
+}: TestBenchPanelProps) {
+  const [internalExpanded, setInternalExpanded] = useState(false)
+  const isExpanded = hideHeader ? (expandedProp ?? true) : (expandedProp ?? internalExpanded)
+  const [run, setRun] = useState<TestBenchRun | null>(null)
+  const [showParts, setShowParts] = useState(false)
+
+  const parts = useMemo(() => (isExpanded ? listBenchParts(gridData) : []), [gridData, isExpanded])
+  const parseErrors = useMemo(() => parseTestBench(script).errors, [script])
+
+  const handleHeaderToggle = () => {
+    const next = !isExpanded
+    setInternalExpanded(next)
+    onExpandedChange?.(next)
+  }
+
+  const summary = run
+    ? `${run.passed} passed, ${run.failed} failed`
+    : script.trim()
+      ? 'Not run yet'
+      : 'No script'
+
+  return (
+    <aside
+      className={`test-bench-panel flex w-full flex-col ${
+        stacked ? 'h-full min-h-0 flex-1' : embedded || floating ? 'min-h-0 shrink-0' : ''
+      }`}
+      aria-label="Test bench"
+    >
+      <div
+        className={`flex flex-col overflow-hidden ${stacked || floating ? 'h-full min-h-0 flex-1' : ''} ${
+          floating && !stacked
+            ? 'min-h-0'
+            : !stacked
+              ? 'carbon-card border-primary-400/15 shadow-xl shadow-black/40 dark:bg-dark-card'
+              : ''
+        }`}
+      >
+        {!hideHeader && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={handleHeaderToggle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault()
+                handleHeaderToggle()
+              }
+            }}
+            className="flex w-full shrink-0 cursor-pointer items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+            aria-expanded={isExpanded}
+          >
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-violet-400/15">
+              <FlaskConical className="h-4 w-4 text-violet-400" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-zinc-100">Test Bench</h2>
+              <p className="truncate text-xs text-gray-500 dark:text-zinc-500">{summary}</p>
+            </div>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0 text-zinc-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0 text-zinc-500" />
+            )}
+          </div>
+        )}
+
+        {isExpanded && (
+          <div
+            className={`${hideHeader ? '' : 'border-t border-white/[0.06]'} space-y-3 px-4 py-4 ${
+              stacked ? 'flex min-h-0 flex-1 flex-col overflow-y-auto' : 'max-h-[min(60vh,560px)] overflow-y-auto'
+            }`}
+          >
+            <textarea
+              value={script}
+              onChange={(e) => {
+                onScriptChange(e.target.value)
+                setRun(null)
+              }}
+              placeholder={PLACEHOLDER}
+              spellCheck={false}
+              rows={10}
+              className="w-full shrink-0 resize-y rounded border border-gray-200 bg-white p-2 font-mono text-[11px] leading-4 text-gray-800 focus:border-primary-500 focus:outline-none dark:border-white/10 dark:bg-black/40 dark:text-zinc-200"
+              aria-label="Stimulus script"
+            />
+
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setRun(runTestBench(script, gridData, wires))}
+                disabled={!script.trim() || parseErrors.length > 0}
+                className="inline-flex items-center gap-1 rounded-md bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-700 disabled:cursor-default disabled:opacity-50"
+              >
+                <Play className="h-3.5 w-3.5" />
+                Run
+              </button>
+              {run && (
+                <span className={`text-xs font-medium ${run.failed > 0 || run.errors.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                  {summary}
+                </span>
+              )}
+              <div className="flex-1" />
+              <button
+                type="button"
+                onClick={() => setShowParts((v) => !v)}
+                className="rounded-md px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 dark:text-zinc-400 dark:hover:bg-white/5"
+              >
+                {showParts ? 'Hide parts' : 'Parts'}
+              </button>
+            </div>
+
+            {(run?.errors ?? parseErrors).length > 0 && (
+              <ul className="space-y-0.5 rounded-md bg-amber-500/10 px-2.5 py-2 text-xs text-amber-800 dark:text-amber-300">
+                {(run?.errors ?? parseErrors).map((issue, index) => (
+                  <li key={index}>
+                    Line {issue.line}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {showParts && (
+              <div>
+                <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-zinc-500">Parts</h3>
+                {parts.length === 0 ? (
+                  <p className="text-xs text-gray-500 dark:text-zinc-500">Place components to name them in a script.</p>
+                ) : (
+                  <ul className="space-y-0.5 font-mono text-[11px] text-gray-700 dark:text-zinc-300">
+                    {parts.map((part) => (
+                      <li key={part.componentId} className="flex gap-2">
+                        <span className="shrink-0 font-semibold">{[part.ref, ...part.aliases].join(' / ')}</span>
+                        <span className="min-w-0 truncate text-gray-500 dark:text-zinc-500">
+                          {part.supply
+                            ? 'voltage'
+                            : part.control?.kind === 'potentiometer'
+                              ? 'wiper'
+                              : part.control?.kind === 'sensor'
+                                ? part.control.stimuli?.map((s) => s.key).join(', ')
+                                : part.control
+                                  ? 'on | off'
+                                  : part.module}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {run && (
+              <ul className="min-h-[6rem] flex-1 space-y-0.5 overflow-y-auto rounded border border-gray-200 bg-white p-1.5 font-mono text-[11px] leading-4 text-gray-800 dark:border-white/10 dark:bg-black/40 dark:text-zinc-200">
+                {run.results.length === 0 ? (
+                  <li className="text-gray-400 dark:text-zinc-500">No expectations to check.</li>
+                ) : (
+                  run.results.map((result) => (
+                    <li key={result.line} className="flex items-start gap-1.5 py-0.5">
+                      {result.passed ? (
+                        <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0 text-emerald-500" />
+                      ) : (
+                        <XCircle className="mt-0.5 h-3 w-3 shrink-0 text-red-500" />
+                      )}
+                      <span className="shrink-0 text-gray-400 dark:text-zinc-500">{result.atMs} ms</span>
+                      <span className="min-w-0 break-words">
+                        {result.source}
+                        <span className="text-gray-500 dark:text-zinc-500"> — {result.message}</span>
+                      </span>
+                    </li>
+                  ))
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
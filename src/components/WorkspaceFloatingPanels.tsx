@@ -1,16 +1,22 @@
 import { useCallback, useEffect, useMemo, useState, type ComponentProps } from 'react'
-import { Activity, BookOpen, Cpu, Focus, Sparkles, Zap } from 'lucide-react'
+import { Activity, Binary, BookOpen, Cable, Cpu, FlaskConical, Focus, LineChart, ShieldAlert, Sparkles, Waves, Zap } from 'lucide-react'
 import { useAgent } from '../contexts/AgentContext'
 import { AgentPanel } from './AgentPanel'
+import { BusAnalyzerPanel } from './BusAnalyzerPanel'
 import { DevicePanel } from './DevicePanel'
+import { ErcPanel } from './ErcPanel'
 import { ExamplesDocsPanel } from './ExamplesDocsPanel'
 import { FloatingPanel } from './FloatingPanel'
+import { FrequencyResponsePanel } from './FrequencyResponsePanel'
 import { HoverStatsPanel } from './HoverStatsPanel'
+import { LogicAnalyzerPanel } from './LogicAnalyzerPanel'
 import { PowerPanel } from './PowerPanel'
+import { ScopePanel } from './ScopePanel'
+import { TestBenchPanel } from './TestBenchPanel'
 import type { HoverStats } from '../utils/hoverStats'
 
 type DevicePanelProps = ComponentProps<typeof DevicePanel>
-type WorkspacePanel = 'device' | 'power' | 'monitor' | 'agent' | 'docs'
+type WorkspacePanel = 'device' | 'power' | 'monitor' | 'scope' | 'bode' | 'bus' | 'logic' | 'bench' | 'erc' | 'agent' | 'docs'
 
 interface WorkspaceFloatingPanelsProps {
   gridData: DevicePanelProps['gridData']
@@ -32,6 +38,18 @@ interface WorkspaceFloatingPanelsProps {
   showExamplesDocs?: boolean
   examplesSchematicId?: string
   examplesSchematicName?: string
+  /** The project's communications requirement, checked against wired buses. */
+  commsProtocol?: string
+  /** The schematic's stimulus script, edited and run on the Bench tab. */
+  testBench?: string
+  onTestBenchChange?: (script: string) => void
+  /** Pin states of the running sketch, for the ERC tab's input and output checks. */
+  gpioStates?: Map<number, any>
+  /** ERC violations the schematic has waived. */
+  ercWaivers?: string[]
+  onErcWaiversChange?: (waivers: string[]) => void
+  /** Highlights the cells of the violation picked on the ERC tab (null clears). */
+  onErcHighlight?: (cells: Array<{ x: number; y: number }> | null) => void
 }
 
 const BASE_TABS: Array<{
@@ -42,6 +60,12 @@ const BASE_TABS: Array<{
   { id: 'device', label: 'Device', icon: Cpu },
   { id: 'power', label: 'Power', icon: Zap },
   { id: 'monitor', label: 'Monitor', icon: Activity },
+  { id: 'scope', label: 'Scope', icon: Waves },
+  { id: 'bode', label: 'Bode', icon: LineChart },
+  { id: 'bus', label: 'Bus', icon: Cable },
+  { id: 'logic', label: 'Logic', icon: Binary },
+  { id: 'bench', label: 'Bench', icon: FlaskConical },
+  { id: 'erc', label: 'ERC', icon: ShieldAlert },
   { id: 'agent', label: 'Agent', icon: Sparkles },
 ]
 
@@ -64,6 +88,13 @@ export function WorkspaceFloatingPanels({
   showExamplesDocs = false,
   examplesSchematicId,
   examplesSchematicName,
+  commsProtocol,
+  testBench = '',
+  onTestBenchChange,
+  gpioStates,
+  ercWaivers = [],
+  onErcWaiversChange,
+  onErcHighlight,
 }: WorkspaceFloatingPanelsProps) {
   const { ensureExpanded, showAgentChrome } = useAgent()
 
@@ -154,9 +185,9 @@ export function WorkspaceFloatingPanels({
         </div>
 
         <div className="min-h-0 flex-1 overflow-hidden">
-          {/* Device, Power and Monitor panels stay mounted and are hidden with
-              CSS so a running simulation (owned by DevicePanel state) survives
-              tab switches instead of being torn down. */}
+          {/* Device, Power, Monitor and Scope panels stay mounted and are hidden
+              with CSS so a running simulation (owned by DevicePanel state) and
+              the scope's probes survive tab switches instead of being torn down. */}
           <div className={`h-full min-h-0 ${activeTab === 'device' ? '' : 'hidden'}`}>
             <DevicePanel
               embedded
@@ -197,6 +228,80 @@ export function WorkspaceFloatingPanels({
               expanded
             />
           </div>
+          <div className={`h-full min-h-0 ${activeTab === 'scope' ? '' : 'hidden'}`}>
+            <ScopePanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded={activeTab === 'scope'}
+              gridData={gridData}
+              wires={wires}
+              componentStates={componentStates}
+            />
+          </div>
+          {activeTab === 'bode' && (
+            <FrequencyResponsePanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded
+              gridData={gridData}
+              wires={wires}
+            />
+          )}
+          <div className={`h-full min-h-0 ${activeTab === 'bus' ? '' : 'hidden'}`}>
+            <BusAnalyzerPanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded={activeTab === 'bus'}
+              gridData={gridData}
+              wires={wires}
+              commsProtocol={commsProtocol}
+            />
+          </div>
+          <div className={`h-full min-h-0 ${activeTab === 'logic' ? '' : 'hidden'}`}>
+            <LogicAnalyzerPanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded={activeTab === 'logic'}
+              gridData={gridData}
+              wires={wires}
+            />
+          </div>
+          {activeTab === 'bench' && (
+            <TestBenchPanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded
+              gridData={gridData}
+              wires={wires}
+              script={testBench}
+              onScriptChange={(script) => onTestBenchChange?.(script)}
+            />
+          )}
+          {activeTab === 'erc' && (
+            <ErcPanel
+              embedded
+              floating
+              stacked
+              hideHeader
+              expanded
+              gridData={gridData}
+              wires={wires}
+              gpioStates={gpioStates}
+              waivers={ercWaivers}
+              onWaiversChange={(waivers) => onErcWaiversChange?.(waivers)}
+              onHighlight={onErcHighlight}
+            />
+          )}
           {activeTab === 'agent' && (
             <AgentPanel embedded floating docked className="h-full min-h-0 flex-1" />
           )}
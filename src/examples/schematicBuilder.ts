@@ -329,9 +329,15 @@ export function buildSchematic(
   components.forEach((c) => {
     const cell = gridData[c.y]?.[c.x]
     if (!cell) return
-    const ext = c as OccupiedComponent & { resistance?: number; capacitance?: number; wiperPosition?: number }
+    const ext = c as OccupiedComponent & {
+      resistance?: number
+      capacitance?: number
+      inductance?: number
+      wiperPosition?: number
+    }
     if (ext.resistance != null) cell.resistance = ext.resistance
     if (ext.capacitance != null) cell.capacitance = ext.capacitance
+    if (ext.inductance != null) cell.inductance = ext.inductance
     if (ext.wiperPosition != null && c.moduleDefinition?.grid[c.cellIndex ?? 0]?.pin === 'W') {
       cell.wiperPosition = ext.wiperPosition
     }
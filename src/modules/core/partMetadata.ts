@@ -744,6 +744,31 @@ export const PART_METADATA: Record<string, PartMetadata> = {
     partNumber: 'SW-520D',
     manufacturer: 'Generic',
   },
+  Thermistor: {
+    partNumber: 'NTCLE100E3103JB0',
+    manufacturer: 'Vishay',
+    datasheet: 'https://www.vishay.com/docs/29049/ntcle100.pdf',
+  },
+  'Position Sensor': {
+    partNumber: 'PTA6043-2015DPB103',
+    manufacturer: 'Bourns',
+    datasheet: 'https://www.bourns.com/docs/Product-Datasheets/PTA.pdf',
+  },
+  'PIR Motion Sensor': {
+    partNumber: 'HC-SR501',
+    manufacturer: 'Generic',
+    datasheet: 'https://www.mpja.com/download/31227sc.pdf',
+  },
+  'Distance Sensor': {
+    partNumber: 'GP2Y0A21YK0F',
+    manufacturer: 'Sharp',
+    datasheet: 'https://global.sharp/products/device/lineup/data/pdf/datasheet/gp2y0a21yk_e.pdf',
+  },
+  Accelerometer: {
+    partNumber: 'ADXL335BCPZ',
+    manufacturer: 'Analog Devices',
+    datasheet: 'https://www.analog.com/media/en/technical-documentation/data-sheets/ADXL335.pdf',
+  },
 
   // ── Wireless anchors ──────────────────────────────────────────────────────
   Antenna: {
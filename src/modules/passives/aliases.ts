@@ -91,7 +91,7 @@ export const passiveAliases: AliasSpec[] = [
   },
   {
     name: 'NTC Thermistor',
-    anchor: 'Resistor',
+    anchor: 'Thermistor',
     category: 'passives',
     paletteGroup: 'resistors',
     kicadSymbol: 'Device/Thermistor.kicad_sym',
@@ -149,14 +149,6 @@ export const passiveAliases: AliasSpec[] = [
     description: 'Light-sensitive diode (simplified as resistive sensor)',
     keywords: ['photodiode', 'light', 'sensor'],
   },
-  {
-    name: 'Photoresistor',
-    anchor: 'Resistor',
-    category: 'sensors',
-    kicadSymbol: 'Device/Thermistor.kicad_sym',
-    description: 'Light-dependent resistor (LDR)',
-    keywords: ['photoresistor', 'ldr', 'cds', 'light'],
-  },
   {
     name: 'Moisture Sensor',
     anchor: 'Resistor',
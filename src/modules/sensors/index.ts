@@ -3,14 +3,58 @@ import type { ModuleRegistryEntry } from '../core/registryTypes'
 import { SensorType } from '../types/Sensor'
 
 import TemperatureSensor from './definitions/TemperatureSensor.json'
+import Thermistor from './definitions/Thermistor.json'
+import Photoresistor from './definitions/Photoresistor.json'
+import PositionSensor from './definitions/PositionSensor.json'
+import PIRMotionSensor from './definitions/PIRMotionSensor.json'
+import DistanceSensor from './definitions/DistanceSensor.json'
+import Accelerometer from './definitions/Accelerometer.json'
 
 export const sensorAnchors: Record<string, ModuleRegistryEntry> = {
   'Temperature Sensor': {
     definition: TemperatureSensor as ModuleDefinition,
     type: SensorType,
     category: 'sensors',
-    keywords: ['temperature', 'thermistor', 'ds18b20'],
+    keywords: ['temperature', 'ds18b20', '1-wire', 'onewire', 'digital'],
+  },
+  Thermistor: {
+    definition: Thermistor as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['thermistor', 'ntc', 'temperature', 'analog'],
+  },
+  Photoresistor: {
+    definition: Photoresistor as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['photoresistor', 'ldr', 'cds', 'light'],
+  },
+  'Position Sensor': {
+    definition: PositionSensor as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['position', 'linear', 'displacement', 'slide', 'potentiometric'],
+  },
+  'PIR Motion Sensor': {
+    definition: PIRMotionSensor as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['pir', 'motion', 'hc-sr501', 'infrared', 'presence'],
+  },
+  'Distance Sensor': {
+    definition: DistanceSensor as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['distance', 'proximity', 'sharp', 'gp2y0a21', 'infrared', 'ir'],
+  },
+  Accelerometer: {
+    definition: Accelerometer as ModuleDefinition,
+    type: SensorType,
+    category: 'sensors',
+    keywords: ['accelerometer', 'adxl335', 'tilt', 'imu', 'g-force'],
   },
 }
 
 export const sensorAliases: never[] = []
+
+export { SENSOR_ANCHOR_LOGIC, SENSOR_MODULE_TYPES, isSensorModule } from './logic'
@@ -6,7 +6,61 @@ export const SENSOR_ANCHOR_LOGIC: AnchorLogicProfile[] = [
     domain: 'sensors',
     category: 'sensors',
     kicadSymbol: 'Device/Thermistor.kicad_sym',
-    chain: 'TBD — finish sensor chain',
-    sim: 'TBD — finish sensor sim',
+    chain: 'systems/chain/components/registry.ts → VCC→GND supply; DATA isolated',
+    sim: 'systems/chain/sensorStamps.ts → idle load + DQ bleed; services/OneWire.ts → DS18B20 on 1-Wire',
+  },
+  {
+    anchorId: 'Thermistor',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Device/Thermistor.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → LEAD↔LEAD',
+    sim: 'systems/chain/sensorStamps.ts → R from β equation at the stimulus temperature',
+  },
+  {
+    anchorId: 'Photoresistor',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Device/Thermistor.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → LEAD↔LEAD',
+    sim: 'systems/chain/sensorStamps.ts → R = R10·(lux/10)^−γ, capped at dark resistance',
+  },
+  {
+    anchorId: 'Position Sensor',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Device/R_Potentiometer.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → A↔W↔B',
+    sim: 'systems/chain/sensorStamps.ts → track split at the stimulus position',
+  },
+  {
+    anchorId: 'PIR Motion Sensor',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Connector/Conn_01x04.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → VCC→GND supply; OUT isolated',
+    sim: 'systems/chain/sensorStamps.ts → idle load + OUT driven to outputHigh while motion is on',
+  },
+  {
+    anchorId: 'Distance Sensor',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Connector/Conn_01x04.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → VCC→GND supply; VOUT isolated',
+    sim: 'systems/chain/sensorStamps.ts → idle load + VOUT from the GP2Y0A21 distance curve',
+  },
+  {
+    anchorId: 'Accelerometer',
+    domain: 'sensors',
+    category: 'sensors',
+    kicadSymbol: 'Connector/Conn_01x04.kicad_sym',
+    chain: 'systems/chain/components/registry.ts → VCC→GND supply; X/Y/Z isolated',
+    sim: 'systems/chain/sensorStamps.ts → idle load + ratiometric X/Y/Z dividers off VCC',
   },
 ]
+
+export const SENSOR_MODULE_TYPES = new Set(SENSOR_ANCHOR_LOGIC.map((p) => p.anchorId))
+
+export function isSensorModule(moduleType: string): boolean {
+  return SENSOR_MODULE_TYPES.has(moduleType)
+}
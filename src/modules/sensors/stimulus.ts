@@ -0,0 +1,53 @@
+/**
+ * What the world does to each sensor, as the Controls panel exposes it. Values
+ * live on the part's body cell as `sensorInputs` (keyed by `key`); anything
+ * unset reads as `default`.
+ */
+export interface SensorStimulus {
+  key: string
+  label: string
+  unit: string
+  min: number
+  max: number
+  step: number
+  default: number
+  /** Slider travel is logarithmic (light spans decades) */
+  log?: boolean
+  /** Two-state stimulus shown as a toggle (0 / 1) */
+  toggle?: boolean
+}
+
+const temperature = (min: number, max: number): SensorStimulus => ({
+  key: 'temperature',
+  label: 'Temperature',
+  unit: '°C',
+  min,
+  max,
+  step: 0.5,
+  default: 25,
+})
+
+const axis = (key: 'x' | 'y' | 'z', rest: number): SensorStimulus => ({
+  key,
+  label: `${key.toUpperCase()} axis`,
+  unit: 'g',
+  min: -3,
+  max: 3,
+  step: 0.05,
+  default: rest,
+})
+
+export const SENSOR_STIMULI: Record<string, SensorStimulus[]> = {
+  'Temperature Sensor': [temperature(-55, 125)],
+  Thermistor: [temperature(-40, 125)],
+  Photoresistor: [{ key: 'illuminance', label: 'Light', unit: 'lx', min: 0.1, max: 100_000, step: 0.01, default: 100, log: true }],
+  'Position Sensor': [{ key: 'position', label: 'Position', unit: '%', min: 0, max: 100, step: 1, default: 50 }],
+  'PIR Motion Sensor': [{ key: 'motion', label: 'Motion', unit: '', min: 0, max: 1, step: 1, default: 0, toggle: true }],
+  'Distance Sensor': [{ key: 'distance', label: 'Distance', unit: 'cm', min: 10, max: 80, step: 1, default: 30 }],
+  // Lying flat: 1 g on Z
+  Accelerometer: [axis('x', 0), axis('y', 0), axis('z', 1)],
+}
+
+export function sensorStimuli(moduleType: string): SensorStimulus[] {
+  return SENSOR_STIMULI[moduleType] ?? []
+}
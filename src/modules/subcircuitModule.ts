@@ -0,0 +1,96 @@
+import type { ModuleDefinition } from './types'
+import type { SubcircuitBlock, SubcircuitContent } from '../types/workspace'
+
+export const SUBCIRCUIT_LOGIC_MODULE = 'Subcircuit'
+
+const PIN_CSS =
+  'background:#0E7490;color:white;font-size:8px;font-weight:bold;display:flex;align-items:center;justify-content:center;overflow:hidden;'
+const BODY_CSS = 'background:#164E63;'
+
+/**
+ * Placeable definition for a project block: ports down the left column, then
+ * the right, with the block's contents carried in `properties.subcircuit` so
+ * any saved schematic solves without looking the block up again. `module` is
+ * the fixed `Subcircuit` id so a block named after a part ("LED", "ESP32
+ * board") is never taken for one; the user's name is `properties.name`.
+ */
+export function buildSubcircuitDefinition(block: SubcircuitBlock): ModuleDefinition {
+  const rows = Math.max(2, Math.ceil(block.ports.length / 2))
+  const leftCount = Math.ceil(block.ports.length / 2)
+  const grid: ModuleDefinition['grid'] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let x = 0; x < 3; x++) {
+      const port =
+        x === 0 ? (row < leftCount ? block.ports[row] : undefined) : x === 2 ? block.ports[leftCount + row] : undefined
+      if (port) {
+        grid.push({
+          x,
+          y: row,
+          type: 'PIN',
+          pin: port.name,
+          isConnectable: true,
+          isPowerable: true,
+          isGroundable: true,
+          css: PIN_CSS,
+        })
+      } else {
+        grid.push({ x, y: row, type: 'DUMMY', isConnectable: false, css: BODY_CSS })
+      }
+    }
+  }
+
+  const content: SubcircuitContent = {
+    components: block.components,
+    wires: block.wires,
+    ports: block.ports,
+    width: block.width,
+    height: block.height,
+  }
+
+  return {
+    module: SUBCIRCUIT_LOGIC_MODULE,
+    logicModule: SUBCIRCUIT_LOGIC_MODULE,
+    gridX: 3,
+    gridY: rows,
+    background: '#164E63',
+    css: 'border-radius: 6px; border: 1px solid #22D3EE;',
+    category: 'project-blocks',
+    description: block.description || `Project block · ${block.ports.map((p) => p.name).join(', ') || 'no ports'}`,
+    grid,
+    properties: {
+      name: block.name,
+      blockId: block.id,
+      subcircuit: content,
+    },
+  } as ModuleDefinition
+}
+
+export function isSubcircuitModule(
+  definition: Pick<ModuleDefinition, 'module' | 'logicModule'> | null | undefined
+): boolean {
+  return definition?.logicModule === SUBCIRCUIT_LOGIC_MODULE
+}
+
+function subcircuitProperties(definition: ModuleDefinition | null | undefined): Record<string, unknown> | undefined {
+  if (!isSubcircuitModule(definition)) return undefined
+  return (definition as ModuleDefinition & { properties?: Record<string, unknown> }).properties
+}
+
+/** What to call a module in the UI: a block's own name, otherwise the module id. */
+export function moduleDisplayName(definition: ModuleDefinition): string {
+  const name = subcircuitProperties(definition)?.name
+  return typeof name === 'string' && name ? name : definition.module
+}
+
+/** The project block a definition places, if it is one. */
+export function subcircuitBlockId(definition: ModuleDefinition | null | undefined): string | undefined {
+  const blockId = subcircuitProperties(definition)?.blockId
+  return typeof blockId === 'string' ? blockId : undefined
+}
+
+export function readSubcircuitContent(definition: ModuleDefinition | null | undefined): SubcircuitContent | null {
+  const content = subcircuitProperties(definition)?.subcircuit as SubcircuitContent | undefined
+  if (!content || !Array.isArray(content.components) || !Array.isArray(content.ports)) return null
+  return content
+}
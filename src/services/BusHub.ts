@@ -0,0 +1,391 @@
+/**
+ * Digital buses between simulated parts. UART links forward what one serial
+ * port transmits to the RX of another; I2C and SPI controllers (the AVR's TWI
+ * and SPI hardware, or sketch calls replayed by the pattern matcher) reach the
+ * modules wired to them through a `BusPort`, as do the 1-Wire lines their
+ * GPIOs bit-bang. Every exchange is logged as a decoded transaction for the
+ * bus analyzer.
+ */
+
+import type { BusLink, BusKind, UartLink } from '../systems/chain/buses'
+import { createOneWireDevice, OneWireLine, type OneWireDevice, type OneWireEvent } from './OneWire'
+import { baudRatesMatch, getSerialChannel } from './SerialMonitor'
+
+const MAX_TRANSACTIONS = 500
+/** UART bytes closer together than this read as one burst in the analyzer. */
+const UART_BURST_GAP_MS = 20
+const UART_BURST_MAX_BYTES = 64
+
+export type BusTransaction =
+  | { kind: 'uart'; timestamp: number; from: string; to: string; bytes: number[]; garbled: boolean }
+  | {
+      kind: 'i2c'
+      timestamp: number
+      controller: string
+      address: number
+      read: boolean
+      /** Device that answered the address, if any */
+      device: string | null
+      bytes: number[]
+      acked: boolean
+    }
+  | { kind: 'spi'; timestamp: number; controller: string; devices: string[]; mosi: number[]; miso: number[] }
+  | {
+      kind: 'onewire'
+      timestamp: number
+      controller: string
+      gpio: number
+      devices: string[]
+      /** Whether a device answered the reset */
+      presence: boolean
+      /** Bytes on the wire after the reset, in either direction */
+      bytes: number[]
+    }
+
+/** What a microcontroller's I2C and SPI hardware talk to. */
+export interface BusPort {
+  /** START and address; true when a device acknowledged. */
+  i2cStart(address: number, read: boolean): boolean
+  /** One data byte to the addressed device; true when acknowledged. */
+  i2cWrite(byte: number): boolean
+  /** One byte from the addressed device (0xFF when nobody answers). */
+  i2cRead(): number
+  i2cStop(): void
+  /** Clock a byte out to every device whose chip select is low; returns MISO (0xFF when undriven). */
+  spiTransfer(byte: number, isLow: (gpio: number) => boolean): number
+  /** Chip selects may have moved; a deselected device ends the open SPI transaction. */
+  spiChipSelects(isLow: (gpio: number) => boolean): void
+  /** The 1-Wire line on a GPIO, or null when no 1-Wire device is wired there. */
+  oneWire(gpio: number): OneWireLine | null
+}
+
+/** Addressable register file: the first byte written after START sets the register pointer. */
+class RegisterDevice {
+  private registers = new Uint8Array(256)
+  private pointer = 0
+  private expectPointer = false
+
+  start(read: boolean): void {
+    this.expectPointer = !read
+  }
+
+  write(byte: number): void {
+    if (this.expectPointer) {
+      this.pointer = byte
+      this.expectPointer = false
+      return
+    }
+    this.registers[this.pointer] = byte
+    this.pointer = (this.pointer + 1) & 0xff
+  }
+
+  read(): number {
+    const byte = this.registers[this.pointer]
+    this.pointer = (this.pointer + 1) & 0xff
+    return byte
+  }
+}
+
+/** Shift-register SPI device: MISO clocks out the byte received before. */
+class ShiftDevice {
+  private last = 0xff
+
+  transfer(byte: number): number {
+    const out = this.last
+    this.last = byte
+    return out
+  }
+
+  release(): void {
+    this.last = 0xff
+  }
+}
+
+type UartTransaction = Extract<BusTransaction, { kind: 'uart' }>
+type I2cTransaction = Extract<BusTransaction, { kind: 'i2c' }>
+type SpiTransaction = Extract<BusTransaction, { kind: 'spi' }>
+type OneWireTransaction = Extract<BusTransaction, { kind: 'onewire' }>
+
+/** Which parts a transaction involves, for per-component filtering. */
+export function transactionParts(transaction: BusTransaction): string[] {
+  switch (transaction.kind) {
+    case 'uart':
+      return [transaction.from, transaction.to]
+    case 'i2c':
+      return transaction.device ? [transaction.controller, transaction.device] : [transaction.controller]
+    case 'spi':
+    case 'onewire':
+      return [transaction.controller, ...transaction.devices]
+  }
+}
+
+export class BusHub {
+  private links: BusLink[] = []
+  private signature = ''
+  private teardown: Array<() => void> = []
+  private transactions: BusTransaction[] = []
+  private listeners = new Set<() => void>()
+  private uartBursts = new Map<string, { transaction: UartTransaction; lastAt: number }>()
+  private openI2c = new Map<string, { transaction: I2cTransaction; device: RegisterDevice | null }>()
+  private openSpi = new Map<string, SpiTransaction>()
+  private registerDevices = new Map<string, RegisterDevice>()
+  private shiftDevices = new Map<string, ShiftDevice>()
+  private oneWireLines = new Map<string, OneWireLine>()
+  /** Kept across rewiring so a DS18B20 keeps its scratchpad and last conversion. */
+  private oneWireDevices = new Map<string, OneWireDevice>()
+
+  /** Adopt the buses wired on the sheet; a no-op when the topology is unchanged. */
+  configure(links: BusLink[]): void {
+    const signature = JSON.stringify(links)
+    if (signature === this.signature) return
+    this.signature = signature
+    this.links = links
+    this.teardown.forEach((detach) => detach())
+    this.teardown = []
+    this.uartBursts.clear()
+    this.openI2c.clear()
+    this.openSpi.clear()
+
+    const byTransmitter = new Map<string, UartLink[]>()
+    for (const link of links) {
+      if (link.kind !== 'uart') continue
+      const key = `${link.tx.componentId}:${link.tx.pin}`
+      byTransmitter.set(key, [...(byTransmitter.get(key) ?? []), link])
+    }
+    byTransmitter.forEach((group) => this.teardown.push(this.routeUart(group)))
+
+    this.oneWireLines.clear()
+    for (const link of links) {
+      if (link.kind !== 'onewire') continue
+      const devices = link.devices.flatMap(({ componentId, moduleType }) => {
+        const device = this.oneWireDevices.get(componentId) ?? createOneWireDevice(componentId, moduleType)
+        if (device) this.oneWireDevices.set(componentId, device)
+        return device ? [device] : []
+      })
+      const line = new OneWireLine(devices)
+      line.listeners.push(this.logOneWire(link.controller, link.gpio, devices))
+      this.oneWireLines.set(`${link.controller}:${link.gpio}`, line)
+    }
+    this.notify()
+  }
+
+  getLinks(): BusLink[] {
+    return this.links
+  }
+
+  /** Bus kinds currently wired, in first-seen order. */
+  getKinds(): BusKind[] {
+    return [...new Set(this.links.map((link) => link.kind))]
+  }
+
+  getTransactions(): BusTransaction[] {
+    return this.transactions.map((transaction) => copyTransaction(transaction))
+  }
+
+  /** Stimulus values for a 1-Wire device (the DS18B20's temperature). */
+  setSensorInputs(componentId: string, inputs: Record<string, number>): void {
+    this.oneWireDevices.get(componentId)?.setInputs(inputs)
+  }
+
+  clear(): void {
+    this.transactions = []
+    this.uartBursts.clear()
+    this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** The I2C, SPI and 1-Wire controller side for one microcontroller. */
+  port(controllerId: string): BusPort {
+    return {
+      i2cStart: (address, read) => this.i2cStart(controllerId, address, read),
+      i2cWrite: (byte) => this.i2cWrite(controllerId, byte),
+      i2cRead: () => this.i2cRead(controllerId),
+      i2cStop: () => {
+        this.openI2c.delete(controllerId)
+      },
+      spiTransfer: (byte, isLow) => this.spiTransfer(controllerId, byte, isLow),
+      spiChipSelects: (isLow) => this.spiChipSelects(controllerId, isLow),
+      oneWire: (gpio) => this.oneWireLines.get(`${controllerId}:${gpio}`) ?? null,
+    }
+  }
+
+  /**
+   * Forward one transmitter to every RX on its net. Microcontrollers transmit
+   * through their serial port; bridge modules (USB-UART, Bluetooth) transmit
+   * what is typed into their own monitor, and show what they receive there.
+   */
+  private routeUart(group: UartLink[]): () => void {
+    const { tx } = group[0]
+    const source = getSerialChannel(tx.componentId)
+    const deliver = (bytes: number[]) => {
+      for (const { rx } of group) {
+        const target = getSerialChannel(rx.componentId)
+        const garbled = rx.controller
+          ? source.deviceBaud !== null && target.deviceBaud !== null && !baudRatesMatch(source.deviceBaud, target.deviceBaud)
+          : false
+        if (rx.controller) {
+          target.receive(bytes, source.deviceBaud)
+        } else {
+          // A bridge runs at whatever its transmitter does.
+          if (source.deviceBaud !== null) target.deviceBaud = source.deviceBaud
+          target.deviceWrite(bytes)
+        }
+        this.logUart(`${tx.componentId}>${rx.componentId}`, tx.componentId, rx.componentId, bytes, garbled)
+      }
+    }
+    return tx.controller ? source.onTransmit(deliver) : source.attachDevice(deliver)
+  }
+
+  private logUart(key: string, from: string, to: string, bytes: number[], garbled: boolean): void {
+    const now = Date.now()
+    const open = this.uartBursts.get(key)
+    const last = open?.transaction.bytes[open.transaction.bytes.length - 1]
+    if (
+      open &&
+      now - open.lastAt < UART_BURST_GAP_MS &&
+      last !== 0x0a &&
+      open.transaction.bytes.length < UART_BURST_MAX_BYTES &&
+      open.transaction.garbled === garbled
+    ) {
+      open.transaction.bytes.push(...bytes)
+      open.lastAt = now
+    } else {
+      const transaction: UartTransaction = { kind: 'uart', timestamp: now, from, to, bytes: [...bytes], garbled }
+      this.push(transaction)
+      this.uartBursts.set(key, { transaction, lastAt: now })
+    }
+    this.notify()
+  }
+
+  private i2cStart(controllerId: string, address: number, read: boolean): boolean {
+    const bus = this.links.find((link) => link.kind === 'i2c' && link.controllers.includes(controllerId))
+    const target = bus?.kind === 'i2c' ? bus.devices.find((device) => device.address === address) : undefined
+    let device: RegisterDevice | null = null
+    if (target) {
+      device = this.registerDevices.get(target.componentId) ?? new RegisterDevice()
+      this.registerDevices.set(target.componentId, device)
+      device.start(read)
+    }
+    const transaction: I2cTransaction = {
+      kind: 'i2c',
+      timestamp: Date.now(),
+      controller: controllerId,
+      address,
+      read,
+      device: target?.componentId ?? null,
+      bytes: [],
+      acked: device !== null,
+    }
+    this.push(transaction)
+    this.openI2c.set(controllerId, { transaction, device })
+    this.notify()
+    return device !== null
+  }
+
+  private i2cWrite(controllerId: string, byte: number): boolean {
+    const open = this.openI2c.get(controllerId)
+    if (!open?.device || open.transaction.read) return false
+    open.device.write(byte)
+    open.transaction.bytes.push(byte)
+    this.notify()
+    return true
+  }
+
+  private i2cRead(controllerId: string): number {
+    const open = this.openI2c.get(controllerId)
+    if (!open?.device || !open.transaction.read) return 0xff
+    const byte = open.device.read()
+    open.transaction.bytes.push(byte)
+    this.notify()
+    return byte
+  }
+
+  private selectedSpiDevices(controllerId: string, isLow: (gpio: number) => boolean) {
+    const bus = this.links.find((link) => link.kind === 'spi' && link.controller === controllerId)
+    if (bus?.kind !== 'spi') return []
+    return bus.devices.filter((device) => device.cs === 'low' || (typeof device.cs === 'number' && isLow(device.cs)))
+  }
+
+  private spiTransfer(controllerId: string, byte: number, isLow: (gpio: number) => boolean): number {
+    const selected = this.selectedSpiDevices(controllerId, isLow)
+    const ids = selected.map((device) => device.componentId)
+    let transaction = this.openSpi.get(controllerId)
+    if (!transaction || transaction.devices.join() !== ids.join()) {
+      transaction = { kind: 'spi', timestamp: Date.now(), controller: controllerId, devices: ids, mosi: [], miso: [] }
+      this.push(transaction)
+      this.openSpi.set(controllerId, transaction)
+    }
+    // Devices sharing MISO pull it down together.
+    let miso = 0xff
+    for (const device of selected) {
+      const shifter = this.shiftDevices.get(device.componentId) ?? new ShiftDevice()
+      this.shiftDevices.set(device.componentId, shifter)
+      const out = shifter.transfer(byte)
+      if (device.miso) miso &= out
+    }
+    transaction.mosi.push(byte)
+    transaction.miso.push(miso)
+    this.notify()
+    return miso
+  }
+
+  private spiChipSelects(controllerId: string, isLow: (gpio: number) => boolean): void {
+    const transaction = this.openSpi.get(controllerId)
+    if (!transaction) return
+    const selected = new Set(this.selectedSpiDevices(controllerId, isLow).map((device) => device.componentId))
+    const released = transaction.devices.filter((id) => !selected.has(id))
+    if (released.length === 0 && selected.size === transaction.devices.length) return
+    released.forEach((id) => this.shiftDevices.get(id)?.release())
+    this.openSpi.delete(controllerId)
+  }
+
+  /** One transaction per reset, collecting the bytes that follow it. */
+  private logOneWire(controller: string, gpio: number, devices: OneWireDevice[]): (event: OneWireEvent) => void {
+    let open: OneWireTransaction | null = null
+    return (event) => {
+      if (event.kind === 'reset') {
+        open = {
+          kind: 'onewire',
+          timestamp: Date.now(),
+          controller,
+          gpio,
+          devices: devices.map((device) => device.componentId),
+          presence: event.presence,
+          bytes: [],
+        }
+        this.push(open)
+      } else if (open) {
+        open.bytes.push(event.byte)
+      }
+      this.notify()
+    }
+  }
+
+  private push(transaction: BusTransaction): void {
+    this.transactions.push(transaction)
+    if (this.transactions.length > MAX_TRANSACTIONS) this.transactions.splice(0, this.transactions.length - MAX_TRANSACTIONS)
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+function copyTransaction(transaction: BusTransaction): BusTransaction {
+  switch (transaction.kind) {
+    case 'uart':
+      return { ...transaction, bytes: [...transaction.bytes] }
+    case 'i2c':
+      return { ...transaction, bytes: [...transaction.bytes] }
+    case 'spi':
+      return { ...transaction, devices: [...transaction.devices], mosi: [...transaction.mosi], miso: [...transaction.miso] }
+    case 'onewire':
+      return { ...transaction, devices: [...transaction.devices], bytes: [...transaction.bytes] }
+  }
+}
+
+export const busHub = new BusHub()
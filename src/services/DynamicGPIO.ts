@@ -1,17 +1,72 @@
+import { AvrFirmwareGPIO } from './avr/AvrFirmwareGPIO'
+import { FirmwareFormatError } from './avr/firmware'
+import { busHub, type BusPort } from './BusHub'
+import {
+  ATMEGA328P_INPUT_PROFILE,
+  adcReading,
+  compareReading,
+  digitalInputLevel,
+  touchReading,
+  type ComparisonOp,
+  type McuInputProfile,
+} from './gpioInputs'
+import { logicCapture, type LogicProbe } from './LogicCapture'
+import { getSerialChannel, type SerialChannel } from './SerialMonitor'
+import { compileSketchSerial, SketchSerialRunner, type SketchSerialProgram } from './sketchSerial'
+
 export interface DynamicGPIOState {
   pin: number
   state: 'HIGH' | 'LOW' | 'PULSING' | 'INPUT'
   value: number
   timestamp: number
-  pattern?: 'BLINK' | 'FADE' | 'STATIC' | 'RANDOM'
+  pattern?: GPIOPattern
   frequency?: number // Hz for blinking
   dutyCycle?: number // 0-1 for pulse width
   microcontrollerId?: string // Added for multi-microcontroller support
 }
 
+export type GPIOPattern = 'BLINK' | 'FADE' | 'STATIC' | 'RANDOM' | 'FOLLOW' | 'INPUT' | 'SEQUENCE' | 'LATCH'
+
+/** An output that follows what the sketch reads on another pin. */
+export interface GPIOInputLink {
+  /** Pin read, keyed like the solver's GPIO map (A0 → 100) */
+  pin: number
+  read: 'digital' | 'analog' | 'touch'
+  /** `!digitalRead(pin)` */
+  negate?: boolean
+  /** Output is HIGH while `reading <op> value` holds; without it, while the reading is non-zero */
+  compare?: { op: ComparisonOp; value: number }
+  /** The sketch writes LOW when the condition holds (`if (...) digitalWrite(pin, LOW)`) */
+  activeLow?: boolean
+  /** analogWrite follower: reading range [inLow, inHigh] mapped onto [outLow, outHigh] of 255 */
+  scale?: [number, number, number, number]
+}
+
+/** A level a SEQUENCE output holds from `at` ms into its pass. */
+export interface GPIOSequenceStep {
+  at: number
+  dutyCycle: number
+  /** Pulse train while the step lasts (a tone, servo frames); 0 for a steady level */
+  frequency: number
+  /** Duty reached, linearly, `rampMs` after `at` (servo sweeps) */
+  rampTo?: number
+  rampMs?: number
+}
+
+export type InterruptMode = 'RISING' | 'FALLING' | 'CHANGE' | 'LOW' | 'HIGH'
+
+/** What an `attachInterrupt` handler does to an output when its pin's edge arrives. */
+export interface GPIOInterruptLink {
+  /** Pin the interrupt watches, keyed like the solver's GPIO map */
+  pin: number
+  /** LOW and HIGH fire once on entering the level; the handler can't run continuously here */
+  mode: InterruptMode
+  action: 'toggle' | 'high' | 'low'
+}
+
 export interface GPIOAnimation {
   pin: number
-  pattern: 'BLINK' | 'FADE' | 'STATIC' | 'RANDOM'
+  pattern: GPIOPattern
   frequency: number
   dutyCycle: number
   startTime: number
@@ -20,10 +75,25 @@ export interface GPIOAnimation {
   minDutyCycle?: number
   /** Triangle ramp upper bound (0–1), used for for-loop analogWrite ramps */
   maxDutyCycle?: number
+  /** FOLLOW: the read this output tracks */
+  input?: GPIOInputLink
+  /** INPUT: `pinMode(pin, INPUT_PULLUP)` */
+  pullup?: boolean
+  /** SEQUENCE: the pin's levels over one pass, from tone()/noTone() and Servo writes between delays */
+  steps?: GPIOSequenceStep[]
+  /** SEQUENCE: pass length in ms (loop()); without it the steps play once and the last holds */
+  periodMs?: number
+  /** LATCH: the interrupt that changes this output; `dutyCycle` is its level before the first edge */
+  interrupt?: GPIOInterruptLink
 }
 
 const ARDUINO_BUILTIN_PINS: Record<string, number> = {
   LED_BUILTIN: 13,
+  // Analog pins use the solver's GPIO keys
+  A0: 100, A1: 101, A2: 102, A3: 103, A4: 104, A5: 105, A6: 106, A7: 107,
+  // ESP32 core: touch pads and DAC channels by their GPIO
+  T0: 4, T1: 0, T2: 2, T3: 15, T4: 13, T5: 12, T6: 14, T7: 27, T8: 33, T9: 32,
+  DAC1: 25, DAC2: 26,
 }
 
 /** Strip // and block comments so regex analysis matches real sketch style. */
@@ -41,7 +111,7 @@ export function extractPinConstants(code: string): Map<string, number> {
   }
 
   for (const match of cleaned.matchAll(
-    /const\s+(?:unsigned\s+)?(?:int|char|byte|uint8_t)\s+([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(\d+)/g
+    /const\s+(?:unsigned\s+)?(?:int|char|byte|long|short|word|uint8_t|uint16_t|uint32_t)\s+([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(\d+)/g
   )) {
     constants.set(match[1], parseInt(match[2], 10))
   }
@@ -57,10 +127,173 @@ export function resolvePinArg(arg: string, constants: Map<string, number>): numb
 }
 
 const DIGITAL_WRITE_RE = /digitalWrite\s*\(\s*([^,\s)]+)\s*,\s*(HIGH|LOW)\s*\)/
+const DIGITAL_WRITE_RE_G = new RegExp(DIGITAL_WRITE_RE.source, 'g')
 const ANALOG_WRITE_RE = /analogWrite\s*\(\s*([^,\s)]+)\s*,\s*([^)]+)\s*\)/
 const DELAY_RE = /delay\s*\(\s*(\d+)\s*\)/
 const FOR_RAMP_UP_RE =
   /for\s*\(\s*int\s+(\w+)\s*=\s*(\w+)\s*;\s*\1\s*<=\s*(\w+)\s*;\s*\1\+\+/
+const PIN_MODE_INPUT_RE = /pinMode\s*\(\s*([^,\s)]+)\s*,\s*(INPUT_PULLUP|INPUT)\s*\)/g
+const READ_CALL_RE = /^(digitalRead|analogRead|touchRead)\s*\(\s*([^()\s]+)\s*\)$/
+const READ_ASSIGN_RE =
+  /([A-Za-z_]\w*)\s*=\s*(digitalRead|analogRead|touchRead)\s*\(\s*([^()\s]+)\s*\)/g
+/** A read call or a variable holding one, optionally negated. */
+const READ_SOURCE = String.raw`!?\s*(?:(?:digitalRead|analogRead|touchRead)\s*\([^()]*\)|[A-Za-z_]\w*)`
+const DIGITAL_FOLLOW_RE = new RegExp(String.raw`digitalWrite\s*\(\s*([^,\s)]+)\s*,\s*(${READ_SOURCE})\s*\)`, 'g')
+const ANALOG_FOLLOW_RE = /analogWrite\s*\(\s*([^,\s)]+)\s*,\s*(.+?)\s*\)\s*;/g
+/** `if (now - last >= interval)` with `now` from millis()/micros() or a variable assigned from one. */
+const TIMER_IF_RE =
+  /if\s*\(\s*(?:\(\s*(?:unsigned\s+long|uint32_t)\s*\)\s*)?\(?\s*(millis\s*\(\s*\)|micros\s*\(\s*\)|[A-Za-z_]\w*)\s*-\s*[A-Za-z_]\w*\s*\)?\s*(>=|>)\s*([A-Za-z_]\w*|\d+[uUlL]*)\s*\)/g
+const ATTACH_INTERRUPT_RE =
+  /attachInterrupt\s*\(\s*(?:digitalPinToInterrupt\s*\(\s*([^()]+?)\s*\)|(\w+))\s*,\s*(\w+)\s*,\s*(RISING|FALLING|CHANGE|LOW|HIGH)\s*\)/g
+/** Uno external interrupt numbers: INT0 is D2, INT1 is D3. */
+const UNO_INTERRUPT_PINS: Record<number, number> = { 0: 2, 1: 3 }
+const SERVO_ATTACH_RE = /\b([A-Za-z_]\w*)\s*\.\s*attach\s*\(\s*([^,()\s]+)\s*(?:,\s*(\d+)\s*,\s*(\d+)\s*)?\)/g
+/** Servo library defaults: 544–2400 µs pulses in 20 ms frames. */
+const SERVO_MIN_US = 544
+const SERVO_MAX_US = 2400
+const SERVO_FRAME_HZ = 50
+/** ESP32 LEDC: `ledcSetup(channel, freq, bits)` + `ledcAttachPin(pin, channel)` (core 2.x), `ledcAttach(pin, freq, bits)` (3.x) */
+const LEDC_SETUP_RE = /ledcSetup\s*\(\s*([^,()]+?)\s*,\s*([^,()]+?)\s*,\s*([^,()]+?)\s*\)/g
+const LEDC_ATTACH_PIN_RE = /ledcAttachPin\s*\(\s*([^,()]+?)\s*,\s*([^,()]+?)\s*\)/g
+const LEDC_ATTACH_RE = /ledcAttach(?:Channel)?\s*\(\s*([^,()]+?)\s*,\s*([^,()]+?)\s*,\s*([^,()]+?)\s*(?:,\s*[^,()]+?\s*)?\)/g
+const ESP32_DAC_PINS = new Set([25, 26])
+
+interface ServoOutput {
+  pin: number
+  minUs: number
+  maxUs: number
+}
+
+interface LedcChannel {
+  pins: number[]
+  frequency: number
+  resolutionBits: number
+}
+const TIMELINE_FOR_RE =
+  /for\s*\(\s*(?:int\s+)?([A-Za-z_]\w*)\s*=\s*(\w+)\s*;\s*\1\s*(<=|<|>=|>)\s*(\w+)\s*;\s*(?:\1\s*(\+\+|--)|(\+\+|--)\s*\1|\1\s*([+-])=\s*(\d+))\s*\)/y
+const TIMELINE_CALL_RE =
+  /(?:delay\s*\(\s*([^()]+?)\s*\)|noTone\s*\(\s*([^()]+?)\s*\)|tone\s*\(\s*([^;]+?)\s*\)\s*;|([A-Za-z_]\w*)\s*\.\s*(write|writeMicroseconds)\s*\(\s*([^;]+?)\s*\)\s*;|(ledcWriteTone|ledcWrite|dacWrite)\s*\(\s*([^;]+?)\s*\)\s*;)/y
+const READ_KINDS: Record<string, GPIOInputLink['read']> = { digitalRead: 'digital', analogRead: 'analog', touchRead: 'touch' }
+const TOUCH_READ_RE = /touchRead\s*\(\s*([^()\s]+)\s*\)/g
+const IF_FOLLOW_RE = new RegExp(
+  String.raw`if\s*\(\s*(${READ_SOURCE})\s*(?:(==|!=|<=|>=|<|>)\s*(HIGH|LOW|\d+)\s*)?\)\s*\{?\s*` +
+    String.raw`digitalWrite\s*\(\s*([^,\s)]+)\s*,\s*(HIGH|LOW)\s*\)`,
+  'g'
+)
+
+/** Body of `void <name>()` with comments stripped, or '' when there is none. */
+function extractFunctionBody(code: string, name: string): string {
+  const cleaned = stripCppComments(code)
+  // ESP32 interrupt handlers carry IRAM_ATTR
+  const start = cleaned.search(new RegExp(String.raw`void\s+(?:IRAM_ATTR\s+)?${name}\s*\(\s*\)\s*\{`))
+  if (start < 0) return ''
+  const open = cleaned.indexOf('{', start)
+  let depth = 0
+  for (let i = open; i < cleaned.length; i++) {
+    if (cleaned[i] === '{') depth++
+    else if (cleaned[i] === '}' && --depth === 0) return cleaned.slice(open + 1, i)
+  }
+  return cleaned.slice(open + 1)
+}
+
+/** The `{…}` block (or single statement) starting at `index`, without its braces, and where it ends. */
+function blockAt(text: string, index: number): { body: string; end: number } {
+  let i = index
+  while (/\s/.test(text[i] ?? '')) i++
+  if (text[i] !== '{') {
+    const end = text.indexOf(';', i)
+    return end < 0 ? { body: text.slice(i), end: text.length } : { body: text.slice(i, end + 1), end: end + 1 }
+  }
+  let depth = 0
+  for (let j = i; j < text.length; j++) {
+    if (text[j] === '{') depth++
+    else if (text[j] === '}' && --depth === 0) return { body: text.slice(i + 1, j), end: j + 1 }
+  }
+  return { body: text.slice(i + 1), end: text.length }
+}
+
+/** `const`, `#define` or plain global integers (`unsigned long interval = 1000;`). */
+function resolveNumber(arg: string, constants: Map<string, number>, code: string): number | null {
+  const trimmed = arg.trim().replace(/^(\d+)[uUlL]+$/, '$1')
+  const known = resolvePinArg(trimmed, constants)
+  if (known !== null || !/^[A-Za-z_]\w*$/.test(trimmed)) return known
+  const declared = code.match(new RegExp(String.raw`\b(?:long|int|word|uint16_t|uint32_t)\s+${trimmed}\s*=\s*(\d+)`))
+  return declared ? parseInt(declared[1], 10) : null
+}
+
+const LEVEL_VALUES: Record<string, number> = { HIGH: 1, LOW: 0, true: 1, false: 0, '1': 1, '0': 0 }
+
+/**
+ * Outputs a block flips or sets: `digitalWrite(pin, !digitalRead(pin))`, or a
+ * variable toggled (`state = !state`, `state ^= 1`, `state = state == LOW ? HIGH : LOW`,
+ * or assigned both HIGH and LOW) or set that some `digitalWrite(pin, state)` in
+ * the sketch writes out.
+ */
+function blockOutputs(
+  block: string,
+  code: string,
+  constants: Map<string, number>
+): Array<{ pin: number; action: GPIOInterruptLink['action']; variable?: string }> {
+  const outputs: Array<{ pin: number; action: GPIOInterruptLink['action']; variable?: string }> = []
+  for (const match of block.matchAll(/digitalWrite\s*\(\s*([^,\s)]+)\s*,\s*!\s*digitalRead\s*\(\s*\1\s*\)\s*\)/g)) {
+    const pin = resolvePinArg(match[1], constants)
+    if (pin !== null) outputs.push({ pin, action: 'toggle' })
+  }
+  for (const match of block.matchAll(DIGITAL_WRITE_RE_G)) {
+    const pin = resolvePinArg(match[1], constants)
+    if (pin !== null) outputs.push({ pin, action: match[2] === 'HIGH' ? 'high' : 'low' })
+  }
+
+  const variables = new Map<string, GPIOInterruptLink['action']>()
+  for (const match of block.matchAll(/\b([A-Za-z_]\w*)\s*(?:=\s*!\s*\1\b|\^=\s*(?:1|HIGH|true)\b|=\s*\(?\s*\1\s*==\s*(?:LOW|HIGH|true|false)\s*\)?\s*\?)/g)) {
+    variables.set(match[1], 'toggle')
+  }
+  for (const match of block.matchAll(/\b([A-Za-z_]\w*)\s*=\s*(HIGH|LOW|true|false)\s*;/g)) {
+    const action = LEVEL_VALUES[match[2]] ? 'high' : 'low'
+    const previous = variables.get(match[1])
+    variables.set(match[1], previous && previous !== action ? 'toggle' : action)
+  }
+  variables.forEach((action, variable) => {
+    for (const match of code.matchAll(new RegExp(String.raw`digitalWrite\s*\(\s*([^,\s)]+)\s*,\s*${variable}\s*\)`, 'g'))) {
+      const pin = resolvePinArg(match[1], constants)
+      if (pin !== null && !outputs.some((o) => o.pin === pin)) outputs.push({ pin, action, variable })
+    }
+  })
+  return outputs
+}
+
+/**
+ * LEDC channels by the number `ledcWrite` takes: the channel on core 2.x, the
+ * pin itself after core 3.x's `ledcAttach`/`ledcAttachChannel`.
+ */
+function ledcChannels(code: string, constants: Map<string, number>): Map<number, LedcChannel> {
+  const number = (arg: string) => resolveNumber(arg, constants, code)
+  const channels = new Map<number, LedcChannel>()
+  for (const match of code.matchAll(LEDC_SETUP_RE)) {
+    const [channel, frequency, bits] = [match[1], match[2], match[3]].map(number)
+    if (channel !== null && frequency !== null && bits !== null) {
+      channels.set(channel, { pins: [], frequency, resolutionBits: bits })
+    }
+  }
+  for (const match of code.matchAll(LEDC_ATTACH_PIN_RE)) {
+    const pin = resolvePinArg(match[1], constants)
+    const channel = number(match[2])
+    if (pin !== null && channel !== null) channels.get(channel)?.pins.push(pin)
+  }
+  for (const match of code.matchAll(LEDC_ATTACH_RE)) {
+    const [pin, frequency, bits] = [resolvePinArg(match[1], constants), number(match[2]), number(match[3])]
+    if (pin === null || frequency === null || bits === null) continue
+    channels.set(pin, { pins: [pin], frequency, resolutionBits: bits })
+  }
+  return channels
+}
+
+/** Initial value of a global flag or level (`volatile bool ledOn = true;`), 0 when undeclared. */
+function initialLevel(code: string, variable: string): number {
+  const declared = code.match(new RegExp(String.raw`\b(?:bool|boolean|int|byte|uint8_t|char)\s+${variable}\s*=\s*(HIGH|LOW|true|false|\d+)`))
+  if (!declared) return 0
+  return LEVEL_VALUES[declared[1]] ?? (parseInt(declared[1], 10) ? 1 : 0)
+}
 
 export class DynamicGPIO {
   private animations: Map<number, GPIOAnimation> = new Map()
@@ -69,20 +302,42 @@ export class DynamicGPIO {
   private isRunning: boolean = false
   private startTime: number = 0
   private passiveMode: boolean = false
+  private inputProfile: McuInputProfile = ATMEGA328P_INPUT_PROFILE
+  private inputVolts: Map<number, number> = new Map()
+  private inputLevels: Map<number, boolean> = new Map()
+  /** Output level (0/1) of each LATCH pin, flipped by its interrupt */
+  private latchedLevels: Map<number, number> = new Map()
+  private serialProgram: SketchSerialProgram | null = null
+  private serialRunner: SketchSerialRunner | null = null
+  private detachSerial: (() => void) | null = null
+  private busPort: BusPort | null = null
+  private pinConstants: Map<string, number> = new Map()
 
   /**
-   * Analyze Arduino code to detect GPIO patterns
+   * Analyze Arduino code to detect GPIO patterns. Also prepares the sketch's
+   * Serial output for attachSerial.
    */
   analyzeCode(code: string): GPIOAnimation[] {
     const animations: GPIOAnimation[] = []
     const lines = code.split('\n')
     const pinConstants = extractPinConstants(code)
+    this.pinConstants = pinConstants
+    this.serialProgram = compileSketchSerial(
+      stripCppComments(code),
+      extractFunctionBody(code, 'setup'),
+      extractFunctionBody(code, 'loop')
+    )
     
     // Look for common patterns
     const blinkPattern = this.detectBlinkPattern(lines, pinConstants)
     const fadePattern = this.detectFadePattern(lines, pinConstants)
     const rampPattern = this.detectRampPattern(lines, pinConstants)
     const staticPattern = this.detectStaticPattern(lines, pinConstants)
+    const followPattern = this.detectFollowPattern(code, pinConstants)
+    const inputPins = this.detectInputPins(code, pinConstants)
+    const timerPattern = this.detectTimerPattern(code, pinConstants)
+    const sequencePattern = this.detectSequencePattern(code, pinConstants)
+    const interruptPattern = this.detectInterruptPattern(code, pinConstants)
     
     console.log(`🔧 [PWM_DEBUG] Code analysis results:`, {
       blinkPattern: blinkPattern.length,
@@ -99,11 +354,21 @@ export class DynamicGPIO {
       console.log(`🔧 [PWM_DEBUG] Static patterns detected:`, staticPattern)
     }
     
-    animations.push(...blinkPattern, ...fadePattern, ...rampPattern, ...staticPattern)
-
-    // Prefer animated patterns over static when the same pin appears more than once
+    animations.push(
+      ...inputPins,
+      ...blinkPattern,
+      ...fadePattern,
+      ...rampPattern,
+      ...staticPattern,
+      ...followPattern,
+      ...timerPattern,
+      ...sequencePattern,
+      ...interruptPattern
+    )
+
+    // Prefer input-driven, then animated, patterns over static when the same pin appears more than once
     const byPin = new Map<number, GPIOAnimation>()
-    const priority = { BLINK: 3, FADE: 2, STATIC: 1, RANDOM: 0 }
+    const priority = { LATCH: 4, FOLLOW: 4, SEQUENCE: 3, BLINK: 3, FADE: 2, STATIC: 1, RANDOM: 0, INPUT: -1 }
     animations.forEach((animation) => {
       const existing = byPin.get(animation.pin)
       if (!existing || priority[animation.pattern] >= priority[existing.pattern]) {
@@ -359,6 +624,452 @@ export class DynamicGPIO {
     return animations
   }
 
+  /**
+   * Detect outputs driven from inputs in loop(): `digitalWrite(out, digitalRead(in))`,
+   * `analogWrite(out, map(analogRead(in), ...))` or `analogRead(in) / 4`, and
+   * `if (digitalRead(in) == HIGH) digitalWrite(out, ...)`, also through a variable
+   * assigned from the read.
+   */
+  private detectFollowPattern(code: string, pinConstants: Map<string, number>): GPIOAnimation[] {
+    const body = extractFunctionBody(code, 'loop')
+    if (!body) return []
+
+    const variables = new Map<string, { pin: number; read: GPIOInputLink['read'] }>()
+    for (const match of body.matchAll(READ_ASSIGN_RE)) {
+      const pin = resolvePinArg(match[3], pinConstants)
+      if (pin !== null) variables.set(match[1], { pin, read: READ_KINDS[match[2]] })
+    }
+
+    const parseSource = (expr: string): GPIOInputLink | null => {
+      const trimmed = expr.trim()
+      const negate = trimmed.startsWith('!')
+      const inner = negate ? trimmed.slice(1).trim() : trimmed
+      const call = inner.match(READ_CALL_RE)
+      if (call) {
+        const pin = resolvePinArg(call[2], pinConstants)
+        if (pin === null) return null
+        return { pin, read: READ_KINDS[call[1]], ...(negate ? { negate } : {}) }
+      }
+      const variable = variables.get(inner)
+      return variable ? { ...variable, ...(negate ? { negate } : {}) } : null
+    }
+
+    const follow = (pin: number, input: GPIOInputLink): GPIOAnimation => ({
+      pin,
+      pattern: 'FOLLOW',
+      frequency: 0,
+      dutyCycle: 0,
+      startTime: 0,
+      input,
+    })
+
+    const animations: GPIOAnimation[] = []
+    for (const match of body.matchAll(IF_FOLLOW_RE)) {
+      const input = parseSource(match[1])
+      const pin = resolvePinArg(match[4], pinConstants)
+      if (!input || pin === null) continue
+      if (match[2]) {
+        const value = match[3] === 'HIGH' ? 1 : match[3] === 'LOW' ? 0 : parseInt(match[3], 10)
+        input.compare = { op: match[2] as ComparisonOp, value }
+      }
+      if (match[5] === 'LOW') input.activeLow = true
+      animations.push(follow(pin, input))
+    }
+
+    for (const match of body.matchAll(DIGITAL_FOLLOW_RE)) {
+      const input = parseSource(match[2])
+      const pin = resolvePinArg(match[1], pinConstants)
+      // Writing a pin's own inverted level back toggles it (see detectTimerPattern)
+      if (input && pin !== null && input.pin !== pin) animations.push(follow(pin, input))
+    }
+
+    for (const match of body.matchAll(ANALOG_FOLLOW_RE)) {
+      const pin = resolvePinArg(match[1], pinConstants)
+      if (pin === null) continue
+      const expr = match[2].trim()
+      const mapped = expr.match(/^map\s*\(\s*(.+?)\s*,\s*(-?\d+)\s*,\s*(-?\d+)\s*,\s*(-?\d+)\s*,\s*(-?\d+)\s*\)$/)
+      const divided = expr.match(/^(.+?)\s*\/\s*(\d+(?:\.\d+)?)$/)
+      const shifted = expr.match(/^(.+?)\s*>>\s*(\d+)$/)
+      let input: GPIOInputLink | null
+      if (mapped) {
+        input = parseSource(mapped[1])
+        if (input) input.scale = [mapped[2], mapped[3], mapped[4], mapped[5]].map(Number) as GPIOInputLink['scale']
+      } else if (divided) {
+        input = parseSource(divided[1])
+        if (input) input.scale = [0, 255 * parseFloat(divided[2]), 0, 255]
+      } else if (shifted) {
+        input = parseSource(shifted[1])
+        if (input) input.scale = [0, 255 * 2 ** parseInt(shifted[2], 10), 0, 255]
+      } else {
+        input = parseSource(expr)
+        if (input) input.scale = [0, 255, 0, 255]
+      }
+      if (input) animations.push(follow(pin, input))
+    }
+
+    return animations
+  }
+
+  /**
+   * Detect non-blocking blinks: a `if (millis() - last >= interval) { … }` block
+   * in loop() that toggles an output flips it every interval, so it runs as a
+   * BLINK at half that rate.
+   */
+  private detectTimerPattern(code: string, pinConstants: Map<string, number>): GPIOAnimation[] {
+    const body = extractFunctionBody(code, 'loop')
+    if (!body) return []
+    const cleaned = stripCppComments(code)
+    const animations: GPIOAnimation[] = []
+    for (const match of body.matchAll(TIMER_IF_RE)) {
+      const clock = match[1].replace(/\s+/g, '')
+      const source = clock.endsWith('()')
+        ? clock.slice(0, -2)
+        : cleaned.match(new RegExp(String.raw`\b${clock}\s*=\s*(millis|micros)\s*\(\s*\)`))?.[1]
+      const interval = resolveNumber(match[3], pinConstants, cleaned)
+      if (!source || !interval || interval <= 0) continue
+      const intervalMs = source === 'micros' ? interval / 1000 : interval
+      const { body: block } = blockAt(body, match.index! + match[0].length)
+      blockOutputs(block, cleaned, pinConstants)
+        .filter((output) => output.action === 'toggle')
+        .forEach(({ pin }) => {
+          animations.push({ pin, pattern: 'BLINK', frequency: 1000 / (2 * intervalMs), dutyCycle: 0.5, startTime: 0 })
+        })
+    }
+    return animations
+  }
+
+  /**
+   * Detect `attachInterrupt` handlers that toggle or set an output, directly or
+   * through a flag loop() acts on. Each output becomes a LATCH flipped on the
+   * watched pin's edges as solved input voltages arrive (see setInputVoltages).
+   */
+  private detectInterruptPattern(code: string, pinConstants: Map<string, number>): GPIOAnimation[] {
+    const cleaned = stripCppComments(code)
+    const loop = extractFunctionBody(code, 'loop')
+    const animations: GPIOAnimation[] = []
+    for (const match of cleaned.matchAll(ATTACH_INTERRUPT_RE)) {
+      const interruptNumber = match[2] !== undefined ? resolvePinArg(match[2], pinConstants) : null
+      const pin =
+        match[1] !== undefined
+          ? resolvePinArg(match[1], pinConstants)
+          : interruptNumber !== null
+            ? UNO_INTERRUPT_PINS[interruptNumber] ?? interruptNumber
+            : null
+      const handler = extractFunctionBody(code, match[3])
+      if (pin === null || !handler) continue
+
+      let outputs = blockOutputs(handler, cleaned, pinConstants)
+      if (outputs.length === 0 && loop) {
+        // The handler only raises a flag (`pressed = true`); loop() does the work
+        for (const flag of handler.matchAll(/\b([A-Za-z_]\w*)\s*=\s*(?:true|1|HIGH)\s*;/g)) {
+          const header = loop.match(new RegExp(String.raw`if\s*\(\s*${flag[1]}\s*(?:==\s*(?:true|1|HIGH)\s*)?\)`))
+          if (!header) continue
+          const { body: block } = blockAt(loop, header.index! + header[0].length)
+          outputs = blockOutputs(block, cleaned, pinConstants).filter((output) => output.variable !== flag[1])
+          if (outputs.length > 0) break
+        }
+      }
+
+      const mode = match[4] as InterruptMode
+      outputs.forEach(({ pin: output, action, variable }) => {
+        animations.push({
+          pin: output,
+          pattern: 'LATCH',
+          frequency: 0,
+          dutyCycle: variable ? initialLevel(cleaned, variable) : 0,
+          startTime: 0,
+          interrupt: { pin, mode, action },
+        })
+      })
+    }
+    return animations
+  }
+
+  /**
+   * Detect `tone()`/`noTone()`, `Servo` and ESP32 `ledcWrite`/`dacWrite` writes
+   * between delays. Each pin's steps over one pass of loop() (or of setup(),
+   * played once) form a SEQUENCE: tones as square waves at their frequency,
+   * servo angles as 50 Hz pulse trains, LEDC duties at their channel's frequency
+   * and resolution, DAC codes as steady levels, and `for` sweeps over a write of
+   * the loop variable as ramps.
+   */
+  private detectSequencePattern(code: string, pinConstants: Map<string, number>): GPIOAnimation[] {
+    const cleaned = stripCppComments(code)
+    const declared = new Set(
+      [...cleaned.matchAll(/\bServo\s+([^;()]+);/g)].flatMap((m) => m[1].split(',').map((name) => name.trim()))
+    )
+    const servos = new Map<string, ServoOutput>()
+    for (const match of cleaned.matchAll(SERVO_ATTACH_RE)) {
+      const pin = resolvePinArg(match[2], pinConstants)
+      if (!declared.has(match[1]) || pin === null) continue
+      servos.set(match[1], {
+        pin,
+        minUs: match[3] ? parseInt(match[3], 10) : SERVO_MIN_US,
+        maxUs: match[4] ? parseInt(match[4], 10) : SERVO_MAX_US,
+      })
+    }
+    const ledc = ledcChannels(cleaned, pinConstants)
+    if (servos.size === 0 && ledc.size === 0 && !/\b(?:tone|dacWrite)\s*\(/.test(cleaned)) return []
+
+    const outputs = { servos, ledc }
+    const setup = this.compileTimeline(extractFunctionBody(code, 'setup'), outputs, pinConstants, cleaned)
+    const loop = this.compileTimeline(extractFunctionBody(code, 'loop'), outputs, pinConstants, cleaned)
+    const pins = new Set([...setup.steps.keys(), ...loop.steps.keys()])
+    return [...pins].map((pin): GPIOAnimation => {
+      const loopSteps = loop.steps.get(pin)
+      const steps =
+        loopSteps && loop.totalMs === 0
+          ? // Without delays only the last write of a pass is ever seen
+            [{ ...loopSteps[loopSteps.length - 1], at: 0, rampTo: undefined, rampMs: undefined }]
+          : loopSteps ?? setup.steps.get(pin)!
+      return {
+        pin,
+        pattern: 'SEQUENCE',
+        frequency: steps[0].frequency,
+        dutyCycle: steps[0].dutyCycle,
+        startTime: loopSteps ? setup.totalMs : 0,
+        steps,
+        ...(loopSteps && loop.totalMs > 0 ? { periodMs: loop.totalMs } : {}),
+      }
+    })
+  }
+
+  /** Tone, servo, LEDC and DAC steps per pin over one pass of `body`, timed by its delay() calls. */
+  private compileTimeline(
+    body: string,
+    outputs: { servos: Map<string, ServoOutput>; ledc: Map<number, LedcChannel> },
+    pinConstants: Map<string, number>,
+    code: string
+  ): { steps: Map<number, GPIOSequenceStep[]>; totalMs: number } {
+    const steps = new Map<number, GPIOSequenceStep[]>()
+    /** tone(pin, f, duration) ends on its own unless the pin changes first */
+    const toneEnds = new Map<number, number>()
+    const number = (arg: string) => resolveNumber(arg, pinConstants, code)
+    const push = (pin: number, step: GPIOSequenceStep) => {
+      const ends = toneEnds.get(pin)
+      toneEnds.delete(pin)
+      const list = steps.get(pin) ?? []
+      if (ends !== undefined && ends < step.at) list.push({ at: ends, dutyCycle: 0, frequency: 0 })
+      if (list[list.length - 1]?.at === step.at) list.pop()
+      list.push(step)
+      steps.set(pin, list)
+    }
+
+    /** The pins a write drives and the duty and frequency a written value gives them. */
+    const writer = (
+      kind: 'servo' | 'servoMicros' | 'ledcWrite' | 'ledcWriteTone' | 'dacWrite',
+      target: string
+    ): { pins: number[]; level: (value: number) => { dutyCycle: number; frequency: number } } | null => {
+      if (kind === 'servo' || kind === 'servoMicros') {
+        const servo = outputs.servos.get(target)
+        if (!servo) return null
+        return {
+          pins: [servo.pin],
+          level: (value) => {
+            // Like Servo.write, values below the shortest pulse are angles
+            const angle = Math.max(0, Math.min(180, value))
+            const us = kind === 'servoMicros' || value >= SERVO_MIN_US ? value : servo.minUs + ((servo.maxUs - servo.minUs) * angle) / 180
+            return { dutyCycle: (us / 1_000_000) * SERVO_FRAME_HZ, frequency: SERVO_FRAME_HZ }
+          },
+        }
+      }
+      const channel = number(target)
+      if (channel === null) return null
+      if (kind === 'dacWrite') {
+        // Only GPIO25 and GPIO26 have DACs
+        if (!ESP32_DAC_PINS.has(channel)) return null
+        return { pins: [channel], level: (value) => ({ dutyCycle: Math.max(0, Math.min(255, value)) / 255, frequency: 0 }) }
+      }
+      const ledc = outputs.ledc.get(channel)
+      if (!ledc) return null
+      if (kind === 'ledcWriteTone') {
+        return { pins: ledc.pins, level: (value) => (value > 0 ? { dutyCycle: 0.5, frequency: value } : { dutyCycle: 0, frequency: 0 }) }
+      }
+      // The core drives the pin fully on at 2^bits - 1 (and at 2^bits)
+      const fullScale = 2 ** ledc.resolutionBits - 1
+      return {
+        pins: ledc.pins,
+        level: (value) => ({ dutyCycle: Math.max(0, Math.min(1, value / fullScale)), frequency: ledc.frequency }),
+      }
+    }
+    const callWriter = (call: RegExpExecArray) => {
+      if (call[4] !== undefined) {
+        return { write: writer(call[5] === 'writeMicroseconds' ? 'servoMicros' : 'servo', call[4]), value: call[6] }
+      }
+      if (call[8] === undefined) return { write: null, value: '' }
+      const [target, value] = call[8].split(',').map((arg) => arg.trim())
+      return { write: writer(call[7] as 'ledcWrite' | 'ledcWriteTone' | 'dacWrite', target ?? ''), value: value ?? '' }
+    }
+
+    let at = 0
+    let i = 0
+    while (i < body.length) {
+      if (i > 0 && /\w/.test(body[i - 1])) {
+        i++
+        continue
+      }
+      TIMELINE_FOR_RE.lastIndex = i
+      const header = TIMELINE_FOR_RE.exec(body)
+      if (header) {
+        const block = blockAt(body, i + header[0].length)
+        const from = number(header[2])
+        const to = number(header[4])
+        const stride = header[5] ?? header[6] ? ((header[5] ?? header[6]) === '++' ? 1 : -1) : (header[7] === '+' ? 1 : -1) * parseInt(header[8], 10)
+        const swept = [...block.body.matchAll(new RegExp(TIMELINE_CALL_RE.source, 'g'))]
+          .map(callWriter)
+          .find(({ write, value }) => write && value === header[1])?.write
+        if (swept && from !== null && to !== null && stride !== 0) {
+          const inclusive = header[3] === '<=' || header[3] === '>='
+          const span = (to - from) / stride
+          const count = span < 0 ? 0 : inclusive ? Math.floor(span) + 1 : Math.ceil(span)
+          const pauseMs = [...block.body.matchAll(/\bdelay\s*\(\s*([^()]+?)\s*\)/g)].reduce((sum, m) => sum + (number(m[1]) ?? 0), 0)
+          if (count > 0) {
+            const first = swept.level(from)
+            const last = swept.level(from + stride * (count - 1))
+            const rampMs = count * pauseMs
+            swept.pins.forEach((pin) => {
+              if (rampMs > 0) push(pin, { at, ...first, rampTo: last.dutyCycle, rampMs })
+              else push(pin, { at, ...last })
+            })
+            at += rampMs
+          }
+          i = block.end
+          continue
+        }
+      }
+
+      TIMELINE_CALL_RE.lastIndex = i
+      const call = TIMELINE_CALL_RE.exec(body)
+      if (!call) {
+        i++
+        continue
+      }
+      i = TIMELINE_CALL_RE.lastIndex
+      if (call[1] !== undefined) {
+        at += number(call[1]) ?? 0
+      } else if (call[2] !== undefined) {
+        const pin = resolvePinArg(call[2], pinConstants)
+        if (pin !== null) push(pin, { at, dutyCycle: 0, frequency: 0 })
+      } else if (call[3] !== undefined) {
+        const [pinArg, frequencyArg, durationArg] = call[3].split(',').map((arg) => arg.trim())
+        const pin = resolvePinArg(pinArg ?? '', pinConstants)
+        const frequency = number(frequencyArg ?? '')
+        if (pin === null || !frequency) continue
+        push(pin, { at, dutyCycle: 0.5, frequency })
+        const duration = durationArg !== undefined ? number(durationArg) : null
+        if (duration) toneEnds.set(pin, at + duration)
+      } else {
+        const { write, value } = callWriter(call)
+        const written = number(value)
+        if (write && written !== null) write.pins.forEach((pin) => push(pin, { at, ...write.level(written) }))
+      }
+    }
+    toneEnds.forEach((ends, pin) => {
+      if (ends <= at) steps.get(pin)!.push({ at: ends, dutyCycle: 0, frequency: 0 })
+    })
+    return { steps, totalMs: at }
+  }
+
+  /**
+   * Detect pins set up as inputs with pinMode, and ESP32 touch pads
+   */
+  private detectInputPins(code: string, pinConstants: Map<string, number>): GPIOAnimation[] {
+    const animations: GPIOAnimation[] = []
+    for (const match of stripCppComments(code).matchAll(PIN_MODE_INPUT_RE)) {
+      const pin = resolvePinArg(match[1], pinConstants)
+      if (pin === null) continue
+      animations.push({ pin, pattern: 'INPUT', frequency: 0, dutyCycle: 0, startTime: 0, pullup: match[2] === 'INPUT_PULLUP' })
+    }
+    // ESP32 touch pads need no pinMode; they idle on a weak pull-up (see touchReading)
+    for (const match of stripCppComments(code).matchAll(TOUCH_READ_RE)) {
+      const pin = resolvePinArg(match[1], pinConstants)
+      if (pin === null || animations.some((a) => a.pin === pin)) continue
+      animations.push({ pin, pattern: 'INPUT', frequency: 0, dutyCycle: 0, startTime: 0, pullup: true })
+    }
+    return animations
+  }
+
+  /**
+   * Solved voltages on this MCU's pins, read back through `digitalRead` and
+   * `analogRead` by outputs that follow an input.
+   */
+  setInputVoltages(volts: Map<number, number>, profile: McuInputProfile): void {
+    this.inputProfile = profile
+    this.inputVolts = new Map(volts)
+    volts.forEach((v, pin) => {
+      // Before the first solve a pulled-up input sits HIGH; a floating one has no edge yet
+      const previous = this.inputLevels.get(pin) ?? (this.animations.get(pin)?.pullup ? true : undefined)
+      const level = digitalInputLevel(v, profile, this.inputLevels.get(pin))
+      this.inputLevels.set(pin, level)
+      if (previous !== undefined && level !== previous) this.fireInterrupts(pin, level)
+    })
+  }
+
+  /** Run the attachInterrupt handlers watching `pin` for an edge to `level`. */
+  private fireInterrupts(pin: number, level: boolean): void {
+    this.animations.forEach((animation, output) => {
+      const link = animation.interrupt
+      if (animation.pattern !== 'LATCH' || link?.pin !== pin) return
+      const fires =
+        link.mode === 'CHANGE' ||
+        (level ? link.mode === 'RISING' || link.mode === 'HIGH' : link.mode === 'FALLING' || link.mode === 'LOW')
+      if (!fires) return
+      const current = this.latchedLevels.get(output) ?? animation.dutyCycle
+      this.latchedLevels.set(output, link.action === 'toggle' ? 1 - current : link.action === 'high' ? 1 : 0)
+    })
+  }
+
+  /**
+   * Replay the sketch's Serial output on `channel`. Monitor input is accepted
+   * but not read: only compiled firmware consumes Serial.read().
+   */
+  attachSerial(channel: SerialChannel): void {
+    this.detachSerial?.()
+    const program = this.serialProgram
+    if (!program) return
+    this.serialRunner = new SketchSerialRunner(
+      program,
+      {
+        analogRead: (pin) => this.readInput({ pin, read: 'analog' }),
+        digitalRead: (pin) => this.readInput({ pin, read: 'digital' }),
+        touchRead: (pin) => this.readInput({ pin, read: 'touch' }),
+      },
+      (arg) => resolvePinArg(arg, this.pinConstants),
+      (text) => channel.deviceWriteText(text),
+      () => this.busPort,
+      (text) => channel.deviceNote(text)
+    )
+    channel.deviceBaud = program.baud
+    const detachInput = channel.attachDevice(() => {})
+    this.detachSerial = () => {
+      detachInput()
+      this.serialRunner = null
+    }
+  }
+
+  /** Route the sketch's Wire and SPI calls to the modules on its buses. */
+  attachBuses(port: BusPort): void {
+    this.busPort = port
+  }
+
+  /** What the sketch reads for `link`: 0/1 for digitalRead, ADC counts for analogRead, pad counts for touchRead. */
+  private readInput(link: GPIOInputLink): number {
+    let reading: number
+    if (link.read === 'touch') {
+      // An untouched pad before the first solve
+      reading = touchReading(this.inputVolts.get(link.pin) ?? this.inputProfile.logicVolts, this.inputProfile)
+    } else if (link.read === 'analog') {
+      // analogRead(0) means A0 on the Uno
+      const pin = !this.inputVolts.has(link.pin) && this.inputVolts.has(link.pin + 100) ? link.pin + 100 : link.pin
+      reading = adcReading(this.inputVolts.get(pin) ?? 0, this.inputProfile)
+    } else {
+      // Before the first solve a pulled-up input reads HIGH
+      reading = (this.inputLevels.get(link.pin) ?? this.animations.get(link.pin)?.pullup) ? 1 : 0
+    }
+    if (link.negate) reading = reading ? 0 : 1
+    return reading
+  }
+
   /**
    * Set passive mode (for use in multi-microcontroller context)
    */
@@ -372,6 +1083,7 @@ export class DynamicGPIO {
   startSimulation(animations: GPIOAnimation[]): void {
     this.animations.clear()
     this.currentStates.clear()
+    this.latchedLevels.clear()
     
     // Initialize animations
     animations.forEach(animation => {
@@ -395,12 +1107,16 @@ export class DynamicGPIO {
    */
   stopSimulation(): void {
     this.isRunning = false
+    this.detachSerial?.()
+    this.detachSerial = null
+    this.busPort = null
     if (this.animationId) {
       cancelAnimationFrame(this.animationId)
       this.animationId = null
     }
     this.currentStates.clear()
     this.animations.clear()
+    this.latchedLevels.clear()
   }
 
   /**
@@ -448,6 +1164,7 @@ void loop() {
       const state = this.calculatePinState(animation, currentTime)
       this.currentStates.set(pin, state)
     })
+    this.serialRunner?.update(currentTime)
   }
 
   /**
@@ -488,6 +1205,28 @@ void loop() {
         return this.calculateStaticState(animation)
       case 'RANDOM':
         return this.calculateRandomState(animation, currentTime)
+      case 'FOLLOW':
+        return this.calculateFollowState(animation, currentTime)
+      case 'SEQUENCE':
+        return this.calculateSequenceState(animation, currentTime)
+      case 'LATCH': {
+        const level = this.latchedLevels.get(animation.pin) ?? animation.dutyCycle
+        return {
+          pin: animation.pin,
+          state: level ? 'HIGH' : 'LOW',
+          value: level,
+          timestamp: currentTime,
+          pattern: 'LATCH'
+        }
+      }
+      case 'INPUT':
+        return {
+          pin: animation.pin,
+          state: 'INPUT',
+          value: animation.pullup ? 1 : 0,
+          timestamp: currentTime,
+          pattern: 'INPUT'
+        }
       default:
         return {
           pin: animation.pin,
@@ -582,6 +1321,76 @@ void loop() {
     return result
   }
 
+  /**
+   * Calculate the state of a tone/servo timeline: the step in effect at this
+   * point of the pass, with sweeps interpolated. Steps with a frequency are
+   * square waves (tones) or pulse trains (servos) at that rate.
+   */
+  private calculateSequenceState(animation: GPIOAnimation, currentTime: number): DynamicGPIOState {
+    const steps = animation.steps ?? []
+    const elapsed = Math.max(0, currentTime - animation.startTime)
+    const t = animation.periodMs ? elapsed % animation.periodMs : elapsed
+
+    let index = -1
+    while (index + 1 < steps.length && steps[index + 1].at <= t) index++
+    let duty = 0
+    let frequency = 0
+    if (index >= 0) {
+      const step = steps[index]
+      const progress = step.rampMs ? Math.min(1, (t - step.at) / step.rampMs) : 1
+      duty = step.rampTo !== undefined ? step.dutyCycle + (step.rampTo - step.dutyCycle) * progress : step.dutyCycle
+      frequency = step.frequency
+    } else if (animation.periodMs && steps.length > 0) {
+      // Before the first step a repeating pass still holds where the last one ended
+      const last = steps[steps.length - 1]
+      duty = last.rampTo ?? last.dutyCycle
+      frequency = last.frequency
+    }
+
+    return {
+      pin: animation.pin,
+      state: duty <= 0 ? 'LOW' : duty >= 1 ? 'HIGH' : 'PULSING',
+      value: duty,
+      timestamp: currentTime,
+      pattern: 'SEQUENCE',
+      frequency,
+      dutyCycle: duty
+    }
+  }
+
+  /**
+   * Calculate the state of an output that follows an input
+   */
+  private calculateFollowState(animation: GPIOAnimation, currentTime: number): DynamicGPIOState {
+    const link = animation.input!
+    const reading = this.readInput(link)
+
+    if (link.scale) {
+      const [inLow, inHigh, outLow, outHigh] = link.scale
+      const written = outLow + ((reading - inLow) * (outHigh - outLow)) / (inHigh - inLow || 1)
+      const duty = Math.max(0, Math.min(1, written / 255))
+      return {
+        pin: animation.pin,
+        state: duty >= 1 ? 'HIGH' : duty > 0 ? 'PULSING' : 'LOW',
+        value: duty,
+        timestamp: currentTime,
+        pattern: 'FOLLOW',
+        frequency: 0,
+        dutyCycle: duty
+      }
+    }
+
+    const holds = link.compare ? compareReading(reading, link.compare.op, link.compare.value) : reading !== 0
+    const isHigh = holds !== !!link.activeLow
+    return {
+      pin: animation.pin,
+      state: isHigh ? 'HIGH' : 'LOW',
+      value: isHigh ? 1 : 0,
+      timestamp: currentTime,
+      pattern: 'FOLLOW'
+    }
+  }
+
   /**
    * Calculate random state
    */
@@ -609,36 +1418,63 @@ if (typeof window !== 'undefined') {
   (window as any).dynamicGPIO = dynamicGPIO
 }
 
+/** What the multi-MCU loop drives: the sketch pattern matcher or the AVR emulator. */
+interface McuGPIOSource {
+  updateStates(currentTime: number): void
+  getCurrentStates(): Map<number, DynamicGPIOState>
+  stopSimulation(): void
+  getStartTime(): number
+  attachSerial(channel: SerialChannel): void
+  attachBuses(port: BusPort): void
+  /** Exact pin edges for the logic analyzer; sources without one are sampled per frame. */
+  attachLogic?(probe: LogicProbe): void
+  setInputVoltages(volts: Map<number, number>, profile: McuInputProfile): void
+}
+
 // Multi-microcontroller GPIO manager
 export class MultiMicrocontrollerGPIO {
-  private microcontrollers: Map<string, DynamicGPIO> = new Map()
+  private microcontrollers: Map<string, McuGPIOSource> = new Map()
   private globalStates: Map<number, DynamicGPIOState> = new Map()
   private animationId: number | null = null
   private isRunning: boolean = false
 
   /**
-   * Start simulation for a specific microcontroller
+   * Start simulation for a specific microcontroller. With an ATmega328P firmware
+   * image (base64 .hex or .bin from the compiler) the sketch runs on the AVR
+   * emulator; otherwise the source is pattern-matched as before.
    */
-  startMicrocontrollerSimulation(microcontrollerId: string, code: string): void {
+  startMicrocontrollerSimulation(microcontrollerId: string, code: string, firmware?: string): void {
     console.log(`[MULTI_MCU_GPIO] Starting simulation for ${microcontrollerId}`)
-    
-    // Create or get existing GPIO instance for this microcontroller
-    let mcuGPIO = this.microcontrollers.get(microcontrollerId)
-    if (!mcuGPIO) {
-      mcuGPIO = new DynamicGPIO()
+    this.microcontrollers.get(microcontrollerId)?.stopSimulation()
+
+    let source: McuGPIOSource | null = null
+    if (firmware) {
+      try {
+        source = AvrFirmwareGPIO.fromFirmware(firmware)
+        console.log(`[MULTI_MCU_GPIO] Running compiled firmware for ${microcontrollerId} on the AVR emulator`)
+      } catch (error) {
+        if (!(error instanceof FirmwareFormatError)) throw error
+        console.warn(`[MULTI_MCU_GPIO] ${error.message}; falling back to sketch analysis`)
+      }
+    }
+
+    if (!source) {
+      const mcuGPIO = new DynamicGPIO()
       mcuGPIO.setPassiveMode(true) // Set to passive mode for multi-MCU context
-      this.microcontrollers.set(microcontrollerId, mcuGPIO)
+
+      // Analyze code for GPIO patterns
+      const animations = mcuGPIO.analyzeCode(code)
+      console.log(`[MULTI_MCU_GPIO] Detected patterns for ${microcontrollerId}:`, animations)
+      mcuGPIO.startSimulation(animations)
+      source = mcuGPIO
     }
-    
-    // Analyze code for GPIO patterns
-    const animations = mcuGPIO.analyzeCode(code)
-    console.log(`[MULTI_MCU_GPIO] Detected patterns for ${microcontrollerId}:`, animations)
-    
-    // Start simulation for this microcontroller
-    mcuGPIO.startSimulation(animations)
-    
+    this.microcontrollers.set(microcontrollerId, source)
+    source.attachSerial(getSerialChannel(microcontrollerId))
+    source.attachBuses(busHub.port(microcontrollerId))
+    source.attachLogic?.(logicCapture.probe(microcontrollerId, source.getStartTime()))
+
     // Prime GPIO states before the animation loop's first frame
-    mcuGPIO.updateStates(0)
+    source.updateStates(0)
     
     // Start global animation loop if not already running
     if (!this.isRunning) {
@@ -685,6 +1521,13 @@ export class MultiMicrocontrollerGPIO {
     this.stopGlobalAnimationLoop()
   }
 
+  /**
+   * Hand solved pin voltages to a running microcontroller as its inputs
+   */
+  applyInputVoltages(microcontrollerId: string, volts: Map<number, number>, profile: McuInputProfile): void {
+    this.microcontrollers.get(microcontrollerId)?.setInputVoltages(volts, profile)
+  }
+
   /**
    * Get GPIO states for a specific microcontroller
    */
@@ -772,6 +1615,7 @@ export class MultiMicrocontrollerGPIO {
       const mcuStartTime = mcuGPIO.getStartTime()
       const relativeTime = currentTime - mcuStartTime
       mcuGPIO.updateStates(relativeTime)
+      logicCapture.sampleGpio(microcontrollerId, mcuGPIO.getCurrentStates(), mcuStartTime, relativeTime)
     })
     
     // Update global states from all microcontrollers
@@ -0,0 +1,181 @@
+/**
+ * Digital capture behind the logic analyzer. Microcontroller pins arrive as
+ * per-frame `DynamicGPIOState` samples from the multi-MCU loop (PWM drawn out
+ * from its frequency and duty), or as exact edges from the AVR emulator
+ * through a `LogicProbe`; watched nets and logic-gate outputs are sampled on
+ * every circuit solve. Times are ms on a clock that starts when the module
+ * loads, so sub-microsecond edges keep their precision.
+ */
+
+import type { DynamicGPIOState } from './DynamicGPIO'
+import { ATMEGA328P_INPUT_PROFILE, digitalInputLevel } from './gpioInputs'
+import type { LogicGateICStamp } from '../systems/chain/logicGateStamps'
+import type { LogicChannelSource, LogicEdge, LogicTrace } from '../utils/logicAnalyzer'
+
+/** History kept per channel. */
+const CAPTURE_SPAN_MS = 10_000
+const MAX_EDGES_PER_CHANNEL = 50_000
+/** Most PWM periods drawn for one frame, so a fast carrier can't flood the buffer. */
+const MAX_PWM_PERIODS_PER_SAMPLE = 500
+
+/** Where a running microcontroller reports its pin edges. */
+export interface LogicProbe {
+  /** False while nothing is recording; sources can skip the work. */
+  readonly active: boolean
+  /** `pin` (GPIO key) changed to `level`, `atMs` after the source's start time. */
+  edge(pin: number, atMs: number, level: boolean): void
+}
+
+interface Channel {
+  source: LogicChannelSource
+  edges: LogicEdge[]
+  /** Edges come from a probe, so frame samples of the level are redundant. */
+  probed: boolean
+  lastSampleAt: number
+}
+
+export class LogicCapture {
+  private readonly origin = Date.now()
+  private channels = new Map<string, Channel>()
+  private watchedNets = new Set<string>()
+  private recording = false
+  private version = 0
+
+  isRecording(): boolean {
+    return this.recording
+  }
+
+  start(): void {
+    this.recording = true
+  }
+
+  stop(): void {
+    this.recording = false
+  }
+
+  clear(): void {
+    this.channels.clear()
+    this.version++
+  }
+
+  /** Bumps whenever a channel changes; cheap to poll. */
+  getVersion(): number {
+    return this.version
+  }
+
+  /** Capture-clock time for a wall-clock instant. */
+  now(wallMs = Date.now()): number {
+    return wallMs - this.origin
+  }
+
+  getTraces(): LogicTrace[] {
+    return [...this.channels].map(([id, channel]) => ({ id, source: channel.source, edges: channel.edges.slice() }))
+  }
+
+  /** Nets (by pin posKey) to record from each solve. */
+  watchNets(keys: Iterable<string>): void {
+    this.watchedNets = new Set(keys)
+  }
+
+  probe(componentId: string, startTime: number): LogicProbe {
+    const offset = startTime - this.origin
+    const capture = this
+    return {
+      get active() {
+        return capture.recording
+      },
+      edge(pin, atMs, level) {
+        capture.record(`${componentId}:${pin}`, { kind: 'gpio', componentId, pin }, offset + atMs, level, true)
+      },
+    }
+  }
+
+  /** One frame of a microcontroller's pin states, `atMs` after its start time. */
+  sampleGpio(componentId: string, states: Map<number, DynamicGPIOState>, startTime: number, atMs: number): void {
+    if (!this.recording) return
+    const t = startTime - this.origin + atMs
+    states.forEach((state, pin) => {
+      if (state.state === 'INPUT') return
+      const id = `${componentId}:${pin}`
+      const source: LogicChannelSource = { kind: 'gpio', componentId, pin }
+      const frequency = state.frequency ?? 0
+      const duty = state.dutyCycle ?? state.value
+      if (state.state === 'PULSING' && frequency > 0 && duty > 0 && duty < 1) {
+        this.drawPwm(id, source, t, frequency, duty)
+        return
+      }
+      if (this.channels.get(id)?.probed) return
+      this.record(id, source, t, state.state === 'HIGH')
+    })
+  }
+
+  /** Levels of the watched nets and every logic-gate output after a solve. */
+  sampleCircuit(nodeVoltages: Map<string, number>, logicGates: LogicGateICStamp[] | undefined, wallMs = Date.now()): void {
+    if (!this.recording) return
+    const t = this.now(wallMs)
+    this.watchedNets.forEach((key) => {
+      const volts = nodeVoltages.get(key)
+      if (volts === undefined) return
+      const id = `net:${key}`
+      const edges = this.channels.get(id)?.edges
+      const previous = edges?.[edges.length - 1]?.level
+      this.record(id, { kind: 'net', key }, t, digitalInputLevel(volts, ATMEGA328P_INPUT_PROFILE, previous))
+    })
+    logicGates?.forEach((ic) => {
+      ic.gates.forEach((gate, index) => {
+        this.record(
+          `${ic.componentId}:g${index}`,
+          { kind: 'gate', componentId: ic.componentId, chipId: ic.chipId, gate: index },
+          t,
+          gate.outputHigh
+        )
+      })
+    })
+  }
+
+  /** Square wave from the last sample up to `t`, phase-locked to the capture clock. */
+  private drawPwm(id: string, source: LogicChannelSource, t: number, frequency: number, duty: number): void {
+    const period = 1000 / frequency
+    const last = this.channels.get(id)?.lastSampleAt ?? t - period
+    const from = Math.max(last, t - period * MAX_PWM_PERIODS_PER_SAMPLE)
+    for (let k = Math.floor(from / period); k * period <= t; k++) {
+      const rise = k * period
+      const fall = rise + duty * period
+      if (rise > from) this.record(id, source, rise, true)
+      if (fall > from && fall <= t) this.record(id, source, fall, false)
+    }
+    const channel = this.channels.get(id)
+    if (channel) channel.lastSampleAt = t
+  }
+
+  private record(id: string, source: LogicChannelSource, t: number, level: boolean, probed = false): void {
+    if (!this.recording) return
+    let channel = this.channels.get(id)
+    if (!channel) {
+      channel = { source, edges: [], probed, lastSampleAt: t }
+      this.channels.set(id, channel)
+    }
+    channel.probed ||= probed
+    channel.lastSampleAt = Math.max(channel.lastSampleAt, t)
+    const { edges } = channel
+    const last = edges[edges.length - 1]
+    if (last?.level === level) return
+    // Overlapping sources (a waveform still shifting out) can't move time backwards.
+    edges.push({ t: last ? Math.max(t, last.t) : t, level })
+    this.version++
+    if (edges.length > MAX_EDGES_PER_CHANNEL || edges[0].t < t - CAPTURE_SPAN_MS * 1.5) this.trim(edges, t)
+  }
+
+  /** Drop history older than the span, keeping the edge that sets the level at its start. */
+  private trim(edges: LogicEdge[], t: number): void {
+    const cutoff = t - CAPTURE_SPAN_MS
+    const firstInSpan = edges.findIndex((edge) => edge.t > cutoff)
+    const keepFrom = Math.max(
+      firstInSpan === -1 ? edges.length - 1 : firstInSpan - 1,
+      edges.length - MAX_EDGES_PER_CHANNEL
+    )
+    if (keepFrom > 0) edges.splice(0, keepFrom)
+  }
+}
+
+export const logicCapture = new LogicCapture()
@@ -0,0 +1,458 @@
+/**
+ * 1-Wire buses at time-slot level. A `OneWireLine` follows what the master
+ * drives (the AVR's pin at instruction resolution, or `OneWireMaster` on its
+ * own clock) and answers with the devices' presence pulses and read-0 holds,
+ * so firmware bit-banging the OneWire library and sketches replayed by the
+ * pattern matcher see the same DS18B20. Times are ms on the master's clock.
+ */
+
+/** Slaves take anything held low this long as a reset (480 µs nominal). */
+const RESET_DETECT_MS = 0.45
+/** Presence pulse: 30 µs after the reset ends, held 120 µs. */
+const PRESENCE_DELAY_MS = 0.03
+const PRESENCE_LOW_MS = 0.12
+/** A slot held low at least this long writes a 0. */
+const WRITE_ZERO_MS = 0.015
+/** How long a device holds the line after the slot opens to read a 0. */
+const READ_ZERO_HOLD_MS = 0.03
+
+const DS18B20_FAMILY = 0x28
+/** Scratchpad temperature after power-up, before the first conversion (85 °C). */
+const DS18B20_POWER_ON_RAW = 0x0550
+/** Conversion time at 9-bit resolution; each extra bit doubles it. */
+const DS18B20_CONVERT_9BIT_MS = 93.75
+
+export const ONE_WIRE_COMMANDS = {
+  readRom: 0x33,
+  matchRom: 0x55,
+  skipRom: 0xcc,
+  searchRom: 0xf0,
+  alarmSearch: 0xec,
+  convertT: 0x44,
+  writeScratchpad: 0x4e,
+  readScratchpad: 0xbe,
+  copyScratchpad: 0x48,
+  recallEeprom: 0xb8,
+  readPowerSupply: 0xb4,
+} as const
+
+/** Dallas/Maxim CRC-8 (x⁸ + x⁵ + x⁴ + 1), as the ROM code and scratchpad carry it. */
+export function oneWireCrc8(bytes: number[]): number {
+  let crc = 0
+  for (const byte of bytes) {
+    let b = byte
+    for (let i = 0; i < 8; i++) {
+      const mix = (crc ^ b) & 1
+      crc >>= 1
+      if (mix) crc ^= 0x8c
+      b >>= 1
+    }
+  }
+  return crc
+}
+
+const bitsOf = (bytes: number[]) => bytes.flatMap((byte) => [0, 1, 2, 3, 4, 5, 6, 7].map((i) => ((byte >> i) & 1) === 1))
+
+/** A slave on the line. */
+export interface OneWireDevice {
+  readonly componentId: string
+  /** Family code, 48-bit serial and CRC, as sent by Read ROM */
+  readonly rom: number[]
+  /** Stimulus values from the sheet (the DS18B20 reads `temperature`). */
+  setInputs(inputs: Record<string, number>): void
+  /** Bus reset; true answers with a presence pulse. */
+  reset(atMs: number): boolean
+  /** The master opened a slot: the bit this device sends (false holds the line low), or null to listen. */
+  slot(atMs: number): boolean | null
+  /** A slot this device listened to ended with the master writing `bit`. */
+  receive(bit: boolean, atMs: number): void
+}
+
+export type OneWireEvent = { kind: 'reset'; presence: boolean } | { kind: 'byte'; byte: number }
+
+/**
+ * One open-drain 1-Wire line with its pull-up: low while the master or any
+ * device holds it. Bits seen on the wire are grouped into bytes after each
+ * reset for the bus analyzer; search triplets come out as raw bits.
+ */
+export class OneWireLine {
+  readonly listeners: Array<(event: OneWireEvent) => void> = []
+  /** Latest time seen on the line, where a master on its own clock resumes. */
+  clock = 0
+  private masterLow = false
+  private lowSince = 0
+  private holdUntil = -Infinity
+  private presence: { from: number; until: number } | null = null
+  private listening: OneWireDevice[] = []
+  private slotHeld = false
+  private shift = 0
+  private bitCount = 0
+
+  constructor(readonly devices: OneWireDevice[]) {}
+
+  /** The master pulled the line low or released it. */
+  drive(low: boolean, atMs: number): void {
+    this.clock = Math.max(this.clock, atMs)
+    if (low === this.masterLow) return
+    this.masterLow = low
+    if (low) {
+      this.lowSince = atMs
+      this.listening = []
+      this.slotHeld = false
+      this.devices.forEach((device) => {
+        const bit = device.slot(atMs)
+        if (bit === null) this.listening.push(device)
+        else if (!bit) this.slotHeld = true
+      })
+      if (this.slotHeld) this.holdUntil = atMs + READ_ZERO_HOLD_MS
+      return
+    }
+
+    const duration = atMs - this.lowSince
+    if (duration >= RESET_DETECT_MS) {
+      let presence = false
+      this.devices.forEach((device) => {
+        if (device.reset(atMs)) presence = true
+      })
+      this.presence = presence ? { from: atMs + PRESENCE_DELAY_MS, until: atMs + PRESENCE_DELAY_MS + PRESENCE_LOW_MS } : null
+      this.holdUntil = -Infinity
+      this.shift = 0
+      this.bitCount = 0
+      this.emit({ kind: 'reset', presence })
+      return
+    }
+    const written = duration < WRITE_ZERO_MS
+    this.listening.forEach((device) => device.receive(written, atMs))
+    this.shift |= (written && !this.slotHeld ? 1 : 0) << this.bitCount
+    if (++this.bitCount === 8) {
+      this.emit({ kind: 'byte', byte: this.shift })
+      this.shift = 0
+      this.bitCount = 0
+    }
+  }
+
+  /** Whether the line reads low at `atMs`. */
+  pulledLow(atMs: number): boolean {
+    this.clock = Math.max(this.clock, atMs)
+    if (this.masterLow || atMs < this.holdUntil) return true
+    return this.presence !== null && atMs >= this.presence.from && atMs < this.presence.until
+  }
+
+  private emit(event: OneWireEvent): void {
+    this.listeners.forEach((listener) => listener(event))
+  }
+}
+
+type Ds18b20Mode = 'rom' | 'match' | 'search' | 'function' | 'writeScratchpad' | 'converting' | 'done' | 'idle'
+
+/** Six serial bytes that stay the same for a part across sessions. */
+function serialFromId(componentId: string): number[] {
+  const hash = (seed: number) => {
+    let h = seed
+    for (let i = 0; i < componentId.length; i++) h = Math.imul(h ^ componentId.charCodeAt(i), 0x01000193)
+    return h >>> 0
+  }
+  const a = hash(0x811c9dc5)
+  const b = hash(0x2f6b1d3)
+  return [a & 0xff, (a >>> 8) & 0xff, (a >>> 16) & 0xff, (a >>> 24) & 0xff, b & 0xff, (b >>> 8) & 0xff]
+}
+
+/**
+ * DS18B20 digital thermometer: ROM commands including search and alarm
+ * search, Convert T at the configured resolution (read slots return 0 until
+ * it finishes), scratchpad read/write with CRC, EEPROM copy/recall, and an
+ * externally powered supply. Parasite power isn't modelled.
+ */
+export class Ds18b20 implements OneWireDevice {
+  readonly rom: number[]
+  temperature = 25
+  private th = 0x4b
+  private tl = 0x46
+  private config = 0x7f
+  private eeprom = { th: 0x4b, tl: 0x46, config: 0x7f }
+  private raw = DS18B20_POWER_ON_RAW
+  private conversion: { doneAt: number; raw: number } | null = null
+  private mode: Ds18b20Mode = 'idle'
+  private tx: boolean[] = []
+  private shift = 0
+  private bitCount = 0
+  private received: number[] = []
+  private searchBit = 0
+
+  constructor(readonly componentId: string) {
+    const code = [DS18B20_FAMILY, ...serialFromId(componentId)]
+    this.rom = [...code, oneWireCrc8(code)]
+  }
+
+  setInputs(inputs: Record<string, number>): void {
+    if (typeof inputs.temperature === 'number') this.temperature = inputs.temperature
+  }
+
+  /** Resolution in bits (9–12) from the configuration register. */
+  get resolution(): number {
+    return 9 + ((this.config >> 5) & 3)
+  }
+
+  get conversionMs(): number {
+    return DS18B20_CONVERT_9BIT_MS * 2 ** (this.resolution - 9)
+  }
+
+  /** The scratchpad as Read Scratchpad sends it, CRC last. */
+  scratchpad(): number[] {
+    const bytes = [this.raw & 0xff, (this.raw >> 8) & 0xff, this.th, this.tl, this.config, 0xff, 0x0c, 0x10]
+    return [...bytes, oneWireCrc8(bytes)]
+  }
+
+  reset(atMs: number): boolean {
+    this.settle(atMs)
+    this.mode = 'rom'
+    this.tx = []
+    this.shift = 0
+    this.bitCount = 0
+    return true
+  }
+
+  slot(atMs: number): boolean | null {
+    this.settle(atMs)
+    if (this.mode === 'converting') return this.conversion === null
+    if (this.tx.length > 0) return this.tx.shift()!
+    return null
+  }
+
+  receive(bit: boolean, atMs: number): void {
+    this.settle(atMs)
+    if (this.mode === 'search') {
+      if (bit !== bitsOf(this.rom)[this.searchBit]) {
+        this.mode = 'idle'
+        return
+      }
+      this.searchBit++
+      if (this.searchBit === 64) this.mode = 'function'
+      else this.queueSearchBit()
+      return
+    }
+    if (this.mode === 'idle' || this.mode === 'done' || this.mode === 'converting') return
+    this.shift |= (bit ? 1 : 0) << this.bitCount
+    if (++this.bitCount < 8) return
+    const byte = this.shift
+    this.shift = 0
+    this.bitCount = 0
+    this.command(byte, atMs)
+  }
+
+  private command(byte: number, atMs: number): void {
+    const c = ONE_WIRE_COMMANDS
+    switch (this.mode) {
+      case 'rom':
+        if (byte === c.readRom) {
+          this.tx = bitsOf(this.rom)
+          this.mode = 'function'
+        } else if (byte === c.skipRom) {
+          this.mode = 'function'
+        } else if (byte === c.matchRom) {
+          this.received = []
+          this.mode = 'match'
+        } else if (byte === c.searchRom || (byte === c.alarmSearch && this.alarmed())) {
+          this.searchBit = 0
+          this.mode = 'search'
+          this.queueSearchBit()
+        } else {
+          this.mode = 'idle'
+        }
+        return
+      case 'match':
+        this.received.push(byte)
+        if (this.received.length === 8) {
+          this.mode = this.received.every((b, i) => b === this.rom[i]) ? 'function' : 'idle'
+        }
+        return
+      case 'writeScratchpad':
+        this.received.push(byte)
+        if (this.received.length === 3) {
+          ;[this.th, this.tl] = this.received
+          this.config = (this.received[2] & 0x60) | 0x1f
+          this.mode = 'done'
+        }
+        return
+      case 'function':
+        this.mode = 'done'
+        if (byte === c.convertT) {
+          this.conversion = { doneAt: atMs + this.conversionMs, raw: this.encode(this.temperature) }
+          this.mode = 'converting'
+        } else if (byte === c.readScratchpad) {
+          this.tx = bitsOf(this.scratchpad())
+        } else if (byte === c.writeScratchpad) {
+          this.received = []
+          this.mode = 'writeScratchpad'
+        } else if (byte === c.copyScratchpad) {
+          this.eeprom = { th: this.th, tl: this.tl, config: this.config }
+        } else if (byte === c.recallEeprom) {
+          ;({ th: this.th, tl: this.tl, config: this.config } = this.eeprom)
+        } else if (byte === c.readPowerSupply) {
+          this.tx = [true]
+        }
+        return
+    }
+  }
+
+  /** Send a ROM bit and its complement; the master's direction bit follows. */
+  private queueSearchBit(): void {
+    const bit = bitsOf(this.rom)[this.searchBit]
+    this.tx = [bit, !bit]
+  }
+
+  /** Finish a conversion whose time is up. */
+  private settle(atMs: number): void {
+    if (!this.conversion || atMs < this.conversion.doneAt) return
+    this.raw = this.conversion.raw
+    this.conversion = null
+  }
+
+  /** Temperature register value at the current resolution (1/16 °C, undefined bits zero). */
+  private encode(celsius: number): number {
+    const step = 2 ** (12 - this.resolution)
+    const sixteenths = Math.round(Math.max(-55, Math.min(125, celsius)) * (16 / step)) * step
+    return sixteenths & 0xffff
+  }
+
+  /** Alarm flag: the last reading's whole degrees at or beyond TH/TL. */
+  private alarmed(): boolean {
+    const whole = ((this.raw << 16) >> 16) >> 4
+    const signed = (b: number) => (b << 24) >> 24
+    return whole >= signed(this.th) || whole <= signed(this.tl)
+  }
+}
+
+/** 1-Wire parts the sheet can put on a line, by anchor. */
+export function createOneWireDevice(componentId: string, moduleType: string): OneWireDevice | null {
+  return moduleType === 'Temperature Sensor' ? new Ds18b20(componentId) : null
+}
+
+/** DallasTemperature's value for a sensor that didn't answer. */
+export const DEVICE_DISCONNECTED_C = -127
+
+/**
+ * Byte-level master on its own clock, timed like the Arduino OneWire
+ * library: resets, bytes, ROM search, and the DallasTemperature calls the
+ * pattern matcher replays.
+ */
+export class OneWireMaster {
+  private t: number
+
+  constructor(private line: OneWireLine) {
+    this.t = line.clock
+  }
+
+  /** Reset pulse; true when a device answered with presence. */
+  reset(): boolean {
+    this.t = Math.max(this.t, this.line.clock)
+    this.line.drive(true, this.t)
+    this.t += 0.48
+    this.line.drive(false, this.t)
+    this.t += 0.07
+    const present = this.line.pulledLow(this.t)
+    this.t += 0.41
+    return present
+  }
+
+  writeBit(bit: boolean): void {
+    this.line.drive(true, this.t)
+    this.t += bit ? 0.01 : 0.065
+    this.line.drive(false, this.t)
+    this.t += bit ? 0.055 : 0.005
+  }
+
+  readBit(): boolean {
+    this.line.drive(true, this.t)
+    this.t += 0.003
+    this.line.drive(false, this.t)
+    this.t += 0.01
+    const bit = !this.line.pulledLow(this.t)
+    this.t += 0.053
+    return bit
+  }
+
+  writeByte(byte: number): void {
+    for (let i = 0; i < 8; i++) this.writeBit(((byte >> i) & 1) === 1)
+  }
+
+  readByte(): number {
+    let byte = 0
+    for (let i = 0; i < 8; i++) if (this.readBit()) byte |= 1 << i
+    return byte
+  }
+
+  /** Address one device (Match ROM), or every device when `rom` is null (Skip ROM). */
+  select(rom: number[] | null): void {
+    if (!rom) {
+      this.writeByte(ONE_WIRE_COMMANDS.skipRom)
+      return
+    }
+    this.writeByte(ONE_WIRE_COMMANDS.matchRom)
+    rom.forEach((byte) => this.writeByte(byte))
+  }
+
+  /** Every ROM code on the line (Search ROM), in search order; codes failing CRC are dropped. */
+  search(): number[][] {
+    const roms: number[][] = []
+    const bits: boolean[] = new Array(64).fill(false)
+    let lastDiscrepancy = 0
+    do {
+      if (!this.reset()) break
+      this.writeByte(ONE_WIRE_COMMANDS.searchRom)
+      let lastZero = 0
+      for (let index = 1; index <= 64; index++) {
+        const bit = this.readBit()
+        const complement = this.readBit()
+        if (bit && complement) return roms
+        let direction = bit
+        if (bit === complement) {
+          direction = index < lastDiscrepancy ? bits[index - 1] : index === lastDiscrepancy
+          if (!direction) lastZero = index
+        }
+        bits[index - 1] = direction
+        this.writeBit(direction)
+      }
+      lastDiscrepancy = lastZero
+      const rom = Array.from({ length: 8 }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((byte, b, j) => byte | ((b ? 1 : 0) << j), 0))
+      if (oneWireCrc8(rom.slice(0, 7)) === rom[7]) roms.push(rom)
+    } while (lastDiscrepancy !== 0)
+    return roms
+  }
+
+  /** Convert T on every device, then poll until the slowest finishes. */
+  requestTemperatures(): void {
+    if (!this.reset()) return
+    this.select(null)
+    this.writeByte(ONE_WIRE_COMMANDS.convertT)
+    for (let waited = 0; waited < DS18B20_CONVERT_9BIT_MS * 8 + 50; waited++) {
+      if (this.readBit()) return
+      this.t += 1
+    }
+  }
+
+  /** Set one device's resolution (9–12 bits), keeping its alarm thresholds. */
+  setResolution(rom: number[], bits: number): void {
+    if (!this.reset()) return
+    this.select(rom)
+    this.writeByte(ONE_WIRE_COMMANDS.readScratchpad)
+    const scratchpad = Array.from({ length: 5 }, () => this.readByte())
+    if (!this.reset()) return
+    this.select(rom)
+    this.writeByte(ONE_WIRE_COMMANDS.writeScratchpad)
+    this.writeByte(scratchpad[2])
+    this.writeByte(scratchpad[3])
+    this.writeByte(((Math.max(9, Math.min(12, Math.round(bits))) - 9) << 5) | 0x1f)
+  }
+
+  /** °C from one device's scratchpad, or `DEVICE_DISCONNECTED_C` when it doesn't answer or the CRC fails. */
+  readTemperature(rom: number[]): number {
+    if (!this.reset()) return DEVICE_DISCONNECTED_C
+    this.select(rom)
+    this.writeByte(ONE_WIRE_COMMANDS.readScratchpad)
+    const bytes = Array.from({ length: 9 }, () => this.readByte())
+    if (oneWireCrc8(bytes.slice(0, 8)) !== bytes[8] || bytes.every((b) => b === 0xff)) return DEVICE_DISCONNECTED_C
+    const raw = ((bytes[1] << 8) | bytes[0]) << 16 >> 16
+    return raw / 16
+  }
+}
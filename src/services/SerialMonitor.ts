@@ -0,0 +1,157 @@
+/**
+ * Virtual serial ports for simulated microcontrollers. The running source
+ * (AVR emulator or sketch pattern matcher) writes what the sketch prints; the
+ * Serial Monitor reads it line by line and sends typed input back.
+ */
+
+export const SERIAL_BAUD_RATES = [300, 1200, 2400, 4800, 9600, 19200, 38400, 57600, 74880, 115200, 230400, 250000, 500000, 1000000]
+
+/** UARTs tolerate a few percent of clock mismatch before bytes turn to garbage. */
+const BAUD_TOLERANCE = 0.05
+const MAX_ENTRIES = 1000
+
+export interface SerialEntry {
+  /** 'rx' is what the device printed, 'tx' what the user sent, 'note' the simulator's own remarks (stubbed WiFi/BLE) */
+  direction: 'rx' | 'tx' | 'note'
+  text: string
+  /** Wall-clock ms when the line started */
+  timestamp: number
+}
+
+export function baudRatesMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) / b <= BAUD_TOLERANCE
+}
+
+/** What a byte sent at the wrong baud rate looks like on the other end. */
+function garble(byte: number): number {
+  return 0x80 | ((byte * 37 + 11) & 0x7f)
+}
+
+export class SerialChannel {
+  /** Baud rate the sketch configured with Serial.begin, when known */
+  deviceBaud: number | null = null
+  private monitorBaudRate = 9600
+  private entries: SerialEntry[] = []
+  /** Device output after the last newline, not yet a full line */
+  private openLine: SerialEntry | null = null
+  private listeners = new Set<() => void>()
+  private transmitListeners = new Set<(bytes: number[]) => void>()
+  private deviceInput: ((bytes: number[]) => void) | null = null
+
+  get monitorBaud(): number {
+    return this.monitorBaudRate
+  }
+
+  set monitorBaud(baud: number) {
+    this.monitorBaudRate = baud
+    this.notify()
+  }
+
+  /** True when both ends are configured and disagree. */
+  get baudMismatch(): boolean {
+    return this.deviceBaud !== null && !baudRatesMatch(this.deviceBaud, this.monitorBaudRate)
+  }
+
+  /** Bytes the device transmitted. */
+  deviceWrite(bytes: ArrayLike<number>): void {
+    if (bytes.length > 0 && this.transmitListeners.size > 0) {
+      const sent = Array.from(bytes)
+      this.transmitListeners.forEach((listener) => listener(sent))
+    }
+    const mismatch = this.baudMismatch
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = mismatch ? garble(bytes[i]) : bytes[i]
+      if (byte === 0x0a) {
+        this.openLine ??= this.pushEntry('rx', '')
+        this.openLine = null
+        continue
+      }
+      if (byte === 0x0d) continue
+      this.openLine ??= this.pushEntry('rx', '')
+      this.openLine.text += String.fromCharCode(byte)
+    }
+    if (bytes.length > 0) this.notify()
+  }
+
+  deviceWriteText(text: string): void {
+    this.deviceWrite(Array.from(text, (ch) => ch.charCodeAt(0) & 0xff))
+  }
+
+  /** A line from the simulator about the device, e.g. what a stubbed network call did; never on the wire. */
+  deviceNote(text: string): void {
+    this.pushEntry('note', text)
+    this.notify()
+  }
+
+  /** Text typed into the monitor, delivered to the device with `lineEnding`. */
+  send(text: string, lineEnding = ''): void {
+    this.pushEntry('tx', text)
+    const mismatch = this.baudMismatch
+    const bytes = Array.from(text + lineEnding, (ch) => ch.charCodeAt(0) & 0xff).map((b) => (mismatch ? garble(b) : b))
+    this.deviceInput?.(bytes)
+    this.notify()
+  }
+
+  /**
+   * Bytes arriving on the device's RX pin from another UART running at `baud`
+   * (null when unknown); they never show in the monitor.
+   */
+  receive(bytes: number[], baud: number | null): void {
+    const mismatch = baud !== null && this.deviceBaud !== null && !baudRatesMatch(baud, this.deviceBaud)
+    this.deviceInput?.(mismatch ? bytes.map(garble) : bytes)
+  }
+
+  /** Watch what the device transmits, as sent (before any monitor-side garbling). */
+  onTransmit(listener: (bytes: number[]) => void): () => void {
+    this.transmitListeners.add(listener)
+    return () => this.transmitListeners.delete(listener)
+  }
+
+  /** Route monitor input to a running device until the returned detach runs. */
+  attachDevice(onInput: (bytes: number[]) => void): () => void {
+    this.deviceInput = onInput
+    return () => {
+      if (this.deviceInput === onInput) this.deviceInput = null
+      this.deviceBaud = null
+      this.openLine = null
+    }
+  }
+
+  getEntries(): SerialEntry[] {
+    return this.entries.map((entry) => ({ ...entry }))
+  }
+
+  clear(): void {
+    this.entries = []
+    this.openLine = null
+    this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private pushEntry(direction: SerialEntry['direction'], text: string): SerialEntry {
+    const entry: SerialEntry = { direction, text, timestamp: Date.now() }
+    this.entries.push(entry)
+    if (this.entries.length > MAX_ENTRIES) this.entries.splice(0, this.entries.length - MAX_ENTRIES)
+    return entry
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+const channels = new Map<string, SerialChannel>()
+
+/** The serial port of a microcontroller; it outlives individual simulation runs. */
+export function getSerialChannel(microcontrollerId: string): SerialChannel {
+  let channel = channels.get(microcontrollerId)
+  if (!channel) {
+    channel = new SerialChannel()
+    channels.set(microcontrollerId, channel)
+  }
+  return channel
+}
@@ -0,0 +1,148 @@
+import type { DynamicGPIOState } from '../DynamicGPIO'
+import { AvrCpu } from './cpu'
+import { decodeFirmware } from './firmware'
+import { AvrAdc, AvrPort, AvrSpi, AvrTimer, AvrTwi, AvrUsart, type PwmOutput } from './peripherals'
+
+export const ATMEGA328P_CLOCK_HZ = 16_000_000
+
+const FLASH_WORDS = 0x4000
+const DATA_BYTES = 0x900
+
+/** Boards built on the ATmega328P that the emulator can run. */
+export function isAtmega328Board(board: string | undefined): boolean {
+  return board === 'arduino:avr:uno' || board === 'arduino:avr:nano'
+}
+
+type PortName = 'B' | 'C' | 'D'
+
+/** Arduino pin number → port bit (D0–D7 on PORTD, D8–D13 on PORTB, A0–A5 on PORTC). */
+function arduinoPinLocation(pin: number): { port: PortName; bit: number } | null {
+  if (pin >= 0 && pin <= 7) return { port: 'D', bit: pin }
+  if (pin >= 8 && pin <= 13) return { port: 'B', bit: pin - 8 }
+  if (pin >= 14 && pin <= 19) return { port: 'C', bit: pin - 14 }
+  return null
+}
+
+/** Key used by the solver's GPIO map: digital pins by number, A0–A5 as 100–105. */
+function gpioKey(pin: number): number {
+  return pin >= 14 ? 100 + (pin - 14) : pin
+}
+
+/**
+ * ATmega328P as wired on an Uno/Nano at 16 MHz: ports B/C/D, Timer0/1/2 with
+ * PWM on the OC pins, the ADC, USART0, and the TWI and SPI masters. Runs a compiled sketch image and
+ * reports pins in the same shape the pattern-matching GPIO used.
+ */
+export class ATmega328P {
+  readonly cpu: AvrCpu
+  readonly ports: Record<PortName, AvrPort>
+  readonly timers: [AvrTimer, AvrTimer, AvrTimer]
+  readonly adc: AvrAdc
+  readonly usart: AvrUsart
+  readonly twi: AvrTwi
+  readonly spi: AvrSpi
+  private readonly pwmPins: Map<number, () => PwmOutput | null>
+
+  constructor(program: Uint16Array) {
+    const cpu = new AvrCpu(program, { flashWords: FLASH_WORDS, dataBytes: DATA_BYTES })
+    this.cpu = cpu
+    this.ports = {
+      B: new AvrPort(cpu, { PIN: 0x23, DDR: 0x24, PORT: 0x25 }),
+      C: new AvrPort(cpu, { PIN: 0x26, DDR: 0x27, PORT: 0x28 }),
+      D: new AvrPort(cpu, { PIN: 0x29, DDR: 0x2a, PORT: 0x2b }),
+    }
+    const timer0 = new AvrTimer(cpu, {
+      bits: 8, TCCRA: 0x44, TCCRB: 0x45, TCNT: 0x46, OCRA: 0x47, OCRB: 0x48, TIMSK: 0x6e, TIFR: 0x35,
+      dividers: [0, 1, 8, 64, 256, 1024, 0, 0], compAVector: 14, compBVector: 15, ovfVector: 16,
+    }, ATMEGA328P_CLOCK_HZ)
+    const timer1 = new AvrTimer(cpu, {
+      bits: 16, TCCRA: 0x80, TCCRB: 0x81, TCNT: 0x84, ICR: 0x86, OCRA: 0x88, OCRB: 0x8a, TIMSK: 0x6f, TIFR: 0x36,
+      dividers: [0, 1, 8, 64, 256, 1024, 0, 0], compAVector: 11, compBVector: 12, ovfVector: 13,
+    }, ATMEGA328P_CLOCK_HZ)
+    const timer2 = new AvrTimer(cpu, {
+      bits: 8, TCCRA: 0xb0, TCCRB: 0xb1, TCNT: 0xb2, OCRA: 0xb3, OCRB: 0xb4, TIMSK: 0x70, TIFR: 0x37,
+      dividers: [0, 1, 8, 32, 64, 128, 256, 1024], compAVector: 7, compBVector: 8, ovfVector: 9,
+    }, ATMEGA328P_CLOCK_HZ)
+    this.timers = [timer0, timer1, timer2]
+    this.adc = new AvrAdc(cpu, { ADCL: 0x78, ADCH: 0x79, ADCSRA: 0x7a, ADMUX: 0x7c, vector: 21, bandgapVolts: 1.1 })
+    this.usart = new AvrUsart(cpu, { UCSRA: 0xc0, UCSRB: 0xc1, UBRRL: 0xc4, UBRRH: 0xc5, UDR: 0xc6, rxVector: 18, udreVector: 19, txVector: 20 })
+    this.twi = new AvrTwi(cpu, { TWBR: 0xb8, TWSR: 0xb9, TWDR: 0xbb, TWCR: 0xbc, vector: 24 }, ATMEGA328P_CLOCK_HZ)
+    this.spi = new AvrSpi(cpu, { SPCR: 0x4c, SPSR: 0x4d, SPDR: 0x4e, vector: 17 })
+    for (const peripheral of [timer0, timer1, timer2, this.adc, this.twi, this.spi]) cpu.addPeripheral(peripheral)
+
+    this.pwmPins = new Map([
+      [6, () => timer0.pwmOutput('A')],
+      [5, () => timer0.pwmOutput('B')],
+      [9, () => timer1.pwmOutput('A')],
+      [10, () => timer1.pwmOutput('B')],
+      [11, () => timer2.pwmOutput('A')],
+      [3, () => timer2.pwmOutput('B')],
+    ])
+  }
+
+  /** Build from the base64 image the compile API returns (.hex or .bin). */
+  static fromFirmware(firmwareBase64: string): ATmega328P {
+    return new ATmega328P(decodeFirmware(firmwareBase64))
+  }
+
+  /** Emulated time since reset. */
+  get elapsedMs(): number {
+    return (this.cpu.cycles / ATMEGA328P_CLOCK_HZ) * 1000
+  }
+
+  runFor(ms: number): void {
+    this.cpu.runCycles(Math.round((ms / 1000) * ATMEGA328P_CLOCK_HZ))
+  }
+
+  /** Baud rate Serial.begin configured on USART0, or null before it runs. */
+  get serialBaud(): number | null {
+    return this.usart.baudRate(ATMEGA328P_CLOCK_HZ)
+  }
+
+  /** Volts on A0–A5 (analog channels 0–5). */
+  setAnalogInput(channel: number, volts: number): void {
+    if (channel >= 0 && channel < this.adc.channelVolts.length) this.adc.channelVolts[channel] = volts
+  }
+
+  /** Drive a digital input high or low, or release it (undefined). */
+  setDigitalInput(arduinoPin: number, level: boolean | undefined): void {
+    const location = arduinoPinLocation(arduinoPin)
+    if (location) this.ports[location.port].setInput(location.bit, level)
+  }
+
+  /** Level on an Arduino pin as the chip sees it (driven output or external input). */
+  pinLevel(arduinoPin: number): boolean {
+    const location = arduinoPinLocation(arduinoPin)
+    return location ? (this.ports[location.port].pinLevels() & (1 << location.bit)) !== 0 : false
+  }
+
+  /** Current level or PWM waveform on every Arduino pin. */
+  getPinStates(): Map<number, DynamicGPIOState> {
+    const states = new Map<number, DynamicGPIOState>()
+    const timestamp = this.elapsedMs
+    for (let pin = 0; pin <= 19; pin++) {
+      const { port, bit } = arduinoPinLocation(pin)!
+      const mask = 1 << bit
+      const key = gpioKey(pin)
+      if (!(this.ports[port].ddr & mask)) {
+        states.set(key, { pin: key, state: 'INPUT', value: this.ports[port].port & mask ? 1 : 0, timestamp })
+        continue
+      }
+      const pwm = this.pwmPins.get(pin)?.()
+      if (pwm && pwm.duty > 0 && pwm.duty < 1) {
+        states.set(key, {
+          pin: key,
+          state: 'PULSING',
+          value: pwm.duty,
+          timestamp,
+          frequency: pwm.frequency,
+          dutyCycle: pwm.duty,
+        })
+        continue
+      }
+      const high = pwm ? pwm.duty >= 1 : (this.ports[port].port & mask) !== 0
+      states.set(key, { pin: key, state: high ? 'HIGH' : 'LOW', value: high ? 1 : 0, timestamp })
+    }
+    return states
+  }
+}
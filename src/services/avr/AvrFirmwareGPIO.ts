@@ -0,0 +1,234 @@
+import type { BusPort } from '../BusHub'
+import type { DynamicGPIOState } from '../DynamicGPIO'
+import { ATMEGA328P_INPUT_PROFILE, digitalInputLevel } from '../gpioInputs'
+import type { LogicProbe } from '../LogicCapture'
+import type { SerialChannel } from '../SerialMonitor'
+import { i2cEdges, spiByteEdges, uartFrameEdges, type LineEdge } from '../../utils/logicAnalyzer'
+import { ATMEGA328P_CLOCK_HZ, ATmega328P } from './ATmega328P'
+
+/** Most emulated time run in one update; anything beyond is dropped so a slow frame can't stall the UI. */
+const MAX_CATCH_UP_MS = 50
+
+/** Arduino pins the USART, TWI and SPI take over while enabled (TXD; SDA/SCL; MOSI/MISO/SCK). */
+const UART_TX_PIN = 1
+const TWI_PINS = { sda: 18, scl: 19 }
+const SPI_PINS = { mosi: 11, miso: 12, sck: 13 }
+/** First Arduino pin on each port. */
+const PORT_PIN_BASE = { B: 8, C: 14, D: 0 } as const
+
+/** Solver GPIO key for an Arduino pin (A0–A5 as 100–105). */
+const gpioKey = (pin: number) => (pin >= 14 ? 100 + (pin - 14) : pin)
+
+/**
+ * GPIO source backed by the ATmega328P emulator. Emulated time follows wall
+ * time from `startTime`, slipping behind when the host can't keep up.
+ */
+export class AvrFirmwareGPIO {
+  readonly mcu: ATmega328P
+  private startTime = Date.now()
+  private lagMs = 0
+  private states = new Map<number, DynamicGPIOState>()
+  private inputLevels = new Map<number, boolean>()
+  private running = true
+  private detachSerial: (() => void) | null = null
+  private detachBuses: (() => void) | null = null
+  private detachLogic: (() => void) | null = null
+
+  constructor(mcu: ATmega328P) {
+    this.mcu = mcu
+    this.states = mcu.getPinStates()
+  }
+
+  static fromFirmware(firmwareBase64: string): AvrFirmwareGPIO {
+    return new AvrFirmwareGPIO(ATmega328P.fromFirmware(firmwareBase64))
+  }
+
+  getStartTime(): number {
+    return this.startTime
+  }
+
+  /** Run the core up to `currentTime` ms after start and sample the pins. */
+  updateStates(currentTime: number): void {
+    if (!this.running) return
+    const behind = currentTime - this.lagMs - this.mcu.elapsedMs
+    if (behind > MAX_CATCH_UP_MS) this.lagMs += behind - MAX_CATCH_UP_MS
+    if (behind > 0) this.mcu.runFor(Math.min(behind, MAX_CATCH_UP_MS))
+    if (this.mcu.cpu.halted) {
+      console.warn(`[AVR] Core stopped: ${this.mcu.cpu.halted}`)
+      this.running = false
+    }
+    this.states = this.mcu.getPinStates()
+  }
+
+  /** Connect USART0 to a serial port: transmitted bytes go out, typed input is received. */
+  attachSerial(channel: SerialChannel): void {
+    this.detachSerial?.()
+    const transmit = (byte: number) => {
+      channel.deviceBaud = this.mcu.serialBaud
+      channel.deviceWrite([byte])
+    }
+    this.mcu.usart.onTransmit.push(transmit)
+    const detachInput = channel.attachDevice((bytes) => bytes.forEach((byte) => this.mcu.usart.receive(byte)))
+    this.detachSerial = () => {
+      const listeners = this.mcu.usart.onTransmit
+      listeners.splice(listeners.indexOf(transmit), 1)
+      detachInput()
+    }
+  }
+
+  /**
+   * Connect the TWI and SPI masters to the modules wired on their buses, and
+   * bit-banged GPIOs to 1-Wire lines: the OneWire library pulls the line low
+   * by making the pin an output at PORT low and releases it as an input.
+   */
+  attachBuses(port: BusPort): void {
+    this.detachBuses?.()
+    const { twi, spi, ports } = this.mcu
+    const isLow = (gpio: number) => !this.mcu.pinLevel(gpio >= 100 ? 14 + (gpio - 100) : gpio)
+    const chipSelects = () => port.spiChipSelects(isLow)
+    twi.bus = {
+      start: (address, read) => port.i2cStart(address, read),
+      write: (byte) => port.i2cWrite(byte),
+      read: () => port.i2cRead(),
+      stop: () => port.i2cStop(),
+    }
+    spi.onTransfer = (byte) => port.spiTransfer(byte, isLow)
+    const portNames = Object.keys(ports) as Array<keyof typeof ports>
+    const drivenLow = new Map<string, number>()
+    const oneWireDrive = () => {
+      portNames.forEach((name) => {
+        const p = ports[name]
+        const low = p.ddr & ~p.port & 0xff
+        const changed = low ^ (drivenLow.get(name) ?? 0)
+        if (!changed) return
+        drivenLow.set(name, low)
+        for (let bit = 0; bit < 8; bit++) {
+          if (!(changed & (1 << bit))) continue
+          port.oneWire(gpioKey(PORT_PIN_BASE[name] + bit))?.drive((low & (1 << bit)) !== 0, this.mcu.elapsedMs)
+        }
+      })
+    }
+    portNames.forEach((name) => {
+      ports[name].onWrite.push(chipSelects, oneWireDrive)
+      ports[name].onDirection.push(oneWireDrive)
+      ports[name].heldLow = (bit) => port.oneWire(gpioKey(PORT_PIN_BASE[name] + bit))?.pulledLow(this.mcu.elapsedMs) ?? false
+    })
+    this.detachBuses = () => {
+      twi.bus = null
+      spi.onTransfer = null
+      Object.values(ports).forEach((p) => {
+        p.onWrite.splice(p.onWrite.indexOf(chipSelects), 1)
+        p.onWrite.splice(p.onWrite.indexOf(oneWireDrive), 1)
+        p.onDirection.splice(p.onDirection.indexOf(oneWireDrive), 1)
+        p.heldLow = null
+      })
+    }
+  }
+
+  /**
+   * Report pin edges at instruction resolution. Port writes give the levels of
+   * plain GPIO; pins the USART, TWI or SPI own are drawn from the bytes those
+   * peripherals shift, at their bit rates. Hardware PWM is left to the frame
+   * samples of `getCurrentStates`.
+   */
+  attachLogic(probe: LogicProbe): void {
+    this.detachLogic?.()
+    const { ports, usart, twi, spi, cpu } = this.mcu
+    const now = () => this.lagMs + this.mcu.elapsedMs
+    const levels = new Map<number, boolean>()
+    const peripheralPins = () => {
+      const owned = new Set<number>()
+      if (cpu.data[usart.config.UCSRB] & 0x08) owned.add(UART_TX_PIN) // TXEN
+      if (cpu.data[twi.config.TWCR] & 0x04) Object.values(TWI_PINS).forEach((pin) => owned.add(pin)) // TWEN
+      if (cpu.data[spi.config.SPCR] & 0x40) Object.values(SPI_PINS).forEach((pin) => owned.add(pin)) // SPE
+      return owned
+    }
+    const samplePorts = () => {
+      if (!probe.active) return
+      const owned = peripheralPins()
+      for (let pin = 0; pin <= 19; pin++) {
+        if (owned.has(pin) || this.states.get(gpioKey(pin))?.state === 'PULSING') continue
+        const level = this.mcu.pinLevel(pin)
+        if (levels.get(pin) === level) continue
+        levels.set(pin, level)
+        probe.edge(gpioKey(pin), now(), level)
+      }
+    }
+    // A waveform starts no earlier than its bus finished drawing the last one.
+    const busyUntil = new Map<object, number>()
+    const draw = <Line extends string>(edges: Array<LineEdge<Line>>, pins: Record<Line, number>, start: number) => {
+      const from = Math.max(start, busyUntil.get(pins) ?? 0)
+      edges.forEach((edge) => {
+        levels.set(pins[edge.line], edge.level)
+        probe.edge(gpioKey(pins[edge.line]), from + edge.dt, edge.level)
+      })
+      busyUntil.set(pins, from + Math.max(0, ...edges.map((edge) => edge.dt)))
+    }
+    // Serial.print queues bytes faster than they leave, so each frame starts when the last one ends.
+    let txFreeAt = 0
+    const transmit = (byte: number) => {
+      const baud = this.mcu.serialBaud
+      if (!probe.active || !baud) return
+      const edges = uartFrameEdges(byte, baud)
+      const start = Math.max(now(), txFreeAt)
+      // TX idles high before the first start bit.
+      if (!levels.get(UART_TX_PIN)) probe.edge(UART_TX_PIN, start - 1000 / baud, true)
+      levels.set(UART_TX_PIN, true)
+      edges.forEach((edge) => probe.edge(UART_TX_PIN, start + edge.dt, edge.level))
+      txFreeAt = start + 10_000 / baud
+    }
+    const twiLine: (typeof twi.onLine)[number] = (event, durationMs, sclHz) => {
+      if (probe.active) draw(i2cEdges(event, sclHz), TWI_PINS, now() - durationMs)
+    }
+    const spiShift: (typeof spi.onShift)[number] = (mosi, miso, cycles, mode) => {
+      if (!probe.active) return
+      const durationMs = (cycles / ATMEGA328P_CLOCK_HZ) * 1000
+      draw(spiByteEdges(mosi, miso, 8000 / durationMs, mode), SPI_PINS, now() - durationMs)
+    }
+    Object.values(ports).forEach((port) => port.onWrite.push(samplePorts))
+    usart.onTransmit.push(transmit)
+    twi.onLine.push(twiLine)
+    spi.onShift.push(spiShift)
+    this.detachLogic = () => {
+      Object.values(ports).forEach((port) => port.onWrite.splice(port.onWrite.indexOf(samplePorts), 1))
+      usart.onTransmit.splice(usart.onTransmit.indexOf(transmit), 1)
+      twi.onLine.splice(twi.onLine.indexOf(twiLine), 1)
+      spi.onShift.splice(spi.onShift.indexOf(spiShift), 1)
+    }
+  }
+
+  /**
+   * Feed solved pin voltages back in: A0–A5 (keys 100–105) reach the ADC, and
+   * every pin reads as a digital input level. Pins left out are released.
+   */
+  setInputVoltages(volts: Map<number, number>): void {
+    for (let pin = 0; pin <= 19; pin++) {
+      const key = pin >= 14 ? 100 + (pin - 14) : pin
+      const v = volts.get(key)
+      if (pin >= 14) this.mcu.setAnalogInput(pin - 14, v ?? 0)
+      if (v === undefined) {
+        this.inputLevels.delete(key)
+        this.mcu.setDigitalInput(pin, undefined)
+        continue
+      }
+      const level = digitalInputLevel(v, ATMEGA328P_INPUT_PROFILE, this.inputLevels.get(key))
+      this.inputLevels.set(key, level)
+      this.mcu.setDigitalInput(pin, level)
+    }
+  }
+
+  getCurrentStates(): Map<number, DynamicGPIOState> {
+    return new Map(this.states)
+  }
+
+  stopSimulation(): void {
+    this.running = false
+    this.detachSerial?.()
+    this.detachSerial = null
+    this.detachBuses?.()
+    this.detachBuses = null
+    this.detachLogic?.()
+    this.detachLogic = null
+    this.states.clear()
+  }
+}
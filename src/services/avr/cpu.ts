@@ -0,0 +1,596 @@
+/**
+ * Instruction-level AVR core (the avr5 set used by the ATmega328P). Memory is
+ * the flat data space — 32 registers, 64 I/O registers, 160 extended I/O
+ * registers, then SRAM — and peripherals hook the I/O addresses they own.
+ */
+
+export const SREG_ADDR = 0x5f
+const SPL_ADDR = 0x5d
+const SPH_ADDR = 0x5e
+
+const FLAG_C = 0x01
+const FLAG_Z = 0x02
+const FLAG_N = 0x04
+const FLAG_V = 0x08
+const FLAG_S = 0x10
+const FLAG_H = 0x20
+const FLAG_T = 0x40
+const FLAG_I = 0x80
+
+export type AvrReadHook = (addr: number) => number
+/** Return true when the hook stored the value itself. */
+export type AvrWriteHook = (value: number, oldValue: number, addr: number) => boolean | void
+
+/** An interrupt source: pending while its flag and enable bits are both set. */
+export interface AvrInterrupt {
+  vector: number
+  flagAddr: number
+  flagMask: number
+  enableAddr: number
+  enableMask: number
+  /** Hardware clears the flag when the vector runs (timer and external interrupt flags). */
+  clearOnService: boolean
+}
+
+export interface AvrPeripheral {
+  /** Advance by `cycles` CPU clocks. */
+  tick(cycles: number): void
+}
+
+export interface AvrCpuOptions {
+  flashWords: number
+  dataBytes: number
+}
+
+export class AvrCpu {
+  readonly data: Uint8Array
+  readonly progMem: Uint16Array
+  readonly progBytes: Uint8Array
+  readonly readHooks: Array<AvrReadHook | undefined> = []
+  readonly writeHooks: Array<AvrWriteHook | undefined> = []
+  pc = 0
+  cycles = 0
+  sleeping = false
+  /** Set by BREAK or an unknown opcode; the core stops executing. */
+  halted: string | null = null
+
+  private interrupts: AvrInterrupt[] = []
+  private peripherals: AvrPeripheral[] = []
+  /** SEI and RETI let one more instruction run before an interrupt is taken. */
+  private interruptDelay = false
+
+  constructor(program: Uint16Array, options: AvrCpuOptions) {
+    this.progMem = new Uint16Array(options.flashWords)
+    this.progMem.set(program.subarray(0, options.flashWords))
+    this.progBytes = new Uint8Array(this.progMem.buffer)
+    this.data = new Uint8Array(options.dataBytes)
+    this.reset()
+  }
+
+  reset(): void {
+    this.data.fill(0)
+    this.sp = this.data.length - 1
+    this.pc = 0
+    this.cycles = 0
+    this.sleeping = false
+    this.halted = null
+    this.interruptDelay = false
+  }
+
+  get sp(): number {
+    return this.data[SPL_ADDR] | (this.data[SPH_ADDR] << 8)
+  }
+
+  set sp(value: number) {
+    this.data[SPL_ADDR] = value & 0xff
+    this.data[SPH_ADDR] = (value >> 8) & 0xff
+  }
+
+  get sreg(): number {
+    return this.data[SREG_ADDR]
+  }
+
+  addInterrupt(interrupt: AvrInterrupt): void {
+    this.interrupts.push(interrupt)
+    this.interrupts.sort((a, b) => a.vector - b.vector)
+  }
+
+  addPeripheral(peripheral: AvrPeripheral): void {
+    this.peripherals.push(peripheral)
+  }
+
+  readData(addr: number): number {
+    const hook = this.readHooks[addr]
+    if (hook) return hook(addr) & 0xff
+    return this.data[addr]
+  }
+
+  writeData(addr: number, value: number): void {
+    const hook = this.writeHooks[addr]
+    if (hook && hook(value & 0xff, this.data[addr], addr)) return
+    this.data[addr] = value & 0xff
+  }
+
+  private push(value: number): void {
+    const sp = this.sp
+    this.data[sp] = value & 0xff
+    this.sp = sp - 1
+  }
+
+  private pop(): number {
+    const sp = this.sp + 1
+    this.sp = sp
+    return this.data[sp]
+  }
+
+  private pushPc(pc: number): void {
+    this.push(pc & 0xff)
+    this.push((pc >> 8) & 0xff)
+  }
+
+  private popPc(): number {
+    const high = this.pop()
+    return (high << 8) | this.pop()
+  }
+
+  private tickPeripherals(cycles: number): void {
+    this.cycles += cycles
+    for (const peripheral of this.peripherals) peripheral.tick(cycles)
+  }
+
+  private pendingInterrupt(): AvrInterrupt | null {
+    for (const irq of this.interrupts) {
+      if (this.data[irq.flagAddr] & irq.flagMask && this.data[irq.enableAddr] & irq.enableMask) return irq
+    }
+    return null
+  }
+
+  /** Execute one instruction (or take one interrupt). */
+  step(): void {
+    if (this.halted) return
+    if (this.interruptDelay) {
+      this.interruptDelay = false
+    } else if (this.data[SREG_ADDR] & FLAG_I || this.sleeping) {
+      const irq = this.pendingInterrupt()
+      if (irq) {
+        this.sleeping = false
+        if (this.data[SREG_ADDR] & FLAG_I) {
+          if (irq.clearOnService) this.data[irq.flagAddr] &= ~irq.flagMask
+          this.pushPc(this.pc)
+          this.pc = irq.vector * 2
+          this.data[SREG_ADDR] &= ~FLAG_I
+          this.tickPeripherals(4)
+          return
+        }
+      }
+    }
+    if (this.sleeping) {
+      this.tickPeripherals(1)
+      return
+    }
+    this.tickPeripherals(this.execute())
+  }
+
+  /** Run until `cycles` have elapsed (or the core halts). */
+  runCycles(cycles: number): void {
+    const target = this.cycles + cycles
+    while (this.cycles < target && !this.halted) this.step()
+  }
+
+  private isTwoWord(op: number): boolean {
+    return (op & 0xfc0f) === 0x9000 || (op & 0xfe0c) === 0x940c
+  }
+
+  /** Skip the next instruction; returns the extra cycles spent. */
+  private skip(): number {
+    const words = this.isTwoWord(this.progMem[this.pc]) ? 2 : 1
+    this.pc = (this.pc + words) % this.progMem.length
+    return words
+  }
+
+  private setFlags(mask: number, values: number): void {
+    this.data[SREG_ADDR] = (this.data[SREG_ADDR] & ~mask) | (values & mask)
+  }
+
+  private nzs(result: number, v: number): number {
+    const n = result & 0x80 ? FLAG_N : 0
+    return (result === 0 ? FLAG_Z : 0) | n | (v ? FLAG_V : 0) | ((n !== 0) !== Boolean(v) ? FLAG_S : 0)
+  }
+
+  private add(d: number, r: number, carry: number): number {
+    const result = (d + r + carry) & 0xff
+    const h = ((d & r) | (r & ~result) | (~result & d)) & 0x08
+    const c = ((d & r) | (r & ~result) | (~result & d)) & 0x80
+    const v = ((d & r & ~result) | (~d & ~r & result)) & 0x80
+    this.setFlags(0x3f, this.nzs(result, v) | (h ? FLAG_H : 0) | (c ? FLAG_C : 0))
+    return result
+  }
+
+  /** Subtract with flags; `keepZ` chains Z through multi-byte compares (SBC, CPC). */
+  private sub(d: number, r: number, carry: number, keepZ: boolean): number {
+    const result = (d - r - carry) & 0xff
+    const h = ((~d & r) | (r & result) | (result & ~d)) & 0x08
+    const c = ((~d & r) | (r & result) | (result & ~d)) & 0x80
+    const v = ((d & ~r & ~result) | (~d & r & result)) & 0x80
+    let flags = this.nzs(result, v) | (h ? FLAG_H : 0) | (c ? FLAG_C : 0)
+    if (keepZ && result === 0 && !(this.data[SREG_ADDR] & FLAG_Z)) flags &= ~FLAG_Z
+    this.setFlags(0x3f, flags)
+    return result
+  }
+
+  private logic(result: number): number {
+    this.setFlags(FLAG_Z | FLAG_N | FLAG_V | FLAG_S, this.nzs(result, 0))
+    return result
+  }
+
+  private shiftFlags(result: number, carry: number): void {
+    const n = result & 0x80 ? 1 : 0
+    const v = n ^ carry
+    this.setFlags(
+      FLAG_C | FLAG_Z | FLAG_N | FLAG_V | FLAG_S,
+      (carry ? FLAG_C : 0) | (result === 0 ? FLAG_Z : 0) | (n ? FLAG_N : 0) | (v ? FLAG_V : 0) | (n ^ v ? FLAG_S : 0)
+    )
+  }
+
+  private multiply(product: number, shift: boolean): void {
+    const full = product & 0xffff
+    const carry = full & 0x8000 ? FLAG_C : 0
+    const result = shift ? (full << 1) & 0xffff : full
+    this.data[0] = result & 0xff
+    this.data[1] = result >> 8
+    this.setFlags(FLAG_C | FLAG_Z, carry | (result === 0 ? FLAG_Z : 0))
+  }
+
+  private pointer(low: number): number {
+    return this.data[low] | (this.data[low + 1] << 8)
+  }
+
+  private setPointer(low: number, value: number): void {
+    this.data[low] = value & 0xff
+    this.data[low + 1] = (value >> 8) & 0xff
+  }
+
+  /** Decode and run the instruction at PC; returns its cycle count. */
+  private execute(): number {
+    const data = this.data
+    const op = this.progMem[this.pc]
+    const size = this.progMem.length
+    this.pc = (this.pc + 1) % size
+
+    const d5 = (op >> 4) & 0x1f
+    const r5 = (op & 0x0f) | ((op >> 5) & 0x10)
+    const d4 = 16 + ((op >> 4) & 0x0f)
+    const k8 = (op & 0x0f) | ((op >> 4) & 0xf0)
+
+    switch (op >> 12) {
+      case 0x0: {
+        if (op === 0) return 1 // NOP
+        switch (op & 0x0c00) {
+          case 0x0000:
+            switch (op & 0xff00) {
+              case 0x0100: { // MOVW
+                const d = ((op >> 4) & 0x0f) * 2
+                const r = (op & 0x0f) * 2
+                data[d] = data[r]
+                data[d + 1] = data[r + 1]
+                return 1
+              }
+              case 0x0200: { // MULS
+                const a = (data[d4] << 24) >> 24
+                const b = (data[16 + (op & 0x0f)] << 24) >> 24
+                this.multiply(a * b, false)
+                return 2
+              }
+              case 0x0300: {
+                const d = 16 + ((op >> 4) & 0x07)
+                const r = 16 + (op & 0x07)
+                const signedD = (data[d] << 24) >> 24
+                const signedR = (data[r] << 24) >> 24
+                switch (op & 0x88) {
+                  case 0x00: this.multiply(signedD * data[r], false); break // MULSU
+                  case 0x08: this.multiply(data[d] * data[r], true); break // FMUL
+                  case 0x80: this.multiply(signedD * signedR, true); break // FMULS
+                  default: this.multiply(signedD * data[r], true) // FMULSU
+                }
+                return 2
+              }
+            }
+            break
+          case 0x0400: // CPC
+            this.sub(data[d5], data[r5], data[SREG_ADDR] & FLAG_C, true)
+            return 1
+          case 0x0800: // SBC
+            data[d5] = this.sub(data[d5], data[r5], data[SREG_ADDR] & FLAG_C, true)
+            return 1
+          default: // ADD / LSL
+            data[d5] = this.add(data[d5], data[r5], 0)
+            return 1
+        }
+        break
+      }
+      case 0x1:
+        switch (op & 0x0c00) {
+          case 0x0000: // CPSE
+            return data[d5] === data[r5] ? 1 + this.skip() : 1
+          case 0x0400: // CP
+            this.sub(data[d5], data[r5], 0, false)
+            return 1
+          case 0x0800: // SUB
+            data[d5] = this.sub(data[d5], data[r5], 0, false)
+            return 1
+          default: // ADC / ROL
+            data[d5] = this.add(data[d5], data[r5], data[SREG_ADDR] & FLAG_C)
+            return 1
+        }
+      case 0x2:
+        switch (op & 0x0c00) {
+          case 0x0000: data[d5] = this.logic(data[d5] & data[r5]); return 1 // AND / TST
+          case 0x0400: data[d5] = this.logic(data[d5] ^ data[r5]); return 1 // EOR / CLR
+          case 0x0800: data[d5] = this.logic(data[d5] | data[r5]); return 1 // OR
+          default: data[d5] = data[r5]; return 1 // MOV
+        }
+      case 0x3: // CPI
+        this.sub(data[d4], k8, 0, false)
+        return 1
+      case 0x4: // SBCI
+        data[d4] = this.sub(data[d4], k8, data[SREG_ADDR] & FLAG_C, true)
+        return 1
+      case 0x5: // SUBI
+        data[d4] = this.sub(data[d4], k8, 0, false)
+        return 1
+      case 0x6: // ORI / SBR
+        data[d4] = this.logic(data[d4] | k8)
+        return 1
+      case 0x7: // ANDI / CBR
+        data[d4] = this.logic(data[d4] & k8)
+        return 1
+      case 0x8:
+      case 0xa: { // LDD / STD with displacement (q = 0 is plain LD/ST through Y or Z)
+        const q = (op & 0x07) | ((op >> 7) & 0x18) | ((op >> 8) & 0x20)
+        const base = op & 0x08 ? 28 : 30
+        const addr = this.pointer(base) + q
+        if (op & 0x0200) this.writeData(addr, data[d5])
+        else data[d5] = this.readData(addr)
+        return 2
+      }
+      case 0x9:
+        return this.execute9(op, d5, r5)
+      case 0xb: { // IN / OUT
+        const a = 0x20 + ((op & 0x0f) | ((op >> 5) & 0x30))
+        if (op & 0x0800) this.writeData(a, data[d5])
+        else data[d5] = this.readData(a)
+        return 1
+      }
+      case 0xc: { // RJMP
+        const k = ((op & 0x0fff) << 20) >> 20
+        this.pc = (this.pc + k + size) % size
+        return 2
+      }
+      case 0xd: { // RCALL
+        const k = ((op & 0x0fff) << 20) >> 20
+        this.pushPc(this.pc)
+        this.pc = (this.pc + k + size) % size
+        return 3
+      }
+      case 0xe: // LDI / SER
+        data[d4] = k8
+        return 1
+      case 0xf: {
+        const bit = op & 0x07
+        if ((op & 0x0800) === 0) { // BRBS / BRBC
+          const set = (data[SREG_ADDR] >> bit) & 1
+          if (set === ((op & 0x0400) ? 0 : 1)) {
+            const k = ((op >> 3) & 0x7f) << 25 >> 25
+            this.pc = (this.pc + k + size) % size
+            return 2
+          }
+          return 1
+        }
+        if (op & 0x08) break
+        switch (op & 0x0600) {
+          case 0x0000: // BLD
+            data[d5] = data[SREG_ADDR] & FLAG_T ? data[d5] | (1 << bit) : data[d5] & ~(1 << bit)
+            return 1
+          case 0x0200: // BST
+            this.setFlags(FLAG_T, data[d5] & (1 << bit) ? FLAG_T : 0)
+            return 1
+          case 0x0400: // SBRC
+            return data[d5] & (1 << bit) ? 1 : 1 + this.skip()
+          default: // SBRS
+            return data[d5] & (1 << bit) ? 1 + this.skip() : 1
+        }
+      }
+    }
+
+    this.halted = `Unsupported opcode 0x${op.toString(16).padStart(4, '0')} at 0x${((this.pc - 1) * 2).toString(16)}`
+    return 1
+  }
+
+  private execute9(op: number, d5: number, r5: number): number {
+    const data = this.data
+    const size = this.progMem.length
+
+    // 1001 000x: loads and stores through pointers, LDS/STS, LPM, PUSH/POP
+    if ((op & 0x0c00) === 0x0000) {
+      const store = (op & 0x0200) !== 0
+      switch (op & 0x0f) {
+        case 0x0: { // LDS / STS
+          const addr = this.progMem[this.pc]
+          this.pc = (this.pc + 1) % size
+          if (store) this.writeData(addr, data[d5])
+          else data[d5] = this.readData(addr)
+          return 2
+        }
+        case 0x1: case 0x2: case 0x9: case 0xa: case 0xc: case 0xd: case 0xe: {
+          const base = (op & 0x0c) === 0x0c ? 26 : (op & 0x08 ? 28 : 30)
+          const mode = op & 0x03 // 0 plain, 1 post-increment, 2 pre-decrement
+          let addr = this.pointer(base)
+          if (mode === 2) {
+            addr = (addr - 1) & 0xffff
+            this.setPointer(base, addr)
+          }
+          if (store) this.writeData(addr, data[d5])
+          else data[d5] = this.readData(addr)
+          if (mode === 1) this.setPointer(base, addr + 1)
+          return 2
+        }
+        case 0x4: case 0x5: case 0x6: case 0x7: { // LPM / ELPM Rd, Z(+)
+          if (store) break
+          const z = this.pointer(30)
+          data[d5] = this.progBytes[z % this.progBytes.length]
+          if (op & 0x01) this.setPointer(30, z + 1)
+          return 3
+        }
+        case 0xf: // PUSH / POP
+          if (store) this.push(data[d5])
+          else data[d5] = this.pop()
+          return 2
+      }
+    } else if ((op & 0x0e00) === 0x0400) {
+      // 1001 010x: one-operand ALU, flag ops, jumps, calls, returns
+      switch (op & 0x0f) {
+        case 0x0: { // COM
+          const result = ~data[d5] & 0xff
+          data[d5] = result
+          this.setFlags(0x1f, this.nzs(result, 0) | FLAG_C)
+          return 1
+        }
+        case 0x1: { // NEG
+          const value = data[d5]
+          const result = (0 - value) & 0xff
+          data[d5] = result
+          const h = (result | value) & 0x08
+          this.setFlags(0x3f, this.nzs(result, result === 0x80 ? 1 : 0) | (h ? FLAG_H : 0) | (result !== 0 ? FLAG_C : 0))
+          return 1
+        }
+        case 0x2: // SWAP
+          data[d5] = ((data[d5] << 4) | (data[d5] >> 4)) & 0xff
+          return 1
+        case 0x3: { // INC
+          const result = (data[d5] + 1) & 0xff
+          data[d5] = result
+          this.setFlags(FLAG_Z | FLAG_N | FLAG_V | FLAG_S, this.nzs(result, result === 0x80 ? 1 : 0))
+          return 1
+        }
+        case 0x5: { // ASR
+          const value = data[d5]
+          const result = (value >> 1) | (value & 0x80)
+          data[d5] = result
+          this.shiftFlags(result, value & 1)
+          return 1
+        }
+        case 0x6: { // LSR
+          const value = data[d5]
+          const result = value >> 1
+          data[d5] = result
+          this.shiftFlags(result, value & 1)
+          return 1
+        }
+        case 0x7: { // ROR
+          const value = data[d5]
+          const result = (value >> 1) | (data[SREG_ADDR] & FLAG_C ? 0x80 : 0)
+          data[d5] = result
+          this.shiftFlags(result, value & 1)
+          return 1
+        }
+        case 0x8:
+          if ((op & 0x0100) === 0) { // BSET / BCLR
+            const bit = 1 << ((op >> 4) & 0x07)
+            if (op & 0x80) {
+              data[SREG_ADDR] &= ~bit
+            } else {
+              if (bit === FLAG_I && !(data[SREG_ADDR] & FLAG_I)) this.interruptDelay = true
+              data[SREG_ADDR] |= bit
+            }
+            return 1
+          }
+          switch (op) {
+            case 0x9508: // RET
+              this.pc = this.popPc() % size
+              return 4
+            case 0x9518: // RETI
+              this.pc = this.popPc() % size
+              data[SREG_ADDR] |= FLAG_I
+              this.interruptDelay = true
+              return 4
+            case 0x9588: // SLEEP
+              this.sleeping = true
+              return 1
+            case 0x9598: // BREAK
+              this.halted = 'BREAK'
+              return 1
+            case 0x95a8: // WDR
+              return 1
+            case 0x95c8: // LPM R0, Z
+            case 0x95d8: // ELPM R0, Z
+              data[0] = this.progBytes[this.pointer(30) % this.progBytes.length]
+              return 3
+            case 0x95e8: // SPM (self-programming is not emulated)
+              return 1
+          }
+          break
+        case 0x9: // IJMP / ICALL
+          if (op === 0x9409 || op === 0x9509) {
+            if (op & 0x0100) this.pushPc(this.pc)
+            this.pc = this.pointer(30) % size
+            return op & 0x0100 ? 3 : 2
+          }
+          break
+        case 0xa: { // DEC
+          const result = (data[d5] - 1) & 0xff
+          data[d5] = result
+          this.setFlags(FLAG_Z | FLAG_N | FLAG_V | FLAG_S, this.nzs(result, result === 0x7f ? 1 : 0))
+          return 1
+        }
+        case 0xc: case 0xd: case 0xe: case 0xf: { // JMP / CALL
+          const k = (((op >> 3) & 0x3e) | (op & 0x01)) * 0x10000 + this.progMem[this.pc]
+          const call = (op & 0x02) !== 0
+          if (call) this.pushPc(this.pc + 1)
+          this.pc = k % size
+          return call ? 4 : 3
+        }
+      }
+    } else if ((op & 0x0e00) === 0x0600) {
+      // ADIW / SBIW
+      const low = 24 + ((op >> 3) & 0x06)
+      const k = (op & 0x0f) | ((op >> 2) & 0x30)
+      const value = this.pointer(low)
+      const highBefore = data[low + 1]
+      let result: number
+      let v: number
+      let c: number
+      if (op & 0x0100) {
+        result = (value - k) & 0xffff
+        v = highBefore & 0x80 & ~(result >> 8)
+        c = (result >> 8) & 0x80 & ~highBefore
+      } else {
+        result = (value + k) & 0xffff
+        v = ~highBefore & 0x80 & (result >> 8)
+        c = ~(result >> 8) & 0x80 & highBefore
+      }
+      this.setPointer(low, result)
+      const n = result & 0x8000 ? 1 : 0
+      this.setFlags(
+        0x1f,
+        (c ? FLAG_C : 0) | (result === 0 ? FLAG_Z : 0) | (n ? FLAG_N : 0) | (v ? FLAG_V : 0) | (n ^ (v ? 1 : 0) ? FLAG_S : 0)
+      )
+      return 2
+    } else if ((op & 0x0c00) === 0x0800) {
+      // CBI / SBIC / SBI / SBIS
+      const a = 0x20 + ((op >> 3) & 0x1f)
+      const mask = 1 << (op & 0x07)
+      switch (op & 0x0300) {
+        case 0x0000: this.writeData(a, this.readData(a) & ~mask); return 2
+        case 0x0100: return this.readData(a) & mask ? 1 : 1 + this.skip()
+        case 0x0200: this.writeData(a, this.readData(a) | mask); return 2
+        default: return this.readData(a) & mask ? 1 + this.skip() : 1
+      }
+    } else { // MUL
+      this.multiply(data[d5] * data[r5], false)
+      return 2
+    }
+
+    this.halted = `Unsupported opcode 0x${op.toString(16).padStart(4, '0')} at 0x${((this.pc - 1) * 2).toString(16)}`
+    return 1
+  }
+}
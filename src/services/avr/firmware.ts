@@ -0,0 +1,73 @@
+/**
+ * Firmware images as the compile API returns them: base64 of either an Intel
+ * HEX file (`.hex`, text starting with ':') or a raw flash image (`.bin`).
+ */
+
+export class FirmwareFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FirmwareFormatError'
+  }
+}
+
+/** Parse Intel HEX records (types 00, 01, 02 and 04) into a flat byte image. */
+export function parseIntelHex(text: string): Uint8Array {
+  const chunks: Array<{ addr: number; bytes: number[] }> = []
+  let base = 0
+  let end = 0
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim()
+    if (!line) continue
+    if (!line.startsWith(':') || line.length < 11) {
+      throw new FirmwareFormatError(`Line ${index + 1} is not an Intel HEX record`)
+    }
+    const bytes: number[] = []
+    for (let i = 1; i < line.length; i += 2) bytes.push(parseInt(line.slice(i, i + 2), 16))
+    if (bytes.some((b) => Number.isNaN(b))) throw new FirmwareFormatError(`Line ${index + 1} has invalid hex digits`)
+    const [count, addrHigh, addrLow, type] = bytes
+    if (bytes.length !== count + 5) throw new FirmwareFormatError(`Line ${index + 1} has the wrong length`)
+    if ((bytes.reduce((sum, b) => sum + b, 0) & 0xff) !== 0) {
+      throw new FirmwareFormatError(`Line ${index + 1} fails its checksum`)
+    }
+    const payload = bytes.slice(4, 4 + count)
+
+    if (type === 0x00) {
+      const addr = base + ((addrHigh << 8) | addrLow)
+      chunks.push({ addr, bytes: payload })
+      end = Math.max(end, addr + count)
+    } else if (type === 0x01) {
+      break
+    } else if (type === 0x02) {
+      base = ((payload[0] << 8) | payload[1]) * 16
+    } else if (type === 0x04) {
+      base = ((payload[0] << 8) | payload[1]) * 0x10000
+    }
+  }
+
+  const image = new Uint8Array(end)
+  for (const chunk of chunks) image.set(chunk.bytes, chunk.addr)
+  return image
+}
+
+/** Decode a base64 firmware image into little-endian program words. */
+export function decodeFirmware(firmwareBase64: string): Uint16Array {
+  let binary: string
+  try {
+    binary = atob(firmwareBase64.trim())
+  } catch {
+    throw new FirmwareFormatError('Firmware is not valid base64')
+  }
+  let bytes: Uint8Array
+  if (binary.startsWith(':')) {
+    bytes = parseIntelHex(binary)
+  } else {
+    bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  }
+  if (bytes.length === 0) throw new FirmwareFormatError('Firmware image is empty')
+
+  const words = new Uint16Array(Math.ceil(bytes.length / 2))
+  for (let i = 0; i < words.length; i++) words[i] = bytes[2 * i] | ((bytes[2 * i + 1] ?? 0) << 8)
+  return words
+}
@@ -0,0 +1,619 @@
+import type { AvrCpu, AvrPeripheral } from './cpu'
+
+/** GPIO port: PINx reads pin levels (writing 1s toggles PORTx), DDRx sets direction. */
+export interface AvrPortConfig {
+  PIN: number
+  DDR: number
+  PORT: number
+}
+
+export class AvrPort {
+  /** Called after every write to PORTx (or a PINx toggle). */
+  readonly onWrite: Array<() => void> = []
+  /** Called after every write to DDRx; open-drain lines like 1-Wire are driven this way. */
+  readonly onDirection: Array<() => void> = []
+  /** Open-drain devices holding an input pin low right now (a 1-Wire slave's slot), over `external`. */
+  heldLow: ((bit: number) => boolean) | null = null
+  /** Levels driven onto the pins from outside; undefined leaves the pin floating. */
+  private external: Array<boolean | undefined> = new Array(8).fill(undefined)
+
+  constructor(private cpu: AvrCpu, readonly config: AvrPortConfig) {
+    cpu.readHooks[config.PIN] = () => this.pinLevels()
+    cpu.writeHooks[config.PIN] = (value) => {
+      cpu.data[config.PORT] ^= value
+      this.onWrite.forEach((listener) => listener())
+      return true
+    }
+    cpu.writeHooks[config.PORT] = (value) => {
+      cpu.data[config.PORT] = value
+      this.onWrite.forEach((listener) => listener())
+      return true
+    }
+    cpu.writeHooks[config.DDR] = (value) => {
+      cpu.data[config.DDR] = value
+      this.onDirection.forEach((listener) => listener())
+      return true
+    }
+  }
+
+  get ddr(): number {
+    return this.cpu.data[this.config.DDR]
+  }
+
+  get port(): number {
+    return this.cpu.data[this.config.PORT]
+  }
+
+  /** Drive an input pin high or low, or release it (undefined). */
+  setInput(bit: number, level: boolean | undefined): void {
+    this.external[bit] = level
+  }
+
+  pinLevels(): number {
+    const { ddr, port } = this
+    let value = 0
+    for (let bit = 0; bit < 8; bit++) {
+      const mask = 1 << bit
+      const level = ddr & mask ? port & mask : !this.heldLow?.(bit) && (this.external[bit] ?? port & mask)
+      if (level) value |= mask
+    }
+    return value
+  }
+}
+
+export interface AvrTimerConfig {
+  bits: 8 | 16
+  TCCRA: number
+  TCCRB: number
+  TCNT: number
+  OCRA: number
+  OCRB: number
+  /** Input capture register (16-bit timers only); doubles as TOP in some modes. */
+  ICR?: number
+  TIMSK: number
+  TIFR: number
+  /** Clock divider for each CS[2:0] value; 0 stops the timer. */
+  dividers: number[]
+  compAVector: number
+  compBVector: number
+  ovfVector: number
+}
+
+const TOV = 0x01
+const OCFA = 0x02
+const OCFB = 0x04
+
+type WaveKind = 'normal' | 'ctc' | 'fast' | 'phase'
+type TopSource = number | 'OCRA' | 'ICR'
+
+const MODES_8: Array<[WaveKind, TopSource]> = [
+  ['normal', 0xff], ['phase', 0xff], ['ctc', 'OCRA'], ['fast', 0xff],
+  ['normal', 0xff], ['phase', 'OCRA'], ['normal', 0xff], ['fast', 'OCRA'],
+]
+
+const MODES_16: Array<[WaveKind, TopSource]> = [
+  ['normal', 0xffff], ['phase', 0xff], ['phase', 0x1ff], ['phase', 0x3ff],
+  ['ctc', 'OCRA'], ['fast', 0xff], ['fast', 0x1ff], ['fast', 0x3ff],
+  ['phase', 'ICR'], ['phase', 'OCRA'], ['phase', 'ICR'], ['phase', 'OCRA'],
+  ['ctc', 'ICR'], ['normal', 0xffff], ['fast', 'ICR'], ['fast', 'OCRA'],
+]
+
+export interface PwmOutput {
+  /** Fraction of each period the pin spends high */
+  duty: number
+  frequency: number
+}
+
+/**
+ * Timer/counter with the normal, CTC, fast PWM and phase-correct modes. Counts
+ * in prescaled steps of the CPU clock and raises TOV/OCFA/OCFB for the core's
+ * interrupt logic. 16-bit registers go through the shared TEMP byte as on the
+ * real part (write high first, read low first).
+ */
+export class AvrTimer implements AvrPeripheral {
+  private prescaleCount = 0
+  private countingDown = false
+  private temp = 0
+
+  constructor(private cpu: AvrCpu, readonly config: AvrTimerConfig, private clockHz: number) {
+    cpu.writeHooks[config.TIFR] = (value) => {
+      cpu.data[config.TIFR] &= ~value
+      return true
+    }
+    if (config.bits === 16) {
+      for (const addr of [config.TCNT, config.OCRA, config.OCRB, config.ICR].filter((a): a is number => a !== undefined)) {
+        cpu.writeHooks[addr + 1] = (value) => {
+          this.temp = value
+          return true
+        }
+        cpu.writeHooks[addr] = (value) => {
+          cpu.data[addr] = value
+          cpu.data[addr + 1] = this.temp
+          return true
+        }
+        cpu.readHooks[addr] = () => {
+          this.temp = cpu.data[addr + 1]
+          return cpu.data[addr]
+        }
+        cpu.readHooks[addr + 1] = () => this.temp
+      }
+    }
+    for (const [vector, mask] of [[config.compAVector, OCFA], [config.compBVector, OCFB], [config.ovfVector, TOV]]) {
+      cpu.addInterrupt({
+        vector,
+        flagAddr: config.TIFR,
+        flagMask: mask,
+        enableAddr: config.TIMSK,
+        enableMask: mask,
+        clearOnService: true,
+      })
+    }
+  }
+
+  private read(addr: number): number {
+    return this.config.bits === 16 ? this.cpu.data[addr] | (this.cpu.data[addr + 1] << 8) : this.cpu.data[addr]
+  }
+
+  private write(addr: number, value: number): void {
+    this.cpu.data[addr] = value & 0xff
+    if (this.config.bits === 16) this.cpu.data[addr + 1] = (value >> 8) & 0xff
+  }
+
+  get divider(): number {
+    return this.config.dividers[this.cpu.data[this.config.TCCRB] & 0x07] ?? 0
+  }
+
+  private mode(): [WaveKind, number, TopSource] {
+    const { TCCRA, TCCRB, bits } = this.config
+    const a = this.cpu.data[TCCRA] & 0x03
+    const b = this.cpu.data[TCCRB]
+    const [kind, topSource] = bits === 16 ? MODES_16[a | ((b & 0x18) >> 1)] : MODES_8[a | ((b & 0x08) >> 1)]
+    const top =
+      topSource === 'OCRA'
+        ? this.read(this.config.OCRA)
+        : topSource === 'ICR'
+          ? this.read(this.config.ICR ?? this.config.OCRA)
+          : topSource
+    return [kind, top, topSource]
+  }
+
+  tick(cycles: number): void {
+    const divider = this.divider
+    if (!divider) return
+    this.prescaleCount += cycles
+    while (this.prescaleCount >= divider) {
+      this.prescaleCount -= divider
+      this.count()
+    }
+  }
+
+  private count(): void {
+    const { TCNT, TIFR, OCRA, OCRB, bits } = this.config
+    const max = bits === 16 ? 0xffff : 0xff
+    const [kind, top] = this.mode()
+    const data = this.cpu.data
+    let tcnt = this.read(TCNT)
+
+    if (kind === 'phase') {
+      if (!this.countingDown) {
+        if (tcnt >= top) {
+          this.countingDown = true
+          tcnt = Math.max(top - 1, 0)
+        } else {
+          tcnt++
+        }
+      } else if (tcnt === 0) {
+        this.countingDown = false
+        tcnt = Math.min(1, top)
+      } else {
+        tcnt--
+        if (tcnt === 0) data[TIFR] |= TOV
+      }
+    } else if (tcnt === top) {
+      tcnt = 0
+      if (kind !== 'ctc' || top === max) data[TIFR] |= TOV
+    } else if (tcnt >= max) {
+      tcnt = 0
+      data[TIFR] |= TOV
+    } else {
+      tcnt++
+    }
+
+    this.write(TCNT, tcnt)
+    if (tcnt === this.read(OCRA)) data[TIFR] |= OCFA
+    if (tcnt === this.read(OCRB)) data[TIFR] |= OCFB
+  }
+
+  /**
+   * Waveform on OCnA / OCnB as set by the COM bits, or null while the pin is
+   * plain GPIO. Duty is worked out from the registers, not sampled edges.
+   */
+  pwmOutput(channel: 'A' | 'B'): PwmOutput | null {
+    const com = (this.cpu.data[this.config.TCCRA] >> (channel === 'A' ? 6 : 4)) & 0x03
+    if (com === 0 || !this.divider) return null
+    const [kind, top, topSource] = this.mode()
+    const ocr = this.read(channel === 'A' ? this.config.OCRA : this.config.OCRB)
+    const tickHz = this.clockHz / this.divider
+
+    if (kind === 'normal' || kind === 'ctc') {
+      // Toggle on compare match gives a square wave; set/clear leave a static level
+      return com === 1 ? { duty: 0.5, frequency: tickHz / (2 * (top + 1)) } : null
+    }
+    if (com === 1) {
+      // In PWM modes only OCnA toggles, and only while OCRnA is TOP
+      if (channel !== 'A' || topSource !== 'OCRA') return null
+      return { duty: 0.5, frequency: kind === 'fast' ? tickHz / (2 * (top + 1)) : tickHz / (4 * Math.max(top, 1)) }
+    }
+    let duty: number
+    let frequency: number
+    if (kind === 'fast') {
+      duty = ocr >= top ? 1 : (ocr + 1) / (top + 1)
+      frequency = tickHz / (top + 1)
+    } else {
+      duty = top > 0 ? Math.min(ocr / top, 1) : 0
+      frequency = top > 0 ? tickHz / (2 * top) : 0
+    }
+    return { duty: com === 3 ? 1 - duty : duty, frequency }
+  }
+}
+
+export interface AvrAdcConfig {
+  ADCL: number
+  ADCH: number
+  ADCSRA: number
+  ADMUX: number
+  vector: number
+  /** Internal bandgap reference (1.1 V on the ATmega328P) */
+  bandgapVolts: number
+}
+
+const ADEN = 0x80
+const ADSC = 0x40
+const ADIF = 0x10
+const ADIE = 0x08
+const ADLAR = 0x20
+/** ADC clocks for one conversion */
+const CONVERSION_CLOCKS = 13
+
+/** 10-bit successive-approximation ADC reading voltages set from outside. */
+export class AvrAdc implements AvrPeripheral {
+  /** Volts on ADC0..ADC7 */
+  readonly channelVolts: number[] = new Array(8).fill(0)
+  /** Supply, used as the AVCC reference */
+  vcc = 5
+  /** Voltage on the AREF pin */
+  aref = 5
+  private remaining = 0
+
+  constructor(private cpu: AvrCpu, readonly config: AvrAdcConfig) {
+    cpu.writeHooks[config.ADCSRA] = (value, old) => {
+      let next = (value & ~ADIF) | (value & ADIF ? 0 : old & ADIF)
+      if (value & ADSC && value & ADEN && !(old & ADSC)) {
+        this.remaining = CONVERSION_CLOCKS * this.prescaler(value)
+      } else if (!(value & ADEN)) {
+        next &= ~ADSC
+        this.remaining = 0
+      }
+      cpu.data[config.ADCSRA] = next
+      return true
+    }
+    cpu.addInterrupt({
+      vector: config.vector,
+      flagAddr: config.ADCSRA,
+      flagMask: ADIF,
+      enableAddr: config.ADCSRA,
+      enableMask: ADIE,
+      clearOnService: true,
+    })
+  }
+
+  private prescaler(adcsra: number): number {
+    return Math.max(2, 1 << (adcsra & 0x07))
+  }
+
+  tick(cycles: number): void {
+    if (this.remaining <= 0) return
+    this.remaining -= cycles
+    if (this.remaining > 0) return
+
+    const { ADCL, ADCH, ADCSRA, ADMUX } = this.config
+    const data = this.cpu.data
+    const admux = data[ADMUX]
+    const refs = admux >> 6
+    const reference = refs === 3 ? this.config.bandgapVolts : refs === 1 ? this.vcc : this.aref
+    const channel = admux & 0x0f
+    const volts =
+      channel < 8 ? this.channelVolts[channel] : channel === 14 ? this.config.bandgapVolts : 0
+    const result = Math.max(0, Math.min(1023, Math.round((volts / reference) * 1023)))
+
+    if (admux & ADLAR) {
+      data[ADCL] = (result << 6) & 0xff
+      data[ADCH] = result >> 2
+    } else {
+      data[ADCL] = result & 0xff
+      data[ADCH] = result >> 8
+    }
+    data[ADCSRA] = (data[ADCSRA] & ~ADSC) | ADIF
+  }
+}
+
+export interface AvrUsartConfig {
+  UCSRA: number
+  UCSRB: number
+  UBRRL: number
+  UBRRH: number
+  UDR: number
+  rxVector: number
+  udreVector: number
+  txVector: number
+}
+
+const RXC = 0x80
+const TXC = 0x40
+const UDRE = 0x20
+const RXEN = 0x10
+const TXEN = 0x08
+const U2X = 0x02
+
+/**
+ * USART with an always-ready transmitter: bytes written to UDR go straight to
+ * `onTransmit` listeners, so Serial.print never blocks the sketch.
+ */
+export class AvrUsart {
+  readonly onTransmit: Array<(byte: number) => void> = []
+  private rxQueue: number[] = []
+
+  constructor(private cpu: AvrCpu, readonly config: AvrUsartConfig) {
+    const { UCSRA, UCSRB, UDR } = config
+    cpu.data[UCSRA] = UDRE
+    cpu.writeHooks[UCSRA] = (value, old) => {
+      // RXC and UDRE are read-only; writing 1 to TXC clears it
+      cpu.data[UCSRA] = (old & (RXC | UDRE)) | (old & TXC & ~value) | (value & 0x03)
+      return true
+    }
+    cpu.writeHooks[UDR] = (value) => {
+      if (cpu.data[UCSRB] & TXEN) {
+        for (const listener of this.onTransmit) listener(value)
+        cpu.data[UCSRA] |= TXC
+      }
+      return true
+    }
+    cpu.readHooks[UDR] = () => {
+      const byte = this.rxQueue.shift() ?? 0
+      if (this.rxQueue.length === 0) cpu.data[UCSRA] &= ~RXC
+      return byte
+    }
+    cpu.addInterrupt({ vector: config.rxVector, flagAddr: UCSRA, flagMask: RXC, enableAddr: UCSRB, enableMask: RXC, clearOnService: false })
+    cpu.addInterrupt({ vector: config.udreVector, flagAddr: UCSRA, flagMask: UDRE, enableAddr: UCSRB, enableMask: UDRE, clearOnService: false })
+    cpu.addInterrupt({ vector: config.txVector, flagAddr: UCSRA, flagMask: TXC, enableAddr: UCSRB, enableMask: TXC, clearOnService: true })
+  }
+
+  /** Baud rate set by UBRR (and U2X), or null while the USART is off. */
+  baudRate(clockHz: number): number | null {
+    const { UCSRA, UCSRB, UBRRL, UBRRH } = this.config
+    const data = this.cpu.data
+    if (!(data[UCSRB] & (TXEN | RXEN))) return null
+    const ubrr = data[UBRRL] | ((data[UBRRH] & 0x0f) << 8)
+    return clockHz / ((data[UCSRA] & U2X ? 8 : 16) * (ubrr + 1))
+  }
+
+  /** Queue a byte on RX; dropped while the receiver is disabled. */
+  receive(byte: number): void {
+    if (!(this.cpu.data[this.config.UCSRB] & RXEN)) return
+    this.rxQueue.push(byte & 0xff)
+    this.cpu.data[this.config.UCSRA] |= RXC
+  }
+}
+
+export interface AvrTwiConfig {
+  TWBR: number
+  TWSR: number
+  TWDR: number
+  TWCR: number
+  vector: number
+}
+
+const TWINT = 0x80
+const TWEA = 0x40
+const TWSTA = 0x20
+const TWSTO = 0x10
+const TWEN = 0x04
+const TWIE = 0x01
+
+/** TWSR status codes for master mode. */
+const TW_START = 0x08
+const TW_REP_START = 0x10
+const TW_MT_SLA_ACK = 0x18
+const TW_MT_SLA_NACK = 0x20
+const TW_MT_DATA_ACK = 0x28
+const TW_MT_DATA_NACK = 0x30
+const TW_MR_SLA_ACK = 0x40
+const TW_MR_SLA_NACK = 0x48
+const TW_MR_DATA_ACK = 0x50
+const TW_MR_DATA_NACK = 0x58
+const TW_NO_INFO = 0xf8
+
+/** One operation on SDA/SCL, reported when it completes (STOP straight away). */
+export type TwiLineEvent = { kind: 'start' } | { kind: 'stop' } | { kind: 'byte'; byte: number; ack: boolean }
+
+/** What the TWI master talks to on SDA/SCL. */
+export interface TwiBus {
+  start(address: number, read: boolean): boolean
+  write(byte: number): boolean
+  read(): number
+  stop(): void
+}
+
+/**
+ * TWI in master mode, one bus operation per TWINT handshake. Each START,
+ * address, data byte or STOP takes its bit time at the SCL rate set by TWBR
+ * before TWINT comes back. Slave mode is not modelled.
+ */
+export class AvrTwi implements AvrPeripheral {
+  bus: TwiBus | null = null
+  /** Line activity for the logic analyzer; `durationMs` is how long the operation held the bus. */
+  readonly onLine: Array<(event: TwiLineEvent, durationMs: number, sclHz: number) => void> = []
+  private remaining = 0
+  private duration = 0
+  private pending: (() => number) | null = null
+  private lineEvent: (() => TwiLineEvent) | null = null
+  private inTransaction = false
+  private reading = false
+
+  constructor(private cpu: AvrCpu, readonly config: AvrTwiConfig, private clockHz: number) {
+    const { TWSR, TWCR } = config
+    cpu.data[TWSR] = TW_NO_INFO
+    cpu.writeHooks[TWSR] = (value, old) => {
+      cpu.data[TWSR] = (old & 0xf8) | (value & 0x03)
+      return true
+    }
+    cpu.writeHooks[TWCR] = (value, old) => {
+      // Writing 1 to TWINT clears it and starts the operation the other bits ask for.
+      const start = Boolean(value & TWINT) && Boolean(value & TWEN)
+      cpu.data[TWCR] = (value & ~TWINT) | (start ? 0 : old & TWINT)
+      if (start) this.begin(value)
+      return true
+    }
+    cpu.addInterrupt({ vector: config.vector, flagAddr: TWCR, flagMask: TWINT, enableAddr: TWCR, enableMask: TWIE, clearOnService: false })
+  }
+
+  /** SCL clocks per second: F_CPU / (16 + 2·TWBR·prescaler). */
+  sclHz(): number {
+    const prescaler = 4 ** (this.cpu.data[this.config.TWSR] & 0x03)
+    return this.clockHz / (16 + 2 * this.cpu.data[this.config.TWBR] * prescaler)
+  }
+
+  private begin(twcr: number): void {
+    const data = this.cpu.data
+    const { TWDR } = this.config
+    let bits = 9
+    if (twcr & TWSTO) {
+      this.bus?.stop()
+      this.inTransaction = false
+      data[this.config.TWCR] &= ~TWSTO
+      this.setStatus(TW_NO_INFO)
+      for (const listener of this.onLine) listener({ kind: 'stop' }, 0, this.sclHz())
+      return
+    }
+    if (twcr & TWSTA) {
+      bits = 1
+      const repeated = this.inTransaction
+      this.pending = () => {
+        this.inTransaction = true
+        return repeated ? TW_REP_START : TW_START
+      }
+      this.lineEvent = () => ({ kind: 'start' })
+    } else {
+      const status = data[this.config.TWSR] & 0xf8
+      if (status === TW_START || status === TW_REP_START) {
+        const sla = data[TWDR]
+        this.reading = Boolean(sla & 1)
+        let ack = false
+        this.pending = () => {
+          ack = this.bus?.start(sla >> 1, this.reading) ?? false
+          if (this.reading) return ack ? TW_MR_SLA_ACK : TW_MR_SLA_NACK
+          return ack ? TW_MT_SLA_ACK : TW_MT_SLA_NACK
+        }
+        this.lineEvent = () => ({ kind: 'byte', byte: sla, ack })
+      } else if (this.reading) {
+        const ack = Boolean(twcr & TWEA)
+        this.pending = () => {
+          data[TWDR] = this.bus ? this.bus.read() : 0xff
+          return ack ? TW_MR_DATA_ACK : TW_MR_DATA_NACK
+        }
+        this.lineEvent = () => ({ kind: 'byte', byte: data[TWDR], ack })
+      } else {
+        const byte = data[TWDR]
+        let ack = false
+        this.pending = () => {
+          ack = this.bus?.write(byte) ?? false
+          return ack ? TW_MT_DATA_ACK : TW_MT_DATA_NACK
+        }
+        this.lineEvent = () => ({ kind: 'byte', byte, ack })
+      }
+    }
+    this.remaining = Math.max(1, Math.round((bits * this.clockHz) / this.sclHz()))
+    this.duration = this.remaining
+  }
+
+  private setStatus(status: number): void {
+    const { TWSR } = this.config
+    this.cpu.data[TWSR] = status | (this.cpu.data[TWSR] & 0x03)
+  }
+
+  tick(cycles: number): void {
+    if (!this.pending) return
+    this.remaining -= cycles
+    if (this.remaining > 0) return
+    const status = this.pending()
+    this.pending = null
+    this.setStatus(status)
+    this.cpu.data[this.config.TWCR] |= TWINT
+    const event = this.lineEvent?.()
+    this.lineEvent = null
+    if (event) for (const listener of this.onLine) listener(event, (this.duration / this.clockHz) * 1000, this.sclHz())
+  }
+}
+
+export interface AvrSpiConfig {
+  SPCR: number
+  SPSR: number
+  SPDR: number
+  vector: number
+}
+
+const SPIE = 0x80
+const SPE = 0x40
+const MSTR = 0x10
+const SPIF = 0x80
+const SPI2X = 0x01
+const SPI_DIVIDERS = [4, 16, 64, 128]
+
+/**
+ * SPI in master mode. A byte written to SPDR shifts out over eight SCK
+ * periods; `onTransfer` supplies what came back on MISO, which SPDR then
+ * reads, and SPIF is set.
+ */
+export class AvrSpi implements AvrPeripheral {
+  onTransfer: ((mosi: number) => number) | null = null
+  /** Each completed byte for the logic analyzer, with the CPU cycles it took and the SPI mode. */
+  readonly onShift: Array<(mosi: number, miso: number, cycles: number, mode: number) => void> = []
+  private remaining = 0
+  private cycles = 0
+  private outgoing: number | null = null
+  private received = 0xff
+
+  constructor(private cpu: AvrCpu, readonly config: AvrSpiConfig) {
+    const { SPCR, SPSR, SPDR } = config
+    cpu.writeHooks[SPSR] = (value, old) => {
+      cpu.data[SPSR] = (old & ~SPI2X) | (value & SPI2X)
+      return true
+    }
+    cpu.writeHooks[SPDR] = (value) => {
+      const spcr = cpu.data[SPCR]
+      cpu.data[SPSR] &= ~SPIF
+      if (!(spcr & SPE) || !(spcr & MSTR) || this.outgoing !== null) return true
+      const divider = SPI_DIVIDERS[spcr & 0x03] / (cpu.data[SPSR] & SPI2X ? 2 : 1)
+      this.outgoing = value
+      this.remaining = 8 * divider
+      this.cycles = this.remaining
+      return true
+    }
+    cpu.readHooks[SPDR] = () => {
+      cpu.data[SPSR] &= ~SPIF
+      return this.received
+    }
+    cpu.addInterrupt({ vector: config.vector, flagAddr: SPSR, flagMask: SPIF, enableAddr: SPCR, enableMask: SPIE, clearOnService: true })
+  }
+
+  tick(cycles: number): void {
+    if (this.outgoing === null) return
+    this.remaining -= cycles
+    if (this.remaining > 0) return
+    this.received = (this.onTransfer?.(this.outgoing) ?? 0xff) & 0xff
+    const mode = (this.cpu.data[this.config.SPCR] >> 2) & 0x03
+    for (const listener of this.onShift) listener(this.outgoing, this.received, this.cycles, mode)
+    this.outgoing = null
+    this.cpu.data[this.config.SPSR] |= SPIF
+  }
+}
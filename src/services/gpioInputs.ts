@@ -0,0 +1,66 @@
+/**
+ * How a microcontroller turns the voltage on an input pin into what the sketch
+ * reads: `digitalRead` levels with the datasheet input thresholds and
+ * `analogRead` counts at the board's ADC resolution.
+ */
+
+export interface McuInputProfile {
+  /** I/O supply; digital thresholds scale with it. */
+  logicVolts: number
+  adcBits: number
+  /** Full-scale ADC input (AVCC on the Uno, attenuated range on the ESP32). */
+  adcRefVolts: number
+}
+
+export const ATMEGA328P_INPUT_PROFILE: McuInputProfile = { logicVolts: 5, adcBits: 10, adcRefVolts: 5 }
+export const ESP32_INPUT_PROFILE: McuInputProfile = { logicVolts: 3.3, adcBits: 12, adcRefVolts: 3.3 }
+
+/** Reads HIGH above VIH and LOW below VIL; in between the pin keeps its last level. */
+const VIH_RATIO = 0.6
+const VIL_RATIO = 0.3
+
+export function mcuInputProfile(moduleType: string): McuInputProfile {
+  return moduleType.includes('ESP32') ? ESP32_INPUT_PROFILE : ATMEGA328P_INPUT_PROFILE
+}
+
+/** `analogRead` result for `volts`: floor(V · 2^bits / Vref), clamped to the top count. */
+export function adcReading(volts: number, profile: McuInputProfile): number {
+  const fullScale = 2 ** profile.adcBits
+  const counts = Math.floor((volts * fullScale) / profile.adcRefVolts)
+  return Math.max(0, Math.min(fullScale - 1, counts))
+}
+
+/** `digitalRead` level for `volts`, holding `previous` inside the threshold band. */
+export function digitalInputLevel(volts: number, profile: McuInputProfile, previous = false): boolean {
+  if (volts >= profile.logicVolts * VIH_RATIO) return true
+  if (volts <= profile.logicVolts * VIL_RATIO) return false
+  return previous
+}
+
+/** ESP32 `touchRead` counts for a bare pad and for one a finger is on. */
+const TOUCH_IDLE_COUNTS = 70
+const TOUCH_PRESSED_COUNTS = 10
+
+/**
+ * ESP32 `touchRead` result. Touch pads idle on a weak pull-up; pulling the pad
+ * toward ground (a button to GND standing in for the finger) lowers the count
+ * the way added capacitance does on the real sensor.
+ */
+export function touchReading(volts: number, profile: McuInputProfile): number {
+  const ratio = Math.max(0, Math.min(1, volts / profile.logicVolts))
+  return Math.round(TOUCH_PRESSED_COUNTS + (TOUCH_IDLE_COUNTS - TOUCH_PRESSED_COUNTS) * ratio)
+}
+
+export type ComparisonOp = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+/** A sketch's `reading <op> value` test on what it read from a pin. */
+export function compareReading(reading: number, op: ComparisonOp, value: number): boolean {
+  switch (op) {
+    case '==': return reading === value
+    case '!=': return reading !== value
+    case '<': return reading < value
+    case '<=': return reading <= value
+    case '>': return reading > value
+    case '>=': return reading >= value
+  }
+}
@@ -45,7 +45,7 @@ function compactSchematicForStorage(schematic: Schematic): Schematic {
   }
 }
 
-function hydrateSchematicFromStorage(schematic: Schematic): Schematic {
+export function hydrateSchematicFromStorage(schematic: Schematic): Schematic {
   const hasGrid = Boolean(schematic.gridData?.length && schematic.gridData[0]?.length)
   if (hasGrid) {
     return { ...schematic, componentStates: schematic.componentStates ?? {} }
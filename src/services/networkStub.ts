@@ -0,0 +1,212 @@
+/**
+ * Stand-ins for the ESP32's radios in sketches run by the pattern matcher.
+ * There is no network: WiFi joins at once, brokers and servers always answer,
+ * and every connect, publish, request and notify is reported as a note in the
+ * board's Serial Monitor so a sketch's network traffic can still be followed.
+ *
+ * Covered: `WiFi` (station and soft AP), PubSubClient (MQTT), HTTPClient,
+ * BluetoothSerial and the BLE library's device, characteristic and advertising
+ * calls.
+ */
+
+/** A call argument: text for string literals and constants, numbers for the rest, null when unknown. */
+export type NetworkArg = string | number | null
+
+export type NetworkObjectKind = 'mqtt' | 'http' | 'bluetooth' | 'ble'
+
+/** `Class name` / `Class *name` declarations the stub answers for. */
+const NETWORK_CLASSES: Record<string, NetworkObjectKind> = {
+  PubSubClient: 'mqtt',
+  HTTPClient: 'http',
+  BluetoothSerial: 'bluetooth',
+  BLEServer: 'ble',
+  BLEService: 'ble',
+  BLECharacteristic: 'ble',
+  BLEAdvertising: 'ble',
+}
+
+/** Arduino's wl_status_t */
+export const WIFI_STATUS = { WL_IDLE_STATUS: 0, WL_NO_SSID_AVAIL: 1, WL_CONNECTED: 3, WL_CONNECT_FAILED: 4, WL_DISCONNECTED: 6 }
+
+const STATION_IP = '192.168.1.50'
+const SOFT_AP_IP = '192.168.4.1'
+const RSSI_DBM = -55
+const HTTP_OK = 200
+
+/** Network objects a sketch declares, by name. */
+export function findNetworkObjects(code: string): Record<string, NetworkObjectKind> {
+  const objects: Record<string, NetworkObjectKind> = {}
+  const classes = Object.keys(NETWORK_CLASSES).join('|')
+  for (const match of code.matchAll(new RegExp(String.raw`\b(${classes})\s*\*?\s*([A-Za-z_]\w*)\s*[;=(]`, 'g'))) {
+    objects[match[2]] = NETWORK_CLASSES[match[1]]
+  }
+  return objects
+}
+
+const quoted = (arg: NetworkArg) => (arg === null ? '?' : typeof arg === 'string' ? `"${arg}"` : String(arg))
+
+export class NetworkStub {
+  private wifi: 'idle' | 'station' | 'ap' = 'idle'
+  private broker: string | null = null
+  private mqttConnected = false
+  private httpUrl: string | null = null
+  /** Last setValue() per BLE characteristic, sent by notify()/indicate() */
+  private bleValues = new Map<string, NetworkArg>()
+
+  constructor(
+    private objects: Record<string, NetworkObjectKind>,
+    private log: (message: string) => void
+  ) {}
+
+  /** True when `name` (`WiFi.begin`, `client.publish`, …) is a call this stub answers. */
+  handles(name: string): boolean {
+    const [object, method] = name.split('.')
+    if (!method) return false
+    return object === 'WiFi' || object === 'BLEDevice' || object in this.objects
+  }
+
+  /** Run a network call; returns what the library would, or null when the method isn't modelled. */
+  call(name: string, args: NetworkArg[]): number | null {
+    const [object, method] = name.split('.')
+    if (object === 'WiFi') return this.wifiCall(method, args)
+    if (object === 'BLEDevice') return this.bleDeviceCall(method, args)
+    switch (this.objects[object]) {
+      case 'mqtt':
+        return this.mqttCall(method, args)
+      case 'http':
+        return this.httpCall(method, args)
+      case 'bluetooth':
+        return this.bluetoothCall(method, args)
+      case 'ble':
+        return this.bleCall(object, method, args)
+    }
+    return null
+  }
+
+  private wifiCall(method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'begin':
+        this.wifi = 'station'
+        this.log(`WiFi: connecting to ${quoted(args[0] ?? null)}`)
+        this.log(`WiFi: connected, IP ${STATION_IP} (simulated)`)
+        return WIFI_STATUS.WL_CONNECTED
+      case 'softAP':
+        this.wifi = 'ap'
+        this.log(`WiFi: access point ${quoted(args[0] ?? null)} up, IP ${SOFT_AP_IP} (simulated)`)
+        return 1
+      case 'disconnect':
+        if (this.wifi !== 'idle') this.log('WiFi: disconnected')
+        this.wifi = 'idle'
+        return 1
+      case 'status':
+        return this.wifi === 'station' ? WIFI_STATUS.WL_CONNECTED : WIFI_STATUS.WL_IDLE_STATUS
+      case 'isConnected':
+        return this.wifi === 'station' ? 1 : 0
+      case 'RSSI':
+        return this.wifi === 'station' ? RSSI_DBM : 0
+      case 'mode':
+      case 'setHostname':
+      case 'setSleep':
+      case 'setAutoReconnect':
+        return 1
+    }
+    return null
+  }
+
+  private mqttCall(method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'setServer':
+        this.broker = `${args[0] ?? '?'}:${args[1] ?? 1883}`
+        return 1
+      case 'connect':
+        this.mqttConnected = true
+        this.log(`MQTT: connected to ${this.broker ?? 'broker'} as ${quoted(args[0] ?? null)}`)
+        return 1
+      case 'connected':
+        // The broker is always reachable once WiFi is up
+        return this.mqttConnected || this.wifi !== 'idle' ? 1 : 0
+      case 'disconnect':
+        this.mqttConnected = false
+        this.log('MQTT: disconnected')
+        return 1
+      case 'publish':
+        this.log(`MQTT: publish ${quoted(args[0] ?? null)} ${quoted(args[1] ?? null)}${args[2] ? ' (retained)' : ''}`)
+        return 1
+      case 'subscribe':
+        this.log(`MQTT: subscribe ${quoted(args[0] ?? null)}`)
+        return 1
+      case 'loop':
+      case 'setCallback':
+      case 'setKeepAlive':
+      case 'setBufferSize':
+        return 1
+      case 'state':
+        return this.mqttConnected ? 0 : -1
+    }
+    return null
+  }
+
+  private httpCall(method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'begin':
+        this.httpUrl = args[0] === null || args[0] === undefined ? null : String(args[0])
+        return 1
+      case 'GET':
+        this.log(`HTTP: GET ${this.httpUrl ?? '?'} → ${HTTP_OK} (simulated)`)
+        return HTTP_OK
+      case 'POST':
+      case 'PUT':
+        this.log(`HTTP: ${method} ${this.httpUrl ?? '?'} ${quoted(args[0] ?? null)} → ${HTTP_OK} (simulated)`)
+        return HTTP_OK
+      case 'addHeader':
+      case 'end':
+        return 1
+    }
+    return null
+  }
+
+  private bluetoothCall(method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'begin':
+        this.log(`Bluetooth: discoverable as ${quoted(args[0] ?? 'ESP32')}`)
+        return 1
+      case 'hasClient':
+        return 0
+      case 'available':
+        return 0
+      case 'end':
+        return 1
+    }
+    return null
+  }
+
+  private bleDeviceCall(method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'init':
+        this.log(`BLE: device ${quoted(args[0] ?? '')} initialised`)
+        return 1
+      case 'startAdvertising':
+        this.log('BLE: advertising')
+        return 1
+      case 'deinit':
+        return 1
+    }
+    return null
+  }
+
+  private bleCall(object: string, method: string, args: NetworkArg[]): number | null {
+    switch (method) {
+      case 'setValue':
+        this.bleValues.set(object, args[0] ?? null)
+        return 1
+      case 'notify':
+      case 'indicate':
+        this.log(`BLE: ${method} ${object} ${quoted(this.bleValues.get(object) ?? null)}`)
+        return 1
+      case 'start':
+        this.log(`BLE: ${object} started`)
+        return 1
+    }
+    return null
+  }
+}
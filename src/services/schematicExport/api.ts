@@ -14,6 +14,14 @@ export interface SchematicExportWire {
   color: string
 }
 
+/** A net label or power flag, drawn as a KiCad label / power symbol at its cell. */
+export interface SchematicExportNetLabel {
+  x: number
+  y: number
+  name: string
+  kind: 'net' | 'power' | 'port'
+}
+
 export interface SchematicSymbolPreview {
   moduleName: string
   name: string
@@ -65,12 +73,13 @@ export async function downloadSymbolZip(projectName: string, components: Schemat
 export async function downloadWiringSvg(
   projectName: string,
   components: SchematicExportComponent[],
-  wires: SchematicExportWire[]
+  wires: SchematicExportWire[],
+  netLabels: SchematicExportNetLabel[] = []
 ) {
   const response = await fetch('/api/schematic-export/wiring.svg', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ projectName, components, wires }),
+    body: JSON.stringify({ projectName, components, wires, netLabels }),
   })
   const safeName = projectName.replace(/[^a-z0-9-_]+/gi, '-') || 'circuitwiz-wiring'
   await downloadBlob(response, `${safeName}-wiring.svg`)
@@ -79,12 +88,13 @@ export async function downloadWiringSvg(
 export async function downloadWiringPdf(
   projectName: string,
   components: SchematicExportComponent[],
-  wires: SchematicExportWire[]
+  wires: SchematicExportWire[],
+  netLabels: SchematicExportNetLabel[] = []
 ) {
   const response = await fetch('/api/schematic-export/wiring.pdf', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ projectName, components, wires }),
+    body: JSON.stringify({ projectName, components, wires, netLabels }),
   })
   const safeName = projectName.replace(/[^a-z0-9-_]+/gi, '-') || 'circuitwiz-wiring'
   await downloadBlob(response, `${safeName}-wiring.pdf`)
@@ -1,7 +1,8 @@
 import { listComponents } from '../../agent/schematic/operations'
 import { planTidyLayout, applyTidyLayout } from '../../utils/schematicTidyLayout'
 import type { Schematic } from '../../types/workspace'
-import type { SchematicExportComponent, SchematicExportWire } from './api'
+import { netLabelName } from '../../utils/netLabels'
+import type { SchematicExportComponent, SchematicExportNetLabel, SchematicExportWire } from './api'
 
 /**
  * Produce a compact, signal-flow layout for export WITHOUT touching the real
@@ -17,12 +18,13 @@ function tidyForExport(schematic: Schematic): Schematic {
 export interface SchematicExportPayload {
   components: SchematicExportComponent[]
   wires: SchematicExportWire[]
+  netLabels: SchematicExportNetLabel[]
 }
 
 export function collectSchematicExport(
   schematic: Schematic | null | undefined
 ): SchematicExportPayload {
-  if (!schematic) return { components: [], wires: [] }
+  if (!schematic) return { components: [], wires: [], netLabels: [] }
   const tidied = tidyForExport(schematic)
 
   const components: SchematicExportComponent[] = listComponents(tidied).map((component) => ({
@@ -48,5 +50,10 @@ export function collectSchematicExport(
     color: wire.color,
   }))
 
-  return { components, wires }
+  const netLabels: SchematicExportNetLabel[] = (tidied.labels ?? []).flatMap((label) => {
+    const name = netLabelName(label)
+    return name ? [{ x: label.x, y: label.y, name, kind: label.kind === 'power' || label.kind === 'port' ? label.kind : 'net' } as const] : []
+  })
+
+  return { components, wires, netLabels }
 }
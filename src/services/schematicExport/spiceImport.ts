@@ -0,0 +1,436 @@
+import { buildNets } from '../../systems/chain'
+import { THERMAL_VOLTAGE } from '../../systems/chain/solver/junction'
+import { posKey } from '../../systems/chain/utils'
+import { connectPins, getComponent, placeComponent } from '../../agent/schematic/operations'
+import { applyTidyLayout, planTidyLayout } from '../../utils/schematicTidyLayout'
+import { createSchematic, type Schematic } from '../../types/workspace'
+
+/**
+ * SPICE (.cir) netlist import — the inverse of spiceNetlist.ts.
+ *
+ * Understands R, C, L, D, Q, M and V cards, `.model` cards and `.subckt`
+ * definitions (X instances are flattened with `X1.` prefixes on their
+ * internal nodes). Each element becomes a CircuitWiz part through
+ * `placeComponent`, every SPICE node is wired pin-to-pin with `connectPins`,
+ * and `planTidyLayout` arranges the result. Anything CircuitWiz cannot
+ * represent (current sources, controlled sources, sources floating above
+ * ground) is skipped and listed in `warnings`.
+ */
+
+export interface SpiceImportResult {
+  schematic: Schematic
+  /** Cards that were skipped or approximated, and any nets routing could not keep apart. */
+  warnings: string[]
+}
+
+interface SpiceModel {
+  type: string
+  params: Record<string, number>
+}
+
+interface SpiceSubcircuit {
+  pins: string[]
+  cards: string[][]
+}
+
+interface ImportedPart {
+  /** SPICE element name, with subcircuit prefixes. */
+  name: string
+  moduleName: string
+  props: Record<string, unknown>
+  /** Module pin names, paired with `nodes`. */
+  pins: string[]
+  nodes: string[]
+}
+
+const GROUND_NODES = new Set(['0', 'gnd'])
+const MAX_SUBCIRCUIT_DEPTH = 8
+const PARTS_PER_ROW = 5
+const PLACEMENT_PITCH = { x: 8, y: 7 }
+
+const SPICE_SCALE: Record<string, number> = {
+  t: 1e12,
+  g: 1e9,
+  meg: 1e6,
+  k: 1e3,
+  mil: 25.4e-6,
+  m: 1e-3,
+  u: 1e-6,
+  µ: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+}
+
+/** SPICE number with an optional scale suffix; trailing unit letters (`10uF`, `1kohm`) are ignored. */
+export function parseSpiceNumber(token: string | undefined): number | undefined {
+  if (!token) return undefined
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(meg|mil|[tgkmuµnpf])?/i.exec(token)
+  if (!match) return undefined
+  const value = parseFloat(match[1])
+  const scale = match[2] ? SPICE_SCALE[match[2].toLowerCase()] : 1
+  return Number.isFinite(value) ? value * scale : undefined
+}
+
+/** Joins `+` continuations, drops comments, and splits each card into lower-case tokens. */
+function tokenizeDeck(text: string): { title: string; cards: string[][] } {
+  const lines = text.split(/\r?\n/)
+  const title = (lines.shift() ?? '').replace(/^\*\s*/, '').trim()
+  const joined: string[] = []
+  for (const raw of lines) {
+    const line = raw.replace(/\s[;$].*$/, '').replace(/^;.*$/, '').trim()
+    if (line === '' || line.startsWith('*')) continue
+    if (line.startsWith('+') && joined.length > 0) joined[joined.length - 1] += ` ${line.slice(1)}`
+    else joined.push(line)
+  }
+  const cards = joined.map((line) =>
+    line
+      .toLowerCase()
+      .replace(/[(),]/g, ' ')
+      .replace(/\s*=\s*/g, '=')
+      .split(/\s+/)
+      .filter(Boolean)
+  )
+  return { title, cards }
+}
+
+function isParam(token: string): boolean {
+  return token.includes('=')
+}
+
+function readParams(tokens: string[]): Record<string, number> {
+  const params: Record<string, number> = {}
+  for (const token of tokens) {
+    if (!isParam(token)) continue
+    const [key, raw] = token.split('=')
+    const value = parseSpiceNumber(raw)
+    if (value !== undefined) params[key] = value
+  }
+  return params
+}
+
+/** Splits a deck into top-level cards, `.model` cards and `.subckt` bodies. */
+function collectDefinitions(cards: string[][]): {
+  top: string[][]
+  models: Map<string, SpiceModel>
+  subcircuits: Map<string, SpiceSubcircuit>
+} {
+  const top: string[][] = []
+  const models = new Map<string, SpiceModel>()
+  const subcircuits = new Map<string, SpiceSubcircuit>()
+  let open: SpiceSubcircuit | null = null
+
+  for (const card of cards) {
+    const keyword = card[0]
+    if (keyword === '.model' && card.length >= 3) {
+      models.set(card[1], { type: card[2], params: readParams(card.slice(3)) })
+    } else if (keyword === '.subckt' && card.length >= 2) {
+      open = { pins: card.slice(2).filter((t) => !isParam(t)), cards: [] }
+      subcircuits.set(card[1], open)
+    } else if (keyword === '.ends') {
+      open = null
+    } else if (open) {
+      open.cards.push(card)
+    } else if (!keyword.startsWith('.')) {
+      top.push(card)
+    }
+  }
+  return { top, models, subcircuits }
+}
+
+/** Node count of each element letter (the tokens after the name, before model/value). */
+const NODE_COUNT: Record<string, number> = { r: 2, c: 2, l: 2, d: 2, v: 2, i: 2, q: 3, m: 4 }
+
+/** Expands X instances so every card is a primitive with globally unique names and nodes. */
+function flattenSubcircuits(
+  cards: string[][],
+  subcircuits: Map<string, SpiceSubcircuit>,
+  warnings: string[],
+  prefix = '',
+  nodeMap: Map<string, string> = new Map(),
+  depth = 0
+): string[][] {
+  const mapNode = (node: string): string => {
+    if (GROUND_NODES.has(node)) return '0'
+    return nodeMap.get(node) ?? `${prefix}${node}`
+  }
+  const flat: string[][] = []
+
+  for (const card of cards) {
+    const [name] = card
+    const kind = name[0]
+    if (kind === 'x') {
+      const positional = card.slice(1).filter((t) => !isParam(t))
+      const subName = positional[positional.length - 1]
+      const sub = subcircuits.get(subName)
+      if (!sub) {
+        warnings.push(`${prefix}${name}: subcircuit "${subName}" is not defined`)
+        continue
+      }
+      if (depth >= MAX_SUBCIRCUIT_DEPTH) {
+        warnings.push(`${prefix}${name}: subcircuits nested deeper than ${MAX_SUBCIRCUIT_DEPTH} levels`)
+        continue
+      }
+      const instanceNodes = positional.slice(0, -1).map(mapNode)
+      if (instanceNodes.length !== sub.pins.length) {
+        warnings.push(`${prefix}${name}: ${instanceNodes.length} nodes for ${sub.pins.length}-pin subcircuit "${subName}"`)
+        continue
+      }
+      const childMap = new Map(sub.pins.map((pin, i) => [pin, instanceNodes[i]]))
+      flat.push(...flattenSubcircuits(sub.cards, subcircuits, warnings, `${prefix}${name}.`, childMap, depth + 1))
+      continue
+    }
+    const nodeCount = NODE_COUNT[kind] ?? 2
+    flat.push([
+      `${prefix}${name}`,
+      ...card.slice(1, 1 + nodeCount).map(mapNode),
+      ...card.slice(1 + nodeCount),
+    ])
+  }
+  return flat
+}
+
+/** Junction props that make the part's Shockley model reproduce the card (Vf stays consistent for the piecewise view). */
+function junctionProps(params: Record<string, number>, referenceCurrent: number, defaultN: number): Record<string, unknown> {
+  const props: Record<string, unknown> = { model: 'shockley' }
+  const n = params.n ?? defaultN
+  const rs = params.rs ?? 0
+  props.emissionCoefficient = n
+  props.seriesResistance = rs
+  if (params.is !== undefined) {
+    props.saturationCurrent = params.is
+    const vf = n * THERMAL_VOLTAGE * Math.log(referenceCurrent / params.is + 1) + referenceCurrent * rs
+    props.forwardVoltage = Number(vf.toFixed(3))
+  }
+  return props
+}
+
+function convertDiode(card: string[], models: Map<string, SpiceModel>, warnings: string[]): ImportedPart {
+  const [name, anode, cathode, modelName] = card
+  const model = models.get(modelName)
+  if (!model) warnings.push(`${name}: model "${modelName ?? ''}" not found, using the default diode`)
+  const params = model?.params ?? {}
+
+  if (/led/.test(modelName ?? '')) {
+    return { name, moduleName: 'LED', props: junctionProps(params, 0.02, 2), pins: ['+', '-'], nodes: [anode, cathode] }
+  }
+  if (params.bv !== undefined) {
+    const props = junctionProps(params, 0.01, 1)
+    props.zenerVoltage = params.bv
+    if (params.ibv !== undefined) props.breakdownCurrent = params.ibv
+    return { name, moduleName: 'ZenerDiode', props, pins: ['A', 'K'], nodes: [anode, cathode] }
+  }
+  return { name, moduleName: 'Diode', props: junctionProps(params, 0.01, 1), pins: ['A', 'K'], nodes: [anode, cathode] }
+}
+
+function convertBjt(card: string[], models: Map<string, SpiceModel>, warnings: string[]): ImportedPart {
+  const [name, collector, base, emitter] = card
+  // An optional substrate node sits between the emitter and the model name.
+  const positional = card.slice(4).filter((t) => !isParam(t))
+  const modelName = models.has(positional[0]) ? positional[0] : positional[1] ?? positional[0]
+  const model = models.get(modelName)
+  if (!model) warnings.push(`${name}: model "${modelName ?? ''}" not found, using a default NPN`)
+  const params = model?.params ?? {}
+  const props: Record<string, unknown> = { model: 'ebers-moll' }
+  if (params.is !== undefined) {
+    props.saturationCurrent = params.is
+    props.vbe = Number((THERMAL_VOLTAGE * Math.log(1e-3 / params.is)).toFixed(3))
+  }
+  if (params.bf !== undefined) props.beta = params.bf
+  if (params.br !== undefined) props.reverseBeta = params.br
+  return {
+    name,
+    moduleName: model?.type === 'pnp' ? 'PNPTransistor' : 'NPNTransistor',
+    props,
+    pins: ['C', 'B', 'E'],
+    nodes: [collector, base, emitter],
+  }
+}
+
+function convertMosfet(card: string[], models: Map<string, SpiceModel>, warnings: string[]): ImportedPart {
+  const [name, drain, gate, source, bulk, modelName] = card
+  const model = models.get(modelName)
+  if (!model) warnings.push(`${name}: model "${modelName ?? ''}" not found, using a default NMOS`)
+  if (bulk !== source) warnings.push(`${name}: body is tied to the source (bulk node "${bulk}" dropped)`)
+  const params = model?.params ?? {}
+  const geometry = readParams(card.slice(6))
+  const props: Record<string, unknown> = { model: 'square-law' }
+  if (params.vto !== undefined) props.vth = Math.abs(params.vto)
+  if (params.kp !== undefined) props.transconductance = (params.kp * (geometry.w ?? 1)) / (geometry.l ?? 1)
+  if (params.lambda !== undefined) props.channelModulation = params.lambda
+  return {
+    name,
+    moduleName: model?.type === 'pmos' ? 'PMOSFET' : 'MOSFET',
+    props,
+    pins: ['D', 'G', 'S'],
+    nodes: [drain, gate, source],
+  }
+}
+
+/** DC, SIN and PULSE voltage sources; the negative node must be ground, as every CircuitWiz source returns to GND. */
+function convertVoltageSource(card: string[], warnings: string[]): ImportedPart | null {
+  let [name, positive, negative] = card
+  const spec = card.slice(3)
+  let sign = 1
+  if (positive === '0' && negative !== '0') {
+    ;[positive, negative] = [negative, positive]
+    sign = -1
+  }
+  if (negative !== '0') {
+    warnings.push(`${name}: sources must return to ground in CircuitWiz; ${positive}–${negative} was skipped`)
+    return null
+  }
+
+  const sinAt = spec.indexOf('sin')
+  const pulseAt = spec.indexOf('pulse')
+  // AC2 is a ground reference, so an inverted AC source stays upright — only its phase is off.
+  if (sign < 0 && (sinAt >= 0 || pulseAt >= 0)) warnings.push(`${name}: inverted AC source imported 180° out of phase`)
+  if (sinAt >= 0) {
+    const [offset = 0, amplitude = 0, frequency = 60] = spec.slice(sinAt + 1, sinAt + 4).map((t) => parseSpiceNumber(t) ?? 0)
+    if (offset !== 0) warnings.push(`${name}: the ${offset} V SIN offset was dropped`)
+    return {
+      name,
+      moduleName: 'ACSource',
+      props: { vrms: Math.abs(amplitude) / Math.SQRT2, frequency, waveform: 'sine' },
+      pins: ['AC1', 'AC2'],
+      nodes: [positive, negative],
+    }
+  }
+
+  if (pulseAt >= 0) {
+    const values = spec.slice(pulseAt + 1, pulseAt + 8).map((t) => parseSpiceNumber(t) ?? 0)
+    const [v1 = 0, v2 = 0] = values
+    const period = values[6] || 1
+    if (Math.abs(v1 + v2) > 1e-9) warnings.push(`${name}: PULSE ${v1}→${v2} V imported as a symmetric square wave`)
+    return {
+      name,
+      moduleName: 'ACSource',
+      props: { vrms: Math.max(Math.abs(v1), Math.abs(v2)), frequency: 1 / period, waveform: 'square' },
+      pins: ['AC1', 'AC2'],
+      nodes: [positive, negative],
+    }
+  }
+
+  const dcAt = spec.indexOf('dc')
+  const voltage = sign * (parseSpiceNumber(dcAt >= 0 ? spec[dcAt + 1] : spec[0]) ?? 0)
+  // A PowerSupply's 5V pin can't sit below its GND pin, so a reversed source only imports when it still comes out positive.
+  if (sign < 0 && voltage < 0) {
+    warnings.push(`${name}: drives ${positive} ${-voltage} V below ground, which a CircuitWiz supply can't do; skipped`)
+    return null
+  }
+  return {
+    name,
+    moduleName: 'PowerSupply',
+    props: { voltage },
+    pins: ['5V', 'GND'],
+    nodes: [positive, negative],
+  }
+}
+
+function convertCard(card: string[], models: Map<string, SpiceModel>, warnings: string[]): ImportedPart | null {
+  const [name, a, b] = card
+  const value = parseSpiceNumber(card.slice(3).find((t) => !isParam(t)))
+  // Flattened names keep their subcircuit path (`x1.ra`); the element letter follows the last dot.
+  switch (name.slice(name.lastIndexOf('.') + 1)[0]) {
+    case 'r':
+      return { name, moduleName: 'Resistor', props: { resistance: value ?? 1000 }, pins: ['1', '2'], nodes: [a, b] }
+    case 'c':
+      return { name, moduleName: 'Capacitor', props: { capacitance: value ?? 1e-6 }, pins: ['1', '2'], nodes: [a, b] }
+    case 'l':
+      return { name, moduleName: 'Inductor', props: { inductance: value ?? 1e-3 }, pins: ['1', '2'], nodes: [a, b] }
+    case 'd':
+      return convertDiode(card, models, warnings)
+    case 'q':
+      return convertBjt(card, models, warnings)
+    case 'm':
+      return convertMosfet(card, models, warnings)
+    case 'v':
+      return convertVoltageSource(card, warnings)
+    case 'i':
+      warnings.push(`${name}: CircuitWiz has no current source part; skipped`)
+      return null
+    default:
+      warnings.push(`${name}: unsupported SPICE element; skipped`)
+      return null
+  }
+}
+
+/** Flags SPICE nodes that routing split apart or merged together. */
+function checkNets(schematic: Schematic, placed: Array<{ id: string; part: ImportedPart }>, warnings: string[]): void {
+  const nets = buildNets(schematic.gridData, schematic.wires)
+  const netsByNode = new Map<string, Set<number>>()
+  const nodesByNet = new Map<number, Set<string>>()
+  for (const { id, part } of placed) {
+    const pins = getComponent(schematic, id)?.pins ?? []
+    part.pins.forEach((pinName, i) => {
+      const pin = pins.find((p) => p.name === pinName)
+      const net = pin ? nets.posToNet.get(posKey(pin.x, pin.y)) : undefined
+      if (net === undefined) return
+      const node = part.nodes[i]
+      if (!netsByNode.has(node)) netsByNode.set(node, new Set())
+      netsByNode.get(node)!.add(net)
+      if (!nodesByNet.has(net)) nodesByNet.set(net, new Set())
+      nodesByNet.get(net)!.add(node)
+    })
+  }
+  netsByNode.forEach((ids, node) => {
+    if (ids.size > 1) warnings.push(`Node ${node} could not be fully wired (${ids.size} separate pieces)`)
+  })
+  nodesByNet.forEach((nodes) => {
+    if (nodes.size > 1) warnings.push(`Nodes ${[...nodes].join(', ')} ended up on the same net; check the wiring`)
+  })
+}
+
+/** Builds a placed, wired and tidied schematic from a SPICE deck. */
+export function importSpiceNetlist(text: string, fallbackName = 'Imported netlist'): SpiceImportResult | { error: string } {
+  const warnings: string[] = []
+  const { title, cards } = tokenizeDeck(text)
+  const { top, models, subcircuits } = collectDefinitions(cards)
+  const parts = flattenSubcircuits(top, subcircuits, warnings)
+    .map((card) => convertCard(card, models, warnings))
+    .filter((part): part is ImportedPart => part !== null)
+  if (parts.length === 0) return { error: 'No SPICE elements CircuitWiz can place were found' }
+
+  // Sources first so the tidy pass starts each signal-flow column from the supply.
+  const isSource = (part: ImportedPart) => part.moduleName === 'PowerSupply' || part.moduleName === 'ACSource'
+  parts.sort((a, b) => Number(isSource(b)) - Number(isSource(a)))
+
+  let schematic = createSchematic(title || fallbackName, `Imported from SPICE (${parts.length} parts)`)
+  const placed: Array<{ id: string; part: ImportedPart }> = []
+  parts.forEach((part, i) => {
+    const x = 2 + (i % PARTS_PER_ROW) * PLACEMENT_PITCH.x
+    const y = 2 + Math.floor(i / PARTS_PER_ROW) * PLACEMENT_PITCH.y
+    const id = `spice-${part.name.replace(/[^a-z0-9]+/g, '-')}`
+    const result = placeComponent(schematic, part.moduleName, x, y, part.props, id)
+    if ('error' in result) {
+      warnings.push(`${part.name}: ${result.error}`)
+      return
+    }
+    schematic = result.schematic
+    placed.push({ id: result.componentId, part })
+  })
+
+  const pinsByNode = new Map<string, Array<{ id: string; pin: string }>>()
+  for (const { id, part } of placed) {
+    part.nodes.forEach((node, i) => {
+      if (!pinsByNode.has(node)) pinsByNode.set(node, [])
+      pinsByNode.get(node)!.push({ id, pin: part.pins[i] })
+    })
+  }
+  pinsByNode.forEach((pins, node) => {
+    for (let i = 1; i < pins.length; i++) {
+      const result = connectPins(schematic, pins[i - 1].id, pins[i - 1].pin, pins[i].id, pins[i].pin)
+      if ('error' in result) {
+        warnings.push(`Node ${node}: ${result.error}`)
+        continue
+      }
+      schematic = result.schematic
+    }
+  })
+
+  const plan = planTidyLayout(schematic)
+  if (plan.hasChanges) schematic = applyTidyLayout(schematic, plan)
+
+  checkNets(schematic, placed, warnings)
+  return { schematic, warnings }
+}
@@ -0,0 +1,381 @@
+import type { WireConnection } from '../../modules/types'
+import { resolveLogicModule } from '../../modules/logicModule'
+import { buildNets } from '../../systems/chain'
+import {
+  findAnodeCathode,
+  getTerminals,
+  getWiperRatio,
+  isGroundReference,
+  isPositiveTerminal,
+  isSwitchClosedOnGrid,
+  parseNumericProperty,
+} from '../../systems/chain/components/registry'
+import type { GridCellLike, PlacedComponent, TerminalInfo } from '../../systems/chain/types'
+import { readShockleyParams, type ShockleyParams } from '../../systems/chain/solver/junction'
+import { readBjtParams, readMosfetParams } from '../../systems/chain/solver/transistor'
+import { posKey } from '../../systems/chain/utils'
+import { readACSourceSettings, vrmsToVpeak, type ACSourceSettings } from '../../utils/acSourceVisual'
+import { applyNetLabels } from '../../utils/netLabels'
+import type { SchematicCellLabel } from '../../types/workspace'
+
+/**
+ * SPICE (.cir) netlist export for cross-checking a schematic in ngspice.
+ *
+ * Nets come straight from `buildNets`, so node `n7` here is net 7 in the
+ * solver, the scope probes and the hover stats; the ground net is SPICE node 0.
+ * Parameters use the same defaults as the MNA stamps, and semiconductors always
+ * get their exponential / square-law `.model` card (derived from Vf, Vbe or
+ * rdsOn exactly as the nonlinear solver models do) whichever model the part
+ * simulates with here.
+ */
+
+export interface SpiceNetlist {
+  /** The complete deck, title line through `.end`. */
+  netlist: string
+  /** Parts left out of the deck (no SPICE equivalent, or unconnected). */
+  warnings: string[]
+}
+
+interface SpiceSchematic {
+  name: string
+  gridData: GridCellLike[][]
+  wires: WireConnection[]
+  /** Net labels and power flags join their nets here as in the solver */
+  labels?: SchematicCellLabel[]
+}
+
+/** Smallest resistance written for a potentiometer leg */
+const MIN_LEG_RESISTANCE = 1e-3
+
+interface DeckBuilder {
+  elements: string[]
+  models: Map<string, string>
+  counters: Map<string, number>
+  warnings: string[]
+}
+
+/** Compact number for a SPICE card: six significant digits, no trailing zeros. */
+export function formatSpiceNumber(value: number): string {
+  return String(Number(value.toPrecision(6)))
+}
+
+function nextName(deck: DeckBuilder, prefix: string): string {
+  const n = (deck.counters.get(prefix) ?? 0) + 1
+  deck.counters.set(prefix, n)
+  return `${prefix}${n}`
+}
+
+/** Shares one `.model` card between parts with identical parameters. */
+function modelName(deck: DeckBuilder, prefix: string, body: string): string {
+  const existing = deck.models.get(body)
+  if (existing) return existing
+  const name = nextName(deck, prefix)
+  deck.models.set(body, name)
+  return name
+}
+
+function diodeModel(params: ShockleyParams): string {
+  const fields = [
+    `IS=${formatSpiceNumber(params.saturationCurrent)}`,
+    `N=${formatSpiceNumber(params.emissionCoefficient)}`,
+    `RS=${formatSpiceNumber(params.seriesResistance)}`,
+  ]
+  if (params.breakdownVoltage !== undefined) {
+    fields.push(`BV=${formatSpiceNumber(params.breakdownVoltage)}`)
+    fields.push(`IBV=${formatSpiceNumber(params.breakdownCurrent ?? 0.005)}`)
+  }
+  return `D(${fields.join(' ')})`
+}
+
+/** Transient source spec matching `sampleWaveform` (phase 0 at t = 0). */
+function acSourceSpec(ac: ACSourceSettings): string {
+  const vp = formatSpiceNumber(vrmsToVpeak(ac.vrms, ac.waveform))
+  const period = 1 / Math.max(ac.frequency, 1e-6)
+  const edge = formatSpiceNumber(period / 1000)
+  const half = formatSpiceNumber(period / 2)
+  const t = formatSpiceNumber(period)
+  switch (ac.waveform) {
+    case 'sine':
+      return `SIN(0 ${vp} ${formatSpiceNumber(ac.frequency)})`
+    case 'square':
+      return `PULSE(${vp} -${vp} ${half} ${edge} ${edge} ${half} ${t})`
+    case 'triangle':
+      return `PULSE(${vp} -${vp} 0 ${half} ${half} 0 ${t})`
+    case 'sawtooth':
+      return `PULSE(-${vp} ${vp} 0 ${formatSpiceNumber(period - period / 1000)} ${edge} 0 ${t})`
+  }
+}
+
+function pinNamed(terminals: TerminalInfo[], pin: string, type: string): TerminalInfo | undefined {
+  return terminals.find((t) => t.moduleCell.pin === pin || t.moduleCell.type === type)
+}
+
+function emitComponent(
+  deck: DeckBuilder,
+  component: PlacedComponent,
+  moduleType: string,
+  gridData: GridCellLike[][],
+  node: (terminal: TerminalInfo | undefined) => string | undefined
+): boolean {
+  const props: Record<string, unknown> | undefined = component.moduleDefinition.properties
+  const terminals = getTerminals(component)
+  const emit = (prefix: string, nodes: Array<string | undefined>, value: string): boolean => {
+    if (nodes.some((n) => n === undefined)) return false
+    deck.elements.push(`${nextName(deck, prefix)} ${nodes.join(' ')} ${value}`)
+    return true
+  }
+  const leads = terminals.filter((t) => t.moduleCell.type === 'LEAD')
+
+  switch (moduleType) {
+    case 'Resistor': {
+      const resistance = parseNumericProperty(component.resistance ?? props?.resistance, 1000)
+      return emit('R', [node(leads[0]), node(leads[1])], formatSpiceNumber(resistance))
+    }
+
+    case 'Capacitor': {
+      const capacitance = parseNumericProperty(component.capacitance ?? props?.capacitance, 0.0001)
+      return emit('C', [node(leads[0]), node(leads[1])], formatSpiceNumber(capacitance))
+    }
+
+    case 'Inductor': {
+      // SPICE inductors are ideal; the winding resistance gets its own internal node.
+      const a = node(leads[0])
+      const b = node(leads[1])
+      if (a === undefined || b === undefined) return false
+      const inductance = parseNumericProperty(component.inductance ?? props?.inductance, 0.001)
+      const name = nextName(deck, 'L')
+      const internal = `${name}_dcr`
+      deck.elements.push(`${name} ${a} ${internal} ${formatSpiceNumber(inductance)}`)
+      const dcr = parseNumericProperty(props?.dcResistance, 0.5)
+      deck.elements.push(`${nextName(deck, 'R')} ${internal} ${b} ${formatSpiceNumber(dcr)}`)
+      return true
+    }
+
+    case 'Battery':
+    case 'PowerSupply': {
+      const positive = terminals.find((t) => isPositiveTerminal(t.moduleCell))
+      const negative = terminals.find((t) => isGroundReference(t.moduleCell))
+      const voltage = parseNumericProperty(positive?.moduleCell.voltage ?? props?.voltage, 5)
+      return emit('V', [node(positive), node(negative)], `DC ${formatSpiceNumber(voltage)}`)
+    }
+
+    case 'ACSource':
+      return emit(
+        'V',
+        [node(pinNamed(terminals, 'AC1', 'AC1')), node(pinNamed(terminals, 'AC2', 'AC2'))],
+        `DC 0 AC 1 ${acSourceSpec(readACSourceSettings(props))}`
+      )
+
+    case 'LED':
+    case 'Diode':
+    case 'ZenerDiode': {
+      const { anode, cathode } = findAnodeCathode(terminals)
+      const forwardVoltage = parseNumericProperty(
+        props?.forwardVoltage ?? (moduleType === 'LED' ? anode?.moduleCell.voltage : undefined),
+        moduleType === 'LED' ? 2 : 0.7
+      )
+      const ratedCurrent =
+        moduleType === 'LED' ? parseNumericProperty(props?.maxCurrent ?? anode?.moduleCell.current, 0.02) : 0.01
+      const params = readShockleyParams({ ...props, model: 'shockley' }, {
+        forwardVoltage,
+        ratedCurrent,
+        emissionCoefficient: moduleType === 'LED' ? 2 : moduleType === 'Diode' ? 1.8 : 1,
+        seriesResistance: moduleType === 'LED' ? 10 : 0.5,
+        breakdownVoltage:
+          moduleType === 'ZenerDiode' ? parseNumericProperty(props?.zenerVoltage, 5.1) : undefined,
+      })
+      if (!params) return false
+      return emit('D', [node(anode), node(cathode)], modelName(deck, 'DMOD', diodeModel(params)))
+    }
+
+    case 'RGBLED': {
+      const cathode = terminals.find((t) => t.moduleCell.type === 'LED_NEGATIVE' || t.moduleCell.pin === 'COM')
+      const maxCurrent = parseNumericProperty(props?.maxCurrent, 0.02)
+      const channels: Array<{ pin: 'R' | 'G' | 'B'; vfKey: string; defaultVf: number }> = [
+        { pin: 'R', vfKey: 'forwardVoltageR', defaultVf: 2.0 },
+        { pin: 'G', vfKey: 'forwardVoltageG', defaultVf: 3.0 },
+        { pin: 'B', vfKey: 'forwardVoltageB', defaultVf: 3.0 },
+      ]
+      let emitted = false
+      for (const ch of channels) {
+        const params = readShockleyParams({ ...props, model: 'shockley' }, {
+          forwardVoltage: parseNumericProperty(props?.[ch.vfKey], ch.defaultVf),
+          ratedCurrent: maxCurrent,
+          emissionCoefficient: 2,
+          seriesResistance: 10,
+        })
+        if (!params) continue
+        const anode = terminals.find((t) => t.moduleCell.pin === ch.pin)
+        emitted = emit('D', [node(anode), node(cathode)], modelName(deck, 'DMOD', diodeModel(params))) || emitted
+      }
+      return emitted
+    }
+
+    case 'NPNTransistor':
+    case 'PNPTransistor': {
+      const params = readBjtParams({ ...props, model: 'ebers-moll' }, {
+        vbe: parseNumericProperty(props?.vbe, 0.65),
+        beta: 100,
+      })
+      if (!params) return false
+      const type = moduleType === 'PNPTransistor' ? 'PNP' : 'NPN'
+      const card = `${type}(IS=${formatSpiceNumber(params.saturationCurrent)} BF=${formatSpiceNumber(
+        params.forwardBeta
+      )} BR=${formatSpiceNumber(params.reverseBeta)})`
+      return emit(
+        'Q',
+        [
+          node(pinNamed(terminals, 'C', 'COLLECTOR')),
+          node(pinNamed(terminals, 'B', 'BASE')),
+          node(pinNamed(terminals, 'E', 'EMITTER')),
+        ],
+        modelName(deck, 'QMOD', card)
+      )
+    }
+
+    case 'MOSFET':
+    case 'PMOSFET': {
+      const vth = parseNumericProperty(props?.vth, 2.5)
+      const params = readMosfetParams({ ...props, model: 'square-law' }, {
+        vth,
+        rdsOn: parseNumericProperty(props?.rdsOn, 0.05),
+      })
+      if (!params) return false
+      const p = moduleType === 'PMOSFET'
+      const card = `${p ? 'PMOS' : 'NMOS'}(LEVEL=1 VTO=${formatSpiceNumber(p ? -vth : vth)} KP=${formatSpiceNumber(
+        params.transconductance
+      )} LAMBDA=${formatSpiceNumber(params.channelModulation)})`
+      const source = node(pinNamed(terminals, 'S', 'SOURCE'))
+      // Three-terminal parts: the body is tied to the source.
+      return emit(
+        'M',
+        [node(pinNamed(terminals, 'D', 'DRAIN')), node(pinNamed(terminals, 'G', 'GATE')), source, source],
+        `${modelName(deck, 'MMOD', card)} W=1 L=1`
+      )
+    }
+
+    case 'OpAmp':
+      // Ideal VCVS at the open-loop gain, driving its output against ground; rail clipping is not modelled.
+      if (node(pinNamed(terminals, 'V-', 'GND')) === undefined) return false
+      return emit(
+        'E',
+        [
+          node(pinNamed(terminals, 'OUT', 'OUTPUT')),
+          '0',
+          node(pinNamed(terminals, '+', 'IN_POSITIVE')),
+          node(pinNamed(terminals, '-', 'IN_NEGATIVE')),
+        ],
+        formatSpiceNumber(parseNumericProperty(props?.openLoopGain, 100000))
+      )
+
+    case 'Switch':
+    case 'Push Button':
+    case 'Limit Switch': {
+      const input = terminals.find((t) => t.moduleCell.type === 'INPUT')
+      const output = terminals.find((t) => t.moduleCell.type === 'OUTPUT')
+      // Exported in its current position: closed is the solver's 10mΩ contact, open is left out.
+      if (!isSwitchClosedOnGrid(gridData, component.componentId)) {
+        deck.elements.push(`* ${component.componentId} (${moduleType}) open`)
+        return true
+      }
+      return emit('R', [node(input), node(output)], '0.01')
+    }
+
+    case 'Buzzer':
+    case 'Speaker': {
+      const positive = terminals.find((t) => t.moduleCell.pin === '+' || t.moduleCell.type === 'VCC')
+      const negative = terminals.find((t) => t.moduleCell.pin === '-' || t.moduleCell.type === 'GND')
+      const r = parseNumericProperty(props?.resistance, moduleType === 'Speaker' ? 8 : 32)
+      return emit('R', [node(positive), node(negative)], formatSpiceNumber(r))
+    }
+
+    case 'Servo': {
+      const vcc = terminals.find((t) => t.moduleCell.type === 'VCC')
+      const gnd = terminals.find((t) => t.moduleCell.type === 'GND')
+      return emit('R', [node(vcc), node(gnd)], formatSpiceNumber(parseNumericProperty(props?.resistance, 50)))
+    }
+
+    case 'Potentiometer': {
+      const a = terminals.find((t) => t.moduleCell.pin === 'A')
+      const w = terminals.find((t) => t.moduleCell.pin === 'W')
+      const b = terminals.find((t) => t.moduleCell.pin === 'B')
+      if (!a || !w || !b) return false
+      const total = parseNumericProperty(props?.resistance, 10000)
+      const ratio = getWiperRatio(gridData, w.x, w.y)
+      // ngspice rejects a 0Ω resistor, so a leg at the end of its track keeps a milliohm
+      const leg = (resistance: number) => formatSpiceNumber(Math.max(resistance, MIN_LEG_RESISTANCE))
+      return emit('R', [node(a), node(w)], leg(total * ratio)) && emit('R', [node(w), node(b)], leg(total * (1 - ratio)))
+    }
+
+    default:
+      return false
+  }
+}
+
+/** Builds the SPICE deck for a schematic; parts with no SPICE equivalent are listed in `warnings`. */
+export function buildSpiceNetlist(schematic: SpiceSchematic): SpiceNetlist {
+  const gridData = applyNetLabels(schematic.gridData, schematic.labels)
+  const { wires } = schematic
+  const nets = buildNets(gridData, wires)
+  const deck: DeckBuilder = { elements: [], models: new Map(), counters: new Map(), warnings: [] }
+
+  const grounded = nets.components.some((c) => getTerminals(c).some((t) => isGroundReference(t.moduleCell)))
+  if (!grounded && nets.nodeCount > 0) {
+    deck.warnings.push(`No ground reference in the schematic; net n${nets.groundNet} is used as SPICE node 0`)
+  }
+
+  const node = (terminal: TerminalInfo | undefined): string | undefined => {
+    if (!terminal) return undefined
+    const net = nets.posToNet.get(posKey(terminal.x, terminal.y))
+    if (net === undefined) return undefined
+    return net === nets.groundNet ? '0' : `n${net}`
+  }
+
+  const sourceFrequencies: number[] = []
+  nets.components.forEach((component) => {
+    const moduleType = resolveLogicModule(component.moduleDefinition)
+    deck.elements.push(`* ${component.componentId} (${moduleType})`)
+    if (!emitComponent(deck, component, moduleType, gridData, node)) {
+      deck.elements.pop()
+      deck.warnings.push(`${component.componentId} (${moduleType}) has no SPICE equivalent and was left out`)
+      return
+    }
+    if (moduleType === 'ACSource') {
+      sourceFrequencies.push(readACSourceSettings(component.moduleDefinition.properties).frequency)
+    }
+  })
+
+  const lines = [`* ${schematic.name || 'Untitled schematic'}`, '* Exported from CircuitWiz', '']
+  lines.push(...deck.elements)
+  if (deck.models.size > 0) {
+    lines.push('')
+    deck.models.forEach((name, body) => lines.push(`.model ${name} ${body}`))
+  }
+  if (deck.warnings.length > 0) {
+    lines.push('')
+    deck.warnings.forEach((w) => lines.push(`* ${w}`))
+  }
+  lines.push('', '.op')
+  if (sourceFrequencies.length > 0) {
+    // Five periods of the slowest source, 200 points per period.
+    const period = 1 / Math.max(Math.min(...sourceFrequencies), 1e-6)
+    lines.push(`.tran ${formatSpiceNumber(period / 200)} ${formatSpiceNumber(period * 5)}`)
+  }
+  lines.push('.end', '')
+
+  return { netlist: lines.join('\n'), warnings: deck.warnings }
+}
+
+/** Saves the deck as `<project>.cir` in the browser. */
+export function downloadSpiceNetlist(projectName: string, netlist: string): void {
+  const safeName = projectName.replace(/[^a-z0-9-_]+/gi, '-') || 'circuitwiz-netlist'
+  const blob = new Blob([netlist], { type: 'text/plain' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${safeName}.cir`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
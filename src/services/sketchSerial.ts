@@ -0,0 +1,911 @@
+/**
+ * Serial output for sketches run by the pattern matcher (no compiled firmware).
+ * `Serial.print`/`println`/`write` calls in setup() and loop() are replayed
+ * against simulated time, each `delay()` advancing the sketch's clock, with
+ * simple arithmetic over `analogRead`/`digitalRead`/`millis` and local
+ * variables evaluated as the sketch would (integer division, floats printed to
+ * two places). `if`/`else`, `while`, `do`…`while` and `for` run on their
+ * conditions, read and compared the way DynamicGPIO's followers read pins; a
+ * condition that can't be evaluated (or a `switch`) skips its block and is
+ * reported as unsupported control flow.
+ * `Wire` and `SPI` calls are replayed the same way onto the bus the sketch's
+ * board is wired to, with `digitalWrite` tracked for chip selects, and
+ * DallasTemperature calls run the 1-Wire protocol on the line their `OneWire`
+ * object names. ESP32 WiFi, MQTT, HTTP and Bluetooth calls go to a stub that
+ * notes them in the Serial Monitor (see networkStub).
+ */
+
+import type { BusPort } from './BusHub'
+import { findNetworkObjects, NetworkStub, WIFI_STATUS, type NetworkArg, type NetworkObjectKind } from './networkStub'
+import { DEVICE_DISCONNECTED_C, OneWireMaster } from './OneWire'
+import { compareReading, type ComparisonOp } from './gpioInputs'
+
+/** What the sketch reads from its pins. */
+export interface SketchInputs {
+  analogRead(pin: number): number
+  digitalRead(pin: number): number
+  /** ESP32 capacitive touch counts */
+  touchRead(pin: number): number
+}
+
+type SketchRuntime = SketchInputs & {
+  millis(): number
+  /** `Wire.*`, `SPI.*`, DallasTemperature methods and `digitalWrite`; null when the call isn't modelled */
+  hardware(name: string, args: Value[]): Value | null
+}
+
+type Value = { v: number; float: boolean }
+
+type Statement =
+  | { kind: 'print'; args: string[]; newline: boolean; raw: boolean }
+  | { kind: 'assign'; name: string; op: string; expr: string; type?: string }
+  | { kind: 'call'; expr: string }
+  | { kind: 'delay'; expr: string }
+  | { kind: 'if'; condition: string; then: Statement[]; otherwise: Statement[] }
+  /** `while`, `for` (its init statements come just before) and `do`…`while` (`postTest`) */
+  | { kind: 'loop'; condition: string; body: Statement[]; step: Statement[]; postTest: boolean }
+  | { kind: 'jump'; jump: Jump }
+  /** A construct the replay can't follow (`switch`); its block is skipped */
+  | { kind: 'unsupported'; text: string }
+
+type Jump = 'break' | 'continue' | 'return'
+
+export interface SketchSerialProgram {
+  baud: number | null
+  globals: Statement[]
+  setup: Statement[]
+  loop: Statement[]
+  /** `OneWire name(pin)` objects by name, with their pin argument as written */
+  oneWireBuses: Record<string, string>
+  /** `DallasTemperature name(&bus)` objects by name, with the OneWire object they use */
+  dallasSensors: Record<string, string>
+  /** String constants (`const char* ssid = "…"`, `#define TOPIC "…"`) by name, for network calls */
+  strings: Record<string, string>
+  networkObjects: Record<string, NetworkObjectKind>
+}
+
+const FLOAT_TYPES = new Set(['float', 'double'])
+const INT_TYPES = new Set([
+  'int', 'long', 'short', 'byte', 'char', 'bool', 'boolean', 'word', 'unsigned', 'size_t',
+  'uint8_t', 'uint16_t', 'uint32_t', 'int8_t', 'int16_t', 'int32_t',
+])
+const TYPE_PREFIX = String.raw`(?:(?:static|const|volatile)\s+)*(?:unsigned\s+|signed\s+)?`
+const DECLARATION_RE = new RegExp(String.raw`^${TYPE_PREFIX}([A-Za-z_]\w*)\s+([A-Za-z_]\w*)\s*=\s*([\s\S]+)$`)
+const ASSIGNMENT_RE = /^([A-Za-z_]\w*)\s*([+\-*/%]?=)\s*([\s\S]+)$/
+const INCREMENT_RE = /^(?:([A-Za-z_]\w*)\s*(\+\+|--)|(\+\+|--)\s*([A-Za-z_]\w*))$/
+const PRINT_RE = /^Serial\.(print|println|write)\s*\(([\s\S]*)\)$/
+const DELAY_CALL_RE = /^delay\s*\(([\s\S]+)\)$/
+const BEGIN_RE = /Serial\.begin\s*\(\s*(\d+)/
+const DEFINE_RE = /^[ \t]*#define[ \t]+([A-Za-z_]\w*)[ \t]+([^\n]+?)[ \t]*$/gm
+const HARDWARE_CALL_RE = /^(?:(?:Wire|SPI)\s*\.\s*\w+|\w+\s*\.\s*(?:begin|requestTemperatures|setResolution)|digitalWrite)\s*\(/
+const ONE_WIRE_DECL_RE = /\bOneWire\s+([A-Za-z_]\w*)\s*\(\s*([^)]+?)\s*\)/g
+const DALLAS_DECL_RE = /\bDallasTemperature\s+([A-Za-z_]\w*)\s*\(\s*&?\s*([A-Za-z_]\w*)\s*\)/g
+/** Method calls on objects (`client.publish(…)`, `pChar->notify()`, `BLEDevice::init(…)`), run when the network stub knows them */
+const METHOD_CALL_RE = /^([A-Za-z_]\w*)\s*\.\s*(\w+)\s*\(([\s\S]*)\)$/
+const STRING_DECL_RE =
+  /\b(?:(?:const\s+)?char\s*\*\s*(?:const\s+)?|(?:const\s+)?char\s+|(?:const\s+)?String\s+)([A-Za-z_]\w*)\s*(?:\[\s*\d*\s*\])?\s*=\s*"((?:[^"\\]|\\.)*)"/g
+const STRING_DEFINE_RE = /^[ \t]*#define[ \t]+([A-Za-z_]\w*)[ \t]+"((?:[^"\\]|\\.)*)"/gm
+const NETWORK_RE = /\b(?:WiFi\s*\.|BLEDevice\s*::|PubSubClient\b|HTTPClient\b|BluetoothSerial\b)/
+
+const JUMP_RE = /^(break|continue|return)\b/
+
+/**
+ * Reads a function body into statements, keeping `if`/`else`, loops and
+ * blocks as a tree so the runner can follow the sketch's control flow.
+ */
+class BodyParser {
+  private pos = 0
+
+  constructor(private text: string) {}
+
+  /** Statements up to the end of the text or the `}` closing the current block. */
+  block(): Statement[] {
+    const statements: Statement[] = []
+    for (;;) {
+      this.skipSpace()
+      if (this.pos >= this.text.length) return statements
+      if (this.text[this.pos] === '}') {
+        this.pos++
+        return statements
+      }
+      this.statement(statements)
+    }
+  }
+
+  private statement(out: Statement[]): void {
+    this.skipSpace()
+    const ch = this.text[this.pos]
+    if (ch === undefined) return
+    if (ch === ';') {
+      this.pos++
+      return
+    }
+    if (ch === '{') {
+      this.pos++
+      out.push(...this.block())
+      return
+    }
+    if (this.keyword('if')) {
+      const condition = this.group()
+      const then = this.body()
+      const otherwise = this.keyword('else') ? this.body() : []
+      out.push({ kind: 'if', condition, then, otherwise })
+      return
+    }
+    if (this.keyword('while')) {
+      const condition = this.group()
+      out.push({ kind: 'loop', condition, body: this.body(), step: [], postTest: false })
+      return
+    }
+    if (this.keyword('for')) {
+      const [init = '', condition = '', step = ''] = splitTopLevel(this.group(), ';')
+      out.push(...simpleStatements(splitArgs(init)))
+      const body = this.body()
+      out.push({ kind: 'loop', condition: condition.trim() || '1', body, step: simpleStatements(splitArgs(step)), postTest: false })
+      return
+    }
+    if (this.keyword('do')) {
+      const body = this.body()
+      const condition = this.keyword('while') ? this.group() : ''
+      out.push({ kind: 'loop', condition, body, step: [], postTest: true })
+      return
+    }
+    if (this.keyword('switch')) {
+      const header = this.group()
+      this.body()
+      out.push({ kind: 'unsupported', text: `switch (${header.trim()})` })
+      return
+    }
+    const text = this.simple()
+    const jump = text.match(JUMP_RE)
+    if (jump) out.push({ kind: 'jump', jump: jump[1] as Jump })
+    else out.push(...simpleStatements([text]))
+  }
+
+  /** One statement (or braced block) as the body of a control statement. */
+  private body(): Statement[] {
+    const out: Statement[] = []
+    this.statement(out)
+    return out
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++
+  }
+
+  /** Consume `word` when it starts the next statement. */
+  private keyword(word: string): boolean {
+    this.skipSpace()
+    if (!this.text.startsWith(word, this.pos) || /\w/.test(this.text[this.pos + word.length] ?? '')) return false
+    this.pos += word.length
+    return true
+  }
+
+  /** The text inside the next `( … )`, which is consumed. */
+  private group(): string {
+    this.skipSpace()
+    if (this.text[this.pos] !== '(') return ''
+    const start = ++this.pos
+    let depth = 1
+    let quote: string | null = null
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos]
+      if (quote) {
+        if (ch === '\\') this.pos++
+        else if (ch === quote) quote = null
+      } else if (ch === '"' || ch === "'") quote = ch
+      else if (ch === '(') depth++
+      else if (ch === ')' && --depth === 0) break
+    }
+    return this.text.slice(start, this.pos++)
+  }
+
+  /** A plain statement, up to its `;` (consumed) or the `}` that closes its block (left for block()). */
+  private simple(): string {
+    const start = this.pos
+    let depth = 0
+    let quote: string | null = null
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos]
+      if (quote) {
+        if (ch === '\\') this.pos++
+        else if (ch === quote) quote = null
+      } else if (ch === '"' || ch === "'") quote = ch
+      else if (ch === '(' || ch === '{') depth++
+      else if (ch === ')' || ch === '}') {
+        if (depth === 0) break
+        depth--
+      } else if (ch === ';' && depth === 0) {
+        return this.text.slice(start, this.pos++).trim()
+      }
+    }
+    return this.text.slice(start, this.pos).trim()
+  }
+}
+
+/** Split on top-level `separator` outside parentheses and literals. */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let depth = 0
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      current += ch
+      if (ch === '\\') current += text[++i] ?? ''
+      else if (ch === quote) quote = null
+      continue
+    }
+    if (ch === '"' || ch === "'") quote = ch
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (ch === separator && depth === 0) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += ch
+  }
+  parts.push(current)
+  return parts
+}
+
+/** Split call arguments on top-level commas. */
+function splitArgs(args: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let depth = 0
+  let quote: string | null = null
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i]
+    if (quote) {
+      current += ch
+      if (ch === '\\') current += args[++i] ?? ''
+      else if (ch === quote) quote = null
+      continue
+    }
+    if (ch === '"' || ch === "'") quote = ch
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += ch
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+/** Prints, assignments, delays and modelled calls among plain statements; anything else is dropped. */
+function simpleStatements(texts: string[]): Statement[] {
+  const statements: Statement[] = []
+  for (const statement of texts) {
+    // `pChar->notify()` and `BLEDevice::init(…)` read like `obj.method()`
+    const text = statement.trim().replace(/\s*(?:->|::)\s*/g, '.')
+    if (!text) continue
+    const delay = text.match(DELAY_CALL_RE)
+    if (delay) {
+      statements.push({ kind: 'delay', expr: delay[1] })
+      continue
+    }
+    const print = text.match(PRINT_RE)
+    if (print) {
+      statements.push({ kind: 'print', args: splitArgs(print[2]), newline: print[1] === 'println', raw: print[1] === 'write' })
+      continue
+    }
+    const declaration = text.match(DECLARATION_RE)
+    if (declaration && (INT_TYPES.has(declaration[1]) || FLOAT_TYPES.has(declaration[1]))) {
+      statements.push({ kind: 'assign', name: declaration[2], op: '=', expr: declaration[3], type: declaration[1] })
+      continue
+    }
+    const assignment = text.match(ASSIGNMENT_RE)
+    if (assignment) {
+      statements.push({ kind: 'assign', name: assignment[1], op: assignment[2], expr: assignment[3] })
+      continue
+    }
+    const increment = text.match(INCREMENT_RE)
+    if (increment) {
+      const op = (increment[2] ?? increment[3]) === '++' ? '+=' : '-='
+      statements.push({ kind: 'assign', name: increment[1] ?? increment[4], op, expr: '1' })
+      continue
+    }
+    if (HARDWARE_CALL_RE.test(text) || METHOD_CALL_RE.test(text)) statements.push({ kind: 'call', expr: text })
+  }
+  return statements
+}
+
+function compileStatements(body: string): Statement[] {
+  return new BodyParser(body).block()
+}
+
+/** Text outside every `{…}` block: the sketch's global declarations. */
+function topLevelText(code: string): string {
+  let out = ''
+  let depth = 0
+  for (const ch of code) {
+    if (ch === '{') depth++
+    else if (ch === '}') {
+      depth = Math.max(0, depth - 1)
+      out += ';'
+    } else if (depth === 0) out += ch
+  }
+  return out
+}
+
+/**
+ * Collect the Serial and bus activity of a comment-stripped sketch, or null
+ * when it never touches Serial, Wire or SPI.
+ */
+export function compileSketchSerial(code: string, setupBody: string, loopBody: string): SketchSerialProgram | null {
+  if (!/\b(?:Serial|Wire|SPI)\s*\./.test(code) && !NETWORK_RE.test(code)) return null
+  const begin = code.match(BEGIN_RE)
+  // Object-like #defines (addresses, pin numbers) read as constants
+  const defines: Statement[] = [...code.matchAll(DEFINE_RE)].map((m) => ({ kind: 'assign', name: m[1], op: '=', expr: m[2] }))
+  const globals = [...defines, ...compileStatements(topLevelText(code)).filter((s) => s.kind === 'assign')]
+  return {
+    baud: begin ? parseInt(begin[1], 10) : null,
+    globals,
+    setup: compileStatements(setupBody),
+    loop: compileStatements(loopBody),
+    oneWireBuses: Object.fromEntries([...code.matchAll(ONE_WIRE_DECL_RE)].map((m) => [m[1], m[2]])),
+    dallasSensors: Object.fromEntries([...code.matchAll(DALLAS_DECL_RE)].map((m) => [m[1], m[2]])),
+    strings: Object.fromEntries(
+      [...code.matchAll(STRING_DECL_RE), ...code.matchAll(STRING_DEFINE_RE)].map((m) => [m[1], unescape(m[2])])
+    ),
+    networkObjects: findNetworkObjects(code),
+  }
+}
+
+// --- Expressions ---------------------------------------------------------------
+
+const TOKEN_RE = /\s*(?:(0[xX][\da-fA-F]+|0[bB][01]+|\d+\.\d*|\.\d+|\d+)[fFuUlL]*|([A-Za-z_]\w*)|(==|!=|<=|>=|&&|\|\||\S))/y
+
+class ExpressionParser {
+  private tokens: string[] = []
+  private pos = 0
+
+  constructor(
+    source: string,
+    private scope: Map<string, Value>,
+    private runtime: SketchRuntime,
+    private resolvePin: (arg: string) => number | null
+  ) {
+    TOKEN_RE.lastIndex = 0
+    let match: RegExpExecArray | null
+    while (TOKEN_RE.lastIndex < source.length && (match = TOKEN_RE.exec(source))) {
+      const token = match[1] ?? match[2] ?? match[3]
+      if (token !== undefined) this.tokens.push(token)
+    }
+  }
+
+  parse(): Value | null {
+    const value = this.expr()
+    return value && this.pos === this.tokens.length ? value : null
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos]
+  }
+
+  private expr(): Value | null {
+    return this.logical('||', () => this.logical('&&', () => this.equality()))
+  }
+
+  /** `||` and `&&`: both sides are evaluated, as reads here have no side effects worth short-circuiting. */
+  private logical(op: '||' | '&&', operand: () => Value | null): Value | null {
+    let left = operand()
+    while (left && this.peek() === op) {
+      this.pos++
+      const right = operand()
+      if (!right) return null
+      const truth = op === '||' ? left.v !== 0 || right.v !== 0 : left.v !== 0 && right.v !== 0
+      left = { v: truth ? 1 : 0, float: false }
+    }
+    return left
+  }
+
+  private equality(): Value | null {
+    return this.comparison(['==', '!='], () => this.comparison(['<', '<=', '>', '>='], () => this.additive()))
+  }
+
+  private comparison(ops: ComparisonOp[], operand: () => Value | null): Value | null {
+    let left = operand()
+    while (left && ops.includes(this.peek() as ComparisonOp)) {
+      const op = this.tokens[this.pos++] as ComparisonOp
+      const right = operand()
+      if (!right) return null
+      left = { v: compareReading(left.v, op, right.v) ? 1 : 0, float: false }
+    }
+    return left
+  }
+
+  private additive(): Value | null {
+    let left = this.term()
+    while (left && (this.peek() === '+' || this.peek() === '-')) {
+      const op = this.tokens[this.pos++]
+      const right = this.term()
+      if (!right) return null
+      left = { v: op === '+' ? left.v + right.v : left.v - right.v, float: left.float || right.float }
+    }
+    return left
+  }
+
+  private term(): Value | null {
+    let left = this.unary()
+    while (left && (this.peek() === '*' || this.peek() === '/' || this.peek() === '%')) {
+      const op = this.tokens[this.pos++]
+      const right = this.unary()
+      if (!right) return null
+      const float = left.float || right.float
+      if (op === '*') left = { v: left.v * right.v, float }
+      else if (right.v === 0) return null
+      else if (op === '/') left = { v: float ? left.v / right.v : Math.trunc(left.v / right.v), float }
+      else left = { v: left.v % right.v, float }
+    }
+    return left
+  }
+
+  private unary(): Value | null {
+    if (this.peek() === '!') {
+      this.pos++
+      const value = this.unary()
+      return value && { v: value.v === 0 ? 1 : 0, float: false }
+    }
+    if (this.peek() === '-') {
+      this.pos++
+      const value = this.unary()
+      return value && { v: -value.v, float: value.float }
+    }
+    if (this.peek() === '(' && (FLOAT_TYPES.has(this.tokens[this.pos + 1]) || INT_TYPES.has(this.tokens[this.pos + 1])) && this.tokens[this.pos + 2] === ')') {
+      const type = this.tokens[this.pos + 1]
+      this.pos += 3
+      const value = this.unary()
+      return value && castTo(type, value)
+    }
+    return this.primary()
+  }
+
+  private primary(): Value | null {
+    const token = this.tokens[this.pos++]
+    if (token === undefined) return null
+    if (token === '(') {
+      const value = this.expr()
+      return value && this.tokens[this.pos++] === ')' ? value : null
+    }
+    if (/^0[xX]/.test(token)) return { v: parseInt(token.slice(2), 16), float: false }
+    if (/^0[bB]/.test(token)) return { v: parseInt(token.slice(2), 2), float: false }
+    if (/^[\d.]/.test(token)) return { v: parseFloat(token), float: token.includes('.') }
+    if (!/^[A-Za-z_]/.test(token)) return null
+
+    let name = token
+    if (this.peek() === '.' && /^[A-Za-z_]/.test(this.tokens[this.pos + 1] ?? '') && this.tokens[this.pos + 2] === '(') {
+      name = `${token}.${this.tokens[this.pos + 1]}`
+      this.pos += 2
+    }
+    if (this.peek() === '(') {
+      this.pos++
+      const args: Array<{ text: string; value: Value | null }> = []
+      while (this.peek() !== ')') {
+        const start = this.pos
+        const value = this.expr()
+        args.push({ text: this.tokens.slice(start, this.pos).join(''), value })
+        if (!value && args[args.length - 1].text === '') return null
+        if (this.peek() === ',') this.pos++
+        else if (this.peek() !== ')') return null
+      }
+      this.pos++
+      return this.call(name, args)
+    }
+
+    const variable = this.scope.get(token)
+    if (variable) return variable
+    if (token === 'HIGH' || token === 'true') return { v: 1, float: false }
+    if (token === 'LOW' || token === 'false') return { v: 0, float: false }
+    if (token === 'PI') return { v: Math.PI, float: true }
+    const pin = this.resolvePin(token)
+    return pin === null ? null : { v: pin, float: false }
+  }
+
+  private call(name: string, args: Array<{ text: string; value: Value | null }>): Value | null {
+    const pinOf = () => (args[0] ? this.resolvePin(args[0].text) ?? args[0].value?.v ?? null : null)
+    const nums = args.map((arg) => arg.value)
+    switch (name) {
+      case 'analogRead': {
+        const pin = pinOf()
+        return pin === null ? null : { v: this.runtime.analogRead(pin), float: false }
+      }
+      case 'digitalRead': {
+        const pin = pinOf()
+        return pin === null ? null : { v: this.runtime.digitalRead(pin), float: false }
+      }
+      case 'touchRead': {
+        const pin = pinOf()
+        return pin === null ? null : { v: this.runtime.touchRead(pin), float: false }
+      }
+      case 'millis':
+        return { v: Math.floor(this.runtime.millis()), float: false }
+      case 'micros':
+        return { v: Math.floor(this.runtime.millis() * 1000), float: false }
+      case 'digitalWrite': {
+        const pin = pinOf()
+        return pin === null || !nums[1] ? null : this.runtime.hardware(name, [{ v: pin, float: false }, nums[1]])
+      }
+    }
+    if (nums.some((n) => !n)) return null
+    const values = nums as Value[]
+    const float = values.some((n) => n.float)
+    switch (name) {
+      case 'map': {
+        if (values.length !== 5 || values[2].v === values[1].v) return null
+        const [x, inLow, inHigh, outLow, outHigh] = values.map((n) => n.v)
+        const mapped = ((x - inLow) * (outHigh - outLow)) / (inHigh - inLow) + outLow
+        return { v: float ? mapped : Math.trunc(mapped), float }
+      }
+      case 'constrain':
+        return values.length === 3 ? { v: Math.min(values[2].v, Math.max(values[1].v, values[0].v)), float } : null
+      case 'min':
+        return values.length === 2 ? { v: Math.min(values[0].v, values[1].v), float } : null
+      case 'max':
+        return values.length === 2 ? { v: Math.max(values[0].v, values[1].v), float } : null
+      case 'abs':
+        return values.length === 1 ? { v: Math.abs(values[0].v), float } : null
+      case 'sqrt':
+        return values.length === 1 ? { v: Math.sqrt(values[0].v), float: true } : null
+      case 'float':
+      case 'int':
+      case 'long':
+        return values.length === 1 ? castTo(name, values[0]) : null
+    }
+    return this.runtime.hardware(name, values)
+  }
+}
+
+function castTo(type: string, value: Value): Value {
+  return FLOAT_TYPES.has(type) ? { v: value.v, float: true } : { v: Math.trunc(value.v), float: false }
+}
+
+function unescape(literal: string): string {
+  return literal.replace(/\\(.)/g, (_, ch: string) => ({ n: '\n', r: '\r', t: '\t', '0': '\0' } as Record<string, string>)[ch] ?? ch)
+}
+
+/** What Serial.print(args) sends, or null when an argument can't be evaluated. */
+function formatPrint(
+  statement: Extract<Statement, { kind: 'print' }>,
+  evaluate: (expr: string) => Value | null
+): string | null {
+  const [first, second] = statement.args
+  let text = ''
+  if (first !== undefined) {
+    const literal = first.match(/^(?:F\s*\(\s*)?"((?:[^"\\]|\\.)*)"\s*\)?$/)
+    const char = first.match(/^'((?:[^'\\]|\\.))'$/)
+    if (literal) text = unescape(literal[1])
+    else if (char) text = unescape(char[1])
+    else {
+      const value = evaluate(first)
+      if (!value) return null
+      if (statement.raw) text = String.fromCharCode(value.v & 0xff)
+      else if (value.float) {
+        const places = second !== undefined ? parseInt(second, 10) : 2
+        text = value.v.toFixed(Number.isFinite(places) ? places : 2)
+      } else {
+        const base = { HEX: 16, OCT: 8, BIN: 2, DEC: 10 }[second ?? 'DEC'] ?? 10
+        const v = Math.trunc(value.v)
+        text = base === 10 ? String(v) : (v >>> 0).toString(base).toUpperCase()
+      }
+    }
+  }
+  return statement.newline ? `${text}\r\n` : text
+}
+
+/** Bytes per second at `baud` with 8N1 framing. */
+function bytesPerMs(baud: number): number {
+  return baud / 10 / 1000
+}
+
+const MAX_STATEMENTS_PER_UPDATE = 500
+/** When the replay falls this far behind it skips ahead instead of flooding the port. */
+const MAX_BACKLOG_MS = 1000
+
+/** Replays a compiled sketch's Serial and bus activity against simulated time. */
+export class SketchSerialRunner {
+  private scope = new Map<string, Value>()
+  private phase: 'setup' | 'loop' = 'setup'
+  /** The setup() or loop() pass being run, paused at its next statement */
+  private pass: Generator<number, Jump | null> | null = null
+  private passStart = 0
+  private passBytes = 0
+  /** Sketch time of the statement being run, for millis() */
+  private now = 0
+  private runtime: SketchRuntime
+  /** Wire's transmit buffer and target between beginTransmission and endTransmission */
+  private wireAddress: number | null = null
+  private wireTx: number[] = []
+  /** Bytes from the last Wire.requestFrom, drained by Wire.read() */
+  private wireRx: number[] = []
+  /** Levels set by digitalWrite, for SPI chip selects */
+  private pinLevels = new Map<number, number>()
+  /** ROM codes each DallasTemperature object found at begin(), in index order */
+  private dallasRoms = new Map<string, number[][]>()
+  private network: NetworkStub
+  /** Constructs already reported as unsupported control flow */
+  private unsupported = new Set<string>()
+
+  constructor(
+    private program: SketchSerialProgram,
+    inputs: SketchInputs,
+    private resolvePin: (arg: string) => number | null,
+    private write: (text: string) => void,
+    private bus: () => BusPort | null = () => null,
+    private note: (text: string) => void = () => {}
+  ) {
+    this.runtime = {
+      analogRead: (pin) => inputs.analogRead(pin),
+      digitalRead: (pin) => inputs.digitalRead(pin),
+      touchRead: (pin) => inputs.touchRead(pin),
+      millis: () => this.now,
+      hardware: (name, args) => this.hardware(name, args),
+    }
+    this.network = new NetworkStub(program.networkObjects, note)
+    Object.entries(WIFI_STATUS).forEach(([name, v]) => this.scope.set(name, { v, float: false }))
+    for (const statement of program.globals) if (statement.kind === 'assign') this.execute(statement)
+  }
+
+  /** Run every statement due by `currentTime` (ms since the sketch started). */
+  update(currentTime: number): void {
+    if (currentTime - this.now > MAX_BACKLOG_MS) {
+      this.passStart += currentTime - this.now
+      this.now = currentTime
+    }
+    for (let budget = MAX_STATEMENTS_PER_UPDATE; budget > 0; budget--) {
+      if (this.now > currentTime) return
+      if (!this.pass) {
+        if (this.phase === 'loop' && this.program.loop.length === 0) return
+        this.pass = this.run(this.phase === 'setup' ? this.program.setup : this.program.loop)
+      }
+      const step = this.pass.next()
+      if (!step.done) {
+        this.now += step.value
+        continue
+      }
+      this.now = this.passStart + this.passDuration()
+      this.phase = 'loop'
+      this.pass = null
+      this.passStart = this.now
+      this.passBytes = 0
+    }
+    // A pass still running after the budget (a busy-wait on millis()) catches up with the clock
+    this.now = Math.max(this.now, currentTime)
+  }
+
+  /** A pass lasts its delays, or as long as its output takes on the wire if that's longer. */
+  private passDuration(): number {
+    const wireMs = this.program.baud ? this.passBytes / bytesPerMs(this.program.baud) : 0
+    return Math.max(this.now - this.passStart, wireMs, this.phase === 'loop' ? 1 : 0)
+  }
+
+  /**
+   * Runs `statements`, yielding after each one: 0, or the ms a `delay()` waits.
+   * Returns the `break`/`continue`/`return` that ended it early.
+   */
+  private *run(statements: Statement[]): Generator<number, Jump | null> {
+    for (const statement of statements) {
+      switch (statement.kind) {
+        case 'jump':
+          return statement.jump
+        case 'delay':
+          yield Math.max(0, this.evaluate(statement.expr)?.v ?? 0)
+          break
+        case 'if': {
+          const condition = this.condition(statement.condition, 'if')
+          yield 0
+          if (condition === null) break
+          const jump = yield* this.run(condition ? statement.then : statement.otherwise)
+          if (jump) return jump
+          break
+        }
+        case 'loop': {
+          const jump = yield* this.runLoop(statement)
+          if (jump) return jump
+          break
+        }
+        case 'unsupported':
+          this.reportUnsupported(statement.text)
+          yield 0
+          break
+        default:
+          this.execute(statement)
+          yield 0
+      }
+    }
+    return null
+  }
+
+  private *runLoop(statement: Extract<Statement, { kind: 'loop' }>): Generator<number, 'return' | null> {
+    const keyword = statement.postTest ? 'do … while' : 'while'
+    let enter = true
+    if (!statement.postTest) {
+      const condition = this.condition(statement.condition, keyword)
+      yield 0
+      if (!condition) return null
+    }
+    while (enter) {
+      const jump = yield* this.run(statement.body)
+      if (jump === 'return') return jump
+      if (jump === 'break') return null
+      yield* this.run(statement.step)
+      const condition = this.condition(statement.condition, keyword)
+      yield 0
+      enter = condition === true
+    }
+    return null
+  }
+
+  /** A condition's truth, or null (reported once) when the replay can't evaluate it. */
+  private condition(text: string, keyword: string): boolean | null {
+    const value = this.evaluate(text)
+    if (value) return value.v !== 0
+    this.reportUnsupported(`${keyword} (${text.trim()})`)
+    return null
+  }
+
+  private reportUnsupported(construct: string): void {
+    if (this.unsupported.has(construct)) return
+    this.unsupported.add(construct)
+    this.note(`Sketch: unsupported control flow in \`${construct}\`, block skipped`)
+  }
+
+  private evaluate = (expr: string): Value | null =>
+    new ExpressionParser(expr, this.scope, this.runtime, this.resolvePin).parse()
+
+  /** Arduino's Wire and SPI libraries over the bus port; digitalWrite only matters for chip selects here. */
+  private hardware(name: string, args: Value[]): Value | null {
+    const int = (v: number): Value => ({ v, float: false })
+    const bus = this.bus()
+    const isLow = (gpio: number) => this.pinLevels.get(gpio) === 0
+    switch (name) {
+      case 'digitalWrite':
+        this.pinLevels.set(args[0].v, args[1].v ? 1 : 0)
+        bus?.spiChipSelects(isLow)
+        return int(0)
+      case 'Wire.begin':
+      case 'SPI.begin':
+      case 'SPI.end':
+        return int(0)
+      case 'Wire.beginTransmission':
+        if (args.length !== 1) return null
+        this.wireAddress = args[0].v & 0x7f
+        this.wireTx = []
+        return int(0)
+      case 'Wire.write':
+        if (args.length !== 1 || this.wireAddress === null) return null
+        this.wireTx.push(args[0].v & 0xff)
+        return int(1)
+      case 'Wire.endTransmission': {
+        const address = this.wireAddress
+        if (address === null) return null
+        this.wireAddress = null
+        if (!bus) return int(2)
+        // Wire's status codes: 0 sent, 2 address NACK, 3 data NACK
+        let status = bus.i2cStart(address, false) ? 0 : 2
+        for (const byte of this.wireTx) {
+          if (status !== 0) break
+          if (!bus.i2cWrite(byte)) status = 3
+        }
+        bus.i2cStop()
+        return int(status)
+      }
+      case 'Wire.requestFrom': {
+        if (args.length < 2) return null
+        this.wireRx = []
+        if (!bus) return int(0)
+        if (bus.i2cStart(args[0].v & 0x7f, true)) {
+          for (let i = 0; i < args[1].v; i++) this.wireRx.push(bus.i2cRead())
+        }
+        bus.i2cStop()
+        return int(this.wireRx.length)
+      }
+      case 'Wire.available':
+        return int(this.wireRx.length)
+      case 'Wire.read':
+        return int(this.wireRx.shift() ?? -1)
+      case 'SPI.transfer':
+        if (args.length !== 1) return null
+        return int(bus ? bus.spiTransfer(args[0].v & 0xff, isLow) : 0xff)
+    }
+    if (this.network.handles(name)) {
+      const result = this.network.call(name, args.map((arg) => arg.v))
+      return result === null ? null : int(result)
+    }
+    const [object, method] = name.split('.')
+    return method && object in this.program.dallasSensors ? this.dallas(object, method, args) : null
+  }
+
+  /** A network call argument: string literals and constants as text, `String(x)` and numbers evaluated. */
+  private networkArg(text: string): NetworkArg {
+    const inner = text.replace(/\.\s*c_str\s*\(\s*\)$/, '').trim()
+    const literal = inner.match(/^(?:F\s*\(\s*)?"((?:[^"\\]|\\.)*)"\s*\)?$/)
+    if (literal) return unescape(literal[1])
+    if (inner in this.program.strings) return this.program.strings[inner]
+    const wrapped = inner.match(/^String\s*\(([\s\S]*)\)$/)
+    const value = this.evaluate(wrapped ? wrapped[1] : inner)
+    if (!value) return null
+    return value.float ? value.v.toFixed(2) : value.v
+  }
+
+  /** The DallasTemperature library: devices are found at begin() and read by index. */
+  private dallas(object: string, method: string, args: Value[]): Value | null {
+    const pinText = this.program.oneWireBuses[this.program.dallasSensors[object]]
+    const pin = pinText === undefined ? null : this.resolvePin(pinText) ?? this.evaluate(pinText)?.v ?? null
+    const line = pin === null ? null : this.bus()?.oneWire(pin) ?? null
+    const master = line ? new OneWireMaster(line) : null
+    const roms = () => {
+      if (!this.dallasRoms.has(object)) this.dallasRoms.set(object, master?.search() ?? [])
+      return this.dallasRoms.get(object)!
+    }
+    const tempC = () => {
+      const rom = roms()[args[0]?.v ?? 0]
+      return rom && master ? master.readTemperature(rom) : DEVICE_DISCONNECTED_C
+    }
+    switch (method) {
+      case 'begin':
+        this.dallasRoms.set(object, master?.search() ?? [])
+        return { v: 0, float: false }
+      case 'getDeviceCount':
+        return { v: roms().length, float: false }
+      case 'requestTemperatures':
+        master?.requestTemperatures()
+        return { v: 0, float: false }
+      case 'setResolution':
+        if (args.length !== 1 || !master) return null
+        roms().forEach((rom) => master.setResolution(rom, args[0].v))
+        return { v: 0, float: false }
+      case 'getTempCByIndex':
+        return { v: tempC(), float: true }
+      case 'getTempFByIndex': {
+        const c = tempC()
+        return { v: c === DEVICE_DISCONNECTED_C ? -196.6 : c * 1.8 + 32, float: true }
+      }
+    }
+    return null
+  }
+
+  private execute(statement: Extract<Statement, { kind: 'print' | 'assign' | 'call' }>): void {
+    if (statement.kind === 'call') {
+      const method = statement.expr.match(METHOD_CALL_RE)
+      const name = method && `${method[1]}.${method[2]}`
+      if (name && this.network.handles(name)) this.network.call(name, splitArgs(method[3]).map((arg) => this.networkArg(arg)))
+      else this.evaluate(statement.expr)
+      return
+    }
+    if (statement.kind === 'print') {
+      const text = formatPrint(statement, this.evaluate)
+      if (text === null) return
+      this.passBytes += text.length
+      this.write(text)
+      return
+    }
+    const value = this.evaluate(statement.expr)
+    if (!value) {
+      this.scope.delete(statement.name)
+      return
+    }
+    const previous = this.scope.get(statement.name)
+    let next = value
+    if (statement.op !== '=') {
+      if (!previous) return
+      const combined = new ExpressionParser(
+        `a ${statement.op[0]} b`,
+        new Map([['a', previous], ['b', value]]),
+        this.runtime,
+        () => null
+      ).parse()
+      if (!combined) return
+      next = combined
+    }
+    const type = statement.type ?? (previous ? (previous.float ? 'float' : 'int') : undefined)
+    this.scope.set(statement.name, type ? castTo(type, next) : next)
+  }
+}
@@ -20,12 +20,18 @@ import { solveCircuit } from '../services/CircuitSolver'
 import { applyGpioComponentStates, applyGpioWireHints, applyGpioVoltagePropagation, stripPwmFromWires } from './chain/gpioDisplay'
 import { syncLedComponentStates } from './chain/ledDisplay'
 import { applyEscMotorDisplay } from './chain/driverMotorDisplay'
+import { readMcuPinVoltages } from './chain/mcuInputs'
+import { findBusLinks } from './chain/buses'
+import { readSensorInputs } from './chain/sensorStamps'
 import { extractOccupiedComponents } from '../utils/gridUtils'
 import { LEDVoltageFlow } from '../modules/output/voltageFlow/LED'
 import { ResistorVoltageFlow } from '../modules/passives/voltageFlow/Resistor'
 import { MicrocontrollerVoltageFlow } from '../modules/microcontrollers/voltageFlow/Microcontroller'
 import { calculateMotorElectricalProperties } from '../modules/output/voltageFlow/Motor'
 import { dynamicGPIO, DynamicGPIOState, multiMCUGPIO } from '../services/DynamicGPIO'
+import { mcuInputProfile } from '../services/gpioInputs'
+import { busHub } from '../services/BusHub'
+import { logicCapture } from '../services/LogicCapture'
 
 export interface ComponentState {
   componentId: string
@@ -1040,11 +1046,12 @@ export function getDynamicGPIOStates(): Map<number, DynamicGPIOState> {
 }
 
 /**
- * Start multi-microcontroller GPIO simulation
+ * Start multi-microcontroller GPIO simulation. Pass the compiled firmware for
+ * ATmega328P boards to run it on the AVR emulator.
  */
-export function startMultiMicrocontrollerGPIO(microcontrollerId: string, code: string): void {
+export function startMultiMicrocontrollerGPIO(microcontrollerId: string, code: string, firmware?: string): void {
   console.log(`[MULTI_MCU_GPIO] Starting simulation for ${microcontrollerId}`)
-  multiMCUGPIO.startMicrocontrollerSimulation(microcontrollerId, code)
+  multiMCUGPIO.startMicrocontrollerSimulation(microcontrollerId, code, firmware)
 }
 
 /**
@@ -2456,6 +2463,52 @@ export function updateGridData(
   return hasChanges ? newGrid : gridData
 }
 
+/**
+ * Live GPIO states the solver should see: running microcontrollers first, then
+ * the single-program DynamicGPIO, then whatever the caller passed in.
+ */
+export function resolveEffectiveGPIOStates(
+  gpioStates?: Map<number, any>
+): Map<number, any> | undefined {
+  const multiMCUStates = getAllMultiMicrocontrollerGPIOStates()
+  const singleDynamicStates = getDynamicGPIOStates()
+  return multiMCUStates.size > 0 ? multiMCUStates :
+    singleDynamicStates.size > 0 ? singleDynamicStates :
+    gpioStates && gpioStates.size > 0 ? gpioStates :
+    undefined
+}
+
+/**
+ * Feed solved pin voltages back to the running microcontrollers so digitalRead
+ * and analogRead see the circuit.
+ */
+function feedMicrocontrollerInputs(gridData: GridCell[][], nodeVoltages: Map<string, number>): void {
+  readMcuPinVoltages(gridData, nodeVoltages).forEach(({ moduleType, pins }, componentId) => {
+    if (!multiMCUGPIO.isMicrocontrollerRunning(componentId)) return
+    multiMCUGPIO.applyInputVoltages(componentId, pins, mcuInputProfile(moduleType))
+  })
+}
+
+let busTopologySource: { gridData: GridCell[][]; wires: WireConnection[] } | null = null
+
+/**
+ * Keep the UART/I2C/SPI/1-Wire links between parts in step with the sheet
+ * while microcontrollers run, along with the readings 1-Wire sensors report.
+ */
+function syncBusLinks(gridData: GridCell[][], wires: WireConnection[]): void {
+  if (multiMCUGPIO.getRunningMicrocontrollers().length === 0) return
+  if (busTopologySource?.gridData === gridData && busTopologySource.wires === wires) return
+  busTopologySource = { gridData, wires }
+  const links = findBusLinks(gridData, wires)
+  busHub.configure(links)
+  links.forEach((link) => {
+    if (link.kind !== 'onewire') return
+    link.devices.forEach((device) =>
+      busHub.setSensorInputs(device.componentId, readSensorInputs(gridData, device.componentId, device.moduleType))
+    )
+  })
+}
+
 /**
  * Main electrical calculation function.
  * Uses the netlist MNA solver with chain-based continuity validation.
@@ -2474,16 +2527,11 @@ export function calculateElectricalFlow(
     totalResistance: number
     totalPower: number
     errors: string[]
+    warnings: string[]
     pathways: any[]
   }
 } {
-  const multiMCUStates = getAllMultiMicrocontrollerGPIOStates()
-  const singleDynamicStates = getDynamicGPIOStates()
-  const effectiveGPIOStates =
-    multiMCUStates.size > 0 ? multiMCUStates :
-    singleDynamicStates.size > 0 ? singleDynamicStates :
-    gpioStates && gpioStates.size > 0 ? gpioStates :
-    undefined
+  const effectiveGPIOStates = resolveEffectiveGPIOStates(gpioStates)
   const hasLiveGpio = effectiveGPIOStates !== undefined && effectiveGPIOStates.size > 0
 
   const occupiedComponents = extractOccupiedComponents(gridData)
@@ -2491,6 +2539,9 @@ export function calculateElectricalFlow(
   const pathways = circuitAnalysis.pathways
 
   const solverResult = solveCircuit(gridData, wires, effectiveGPIOStates)
+  feedMicrocontrollerInputs(gridData, solverResult.nodeVoltages)
+  syncBusLinks(gridData, wires)
+  logicCapture.sampleCircuit(solverResult.nodeVoltages, solverResult.logicGates)
   const componentStates = new Map(solverResult.componentStates) as Map<string, ComponentState>
   syncLedComponentStates(componentStates)
   let updatedWires = solverResult.updatedWires
@@ -2530,6 +2581,7 @@ export function calculateElectricalFlow(
             ...solverResult.errors,
             ...circuitAnalysis.errors,
           ],
+      warnings: solverResult.warnings,
       pathways,
     },
   }
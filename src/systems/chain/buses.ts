@@ -0,0 +1,234 @@
+import type { WireConnection } from '../../modules/types'
+import { resolveLogicModule } from '../../modules/logicModule'
+import { getTerminals, gpioPinNumber, isMicrocontrollerModule } from './components/registry'
+import { buildNets } from './nets'
+import type { GridCellLike } from './types'
+import { parseNumericProperty, posKey } from './utils'
+
+export type BusKind = 'uart' | 'i2c' | 'spi' | 'onewire'
+export type BusPinRole = 'TX' | 'RX' | 'SDA' | 'SCL' | 'MOSI' | 'MISO' | 'SCK' | 'CS'
+
+/** Hardware UART0, I2C and SPI pins by GPIO key (D<n> → n, A<n> → 100 + n). */
+const ATMEGA328P_BUS_PINS: Record<BusPinRole, number> = { RX: 0, TX: 1, SDA: 104, SCL: 105, CS: 10, MOSI: 11, MISO: 12, SCK: 13 }
+/** ESP32 UART0 and the default Wire / VSPI pins. */
+const ESP32_BUS_PINS: Record<BusPinRole, number> = { TX: 1, RX: 3, SDA: 21, SCL: 22, CS: 5, SCK: 18, MISO: 19, MOSI: 23 }
+
+/** Pin labels that name a bus role on peripheral modules. */
+const PIN_LABEL_ROLES: Record<string, BusPinRole> = {
+  TX: 'TX', TXD: 'TX', RX: 'RX', RXD: 'RX',
+  SDA: 'SDA', SCL: 'SCL',
+  MOSI: 'MOSI', SDI: 'MOSI', DIN: 'MOSI', MISO: 'MISO', SDO: 'MISO',
+  SCK: 'SCK', SCLK: 'SCK', CLK: 'SCK', CS: 'CS', SS: 'CS', NSS: 'CS',
+}
+
+/** Modules whose silkscreen doesn't say the role (SSD1306 boards label SPI clock/data D0/D1). */
+const MODULE_PIN_ROLES: Record<string, Record<string, BusPinRole>> = {
+  DisplayDriver: { D0: 'SCK', D1: 'MOSI' },
+}
+
+export interface BusEndpoint {
+  componentId: string
+  moduleType: string
+  pin: string
+  role: BusPinRole
+  /** Microcontroller pin (as opposed to a peripheral module's) */
+  controller: boolean
+}
+
+/** One direction of a serial link: bytes sent on `tx` arrive on `rx`. */
+export interface UartLink {
+  kind: 'uart'
+  id: string
+  tx: BusEndpoint
+  rx: BusEndpoint
+}
+
+export interface I2cBusDevice {
+  componentId: string
+  moduleType: string
+  /** 7-bit address; devices without one never acknowledge */
+  address: number | null
+}
+
+export interface I2cBus {
+  kind: 'i2c'
+  id: string
+  controllers: string[]
+  devices: I2cBusDevice[]
+}
+
+export interface SpiBusDevice {
+  componentId: string
+  moduleType: string
+  /** Controller GPIO key wired to CS, 'low' when CS is tied to ground, null when it floats */
+  cs: number | 'low' | null
+  /** Whether the device's MISO reaches the controller */
+  miso: boolean
+}
+
+export interface SpiBus {
+  kind: 'spi'
+  id: string
+  controller: string
+  devices: SpiBusDevice[]
+}
+
+export interface OneWireBusDevice {
+  componentId: string
+  moduleType: string
+}
+
+/** A 1-Wire line: devices' DQ pins on one net with a microcontroller GPIO, which bit-bangs the protocol. */
+export interface OneWireBus {
+  kind: 'onewire'
+  id: string
+  controller: string
+  gpio: number
+  devices: OneWireBusDevice[]
+}
+
+export type BusLink = UartLink | I2cBus | SpiBus | OneWireBus
+
+/** Pins whose cell says they speak 1-Wire (the DS18B20's DQ). */
+const isOneWirePin = (moduleCell: any) => /1-?wire|one-?wire/i.test(String(moduleCell?.properties?.protocol ?? ''))
+
+function mcuBusPins(moduleType: string): Record<BusPinRole, number> {
+  return moduleType.includes('ESP32') ? ESP32_BUS_PINS : ATMEGA328P_BUS_PINS
+}
+
+/** Bus role of a terminal: MCUs by GPIO number, everything else by pin label. */
+function busPinRole(moduleType: string, controller: boolean, moduleCell: any): BusPinRole | null {
+  if (controller) {
+    const gpio = gpioPinNumber(moduleCell)
+    const pins = mcuBusPins(moduleType)
+    const role = (Object.keys(pins) as BusPinRole[]).find((r) => pins[r] === gpio)
+    // Any GPIO can drive a chip select, so CS is matched from the device side.
+    return role && role !== 'CS' ? role : null
+  }
+  const label = String(moduleCell?.pin ?? '').toUpperCase()
+  return MODULE_PIN_ROLES[moduleType]?.[label] ?? PIN_LABEL_ROLES[label] ?? null
+}
+
+interface NetEndpoint extends BusEndpoint {
+  net: number
+}
+
+/**
+ * Digital buses wired on the sheet: UART links from each TX to the RX pins on
+ * its net, I2C buses where a microcontroller's SDA and SCL both reach a
+ * module's, SPI buses from a microcontroller's SCK with each module's chip
+ * select traced back to the GPIO that drives it, and 1-Wire lines from any
+ * microcontroller GPIO to the DQ pins on its net.
+ */
+export function findBusLinks(gridData: GridCellLike[][], wires: WireConnection[]): BusLink[] {
+  const { posToNet, groundNet, components } = buildNets(gridData, wires)
+  const endpoints: NetEndpoint[] = []
+  /** GPIO terminals of each microcontroller by net, for chip-select tracing */
+  const mcuGpioByNet = new Map<number, Array<{ componentId: string; gpio: number }>>()
+  const oneWirePins: Array<OneWireBusDevice & { net: number }> = []
+
+  components.forEach((component) => {
+    const moduleType = resolveLogicModule(component.moduleDefinition) ?? ''
+    const controller = isMicrocontrollerModule(component.moduleDefinition)
+    getTerminals(component).forEach((terminal) => {
+      const net = posToNet.get(posKey(terminal.x, terminal.y))
+      if (net === undefined) return
+      if (controller && net !== groundNet) {
+        const gpio = gpioPinNumber(terminal.moduleCell)
+        if (gpio !== null && (terminal.moduleCell.type === 'GPIO' || terminal.moduleCell.type === 'ANALOG')) {
+          const list = mcuGpioByNet.get(net) ?? []
+          list.push({ componentId: component.componentId, gpio })
+          mcuGpioByNet.set(net, list)
+        }
+      }
+      if (!controller && net !== groundNet && isOneWirePin(terminal.moduleCell)) {
+        oneWirePins.push({ componentId: component.componentId, moduleType, net })
+      }
+      const role = busPinRole(moduleType, controller, terminal.moduleCell)
+      // A chip select strapped to ground is the only bus pin that means anything there.
+      if (!role || (net === groundNet && role !== 'CS')) return
+      endpoints.push({ componentId: component.componentId, moduleType, pin: String(terminal.moduleCell.pin), role, net, controller })
+    })
+  })
+
+  const byRole = (role: BusPinRole) => endpoints.filter((e) => e.role === role)
+  const endpointOf = (componentId: string, role: BusPinRole) =>
+    endpoints.find((e) => e.componentId === componentId && e.role === role)
+  const strip = ({ net: _net, ...endpoint }: NetEndpoint): BusEndpoint => endpoint
+  const moduleProps = (componentId: string) =>
+    components.find((c) => c.componentId === componentId)?.moduleDefinition.properties ?? {}
+  const links: BusLink[] = []
+
+  for (const tx of byRole('TX')) {
+    for (const rx of byRole('RX')) {
+      if (rx.net !== tx.net || rx.componentId === tx.componentId) continue
+      links.push({ kind: 'uart', id: `${tx.componentId}:${tx.pin}>${rx.componentId}:${rx.pin}`, tx: strip(tx), rx: strip(rx) })
+    }
+  }
+
+  const i2cBuses = new Map<string, I2cBus>()
+  for (const sda of byRole('SDA').filter((e) => e.controller)) {
+    const scl = endpointOf(sda.componentId, 'SCL')
+    if (!scl) continue
+    const key = `${sda.net}/${scl.net}`
+    const bus = i2cBuses.get(key) ?? { kind: 'i2c', id: `i2c:${key}`, controllers: [], devices: [] }
+    bus.controllers.push(sda.componentId)
+    i2cBuses.set(key, bus)
+  }
+  for (const sda of byRole('SDA').filter((e) => !e.controller)) {
+    const scl = endpointOf(sda.componentId, 'SCL')
+    const bus = scl && i2cBuses.get(`${sda.net}/${scl.net}`)
+    if (!bus) continue
+    const address = parseNumericProperty(moduleProps(sda.componentId).i2cAddress, NaN)
+    bus.devices.push({
+      componentId: sda.componentId,
+      moduleType: sda.moduleType,
+      address: Number.isFinite(address) ? address & 0x7f : null,
+    })
+  }
+  i2cBuses.forEach((bus) => {
+    if (bus.devices.length > 0 || bus.controllers.length > 1) links.push(bus)
+  })
+
+  for (const sck of byRole('SCK').filter((e) => e.controller)) {
+    const controllerMiso = endpointOf(sck.componentId, 'MISO')
+    const devices: SpiBusDevice[] = byRole('SCK')
+      .filter((e) => !e.controller && e.net === sck.net)
+      .map((device) => {
+        const cs = endpointOf(device.componentId, 'CS')
+        const miso = endpointOf(device.componentId, 'MISO')
+        const driver = cs && mcuGpioByNet.get(cs.net)?.find((g) => g.componentId === sck.componentId)
+        return {
+          componentId: device.componentId,
+          moduleType: device.moduleType,
+          cs: driver ? driver.gpio : cs && cs.net === groundNet ? 'low' : null,
+          miso: Boolean(miso && controllerMiso && miso.net === controllerMiso.net),
+        }
+      })
+    if (devices.length > 0) links.push({ kind: 'spi', id: `spi:${sck.componentId}`, controller: sck.componentId, devices })
+  }
+
+  const oneWireBuses = new Map<string, OneWireBus>()
+  for (const { net, ...device } of oneWirePins) {
+    for (const { componentId, gpio } of mcuGpioByNet.get(net) ?? []) {
+      const id = `onewire:${componentId}:${gpio}`
+      const bus = oneWireBuses.get(id) ?? { kind: 'onewire', id, controller: componentId, gpio, devices: [] }
+      bus.devices.push(device)
+      oneWireBuses.set(id, bus)
+    }
+  }
+  oneWireBuses.forEach((bus) => links.push(bus))
+
+  return links
+}
+
+/** Bus kinds a `commsProtocol` requirement (free text like "I2C", "UART / BLE") calls for. */
+export function busKindsForProtocol(commsProtocol: string | undefined): BusKind[] {
+  const text = (commsProtocol ?? '').toUpperCase()
+  const kinds: BusKind[] = []
+  if (/UART|SERIAL|RS-?232|RS-?485|USB|BLUETOOTH|\bBLE\b|\bBT\b/.test(text)) kinds.push('uart')
+  if (/I2C|I²C|IIC|TWI/.test(text)) kinds.push('i2c')
+  if (/SPI|LORA/.test(text)) kinds.push('spi')
+  if (/1-?WIRE|ONE-?WIRE|DS18B20/.test(text)) kinds.push('onewire')
+  return kinds
+}
@@ -122,6 +122,9 @@ export function getComponentConductivity(
     case 'Capacitor':
     case 'Inductor':
     case 'Potentiometer':
+    case 'Thermistor':
+    case 'Photoresistor':
+    case 'Position Sensor':
       return pairBidirectional(byType('LEAD'))
 
     case 'LED': {
@@ -192,6 +195,10 @@ export function getComponentConductivity(
     case 'OpAmp':
       return []
 
+    case 'Temperature Sensor':
+    case 'PIR Motion Sensor':
+    case 'Distance Sensor':
+    case 'Accelerometer':
     case 'LogicGateIC': {
       const vcc = terminals.find(
         (t) => t.moduleCell.pin === 'VCC' || t.moduleCell.type === 'DRIVER_PWR'
@@ -229,6 +236,9 @@ const BIDIRECTIONAL_MODULES = new Set([
   'Capacitor',
   'Inductor',
   'Potentiometer',
+  'Thermistor',
+  'Photoresistor',
+  'Position Sensor',
   'ACSource',
   'Switch',
   'Push Button',
@@ -292,6 +302,7 @@ export function getPlacedComponents(gridData: GridCellLike[][]): PlacedComponent
           baseY: y,
           moduleDefinition: cell.moduleDefinition,
           resistance: cell.resistance,
+          inductance: cell.inductance,
         })
       } else {
         if ((cell.cellIndex ?? 0) === 0) {
@@ -300,6 +311,7 @@ export function getPlacedComponents(gridData: GridCellLike[][]): PlacedComponent
         }
         if (cell.resistance !== undefined) existing.resistance = cell.resistance
         if (cell.capacitance !== undefined) existing.capacitance = cell.capacitance
+        if (cell.inductance !== undefined) existing.inductance = cell.inductance
       }
     })
   })
@@ -396,4 +408,27 @@ export function gpioOutputVoltage(
   return { voltage: 0, active: false }
 }
 
+/**
+ * Internal pull-up on an input pin. Sources report `pinMode(pin, INPUT_PULLUP)`
+ * as an INPUT state with value 1 (the AVR's PORTx bit on an input).
+ */
+export function gpioInputPullup(
+  moduleType: string,
+  gpioState: any
+): { voltage: number; resistance: number } | null {
+  if (gpioState?.state !== 'INPUT' || gpioState.value !== 1) return null
+  return moduleType.includes('ESP32')
+    ? { voltage: 3.3, resistance: 45_000 }
+    : { voltage: 5.0, resistance: 35_000 }
+}
+
+/**
+ * Highest voltage an MCU's I/O (and, on 3.3 V parts, supply) pins take: VDD + 0.3 V.
+ * The ESP32 isn't 5 V tolerant, so a 5 V signal on its pins is an error.
+ */
+export function mcuPinVoltageLimit(moduleDefinition: { module?: string; properties?: Record<string, unknown> }): number {
+  const moduleType = moduleDefinition.module ?? ''
+  return parseNumericProperty(moduleDefinition.properties?.maxPinVoltage, moduleType.includes('ESP32') ? 3.6 : 5.5)
+}
+
 export { isPositiveTerminal, isGroundReference, parseNumericProperty }
@@ -4,6 +4,7 @@ import { getComponentConductivity } from './components/registry'
 import type { CircuitGraph, GraphTerminal, GridCellLike, InternalEdge, SourceChain } from './types'
 import { classifyTerminalPolarity, isConnectable, isGroundReference } from './terminals'
 import { parseNumericProperty, posKey } from './utils'
+import { GROUND_NET_LABEL, netLabelGroups } from './netLabels'
 
 function collectComponentTerminals(
   gridData: GridCellLike[][],
@@ -56,6 +57,12 @@ export function buildCircuitGraph(
     })
   })
 
+  // Cells sharing a net label are joined as if wired to the first of them.
+  const labelGroups = netLabelGroups(gridData)
+  labelGroups.forEach(([first, ...rest]) => {
+    rest.forEach((cell) => linkWire(first.x, first.y, cell.x, cell.y))
+  })
+
   gridData.forEach((row, y) => {
     if (!row) return
     row.forEach((cell, x) => {
@@ -86,6 +93,14 @@ export function buildCircuitGraph(
     })
   })
 
+  // A GND flag is on the ground net, as buildNets has it: joined to every ground-reference pin.
+  const groundFlag = labelGroups.get(GROUND_NET_LABEL)?.[0]
+  if (groundFlag) {
+    terminals.forEach((terminal) => {
+      if (isGroundReference(terminal.moduleCell)) linkWire(groundFlag.x, groundFlag.y, terminal.x, terminal.y)
+    })
+  }
+
   return { terminals, wireAdj, internalEdges }
 }
 
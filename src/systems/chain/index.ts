@@ -7,6 +7,18 @@
 
 export { solveCircuit } from './solver/engine'
 export type { CircuitSolveResult, SolvedComponentState, GridCellLike } from './solver/engine'
+export { solveTransient } from './solver/transient'
+export type {
+  TransientMethod,
+  TransientOptions,
+  TransientSolveResult,
+  TransientState,
+  ComponentWaveform,
+} from './solver/transient'
+export { solveAcSweep } from './solver/ac'
+export type { AcSweepOptions, AcSweepResult, AcNetResponse } from './solver/ac'
+export type { NewtonReport, ShockleyParams } from './solver/junction'
+export type { BjtParams, MosfetParams, TransistorRegion } from './solver/transistor'
 
 export {
   buildCircuitGraph,
@@ -21,6 +33,12 @@ export { buildNodeVoltages, propagateVoltages } from './propagate'
 export { applyGpioComponentStates, applyGpioWireHints, applyGpioVoltagePropagation } from './gpioDisplay'
 export { applyEscMotorDisplay } from './driverMotorDisplay'
 export { buildNets, isNetGrounded } from './nets'
+export { flattenSubcircuits } from './subcircuits'
+export type { FlattenedCircuit } from './subcircuits'
+export { readMcuPinVoltages } from './mcuInputs'
+export type { McuPinVoltages } from './mcuInputs'
+export { busKindsForProtocol, findBusLinks } from './buses'
+export type { BusKind, BusLink, BusEndpoint, I2cBus, OneWireBus, SpiBus, UartLink } from './buses'
 
 export {
   classifyTerminalPolarity,
@@ -0,0 +1,33 @@
+import { getPlacedComponents, getTerminals, gpioPinNumber, isMicrocontrollerModule } from './components/registry'
+import type { GridCellLike } from './types'
+import { posKey } from './utils'
+
+export interface McuPinVoltages {
+  moduleType: string
+  /** Solved volts per GPIO/analog pin, keyed like the GPIO map (D<n> → n, A<n> → 100 + n). */
+  pins: Map<number, number>
+}
+
+/**
+ * Read the solved voltage on every GPIO and analog pin of each microcontroller
+ * on the sheet, so running sketches can see them as inputs.
+ */
+export function readMcuPinVoltages(
+  gridData: GridCellLike[][],
+  nodeVoltages: Map<string, number>
+): Map<string, McuPinVoltages> {
+  const readings = new Map<string, McuPinVoltages>()
+  getPlacedComponents(gridData).forEach((component) => {
+    if (!isMicrocontrollerModule(component.moduleDefinition)) return
+    const pins = new Map<number, number>()
+    getTerminals(component).forEach((terminal) => {
+      const moduleCell = terminal.moduleCell
+      if (moduleCell.type !== 'GPIO' && moduleCell.type !== 'ANALOG') return
+      const pin = gpioPinNumber(moduleCell)
+      const volts = nodeVoltages.get(posKey(terminal.x, terminal.y))
+      if (pin !== null && volts !== undefined) pins.set(pin, volts)
+    })
+    readings.set(component.componentId, { moduleType: component.moduleDefinition.module ?? '', pins })
+  })
+  return readings
+}
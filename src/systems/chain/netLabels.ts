@@ -0,0 +1,22 @@
+import type { GridCellLike } from './types'
+
+/** Net name that joins the global ground, like a GND pin does. */
+export const GROUND_NET_LABEL = 'GND'
+
+/**
+ * Cells carrying each net label name (see GridCellLike.netLabel). Every cell of
+ * a group is one net; a label only reaches a wire end or pin on its own cell.
+ */
+export function netLabelGroups(gridData: GridCellLike[][]): Map<string, Array<{ x: number; y: number }>> {
+  const groups = new Map<string, Array<{ x: number; y: number }>>()
+  gridData.forEach((row, y) => {
+    row?.forEach((cell, x) => {
+      const name = cell?.netLabel?.trim()
+      if (!name) return
+      const cells = groups.get(name)
+      if (cells) cells.push({ x, y })
+      else groups.set(name, [{ x, y }])
+    })
+  })
+  return groups
+}
@@ -3,6 +3,8 @@ import { canTraverse, validateSourceChains } from './graph'
 import { getPlacedComponents, getTerminals, isGroundReference, isPositiveTerminal } from './components/registry'
 import type { GridCellLike, PlacedComponent } from './types'
 import { UnionFind, posKey } from './utils'
+import { flattenSubcircuits } from './subcircuits'
+import { GROUND_NET_LABEL, netLabelGroups } from './netLabels'
 
 export interface Netlist {
   nodeCount: number
@@ -12,10 +14,12 @@ export interface Netlist {
   errors: string[]
 }
 
+/** Nets of the sheet with sub-circuit blocks expanded (see flattenSubcircuits). */
 export function buildNets(
-  gridData: GridCellLike[][],
-  wires: WireConnection[]
+  sheetGrid: GridCellLike[][],
+  sheetWires: WireConnection[]
 ): Netlist {
+  const { gridData, wires } = flattenSubcircuits(sheetGrid, sheetWires)
   const components = getPlacedComponents(gridData)
   const posIndex = new Map<string, number>()
   const positions: Array<{ x: number; y: number }> = []
@@ -64,6 +68,12 @@ export function buildNets(
     })
   })
 
+  netLabelGroups(gridData).forEach((cells, name) => {
+    const indices = cells.map((cell) => ensurePos(cell.x, cell.y))
+    indices.forEach((idx) => uf.union(indices[0], idx))
+    if (name === GROUND_NET_LABEL) groundIndices.push(indices[0])
+  })
+
   groundIndices.forEach((gnd) => {
     groundIndices.forEach((other) => uf.union(gnd, other))
   })
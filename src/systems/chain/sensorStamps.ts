@@ -0,0 +1,202 @@
+import { isSensorModule } from '../../modules/sensors/logic'
+import { sensorStimuli } from '../../modules/sensors/stimulus'
+import { parseNumericProperty, posKey } from './utils'
+import type { GridCellLike, PlacedComponent } from './types'
+
+type ResistorStamp = {
+  netA: number
+  netB: number
+  resistance: number
+  componentId: string
+}
+
+/** A driven output: `voltage` above `netRef` behind `resistance`, fed from its own rail node. */
+export interface SensorOutputStamp {
+  netOut: number
+  netRef: number
+  voltage: number
+  resistance: number
+  componentId: string
+}
+
+type TerminalLike = {
+  x: number
+  y: number
+  moduleCell: {
+    type?: string
+    pin?: string
+  }
+}
+
+/** Idle loads are sized for the datasheet supply current at a nominal 5 V. */
+const NOMINAL_SUPPLY_V = 5
+/** ADXL335 full scale before the outputs clip (±3.6 g typical). */
+const ADXL335_CLIP_G = 3.6
+/** Sharp GP2Y0A21 fit: distance (cm) = 27.728 · V^−1.2045 over 10–80 cm. */
+const GP2Y0A21_SCALE = 27.728
+const GP2Y0A21_EXPONENT = 1.2045
+const KELVIN = 273.15
+
+/**
+ * Stimulus values for a placed sensor: what the Controls panel set on any of
+ * its cells, over the defaults from `SENSOR_STIMULI`.
+ */
+export function readSensorInputs(
+  gridData: GridCellLike[][],
+  componentId: string,
+  moduleType: string
+): Record<string, number> {
+  const inputs: Record<string, number> = {}
+  sensorStimuli(moduleType).forEach((stimulus) => {
+    inputs[stimulus.key] = stimulus.default
+  })
+  gridData.forEach((row) => {
+    row?.forEach((cell) => {
+      if (cell?.componentId !== componentId || !cell.sensorInputs) return
+      Object.entries(cell.sensorInputs).forEach(([key, value]) => {
+        if (typeof value === 'number' && Number.isFinite(value)) inputs[key] = value
+      })
+    })
+  })
+  return inputs
+}
+
+/** NTC resistance from the β equation: R = R25 · e^(β(1/T − 1/298.15)). */
+export function thermistorResistance(r25: number, beta: number, celsius: number): number {
+  const kelvin = Math.max(celsius + KELVIN, 1)
+  return r25 * Math.exp(beta * (1 / kelvin - 1 / (25 + KELVIN)))
+}
+
+/** CdS cell: R = R10 · (lux / 10)^−γ, never above the dark resistance. */
+export function photoresistorResistance(r10Lux: number, gamma: number, darkResistance: number, lux: number): number {
+  if (lux <= 0) return darkResistance
+  return Math.min(darkResistance, r10Lux * Math.pow(lux / 10, -gamma))
+}
+
+/** GP2Y0A21 output volts at a distance, held to its 10–80 cm range. */
+export function irDistanceVolts(cm: number): number {
+  const d = Math.max(10, Math.min(80, cm))
+  return Math.pow(GP2Y0A21_SCALE / d, 1 / GP2Y0A21_EXPONENT)
+}
+
+/** ADXL335 output as a fraction of the supply: Vs/2 at 0 g, 0.1·Vs per g. */
+export function accelerometerRatio(g: number): number {
+  const clipped = Math.max(-ADXL335_CLIP_G, Math.min(ADXL335_CLIP_G, g))
+  return 0.5 + 0.1 * clipped
+}
+
+function findTerminal(terminals: TerminalLike[], pred: (t: TerminalLike) => boolean): TerminalLike | undefined {
+  return terminals.find(pred)
+}
+
+/**
+ * Resistive stamps for sensor anchors. Thermistor, LDR and position sensor are
+ * plain resistances set by the stimulus; module sensors draw an idle load and
+ * drive their outputs (PIR and IR distance from their own output stage,
+ * ADXL335 axes as ratiometric dividers off VCC). Output and 1-Wire DQ pins get
+ * a bleed so they never leave the matrix floating.
+ */
+export function collectSensorStamps(
+  moduleType: string,
+  component: PlacedComponent,
+  terminals: TerminalLike[],
+  posToNet: Map<string, number>,
+  groundNet: number,
+  gridData: GridCellLike[][]
+): { resistors: ResistorStamp[]; outputs: SensorOutputStamp[] } {
+  const resistors: ResistorStamp[] = []
+  const outputs: SensorOutputStamp[] = []
+  if (!isSensorModule(moduleType)) return { resistors, outputs }
+
+  const id = component.componentId
+  const props = component.moduleDefinition.properties ?? {}
+  const inputs = readSensorInputs(gridData, id, moduleType)
+  const netOf = (t: TerminalLike | undefined) => (t ? posToNet.get(posKey(t.x, t.y)) : undefined)
+  const push = (netA: number | undefined, netB: number | undefined, resistance: number, componentId: string) => {
+    if (netA === undefined || netB === undefined || netA === netB) return
+    resistors.push({ netA, netB, resistance, componentId })
+  }
+
+  const leads = terminals.filter((t) => t.moduleCell.type === 'LEAD')
+  if (moduleType === 'Thermistor' && leads.length >= 2) {
+    const r = thermistorResistance(
+      parseNumericProperty(props.resistance25, 10000),
+      parseNumericProperty(props.beta, 3950),
+      inputs.temperature
+    )
+    push(netOf(leads[0]), netOf(leads[1]), r, id)
+    return { resistors, outputs }
+  }
+  if (moduleType === 'Photoresistor' && leads.length >= 2) {
+    const r = photoresistorResistance(
+      parseNumericProperty(props.resistance10Lux, 10000),
+      parseNumericProperty(props.gamma, 0.7),
+      parseNumericProperty(props.darkResistance, 1e6),
+      inputs.illuminance
+    )
+    push(netOf(leads[0]), netOf(leads[1]), r, id)
+    return { resistors, outputs }
+  }
+  if (moduleType === 'Position Sensor') {
+    const a = findTerminal(terminals, (t) => t.moduleCell.pin === 'A')
+    const w = findTerminal(terminals, (t) => t.moduleCell.pin === 'W')
+    const b = findTerminal(terminals, (t) => t.moduleCell.pin === 'B')
+    const total = parseNumericProperty(props.resistance, 10000)
+    const ratio = Math.max(0.001, Math.min(0.999, inputs.position / 100))
+    push(netOf(a), netOf(w), total * ratio, id)
+    push(netOf(w), netOf(b), total * (1 - ratio), id)
+    return { resistors, outputs }
+  }
+
+  const netVcc = netOf(findTerminal(terminals, (t) => t.moduleCell.type === 'VCC' || t.moduleCell.pin === 'VCC'))
+  const netGnd = netOf(findTerminal(terminals, (t) => t.moduleCell.type === 'GND' || t.moduleCell.pin === 'GND'))
+  const powered = netVcc !== undefined && netGnd !== undefined && netVcc !== netGnd
+  if (powered) {
+    const idleCurrent = Math.max(parseNumericProperty(props.idleCurrent, 0.001), 1e-6)
+    push(netVcc, netGnd, NOMINAL_SUPPLY_V / idleCurrent, `${id}_idle`)
+  }
+
+  const signals = terminals.filter((t) => t.moduleCell.type === 'SIGNAL')
+  signals.forEach((terminal) => {
+    const net = netOf(terminal)
+    if (net !== undefined && net !== groundNet) push(net, groundNet, 1e9, `${id}_${terminal.moduleCell.pin}_bleed`)
+  })
+  if (!powered) return { resistors, outputs }
+
+  if (moduleType === 'PIR Motion Sensor') {
+    const out = netOf(findTerminal(signals, (t) => t.moduleCell.pin === 'OUT'))
+    if (out === undefined) return { resistors, outputs }
+    const resistance = parseNumericProperty(props.outputResistance, 100)
+    if (inputs.motion >= 0.5) {
+      outputs.push({ netOut: out, netRef: netGnd, voltage: parseNumericProperty(props.outputHigh, 3.3), resistance, componentId: `${id}_out` })
+    } else {
+      push(out, netGnd, resistance, `${id}_out`)
+    }
+  }
+
+  if (moduleType === 'Distance Sensor') {
+    const out = netOf(findTerminal(signals, (t) => t.moduleCell.pin === 'VOUT'))
+    if (out !== undefined) {
+      outputs.push({
+        netOut: out,
+        netRef: netGnd,
+        voltage: irDistanceVolts(inputs.distance),
+        resistance: parseNumericProperty(props.outputResistance, 500),
+        componentId: `${id}_out`,
+      })
+    }
+  }
+
+  if (moduleType === 'Accelerometer') {
+    const rOut = parseNumericProperty(props.outputResistance, 32000)
+    ;(['x', 'y', 'z'] as const).forEach((axis) => {
+      const out = netOf(findTerminal(signals, (t) => t.moduleCell.pin === axis.toUpperCase()))
+      if (out === undefined) return
+      const ratio = accelerometerRatio(inputs[axis])
+      push(netVcc, out, rOut / ratio, `${id}_${axis}`)
+      push(out, netGnd, rOut / (1 - ratio), `${id}_${axis}`)
+    })
+  }
+
+  return { resistors, outputs }
+}
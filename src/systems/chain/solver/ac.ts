@@ -0,0 +1,463 @@
+/**
+ * AC small-signal analysis: linearize the MNA stamps around the DC operating
+ * point and sweep a unit phasor from one source across frequency.
+ *
+ * Linearization: resistors keep their conductance, capacitors become jωC,
+ * inductors R + jωL, conducting junctions/switches their on-resistance
+ * (Shockley junctions their small-signal dI/dV, modelled transistors their
+ * hybrid-π transconductances) and op-amps in their linear region a VCVS with
+ * the open-loop gain. Every other source (supplies, regulators, rails,
+ * clipped op-amp outputs) is an AC short.
+ */
+
+import type { WireConnection } from '../../../modules/types'
+import { buildRegulatorSources } from '../regulatorStamps'
+import { buildLogicGateStamps, updateLogicGateStates } from '../logicGateStamps'
+import { getTerminals, isGroundReference } from '../components/registry'
+import type { GridCellLike } from '../types'
+import { flattenSubcircuits } from '../subcircuits'
+import {
+  buildStampNetlist,
+  driverChannelResistors,
+  linearizeTransistor,
+  solveMNA,
+  transistorControls,
+  updateDeviceStates,
+  type DeviceStates,
+  type DiodeStamp,
+  type LedStamp,
+  type ResistorStamp,
+  type TransconductanceStamp,
+  type VoltageSourceStamp,
+  type ZenerStamp,
+} from './engine'
+import { JUNCTION_GMIN, junctionCurrent } from './junction'
+
+export interface AcSweepOptions {
+  /** First frequency in Hz. */
+  startFrequency: number
+  /** Last frequency in Hz. */
+  stopFrequency: number
+  /** Logarithmic resolution (default 20 points per decade). */
+  pointsPerDecade?: number
+  /** Component id of the source that carries the 1 V AC stimulus (default: first AC source, else first supply). */
+  inputSourceId?: string
+}
+
+export interface AcNetResponse {
+  /** |V(net)| per frequency for a 1 V input — equal to the transfer-function gain. */
+  magnitude: number[]
+  magnitudeDb: number[]
+  phaseDeg: number[]
+}
+
+export interface AcSweepResult {
+  works: boolean
+  reason?: string
+  errors: string[]
+  frequencies: number[]
+  inputSourceId?: string
+  /** Every source that can carry the stimulus, in stamp order. */
+  sourceIds: string[]
+  /** Small-signal response of every net, indexed like `frequencies`. */
+  netResponses: Map<number, AcNetResponse>
+  posToNet: Map<string, number>
+  groundNet: number
+}
+
+interface Complex {
+  re: number
+  im: number
+}
+
+/** Admittance between two nets; stamped symmetrically. */
+interface AdmittanceStamp {
+  netA: number
+  netB: number
+  admittance: (omega: number) => Complex
+}
+
+/** Vpos − Vneg − gain·(Vctrl+ − Vctrl−) = value; plain sources have no control nets. */
+interface BranchStamp {
+  netPos: number
+  netNeg: number
+  dcValue: number
+  acValue: number
+  control?: { netPos: number; netNeg: number; gain: number }
+}
+
+const MAX_AC_POINTS = 2000
+const OPAMP_RAIL_MARGIN = 0.01
+/** Conductance from every node to ground so floating islands (cap-coupled, off devices) stay solvable. */
+const GMIN = 1e-12
+
+/** Gaussian elimination with partial pivoting on split real/imaginary parts. */
+function solveComplexSystem(re: number[][], im: number[][], rhsRe: number[], rhsIm: number[]): Complex[] | null {
+  const n = re.length
+  const aRe = re.map((row, i) => [...row, rhsRe[i]])
+  const aIm = im.map((row, i) => [...row, rhsIm[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col
+    let pivotMag = Math.hypot(aRe[col][col], aIm[col][col])
+    for (let row = col + 1; row < n; row++) {
+      const mag = Math.hypot(aRe[row][col], aIm[row][col])
+      if (mag > pivotMag) {
+        pivotMag = mag
+        pivotRow = row
+      }
+    }
+    if (pivotMag < 1e-15) return null
+    if (pivotRow !== col) {
+      ;[aRe[col], aRe[pivotRow]] = [aRe[pivotRow], aRe[col]]
+      ;[aIm[col], aIm[pivotRow]] = [aIm[pivotRow], aIm[col]]
+    }
+
+    const pRe = aRe[col][col]
+    const pIm = aIm[col][col]
+    const denom = pRe * pRe + pIm * pIm
+    for (let j = col; j <= n; j++) {
+      const xRe = aRe[col][j]
+      const xIm = aIm[col][j]
+      aRe[col][j] = (xRe * pRe + xIm * pIm) / denom
+      aIm[col][j] = (xIm * pRe - xRe * pIm) / denom
+    }
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue
+      const fRe = aRe[row][col]
+      const fIm = aIm[row][col]
+      if (Math.abs(fRe) < 1e-18 && Math.abs(fIm) < 1e-18) continue
+      for (let j = col; j <= n; j++) {
+        aRe[row][j] -= fRe * aRe[col][j] - fIm * aIm[col][j]
+        aIm[row][j] -= fRe * aIm[col][j] + fIm * aRe[col][j]
+      }
+    }
+  }
+
+  return aRe.map((row, i) => ({ re: row[n], im: aIm[i][n] }))
+}
+
+function sweepFrequencies(start: number, stop: number, pointsPerDecade: number): number[] {
+  const decades = Math.log10(stop / start)
+  const count = Math.max(2, Math.round(decades * pointsPerDecade) + 1)
+  return Array.from({ length: count }, (_, i) => start * Math.pow(10, (decades * i) / (count - 1)))
+}
+
+export function solveAcSweep(
+  gridData: GridCellLike[][],
+  wires: WireConnection[],
+  options: AcSweepOptions,
+  gpioStates?: Map<number, any>
+): AcSweepResult {
+  // Sub-circuit blocks are expanded first; their internals report under `<instance>/<inner>` ids
+  const flat = flattenSubcircuits(gridData, wires)
+  gridData = flat.gridData
+  wires = flat.wires
+  const netlist = buildStampNetlist(gridData, wires, gpioStates)
+  const { nodeCount, groundNet, posToNet, components, errors, voltageSources, regulators } = netlist
+
+  const sourceIds = [...new Set(voltageSources.map((s) => s.componentId))]
+
+  const emptyResult = (reason: string): AcSweepResult => ({
+    works: false,
+    reason,
+    errors,
+    frequencies: [],
+    sourceIds,
+    netResponses: new Map(),
+    posToNet,
+    groundNet,
+  })
+
+  const { startFrequency, stopFrequency } = options
+  if (!(startFrequency > 0) || !(stopFrequency > startFrequency)) {
+    return emptyResult('AC sweep needs 0 < start frequency < stop frequency')
+  }
+  const frequencies = sweepFrequencies(startFrequency, stopFrequency, options.pointsPerDecade ?? 20)
+  if (frequencies.length > MAX_AC_POINTS) {
+    return emptyResult(`AC sweep would take ${frequencies.length} points (limit ${MAX_AC_POINTS})`)
+  }
+  if (nodeCount === 0) return emptyResult('No electrical nodes in circuit')
+  if (voltageSources.length === 0) return emptyResult('No voltage source found in circuit')
+  const hasGround = components.some((c) => getTerminals(c).some((t) => isGroundReference(t.moduleCell)))
+  if (!hasGround) return emptyResult('No ground reference found in circuit')
+
+  const inputIndex = options.inputSourceId
+    ? voltageSources.findIndex((s) => s.componentId === options.inputSourceId)
+    : Math.max(0, voltageSources.findIndex((s) => s.ac !== undefined))
+  if (inputIndex < 0) return emptyResult(`Input source ${options.inputSourceId} not found`)
+  const inputSourceId = voltageSources[inputIndex].componentId
+
+  // DC operating point: capacitors open, inductors reduced to their DCR and AC
+  // sources at their 0 V mean rather than the peak the plain DC solve stamps.
+  const dcSources = voltageSources.map((s) => (s.ac ? { ...s, voltage: 0 } : s))
+  const inductorIds = new Set(netlist.inductors.map((l) => l.componentId))
+  const resistors = netlist.resistors.filter((r) => !inductorIds.has(r.componentId))
+  const dcResistors = netlist.resistors
+  let devices: DeviceStates = {
+    leds: netlist.leds.map((led) => ({ ...led })),
+    diodes: netlist.diodes.map((d) => ({ ...d })),
+    zeners: netlist.zeners.map((z) => ({ ...z })),
+    npns: netlist.npns.map((t) => ({ ...t })),
+    mosfets: netlist.mosfets.map((t) => ({ ...t })),
+    opAmps: netlist.opAmps.map((op) => ({ ...op })),
+    drivers: netlist.driverChannels.map((d) => ({ ...d })),
+  }
+  let logicGateStates = netlist.logicGateICs.map((ic) => ({ ...ic, gates: ic.gates.map((g) => ({ ...g })) }))
+  let voltages: number[] | undefined
+  let regulatorSources: VoltageSourceStamp[] = []
+  let logicGateResistors: ResistorStamp[] = []
+  let regulatorResistors: ResistorStamp[] = []
+
+  for (let iteration = 0; iteration < 12; iteration++) {
+    const regulatorUpdate = buildRegulatorSources(regulators, voltages, dcSources, gridData, posToNet, dcResistors)
+    regulatorSources = regulatorUpdate.voltageSources
+    regulatorResistors = regulatorUpdate.resistors
+    const logicGateUpdate = updateLogicGateStates(logicGateStates, voltages)
+    logicGateStates = logicGateUpdate.states
+    logicGateResistors = buildLogicGateStamps(logicGateStates, voltages).resistors
+
+    const solution = solveMNA(
+      nodeCount,
+      groundNet,
+      [...dcResistors, ...driverChannelResistors(devices.drivers, voltages ?? []), ...regulatorResistors, ...logicGateResistors],
+      [...dcSources, ...regulatorUpdate.voltageSources],
+      devices.leds,
+      devices.diodes,
+      devices.zeners,
+      [],
+      devices.npns,
+      devices.mosfets,
+      devices.opAmps
+    )
+    if (!solution) return emptyResult('DC operating point could not be solved (singular matrix)')
+    voltages = solution.voltages
+    const update = updateDeviceStates(devices, solution.voltages)
+    if (!update.changed && !logicGateUpdate.changed) break
+    devices = update.states
+  }
+  const opVoltages = voltages ?? []
+
+  const conductance = (resistance: number) => {
+    const g = 1 / Math.max(resistance, 1e-9)
+    return () => ({ re: g, im: 0 })
+  }
+  const admittances: AdmittanceStamp[] = []
+  const addResistor = (netA: number, netB: number, resistance: number) => {
+    if (netA !== netB) admittances.push({ netA, netB, admittance: conductance(resistance) })
+  }
+
+  ;[
+    ...resistors,
+    ...driverChannelResistors(devices.drivers, opVoltages),
+    ...regulatorResistors,
+    ...logicGateResistors,
+  ].forEach((r) => addResistor(r.netA, r.netB, r.resistance))
+  netlist.capacitors.forEach((c) => {
+    if (c.netA === c.netB) return
+    admittances.push({ netA: c.netA, netB: c.netB, admittance: (omega) => ({ re: 0, im: omega * c.capacitance }) })
+  })
+  netlist.inductors.forEach((l) => {
+    if (l.netA === l.netB) return
+    admittances.push({
+      netA: l.netA,
+      netB: l.netB,
+      admittance: (omega) => {
+        const x = omega * l.inductance
+        const denom = l.dcResistance * l.dcResistance + x * x
+        return denom > 0 ? { re: l.dcResistance / denom, im: -x / denom } : { re: 1e9, im: 0 }
+      },
+    })
+  })
+  // Shockley junctions linearise to their small-signal conductance at the operating point.
+  const junctionResistance = (part: LedStamp | DiodeStamp | ZenerStamp) => {
+    const v = (opVoltages[part.netAnode] ?? 0) - (opVoltages[part.netCathode] ?? 0)
+    return 1 / Math.max(junctionCurrent(part.shockley!, v).conductance, JUNCTION_GMIN)
+  }
+  devices.leds.forEach((led) =>
+    addResistor(
+      led.netAnode,
+      led.netCathode,
+      led.shockley ? junctionResistance(led) : led.isOn ? led.seriesResistance : 1e9
+    )
+  )
+  devices.diodes.forEach((d) => {
+    if (d.shockley) addResistor(d.netAnode, d.netCathode, junctionResistance(d))
+    else if (d.isOn) addResistor(d.netAnode, d.netCathode, d.seriesResistance)
+  })
+  devices.zeners.forEach((z) => {
+    if (z.shockley) addResistor(z.netAnode, z.netCathode, junctionResistance(z))
+    else if (z.mode !== 'off') addResistor(z.netAnode, z.netCathode, z.seriesResistance)
+  })
+  devices.npns.filter((t) => t.isOn && !t.ebersMoll).forEach((t) => addResistor(t.netCollector, t.netEmitter, 0.5))
+  devices.mosfets
+    .filter((t) => t.isOn && !t.squareLaw)
+    .forEach((t) => addResistor(t.netDrain, t.netSource, Math.max(t.rdsOn, 1e-3)))
+
+  // Modelled transistors become their hybrid-π conductances (gm, gπ, gµ, gds) at the operating point.
+  const transconductances: TransconductanceStamp[] = []
+  ;[...devices.npns, ...devices.mosfets].forEach((t) =>
+    linearizeTransistor(t, transistorControls(t, opVoltages)).forEach((branch) =>
+      branch.partials.forEach((partial) =>
+        transconductances.push({
+          netFrom: branch.netFrom,
+          netTo: branch.netTo,
+          netCtrlPos: partial.netPos,
+          netCtrlNeg: partial.netNeg,
+          transconductance: partial.slope,
+        })
+      )
+    )
+  )
+
+  // Fixed sources: their DC value sets the operating point, only the input carries the AC stimulus.
+  const sourceBranches: BranchStamp[] = [
+    ...dcSources.map((s, idx) => ({
+      netPos: s.netPos,
+      netNeg: s.netNeg,
+      dcValue: s.voltage,
+      acValue: idx === inputIndex ? 1 : 0,
+    })),
+    ...regulatorSources.map((s) => ({ netPos: s.netPos, netNeg: s.netNeg, dcValue: s.voltage, acValue: 0 })),
+  ]
+
+  const nodeToUnknown = new Map<number, number>()
+  for (let net = 0; net < nodeCount; net++) {
+    if (net !== groundNet) nodeToUnknown.set(net, nodeToUnknown.size)
+  }
+  const nodeIndex = (net: number) => (net === groundNet ? -1 : nodeToUnknown.get(net)!)
+  const unknownNodeCount = nodeToUnknown.size
+  const netVoltage = (solution: Complex[], net: number): Complex => {
+    const idx = nodeIndex(net)
+    return idx >= 0 ? solution[idx] : { re: 0, im: 0 }
+  }
+
+  const solveAt = (omega: number, branches: BranchStamp[], useDc: boolean): Complex[] | null => {
+    const size = unknownNodeCount + branches.length
+    const re: number[][] = Array.from({ length: size }, () => Array(size).fill(0))
+    const im: number[][] = Array.from({ length: size }, () => Array(size).fill(0))
+    const rhsRe: number[] = Array(size).fill(0)
+    const rhsIm: number[] = Array(size).fill(0)
+    for (let i = 0; i < unknownNodeCount; i++) re[i][i] += GMIN
+
+    admittances.forEach((stamp) => {
+      const y = stamp.admittance(omega)
+      const i = nodeIndex(stamp.netA)
+      const j = nodeIndex(stamp.netB)
+      if (i >= 0) {
+        re[i][i] += y.re
+        im[i][i] += y.im
+      }
+      if (j >= 0) {
+        re[j][j] += y.re
+        im[j][j] += y.im
+      }
+      if (i >= 0 && j >= 0) {
+        re[i][j] -= y.re
+        im[i][j] -= y.im
+        re[j][i] -= y.re
+        im[j][i] -= y.im
+      }
+    })
+
+    transconductances.forEach((stamp) => {
+      const from = nodeIndex(stamp.netFrom)
+      const to = nodeIndex(stamp.netTo)
+      const cp = nodeIndex(stamp.netCtrlPos)
+      const cn = nodeIndex(stamp.netCtrlNeg)
+      if (from >= 0) {
+        if (cp >= 0) re[from][cp] += stamp.transconductance
+        if (cn >= 0) re[from][cn] -= stamp.transconductance
+      }
+      if (to >= 0) {
+        if (cp >= 0) re[to][cp] -= stamp.transconductance
+        if (cn >= 0) re[to][cn] += stamp.transconductance
+      }
+    })
+
+    branches.forEach((branch, idx) => {
+      const col = unknownNodeCount + idx
+      const pos = nodeIndex(branch.netPos)
+      const neg = nodeIndex(branch.netNeg)
+      if (pos >= 0) {
+        re[pos][col] += 1
+        re[col][pos] += 1
+      }
+      if (neg >= 0) {
+        re[neg][col] -= 1
+        re[col][neg] -= 1
+      }
+      if (branch.control) {
+        const cp = nodeIndex(branch.control.netPos)
+        const cn = nodeIndex(branch.control.netNeg)
+        if (cp >= 0) re[col][cp] -= branch.control.gain
+        if (cn >= 0) re[col][cn] += branch.control.gain
+      }
+      rhsRe[col] = useDc ? branch.dcValue : branch.acValue
+    })
+
+    return solveComplexSystem(re, im, rhsRe, rhsIm)
+  }
+
+  // The DC loop above only clamps op-amps, so their region is resolved here with a
+  // VCVS operating point: a linear op-amp whose output would leave the rails is pinned there.
+  const clippedOutputs = new Map<number, number>()
+  const opAmpBranches = (): BranchStamp[] =>
+    devices.opAmps.map((op, idx) => {
+      const clipped = clippedOutputs.get(idx)
+      const vee = opVoltages[op.netVee] ?? 0
+      return {
+        netPos: op.netOut,
+        netNeg: op.netVee,
+        dcValue: clipped !== undefined ? clipped - vee : 0,
+        acValue: 0,
+        control: clipped !== undefined ? undefined : { netPos: op.netNonInv, netNeg: op.netInv, gain: op.gain },
+      }
+    })
+  for (let pass = 0; pass <= devices.opAmps.length; pass++) {
+    const dc = solveAt(0, [...sourceBranches, ...opAmpBranches()], true)
+    if (!dc) return emptyResult('Small-signal operating point could not be solved (singular matrix)')
+    let changed = false
+    devices.opAmps.forEach((op, idx) => {
+      if (clippedOutputs.has(idx)) return
+      const vee = opVoltages[op.netVee] ?? 0
+      const vout = netVoltage(dc, op.netOut).re
+      if (vout < vee - OPAMP_RAIL_MARGIN || vout > op.vcc + OPAMP_RAIL_MARGIN) {
+        clippedOutputs.set(idx, Math.max(vee, Math.min(op.vcc, vout)))
+        changed = true
+      }
+    })
+    if (!changed) break
+  }
+  const branches = [...sourceBranches, ...opAmpBranches()]
+
+  const netResponses = new Map<number, AcNetResponse>()
+  for (let net = 0; net < nodeCount; net++) netResponses.set(net, { magnitude: [], magnitudeDb: [], phaseDeg: [] })
+
+  for (const frequency of frequencies) {
+    const solution = solveAt(2 * Math.PI * frequency, branches, false)
+    if (!solution) {
+      return emptyResult(`Small-signal matrix is singular at ${frequency.toPrecision(4)} Hz`)
+    }
+
+    netResponses.forEach((response, net) => {
+      const v = netVoltage(solution, net)
+      const magnitude = Math.hypot(v.re, v.im)
+      response.magnitude.push(magnitude)
+      response.magnitudeDb.push(20 * Math.log10(Math.max(magnitude, 1e-12)))
+      response.phaseDeg.push((Math.atan2(v.im, v.re) * 180) / Math.PI)
+    })
+  }
+
+  return {
+    works: true,
+    errors,
+    frequencies,
+    inputSourceId,
+    sourceIds,
+    netResponses,
+    posToNet,
+    groundNet,
+  }
+}
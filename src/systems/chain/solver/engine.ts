@@ -7,6 +7,7 @@ import { WireConnection } from '../../../modules/types'
 import { resolveLogicModule } from '../../../modules/logicModule'
 import { isDriverModule } from '../../../modules/drivers/logic'
 import { isWirelessModule } from '../../../modules/wireless/logic'
+import { isSensorModule } from '../../../modules/sensors/logic'
 import {
   collectDriverStamps,
   driverChannelShouldBeOn,
@@ -14,6 +15,7 @@ import {
   type DriverChannelStamp,
 } from '../components/driverStamps'
 import { collectWirelessStamps, isWirelessFloatingPin } from '../wirelessStamps'
+import { collectSensorStamps } from '../sensorStamps'
 import {
   collectChargerProtectionStamps,
   collectLiIonPackStamps,
@@ -36,6 +38,7 @@ import {
   getPlacedComponents,
   getTerminals,
   getWiperRatio,
+  gpioInputPullup,
   gpioOutputVoltage,
   gpioPinNumber,
   gridCellAt,
@@ -45,6 +48,7 @@ import {
   isMcuPowerInput,
   isPositiveTerminal,
   isSwitchClosedOnGrid,
+  mcuPinVoltageLimit,
   parseNumericProperty,
 } from '../components/registry'
 import type { ChainSolveResult, GridCellLike, PlacedComponent, SolvedComponentState, TerminalInfo } from '../types'
@@ -52,6 +56,8 @@ import { posKey, UnionFind } from '../utils'
 import { isConnectable, isGroundTerminal } from '../terminals'
 import { propagateVoltages } from '../propagate'
 import { isNetGrounded } from '../nets'
+import { flattenSubcircuits } from '../subcircuits'
+import { GROUND_NET_LABEL, netLabelGroups } from '../netLabels'
 import {
   bridgeRectifierOutputVdc,
   findAcVrmsForBridge,
@@ -62,33 +68,80 @@ import {
   resolveBoostDuty,
   type BoostConverterStamp,
 } from '../boostConverterStamps'
+import { readACSourceSettings, type ACSourceSettings } from '../../../utils/acSourceVisual'
+import {
+  JUNCTION_GMIN,
+  JUNCTION_ON_CURRENT,
+  MAX_NEWTON_ITERATIONS,
+  NEWTON_VOLTAGE_TOLERANCE,
+  initialJunctionVoltage,
+  junctionCurrent,
+  limitJunctionStep,
+  readShockleyParams,
+  type NewtonReport,
+  type ShockleyParams,
+} from './junction'
+import {
+  bjtJunction,
+  bjtOperatingPoint,
+  bjtRegion,
+  limitMosfetStep,
+  mosfetOperatingPoint,
+  mosfetRegion,
+  readBjtParams,
+  readMosfetParams,
+  type BjtParams,
+  type MosfetParams,
+  type TransistorRegion,
+} from './transistor'
 
 export type { SolvedComponentState, GridCellLike, PlacedComponent, TerminalInfo }
 export type CircuitSolveResult = ChainSolveResult
 
-interface ResistorStamp {
+export interface ResistorStamp {
   netA: number
   netB: number
   resistance: number
   componentId: string
 }
 
-interface InductorStamp {
+export interface InductorStamp {
   netA: number
   netB: number
+  inductance: number
+  dcResistance: number
   componentId: string
 }
 
-interface VoltageSourceStamp {
+export interface VoltageSourceStamp {
   netPos: number
   netNeg: number
   voltage: number
   componentId: string
   cellIndex?: number
   pwm?: number
+  /** AC source waveform; the DC solve stamps its peak voltage. */
+  ac?: ACSourceSettings
+}
+
+/** Ideal current source: `current` amps flow out of `netFrom`, through the source, into `netTo`. */
+export interface CurrentSourceStamp {
+  netFrom: number
+  netTo: number
+  current: number
+  componentId: string
+}
+
+/** Current g·(V(ctrl+) − V(ctrl−)) flowing from netFrom to netTo (a VCCS). */
+export interface TransconductanceStamp {
+  netFrom: number
+  netTo: number
+  netCtrlPos: number
+  netCtrlNeg: number
+  transconductance: number
 }
 
-interface LedStamp {
+export interface LedStamp {
   netAnode: number
   netCathode: number
   forwardVoltage: number
@@ -100,18 +153,24 @@ interface LedStamp {
   moduleType?: 'LED' | 'RGBLED'
   /** True when the LED was wired backwards and auto-oriented so it still lights. */
   reversed?: boolean
+  /** Exponential model; when set the Vf/series-resistance pair is not stamped. */
+  shockley?: ShockleyParams
+  /** Last Newton iterate (anode − cathode), reused as the next starting guess. */
+  junctionVoltage?: number
 }
 
-interface DiodeStamp {
+export interface DiodeStamp {
   netAnode: number
   netCathode: number
   forwardVoltage: number
   seriesResistance: number
   componentId: string
   isOn: boolean
+  shockley?: ShockleyParams
+  junctionVoltage?: number
 }
 
-interface ZenerStamp {
+export interface ZenerStamp {
   netAnode: number
   netCathode: number
   forwardVoltage: number
@@ -119,9 +178,11 @@ interface ZenerStamp {
   seriesResistance: number
   componentId: string
   mode: 'off' | 'forward' | 'zener'
+  shockley?: ShockleyParams
+  junctionVoltage?: number
 }
 
-interface CapacitorStamp {
+export interface CapacitorStamp {
   netA: number
   netB: number
   capacitance: number
@@ -129,7 +190,7 @@ interface CapacitorStamp {
   componentId: string
 }
 
-interface NpnStamp {
+export interface NpnStamp {
   netBase: number
   netCollector: number
   netEmitter: number
@@ -138,9 +199,14 @@ interface NpnStamp {
   componentId: string
   isOn: boolean
   polarity: 'npn' | 'pnp'
+  /** Ebers-Moll model; when set the saturated-switch stamp is not used. */
+  ebersMoll?: BjtParams
+  /** Last Newton iterate of (Vbe, Vbc), or (Veb, Vcb) for PNP. */
+  controlVoltages?: [number, number]
+  region?: TransistorRegion
 }
 
-interface MosfetStamp {
+export interface MosfetStamp {
   netGate: number
   netDrain: number
   netSource: number
@@ -149,9 +215,14 @@ interface MosfetStamp {
   componentId: string
   isOn: boolean
   polarity: 'n' | 'p'
+  /** Square-law model; when set the rdsOn switch stamp is not used. */
+  squareLaw?: MosfetParams
+  /** Last Newton iterate of (Vgs, Vds), or (Vsg, Vsd) for PMOS. */
+  controlVoltages?: [number, number]
+  region?: TransistorRegion
 }
 
-interface OpAmpStamp {
+export interface OpAmpStamp {
   netNonInv: number
   netInv: number
   netOut: number
@@ -162,7 +233,7 @@ interface OpAmpStamp {
   outputVoltage: number
 }
 
-interface BridgeRectifierStamp {
+export interface BridgeRectifierStamp {
   netPlus: number
   netMinus: number
   vdc: number
@@ -170,6 +241,8 @@ interface BridgeRectifierStamp {
 }
 
 const CAP_CHARGE_DT = 0.05
+/** Current at which a diode's or zener's `forwardVoltage` is specified when deriving Is. */
+const JUNCTION_REFERENCE_CURRENT = 0.01
 const CAP_CHARGE_STEPS = 12
 
 /** Series resistance feeding a capacitor terminal (parallel combination if multiple). */
@@ -206,12 +279,12 @@ function openCircuitCapTargets(
     groundNet,
     resistors,
     voltageSources,
-    leds.filter((l) => l.isOn),
-    diodes.filter((d) => d.isOn),
-    zeners.filter((z) => z.mode !== 'off'),
+    leds.filter((l) => l.isOn || l.shockley),
+    diodes.filter((d) => d.isOn || d.shockley),
+    zeners.filter((z) => z.mode !== 'off' || z.shockley),
     [],
-    npns.filter((t) => t.isOn),
-    mosfets.filter((t) => t.isOn),
+    npns.filter((t) => t.isOn || t.ebersMoll),
+    mosfets.filter((t) => t.isOn || t.squareLaw),
     opAmps
   )
   if (!ocSolution) return targets
@@ -315,19 +388,22 @@ function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
   return aug.map((row) => row[n])
 }
 
-function solveMNA(
+/** One linear MNA solve; Shockley junctions must already be replaced by their companion stamps. */
+function solveLinearizedMNA(
   nodeCount: number,
   groundNet: number,
   resistors: ResistorStamp[],
   voltageSources: VoltageSourceStamp[],
   leds: LedStamp[],
-  diodes: DiodeStamp[] = [],
-  zeners: ZenerStamp[] = [],
-  capacitors: CapacitorStamp[] = [],
-  npns: NpnStamp[] = [],
-  mosfets: MosfetStamp[] = [],
-  opAmps: OpAmpStamp[] = []
-): { voltages: number[]; sourceCurrents: number[] } | null {
+  diodes: DiodeStamp[],
+  zeners: ZenerStamp[],
+  capacitors: CapacitorStamp[],
+  npns: NpnStamp[],
+  mosfets: MosfetStamp[],
+  opAmps: OpAmpStamp[],
+  currentSources: CurrentSourceStamp[],
+  transconductances: TransconductanceStamp[]
+): MnaSolution | null {
   const nodeToUnknown = new Map<number, number>()
   let unknownNodeCount = 0
   for (let net = 0; net < nodeCount; net++) {
@@ -335,11 +411,11 @@ function solveMNA(
     nodeToUnknown.set(net, unknownNodeCount++)
   }
 
-  const activeLeds = leds.filter((led) => led.isOn)
-  const activeDiodes = diodes.filter((d) => d.isOn)
-  const activeZeners = zeners.filter((z) => z.mode !== 'off')
-  const activeNpns = npns.filter((t) => t.isOn)
-  const activeMosfets = mosfets.filter((t) => t.isOn)
+  const activeLeds = leds.filter((led) => led.isOn && !led.shockley)
+  const activeDiodes = diodes.filter((d) => d.isOn && !d.shockley)
+  const activeZeners = zeners.filter((z) => z.mode !== 'off' && !z.shockley)
+  const activeNpns = npns.filter((t) => t.isOn && !t.ebersMoll)
+  const activeMosfets = mosfets.filter((t) => t.isOn && !t.squareLaw)
 
   const ledAsSources: VoltageSourceStamp[] = activeLeds.map((led) => ({
     netPos: led.netAnode,
@@ -393,7 +469,7 @@ function solveMNA(
     componentId: `${led.componentId}_led_r`,
   }))
   const offLedResistors: ResistorStamp[] = leds
-    .filter((led) => !led.isOn)
+    .filter((led) => !led.isOn && !led.shockley)
     .map((led) => ({
       netA: led.netAnode,
       netB: led.netCathode,
@@ -491,6 +567,29 @@ function solveMNA(
     rhs[col] = source.voltage
   })
 
+  for (const source of currentSources) {
+    const from = nodeIndex(source.netFrom)
+    const to = nodeIndex(source.netTo)
+    if (from >= 0) rhs[from] -= source.current
+    if (to >= 0) rhs[to] += source.current
+  }
+
+  for (const stamp of transconductances) {
+    const from = nodeIndex(stamp.netFrom)
+    const to = nodeIndex(stamp.netTo)
+    const cp = nodeIndex(stamp.netCtrlPos)
+    const cn = nodeIndex(stamp.netCtrlNeg)
+    const g = stamp.transconductance
+    if (from >= 0) {
+      if (cp >= 0) matrix[from][cp] += g
+      if (cn >= 0) matrix[from][cn] -= g
+    }
+    if (to >= 0) {
+      if (cp >= 0) matrix[to][cp] -= g
+      if (cn >= 0) matrix[to][cn] += g
+    }
+  }
+
   const solution = solveLinearSystem(matrix, rhs)
   if (!solution) return null
 
@@ -503,6 +602,277 @@ function solveMNA(
   return { voltages, sourceCurrents }
 }
 
+export interface MnaSolution {
+  voltages: number[]
+  /**
+   * Branch currents of the voltage sources, then the conducting piecewise
+   * devices in argument order. Modelled (Newton) devices add no branch.
+   */
+  sourceCurrents: number[]
+  /** Present when Shockley junctions or modelled transistors were solved by Newton-Raphson. */
+  newton?: NewtonReport
+}
+
+type JunctionStamp = LedStamp | DiodeStamp | ZenerStamp
+
+/** Model current (anode → cathode) of a Shockley junction at a solved operating point; 0 for piecewise parts. */
+export function shockleyCurrent(part: JunctionStamp, voltages: number[]): number {
+  if (!part.shockley) return 0
+  const v = (voltages[part.netAnode] ?? 0) - (voltages[part.netCathode] ?? 0)
+  return junctionCurrent(part.shockley, v).current
+}
+
+/** d(branch current)/d(Vpos − Vneg), linearised at `voltage`. */
+interface BranchPartial {
+  netPos: number
+  netNeg: number
+  slope: number
+  voltage: number
+}
+
+/** Current through a nonlinear element from netFrom to netTo, linearised around the current iterate. */
+export interface LinearizedBranch {
+  netFrom: number
+  netTo: number
+  current: number
+  partials: BranchPartial[]
+}
+
+/** Control nets of a modelled transistor, oriented as the n-type device: (Vbe, Vbc) / (Vgs, Vds), mirrored for PNP/PMOS. */
+function transistorControlNets(t: NpnStamp | MosfetStamp): [[number, number], [number, number]] {
+  if ('netBase' in t) {
+    return t.polarity === 'pnp'
+      ? [
+          [t.netEmitter, t.netBase],
+          [t.netCollector, t.netBase],
+        ]
+      : [
+          [t.netBase, t.netEmitter],
+          [t.netBase, t.netCollector],
+        ]
+  }
+  return t.polarity === 'p'
+    ? [
+        [t.netSource, t.netGate],
+        [t.netSource, t.netDrain],
+      ]
+    : [
+        [t.netGate, t.netSource],
+        [t.netDrain, t.netSource],
+      ]
+}
+
+export function transistorControls(t: NpnStamp | MosfetStamp, voltages: number[]): [number, number] {
+  const [[p1, n1], [p2, n2]] = transistorControlNets(t)
+  return [(voltages[p1] ?? 0) - (voltages[n1] ?? 0), (voltages[p2] ?? 0) - (voltages[n2] ?? 0)]
+}
+
+/**
+ * Terminal branches of an Ebers-Moll BJT or square-law MOSFET at the given
+ * control voltages: collector (or drain) current first, then base current,
+ * then GMIN across each controlling pair so cut-off nodes stay solvable.
+ */
+export function linearizeTransistor(t: NpnStamp | MosfetStamp, controls: [number, number]): LinearizedBranch[] {
+  const [[p1, n1], [p2, n2]] = transistorControlNets(t)
+  const [v1, v2] = controls
+  const gmin = (netPos: number, netNeg: number, voltage: number): LinearizedBranch => ({
+    netFrom: netPos,
+    netTo: netNeg,
+    current: JUNCTION_GMIN * voltage,
+    partials: [{ netPos, netNeg, slope: JUNCTION_GMIN, voltage }],
+  })
+
+  if ('netBase' in t) {
+    if (!t.ebersMoll) return []
+    const op = bjtOperatingPoint(t.ebersMoll, v1, v2)
+    const pnp = t.polarity === 'pnp'
+    return [
+      {
+        netFrom: pnp ? t.netEmitter : t.netCollector,
+        netTo: pnp ? t.netCollector : t.netEmitter,
+        current: op.collectorCurrent,
+        partials: [
+          { netPos: p1, netNeg: n1, slope: op.dIcDVbe, voltage: v1 },
+          { netPos: p2, netNeg: n2, slope: op.dIcDVbc, voltage: v2 },
+        ],
+      },
+      {
+        netFrom: pnp ? t.netEmitter : t.netBase,
+        netTo: pnp ? t.netBase : t.netEmitter,
+        current: op.baseCurrent,
+        partials: [
+          { netPos: p1, netNeg: n1, slope: op.dIbDVbe, voltage: v1 },
+          { netPos: p2, netNeg: n2, slope: op.dIbDVbc, voltage: v2 },
+        ],
+      },
+      gmin(p1, n1, v1),
+      gmin(p2, n2, v2),
+    ]
+  }
+
+  if (!t.squareLaw) return []
+  const op = mosfetOperatingPoint(t.squareLaw, t.vth, v1, v2)
+  return [
+    {
+      netFrom: t.polarity === 'p' ? t.netSource : t.netDrain,
+      netTo: t.polarity === 'p' ? t.netDrain : t.netSource,
+      current: op.drainCurrent,
+      partials: [
+        { netPos: p1, netNeg: n1, slope: op.gm, voltage: v1 },
+        { netPos: p2, netNeg: n2, slope: op.gds, voltage: v2 },
+      ],
+    },
+    gmin(p2, n2, v2),
+  ]
+}
+
+/** Collector (drain) current of a modelled transistor, C→E / D→S for n-type and E→C / S→D for p-type; 0 for switches. */
+export function transistorCurrent(t: NpnStamp | MosfetStamp, voltages: number[]): number {
+  return linearizeTransistor(t, transistorControls(t, voltages))[0]?.current ?? 0
+}
+
+/** A part solved by Newton-Raphson: its controlling voltages, step limiting and linearisation. */
+interface NewtonDevice {
+  start: number[]
+  controls: (voltages: number[]) => number[]
+  limit: (proposed: number[], previous: number[]) => number[]
+  linearize: (controls: number[]) => LinearizedBranch[]
+}
+
+function junctionNewtonDevice(j: JunctionStamp & { shockley: ShockleyParams }): NewtonDevice {
+  return {
+    start: [j.junctionVoltage ?? initialJunctionVoltage(j.shockley)],
+    controls: (voltages) => [(voltages[j.netAnode] ?? 0) - (voltages[j.netCathode] ?? 0)],
+    limit: ([proposed], [previous]) => [limitJunctionStep(j.shockley, proposed, previous)],
+    linearize: ([vd]) => {
+      const { current, conductance } = junctionCurrent(j.shockley, vd)
+      return [
+        {
+          netFrom: j.netAnode,
+          netTo: j.netCathode,
+          current,
+          partials: [
+            { netPos: j.netAnode, netNeg: j.netCathode, slope: Math.max(conductance, JUNCTION_GMIN), voltage: vd },
+          ],
+        },
+      ]
+    },
+  }
+}
+
+function transistorNewtonDevice(t: NpnStamp | MosfetStamp): NewtonDevice {
+  const bjt = 'netBase' in t ? t.ebersMoll : undefined
+  const start: [number, number] = bjt
+    ? [initialJunctionVoltage(bjtJunction(bjt)), 0]
+    : [(t as MosfetStamp).vth + 1, 0]
+  return {
+    start: t.controlVoltages ?? start,
+    controls: (voltages) => transistorControls(t, voltages),
+    limit: (proposed, previous) =>
+      proposed.map((v, idx) =>
+        bjt ? limitJunctionStep(bjtJunction(bjt), v, previous[idx]) : limitMosfetStep(v, previous[idx])
+      ),
+    linearize: (controls) => linearizeTransistor(t, [controls[0], controls[1]]),
+  }
+}
+
+/**
+ * Solve the circuit, running damped Newton-Raphson when any junction uses the
+ * Shockley model or any transistor its Ebers-Moll / square-law model: each
+ * iteration stamps every such device as its linearised companion (slopes as
+ * conductances and transconductances, plus a current source for the offset)
+ * at the current iterate, re-solves, and limits the controlling voltage
+ * updates until they move less than NEWTON_VOLTAGE_TOLERANCE. A non-converged
+ * solve still returns its last iterate, with the report flagging it.
+ */
+export function solveMNA(
+  nodeCount: number,
+  groundNet: number,
+  resistors: ResistorStamp[],
+  voltageSources: VoltageSourceStamp[],
+  leds: LedStamp[],
+  diodes: DiodeStamp[] = [],
+  zeners: ZenerStamp[] = [],
+  capacitors: CapacitorStamp[] = [],
+  npns: NpnStamp[] = [],
+  mosfets: MosfetStamp[] = [],
+  opAmps: OpAmpStamp[] = [],
+  currentSources: CurrentSourceStamp[] = []
+): MnaSolution | null {
+  const solveWith = (transconductances: TransconductanceStamp[], extraSources: CurrentSourceStamp[]) =>
+    solveLinearizedMNA(
+      nodeCount,
+      groundNet,
+      resistors,
+      voltageSources,
+      leds,
+      diodes,
+      zeners,
+      capacitors,
+      npns,
+      mosfets,
+      opAmps,
+      [...currentSources, ...extraSources],
+      transconductances
+    )
+
+  const devices: NewtonDevice[] = [
+    ...[...leds, ...diodes, ...zeners]
+      .filter((part): part is JunctionStamp & { shockley: ShockleyParams } => !!part.shockley)
+      .map(junctionNewtonDevice),
+    ...[...npns.filter((t) => t.ebersMoll), ...mosfets.filter((t) => t.squareLaw)].map(transistorNewtonDevice),
+  ]
+  if (devices.length === 0) return solveWith([], [])
+
+  let iterates = devices.map((device) => device.start)
+  let last: MnaSolution | null = null
+  let maxVoltageDelta = Infinity
+  for (let iteration = 1; iteration <= MAX_NEWTON_ITERATIONS; iteration++) {
+    const transconductances: TransconductanceStamp[] = []
+    const companionSources: CurrentSourceStamp[] = []
+    devices.forEach((device, idx) => {
+      device.linearize(iterates[idx]).forEach((branch, branchIdx) => {
+        let offset = branch.current
+        branch.partials.forEach((partial) => {
+          transconductances.push({
+            netFrom: branch.netFrom,
+            netTo: branch.netTo,
+            netCtrlPos: partial.netPos,
+            netCtrlNeg: partial.netNeg,
+            transconductance: partial.slope,
+          })
+          offset -= partial.slope * partial.voltage
+        })
+        companionSources.push({
+          netFrom: branch.netFrom,
+          netTo: branch.netTo,
+          current: offset,
+          componentId: `newton_${idx}_${branchIdx}`,
+        })
+      })
+    })
+
+    const solution = solveWith(transconductances, companionSources)
+    if (!solution) return null
+    last = solution
+
+    maxVoltageDelta = 0
+    iterates = devices.map((device, idx) => {
+      const proposed = device.controls(solution.voltages)
+      proposed.forEach((v, k) => {
+        maxVoltageDelta = Math.max(maxVoltageDelta, Math.abs(v - iterates[idx][k]))
+      })
+      return device.limit(proposed, iterates[idx])
+    })
+    if (maxVoltageDelta < NEWTON_VOLTAGE_TOLERANCE) {
+      return { ...solution, newton: { iterations: iteration, converged: true, maxVoltageDelta } }
+    }
+  }
+  return last
+    ? { ...last, newton: { iterations: MAX_NEWTON_ITERATIONS, converged: false, maxVoltageDelta } }
+    : null
+}
+
 function stampResistor(
   resistors: ResistorStamp[],
   netA: number | undefined,
@@ -514,7 +884,7 @@ function stampResistor(
   resistors.push({ netA, netB, resistance: Math.max(resistance, 1e-6), componentId })
 }
 
-function buildNets(
+export function buildStampNetlist(
   gridData: GridCellLike[][],
   wires: WireConnection[],
   gpioStates?: Map<number, any>
@@ -620,6 +990,12 @@ function buildNets(
     })
   })
 
+  netLabelGroups(gridData).forEach((cells, name) => {
+    const indices = cells.map((cell) => ensurePos(cell.x, cell.y))
+    indices.forEach((idx) => uf.union(indices[0], idx))
+    if (name === GROUND_NET_LABEL) groundIndices.push(indices[0])
+  })
+
   groundIndices.forEach((gnd) => {
     groundIndices.forEach((other) => uf.union(gnd, other))
   })
@@ -765,14 +1141,15 @@ function buildNets(
       const netNeg = posToNet.get(posKey(ac2.x, ac2.y))
       if (netPos === undefined || netNeg === undefined) return
 
-      const vrms = parseNumericProperty(component.moduleDefinition.properties?.vrms, 12)
-      const vpeak = vrms * Math.SQRT2
+      const ac = readACSourceSettings(component.moduleDefinition.properties)
+      const vpeak = ac.vrms * Math.SQRT2
 
       voltageSources.push({
         netPos,
         netNeg,
         voltage: vpeak,
         componentId: component.componentId,
+        ac,
       })
       return
     }
@@ -805,6 +1182,12 @@ function buildNets(
         maxCurrent,
         isOn: false,
         moduleType: 'LED',
+        shockley: readShockleyParams(component.moduleDefinition.properties, {
+          forwardVoltage,
+          ratedCurrent: maxCurrent,
+          emissionCoefficient: 2,
+          seriesResistance: 10,
+        }),
       })
       return
     }
@@ -833,16 +1216,23 @@ function buildNets(
         if (!anode) continue
         const netAnode = posToNet.get(posKey(anode.x, anode.y))
         if (netAnode === undefined) continue
+        const forwardVoltage = parseNumericProperty(props[ch.vfKey], ch.defaultVf)
         leds.push({
           netAnode,
           netCathode,
-          forwardVoltage: parseNumericProperty(props[ch.vfKey], ch.defaultVf),
+          forwardVoltage,
           seriesResistance: 10,
           componentId: component.componentId,
           maxCurrent,
           isOn: false,
           channel: ch.pin,
           moduleType: 'RGBLED',
+          shockley: readShockleyParams(props, {
+            forwardVoltage,
+            ratedCurrent: maxCurrent,
+            emissionCoefficient: 2,
+            seriesResistance: 10,
+          }),
         })
       }
       return
@@ -862,6 +1252,12 @@ function buildNets(
         seriesResistance: 0.5,
         componentId: component.componentId,
         isOn: false,
+        shockley: readShockleyParams(component.moduleDefinition.properties, {
+          forwardVoltage,
+          ratedCurrent: JUNCTION_REFERENCE_CURRENT,
+          emissionCoefficient: 1.8,
+          seriesResistance: 0.5,
+        }),
       })
       return
     }
@@ -872,14 +1268,23 @@ function buildNets(
       const netAnode = posToNet.get(posKey(anode.x, anode.y))
       const netCathode = posToNet.get(posKey(cathode.x, cathode.y))
       if (netAnode === undefined || netCathode === undefined) return
+      const forwardVoltage = parseNumericProperty(component.moduleDefinition.properties?.forwardVoltage, 0.7)
+      const zenerVoltage = parseNumericProperty(component.moduleDefinition.properties?.zenerVoltage, 5.1)
       zeners.push({
         netAnode,
         netCathode,
-        forwardVoltage: parseNumericProperty(component.moduleDefinition.properties?.forwardVoltage, 0.7),
-        zenerVoltage: parseNumericProperty(component.moduleDefinition.properties?.zenerVoltage, 5.1),
+        forwardVoltage,
+        zenerVoltage,
         seriesResistance: 0.5,
         componentId: component.componentId,
         mode: 'off',
+        shockley: readShockleyParams(component.moduleDefinition.properties, {
+          forwardVoltage,
+          ratedCurrent: JUNCTION_REFERENCE_CURRENT,
+          emissionCoefficient: 1,
+          seriesResistance: 0.5,
+          breakdownVoltage: zenerVoltage,
+        }),
       })
       return
     }
@@ -893,15 +1298,17 @@ function buildNets(
       const netCollector = posToNet.get(posKey(collector.x, collector.y))
       const netEmitter = posToNet.get(posKey(emitter.x, emitter.y))
       if (netBase === undefined || netCollector === undefined || netEmitter === undefined) return
+      const vbe = parseNumericProperty(component.moduleDefinition.properties?.vbe, 0.65)
       npns.push({
         netBase,
         netCollector,
         netEmitter,
-        vbe: parseNumericProperty(component.moduleDefinition.properties?.vbe, 0.65),
+        vbe,
         vceSat: parseNumericProperty(component.moduleDefinition.properties?.vceSat, 0.2),
         componentId: component.componentId,
         isOn: false,
         polarity: moduleType === 'PNPTransistor' ? 'pnp' : 'npn',
+        ebersMoll: readBjtParams(component.moduleDefinition.properties, { vbe, beta: 100 }),
       })
       return
     }
@@ -915,15 +1322,18 @@ function buildNets(
       const netDrain = posToNet.get(posKey(drain.x, drain.y))
       const netSource = posToNet.get(posKey(source.x, source.y))
       if (netGate === undefined || netDrain === undefined || netSource === undefined) return
+      const vth = parseNumericProperty(component.moduleDefinition.properties?.vth, 2.5)
+      const rdsOn = parseNumericProperty(component.moduleDefinition.properties?.rdsOn, 0.05)
       mosfets.push({
         netGate,
         netDrain,
         netSource,
-        vth: parseNumericProperty(component.moduleDefinition.properties?.vth, 2.5),
-        rdsOn: parseNumericProperty(component.moduleDefinition.properties?.rdsOn, 0.05),
+        vth,
+        rdsOn,
         componentId: component.componentId,
         isOn: false,
         polarity: moduleType === 'PMOSFET' ? 'p' : 'n',
+        squareLaw: readMosfetParams(component.moduleDefinition.properties, { vth, rdsOn }),
       })
       return
     }
@@ -1032,7 +1442,11 @@ function buildNets(
       const netB = posToNet.get(posKey(leads[1].x, leads[1].y))
       if (netA === undefined || netB === undefined) return
       const dcr = parseNumericProperty(component.moduleDefinition.properties?.dcResistance, 0.5)
-      inductors.push({ netA, netB, componentId: component.componentId })
+      const inductance = parseNumericProperty(
+        component.inductance ?? component.moduleDefinition.properties?.inductance,
+        0.001
+      )
+      inductors.push({ netA, netB, inductance, dcResistance: dcr, componentId: component.componentId })
       stampResistor(resistors, netA, netB, dcr, component.componentId)
       return
     }
@@ -1115,6 +1529,30 @@ function buildNets(
       return
     }
 
+    if (isSensorModule(moduleType)) {
+      const { resistors: sensorResistors, outputs } = collectSensorStamps(
+        moduleType,
+        component,
+        terminals,
+        posToNet,
+        groundNet,
+        gridData
+      )
+      sensorResistors.forEach((r) => stampResistor(resistors, r.netA, r.netB, r.resistance, r.componentId))
+      // Output stages drive from their own rail, like the GPIO pull-ups below
+      outputs.forEach((output) => {
+        const rail = nodeCount++
+        voltageSources.push({
+          netPos: rail,
+          netNeg: output.netRef,
+          voltage: output.voltage,
+          componentId: output.componentId,
+        })
+        stampResistor(resistors, rail, output.netOut, output.resistance, output.componentId)
+      })
+      return
+    }
+
     if (isDriverModule(moduleType)) {
       const { channels, idleLoads } = collectDriverStamps(
         moduleType,
@@ -1206,6 +1644,19 @@ function buildNets(
               stampResistor(resistors, net, groundNet, 40, `${component.componentId}_pinLow`)
               return
             }
+            // Pull-up to the I/O rail through its own internal node
+            const pullup = gpioInputPullup(moduleType, gpioState)
+            if (pullup) {
+              const rail = nodeCount++
+              voltageSources.push({
+                netPos: rail,
+                netNeg: groundNet,
+                voltage: pullup.voltage,
+                componentId: `${component.componentId}_pullup`,
+              })
+              stampResistor(resistors, rail, net, pullup.resistance, `${component.componentId}_pullup`)
+              return
+            }
           }
         }
 
@@ -1369,16 +1820,209 @@ function buildBoostVoltageSources(
   return stamps
 }
 
+/** Conducting driver channels as resistors (supply → out, plus coil/load return). */
+export function driverChannelResistors(
+  driverStates: DriverChannelStamp[],
+  voltages: number[]
+): ResistorStamp[] {
+  const stamps: ResistorStamp[] = []
+  driverStates.forEach((channel) => {
+    if (!channel.isOn) return
+    const r = driverChannelResistance(channel, voltages, 12)
+    if (r >= 1e8) return
+    stamps.push({
+      netA: channel.netSupply,
+      netB: channel.netOut,
+      resistance: r,
+      componentId: channel.componentId,
+    })
+    if (channel.netOutReturn !== undefined && channel.coilResistance !== undefined) {
+      stamps.push({
+        netA: channel.netOut,
+        netB: channel.netOutReturn,
+        resistance: channel.coilResistance,
+        componentId: `${channel.componentId}_coil`,
+      })
+      stamps.push({
+        netA: channel.netOutReturn,
+        netB: channel.netGnd,
+        resistance: Math.max(channel.rdsOn, 1e-3),
+        componentId: `${channel.componentId}_return`,
+      })
+    } else if (channel.loadToGnd !== undefined) {
+      stamps.push({
+        netA: channel.netOut,
+        netB: channel.netGnd,
+        resistance: channel.loadToGnd,
+        componentId: `${channel.componentId}_load`,
+      })
+    }
+  })
+  return stamps
+}
+
+export interface DeviceStates {
+  leds: LedStamp[]
+  diodes: DiodeStamp[]
+  zeners: ZenerStamp[]
+  npns: NpnStamp[]
+  mosfets: MosfetStamp[]
+  opAmps: OpAmpStamp[]
+  drivers: DriverChannelStamp[]
+}
+
+/** Re-evaluate piecewise device regions (on/off, zener mode, op-amp output) from a solution. */
+export function updateDeviceStates(
+  states: DeviceStates,
+  voltages: number[]
+): { states: DeviceStates; changed: boolean } {
+  let changed = false
+
+  const leds = states.leds.map((led) => {
+    const anodeV = voltages[led.netAnode] ?? 0
+    const cathodeV = voltages[led.netCathode] ?? 0
+    const shouldBeOn = led.shockley
+      ? shockleyCurrent(led, voltages) > JUNCTION_ON_CURRENT
+      : ledHasForwardBias(anodeV, cathodeV, led.forwardVoltage)
+    // Auto-orient: if the LED is wired backwards but the reverse direction is
+    // forward-biased (current wants to flow cathode->anode), flip its
+    // orientation so it conducts on the next solve, and flag it as reversed so
+    // the UI can warn the user instead of leaving it silently dark. RGB
+    // sub-LEDs (channel) share an anode and must not be flipped.
+    if (
+      !led.channel &&
+      !shouldBeOn &&
+      ledHasForwardBias(cathodeV, anodeV, led.forwardVoltage)
+    ) {
+      changed = true
+      return {
+        ...led,
+        netAnode: led.netCathode,
+        netCathode: led.netAnode,
+        reversed: true,
+        isOn: true,
+        junctionVoltage: undefined,
+      }
+    }
+    if (shouldBeOn !== led.isOn) changed = true
+    return led.shockley
+      ? { ...led, isOn: shouldBeOn, junctionVoltage: anodeV - cathodeV }
+      : { ...led, isOn: shouldBeOn }
+  })
+
+  const diodes = states.diodes.map((d) => {
+    const anodeV = voltages[d.netAnode] ?? 0
+    const cathodeV = voltages[d.netCathode] ?? 0
+    if (d.shockley) {
+      const isOn = shockleyCurrent(d, voltages) > JUNCTION_ON_CURRENT
+      if (isOn !== d.isOn) changed = true
+      return { ...d, isOn, junctionVoltage: anodeV - cathodeV }
+    }
+    const shouldBeOn = diodeHasForwardBias(anodeV, cathodeV, d.forwardVoltage)
+    if (shouldBeOn !== d.isOn) changed = true
+    return { ...d, isOn: shouldBeOn }
+  })
+
+  const zeners = states.zeners.map((z) => {
+    const anodeV = voltages[z.netAnode] ?? 0
+    const cathodeV = voltages[z.netCathode] ?? 0
+    if (z.shockley) {
+      const current = shockleyCurrent(z, voltages)
+      const mode: ZenerStamp['mode'] =
+        current > JUNCTION_ON_CURRENT ? 'forward' : current < -JUNCTION_ON_CURRENT ? 'zener' : 'off'
+      if (mode !== z.mode) changed = true
+      return { ...z, mode, junctionVoltage: anodeV - cathodeV }
+    }
+    const mode = zenerMode(anodeV, cathodeV, z.forwardVoltage, z.zenerVoltage)
+    if (mode !== z.mode) changed = true
+    return { ...z, mode }
+  })
+
+  const npns = states.npns.map((t) => {
+    if (t.ebersMoll) {
+      const controlVoltages = transistorControls(t, voltages)
+      const region = bjtRegion(t.ebersMoll, ...controlVoltages)
+      const isOn = region !== 'cutoff'
+      if (isOn !== t.isOn) changed = true
+      return { ...t, isOn, region, controlVoltages }
+    }
+    const vb = voltages[t.netBase] ?? 0
+    const ve = voltages[t.netEmitter] ?? 0
+    const shouldBeOn =
+      t.polarity === 'pnp'
+        ? ve - vb >= t.vbe - 0.05
+        : vb - ve >= t.vbe - 0.05
+    if (shouldBeOn !== t.isOn) changed = true
+    return { ...t, isOn: shouldBeOn }
+  })
+
+  const mosfets = states.mosfets.map((t) => {
+    if (t.squareLaw) {
+      const controlVoltages = transistorControls(t, voltages)
+      const region = mosfetRegion(t.vth, ...controlVoltages)
+      const isOn = region !== 'cutoff'
+      if (isOn !== t.isOn) changed = true
+      return { ...t, isOn, region, controlVoltages }
+    }
+    const vg = voltages[t.netGate] ?? 0
+    const vs = voltages[t.netSource] ?? 0
+    const shouldBeOn =
+      t.polarity === 'p'
+        ? vs - vg >= t.vth - 0.05
+        : vg - vs >= t.vth - 0.05
+    if (shouldBeOn !== t.isOn) changed = true
+    return { ...t, isOn: shouldBeOn }
+  })
+
+  const opAmps = states.opAmps.map((op) => {
+    const vp = voltages[op.netNonInv] ?? 0
+    const vm = voltages[op.netInv] ?? 0
+    const vee = voltages[op.netVee] ?? 0
+    const raw = op.gain * (vp - vm)
+    const vout = Math.max(vee, Math.min(op.vcc, raw + vee))
+    if (Math.abs(vout - op.outputVoltage) > 0.01) changed = true
+    return { ...op, outputVoltage: vout }
+  })
+
+  const drivers = states.drivers.map((channel) => {
+    const shouldBeOn = driverChannelShouldBeOn(channel, voltages, 12)
+    if (shouldBeOn !== channel.isOn) changed = true
+    return { ...channel, isOn: shouldBeOn }
+  })
+
+  return { states: { leds, diodes, zeners, npns, mosfets, opAmps, drivers }, changed }
+}
+
+/**
+ * Solve the sheet with any sub-circuit blocks expanded in place. The returned
+ * wires are the sheet's own (block internals and port bridges are dropped), so
+ * callers can store them back; block internals still report component states
+ * under `<instance>/<inner>` ids.
+ */
 export function solveCircuit(
   gridData: GridCellLike[][],
   wires: WireConnection[],
   gpioStates?: Map<number, any>
+): CircuitSolveResult {
+  const flat = flattenSubcircuits(gridData, wires)
+  if (flat.gridData === gridData) return solveFlatCircuit(gridData, wires, gpioStates)
+
+  const result = solveFlatCircuit(flat.gridData, flat.wires, gpioStates)
+  const sheetWireIds = new Set(wires.map((wire) => wire.id))
+  return { ...result, updatedWires: result.updatedWires.filter((wire) => sheetWireIds.has(wire.id)) }
+}
+
+function solveFlatCircuit(
+  gridData: GridCellLike[][],
+  wires: WireConnection[],
+  gpioStates?: Map<number, any>
 ): CircuitSolveResult {
   const emptyWires = wires.map((w) => ({ ...w }))
   const emptyResult = (reason: string, errors: string[] = []): CircuitSolveResult => ({
     works: false,
     reason,
     errors,
+    warnings: [],
     netVoltages: new Map(),
     nodeVoltages: new Map(),
     componentStates: new Map(),
@@ -1390,7 +2034,7 @@ export function solveCircuit(
     totalPower: 0,
   })
 
-  const netlist = buildNets(gridData, wires, gpioStates)
+  const netlist = buildStampNetlist(gridData, wires, gpioStates)
   const {
     nodeCount,
     groundNet,
@@ -1479,47 +2123,36 @@ export function solveCircuit(
   let opAmpStates = baseOpAmps.map((op) => ({ ...op }))
   let driverStates = baseDriverChannels.map((d) => ({ ...d }))
   let logicGateStates = baseLogicGateICs.map((ic) => ({ ...ic, gates: ic.gates.map((g) => ({ ...g })) }))
-  let solution: { voltages: number[]; sourceCurrents: number[] } | null = null
-
-  const buildDriverResistors = (voltages: number[]): ResistorStamp[] => {
-    const stamps: ResistorStamp[] = []
-    driverStates.forEach((channel) => {
-      if (!channel.isOn) return
-      const r = driverChannelResistance(channel, voltages, 12)
-      if (r >= 1e8) return
-      stamps.push({
-        netA: channel.netSupply,
-        netB: channel.netOut,
-        resistance: r,
-        componentId: channel.componentId,
-      })
-      if (channel.netOutReturn !== undefined && channel.coilResistance !== undefined) {
-        stamps.push({
-          netA: channel.netOut,
-          netB: channel.netOutReturn,
-          resistance: channel.coilResistance,
-          componentId: `${channel.componentId}_coil`,
-        })
-        stamps.push({
-          netA: channel.netOutReturn,
-          netB: channel.netGnd,
-          resistance: Math.max(channel.rdsOn, 1e-3),
-          componentId: `${channel.componentId}_return`,
-        })
-      } else if (channel.loadToGnd !== undefined) {
-        stamps.push({
-          netA: channel.netOut,
-          netB: channel.netGnd,
-          resistance: channel.loadToGnd,
-          componentId: `${channel.componentId}_load`,
-        })
-      }
-    })
-    return stamps
+  let solution: MnaSolution | null = null
+  // Newton iterations summed over every device-region pass below.
+  let newtonIterations = 0
+
+  /** Move every device to the region `voltages` put it in; true when any changed. */
+  const refreshDeviceStates = (voltages: number[]): boolean => {
+    const deviceUpdate = updateDeviceStates(
+      {
+        leds: ledStates,
+        diodes: diodeStates,
+        zeners: zenerStates,
+        npns: npnStates,
+        mosfets: mosfetStates,
+        opAmps: opAmpStates,
+        drivers: driverStates,
+      },
+      voltages
+    )
+    ledStates = deviceUpdate.states.leds
+    diodeStates = deviceUpdate.states.diodes
+    zenerStates = deviceUpdate.states.zeners
+    npnStates = deviceUpdate.states.npns
+    mosfetStates = deviceUpdate.states.mosfets
+    opAmpStates = deviceUpdate.states.opAmps
+    driverStates = deviceUpdate.states.drivers
+    return deviceUpdate.changed
   }
 
   for (let iteration = 0; iteration < 12; iteration++) {
-    const driverResistors = buildDriverResistors(solution?.voltages ?? [])
+    const driverResistors = driverChannelResistors(driverStates, solution?.voltages ?? [])
     const boostSources = buildBoostVoltageSources(
       boostConverters,
       baseMosfets,
@@ -1568,93 +2201,11 @@ export function solveCircuit(
     if (!solution) {
       return emptyResult('Circuit could not be solved (singular matrix)', errors)
     }
+    newtonIterations += solution.newton?.iterations ?? 0
 
-    let changed = false
-
-    ledStates = ledStates.map((led) => {
-      const anodeV = solution!.voltages[led.netAnode] ?? 0
-      const cathodeV = solution!.voltages[led.netCathode] ?? 0
-      const shouldBeOn = ledHasForwardBias(anodeV, cathodeV, led.forwardVoltage)
-      // Auto-orient: if the LED is wired backwards but the reverse direction is
-      // forward-biased (current wants to flow cathode->anode), flip its
-      // orientation so it conducts on the next solve, and flag it as reversed so
-      // the UI can warn the user instead of leaving it silently dark. RGB
-      // sub-LEDs (channel) share an anode and must not be flipped.
-      if (
-        !led.channel &&
-        !shouldBeOn &&
-        ledHasForwardBias(cathodeV, anodeV, led.forwardVoltage)
-      ) {
-        changed = true
-        return {
-          ...led,
-          netAnode: led.netCathode,
-          netCathode: led.netAnode,
-          reversed: true,
-          isOn: true,
-        }
-      }
-      if (shouldBeOn !== led.isOn) changed = true
-      return { ...led, isOn: shouldBeOn }
-    })
-
-    diodeStates = diodeStates.map((d) => {
-      const anodeV = solution!.voltages[d.netAnode] ?? 0
-      const cathodeV = solution!.voltages[d.netCathode] ?? 0
-      const shouldBeOn = diodeHasForwardBias(anodeV, cathodeV, d.forwardVoltage)
-      if (shouldBeOn !== d.isOn) changed = true
-      return { ...d, isOn: shouldBeOn }
-    })
-
-    zenerStates = zenerStates.map((z) => {
-      const anodeV = solution!.voltages[z.netAnode] ?? 0
-      const cathodeV = solution!.voltages[z.netCathode] ?? 0
-      const mode = zenerMode(anodeV, cathodeV, z.forwardVoltage, z.zenerVoltage)
-      if (mode !== z.mode) changed = true
-      return { ...z, mode }
-    })
-
-    npnStates = npnStates.map((t) => {
-      const vb = solution!.voltages[t.netBase] ?? 0
-      const ve = solution!.voltages[t.netEmitter] ?? 0
-      const shouldBeOn =
-        t.polarity === 'pnp'
-          ? ve - vb >= t.vbe - 0.05
-          : vb - ve >= t.vbe - 0.05
-      if (shouldBeOn !== t.isOn) changed = true
-      return { ...t, isOn: shouldBeOn }
-    })
-
-    mosfetStates = mosfetStates.map((t) => {
-      const vg = solution!.voltages[t.netGate] ?? 0
-      const vs = solution!.voltages[t.netSource] ?? 0
-      const shouldBeOn =
-        t.polarity === 'p'
-          ? vs - vg >= t.vth - 0.05
-          : vg - vs >= t.vth - 0.05
-      if (shouldBeOn !== t.isOn) changed = true
-      return { ...t, isOn: shouldBeOn }
-    })
-
-    opAmpStates = opAmpStates.map((op) => {
-      const vp = solution!.voltages[op.netNonInv] ?? 0
-      const vm = solution!.voltages[op.netInv] ?? 0
-      const vee = solution!.voltages[op.netVee] ?? 0
-      const raw = op.gain * (vp - vm)
-      const vout = Math.max(vee, Math.min(op.vcc, raw + vee))
-      if (Math.abs(vout - op.outputVoltage) > 0.01) changed = true
-      return { ...op, outputVoltage: vout }
-    })
-
-    driverStates = driverStates.map((channel) => {
-      const shouldBeOn = driverChannelShouldBeOn(channel, solution!.voltages, 12)
-      if (shouldBeOn !== channel.isOn) changed = true
-      return { ...channel, isOn: shouldBeOn }
-    })
-
-    if (logicGateUpdate.changed) changed = true
+    const devicesChanged = refreshDeviceStates(solution.voltages)
 
-    if (!changed) break
+    if (!devicesChanged && !logicGateUpdate.changed) break
   }
 
   activeNets = computeActiveNets(
@@ -1687,7 +2238,7 @@ export function solveCircuit(
     )
     capStates = advanceCapacitorStates(capStates, ocTargets, resistors, CAP_CHARGE_STEPS)
 
-    const driverResistors = buildDriverResistors(solution?.voltages ?? [])
+    const driverResistors = driverChannelResistors(driverStates, solution?.voltages ?? [])
     const boostSources = buildBoostVoltageSources(
       boostConverters,
       baseMosfets,
@@ -1715,21 +2266,26 @@ export function solveCircuit(
       activeNets.add(src.netPos)
       activeNets.add(src.netNeg)
     })
-    solution = solveMNA(
-      nodeCount,
-      groundNet,
-      [...resistors, ...driverResistors, ...regulatorResistors],
-      [...voltageSources, ...boostSources, ...regulatorSources],
-      ledStates,
-      diodeStates,
-      zenerStates,
-      capStates,
-      npnStates,
-      mosfetStates,
-      opAmpStates
-    )
-    if (!solution) {
-      return emptyResult('Circuit could not be solved (singular matrix)', errors)
+    // The charged capacitors move the bias, so devices settle into their regions again
+    for (let iteration = 0; iteration < 12; iteration++) {
+      solution = solveMNA(
+        nodeCount,
+        groundNet,
+        [...resistors, ...driverResistors, ...regulatorResistors],
+        [...voltageSources, ...boostSources, ...regulatorSources],
+        ledStates,
+        diodeStates,
+        zenerStates,
+        capStates,
+        npnStates,
+        mosfetStates,
+        opAmpStates
+      )
+      if (!solution) {
+        return emptyResult('Circuit could not be solved (singular matrix)', errors)
+      }
+      newtonIterations += solution.newton?.iterations ?? 0
+      if (!refreshDeviceStates(solution.voltages)) break
     }
   }
 
@@ -1738,6 +2294,12 @@ export function solveCircuit(
   }
 
   const { voltages } = solution
+  const convergence = solution.newton ? { ...solution.newton, iterations: newtonIterations } : undefined
+  if (convergence && !convergence.converged) {
+    errors.push(
+      `Nonlinear solver did not converge after ${convergence.iterations} Newton iterations (last ΔV ${convergence.maxVoltageDelta.toExponential(2)} V)`
+    )
+  }
   const netVoltages = new Map<number, number>()
   voltages.forEach((v, net) => netVoltages.set(net, v))
 
@@ -1868,9 +2430,14 @@ export function solveCircuit(
     const onCircuit = activeNets.has(led.netAnode) && activeNets.has(led.netCathode)
     const anodeVoltage = onCircuit ? voltages[led.netAnode] ?? 0 : 0
     const cathodeVoltage = onCircuit ? voltages[led.netCathode] ?? 0 : 0
-    const hasBias = ledHasForwardBias(anodeVoltage, cathodeVoltage, led.forwardVoltage)
-    const isOn = onCircuit && led.isOn && hasBias && totalCurrent > 1e-6
-    const current = isOn ? totalCurrent : 0
+    // Shockley LEDs report their model current; piecewise ones keep the loop-current estimate.
+    const modelCurrent = led.shockley && onCircuit ? shockleyCurrent(led, voltages) : 0
+    const hasBias = led.shockley
+      ? modelCurrent > JUNCTION_ON_CURRENT
+      : ledHasForwardBias(anodeVoltage, cathodeVoltage, led.forwardVoltage)
+    const isOn = onCircuit && led.isOn && hasBias && (led.shockley ? true : totalCurrent > 1e-6)
+    const current = isOn ? (led.shockley ? modelCurrent : totalCurrent) : 0
+    const dropVoltage = led.shockley ? anodeVoltage - cathodeVoltage : led.forwardVoltage
     const componentType = led.moduleType ?? 'LED'
 
     gridData.forEach((row, y) => {
@@ -1898,7 +2465,7 @@ export function solveCircuit(
                 : Math.max(cathodeVoltage, anodeVoltage - led.forwardVoltage)
             : 0,
           outputCurrent: isOn ? current : 0,
-          power: isOn ? led.forwardVoltage * current : 0,
+          power: isOn ? dropVoltage * current : 0,
           forwardVoltage: led.forwardVoltage,
           isOn,
           ledChannel: led.channel,
@@ -1914,6 +2481,11 @@ export function solveCircuit(
     } else if (onCircuit && !isOn && !hasBias && componentType === 'LED') {
       errors.push(`LED ${led.componentId} has insufficient forward voltage`)
     }
+    if (isOn && led.shockley && current > led.maxCurrent) {
+      errors.push(
+        `LED ${led.componentId} draws ${(current * 1000).toFixed(1)}mA, over its ${(led.maxCurrent * 1000).toFixed(0)}mA rating`
+      )
+    }
   })
 
   capStates.forEach((cap) => {
@@ -1965,6 +2537,8 @@ export function solveCircuit(
   diodeStates.forEach((d) => {
     const onCircuit = activeNets.has(d.netAnode) && activeNets.has(d.netCathode)
     const isOn = onCircuit && d.isOn
+    const current = isOn && d.shockley ? shockleyCurrent(d, voltages) : 0
+    const drop = (voltages[d.netAnode] ?? 0) - (voltages[d.netCathode] ?? 0)
     gridData.forEach((row, y) => {
       if (!row) return
       row.forEach((cell, x) => {
@@ -1976,8 +2550,8 @@ export function solveCircuit(
           componentType: 'Diode',
           position: { x, y },
           outputVoltage: onCircuit && net !== undefined ? voltages[net] ?? 0 : 0,
-          outputCurrent: 0,
-          power: 0,
+          outputCurrent: current,
+          power: current * drop,
           isOn,
           status: isOn ? 'conducting' : 'off',
           isPowered: isOn,
@@ -1990,6 +2564,8 @@ export function solveCircuit(
   zenerStates.forEach((z) => {
     const onCircuit = activeNets.has(z.netAnode) && activeNets.has(z.netCathode)
     const isOn = onCircuit && z.mode !== 'off'
+    const current = isOn && z.shockley ? shockleyCurrent(z, voltages) : 0
+    const drop = (voltages[z.netAnode] ?? 0) - (voltages[z.netCathode] ?? 0)
     gridData.forEach((row, y) => {
       if (!row) return
       row.forEach((cell, x) => {
@@ -2001,8 +2577,8 @@ export function solveCircuit(
           componentType: 'ZenerDiode',
           position: { x, y },
           outputVoltage: onCircuit && net !== undefined ? voltages[net] ?? 0 : 0,
-          outputCurrent: 0,
-          power: 0,
+          outputCurrent: Math.abs(current),
+          power: current * drop,
           zenerMode: z.mode,
           status: isOn ? (z.mode === 'zener' ? 'clamping' : 'conducting') : 'off',
           isPowered: isOn,
@@ -2017,6 +2593,9 @@ export function solveCircuit(
       activeNets.has(t.netBase) && activeNets.has(t.netCollector) && activeNets.has(t.netEmitter)
     const isOn = onCircuit && t.isOn
     const componentType = t.polarity === 'pnp' ? 'PNPTransistor' : 'NPNTransistor'
+    const current = onCircuit && t.ebersMoll ? transistorCurrent(t, voltages) : 0
+    const vce = (voltages[t.netCollector] ?? 0) - (voltages[t.netEmitter] ?? 0)
+    const status = !isOn ? 'off' : t.ebersMoll && t.region === 'active' ? 'active' : 'saturated'
     gridData.forEach((row, y) => {
       if (!row) return
       row.forEach((cell, x) => {
@@ -2029,10 +2608,11 @@ export function solveCircuit(
           componentType,
           position: { x, y },
           outputVoltage: pinVoltage,
-          outputCurrent: 0,
-          power: 0,
+          outputCurrent: Math.abs(current),
+          power: Math.abs(current * vce),
           isOn,
-          status: isOn ? 'saturated' : 'off',
+          status,
+          ...(t.ebersMoll ? { transistorRegion: isOn ? t.region : 'cutoff' } : {}),
           isPowered: isOn || pinVoltage > 0.05,
           isGrounded: isNetGrounded(net, groundNet, gridData, posToNet),
         })
@@ -2045,6 +2625,8 @@ export function solveCircuit(
       activeNets.has(t.netGate) && activeNets.has(t.netDrain) && activeNets.has(t.netSource)
     const isOn = onCircuit && t.isOn
     const componentType = t.polarity === 'p' ? 'PMOSFET' : 'MOSFET'
+    const current = onCircuit && t.squareLaw ? transistorCurrent(t, voltages) : 0
+    const vds = (voltages[t.netDrain] ?? 0) - (voltages[t.netSource] ?? 0)
     gridData.forEach((row, y) => {
       if (!row) return
       row.forEach((cell, x) => {
@@ -2057,10 +2639,11 @@ export function solveCircuit(
           componentType,
           position: { x, y },
           outputVoltage: pinVoltage,
-          outputCurrent: 0,
-          power: 0,
+          outputCurrent: Math.abs(current),
+          power: Math.abs(current * vds),
           isOn,
           status: isOn ? 'on' : 'off',
+          ...(t.squareLaw ? { transistorRegion: isOn ? t.region : 'cutoff' } : {}),
           isPowered: isOn || pinVoltage > 0.05,
           isGrounded: isNetGrounded(net, groundNet, gridData, posToNet),
         })
@@ -2123,9 +2706,11 @@ export function solveCircuit(
     })
   })
 
+  const warnings: string[] = []
   components.forEach((component) => {
     const moduleType = resolveLogicModule(component.moduleDefinition)
     if (!isMicrocontrollerModule(component.moduleDefinition)) return
+    const pinLimit = mcuPinVoltageLimit(component.moduleDefinition)
 
     getTerminals(component).forEach((terminal) => {
       const moduleCell = terminal.moduleCell
@@ -2134,6 +2719,14 @@ export function solveCircuit(
       const onCircuit = net !== undefined && activeNets.has(net)
       const cellVoltage = onCircuit && net !== undefined ? voltages[net] ?? 0 : 0
 
+      const limited =
+        moduleCell.type === 'GPIO' || moduleCell.type === 'ANALOG' || (moduleCell.pin === '3V3' && isMcuPowerInput(moduleCell))
+      if (limited && cellVoltage > pinLimit + 0.05) {
+        warnings.push(
+          `${moduleType} ${component.componentId} pin ${moduleCell.pin} sees ${cellVoltage.toFixed(2)}V, over its ${pinLimit}V limit`
+        )
+      }
+
       if (moduleCell.type === 'GPIO' || moduleCell.type === 'ANALOG') {
         const pin = gpioPinNumber(moduleCell)
         const gpioState = pin !== null ? gpioStates?.get(pin) : undefined
@@ -2190,6 +2783,7 @@ export function solveCircuit(
     works: continuityOk,
     reason: continuityOk ? undefined : 'No continuity — each power source needs a closed path from + back to its own - terminal',
     errors,
+    warnings,
     netVoltages,
     nodeVoltages,
     componentStates,
@@ -2199,5 +2793,7 @@ export function solveCircuit(
     totalCurrent,
     totalResistance,
     totalPower,
+    convergence,
+    logicGates: logicGateStates,
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * Exponential (Shockley) p-n junction model for diodes, LEDs and zeners.
+ *
+ * I(Vj) = Is·(e^(Vj/(n·Vt)) − 1) − Ibv·e^(−(Vj + BV)/(nbv·Vt)), with an ohmic
+ * series resistance Rs folded in at the terminals (V = Vj + I·Rs) so no extra
+ * internal node is needed. solveMNA linearises each junction around the last
+ * iterate (companion conductance + current source) and runs damped
+ * Newton-Raphson until the junction voltages settle.
+ */
+
+import { parseNumericProperty } from '../utils'
+
+export type JunctionModel = 'piecewise' | 'shockley'
+
+export interface ShockleyParams {
+  /** Saturation current Is in amperes. */
+  saturationCurrent: number
+  /** Emission coefficient n (ideality factor). */
+  emissionCoefficient: number
+  /** Ohmic series resistance Rs in ohms. */
+  seriesResistance: number
+  /** Reverse breakdown voltage BV (zeners only). */
+  breakdownVoltage?: number
+  /** Reverse current at exactly −BV. */
+  breakdownCurrent?: number
+  /** Emission coefficient of the breakdown exponential. */
+  breakdownEmission?: number
+}
+
+export interface JunctionOperatingPoint {
+  /** Terminal current, anode → cathode. */
+  current: number
+  /** dI/dV at the terminals. */
+  conductance: number
+}
+
+export interface NewtonReport {
+  iterations: number
+  converged: boolean
+  /** Largest junction voltage update on the final iteration. */
+  maxVoltageDelta: number
+}
+
+/** Thermal voltage kT/q at 300 K. */
+export const THERMAL_VOLTAGE = 0.02585
+/** Junctions below this terminal current render as off. */
+export const JUNCTION_ON_CURRENT = 1e-4
+/** Conductance across every junction so reverse-biased nodes stay solvable (matches the off-LED leak). */
+export const JUNCTION_GMIN = 1e-9
+export const MAX_NEWTON_ITERATIONS = 100
+export const NEWTON_VOLTAGE_TOLERANCE = 1e-6
+
+/** Largest terminal-voltage update per iteration for junctions with series resistance. */
+const MAX_SERIES_STEP = 0.5
+/** Past this exponent the exponential continues linearly so iterates cannot overflow. */
+const EXP_LIMIT = 80
+
+function safeExp(x: number): { value: number; slope: number } {
+  if (x <= EXP_LIMIT) {
+    const value = Math.exp(x)
+    return { value, slope: value }
+  }
+  const edge = Math.exp(EXP_LIMIT)
+  return { value: edge * (1 + x - EXP_LIMIT), slope: edge }
+}
+
+/** Raw `model` select from module JSON (a plain value or its `{ default }` declaration). */
+export function readModelProperty(properties: Record<string, unknown> | undefined): unknown {
+  const raw = properties?.model
+  return raw && typeof raw === 'object' && 'default' in (raw as object) ? (raw as { default: unknown }).default : raw
+}
+
+/** The model a part uses: module JSON `model` property, `piecewise` unless set to `shockley`. */
+export function readJunctionModel(properties: Record<string, unknown> | undefined): JunctionModel {
+  return readModelProperty(properties) === 'shockley' ? 'shockley' : 'piecewise'
+}
+
+/**
+ * Shockley parameters from module JSON, or undefined for piecewise parts.
+ * A missing or zero `saturationCurrent` is derived so the part drops exactly
+ * its forward voltage at its rated current — so Vf stays the one knob users tune.
+ */
+export function readShockleyParams(
+  properties: Record<string, unknown> | undefined,
+  defaults: {
+    forwardVoltage: number
+    ratedCurrent: number
+    emissionCoefficient: number
+    seriesResistance: number
+    breakdownVoltage?: number
+  }
+): ShockleyParams | undefined {
+  if (readJunctionModel(properties) !== 'shockley') return undefined
+  const n = Math.max(parseNumericProperty(properties?.emissionCoefficient, defaults.emissionCoefficient), 0.5)
+  const rs = Math.max(parseNumericProperty(properties?.seriesResistance, defaults.seriesResistance), 0)
+  const ratedCurrent = Math.max(defaults.ratedCurrent, 1e-6)
+  const junctionDrop = Math.max(defaults.forwardVoltage - ratedCurrent * rs, 0.05)
+  const explicitIs = parseNumericProperty(properties?.saturationCurrent, 0)
+  const saturationCurrent = explicitIs > 0 ? explicitIs : ratedCurrent / Math.exp(junctionDrop / (n * THERMAL_VOLTAGE))
+
+  const params: ShockleyParams = { saturationCurrent, emissionCoefficient: n, seriesResistance: rs }
+  if (defaults.breakdownVoltage !== undefined) {
+    params.breakdownVoltage = defaults.breakdownVoltage
+    params.breakdownCurrent = Math.max(parseNumericProperty(properties?.breakdownCurrent, 0.005), 1e-9)
+    params.breakdownEmission = Math.max(parseNumericProperty(properties?.breakdownEmission, 1), 0.1)
+  }
+  return params
+}
+
+/** Current and slope of the bare junction (no series resistance). */
+function intrinsicCurrent(params: ShockleyParams, vj: number): JunctionOperatingPoint {
+  const nVt = params.emissionCoefficient * THERMAL_VOLTAGE
+  const forward = safeExp(vj / nVt)
+  let current = params.saturationCurrent * (forward.value - 1)
+  let conductance = (params.saturationCurrent * forward.slope) / nVt
+  if (params.breakdownVoltage !== undefined) {
+    const nbvVt = (params.breakdownEmission ?? 1) * THERMAL_VOLTAGE
+    const reverse = safeExp(-(vj + params.breakdownVoltage) / nbvVt)
+    const ibv = params.breakdownCurrent ?? 0.005
+    current -= ibv * reverse.value
+    conductance += (ibv * reverse.slope) / nbvVt
+  }
+  return { current, conductance }
+}
+
+/** Terminal current and small-signal conductance at terminal voltage `v` (anode − cathode). */
+export function junctionCurrent(params: ShockleyParams, v: number): JunctionOperatingPoint {
+  const rs = params.seriesResistance
+  if (rs <= 0) return intrinsicCurrent(params, v)
+
+  // Solve Vj + Rs·I(Vj) = V; the left side is monotonic so the root is bracketed by 0 and V.
+  let lo = Math.min(0, v)
+  let hi = Math.max(0, v)
+  let vj = v >= 0 ? Math.min(v, params.emissionCoefficient * THERMAL_VOLTAGE * 40) : v
+  vj = Math.min(Math.max(vj, lo), hi)
+  let point = intrinsicCurrent(params, vj)
+  for (let i = 0; i < 100; i++) {
+    const residual = vj + rs * point.current - v
+    if (Math.abs(residual) < 1e-12) break
+    if (residual > 0) hi = vj
+    else lo = vj
+    let next = vj - residual / (1 + rs * point.conductance)
+    if (!(next > lo && next < hi)) next = (lo + hi) / 2
+    if (Math.abs(next - vj) < 1e-15) break
+    vj = next
+    point = intrinsicCurrent(params, vj)
+  }
+  return { current: point.current, conductance: point.conductance / (1 + rs * point.conductance) }
+}
+
+/** Starting guess: the terminal voltage that carries 1 mA forward. */
+export function initialJunctionVoltage(params: ShockleyParams): number {
+  const nVt = params.emissionCoefficient * THERMAL_VOLTAGE
+  return nVt * Math.log(1 + 1e-3 / params.saturationCurrent) + 1e-3 * params.seriesResistance
+}
+
+/**
+ * Damped Newton step. A bare junction uses SPICE-style limiting: once the
+ * exponential is steep, a proposed jump is replaced by its logarithm so the
+ * next iterate stays representable. With series resistance the terminal curve
+ * turns ohmic, so the step is only capped at MAX_SERIES_STEP volts.
+ */
+export function limitJunctionStep(params: ShockleyParams, vNew: number, vOld: number): number {
+  const nVt = params.emissionCoefficient * THERMAL_VOLTAGE
+  if (params.seriesResistance > 0) {
+    vNew = Math.min(Math.max(vNew, vOld - MAX_SERIES_STEP), vOld + MAX_SERIES_STEP)
+  } else {
+    const vCrit = nVt * Math.log(nVt / (Math.SQRT2 * params.saturationCurrent))
+    if (vNew > vCrit && Math.abs(vNew - vOld) > 2 * nVt) {
+      if (vOld > 0) {
+        const arg = 1 + (vNew - vOld) / nVt
+        vNew = arg > 0 ? vOld + nVt * Math.log(arg) : vCrit
+      } else {
+        vNew = nVt * Math.log(Math.max(vNew / nVt, 1))
+      }
+    }
+    if (params.breakdownVoltage !== undefined) {
+      // Mirror of the forward rule around −BV.
+      const nbvVt = (params.breakdownEmission ?? 1) * THERMAL_VOLTAGE
+      const rNew = -(vNew + params.breakdownVoltage)
+      const rOld = -(vOld + params.breakdownVoltage)
+      if (rNew > 0 && Math.abs(rNew - rOld) > 2 * nbvVt) {
+        const limited =
+          rOld > 0 ? rOld + nbvVt * Math.log(1 + (rNew - rOld) / nbvVt) : nbvVt * Math.log(Math.max(rNew / nbvVt, 1))
+        vNew = -(limited + params.breakdownVoltage)
+      }
+    }
+  }
+  return vNew
+}
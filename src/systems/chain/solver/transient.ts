@@ -0,0 +1,506 @@
+/**
+ * Time-domain transient analysis on top of the MNA engine.
+ *
+ * Each step replaces capacitors and inductors with their companion models
+ * (a conductance in parallel with a history current source) and re-settles the
+ * piecewise devices before advancing. AC sources follow their waveform and PWM
+ * GPIO pins switch at the carrier frequency instead of being averaged.
+ */
+
+import type { WireConnection } from '../../../modules/types'
+import { sampleWaveform, vrmsToVpeak } from '../../../utils/acSourceVisual'
+import { resolveLogicModule } from '../../../modules/logicModule'
+import { buildRegulatorSources } from '../regulatorStamps'
+import { buildLogicGateStamps, updateLogicGateStates } from '../logicGateStamps'
+import { detectBoostConverters, resolveBoostDuty } from '../boostConverterStamps'
+import { getTerminals, isGroundReference } from '../components/registry'
+import type { GridCellLike } from '../types'
+import { flattenSubcircuits } from '../subcircuits'
+import {
+  buildStampNetlist,
+  driverChannelResistors,
+  shockleyCurrent,
+  solveMNA,
+  transistorCurrent,
+  updateDeviceStates,
+  type CurrentSourceStamp,
+  type DeviceStates,
+  type ResistorStamp,
+  type VoltageSourceStamp,
+} from './engine'
+
+export type TransientMethod = 'backward-euler' | 'trapezoidal'
+
+export interface TransientOptions {
+  /** Integration step in seconds. */
+  timeStep: number
+  /** Simulated end time in seconds. */
+  endTime: number
+  /** Companion-model integration rule (default trapezoidal; the first step is always backward Euler). */
+  method?: TransientMethod
+  /** Carrier frequency for PWM GPIO pins and boost switches, in Hz (default 490, Uno analogWrite). */
+  pwmFrequency?: number
+  /** Record every Nth step into the waveforms (default 1). */
+  sampleEvery?: number
+  /**
+   * Carry on from an earlier run's `finalState`: sources keep their phase and the
+   * capacitors and inductors it knew start where they were left (others start
+   * as on a fresh run). Sample times still count from 0.
+   */
+  resume?: TransientState
+}
+
+/** Reactive parts at the end of a run, keyed like `components`, for a later run to resume from. */
+export interface TransientState {
+  /** Source clock at the end of the run, in seconds. */
+  time: number
+  capacitors: Map<string, { voltage: number; current: number }>
+  inductors: Map<string, { voltage: number; current: number }>
+}
+
+export interface ComponentWaveform {
+  componentId: string
+  componentType: string
+  /** Voltage across the element: first terminal minus second (A−B, anode−cathode, C−E, D−S, +−−). */
+  voltage: number[]
+  /** Current through the element from its first terminal to its second; sources report current delivered out of +. */
+  current: number[]
+}
+
+export interface TransientSolveResult {
+  works: boolean
+  reason?: string
+  errors: string[]
+  /** Sample times in seconds; every waveform is indexed the same way. */
+  time: number[]
+  netVoltages: Map<number, number[]>
+  /** Keyed by componentId; parts stamped as several elements add `:2`, `:3`… for the extra ones. */
+  components: Map<string, ComponentWaveform>
+  posToNet: Map<string, number>
+  groundNet: number
+  /** Where the run left off; set when it works. */
+  finalState?: TransientState
+}
+
+const MAX_TRANSIENT_STEPS = 200_000
+const DEFAULT_PWM_FREQUENCY = 490
+
+interface CapacitorHistory {
+  voltage: number
+  current: number
+}
+
+interface InductorHistory {
+  voltage: number
+  current: number
+}
+
+interface SettledPoint {
+  voltages: number[]
+  sourceCurrents: number[]
+  /** Device regions the solution was computed with (source currents follow this order). */
+  solved: DeviceStates
+  /** Time-dependent plus regulator sources passed to solveMNA ahead of the device sources. */
+  suppliedSourceCount: number
+}
+
+/**
+ * Element currents for the switching devices of a settled point. Conducting
+ * junctions are stamped as a source plus a parallel resistor, so their current
+ * is the source branch current plus the resistor share. Devices appear in
+ * solveMNA's source list after the supplied sources, in DeviceStates order;
+ * modelled junctions and transistors have no branch and read their model
+ * current instead.
+ */
+function deviceCurrents(point: SettledPoint): {
+  leds: number[]
+  diodes: number[]
+  zeners: number[]
+  npns: number[]
+  opAmps: number[]
+} {
+  const { voltages, sourceCurrents, solved } = point
+  let offset = point.suppliedSourceCount
+  const nextCurrent = () => sourceCurrents[offset++] ?? 0
+  const across = (a: number, b: number) => (voltages[a] ?? 0) - (voltages[b] ?? 0)
+
+  const leds = solved.leds.map((led) =>
+    led.shockley
+      ? shockleyCurrent(led, voltages)
+      : led.isOn
+        ? nextCurrent() + led.forwardVoltage / led.seriesResistance
+        : across(led.netAnode, led.netCathode) / 1e9
+  )
+  const diodes = solved.diodes.map((d) =>
+    d.shockley ? shockleyCurrent(d, voltages) : d.isOn ? nextCurrent() + d.forwardVoltage / d.seriesResistance : 0
+  )
+  const zeners = solved.zeners.map((z) =>
+    z.shockley
+      ? shockleyCurrent(z, voltages)
+      : z.mode === 'forward'
+        ? nextCurrent() + z.forwardVoltage / z.seriesResistance
+        : z.mode === 'zener'
+          ? -(nextCurrent() + z.zenerVoltage / z.seriesResistance)
+          : 0
+  )
+  const npns = solved.npns.map((t) =>
+    t.ebersMoll ? transistorCurrent(t, voltages) : t.isOn ? nextCurrent() + t.vceSat / 0.5 : 0
+  )
+  const opAmps = solved.opAmps.map(() => -nextCurrent())
+  return { leds, diodes, zeners, npns, opAmps }
+}
+
+function pwmLevel(fullVoltage: number, duty: number, frequency: number, t: number): number {
+  const phase = t * frequency - Math.floor(t * frequency)
+  return phase < duty ? fullVoltage : 0
+}
+
+/** Instantaneous value of a source at time `t` (AC waveform or switched PWM). */
+function sourceVoltageAt(source: VoltageSourceStamp, t: number, pwmFrequency: number): number {
+  if (source.ac) {
+    const vpeak = vrmsToVpeak(source.ac.vrms, source.ac.waveform)
+    return vpeak * sampleWaveform(source.ac.waveform, source.ac.frequency * t)
+  }
+  if (source.pwm !== undefined && source.pwm > 0 && source.pwm < 100) {
+    const duty = source.pwm / 100
+    return pwmLevel(source.voltage / duty, duty, pwmFrequency, t)
+  }
+  return source.voltage
+}
+
+export function solveTransient(
+  gridData: GridCellLike[][],
+  wires: WireConnection[],
+  options: TransientOptions,
+  gpioStates?: Map<number, any>
+): TransientSolveResult {
+  const method = options.method ?? 'trapezoidal'
+  const pwmFrequency = options.pwmFrequency ?? DEFAULT_PWM_FREQUENCY
+  const sampleEvery = Math.max(1, Math.floor(options.sampleEvery ?? 1))
+  const dt = options.timeStep
+
+  // Sub-circuit blocks are expanded first; their internals report under `<instance>/<inner>` ids
+  const flat = flattenSubcircuits(gridData, wires)
+  gridData = flat.gridData
+  wires = flat.wires
+  const netlist = buildStampNetlist(gridData, wires, gpioStates)
+  const { nodeCount, groundNet, posToNet, components, errors } = netlist
+
+  const emptyResult = (reason: string): TransientSolveResult => ({
+    works: false,
+    reason,
+    errors,
+    time: [],
+    netVoltages: new Map(),
+    components: new Map(),
+    posToNet,
+    groundNet,
+  })
+
+  if (!(dt > 0) || !(options.endTime > 0)) {
+    return emptyResult('Transient analysis needs a positive time step and end time')
+  }
+  const stepCount = Math.ceil(options.endTime / dt - 1e-9)
+  if (stepCount > MAX_TRANSIENT_STEPS) {
+    return emptyResult(
+      `Transient analysis would take ${stepCount} steps (limit ${MAX_TRANSIENT_STEPS}) — increase the time step`
+    )
+  }
+  if (nodeCount === 0) return emptyResult('No electrical nodes in circuit')
+  if (netlist.voltageSources.length === 0) return emptyResult('No voltage source found in circuit')
+  const hasGround = components.some((c) => getTerminals(c).some((t) => isGroundReference(t.moduleCell)))
+  if (!hasGround) return emptyResult('No ground reference found in circuit')
+
+  // Inductor DCR is folded into the inductor companion model below.
+  const inductorIds = new Set(netlist.inductors.map((l) => l.componentId))
+  const resistors = netlist.resistors.filter((r) => !inductorIds.has(r.componentId))
+  const { capacitors, inductors, regulators } = netlist
+
+  // Averaged boost converters become real switches: the FET follows the resolved duty.
+  const boostDuty = new Map<string, number>()
+  detectBoostConverters({
+    mosfets: netlist.mosfets,
+    inductors,
+    diodes: netlist.diodes,
+    voltageSources: netlist.voltageSources,
+    components,
+    groundNet,
+  }).forEach((boost) => {
+    const mosfet = netlist.mosfets.find((m) => m.componentId === boost.mosfetId)
+    if (!mosfet) return
+    const duty = resolveBoostDuty(boost, gridData, wires, components, posToNet, gpioStates, 0, 0, mosfet.vth)
+    if (duty !== null) boostDuty.set(boost.mosfetId, duty)
+  })
+
+  let devices: DeviceStates = {
+    leds: netlist.leds.map((led) => ({ ...led })),
+    diodes: netlist.diodes.map((d) => ({ ...d })),
+    zeners: netlist.zeners.map((z) => ({ ...z })),
+    npns: netlist.npns.map((t) => ({ ...t })),
+    // A boost switch is driven hard on/off, so it always uses the rdsOn stamp.
+    mosfets: netlist.mosfets.map((t) => (boostDuty.has(t.componentId) ? { ...t, squareLaw: undefined } : { ...t })),
+    opAmps: netlist.opAmps.map((op) => ({ ...op })),
+    drivers: netlist.driverChannels.map((d) => ({ ...d })),
+  }
+  let logicGateStates = netlist.logicGateICs.map((ic) => ({ ...ic, gates: ic.gates.map((g) => ({ ...g })) }))
+
+  const time: number[] = []
+  const netVoltages = new Map<number, number[]>()
+  for (let net = 0; net < nodeCount; net++) netVoltages.set(net, [])
+  const waveforms = new Map<string, ComponentWaveform>()
+  const componentTypes = new Map(components.map((c) => [c.componentId, resolveLogicModule(c.moduleDefinition)]))
+
+  /** Stable waveform keys, assigned in stamp order so repeated ids get `:2`, `:3`… */
+  const keyCounts = new Map<string, number>()
+  const waveformKey = (componentId: string): string => {
+    const count = (keyCounts.get(componentId) ?? 0) + 1
+    keyCounts.set(componentId, count)
+    return count === 1 ? componentId : `${componentId}:${count}`
+  }
+  const resistorKeys = resistors.map((r) => waveformKey(r.componentId))
+  const capKeys = capacitors.map((c) => waveformKey(c.componentId))
+  const inductorKeys = inductors.map((l) => waveformKey(l.componentId))
+  const sourceKeys = netlist.voltageSources.map((s) => waveformKey(s.componentId))
+  const ledKeys = devices.leds.map((l) => waveformKey(l.componentId))
+  const diodeKeys = devices.diodes.map((d) => waveformKey(d.componentId))
+  const zenerKeys = devices.zeners.map((z) => waveformKey(z.componentId))
+  const npnKeys = devices.npns.map((t) => waveformKey(t.componentId))
+  const mosfetKeys = devices.mosfets.map((t) => waveformKey(t.componentId))
+  const opAmpKeys = devices.opAmps.map((op) => waveformKey(op.componentId))
+
+  const startTime = options.resume?.time ?? 0
+  const capHistory: CapacitorHistory[] = capacitors.map(
+    (c, idx) => options.resume?.capacitors.get(capKeys[idx]) ?? { voltage: c.storedVoltage, current: 0 }
+  )
+  const inductorHistory: InductorHistory[] = inductors.map(
+    (_, idx) => options.resume?.inductors.get(inductorKeys[idx]) ?? { voltage: 0, current: 0 }
+  )
+
+  const push = (key: string, componentId: string, voltage: number, current: number) => {
+    let waveform = waveforms.get(key)
+    if (!waveform) {
+      waveform = { componentId, componentType: componentTypes.get(componentId) ?? '', voltage: [], current: [] }
+      waveforms.set(key, waveform)
+    }
+    waveform.voltage.push(voltage)
+    waveform.current.push(current)
+  }
+
+  const record = (t: number, point: SettledPoint) => {
+    const { voltages, sourceCurrents, solved } = point
+    time.push(t)
+    netVoltages.forEach((samples, net) => samples.push(voltages[net] ?? 0))
+    const across = (a: number, b: number) => (voltages[a] ?? 0) - (voltages[b] ?? 0)
+
+    resistors.forEach((r, idx) => {
+      const v = across(r.netA, r.netB)
+      push(resistorKeys[idx], r.componentId, v, v / Math.max(r.resistance, 1e-9))
+    })
+    capacitors.forEach((c, idx) => push(capKeys[idx], c.componentId, capHistory[idx].voltage, capHistory[idx].current))
+    inductors.forEach((l, idx) =>
+      push(inductorKeys[idx], l.componentId, inductorHistory[idx].voltage, inductorHistory[idx].current)
+    )
+    netlist.voltageSources.forEach((s, idx) =>
+      push(sourceKeys[idx], s.componentId, across(s.netPos, s.netNeg), -(sourceCurrents[idx] ?? 0))
+    )
+
+    const currents = deviceCurrents(point)
+    solved.leds.forEach((led, idx) => {
+      const flip = led.reversed ? -1 : 1
+      push(ledKeys[idx], led.componentId, across(led.netAnode, led.netCathode) * flip, currents.leds[idx] * flip)
+    })
+    solved.diodes.forEach((d, idx) =>
+      push(diodeKeys[idx], d.componentId, across(d.netAnode, d.netCathode), currents.diodes[idx])
+    )
+    solved.zeners.forEach((z, idx) =>
+      push(zenerKeys[idx], z.componentId, across(z.netAnode, z.netCathode), currents.zeners[idx])
+    )
+    solved.npns.forEach((t, idx) => {
+      const v = t.polarity === 'pnp' ? across(t.netEmitter, t.netCollector) : across(t.netCollector, t.netEmitter)
+      push(npnKeys[idx], t.componentId, v, currents.npns[idx])
+    })
+    solved.mosfets.forEach((t, idx) => {
+      const v = t.polarity === 'p' ? across(t.netSource, t.netDrain) : across(t.netDrain, t.netSource)
+      const current = t.squareLaw ? transistorCurrent(t, voltages) : t.isOn ? v / Math.max(t.rdsOn, 1e-3) : 0
+      push(mosfetKeys[idx], t.componentId, v, current)
+    })
+    solved.opAmps.forEach((op, idx) =>
+      push(opAmpKeys[idx], op.componentId, across(op.netOut, op.netVee), currents.opAmps[idx])
+    )
+  }
+
+  /** Settle switching devices for one time point; returns null on a singular matrix. */
+  const settle = (
+    t: number,
+    companionResistors: ResistorStamp[],
+    companionSources: CurrentSourceStamp[],
+    capsAsSources: boolean,
+    previous: number[] | undefined
+  ): SettledPoint | null => {
+    const timeSources = netlist.voltageSources.map((s) => ({
+      ...s,
+      voltage: sourceVoltageAt(s, startTime + t, pwmFrequency),
+    }))
+    let voltages = previous
+    let point: SettledPoint | null = null
+
+    for (let iteration = 0; iteration < 12; iteration++) {
+      const { voltageSources: regulatorSources, resistors: regulatorResistors } = buildRegulatorSources(
+        regulators,
+        voltages,
+        timeSources,
+        gridData,
+        posToNet,
+        resistors
+      )
+      const logicGateUpdate = updateLogicGateStates(logicGateStates, voltages)
+      logicGateStates = logicGateUpdate.states
+      const { resistors: logicGateResistors } = buildLogicGateStamps(logicGateStates, voltages)
+
+      const solution = solveMNA(
+        nodeCount,
+        groundNet,
+        [
+          ...resistors,
+          ...companionResistors,
+          ...driverChannelResistors(devices.drivers, voltages ?? []),
+          ...regulatorResistors,
+          ...logicGateResistors,
+        ],
+        [...timeSources, ...regulatorSources],
+        devices.leds,
+        devices.diodes,
+        devices.zeners,
+        capsAsSources ? capacitors.map((c, idx) => ({ ...c, storedVoltage: capHistory[idx].voltage })) : [],
+        devices.npns,
+        devices.mosfets,
+        devices.opAmps,
+        companionSources
+      )
+      if (!solution) return null
+      voltages = solution.voltages
+      point = {
+        ...solution,
+        solved: devices,
+        suppliedSourceCount: timeSources.length + regulatorSources.length,
+      }
+
+      const update = updateDeviceStates(devices, solution.voltages)
+      let changed = update.changed || logicGateUpdate.changed
+
+      // The clamped junction voltage always reads as forward-biased, so a
+      // conducting junction turns off when its current reverses (AC, ringing).
+      const currents = deviceCurrents(point)
+      const leds = update.states.leds.map((led, idx) => {
+        if (!devices.leds[idx].isOn || !led.isOn || currents.leds[idx] >= 0) return led
+        changed = true
+        return { ...led, isOn: false }
+      })
+      const diodes = update.states.diodes.map((d, idx) => {
+        if (!devices.diodes[idx].isOn || !d.isOn || currents.diodes[idx] >= 0) return d
+        changed = true
+        return { ...d, isOn: false }
+      })
+      const zeners = update.states.zeners.map((z, idx) => {
+        const previous = devices.zeners[idx].mode
+        if (previous === 'off' || z.mode !== previous) return z
+        const reversed = previous === 'forward' ? currents.zeners[idx] < 0 : currents.zeners[idx] > 0
+        if (!reversed) return z
+        changed = true
+        return { ...z, mode: 'off' as const }
+      })
+      const mosfets = update.states.mosfets.map((m) => {
+        const duty = boostDuty.get(m.componentId)
+        if (duty === undefined) return m
+        const isOn = pwmLevel(1, duty, pwmFrequency, startTime + t) > 0
+        if (isOn !== m.isOn) changed = true
+        return { ...m, isOn }
+      })
+      devices = { ...update.states, leds, diodes, zeners, mosfets }
+      if (!changed) break
+    }
+
+    return point
+  }
+
+  // t = 0: capacitors hold their stored voltage, inductors carry no current
+  // (or what they carried when the resumed run ended).
+  const heldInductorCurrents: CurrentSourceStamp[] = inductors
+    .map((l, idx) => ({
+      netFrom: l.netA,
+      netTo: l.netB,
+      current: inductorHistory[idx].current,
+      componentId: `${l.componentId}_ieq`,
+    }))
+    .filter((source) => source.current !== 0)
+  const initial = settle(0, [], heldInductorCurrents, true, undefined)
+  if (!initial) return emptyResult('Circuit could not be solved at t = 0 (singular matrix)')
+  let previousVoltages = initial.voltages
+  record(0, initial)
+
+  for (let step = 1; step <= stepCount; step++) {
+    const t = Math.min(step * dt, options.endTime)
+    const h = t - (step - 1) * dt
+    const trapezoidal = method === 'trapezoidal' && step > 1
+
+    const companionResistors: ResistorStamp[] = []
+    const companionSources: CurrentSourceStamp[] = []
+
+    const capConductance = capacitors.map((c, idx) => {
+      const g = (trapezoidal ? 2 : 1) * c.capacitance / h
+      const ieq = g * capHistory[idx].voltage + (trapezoidal ? capHistory[idx].current : 0)
+      companionResistors.push({ netA: c.netA, netB: c.netB, resistance: 1 / g, componentId: `${c.componentId}_ceq` })
+      companionSources.push({ netFrom: c.netB, netTo: c.netA, current: ieq, componentId: `${c.componentId}_ieq` })
+      return { g, ieq }
+    })
+
+    const inductorConductance = inductors.map((l, idx) => {
+      const rl = (trapezoidal ? 2 : 1) * l.inductance / h
+      const g = 1 / (l.dcResistance + rl)
+      const history = inductorHistory[idx]
+      const vlPrev = history.voltage - l.dcResistance * history.current
+      const ieq = g * (rl * history.current + (trapezoidal ? vlPrev : 0))
+      companionResistors.push({
+        netA: l.netA,
+        netB: l.netB,
+        resistance: l.dcResistance + rl,
+        componentId: `${l.componentId}_leq`,
+      })
+      companionSources.push({ netFrom: l.netA, netTo: l.netB, current: ieq, componentId: `${l.componentId}_ieq` })
+      return { g, ieq }
+    })
+
+    const solution = settle(t, companionResistors, companionSources, false, previousVoltages)
+    if (!solution) return emptyResult(`Circuit could not be solved at t = ${t.toExponential(3)} s (singular matrix)`)
+    const { voltages } = solution
+    previousVoltages = voltages
+
+    capacitors.forEach((c, idx) => {
+      const v = (voltages[c.netA] ?? 0) - (voltages[c.netB] ?? 0)
+      capHistory[idx] = { voltage: v, current: capConductance[idx].g * v - capConductance[idx].ieq }
+    })
+    inductors.forEach((l, idx) => {
+      const v = (voltages[l.netA] ?? 0) - (voltages[l.netB] ?? 0)
+      inductorHistory[idx] = { voltage: v, current: inductorConductance[idx].g * v + inductorConductance[idx].ieq }
+    })
+
+    if (step % sampleEvery === 0 || step === stepCount) {
+      record(t, solution)
+    }
+  }
+
+  return {
+    works: true,
+    errors,
+    time,
+    netVoltages,
+    components: waveforms,
+    posToNet,
+    groundNet,
+    finalState: {
+      time: startTime + options.endTime,
+      capacitors: new Map(capKeys.map((key, idx) => [key, capHistory[idx]])),
+      inductors: new Map(inductorKeys.map((key, idx) => [key, inductorHistory[idx]])),
+    },
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Large-signal transistor models for the Newton-Raphson solve.
+ *
+ * BJTs use the Ebers-Moll transport model in the two junction voltages
+ * (NPN: Vbe, Vbc — PNP: Veb, Vcb):
+ *   Ic = Is·(e^(Vbe/Vt) − e^(Vbc/Vt)) − Is/βR·(e^(Vbc/Vt) − 1)
+ *   Ib = Is/βF·(e^(Vbe/Vt) − 1) + Is/βR·(e^(Vbc/Vt) − 1)
+ * MOSFETs use the square law (NMOS: Vgs, Vds — PMOS: Vsg, Vsd) with
+ * channel-length modulation, swapping drain and source when Vds < 0:
+ *   triode      Id = K·(Vov·Vds − Vds²/2)·(1 + λ·Vds)
+ *   saturation  Id = K/2·Vov²·(1 + λ·Vds)
+ * Everything here is the n-type device; the engine mirrors control voltages
+ * and currents for PNP/PMOS.
+ */
+
+import { parseNumericProperty } from '../utils'
+import {
+  JUNCTION_ON_CURRENT,
+  THERMAL_VOLTAGE,
+  junctionCurrent,
+  readModelProperty,
+  type ShockleyParams,
+} from './junction'
+
+export type TransistorRegion = 'cutoff' | 'active' | 'saturation' | 'triode'
+
+export interface BjtParams {
+  /** Transport saturation current Is in amperes. */
+  saturationCurrent: number
+  /** Forward current gain βF (the module's `beta`). */
+  forwardBeta: number
+  /** Reverse current gain βR. */
+  reverseBeta: number
+}
+
+export interface MosfetParams {
+  /** Transconductance parameter K = µCox·W/L in A/V². */
+  transconductance: number
+  /** Channel-length modulation λ in 1/V. */
+  channelModulation: number
+}
+
+export interface BjtOperatingPoint {
+  collectorCurrent: number
+  baseCurrent: number
+  dIcDVbe: number
+  dIcDVbc: number
+  dIbDVbe: number
+  dIbDVbc: number
+}
+
+export interface MosfetOperatingPoint {
+  drainCurrent: number
+  /** dId/dVgs */
+  gm: number
+  /** dId/dVds */
+  gds: number
+}
+
+/** Collector current at which the module's `vbe` is specified when deriving Is. */
+const BJT_REFERENCE_CURRENT = 1e-3
+/** Gate overdrive past Vth at which `rdsOn` is specified when deriving K (logic-level 5 V drive). */
+const MOSFET_REFERENCE_DRIVE = 5
+/** Largest Vgs/Vds update per Newton iteration. */
+const MAX_MOSFET_STEP = 2
+/** A base-collector junction forward-biased past this reads as saturation. */
+const BJT_SATURATION_VBC = 0.4
+
+/** Ebers-Moll parameters from module JSON, or undefined when the part is the on/off switch. */
+export function readBjtParams(
+  properties: Record<string, unknown> | undefined,
+  defaults: { vbe: number; beta: number }
+): BjtParams | undefined {
+  if (readModelProperty(properties) !== 'ebers-moll') return undefined
+  const explicitIs = parseNumericProperty(properties?.saturationCurrent, 0)
+  return {
+    saturationCurrent: explicitIs > 0 ? explicitIs : BJT_REFERENCE_CURRENT / Math.exp(defaults.vbe / THERMAL_VOLTAGE),
+    forwardBeta: Math.max(parseNumericProperty(properties?.beta, defaults.beta), 1),
+    reverseBeta: Math.max(parseNumericProperty(properties?.reverseBeta, 1), 0.01),
+  }
+}
+
+/**
+ * Square-law parameters from module JSON, or undefined when the part is the
+ * on/off switch. A missing or zero `transconductance` is derived so the
+ * channel shows `rdsOn` at 5 V of gate drive.
+ */
+export function readMosfetParams(
+  properties: Record<string, unknown> | undefined,
+  defaults: { vth: number; rdsOn: number }
+): MosfetParams | undefined {
+  if (readModelProperty(properties) !== 'square-law') return undefined
+  const explicitK = parseNumericProperty(properties?.transconductance, 0)
+  const overdrive = Math.max(MOSFET_REFERENCE_DRIVE - defaults.vth, 0.5)
+  return {
+    transconductance: explicitK > 0 ? explicitK : 1 / (Math.max(defaults.rdsOn, 1e-3) * overdrive),
+    channelModulation: Math.max(parseNumericProperty(properties?.channelModulation, 0.01), 0),
+  }
+}
+
+/** Either BJT junction as a bare Shockley diode (for currents and step limiting). */
+export function bjtJunction(params: BjtParams): ShockleyParams {
+  return { saturationCurrent: params.saturationCurrent, emissionCoefficient: 1, seriesResistance: 0 }
+}
+
+export function bjtOperatingPoint(params: BjtParams, vbe: number, vbc: number): BjtOperatingPoint {
+  const junction = bjtJunction(params)
+  const forward = junctionCurrent(junction, vbe)
+  const reverse = junctionCurrent(junction, vbc)
+  return {
+    collectorCurrent: forward.current - reverse.current * (1 + 1 / params.reverseBeta),
+    baseCurrent: forward.current / params.forwardBeta + reverse.current / params.reverseBeta,
+    dIcDVbe: forward.conductance,
+    dIcDVbc: -reverse.conductance * (1 + 1 / params.reverseBeta),
+    dIbDVbe: forward.conductance / params.forwardBeta,
+    dIbDVbc: reverse.conductance / params.reverseBeta,
+  }
+}
+
+export function bjtRegion(params: BjtParams, vbe: number, vbc: number): TransistorRegion {
+  if (bjtOperatingPoint(params, vbe, vbc).collectorCurrent < JUNCTION_ON_CURRENT) return 'cutoff'
+  return vbc > BJT_SATURATION_VBC ? 'saturation' : 'active'
+}
+
+function forwardMosfet(params: MosfetParams, vth: number, vgs: number, vds: number): MosfetOperatingPoint {
+  const vov = vgs - vth
+  if (vov <= 0) return { drainCurrent: 0, gm: 0, gds: 0 }
+  const k = params.transconductance
+  const lambda = params.channelModulation
+  const clm = 1 + lambda * vds
+  if (vds < vov) {
+    const core = vov * vds - (vds * vds) / 2
+    return {
+      drainCurrent: k * core * clm,
+      gm: k * vds * clm,
+      gds: k * (vov - vds) * clm + k * core * lambda,
+    }
+  }
+  const core = (vov * vov) / 2
+  return { drainCurrent: k * core * clm, gm: k * vov * clm, gds: k * core * lambda }
+}
+
+export function mosfetOperatingPoint(params: MosfetParams, vth: number, vgs: number, vds: number): MosfetOperatingPoint {
+  if (vds >= 0) return forwardMosfet(params, vth, vgs, vds)
+  // Drain and source trade places: Id(vgs, vds) = −f(vgs − vds, −vds).
+  const swapped = forwardMosfet(params, vth, vgs - vds, -vds)
+  return { drainCurrent: -swapped.drainCurrent, gm: -swapped.gm, gds: swapped.gm + swapped.gds }
+}
+
+export function mosfetRegion(vth: number, vgs: number, vds: number): TransistorRegion {
+  const vov = (vds >= 0 ? vgs : vgs - vds) - vth
+  if (vov <= 0) return 'cutoff'
+  return Math.abs(vds) < vov ? 'triode' : 'saturation'
+}
+
+/** Square-law currents are polynomial, so a plain step cap is enough to keep Newton from overshooting. */
+export function limitMosfetStep(vNew: number, vOld: number): number {
+  return Math.min(Math.max(vNew, vOld - MAX_MOSFET_STEP), vOld + MAX_MOSFET_STEP)
+}
@@ -0,0 +1,117 @@
+import type { WireConnection, WireSegment } from '../../modules/types'
+import { readSubcircuitContent } from '../../modules/subcircuitModule'
+import { getPlacedComponents } from './components/registry'
+import type { GridCellLike } from './types'
+import { posKey } from './utils'
+
+/** Blocks placed inside blocks are expanded this many levels deep at most. */
+const MAX_SUBCIRCUIT_DEPTH = 8
+
+export interface FlattenedCircuit {
+  gridData: GridCellLike[][]
+  wires: WireConnection[]
+}
+
+function bridgeWire(id: string, from: { x: number; y: number }, to: { x: number; y: number }): WireConnection {
+  const electrical = {
+    isPowered: false,
+    isGrounded: false,
+    isPowerable: true,
+    isGroundable: true,
+    voltage: 0,
+    current: 0,
+    power: 0,
+    color: '#0E7490',
+    thickness: 1,
+    gauge: 22,
+    maxCurrent: 7,
+    maxPower: 0,
+  }
+  const segment: WireSegment = { id: `${id}-seg`, from, to, ...electrical }
+  return { id, segments: [segment], ...electrical }
+}
+
+function expandOnce(gridData: GridCellLike[][], wires: WireConnection[]): FlattenedCircuit | null {
+  const instances = getPlacedComponents(gridData)
+    .map((component) => ({ component, content: readSubcircuitContent(component.moduleDefinition) }))
+    .filter((entry): entry is typeof entry & { content: NonNullable<typeof entry.content> } => entry.content !== null)
+  if (instances.length === 0) return null
+
+  const instanceIds = new Set(instances.map((entry) => entry.component.componentId))
+  const grid: GridCellLike[][] = gridData.map((row, y) =>
+    row?.some((cell) => cell?.componentId && instanceIds.has(cell.componentId))
+      ? row.map((cell, x) =>
+          cell?.componentId && instanceIds.has(cell.componentId) ? { x, y, occupied: false } : cell
+        )
+      : row
+  )
+  const nextWires = [...wires]
+  const wireEnds = new Set(
+    wires.flatMap((wire) => wire.segments.flatMap((segment) => [posKey(segment.from.x, segment.from.y), posKey(segment.to.x, segment.to.y)]))
+  )
+
+  // Each instance's contents go in their own band below the sheet, out of reach of anything drawn there.
+  let bandY = gridData.length + 1
+  for (const { component, content } of instances) {
+    const prefix = `${component.componentId}/`
+    const width = Math.max(content.width, 1)
+    for (let y = grid.length; y < bandY + content.height; y++) {
+      grid.push(Array.from({ length: width }, (_, x) => ({ x, y, occupied: false })))
+    }
+
+    for (const inner of content.components) {
+      const x = inner.x
+      const y = bandY + inner.y
+      const row = grid[y]
+      while (row.length <= x) row.push({ x: row.length, y, occupied: false })
+      row[x] = { ...inner, x, y, occupied: true, componentId: `${prefix}${inner.componentId}` }
+    }
+
+    content.wires.forEach((wire) => {
+      nextWires.push({
+        ...wire,
+        id: `${prefix}${wire.id}`,
+        segments: wire.segments.map((segment) => ({
+          ...segment,
+          id: `${prefix}${segment.id}`,
+          from: { x: segment.from.x, y: bandY + segment.from.y },
+          to: { x: segment.to.x, y: bandY + segment.to.y },
+        })),
+      })
+    })
+
+    // Bridge each wired port pin on the sheet to every terminal of its net inside the band.
+    component.moduleDefinition.grid.forEach((moduleCell: { x: number; y: number; pin?: string; isConnectable?: boolean }) => {
+      if (!moduleCell.isConnectable) return
+      const port = content.ports.find((p) => p.name === moduleCell.pin)
+      if (!port) return
+      const pinPos = { x: component.baseX + moduleCell.x, y: component.baseY + moduleCell.y }
+      // An unwired port has nothing to bridge to; a lone bridge end would only invite near-miss snapping.
+      if (!wireEnds.has(posKey(pinPos.x, pinPos.y))) return
+      port.points.forEach((point, index) => {
+        nextWires.push(bridgeWire(`${prefix}port-${port.name}-${index}`, pinPos, { x: point.x, y: bandY + point.y }))
+      })
+    })
+
+    bandY += content.height + 1
+  }
+
+  return { gridData: grid, wires: nextWires }
+}
+
+/**
+ * Replace every placed sub-circuit block with its contents so buildNets and
+ * the MNA solver see plain components. Inner component and wire ids are
+ * prefixed with the instance id (`<instance>/<inner>`); the sheet's own cells
+ * and wires keep their ids and positions. Returns the inputs unchanged when the
+ * sheet has no blocks.
+ */
+export function flattenSubcircuits(gridData: GridCellLike[][], wires: WireConnection[]): FlattenedCircuit {
+  let current: FlattenedCircuit = { gridData, wires }
+  for (let depth = 0; depth < MAX_SUBCIRCUIT_DEPTH; depth++) {
+    const expanded = expandOnce(current.gridData, current.wires)
+    if (!expanded) break
+    current = expanded
+  }
+  return current
+}
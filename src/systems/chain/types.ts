@@ -1,4 +1,6 @@
 import type { WireConnection } from '../../modules/types'
+import type { NewtonReport } from './solver/junction'
+import type { LogicGateICStamp } from './logicGateStamps'
 
 export type TerminalPolarity = 'positive' | 'negative' | 'bidirectional'
 
@@ -11,8 +13,13 @@ export interface GridCellLike {
   resistance?: number
   capacitance?: number
   capacitorVoltage?: number
+  inductance?: number
   isOn?: boolean
   wiperPosition?: number
+  /** Stimulus values set on a sensor from the Controls panel */
+  sensorInputs?: Record<string, number>
+  /** Net label or power flag on this cell; cells with the same name are one net */
+  netLabel?: string
   x?: number
   y?: number
 }
@@ -88,6 +95,7 @@ export interface PlacedComponent {
   moduleDefinition: any
   resistance?: number
   capacitance?: number
+  inductance?: number
 }
 
 export interface TerminalInfo {
@@ -115,6 +123,8 @@ export interface ChainSolveResult {
   works: boolean
   reason?: string
   errors: string[]
+  /** Conditions the simulation runs through but real parts may not survive, such as a pin past its voltage limit */
+  warnings: string[]
   netVoltages: Map<number, number>
   nodeVoltages: Map<string, number>
   componentStates: Map<string, SolvedComponentState>
@@ -124,4 +134,8 @@ export interface ChainSolveResult {
   totalCurrent: number
   totalResistance: number
   totalPower: number
+  /** Newton-Raphson report when any junction or transistor uses a nonlinear model. */
+  convergence?: NewtonReport
+  /** Settled outputs of each logic-gate IC. */
+  logicGates?: LogicGateICStamp[]
 }
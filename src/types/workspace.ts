@@ -1,6 +1,7 @@
 import { WireConnection } from '../modules/types'
 import { ComponentState, GridCell } from '../systems/ElectricalSystem'
 import { createDefaultPlanSpacePreset } from '../modules/planSpacePreset'
+import type { OccupiedComponent } from '../utils/gridUtils'
 
 export type PlanBubbleShape = 'rounded' | 'rectangle' | 'ellipse' | 'diamond' | 'pill' | 'card' | 'phase'
 
@@ -45,19 +46,63 @@ export function createSchematicGroupBox(
   }
 }
 
+/**
+ * `text` labels are annotation only. `net` labels and `power` flags (VCC, GND,
+ * 3V3…) join every cell carrying the same text into one net, without a wire.
+ * Net labels stay on their sheet; `port`s also join same-named ones on the
+ * project's other sheets, and power flags join same-named ones on the sheets a
+ * port links (see utils/multiSheet).
+ */
+export type SchematicLabelKind = 'text' | 'net' | 'power' | 'port'
+
 export interface SchematicCellLabel {
   id: string
   x: number
   y: number
   text: string
+  /** Defaults to 'text' */
+  kind?: SchematicLabelKind
 }
 
-export function createSchematicCellLabel(x: number, y: number, text = ''): SchematicCellLabel {
+export function createSchematicCellLabel(
+  x: number,
+  y: number,
+  text = '',
+  kind: SchematicLabelKind = 'text'
+): SchematicCellLabel {
   return {
     id: `label-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
     x,
     y,
     text,
+    ...(kind !== 'text' ? { kind } : {}),
+  }
+}
+
+/** A port of a sub-circuit block: one net of the block's contents exposed as a pin. */
+export interface SubcircuitPort {
+  name: string
+  /** Terminals on this net, relative to the block contents' top-left corner. */
+  points: Array<{ x: number; y: number }>
+}
+
+/** Contents of a sub-circuit, carried by every placed instance so the solver can flatten it. */
+export interface SubcircuitContent {
+  components: OccupiedComponent[]
+  wires: WireConnection[]
+  ports: SubcircuitPort[]
+  width: number
+  height: number
+}
+
+/** A reusable block saved in a ProjectFolder and placed from the "Project Blocks" palette group. */
+export interface SubcircuitBlock extends SubcircuitContent {
+  id: string
+  name: string
+  description?: string
+  metadata: {
+    createdAt: string
+    updatedAt: string
   }
 }
 
@@ -78,6 +123,12 @@ export interface Schematic {
   labels?: SchematicCellLabel[]
   /** Maps microcontroller component id → flashed program artifact */
   programFlashes?: Record<string, ProgramFlashAssignment>
+  /** Stimulus script run by the Test Bench panel (see utils/testBench) */
+  testBench?: string
+  /** Ids of electrical rule check violations accepted on this sheet (see utils/electricalRuleCheck) */
+  ercWaivers?: string[]
+  /** Component ids the connectivity tidy layout leaves where they are (see utils/schematicTidyLayout) */
+  layoutPins?: string[]
   metadata: {
     createdAt: string
     updatedAt: string
@@ -328,6 +379,8 @@ export interface ProjectFolder {
   productSuiteSession?: ProductSuiteSession
   bom?: BOM
   assembly?: AssemblyGuide
+  /** Sub-circuit blocks collapsed from schematics in this folder */
+  blocks?: SubcircuitBlock[]
   metadata: {
     createdAt: string
     updatedAt: string
@@ -390,6 +443,21 @@ export function createSchematic(
   }
 }
 
+export function createSubcircuitBlock(
+  name: string,
+  content: SubcircuitContent,
+  description = ''
+): SubcircuitBlock {
+  const now = new Date().toISOString()
+  return {
+    id: newId('block'),
+    name,
+    description,
+    ...content,
+    metadata: { createdAt: now, updatedAt: now },
+  }
+}
+
 export function createDocument(name: string, content = ''): Document {
   const now = new Date().toISOString()
   return {
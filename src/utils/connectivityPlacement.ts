@@ -0,0 +1,396 @@
+import type { ComponentSummary } from '../agent/schematic/operations'
+import { SCHEMATIC_LAYOUT_GUIDELINES } from '../agent/schematic/layoutGuidelines'
+import type { WireConnection } from '../modules/types'
+import type { SchematicCellLabel, SchematicGroupBox } from '../types/workspace'
+import { netLabelName } from './netLabels'
+
+type Point = { x: number; y: number }
+
+/** A net as the placer sees it: the component pins on it, relative to each component's origin. */
+export interface PlacementNet {
+  pins: Array<{ componentId: string; relX: number; relY: number }>
+}
+
+export interface PlacementMetrics {
+  /** Sum over nets of the half perimeter of their pins' bounding box, in cells */
+  wireLength: number
+  /** Crossings between the straight pin-to-pin spans of different nets */
+  crossings: number
+}
+
+export interface ConnectivityPlacementOptions {
+  /** Components that stay at their current origin */
+  pinned?: Set<string>
+  /** Parts inside a box stay inside it; parts outside keep out of every box */
+  groupBoxes?: SchematicGroupBox[]
+  /** Starting origins for the parts free to move; their current origin otherwise */
+  seed?: Map<string, Point>
+  /** Capacitor id → the IC it decouples (see findDecouplingPairs) */
+  decoupling?: Map<string, string>
+}
+
+const ITERATIONS = 160
+const MAX_STEP = 4
+/** Pull of a decoupling capacitor towards its IC, relative to a two-pin net */
+const DECOUPLING_PULL = 3
+/** How far from its force-directed spot a part is searched for a free place */
+const LEGALIZE_RADIUS = 60
+/** A crossing costs this many cells of wire when comparing swaps */
+const CROSSING_COST = 6
+/** Pairwise swap refinement is quadratic in parts and nets; larger sheets skip it. */
+const SWAP_LIMIT = 40
+
+/** Parts that get decoupling capacitors across their supply pins. */
+const DECOUPLED_CATEGORIES = new Set(['ics', 'microcontrollers', 'drivers', 'wireless'])
+
+const isCapacitor = (component: ComponentSummary) => /capacitor/i.test(component.moduleName)
+
+/**
+ * Nets joining component pins: a wire's segments are one net, wires meet at
+ * shared ends, and net labels join same-named cells. Power flags are left out —
+ * they exist so rails don't have to be drawn across the sheet, and pulling every
+ * GND pin together would crush the layout.
+ */
+export function placementNets(
+  components: ComponentSummary[],
+  wires: WireConnection[],
+  labels: SchematicCellLabel[] = []
+): PlacementNet[] {
+  const parent = new Map<string, string>()
+  const find = (key: string): string => {
+    let root = key
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(key, root)
+    return root
+  }
+  const add = (key: string) => {
+    if (!parent.has(key)) parent.set(key, key)
+  }
+  const union = (a: string, b: string) => {
+    add(a)
+    add(b)
+    const ra = find(a)
+    const rb = find(b)
+    if (ra !== rb) parent.set(ra, rb)
+  }
+
+  for (const wire of wires) {
+    const first = wire.segments[0]?.from
+    if (!first) continue
+    const anchor = `${first.x},${first.y}`
+    add(anchor)
+    for (const segment of wire.segments) {
+      union(anchor, `${segment.from.x},${segment.from.y}`)
+      union(anchor, `${segment.to.x},${segment.to.y}`)
+    }
+  }
+  for (const label of labels) {
+    const name = netLabelName(label)
+    if (name && label.kind === 'net') union(`${label.x},${label.y}`, `label:${name}`)
+  }
+
+  const byRoot = new Map<string, PlacementNet>()
+  for (const component of components) {
+    for (const pin of component.pins) {
+      const key = `${pin.x},${pin.y}`
+      if (!parent.has(key)) continue
+      const root = find(key)
+      const net = byRoot.get(root) ?? { pins: [] }
+      net.pins.push({ componentId: component.id, relX: pin.relX, relY: pin.relY })
+      byRoot.set(root, net)
+    }
+  }
+  return [...byRoot.values()].filter((net) => new Set(net.pins.map((pin) => pin.componentId)).size > 1)
+}
+
+/**
+ * Capacitors that sit across two nets both reaching the same IC (typically its
+ * supply and ground), mapped to the nearest such IC.
+ */
+export function findDecouplingPairs(components: ComponentSummary[], nets: PlacementNet[]): Map<string, string> {
+  const byId = new Map(components.map((component) => [component.id, component]))
+  const pairs = new Map<string, string>()
+  for (const cap of components.filter(isCapacitor)) {
+    const capNets = nets.filter((net) => net.pins.some((pin) => pin.componentId === cap.id))
+    if (capNets.length < 2) continue
+    const reached = capNets.map(
+      (net) =>
+        new Set(
+          net.pins
+            .map((pin) => byId.get(pin.componentId))
+            .filter((part): part is ComponentSummary => !!part && DECOUPLED_CATEGORIES.has(part.category))
+            .map((part) => part.id)
+        )
+    )
+    const shared = [...reached[0]].filter((id) => reached.slice(1).some((ids) => ids.has(id)))
+    const nearest = shared
+      .map((id) => byId.get(id)!)
+      .sort((a, b) => manhattan(a.origin, cap.origin) - manhattan(b.origin, cap.origin) || a.id.localeCompare(b.id))[0]
+    if (nearest) pairs.set(cap.id, nearest.id)
+  }
+  return pairs
+}
+
+const manhattan = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y)
+
+function pinPosition(origins: Map<string, Point>, pin: PlacementNet['pins'][number]): Point | null {
+  const origin = origins.get(pin.componentId)
+  return origin ? { x: origin.x + pin.relX, y: origin.y + pin.relY } : null
+}
+
+/** Pin-to-pin spans of a net: a Manhattan minimum spanning tree over its pins. */
+function netSpans(points: Point[]): Array<[Point, Point]> {
+  if (points.length < 2) return []
+  const spans: Array<[Point, Point]> = []
+  const inTree = [points[0]]
+  const rest = points.slice(1)
+  while (rest.length > 0) {
+    let best = { from: 0, to: 0, distance: Infinity }
+    inTree.forEach((a, from) =>
+      rest.forEach((b, to) => {
+        const distance = manhattan(a, b)
+        if (distance < best.distance) best = { from, to, distance }
+      })
+    )
+    const [next] = rest.splice(best.to, 1)
+    spans.push([inTree[best.from], next])
+    inTree.push(next)
+  }
+  return spans
+}
+
+function spansCross([a, b]: [Point, Point], [c, d]: [Point, Point]): boolean {
+  const orient = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x))
+  return orient(a, b, c) * orient(a, b, d) < 0 && orient(c, d, a) * orient(c, d, b) < 0
+}
+
+/** Estimated wiring for a set of origins; lower is tidier. */
+export function placementMetrics(nets: PlacementNet[], origins: Map<string, Point>): PlacementMetrics {
+  let wireLength = 0
+  const spans: Array<{ net: number; span: [Point, Point] }> = []
+  nets.forEach((net, index) => {
+    const points = net.pins.map((pin) => pinPosition(origins, pin)).filter((p): p is Point => p !== null)
+    if (points.length < 2) return
+    const xs = points.map((p) => p.x)
+    const ys = points.map((p) => p.y)
+    wireLength += Math.max(...xs) - Math.min(...xs) + Math.max(...ys) - Math.min(...ys)
+    netSpans(points).forEach((span) => spans.push({ net: index, span }))
+  })
+
+  let crossings = 0
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      if (spans[i].net !== spans[j].net && spansCross(spans[i].span, spans[j].span)) crossings++
+    }
+  }
+  return { wireLength, crossings }
+}
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const overlaps = (a: Rect, b: Rect, gap = 0) =>
+  a.x < b.x + b.width + gap && b.x < a.x + a.width + gap && a.y < b.y + b.height + gap && b.y < a.y + a.height + gap
+
+const interior = (box: SchematicGroupBox): Rect => ({ x: box.x + 1, y: box.y + 1, width: box.width - 2, height: box.height - 2 })
+
+/** The box a part starts inside (by its centre), if its footprint fits in that box's interior. */
+function homeBox(component: ComponentSummary, boxes: SchematicGroupBox[]): SchematicGroupBox | null {
+  const cx = component.origin.x + component.size.gridX / 2
+  const cy = component.origin.y + component.size.gridY / 2
+  const box = boxes.find((b) => cx >= b.x && cx <= b.x + b.width && cy >= b.y && cy <= b.y + b.height)
+  if (!box) return null
+  const inside = interior(box)
+  return inside.width >= component.size.gridX && inside.height >= component.size.gridY ? box : null
+}
+
+/**
+ * Connectivity-driven placement: a force-directed pass (nets pull their pins
+ * together, decoupling capacitors are pulled to their IC, overlapping parts push
+ * apart), then each part is snapped to the nearest free spot on the grid, then
+ * same-sized parts are swapped while that shortens wiring. Works in sheet
+ * coordinates: pinned parts don't move, parts in a group box stay in it and the
+ * rest keep out of the boxes.
+ */
+export function placeByConnectivity(
+  components: ComponentSummary[],
+  nets: PlacementNet[],
+  options: ConnectivityPlacementOptions = {}
+): Map<string, Point> {
+  const { minGapCells } = SCHEMATIC_LAYOUT_GUIDELINES
+  const pinned = options.pinned ?? new Set<string>()
+  const boxes = options.groupBoxes ?? []
+  const decoupling = options.decoupling ?? new Map<string, string>()
+  const byId = new Map(components.map((component) => [component.id, component]))
+  const home = new Map(components.map((component) => [component.id, homeBox(component, boxes)]))
+  const movable = components.filter((component) => !pinned.has(component.id))
+
+  const clampHome = (component: ComponentSummary, pos: Point): Point => {
+    const own = home.get(component.id)
+    const x = Math.max(0, pos.x)
+    const y = Math.max(0, pos.y)
+    if (!own) return { x, y }
+    const box = interior(own)
+    return {
+      x: Math.min(Math.max(x, box.x), box.x + box.width - component.size.gridX),
+      y: Math.min(Math.max(y, box.y), box.y + box.height - component.size.gridY),
+    }
+  }
+
+  const pos = new Map<string, Point>()
+  for (const component of components) {
+    const seeded = !pinned.has(component.id) && !home.get(component.id) ? options.seed?.get(component.id) : undefined
+    pos.set(component.id, clampHome(component, { ...(seeded ?? component.origin) }))
+  }
+
+  // --- Force-directed pass ---
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const step = MAX_STEP * (1 - iteration / ITERATIONS) + 0.25
+    const force = new Map(movable.map((component) => [component.id, { x: 0, y: 0 }]))
+    const push = (id: string, fx: number, fy: number) => {
+      const f = force.get(id)
+      if (!f) return
+      f.x += fx
+      f.y += fy
+    }
+
+    for (const net of nets) {
+      const points = net.pins.map((pin) => pinPosition(pos, pin)!)
+      const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length
+      const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length
+      const weight = 1 / (points.length - 1)
+      net.pins.forEach((pin, index) => push(pin.componentId, (cx - points[index].x) * weight, (cy - points[index].y) * weight))
+    }
+
+    decoupling.forEach((icId, capId) => {
+      const cap = pos.get(capId)!
+      const ic = pos.get(icId)!
+      const capPart = byId.get(capId)!
+      const icPart = byId.get(icId)!
+      const dx = ic.x + icPart.size.gridX / 2 - (cap.x + capPart.size.gridX / 2)
+      const dy = ic.y + icPart.size.gridY / 2 - (cap.y + capPart.size.gridY / 2)
+      push(capId, dx * DECOUPLING_PULL * 0.1, dy * DECOUPLING_PULL * 0.1)
+    })
+
+    const rect = (component: ComponentSummary): Rect => ({ ...pos.get(component.id)!, width: component.size.gridX, height: component.size.gridY })
+    const separate = (id: string, a: Rect, b: Rect, share: number) => {
+      const ox = Math.min(a.x + a.width, b.x + b.width) + minGapCells - Math.max(a.x, b.x)
+      const oy = Math.min(a.y + a.height, b.y + b.height) + minGapCells - Math.max(a.y, b.y)
+      if (ox <= 0 || oy <= 0) return
+      const sx = a.x + a.width / 2 < b.x + b.width / 2 ? -1 : 1
+      const sy = a.y + a.height / 2 < b.y + b.height / 2 ? -1 : 1
+      if (ox < oy) push(id, sx * ox * share, 0)
+      else push(id, 0, sy * oy * share)
+    }
+    for (let i = 0; i < components.length; i++) {
+      for (let j = i + 1; j < components.length; j++) {
+        const a = components[i]
+        const b = components[j]
+        const aFree = !pinned.has(a.id)
+        const bFree = !pinned.has(b.id)
+        if (!aFree && !bFree) continue
+        const share = aFree && bFree ? 0.5 : 1
+        if (aFree) separate(a.id, rect(a), rect(b), share)
+        if (bFree) separate(b.id, rect(b), rect(a), share)
+      }
+    }
+    for (const component of movable) {
+      if (home.get(component.id)) continue
+      for (const box of boxes) separate(component.id, rect(component), box, 1)
+    }
+
+    for (const component of movable) {
+      const f = force.get(component.id)!
+      const current = pos.get(component.id)!
+      const next = {
+        x: current.x + Math.max(-step, Math.min(step, f.x)),
+        y: current.y + Math.max(-step, Math.min(step, f.y)),
+      }
+      pos.set(component.id, clampHome(component, next))
+    }
+  }
+
+  // --- Snap each part to the nearest free spot, pinned parts first, then by connections ---
+  const degree = (id: string) => nets.reduce((count, net) => count + (net.pins.some((pin) => pin.componentId === id) ? 1 : 0), 0)
+  const order = [...movable].sort(
+    (a, b) =>
+      Number(decoupling.has(a.id)) - Number(decoupling.has(b.id)) || degree(b.id) - degree(a.id) || a.id.localeCompare(b.id)
+  )
+  const placed: Rect[] = components
+    .filter((component) => pinned.has(component.id))
+    .map((component) => ({ ...component.origin, width: component.size.gridX, height: component.size.gridY }))
+  const result = new Map<string, Point>()
+  components.filter((component) => pinned.has(component.id)).forEach((component) => result.set(component.id, { ...component.origin }))
+
+  const legal = (component: ComponentSummary, at: Point) => {
+    if (at.x < 0 || at.y < 0) return false
+    const rect = { ...at, width: component.size.gridX, height: component.size.gridY }
+    const own = home.get(component.id)
+    if (own) {
+      const box = interior(own)
+      if (at.x < box.x || at.y < box.y || at.x + rect.width > box.x + box.width || at.y + rect.height > box.y + box.height) return false
+    } else if (boxes.some((b) => overlaps(rect, b))) {
+      return false
+    }
+    return !placed.some((other) => overlaps(rect, other, minGapCells))
+  }
+
+  for (const component of order) {
+    const target = pos.get(component.id)!
+    const want = { x: Math.round(target.x), y: Math.round(target.y) }
+    let spot: Point | null = null
+    for (let radius = 0; radius <= LEGALIZE_RADIUS && !spot; radius++) {
+      const ring: Point[] = []
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) === radius) ring.push({ x: want.x + dx, y: want.y + dy })
+        }
+      }
+      ring.sort((a, b) => manhattan(a, want) - manhattan(b, want) || a.y - b.y || a.x - b.x)
+      spot = ring.find((at) => legal(component, at)) ?? null
+    }
+    const at = spot ?? { ...component.origin }
+    result.set(component.id, at)
+    placed.push({ ...at, width: component.size.gridX, height: component.size.gridY })
+  }
+
+  // --- Swap same-sized parts while it shortens wiring (and keeps decoupling capacitors close) ---
+  if (movable.length <= SWAP_LIMIT) {
+    const cost = () => {
+      const metrics = placementMetrics(nets, result)
+      let decouplingDistance = 0
+      decoupling.forEach((icId, capId) => (decouplingDistance += manhattan(result.get(capId)!, result.get(icId)!)))
+      return metrics.wireLength + CROSSING_COST * metrics.crossings + DECOUPLING_PULL * decouplingDistance
+    }
+    let best = cost()
+    for (let pass = 0; pass < 2; pass++) {
+      let improved = false
+      for (let i = 0; i < movable.length; i++) {
+        for (let j = i + 1; j < movable.length; j++) {
+          const a = movable[i]
+          const b = movable[j]
+          if (a.size.gridX !== b.size.gridX || a.size.gridY !== b.size.gridY || home.get(a.id) !== home.get(b.id)) continue
+          const pa = result.get(a.id)!
+          const pb = result.get(b.id)!
+          result.set(a.id, pb)
+          result.set(b.id, pa)
+          const next = cost()
+          if (next < best) {
+            best = next
+            improved = true
+          } else {
+            result.set(a.id, pa)
+            result.set(b.id, pb)
+          }
+        }
+      }
+      if (!improved) break
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,333 @@
+/**
+ * Electrical rule check (ERC): a pass over the sheet's nets, plus one DC solve
+ * for pin voltages and wire loads, that flags wiring mistakes the simulator
+ * would otherwise just get quietly wrong — outputs fighting, ICs with no
+ * supply, inputs left floating, bare LEDs, 5 V into 3.3 V parts and wires run
+ * past their rating.
+ *
+ * Each violation carries its rule's severity, the cells to highlight and an id
+ * that stays the same while the wiring does, so a schematic can waive it
+ * (`Schematic.ercWaivers`). `validateConnection` still vets single wires as
+ * they're drawn; this looks at the finished sheet.
+ */
+
+import type { WireConnection } from '../modules/types'
+import { resolveLogicModule } from '../modules/logicModule'
+import { buildNets, isNetGrounded, solveCircuit } from '../systems/chain'
+import {
+  findAnodeCathode,
+  getPlacedComponents,
+  getTerminals,
+  gpioInputPullup,
+  gpioPinNumber,
+  isMcuPowerInput,
+  isMicrocontrollerModule,
+  isPositiveTerminal,
+  mcuPinVoltageLimit,
+} from '../systems/chain/components/registry'
+import type { GridCellLike, PlacedComponent, TerminalInfo } from '../systems/chain/types'
+import { posKey } from '../systems/chain/utils'
+import { formatCurrent } from './electricalFormatting'
+import { readSupplyVoltageAndCurrent } from './powerSupplies'
+import { listBenchParts } from './testBench'
+
+export type ErcSeverity = 'error' | 'warning' | 'info'
+
+export type ErcRuleId =
+  | 'output-conflict'
+  | 'unpowered-supply'
+  | 'floating-input'
+  | 'led-current-limit'
+  | 'pin-overvoltage'
+  | 'wire-overcurrent'
+
+export const ERC_RULES: Record<ErcRuleId, { title: string; severity: ErcSeverity }> = {
+  'output-conflict': { title: 'Output conflict', severity: 'error' },
+  'unpowered-supply': { title: 'Unpowered supply pin', severity: 'error' },
+  'floating-input': { title: 'Floating input', severity: 'warning' },
+  'led-current-limit': { title: 'LED without current limiting', severity: 'error' },
+  'pin-overvoltage': { title: 'Pin over its voltage limit', severity: 'error' },
+  'wire-overcurrent': { title: 'Wire over its current rating', severity: 'warning' },
+}
+
+export interface ErcViolation {
+  /** `rule:subject` — stable while the offending parts and pins stay wired the same way */
+  id: string
+  rule: ErcRuleId
+  severity: ErcSeverity
+  message: string
+  /** Grid cells to highlight */
+  cells: Array<{ x: number; y: number }>
+  wireIds: string[]
+  waived: boolean
+}
+
+export interface ErcReport {
+  /** Errors first, then warnings and notes; waived violations last */
+  violations: ErcViolation[]
+  errors: number
+  warnings: number
+  infos: number
+  waived: number
+}
+
+export interface ErcOptions {
+  /** Pin states from a running sketch; without them MCU pins are judged by wiring alone */
+  gpio?: Map<number, any>
+  /** Ids of violations the schematic has accepted */
+  waivers?: string[]
+  /** Per-rule severity overrides; `off` skips the rule */
+  severities?: Partial<Record<ErcRuleId, ErcSeverity | 'off'>>
+}
+
+type Grid = GridCellLike[][]
+
+/** A part's connectable pin, with the net it sits on. */
+interface PinRef {
+  component: PlacedComponent
+  terminal: TerminalInfo
+  net: number | undefined
+  /** `Ref.pin`, as the Test Bench names it */
+  label: string
+}
+
+/** Something that holds a net at a voltage: a supply rail, ground or a driven output. */
+interface Driver {
+  label: string
+  /** Nominal volts, null when it depends on the sketch or circuit */
+  voltage: number | null
+  kind: 'rail' | 'output'
+  cell: { x: number; y: number } | null
+}
+
+const SEVERITY_ORDER: Record<ErcSeverity, number> = { error: 0, warning: 1, info: 2 }
+const POWERED_VOLTS = 0.5
+const OVERVOLTAGE_MARGIN = 0.05
+/** Output-capable pin types on ICs and sensors (drivers and switches reuse them for power stages and contacts) */
+const OUTPUT_PIN_TYPES = new Set(['OUTPUT', 'DRIVER_OUT', 'SIGNAL'])
+const OUTPUT_CATEGORIES = new Set(['ics', 'semiconductors', 'sensors'])
+const SUPPLY_PIN_TYPES = new Set(['VCC', 'DRIVER_PWR'])
+const GPIO_OUTPUT_STATES = new Set(['HIGH', 'LOW', 'PULSING'])
+
+const category = (component: PlacedComponent): string => component.moduleDefinition.category ?? ''
+const moduleName = (component: PlacedComponent): string => String(component.moduleDefinition.module ?? '')
+const isSupplyModule = (component: PlacedComponent) => moduleName(component) === 'PowerSupply' || moduleName(component) === 'Battery'
+const cellOf = (terminal: TerminalInfo) => ({ x: terminal.x, y: terminal.y })
+const isMcuSignalPin = (terminal: TerminalInfo) => terminal.moduleCell.type === 'GPIO' || terminal.moduleCell.type === 'ANALOG'
+
+/** Cells a wire segment runs through: every cell of a straight run, the ends of a diagonal one. */
+function segmentCells(segment: { from: { x: number; y: number }; to: { x: number; y: number } }): Array<{ x: number; y: number }> {
+  const { from, to } = segment
+  if (from.x !== to.x && from.y !== to.y) return [from, to]
+  const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y))
+  return Array.from({ length: steps + 1 }, (_, i) => ({
+    x: from.x + Math.sign(to.x - from.x) * i,
+    y: from.y + Math.sign(to.y - from.y) * i,
+  }))
+}
+
+/** Run every rule over the sheet. */
+export function runElectricalRuleCheck(gridData: Grid, wires: WireConnection[], options: ErcOptions = {}): ErcReport {
+  const { gpio, waivers = [], severities = {} } = options
+  const { posToNet, groundNet } = buildNets(gridData, wires)
+  const solved = solveCircuit(gridData, wires, gpio)
+  const refs = new Map(listBenchParts(gridData).map((part) => [part.componentId, part.ref]))
+  const components = getPlacedComponents(gridData)
+
+  const pins: PinRef[] = components.flatMap((component) =>
+    getTerminals(component).map((terminal) => ({
+      component,
+      terminal,
+      net: posToNet.get(posKey(terminal.x, terminal.y)),
+      label: `${refs.get(component.componentId) ?? component.componentId}.${terminal.moduleCell.pin ?? terminal.cellIndex + 1}`,
+    }))
+  )
+  const pinsOnNet = new Map<number, PinRef[]>()
+  pins.forEach((pin) => {
+    if (pin.net === undefined) return
+    pinsOnNet.set(pin.net, [...(pinsOnNet.get(pin.net) ?? []), pin])
+  })
+  const wiredNets = new Set<number>()
+  wires.forEach((wire) =>
+    wire.segments.forEach((segment) => {
+      for (const point of [segment.from, segment.to]) {
+        const net = posToNet.get(posKey(point.x, point.y))
+        if (net !== undefined) wiredNets.add(net)
+      }
+    })
+  )
+
+  const groundedNets = new Map<number, boolean>()
+  const grounded = (net: number | undefined) => {
+    if (net === undefined) return false
+    if (!groundedNets.has(net)) groundedNets.set(net, isNetGrounded(net, groundNet, gridData, posToNet))
+    return groundedNets.get(net)!
+  }
+  const voltageAt = (terminal: TerminalInfo) => solved.nodeVoltages.get(posKey(terminal.x, terminal.y)) ?? 0
+  const gpioState = (pin: PinRef) => {
+    const number = gpioPinNumber(pin.terminal.moduleCell)
+    return number === null ? undefined : gpio?.get(number)
+  }
+
+  /** What holds this pin's net up or down, if anything does. */
+  const driverOf = (pin: PinRef): Driver | null => {
+    const { component, terminal } = pin
+    const cell = cellOf(terminal)
+    if (isSupplyModule(component) && terminal.moduleCell.isPowerable && isPositiveTerminal(terminal.moduleCell)) {
+      return { label: pin.label, voltage: readSupplyVoltageAndCurrent(component.moduleDefinition).voltage, kind: 'rail', cell }
+    }
+    if (isMicrocontrollerModule(component.moduleDefinition)) {
+      if (!isMcuSignalPin(terminal)) return null
+      const state = gpioState(pin)
+      if (!GPIO_OUTPUT_STATES.has(state?.state)) return null
+      const full = moduleName(component).includes('ESP32') ? 3.3 : 5
+      return { label: `${pin.label} (${state.state})`, voltage: state.state === 'HIGH' ? full : state.state === 'LOW' ? 0 : null, kind: 'output', cell }
+    }
+    if (
+      OUTPUT_CATEGORIES.has(category(component)) &&
+      OUTPUT_PIN_TYPES.has(terminal.moduleCell.type) &&
+      terminal.moduleCell.isPowerable
+    ) {
+      return { label: pin.label, voltage: null, kind: 'output', cell }
+    }
+    return null
+  }
+
+  /** Supply rails, regulator outputs and an MCU's own power pins (it runs from USB). */
+  const feedsSupply = (pin: PinRef): boolean => {
+    const { component, terminal } = pin
+    if (isSupplyModule(component)) return Boolean(terminal.moduleCell.isPowerable && isPositiveTerminal(terminal.moduleCell))
+    if (isMicrocontrollerModule(component.moduleDefinition)) return isMcuPowerInput(terminal.moduleCell)
+    return category(component) === 'ics' && terminal.moduleCell.type === 'DRIVER_OUT' && Boolean(terminal.moduleCell.isPowerable)
+  }
+
+  const found: Array<Omit<ErcViolation, 'severity' | 'waived'>> = []
+  const report = (rule: ErcRuleId, subject: string, message: string, cells: Array<{ x: number; y: number }>, wireIds: string[] = []) => {
+    if (severities[rule] === 'off') return
+    found.push({ id: `${rule}:${subject}`, rule, message, cells, wireIds })
+  }
+
+  // --- Outputs fighting over a net ------------------------------------------------
+  pinsOnNet.forEach((netPins, net) => {
+    const drivers = netPins.map(driverOf).filter((driver): driver is Driver => driver !== null)
+    if (grounded(net)) drivers.push({ label: 'GND', voltage: 0, kind: 'rail', cell: null })
+    const outputs = drivers.filter((driver) => driver.kind === 'output')
+    const rails = drivers.filter((driver) => driver.kind === 'rail')
+    const railsDisagree = rails.some((a) => rails.some((b) => a.voltage !== null && b.voltage !== null && Math.abs(a.voltage - b.voltage) > 0.1))
+    if (outputs.length + rails.length < 2 || (outputs.length === 0 && !railsDisagree)) return
+    const labels = drivers.map((driver) => driver.label).sort()
+    report(
+      'output-conflict',
+      labels.join('+'),
+      `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]} drive the same net`,
+      drivers.flatMap((driver) => (driver.cell ? [driver.cell] : []))
+    )
+  })
+
+  // --- IC and module supply pins ---------------------------------------------------
+  components.forEach((component) => {
+    // GND pins all join the common ground net (see buildNets), so only the supply side can be missing
+    if (isSupplyModule(component) || isMicrocontrollerModule(component.moduleDefinition) || category(component) === 'power') return
+    pins
+      .filter((pin) => pin.component === component)
+      .filter((pin) => SUPPLY_PIN_TYPES.has(pin.terminal.moduleCell.type) && pin.terminal.moduleCell.isPowerable)
+      .forEach((pin) => {
+        const fed = pin.net !== undefined && (pinsOnNet.get(pin.net) ?? []).some((other) => other !== pin && feedsSupply(other))
+        if (fed || voltageAt(pin.terminal) > POWERED_VOLTS) return
+        report('unpowered-supply', pin.label, `${pin.label} has no supply`, [cellOf(pin.terminal)])
+      })
+  })
+
+  // --- MCU inputs with nothing holding them ----------------------------------------
+  pins
+    .filter((pin) => isMicrocontrollerModule(pin.component.moduleDefinition) && isMcuSignalPin(pin.terminal))
+    .forEach((pin) => {
+      const state = gpioState(pin)
+      if (state ? state.state !== 'INPUT' || gpioInputPullup(moduleName(pin.component), state) : !wiredNets.has(pin.net ?? -1)) return
+      if (pin.net === undefined || grounded(pin.net)) return
+      // Switches only connect when closed, so they don't hold a pin when open
+      const holders = (pinsOnNet.get(pin.net) ?? []).filter((other) => other !== pin && category(other.component) !== 'switches')
+      if (holders.length > 0) return
+      report(
+        'floating-input',
+        pin.label,
+        `${pin.label} floats when nothing drives it — add a pull-up or pull-down resistor or use INPUT_PULLUP`,
+        [cellOf(pin.terminal)]
+      )
+    })
+
+  // --- LEDs straight across a source -------------------------------------------------
+  components
+    .filter((component) => resolveLogicModule(component.moduleDefinition) === 'LED')
+    .forEach((component) => {
+      const { anode, cathode } = findAnodeCathode(getTerminals(component))
+      if (!anode || !cathode) return
+      const at = (terminal: TerminalInfo) => pins.find((pin) => pin.component === component && pin.terminal.cellIndex === terminal.cellIndex)!
+      const anodePin = at(anode)
+      const cathodePin = at(cathode)
+      const neighbours = (pin: PinRef) => (pin.net === undefined ? [] : (pinsOnNet.get(pin.net) ?? []).filter((other) => other.component !== component))
+      const source = neighbours(anodePin).find(
+        (other) => feedsSupply(other) || (isMicrocontrollerModule(other.component.moduleDefinition) && isMcuSignalPin(other.terminal))
+      )
+      const sink = grounded(cathodePin.net)
+        ? 'GND'
+        : neighbours(cathodePin).find((other) => isMicrocontrollerModule(other.component.moduleDefinition) && isMcuSignalPin(other.terminal))?.label
+      if (!source || !sink) return
+      const ref = refs.get(component.componentId) ?? component.componentId
+      report(
+        'led-current-limit',
+        ref,
+        `${ref} is wired straight from ${source.label} to ${sink} — add a series resistor`,
+        [anode, cathode, source.terminal].map(cellOf)
+      )
+    })
+
+  // --- Pins over their voltage limit --------------------------------------------------
+  pins
+    .filter((pin) => isMicrocontrollerModule(pin.component.moduleDefinition) && isMcuSignalPin(pin.terminal))
+    .forEach((pin) => {
+      const limit = mcuPinVoltageLimit(pin.component.moduleDefinition)
+      const rails = (pin.net === undefined ? [] : (pinsOnNet.get(pin.net) ?? []))
+        .map(driverOf)
+        .filter((driver): driver is Driver => driver?.kind === 'rail' && driver.voltage !== null)
+      const volts = Math.max(voltageAt(pin.terminal), ...rails.map((rail) => rail.voltage!))
+      if (volts <= limit + OVERVOLTAGE_MARGIN) return
+      report(
+        'pin-overvoltage',
+        pin.label,
+        `${pin.label} sees ${volts.toFixed(2)} V, over its ${limit} V limit`,
+        [cellOf(pin.terminal), ...rails.flatMap((rail) => (rail.cell ? [rail.cell] : []))]
+      )
+    })
+
+  // --- Wires past their rating ----------------------------------------------------------
+  solved.updatedWires.forEach((wire) => {
+    if (!(wire.maxCurrent > 0)) return
+    const current = Math.max(wire.current ?? 0, ...wire.segments.map((segment) => segment.current ?? 0))
+    if (current <= wire.maxCurrent) return
+    report(
+      'wire-overcurrent',
+      wire.id,
+      `A ${wire.gauge} AWG wire carries ${formatCurrent(current)}, over its ${formatCurrent(wire.maxCurrent)} rating`,
+      wire.segments.flatMap(segmentCells),
+      [wire.id]
+    )
+  })
+
+  const waived = new Set(waivers)
+  const violations = found
+    .map((violation): ErcViolation => ({
+      ...violation,
+      severity: (severities[violation.rule] as ErcSeverity | undefined) ?? ERC_RULES[violation.rule].severity,
+      waived: waived.has(violation.id),
+    }))
+    .sort((a, b) => Number(a.waived) - Number(b.waived) || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+  const active = violations.filter((violation) => !violation.waived)
+  return {
+    violations,
+    errors: active.filter((violation) => violation.severity === 'error').length,
+    warnings: active.filter((violation) => violation.severity === 'warning').length,
+    infos: active.filter((violation) => violation.severity === 'info').length,
+    waived: violations.length - active.length,
+  }
+}
@@ -387,7 +387,11 @@ function buildComponentStats(
     case 'NPNTransistor':
     case 'PNPTransistor': {
       const isOn = state?.isOn ?? state?.status === 'saturated'
-      status = isOn ? { label: 'Saturated', tone: 'active' } : { label: 'Off', tone: 'idle' }
+      status = !isOn
+        ? { label: 'Off', tone: 'idle' }
+        : state?.transistorRegion === 'active'
+          ? { label: 'Active', tone: 'active' }
+          : { label: 'Saturated', tone: 'active' }
       details.push({
         label: 'β',
         value: String(getNumericProperty(cell.moduleDefinition?.properties, 'beta', 100)),
@@ -398,7 +402,13 @@ function buildComponentStats(
     case 'MOSFET':
     case 'PMOSFET': {
       const isOn = state?.isOn ?? state?.status === 'on'
-      status = isOn ? { label: 'On', tone: 'active' } : { label: 'Off', tone: 'idle' }
+      status = !isOn
+        ? { label: 'Off', tone: 'idle' }
+        : state?.transistorRegion === 'saturation'
+          ? { label: 'Saturation', tone: 'active' }
+          : state?.transistorRegion === 'triode'
+            ? { label: 'Triode', tone: 'active' }
+            : { label: 'On', tone: 'active' }
       details.push({
         label: 'Vth',
         value: formatVoltage(getNumericProperty(cell.moduleDefinition?.properties, 'vth', 2.5)),
@@ -1,10 +1,12 @@
 import { resolveLogicModule } from '../modules/logicModule'
+import { sensorStimuli, type SensorStimulus } from '../modules/sensors/stimulus'
 
 export type InteractableKind =
   | 'potentiometer'
   | 'switch'
   | 'pushButton'
   | 'limitSwitch'
+  | 'sensor'
 
 export interface InteractableControl {
   componentId: string
@@ -15,6 +17,9 @@ export interface InteractableControl {
   originY: number
   wiperPosition?: number
   isOn?: boolean
+  /** Sensor stimuli and their current values (defaults where unset) */
+  stimuli?: SensorStimulus[]
+  sensorInputs?: Record<string, number>
 }
 
 type GridRow = Array<{
@@ -30,6 +35,7 @@ type GridRow = Array<{
   isClickable?: boolean
   isOn?: boolean
   wiperPosition?: number
+  sensorInputs?: Record<string, number>
   x?: number
   y?: number
 } | null | undefined>
@@ -97,7 +103,8 @@ export function scanInteractableComponents(gridData: GridRow[]): InteractableCon
           kind = 'limitSwitch'
           break
         default:
-          return
+          if (sensorStimuli(logic).length === 0) return
+          kind = 'sensor'
       }
 
       seen.add(cell.componentId)
@@ -123,6 +130,11 @@ export function scanInteractableComponents(gridData: GridRow[]): InteractableCon
 
       if (kind === 'potentiometer') {
         control.wiperPosition = bodyCell?.wiperPosition ?? numProp(props, 'wiperPosition', 0.5)
+      } else if (kind === 'sensor') {
+        control.stimuli = sensorStimuli(logic)
+        control.sensorInputs = Object.fromEntries(
+          control.stimuli.map((stimulus) => [stimulus.key, bodyCell?.sensorInputs?.[stimulus.key] ?? stimulus.default])
+        )
       } else {
         control.isOn = Boolean(bodyCell?.isOn)
       }
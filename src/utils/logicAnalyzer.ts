@@ -0,0 +1,309 @@
+/** One level change on a digital channel; `t` is in ms on the capture clock. */
+export interface LogicEdge {
+  t: number
+  level: boolean
+}
+
+/** Where a channel's samples come from. */
+export type LogicChannelSource =
+  | { kind: 'gpio'; componentId: string; pin: number }
+  | { kind: 'net'; key: string }
+  | { kind: 'gate'; componentId: string; chipId: string; gate: number }
+
+/** Recorded level changes; the first edge carries the level the channel started at. */
+export interface LogicTrace {
+  id: string
+  source: LogicChannelSource
+  edges: LogicEdge[]
+}
+
+export type LogicTriggerEdge = 'rising' | 'falling' | 'either'
+
+/** An annotation under the traces: a decoded byte, packet marker or pulse width. */
+export interface DecodedSpan {
+  start: number
+  end: number
+  text: string
+  error?: boolean
+}
+
+/** 1-2-5 logic timebase steps from 1 µs/div to 1 s/div, in ms. */
+export const LOGIC_TIMEBASES_MS = [
+  0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000,
+]
+export const LOGIC_DIVISIONS = 10
+
+/** Index of the last edge at or before `t`, or -1 before the first. */
+function edgeIndexAt(edges: LogicEdge[], t: number): number {
+  let lo = 0
+  let hi = edges.length - 1
+  let found = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (edges[mid].t <= t) {
+      found = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return found
+}
+
+/** Level at `t`; `idle` before the channel's first sample. */
+export function levelAt(edges: LogicEdge[], t: number, idle = false): boolean {
+  const i = edgeIndexAt(edges, t)
+  return i >= 0 ? edges[i].level : idle
+}
+
+/** Edges inside [from, to] plus the level at `from`, for drawing one window. */
+export function edgesInWindow(edges: LogicEdge[], from: number, to: number): { initial: boolean; edges: LogicEdge[] } {
+  const first = edgeIndexAt(edges, from) + 1
+  const last = edgeIndexAt(edges, to)
+  return { initial: levelAt(edges, from), edges: edges.slice(first, last + 1) }
+}
+
+/** Last edge of the requested polarity at or before `before`, or null. */
+export function findTrigger(edges: LogicEdge[], edge: LogicTriggerEdge, before = Infinity): number | null {
+  for (let i = Math.min(edgeIndexAt(edges, before), edges.length - 1); i >= 1; i--) {
+    const { level } = edges[i]
+    if (level === edges[i - 1].level) continue
+    if (edge === 'either' || (edge === 'rising') === level) return edges[i].t
+  }
+  return null
+}
+
+/** First edge of the requested polarity strictly after `after`, or null. */
+export function findTriggerAfter(edges: LogicEdge[], edge: LogicTriggerEdge, after: number): number | null {
+  for (let i = Math.max(1, edgeIndexAt(edges, after) + 1); i < edges.length; i++) {
+    const { level } = edges[i]
+    if (level === edges[i - 1].level) continue
+    if (edge === 'either' || (edge === 'rising') === level) return edges[i].t
+  }
+  return null
+}
+
+const hexByte = (byte: number) => `0x${byte.toString(16).toUpperCase().padStart(2, '0')}`
+
+function printable(byte: number): string {
+  if (byte === 0x0a) return '\\n'
+  if (byte === 0x0d) return '\\r'
+  return byte >= 0x20 && byte < 0x7f ? `'${String.fromCharCode(byte)}'` : hexByte(byte)
+}
+
+// --- Decoders ----------------------------------------------------------------------
+
+/** 8N1 asynchronous serial: a falling start bit, eight data bits LSB first, a high stop bit. */
+export function decodeUart(edges: LogicEdge[], baud: number): DecodedSpan[] {
+  const spans: DecodedSpan[] = []
+  if (!(baud > 0)) return spans
+  const bitMs = 1000 / baud
+  let searchFrom = -Infinity
+  for (let i = 1; i < edges.length; i++) {
+    const edge = edges[i]
+    if (edge.level || edges[i - 1].level === edge.level || edge.t < searchFrom) continue
+    const start = edge.t
+    // A start bit that is already high again at its middle was a glitch.
+    if (levelAt(edges, start + bitMs / 2)) continue
+    let byte = 0
+    for (let bit = 0; bit < 8; bit++) {
+      if (levelAt(edges, start + bitMs * (bit + 1.5))) byte |= 1 << bit
+    }
+    const framed = levelAt(edges, start + bitMs * 9.5)
+    const end = start + bitMs * 10
+    spans.push({ start, end, text: framed ? printable(byte) : `${hexByte(byte)} framing error`, error: !framed })
+    searchFrom = start + bitMs * 9.5
+  }
+  return spans
+}
+
+/**
+ * I2C from SDA and SCL: START and STOP conditions (SDA moving while SCL is
+ * high), the address byte with its direction, and data bytes with ACK/NACK.
+ */
+export function decodeI2c(sda: LogicEdge[], scl: LogicEdge[]): DecodedSpan[] {
+  const spans: DecodedSpan[] = []
+  const events = [
+    ...sda.slice(1).map((e) => ({ t: e.t, line: 'sda' as const, level: e.level })),
+    ...scl.slice(1).map((e) => ({ t: e.t, line: 'scl' as const, level: e.level })),
+  ].sort((a, b) => a.t - b.t || (a.line === 'scl' ? 1 : -1))
+
+  let inFrame = false
+  let bits: number[] = []
+  let byteStart = 0
+  let addressNext = false
+  for (const event of events) {
+    if (event.line === 'sda') {
+      if (!levelAt(scl, event.t)) continue
+      inFrame = !event.level
+      spans.push({ start: event.t, end: event.t, text: event.level ? 'P' : 'S' })
+      bits = []
+      addressNext = !event.level
+      continue
+    }
+    if (!inFrame || !event.level) continue
+    if (bits.length === 0) byteStart = event.t
+    bits.push(levelAt(sda, event.t) ? 1 : 0)
+    if (bits.length < 9) continue
+    const byte = bits.slice(0, 8).reduce((acc, bit) => (acc << 1) | bit, 0)
+    const acked = bits[8] === 0
+    const text = addressNext
+      ? `${hexByte(byte >> 1)} ${byte & 1 ? 'R' : 'W'} ${acked ? 'ACK' : 'NACK'}`
+      : `${hexByte(byte)} ${acked ? 'ACK' : 'NACK'}`
+    spans.push({ start: byteStart, end: event.t, text, error: !acked })
+    addressNext = false
+    bits = []
+  }
+  return spans
+}
+
+export interface SpiDecodeOptions {
+  /** SPI mode 0–3 (CPOL = mode >> 1, CPHA = mode & 1) */
+  mode: number
+  /** Active-low chip select; without one, bytes are framed by clock gaps. */
+  cs?: LogicEdge[]
+}
+
+/** SPI bytes (MSB first) sampled on the mode's capture edge, framed by chip select. */
+export function decodeSpi(
+  sck: LogicEdge[],
+  mosi: LogicEdge[] | null,
+  miso: LogicEdge[] | null,
+  { mode, cs }: SpiDecodeOptions
+): DecodedSpan[] {
+  const spans: DecodedSpan[] = []
+  const cpol = (mode >> 1) & 1
+  const cpha = mode & 1
+  // Leading edge leaves the idle level; modes 0 and 3 sample on rising SCK.
+  const sampleOnRising = cpol === cpha
+  let mosiByte = 0
+  let misoByte = 0
+  let count = 0
+  let byteStart = 0
+  let lastSample = -Infinity
+  let lastPeriod = Infinity
+  for (let i = 1; i < sck.length; i++) {
+    const edge = sck[i]
+    if (edge.level === sck[i - 1].level || edge.level !== sampleOnRising) continue
+    if (cs && levelAt(cs, edge.t, true)) {
+      count = 0
+      continue
+    }
+    const gap = edge.t - lastSample
+    if (count > 0 && (gap > lastPeriod * 10 || (cs && csRoseBetween(cs, lastSample, edge.t)))) count = 0
+    if (count > 0) lastPeriod = gap
+    if (count === 0) {
+      byteStart = edge.t
+      mosiByte = 0
+      misoByte = 0
+      lastPeriod = Infinity
+    }
+    mosiByte = (mosiByte << 1) | (mosi && levelAt(mosi, edge.t) ? 1 : 0)
+    misoByte = (misoByte << 1) | (miso && levelAt(miso, edge.t, true) ? 1 : 0)
+    lastSample = edge.t
+    if (++count < 8) continue
+    const parts = [mosi ? `MOSI ${hexByte(mosiByte)}` : null, miso ? `MISO ${hexByte(misoByte)}` : null].filter(Boolean)
+    spans.push({ start: byteStart, end: edge.t, text: parts.join(' ') || hexByte(mosiByte) })
+    count = 0
+  }
+  return spans
+}
+
+function csRoseBetween(cs: LogicEdge[], from: number, to: number): boolean {
+  return edgesInWindow(cs, from, to).edges.some((edge) => edge.level)
+}
+
+/** Hobby-servo pulses the Arduino Servo library maps from 544 µs (0°) to 2400 µs (180°). */
+const SERVO_MIN_MS = 0.544
+const SERVO_MAX_MS = 2.4
+
+/** High pulses in the servo range, with the angle each one commands. */
+export function decodeServo(edges: LogicEdge[]): DecodedSpan[] {
+  const spans: DecodedSpan[] = []
+  for (let i = 1; i < edges.length - 1; i++) {
+    const fall = edges[i + 1]
+    if (!edges[i].level || edges[i - 1].level || fall.level) continue
+    const width = fall.t - edges[i].t
+    if (width < 0.3 || width > 3) continue
+    const angle = Math.round(((width - SERVO_MIN_MS) / (SERVO_MAX_MS - SERVO_MIN_MS)) * 180)
+    const inRange = width >= SERVO_MIN_MS - 0.05 && width <= SERVO_MAX_MS + 0.05
+    spans.push({
+      start: edges[i].t,
+      end: fall.t,
+      text: `${(width * 1000).toFixed(0)} µs${inRange ? ` ${Math.min(180, Math.max(0, angle))}°` : ''}`,
+      error: !inRange,
+    })
+  }
+  return spans
+}
+
+// --- Waveforms for bus hardware ------------------------------------------------------
+
+/** A line change `dt` ms after the operation starts. */
+export interface LineEdge<Line extends string> {
+  line: Line
+  dt: number
+  level: boolean
+}
+
+/** TX line for one 8N1 frame at `baud`. */
+export function uartFrameEdges(byte: number, baud: number): Array<LineEdge<'tx'>> {
+  const bitMs = 1000 / baud
+  const levels = [false, ...Array.from({ length: 8 }, (_, bit) => Boolean((byte >> bit) & 1)), true]
+  return levels.map((level, i) => ({ line: 'tx' as const, dt: i * bitMs, level }))
+}
+
+export type I2cLineEvent = { kind: 'start' } | { kind: 'stop' } | { kind: 'byte'; byte: number; ack: boolean }
+
+/**
+ * SDA/SCL for one TWI operation: a (repeated) START over one SCL period, nine
+ * clocks for a byte and its acknowledge, or a STOP over a quarter period.
+ */
+export function i2cEdges(event: I2cLineEvent, sclHz: number): Array<LineEdge<'sda' | 'scl'>> {
+  const period = 1000 / sclHz
+  if (event.kind === 'start') {
+    return [
+      { line: 'sda', dt: 0, level: true },
+      { line: 'scl', dt: period / 4, level: true },
+      { line: 'sda', dt: period / 2, level: false },
+      { line: 'scl', dt: (period * 3) / 4, level: false },
+    ]
+  }
+  if (event.kind === 'stop') {
+    return [
+      { line: 'sda', dt: 0, level: false },
+      { line: 'scl', dt: period / 8, level: true },
+      { line: 'sda', dt: period / 4, level: true },
+    ]
+  }
+  const bits = [...Array.from({ length: 8 }, (_, i) => Boolean((event.byte >> (7 - i)) & 1)), !event.ack]
+  return bits.flatMap((level, i) => [
+    { line: 'sda' as const, dt: i * period + period / 4, level },
+    { line: 'scl' as const, dt: i * period + period / 2, level: true },
+    { line: 'scl' as const, dt: (i + 1) * period, level: false },
+  ])
+}
+
+/** SCK/MOSI/MISO for one byte in SPI `mode`, MSB first. */
+export function spiByteEdges(
+  mosi: number,
+  miso: number,
+  sckHz: number,
+  mode: number
+): Array<LineEdge<'sck' | 'mosi' | 'miso'>> {
+  const period = 1000 / sckHz
+  const idle = Boolean((mode >> 1) & 1)
+  const cpha = mode & 1
+  const edges: Array<LineEdge<'sck' | 'mosi' | 'miso'>> = [{ line: 'sck', dt: 0, level: idle }]
+  for (let i = 0; i < 8; i++) {
+    const t = i * period
+    // CPHA 0 moves data half a clock before the leading edge samples it; CPHA 1 moves it on the
+    // leading edge and samples on the trailing one. Either way the byte takes eight full clocks.
+    const change = cpha ? t + period / 2 : t
+    edges.push({ line: 'mosi', dt: change, level: Boolean((mosi >> (7 - i)) & 1) })
+    edges.push({ line: 'miso', dt: change, level: Boolean((miso >> (7 - i)) & 1) })
+    edges.push({ line: 'sck', dt: t + period / 2, level: !idle })
+    edges.push({ line: 'sck', dt: t + period, level: idle })
+  }
+  return edges
+}
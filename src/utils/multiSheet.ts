@@ -0,0 +1,138 @@
+import type { WireConnection } from '../modules/types'
+import type { GridCellLike } from '../systems/chain/types'
+import type { SchematicCellLabel } from '../types/workspace'
+import { applyNetLabels, isGlobalNetLabel, netLabelName } from './netLabels'
+
+/** The parts of a schematic a project-wide solve needs. */
+export interface SheetSource<T extends GridCellLike = GridCellLike> {
+  id: string
+  name?: string
+  gridData: T[][]
+  wires: WireConnection[]
+  labels?: SchematicCellLabel[]
+}
+
+/** Where a linked sheet landed in the stacked grid. */
+export interface LinkedSheet {
+  schematicId: string
+  name: string
+  /** First row of the sheet's band */
+  offsetY: number
+  height: number
+  /** Port names it shares with the sheets before it */
+  sharedNets: string[]
+}
+
+export interface LinkedCircuit<T extends GridCellLike = GridCellLike> {
+  /** The current sheet's rows first, then each linked sheet in its own band */
+  gridData: T[][]
+  wires: WireConnection[]
+  sheets: LinkedSheet[]
+}
+
+/** Port names on a sheet. */
+export function globalNetNames(labels: SchematicCellLabel[] | undefined): Set<string> {
+  const names = new Set<string>()
+  for (const label of labels ?? []) {
+    if (isGlobalNetLabel(label)) names.add(netLabelName(label)!)
+  }
+  return names
+}
+
+/**
+ * Sheets of the project a port on the current sheet reaches, directly or
+ * through another linked sheet, in the order they are reached. Power flags
+ * don't link sheets: a `5V` flag on two unrelated sheets is two separate rails.
+ */
+export function linkedSheetsOf<S extends SheetSource>(current: SheetSource, project: S[]): Array<{ sheet: S; shared: string[] }> {
+  const reached = globalNetNames(current.labels)
+  const pending = project.filter((sheet) => sheet.id !== current.id)
+  const linked: Array<{ sheet: S; shared: string[] }> = []
+  for (let grew = true; grew; ) {
+    grew = false
+    for (const sheet of [...pending]) {
+      const names = globalNetNames(sheet.labels)
+      const shared = [...names].filter((name) => reached.has(name))
+      if (shared.length === 0) continue
+      pending.splice(pending.indexOf(sheet), 1)
+      linked.push({ sheet, shared })
+      names.forEach((name) => reached.add(name))
+      grew = true
+    }
+  }
+  return linked
+}
+
+/**
+ * One grid for the current sheet and every project sheet its ports reach, so
+ * the solver treats the project as a single netlist. The current sheet keeps
+ * its rows, ids and positions; each linked sheet goes in a band below it, with
+ * component and wire ids prefixed `<schematicId>/` (as flattenSubcircuits does
+ * for blocks). Net labels are stamped scoped to their sheet, ports and power
+ * flags by bare name, so only those meet across the linked sheets. With nothing
+ * linked it is just the current sheet with its labels stamped.
+ */
+export function linkSheets<T extends GridCellLike>(current: SheetSource<T>, project: SheetSource[] = []): LinkedCircuit<T> {
+  const linked = linkedSheetsOf(current, project)
+  if (linked.length === 0) {
+    return { gridData: applyNetLabels(current.gridData, current.labels), wires: current.wires, sheets: [] }
+  }
+
+  const grid: T[][] = [...applyNetLabels(current.gridData, current.labels, current.id)]
+  const wires = [...current.wires]
+  const sheets: LinkedSheet[] = []
+
+  for (const { sheet, shared } of linked) {
+    const gapY = grid.length
+    const offsetY = gapY + 1
+    const prefix = `${sheet.id}/`
+    grid.push(Array.from({ length: grid[0]?.length ?? 0 }, (_, x) => ({ x, y: gapY, occupied: false }) as unknown as T))
+    applyNetLabels(sheet.gridData, sheet.labels, sheet.id).forEach((row, y) => {
+      grid.push(
+        (row ?? []).map((cell, x) =>
+          ({
+            ...cell,
+            x,
+            y: offsetY + y,
+            ...(cell?.componentId ? { componentId: `${prefix}${cell.componentId}` } : {}),
+          }) as unknown as T
+        )
+      )
+    })
+
+    for (const wire of sheet.wires) {
+      wires.push({
+        ...wire,
+        id: `${prefix}${wire.id}`,
+        segments: wire.segments.map((segment) => ({
+          ...segment,
+          id: `${prefix}${segment.id}`,
+          from: { x: segment.from.x, y: offsetY + segment.from.y },
+          to: { x: segment.to.x, y: offsetY + segment.to.y },
+        })),
+      })
+    }
+
+    sheets.push({ schematicId: sheet.id, name: sheet.name ?? sheet.id, offsetY, height: sheet.gridData.length, sharedNets: shared })
+  }
+
+  return { gridData: grid, wires, sheets }
+}
+
+/**
+ * Cut a solve of a linked grid back down to the current sheet: its own rows,
+ * its own wires and the components whose ids aren't from a linked sheet.
+ */
+export function sliceToSheet<C, W extends { id: string }, S>(
+  result: { updatedGridData: C[][]; updatedWires: W[]; componentStates: Map<string, S> },
+  circuit: LinkedCircuit,
+  sheetRows: number
+): { updatedGridData: C[][]; updatedWires: W[]; componentStates: Map<string, S> } {
+  if (circuit.sheets.length === 0) return result
+  const foreign = (id: string) => circuit.sheets.some((sheet) => id.startsWith(`${sheet.schematicId}/`))
+  return {
+    updatedGridData: result.updatedGridData.slice(0, sheetRows),
+    updatedWires: result.updatedWires.filter((wire) => !foreign(wire.id)),
+    componentStates: new Map([...result.componentStates].filter(([id]) => !foreign(id))),
+  }
+}
@@ -0,0 +1,62 @@
+import type { SchematicCellLabel } from '../types/workspace'
+import type { GridCellLike } from '../systems/chain/types'
+import { GROUND_NET_LABEL } from '../systems/chain/netLabels'
+
+/** Rails offered for power flags; any other name works too. */
+export const POWER_FLAG_NAMES = ['VCC', 'GND', '3V3', '5V'] as const
+
+/** Net name a label carries, or null for plain annotation text. */
+export function netLabelName(label: SchematicCellLabel): string | null {
+  if (!label.kind || label.kind === 'text') return null
+  return label.text.trim() || null
+}
+
+/** Whether a label links its sheet to the project's other sheets: only ports do. */
+export function isGlobalNetLabel(label: SchematicCellLabel): boolean {
+  return label.kind === 'port' && netLabelName(label) !== null
+}
+
+/**
+ * Stamp the sheet's net labels and power flags onto their grid cells as
+ * `netLabel`, which buildNets and buildCircuitGraph join by name. Stale names
+ * from deleted or renamed labels are cleared; the grid comes back unchanged
+ * (same object) when nothing differs, so it is cheap to call before each solve.
+ *
+ * `sheetScope` is for grids stacked from several sheets: sheet-local net labels
+ * are stamped as `<scope>:<name>` so they don't meet same-named ones elsewhere.
+ * Ports and power flags keep their bare name, so a rail joins across the sheets
+ * the ports linked.
+ */
+export function applyNetLabels<T extends GridCellLike>(
+  gridData: T[][],
+  labels: SchematicCellLabel[] | undefined,
+  sheetScope?: string
+): T[][] {
+  const names = new Map<string, string>()
+  for (const label of labels ?? []) {
+    const name = netLabelName(label)
+    if (!name) continue
+    const local = sheetScope && !isGlobalNetLabel(label) && label.kind !== 'power' && name !== GROUND_NET_LABEL
+    names.set(`${label.x},${label.y}`, local ? `${sheetScope}:${name}` : name)
+  }
+
+  let next: T[][] | null = null
+  for (let y = 0; y < gridData.length; y++) {
+    const row = gridData[y]
+    if (!row) continue
+    let nextRow: T[] | null = null
+    for (let x = 0; x < row.length; x++) {
+      const cell = row[x]
+      const name = names.get(`${x},${y}`)
+      if ((cell?.netLabel ?? undefined) === name) continue
+      nextRow ??= [...row]
+      const { netLabel: _stale, ...rest } = (cell ?? { x, y, occupied: false }) as T
+      nextRow[x] = (name ? { ...rest, netLabel: name } : rest) as T
+    }
+    if (nextRow) {
+      next ??= [...gridData]
+      next[y] = nextRow
+    }
+  }
+  return next ?? gridData
+}
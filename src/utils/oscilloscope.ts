@@ -0,0 +1,226 @@
+import type { ModuleDefinition, WireConnection } from '../modules/types'
+import { solveTransient, type GridCellLike, type TransientState } from '../systems/chain'
+import { getPlacedComponents, getTerminals } from '../systems/chain/components/registry'
+import { posKey } from '../systems/chain/utils'
+
+/** Horizontal divisions on the scope screen; the acquisition window is timePerDiv × this. */
+export const SCOPE_DIVISIONS = 10
+export const SCOPE_VERTICAL_DIVISIONS = 8
+/** Samples per displayed window. */
+export const SCOPE_SAMPLES = 1000
+
+/** 1-2-5 timebase steps from 10 µs/div to 1 s/div. */
+export const SCOPE_TIMEBASES = [
+  10e-6, 20e-6, 50e-6, 100e-6, 200e-6, 500e-6, 1e-3, 2e-3, 5e-3, 10e-3, 20e-3, 50e-3, 100e-3, 200e-3, 500e-3, 1,
+]
+export const SCOPE_SCALES = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50]
+
+export interface VoltageProbePoint {
+  kind: 'voltage'
+  /** posKey of the pin the probe tip sits on. */
+  key: string
+  net: number
+  label: string
+}
+
+/** A current clamp on a wire reads the two-terminal part the wire feeds at one of its ends. */
+export interface CurrentProbePoint {
+  kind: 'current'
+  key: string
+  wireId: string
+  componentId: string
+  label: string
+}
+
+export type ScopeProbePoint = VoltageProbePoint | CurrentProbePoint
+
+export type TriggerEdge = 'rising' | 'falling'
+
+export interface ScopeTrigger {
+  /** Probe key the trigger watches. */
+  probeKey: string
+  level: number
+  edge: TriggerEdge
+}
+
+export interface ScopeAcquireOptions {
+  timePerDiv: number
+  trigger?: ScopeTrigger
+  /** Carrier for PWM GPIO pins, passed through to the transient solver. */
+  pwmFrequency?: number
+  /** The previous acquisition's `state`: the sweep carries on from it instead of restarting at t = 0. */
+  resume?: TransientState
+}
+
+export interface ScopeAcquisition {
+  works: boolean
+  reason?: string
+  /** Seconds from the left edge of the screen. */
+  time: number[]
+  /** Samples per probe key, indexed like `time`. */
+  channels: Map<string, number[]>
+  triggered: boolean
+  /** Where the sweep left the circuit, for the next acquisition to resume from. */
+  state?: TransientState
+}
+
+function moduleName(moduleDefinition: ModuleDefinition | undefined): string {
+  return moduleDefinition?.module ?? 'Component'
+}
+
+/** One voltage probe per net, labelled by the first component pin that lands on it. */
+export function listVoltageProbePoints(
+  gridData: GridCellLike[][],
+  posToNet: Map<string, number>,
+  groundNet: number
+): VoltageProbePoint[] {
+  const seen = new Set<number>()
+  const probes: VoltageProbePoint[] = []
+  getPlacedComponents(gridData).forEach((component) => {
+    getTerminals(component).forEach((terminal) => {
+      const key = posKey(terminal.x, terminal.y)
+      const net = posToNet.get(key)
+      if (net === undefined || net === groundNet || seen.has(net)) return
+      seen.add(net)
+      const pin = terminal.moduleCell?.pin || terminal.moduleCell?.type || 'pin'
+      probes.push({
+        kind: 'voltage',
+        key,
+        net,
+        label: `${moduleName(component.moduleDefinition)} ${pin} (${terminal.x}, ${terminal.y})`,
+      })
+    })
+  })
+  return probes
+}
+
+/** Wires whose far (or near) end lands on a two-terminal part; that part's current is what the clamp reads. */
+export function listCurrentProbePoints(gridData: GridCellLike[][], wires: WireConnection[]): CurrentProbePoint[] {
+  const twoTerminalAt = new Map<string, { componentId: string; label: string }>()
+  getPlacedComponents(gridData).forEach((component) => {
+    const terminals = getTerminals(component)
+    if (terminals.length !== 2) return
+    terminals.forEach((terminal) => {
+      twoTerminalAt.set(posKey(terminal.x, terminal.y), {
+        componentId: component.componentId,
+        label: `${moduleName(component.moduleDefinition)} (${component.baseX}, ${component.baseY})`,
+      })
+    })
+  })
+
+  const probes: CurrentProbePoint[] = []
+  wires.forEach((wire) => {
+    if (wire.segments.length === 0) return
+    const first = wire.segments[0].from
+    const last = wire.segments[wire.segments.length - 1].to
+    const target = twoTerminalAt.get(posKey(last.x, last.y)) ?? twoTerminalAt.get(posKey(first.x, first.y))
+    if (!target) return
+    probes.push({
+      kind: 'current',
+      key: `wire:${wire.id}`,
+      wireId: wire.id,
+      componentId: target.componentId,
+      label: `Wire → ${target.label}`,
+    })
+  })
+  return probes
+}
+
+/** First sample index in [from, to) where the signal crosses `level` on the given edge, or -1. */
+export function findTriggerIndex(
+  samples: number[],
+  level: number,
+  edge: TriggerEdge,
+  from = 0,
+  to = samples.length
+): number {
+  for (let i = Math.max(1, from); i < Math.min(to, samples.length); i++) {
+    const prev = samples[i - 1]
+    const next = samples[i]
+    if (edge === 'rising' ? prev < level && next >= level : prev > level && next <= level) return i
+  }
+  return -1
+}
+
+/** Linear interpolation of a trace at screen time `t`. */
+export function sampleTraceAt(time: number[], samples: number[], t: number): number | undefined {
+  if (time.length === 0 || samples.length === 0) return undefined
+  if (t <= time[0]) return samples[0]
+  for (let i = 1; i < time.length; i++) {
+    if (time[i] >= t) {
+      const span = time[i] - time[i - 1]
+      const ratio = span > 0 ? (t - time[i - 1]) / span : 0
+      return samples[i - 1] + (samples[i] - samples[i - 1]) * ratio
+    }
+  }
+  return samples[samples.length - 1]
+}
+
+/**
+ * Run one transient sweep of the circuit and cut a screen-width window out of it.
+ * With a trigger the sweep runs two windows long and the display starts at the
+ * first matching edge in the first window (auto mode: free-running when none is found).
+ * Passing the last acquisition's `state` as `resume` keeps one running timeline:
+ * each sweep starts from where the circuit was left, under the sheet and GPIO
+ * states of the latest tick, so switch flips and pin changes show up as they happen.
+ */
+export function acquireScopeTrace(
+  gridData: GridCellLike[][],
+  wires: WireConnection[],
+  probes: ScopeProbePoint[],
+  options: ScopeAcquireOptions,
+  gpioStates?: Map<number, any>
+): ScopeAcquisition {
+  const window = options.timePerDiv * SCOPE_DIVISIONS
+  const timeStep = window / SCOPE_SAMPLES
+  const triggerProbe = options.trigger ? probes.find((p) => p.key === options.trigger!.probeKey) : undefined
+  const result = solveTransient(
+    gridData,
+    wires,
+    {
+      timeStep,
+      endTime: triggerProbe ? window * 2 : window,
+      pwmFrequency: options.pwmFrequency,
+      resume: options.resume,
+    },
+    gpioStates
+  )
+  if (!result.works) {
+    return { works: false, reason: result.reason, time: [], channels: new Map(), triggered: false }
+  }
+
+  const traceFor = (probe: ScopeProbePoint): number[] => {
+    if (probe.kind === 'current') return result.components.get(probe.componentId)?.current ?? result.time.map(() => 0)
+    const net = result.posToNet.get(probe.key)
+    if (net === undefined || net === result.groundNet) return result.time.map(() => 0)
+    return result.netVoltages.get(net) ?? result.time.map(() => 0)
+  }
+
+  let start = 0
+  let triggered = false
+  if (triggerProbe && options.trigger) {
+    const idx = findTriggerIndex(
+      traceFor(triggerProbe),
+      options.trigger.level,
+      options.trigger.edge,
+      1,
+      Math.floor(result.time.length / 2)
+    )
+    if (idx >= 0) {
+      start = idx
+      triggered = true
+    }
+  }
+  const end = Math.min(result.time.length, start + SCOPE_SAMPLES + 1)
+  const t0 = result.time[start] ?? 0
+  const channels = new Map<string, number[]>()
+  probes.forEach((probe) => channels.set(probe.key, traceFor(probe).slice(start, end)))
+
+  return {
+    works: true,
+    time: result.time.slice(start, end).map((t) => t - t0),
+    channels,
+    triggered,
+    state: result.finalState,
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Headless simulation of saved projects: read an exported project (a session,
+ * a folder or a single schematic), solve each schematic's DC operating point
+ * and report its nets and parts, optionally running a stimulus script over it
+ * (see utils/testBench). Used by scripts/simulate-project.ts so CI can check
+ * committed `.circuitwiz` files without a browser.
+ */
+
+import { buildNets, solveCircuit } from '../systems/chain'
+import type { GridCellLike } from '../systems/chain/types'
+import { posKey } from '../systems/chain/utils'
+import { hydrateSchematicFromStorage } from '../services/localProjectStorage'
+import type { ProjectFolder, Schematic } from '../types/workspace'
+import { formatCurrent, formatPower, formatVoltage } from './electricalFormatting'
+import { linkSheets } from './multiSheet'
+import { listBenchParts, listPartPins, runTestBench, type BenchIssue, type BenchResult } from './testBench'
+
+export interface ProjectSchematic {
+  folder: string
+  /** Id of the folder, which tells apart folders that share a name */
+  folderId: string
+  schematic: Schematic
+}
+
+export interface NetReport {
+  /** Solved voltage, null when the net isn't part of a working circuit */
+  voltage: number | null
+  ground: boolean
+  /** `Part.pin` names on the net, as a stimulus script writes them */
+  pins: string[]
+}
+
+export interface PartReport {
+  ref: string
+  componentId: string
+  module: string
+  status: string | null
+  isOn: boolean | null
+  /** Largest current through any of the part's cells (A) */
+  current: number
+  power: number
+}
+
+export interface SchematicReport {
+  folder: string
+  schematic: string
+  id: string
+  works: boolean
+  errors: string[]
+  warnings: string[]
+  nets: NetReport[]
+  parts: PartReport[]
+  /** Names of the sheets its ports pulled into the solve */
+  linkedSheets: string[]
+  /** Stimulus run, when the schematic has a script or one was given */
+  bench: { passed: number; failed: number; results: BenchResult[]; errors: BenchIssue[] } | null
+}
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null
+const isSchematic = (value: unknown): value is Schematic =>
+  isRecord(value) && Array.isArray(value.wires) && (Array.isArray(value.gridData) || Array.isArray(value.occupiedComponents))
+
+/** Schematics in an exported project file, with their grids rebuilt from compact storage. */
+export function readProjectFile(data: unknown): ProjectSchematic[] {
+  const fromFolder = (folder: ProjectFolder, index = 0): ProjectSchematic[] =>
+    (folder.schematics ?? []).filter(isSchematic).map((schematic) => ({
+      folder: folder.name ?? '',
+      folderId: folder.id ?? `folder-${index}`,
+      schematic: hydrateSchematicFromStorage(schematic),
+    }))
+
+  if (Array.isArray(data)) return data.filter(isRecord).flatMap((folder) => fromFolder(folder as ProjectFolder))
+  if (isRecord(data) && Array.isArray(data.projectFolders)) return data.projectFolders.flatMap(fromFolder)
+  if (isRecord(data) && Array.isArray(data.schematics)) return fromFolder(data as ProjectFolder)
+  if (isSchematic(data)) return [{ folder: '', folderId: '', schematic: hydrateSchematicFromStorage(data) }]
+  throw new Error('not a CircuitWiz project: expected projectFolders, a folder with schematics, or a schematic')
+}
+
+/**
+ * Solve one schematic and report it; `stimulus` replaces the schematic's saved
+ * test bench. Sheets of `projectSheets` its ports reach are solved with it (see
+ * utils/multiSheet), though only this sheet's parts are reported.
+ */
+export function simulateSchematic(folder: string, schematic: Schematic, stimulus?: string, projectSheets: Schematic[] = []): SchematicReport {
+  const circuit = linkSheets({ ...schematic, gridData: schematic.gridData as GridCellLike[][] }, projectSheets)
+  const { gridData, wires } = circuit
+  const result = solveCircuit(gridData, wires)
+  const { posToNet, groundNet } = buildNets(gridData, wires)
+  const parts = listBenchParts(gridData.slice(0, schematic.gridData.length))
+
+  const nets = new Map<number, NetReport>()
+  parts.forEach((part) => {
+    listPartPins(gridData, part.componentId).forEach(({ pin, x, y }) => {
+      const net = posToNet.get(posKey(x, y))
+      if (net === undefined) return
+      const report = nets.get(net) ?? { voltage: result.nodeVoltages.get(posKey(x, y)) ?? null, ground: net === groundNet, pins: [] }
+      report.pins.push(`${part.ref}.${pin}`)
+      nets.set(net, report)
+    })
+  })
+
+  const partReports = parts.map((part): PartReport => {
+    const states = [...result.componentStates.values()].filter(
+      (state) => state.componentId === part.componentId || state.componentId.startsWith(`${part.componentId}-`)
+    )
+    const flags = states.map((state) => state.isOn).filter((isOn): isOn is boolean => typeof isOn === 'boolean')
+    return {
+      ref: part.ref,
+      componentId: part.componentId,
+      module: part.module,
+      status: states[0]?.status ?? null,
+      isOn: flags.length > 0 ? flags.some(Boolean) : null,
+      current: Math.max(0, ...states.map((state) => Math.abs(state.outputCurrent || 0))),
+      power: Math.max(0, ...states.map((state) => Math.abs(state.power || 0))),
+    }
+  })
+
+  const script = stimulus ?? schematic.testBench ?? ''
+  const run = script.trim() ? runTestBench(script, gridData, wires) : null
+
+  return {
+    folder,
+    schematic: schematic.name,
+    id: schematic.id,
+    works: result.works,
+    errors: result.errors,
+    warnings: result.warnings,
+    nets: [...nets.values()].sort((a, b) => Number(b.ground) - Number(a.ground) || (b.voltage ?? -Infinity) - (a.voltage ?? -Infinity)),
+    parts: partReports,
+    linkedSheets: circuit.sheets.map((sheet) => sheet.name),
+    bench: run && { passed: run.passed, failed: run.failed, results: run.results, errors: run.errors },
+  }
+}
+
+const signed = (format: (value: number) => string, value: number) => (value < 0 ? `-${format(-value)}` : format(value))
+
+/** Plain-text report: a block per schematic with its nets, parts and bench outcome. */
+export function formatReportTable(reports: SchematicReport[]): string {
+  const lines: string[] = []
+  reports.forEach((report) => {
+    const title = report.folder ? `${report.folder} / ${report.schematic}` : report.schematic
+    lines.push(`== ${title}  [${report.works ? 'works' : 'does not work'}]`)
+    report.errors.forEach((error) => lines.push(`   ! ${error}`))
+    report.warnings.forEach((warning) => lines.push(`   ~ ${warning}`))
+    if (report.linkedSheets.length > 0) lines.push(`   Linked ${report.linkedSheets.join(', ')}`)
+
+    lines.push('   Nets')
+    report.nets.forEach((net) => {
+      const voltage = net.ground ? 'GND' : net.voltage === null ? '—' : signed(formatVoltage, net.voltage)
+      lines.push(`     ${voltage.padStart(10)}  ${net.pins.join(', ')}`)
+    })
+
+    lines.push('   Parts')
+    const width = Math.max(0, ...report.parts.map((part) => part.ref.length))
+    report.parts.forEach((part) => {
+      const state = part.isOn === null ? '' : part.isOn ? 'on' : 'off'
+      const readings = part.current > 0 ? `${formatCurrent(part.current)}  ${formatPower(part.power)}` : ''
+      lines.push(`     ${part.ref.padEnd(width)}  ${(part.status ?? '').padEnd(10)} ${state.padEnd(4)} ${readings}`.trimEnd())
+    })
+
+    if (report.bench) {
+      lines.push(`   Bench  ${report.bench.passed} passed, ${report.bench.failed} failed`)
+      report.bench.errors.forEach((issue) => lines.push(`     ! line ${issue.line}: ${issue.message}`))
+      report.bench.results.forEach((result) => {
+        lines.push(`     ${result.passed ? 'ok  ' : 'FAIL'} line ${result.line} @ ${result.atMs} ms  ${result.source} — ${result.message}`)
+      })
+    }
+    lines.push('')
+  })
+  return lines.join('\n')
+}
@@ -0,0 +1,320 @@
+import type { ModuleDefinition, WireConnection, WireSegment } from '../modules/types'
+import { assignPowerSupplyIdToDefinition, nextPowerSupplyId, readSupplyVoltageAndCurrent } from './powerSupplies'
+
+/**
+ * Copy/paste of component selections on the schematic grid.
+ *
+ * A clipboard holds the selected components' cells and the wires that run only
+ * between them, all relative to the selection's top-left corner. Pasting gives
+ * every component a fresh id (and Power Supplies the next free PSU-n), so
+ * repeated channels can be stamped out without sharing ids with the original.
+ */
+
+type ClipboardGridCell = {
+  x: number
+  y: number
+  occupied: boolean
+  componentId?: string
+  componentType?: string
+  moduleDefinition?: ModuleDefinition & { properties?: Record<string, unknown> }
+  cellIndex?: number
+  isPowered?: boolean
+  isClickable?: boolean
+}
+
+export interface ClipboardCell<T> {
+  dx: number
+  dy: number
+  cell: T
+}
+
+export interface ClipboardComponent<T> {
+  componentId: string
+  cells: ClipboardCell<T>[]
+}
+
+export interface SchematicClipboard<T> {
+  components: ClipboardComponent<T>[]
+  wires: WireConnection[]
+  width: number
+  height: number
+  /** Where the selection sat when copied, so a paste can default to a nearby free spot. */
+  origin: { x: number; y: number }
+}
+
+export interface PasteResult<T> {
+  gridData: T[][]
+  wires: WireConnection[]
+  componentIds: string[]
+}
+
+const pointKey = (x: number, y: number) => `${x},${y}`
+
+function segmentCells(segment: Pick<WireSegment, 'from' | 'to'>): Array<{ x: number; y: number }> {
+  const dx = segment.to.x - segment.from.x
+  const dy = segment.to.y - segment.from.y
+  const steps = Math.max(Math.abs(dx), Math.abs(dy))
+  if (steps === 0) return [{ x: segment.from.x, y: segment.from.y }]
+  const cells: Array<{ x: number; y: number }> = []
+  for (let i = 0; i <= steps; i++) {
+    cells.push({
+      x: Math.round(segment.from.x + (dx * i) / steps),
+      y: Math.round(segment.from.y + (dy * i) / steps),
+    })
+  }
+  return cells
+}
+
+function wireCells(wire: WireConnection): Array<{ x: number; y: number }> {
+  return wire.segments.flatMap(segmentCells)
+}
+
+/** Points that end the wire: segment endpoints not shared by another segment of the same wire. */
+function wireEnds(wire: WireConnection): Array<{ x: number; y: number }> {
+  const counts = new Map<string, { point: { x: number; y: number }; count: number }>()
+  for (const segment of wire.segments) {
+    for (const point of [segment.from, segment.to]) {
+      const key = pointKey(point.x, point.y)
+      const entry = counts.get(key)
+      if (entry) entry.count++
+      else counts.set(key, { point, count: 1 })
+    }
+  }
+  return Array.from(counts.values())
+    .filter((entry) => entry.count === 1)
+    .map((entry) => entry.point)
+}
+
+/**
+ * Wires that connect only the selected components: every end lands on a
+ * selected component or on another kept wire, and at least one end lands on a
+ * selected component. Wires that reach anything outside the selection are
+ * left behind so the copy never picks up half a net. A closed loop or
+ * zero-length wire has no ends, so it comes along only when all of its cells
+ * lie within the selected components' bounds and off any other component.
+ */
+function internalWires<T extends ClipboardGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  selected: Set<string>,
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }
+): WireConnection[] {
+  let kept = wires.filter((wire) => {
+    const ends = wireEnds(wire)
+    if (ends.length === 0) {
+      return wireCells(wire).every((c) => {
+        const owner = gridData[c.y]?.[c.x]
+        const foreign = owner?.occupied && owner.componentId && !selected.has(owner.componentId)
+        return !foreign && c.x >= bounds.minX && c.x <= bounds.maxX && c.y >= bounds.minY && c.y <= bounds.maxY
+      })
+    }
+    let touchesSelection = false
+    for (const end of ends) {
+      const owner = gridData[end.y]?.[end.x]
+      if (owner?.occupied && owner.componentId) {
+        if (!selected.has(owner.componentId)) return false
+        touchesSelection = true
+      }
+    }
+    return touchesSelection
+  })
+
+  // Drop wires whose free ends hang on a wire that is not being copied, until stable.
+  let changed = true
+  while (changed) {
+    changed = false
+    const next = kept.filter((wire) => {
+      const others = kept.filter((other) => other !== wire)
+      const otherCells = new Set(others.flatMap(wireCells).map((c) => pointKey(c.x, c.y)))
+      return wireEnds(wire).every((end) => {
+        const owner = gridData[end.y]?.[end.x]
+        if (owner?.occupied && owner.componentId) return true
+        return otherCells.has(pointKey(end.x, end.y)) || !wires.some(
+          (outside) => !kept.includes(outside) && wireCells(outside).some((c) => c.x === end.x && c.y === end.y)
+        )
+      })
+    })
+    if (next.length !== kept.length) {
+      kept = next
+      changed = true
+    }
+  }
+  return kept
+}
+
+function shiftWire(wire: WireConnection, dx: number, dy: number): WireConnection {
+  return {
+    ...wire,
+    segments: wire.segments.map((segment) => ({
+      ...segment,
+      from: { x: segment.from.x + dx, y: segment.from.y + dy },
+      to: { x: segment.to.x + dx, y: segment.to.y + dy },
+    })),
+  }
+}
+
+export function copySchematicSelection<T extends ClipboardGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  componentIds: Iterable<string>
+): SchematicClipboard<T> | null {
+  const selected = new Set(componentIds)
+  const byComponent = new Map<string, Array<{ x: number; y: number; cell: T }>>()
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  gridData.forEach((row, y) => {
+    row?.forEach((cell, x) => {
+      if (!cell?.occupied || !cell.componentId || !selected.has(cell.componentId)) return
+      const cells = byComponent.get(cell.componentId) ?? []
+      cells.push({ x, y, cell })
+      byComponent.set(cell.componentId, cells)
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    })
+  })
+  if (byComponent.size === 0) return null
+
+  const copiedWires = internalWires(gridData, wires, selected, { minX, minY, maxX, maxY })
+  for (const wire of copiedWires) {
+    for (const c of wireCells(wire)) {
+      minX = Math.min(minX, c.x)
+      minY = Math.min(minY, c.y)
+      maxX = Math.max(maxX, c.x)
+      maxY = Math.max(maxY, c.y)
+    }
+  }
+
+  return {
+    components: Array.from(byComponent, ([componentId, cells]) => ({
+      componentId,
+      cells: cells.map(({ x, y, cell }) => ({ dx: x - minX, dy: y - minY, cell })),
+    })),
+    wires: copiedWires.map((wire) => shiftWire(wire, -minX, -minY)),
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+    origin: { x: minX, y: minY },
+  }
+}
+
+/**
+ * Nearest origin to `preferred` where the clipboard fits inside the grid
+ * without touching a component, crossing an existing wire, or laying a pasted
+ * wire over a component. Returns null when the grid has no room.
+ */
+export function findPasteOrigin<T extends ClipboardGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  clipboard: SchematicClipboard<T>,
+  preferred: { x: number; y: number }
+): { x: number; y: number } | null {
+  const height = gridData.length
+  const width = gridData[0]?.length ?? 0
+  const occupied = new Set<string>()
+  // Parts keep one free cell from existing parts so pins never end up side by side
+  const crowded = new Set<string>()
+  gridData.forEach((row, y) => row?.forEach((cell, x) => {
+    if (!cell?.occupied) return
+    occupied.add(pointKey(x, y))
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) crowded.add(pointKey(x + dx, y + dy))
+    }
+  }))
+  const wired = new Set(wires.flatMap(wireCells).map((c) => pointKey(c.x, c.y)))
+  const partCells = clipboard.components.flatMap((component) => component.cells)
+  const pastedWireCells = clipboard.wires.flatMap(wireCells)
+  const partKeys = new Set(partCells.map((c) => pointKey(c.dx, c.dy)))
+
+  const fits = (ox: number, oy: number) => {
+    if (ox < 0 || oy < 0 || ox + clipboard.width > width || oy + clipboard.height > height) return false
+    for (const c of partCells) {
+      const key = pointKey(ox + c.dx, oy + c.dy)
+      if (crowded.has(key) || wired.has(key)) return false
+    }
+    for (const c of pastedWireCells) {
+      const key = pointKey(ox + c.x, oy + c.y)
+      if (wired.has(key)) return false
+      if (occupied.has(key) && !partKeys.has(pointKey(c.x, c.y))) return false
+    }
+    return true
+  }
+
+  const maxRadius = Math.max(width, height)
+  for (let radius = 0; radius <= maxRadius; radius++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue
+        if (fits(preferred.x + dx, preferred.y + dy)) return { x: preferred.x + dx, y: preferred.y + dy }
+      }
+    }
+  }
+  return null
+}
+
+/** Stamp the clipboard onto the grid at `origin` (see findPasteOrigin) with fresh component, supply and wire ids. */
+export function pasteSchematicClipboard<T extends ClipboardGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  clipboard: SchematicClipboard<T>,
+  origin: { x: number; y: number },
+  stamp: number = Date.now()
+): PasteResult<T> {
+  const nextGrid = gridData.map((row) => row)
+  const touchedRows = new Set<number>()
+  const componentIds: string[] = []
+
+  clipboard.components.forEach((component, index) => {
+    const first = component.cells[0]?.cell
+    const moduleName = first?.moduleDefinition?.module ?? first?.componentType ?? 'Component'
+    const componentId = `${moduleName}-${stamp}-${index}`
+    componentIds.push(componentId)
+
+    let moduleDefinition = first?.moduleDefinition
+    const supplyId = moduleDefinition?.properties?.supplyId
+    if (moduleDefinition && (moduleDefinition.module === 'PowerSupply' || typeof supplyId === 'string')) {
+      const { voltage, current } = readSupplyVoltageAndCurrent(moduleDefinition)
+      moduleDefinition = assignPowerSupplyIdToDefinition(moduleDefinition, nextPowerSupplyId(nextGrid), voltage, current)
+    }
+
+    for (const { dx, dy, cell } of component.cells) {
+      const x = origin.x + dx
+      const y = origin.y + dy
+      if (!touchedRows.has(y)) {
+        nextGrid[y] = [...nextGrid[y]]
+        touchedRows.add(y)
+      }
+      nextGrid[y][x] = { ...cell, x, y, componentId, moduleDefinition, isPowered: false }
+    }
+  })
+
+  const pastedWires = clipboard.wires.map((wire, index) => {
+    const shifted = shiftWire(wire, origin.x, origin.y)
+    const wireId = `wire-${stamp}-${index}`
+    return {
+      ...shifted,
+      id: wireId,
+      parentId: undefined,
+      childIds: undefined,
+      isPowered: false,
+      isGrounded: false,
+      voltage: 0,
+      current: 0,
+      power: 0,
+      segments: shifted.segments.map((segment, segmentIndex) => ({
+        ...segment,
+        id: `segment-${stamp}-${index}-${segmentIndex}`,
+        isPowered: false,
+        isGrounded: false,
+        voltage: 0,
+        current: 0,
+        power: 0,
+      })),
+    }
+  })
+
+  return { gridData: nextGrid, wires: [...wires, ...pastedWires], componentIds }
+}
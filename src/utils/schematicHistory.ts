@@ -0,0 +1,101 @@
+/**
+ * Undo/redo stack for the schematic editor.
+ *
+ * Every editing command records the document as it was *before* the command
+ * ran. Undoing swaps that snapshot with the current document (which goes onto
+ * the redo stack), so derived updates made in between — power state, wire
+ * colours from the simulation — never need their own entries. Commands with the
+ * same `coalesceKey` pushed in quick succession (dragging a group box, typing a
+ * label) collapse into a single step.
+ */
+
+export interface SchematicHistoryEntry<T> {
+  label: string
+  snapshot: T
+  coalesceKey?: string
+  at: number
+}
+
+export interface SchematicHistory<T> {
+  undo: SchematicHistoryEntry<T>[]
+  redo: SchematicHistoryEntry<T>[]
+}
+
+export interface RecordCommandOptions {
+  coalesceKey?: string
+  now?: number
+  limit?: number
+}
+
+export interface HistoryStep<T> {
+  history: SchematicHistory<T>
+  snapshot: T
+  label: string
+}
+
+export const SCHEMATIC_HISTORY_LIMIT = 100
+export const SCHEMATIC_HISTORY_COALESCE_MS = 1000
+
+export function emptySchematicHistory<T>(): SchematicHistory<T> {
+  return { undo: [], redo: [] }
+}
+
+/** Record `before` as the state to return to when the command labelled `label` is undone. */
+export function recordCommand<T>(
+  history: SchematicHistory<T>,
+  label: string,
+  before: T,
+  options: RecordCommandOptions = {}
+): SchematicHistory<T> {
+  const now = options.now ?? Date.now()
+  const limit = options.limit ?? SCHEMATIC_HISTORY_LIMIT
+  const top = history.undo[history.undo.length - 1]
+
+  if (
+    top &&
+    options.coalesceKey !== undefined &&
+    top.coalesceKey === options.coalesceKey &&
+    now - top.at <= SCHEMATIC_HISTORY_COALESCE_MS
+  ) {
+    const merged = { ...top, at: now }
+    return { undo: [...history.undo.slice(0, -1), merged], redo: [] }
+  }
+
+  const entry: SchematicHistoryEntry<T> = { label, snapshot: before, coalesceKey: options.coalesceKey, at: now }
+  const undo = [...history.undo, entry]
+  return { undo: undo.length > limit ? undo.slice(undo.length - limit) : undo, redo: [] }
+}
+
+export function undoCommand<T>(history: SchematicHistory<T>, current: T): HistoryStep<T> | null {
+  const entry = history.undo[history.undo.length - 1]
+  if (!entry) return null
+  return {
+    history: {
+      undo: history.undo.slice(0, -1),
+      redo: [...history.redo, { label: entry.label, snapshot: current, at: entry.at }],
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  }
+}
+
+export function redoCommand<T>(history: SchematicHistory<T>, current: T): HistoryStep<T> | null {
+  const entry = history.redo[history.redo.length - 1]
+  if (!entry) return null
+  return {
+    history: {
+      undo: [...history.undo, { label: entry.label, snapshot: current, at: entry.at }],
+      redo: history.redo.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  }
+}
+
+export function canUndo<T>(history: SchematicHistory<T>): boolean {
+  return history.undo.length > 0
+}
+
+export function canRedo<T>(history: SchematicHistory<T>): boolean {
+  return history.redo.length > 0
+}
@@ -1,6 +1,6 @@
 import { listComponents, type ComponentSummary } from '../agent/schematic/operations'
 import { SCHEMATIC_LAYOUT_GUIDELINES } from '../agent/schematic/layoutGuidelines'
-import type { WireConnection, WireSegment } from '../modules/types'
+import type { WireConnection } from '../modules/types'
 import type { Schematic } from '../types/workspace'
 import {
   extractOccupiedComponents,
@@ -8,8 +8,28 @@ import {
   reconstructGridData,
   type OccupiedComponent,
 } from './gridUtils'
-import { buildWirePath } from './wireRouting'
+import { buildWirePath, segmentsFromPath, wireJunctionPoints } from './wireRouting'
 import { ensurePowerSupplyIdsInGrid } from './powerSupplies'
+import {
+  findDecouplingPairs,
+  placeByConnectivity,
+  placementMetrics,
+  placementNets,
+  type PlacementMetrics,
+} from './connectivityPlacement'
+
+/**
+ * `layers` ranks parts into signal-flow columns by category; `connectivity`
+ * places them to shorten wiring and cut crossings (see utils/connectivityPlacement).
+ */
+export type TidyLayoutMode = 'layers' | 'connectivity'
+
+export interface TidyLayoutOptions {
+  /** Defaults to 'layers' */
+  mode?: TidyLayoutMode
+  /** Components connectivity placement leaves where they are; defaults to the schematic's layoutPins */
+  pinned?: string[]
+}
 
 export interface TidyLayoutNode {
   id: string
@@ -19,13 +39,20 @@ export interface TidyLayoutNode {
   proposedOrigin: { x: number; y: number }
   size: { gridX: number; gridY: number }
   layer: number
+  /** Kept in place by connectivity placement */
+  pinned?: boolean
+  /** Id of the IC this capacitor decouples and is placed beside */
+  decouples?: string
 }
 
 export interface TidyLayoutPlan {
+  mode: TidyLayoutMode
   nodes: TidyLayoutNode[]
   summary: string
   /** True when at least one component would move. */
   hasChanges: boolean
+  /** Estimated wiring now and after the move */
+  metrics: { before: PlacementMetrics; after: PlacementMetrics }
 }
 
 const CATEGORY_RANK: Record<string, number> = {
@@ -219,20 +246,53 @@ function normalizeOrigins(
   return normalized
 }
 
-export function planTidyLayout(schematic: Schematic): TidyLayoutPlan {
+/** The layered proposal moved so its top-left corner sits on the parts' current one. */
+function alignedTo(
+  components: ComponentSummary[],
+  proposed: Map<string, { x: number; y: number }>
+): Map<string, { x: number; y: number }> {
+  const minX = Math.min(...components.map((c) => c.origin.x))
+  const minY = Math.min(...components.map((c) => c.origin.y))
+  const { placementOrigin } = SCHEMATIC_LAYOUT_GUIDELINES
+  return new Map(
+    [...proposed].map(([id, origin]) => [id, { x: origin.x - placementOrigin.x + minX, y: origin.y - placementOrigin.y + minY }])
+  )
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+export function planTidyLayout(schematic: Schematic, options: TidyLayoutOptions = {}): TidyLayoutPlan {
+  const mode = options.mode ?? 'layers'
   const components = listComponents(schematic)
+  const noWiring = { wireLength: 0, crossings: 0 }
   if (components.length === 0) {
     return {
+      mode,
       nodes: [],
       summary: 'No components on this schematic.',
       hasChanges: false,
+      metrics: { before: noWiring, after: noWiring },
     }
   }
 
   const occupied = extractOccupiedComponents(schematic.gridData)
   const adj = buildAdjacency(components, schematic.wires ?? [], occupied)
   const layers = assignLayers(components, adj)
-  const proposed = normalizeOrigins(components, proposeOrigins(components, layers))
+  const layered = normalizeOrigins(components, proposeOrigins(components, layers))
+
+  const nets = placementNets(components, schematic.wires ?? [], schematic.labels)
+  const pinned = new Set(mode === 'connectivity' ? (options.pinned ?? schematic.layoutPins ?? []) : [])
+  const decoupling = mode === 'connectivity' ? findDecouplingPairs(components, nets) : new Map<string, string>()
+  // Connectivity placement works in place, seeded from the layered columns so it starts untangled.
+  const proposed =
+    mode === 'connectivity'
+      ? placeByConnectivity(components, nets, {
+          pinned,
+          groupBoxes: schematic.groupBoxes,
+          seed: alignedTo(components, layered),
+          decoupling,
+        })
+      : layered
 
   const nodes: TidyLayoutNode[] = components.map((component) => {
     const next = proposed.get(component.id) ?? component.origin
@@ -244,6 +304,8 @@ export function planTidyLayout(schematic: Schematic): TidyLayoutPlan {
       proposedOrigin: { ...next },
       size: { ...component.size },
       layer: layers.get(component.id) ?? 0,
+      ...(pinned.has(component.id) ? { pinned: true } : {}),
+      ...(decoupling.has(component.id) ? { decouples: decoupling.get(component.id) } : {}),
     }
   })
 
@@ -251,13 +313,28 @@ export function planTidyLayout(schematic: Schematic): TidyLayoutPlan {
     (node) =>
       node.currentOrigin.x !== node.proposedOrigin.x || node.currentOrigin.y !== node.proposedOrigin.y
   )
+  const metrics = {
+    before: placementMetrics(nets, new Map(nodes.map((node) => [node.id, node.currentOrigin]))),
+    after: placementMetrics(nets, new Map(nodes.map((node) => [node.id, node.proposedOrigin]))),
+  }
 
-  const layerCount = new Set(nodes.map((n) => n.layer)).size
-  const summary = hasChanges
-    ? `Arrange ${nodes.length} parts into ${layerCount} signal-flow column${layerCount === 1 ? '' : 's'} (power → passives → ICs → outputs), left to right with tidy spacing. Wires will be re-routed.`
-    : 'Layout already matches the tidy placement rules — nothing to move.'
+  let summary: string
+  if (!hasChanges) {
+    summary = 'Layout already matches the tidy placement rules — nothing to move.'
+  } else if (mode === 'connectivity') {
+    const extras = [
+      decoupling.size > 0 && `${plural(decoupling.size, 'decoupling capacitor')} beside ${decoupling.size === 1 ? 'its' : 'their'} IC`,
+      pinned.size > 0 && `${plural(pinned.size, 'pinned part')} left in place`,
+    ].filter(Boolean)
+    summary =
+      `Place ${nodes.length} parts by their connections: about ${metrics.before.wireLength} → ${metrics.after.wireLength} cells of wire, ` +
+      `${metrics.before.crossings} → ${metrics.after.crossings} crossings${extras.length ? `, ${extras.join(', ')}` : ''}. Wires will be re-routed.`
+  } else {
+    const layerCount = new Set(nodes.map((n) => n.layer)).size
+    summary = `Arrange ${nodes.length} parts into ${layerCount} signal-flow column${layerCount === 1 ? '' : 's'} (power → passives → ICs → outputs), left to right with tidy spacing. Wires will be re-routed.`
+  }
 
-  return { nodes, summary, hasChanges }
+  return { mode, nodes, summary, hasChanges, metrics }
 }
 
 function buildRelocationMap(
@@ -304,66 +381,28 @@ function wireEndpoints(wire: WireConnection): { from: { x: number; y: number };
   return { from: { ...first }, to: { ...last } }
 }
 
-function segmentsFromPath(
-  points: Array<{ x: number; y: number }>,
-  template: WireConnection
-): WireSegment[] {
-  const expanded: Array<{ x: number; y: number }> = []
-  for (const point of points) {
-    if (expanded.length === 0) {
-      expanded.push(point)
-      continue
-    }
-    const prev = expanded[expanded.length - 1]
-    if (prev.x === point.x && prev.y === point.y) continue
-    if (prev.x !== point.x && prev.y !== point.y) {
-      expanded.push({ x: point.x, y: prev.y })
-    }
-    expanded.push(point)
-  }
-
-  const sample = template.segments[0]
-  const segments: WireSegment[] = []
-  for (let i = 0; i < expanded.length - 1; i++) {
-    segments.push({
-      id: `${template.id}-seg-${i}-${Date.now()}`,
-      from: expanded[i],
-      to: expanded[i + 1],
-      isPowered: template.isPowered,
-      isGrounded: template.isGrounded,
-      isPowerable: template.isPowerable,
-      isGroundable: template.isGroundable,
-      voltage: template.voltage,
-      current: template.current,
-      power: template.power,
-      color: sample?.color ?? template.color,
-      colorId: sample?.colorId ?? template.colorId,
-      thickness: sample?.thickness ?? template.thickness,
-      gauge: sample?.gauge ?? template.gauge,
-      maxCurrent: sample?.maxCurrent ?? template.maxCurrent,
-      maxPower: sample?.maxPower ?? template.maxPower,
-      pwm: template.pwm,
-    })
-  }
-  return segments
-}
-
 function remapWires(
   wires: WireConnection[],
   relocation: Map<string, { x: number; y: number }>,
   fallbackShift: { dx: number; dy: number },
   gridData: unknown[][]
 ): WireConnection[] {
-  return wires.map((wire) => {
+  // Each re-routed wire keeps clear of the junctions of those already placed, so no two nets merge.
+  const placed: WireConnection[] = []
+  for (const wire of wires) {
     const endpoints = wireEndpoints(wire)
-    if (!endpoints) return wire
+    if (!endpoints) {
+      placed.push(wire)
+      continue
+    }
 
     const from = translatePoint(endpoints.from, relocation, fallbackShift)
     const to = translatePoint(endpoints.to, relocation, fallbackShift)
-    const path = buildWirePath(from, to, gridData)
+    const path = buildWirePath(from, to, gridData, wireJunctionPoints(placed))
     const segments = segmentsFromPath(path, wire)
-    return segments.length > 0 ? { ...wire, segments } : wire
-  })
+    placed.push(segments.length > 0 ? { ...wire, segments } : wire)
+  }
+  return placed
 }
 
 function shiftAnnotations<T extends { x: number; y: number }>(
@@ -386,7 +425,9 @@ export function applyTidyLayout(schematic: Schematic, plan: TidyLayoutPlan): Sch
   const oldMinY = Math.min(...plan.nodes.map((n) => n.currentOrigin.y))
   const newMinX = Math.min(...plan.nodes.map((n) => n.proposedOrigin.x))
   const newMinY = Math.min(...plan.nodes.map((n) => n.proposedOrigin.y))
-  const fallbackShift = { dx: newMinX - oldMinX, dy: newMinY - oldMinY }
+  // Connectivity placement works in sheet coordinates, so group boxes stay where they are.
+  const fallbackShift =
+    plan.mode === 'connectivity' ? { dx: 0, dy: 0 } : { dx: newMinX - oldMinX, dy: newMinY - oldMinY }
 
   for (const cell of occupied) {
     const next = relocation.get(`${cell.x},${cell.y}`)
@@ -413,7 +454,8 @@ export function applyTidyLayout(schematic: Schematic, plan: TidyLayoutPlan): Sch
 
   const wires = remapWires(schematic.wires ?? [], relocation, fallbackShift, gridData)
   const groupBoxes = shiftAnnotations(schematic.groupBoxes, fallbackShift)
-  const labels = shiftAnnotations(schematic.labels, fallbackShift)
+  // Labels follow the pin or wire end under them, so net labels stay on their nets.
+  const labels = schematic.labels?.map((label) => ({ ...label, ...translatePoint(label, relocation, fallbackShift) }))
 
   return {
     ...schematic,
@@ -435,14 +477,15 @@ export function formatTidyLayoutExport(plan: TidyLayoutPlan, schematicName: stri
     '',
     plan.summary,
     '',
-    '| Module | Category | Current | Proposed | Layer |',
+    `| Module | Category | Current | Proposed | ${plan.mode === 'connectivity' ? 'Note' : 'Layer'} |`,
     '| --- | --- | --- | --- | --- |',
   ]
 
   for (const node of plan.nodes) {
     const cur = `(${node.currentOrigin.x}, ${node.currentOrigin.y})`
     const next = `(${node.proposedOrigin.x}, ${node.proposedOrigin.y})`
-    lines.push(`| ${node.moduleName} | ${node.category} | ${cur} | ${next} | ${node.layer} |`)
+    const note = plan.mode === 'connectivity' ? (node.pinned ? 'pinned' : node.decouples ? 'decoupling' : '') : node.layer
+    lines.push(`| ${node.moduleName} | ${node.category} | ${cur} | ${next} | ${note} |`)
   }
 
   return lines.join('\n')
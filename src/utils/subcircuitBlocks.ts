@@ -0,0 +1,248 @@
+import type { ModuleDefinition, WireConnection } from '../modules/types'
+import { buildSubcircuitDefinition } from '../modules/subcircuitModule'
+import { buildNets } from '../systems/chain'
+import { getPlacedComponents, getTerminals } from '../systems/chain/components/registry'
+import { posKey } from '../systems/chain/utils'
+import { wireBetween } from '../examples/schematicBuilder'
+import type {
+  SchematicCellLabel,
+  SchematicGroupBox,
+  SubcircuitBlock,
+  SubcircuitContent,
+  SubcircuitPort,
+} from '../types/workspace'
+import type { OccupiedComponent } from './gridUtils'
+import { copySchematicSelection, findPasteOrigin } from './schematicClipboard'
+import { buildWirePath, wireJunctionPoints } from './wireRouting'
+
+type BlockGridCell = {
+  x: number
+  y: number
+  occupied: boolean
+  componentId?: string
+  componentType?: string
+  moduleDefinition?: ModuleDefinition & { properties?: Record<string, unknown> }
+  cellIndex?: number
+  isPowered?: boolean
+  isClickable?: boolean
+}
+
+export interface ExtractedSubcircuit {
+  content: SubcircuitContent
+  componentIds: string[]
+  /** Top-left of the extracted contents on the sheet */
+  origin: { x: number; y: number }
+  /** Per port, the sheet positions where wires from outside the selection attach */
+  attachPoints: Map<string, Array<{ x: number; y: number }>>
+  /** Wires that moved into the block */
+  internalWireIds: Set<string>
+}
+
+export interface CollapsedSheet<T> {
+  gridData: T[][]
+  wires: WireConnection[]
+  instanceId: string
+}
+
+/** Components lying entirely inside a group box region. */
+export function componentsInRegion<T extends BlockGridCell>(
+  gridData: T[][],
+  region: Pick<SchematicGroupBox, 'x' | 'y' | 'width' | 'height'>
+): string[] {
+  const inside = new Set<string>()
+  const outside = new Set<string>()
+  gridData.forEach((row, y) => row?.forEach((cell, x) => {
+    if (!cell?.occupied || !cell.componentId) return
+    const within = x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height
+    ;(within ? inside : outside).add(cell.componentId)
+  }))
+  return Array.from(inside).filter((id) => !outside.has(id))
+}
+
+function portNameFor(
+  terminals: Array<{ x: number; y: number; pin?: string }>,
+  labels: SchematicCellLabel[],
+  taken: Set<string>
+): string {
+  const label = labels.find((l) => l.text.trim() && terminals.some((t) => t.x === l.x && t.y === l.y))
+  const pin = terminals.find((t) => t.pin && !/^\d+$/.test(t.pin))?.pin
+  const base = (label?.text.trim() || pin || `P${taken.size + 1}`).slice(0, 12)
+  let name = base
+  for (let n = 2; taken.has(name); n++) name = `${base}${n}`
+  taken.add(name)
+  return name
+}
+
+/**
+ * Lift the selected components and the wires between them into sub-circuit
+ * contents. Every net that also reaches a part or wire outside the selection
+ * becomes a port, named from a cell label on one of its pins when there is
+ * one, otherwise from the pin name.
+ */
+export function extractSubcircuit<T extends BlockGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  componentIds: Iterable<string>,
+  labels: SchematicCellLabel[] = []
+): ExtractedSubcircuit | { error: string } {
+  const selected = new Set(componentIds)
+  const clipboard = copySchematicSelection(gridData, wires, selected)
+  if (!clipboard) return { error: 'Select at least one component to make a block' }
+
+  const { origin } = clipboard
+  const internalWireIds = new Set(clipboard.wires.map((wire) => wire.id))
+  const internalEnds = new Set(
+    clipboard.wires.flatMap((wire) =>
+      wire.segments.flatMap((s) => [posKey(s.from.x + origin.x, s.from.y + origin.y), posKey(s.to.x + origin.x, s.to.y + origin.y)])
+    )
+  )
+  const nets = buildNets(gridData, wires)
+
+  // Terminals of the selection, grouped by net
+  const byNet = new Map<number, Array<{ x: number; y: number; pin?: string }>>()
+  const selectedPositions = new Set<string>()
+  getPlacedComponents(gridData).forEach((component) => {
+    if (!selected.has(component.componentId)) return
+    getTerminals(component).forEach((terminal) => {
+      const net = nets.posToNet.get(posKey(terminal.x, terminal.y))
+      if (net === undefined) return
+      const list = byNet.get(net) ?? []
+      list.push({ x: terminal.x, y: terminal.y, pin: terminal.moduleCell?.pin })
+      byNet.set(net, list)
+      selectedPositions.add(posKey(terminal.x, terminal.y))
+    })
+  })
+
+  // Nets reaching outside: a terminal of another part, or a wire that stays on the sheet
+  const outsideNets = new Set<number>()
+  getPlacedComponents(gridData).forEach((component) => {
+    if (selected.has(component.componentId)) return
+    getTerminals(component).forEach((terminal) => {
+      const net = nets.posToNet.get(posKey(terminal.x, terminal.y))
+      if (net !== undefined) outsideNets.add(net)
+    })
+  })
+  const attachByNet = new Map<number, Array<{ x: number; y: number }>>()
+  wires.forEach((wire) => {
+    if (internalWireIds.has(wire.id)) return
+    wire.segments.forEach((segment) => {
+      for (const end of [segment.from, segment.to]) {
+        const key = posKey(end.x, end.y)
+        const net = nets.posToNet.get(key)
+        if (net === undefined) continue
+        outsideNets.add(net)
+        if (!selectedPositions.has(key) && !internalEnds.has(key)) continue
+        const list = attachByNet.get(net) ?? []
+        if (!list.some((p) => p.x === end.x && p.y === end.y)) list.push({ x: end.x, y: end.y })
+        attachByNet.set(net, list)
+      }
+    })
+  })
+
+  const taken = new Set<string>()
+  const ports: SubcircuitPort[] = []
+  const attachPoints = new Map<string, Array<{ x: number; y: number }>>()
+  Array.from(byNet.entries())
+    .filter(([net]) => outsideNets.has(net))
+    .sort(([, a], [, b]) => a[0].y - b[0].y || a[0].x - b[0].x)
+    .forEach(([net, terminals]) => {
+      const name = portNameFor(terminals, labels, taken)
+      ports.push({ name, points: terminals.map((t) => ({ x: t.x - origin.x, y: t.y - origin.y })) })
+      attachPoints.set(name, attachByNet.get(net) ?? [])
+    })
+
+  const components: OccupiedComponent[] = clipboard.components.flatMap((component) =>
+    component.cells.map(({ dx, dy, cell }) => ({
+      ...cell,
+      x: dx,
+      y: dy,
+      componentId: component.componentId,
+      componentType: cell.componentType ?? cell.moduleDefinition?.module ?? 'unknown',
+      moduleDefinition: cell.moduleDefinition,
+      isPowered: false,
+    }))
+  )
+
+  return {
+    content: { components, wires: clipboard.wires, ports, width: clipboard.width, height: clipboard.height },
+    componentIds: Array.from(selected),
+    origin,
+    attachPoints,
+    internalWireIds,
+  }
+}
+
+/**
+ * Swap the extracted parts for one instance of `block`, placed as close to
+ * where they were as the sheet allows, and re-route each outside wire to the
+ * matching port pin.
+ */
+export function collapseToBlockInstance<T extends BlockGridCell>(
+  gridData: T[][],
+  wires: WireConnection[],
+  extracted: ExtractedSubcircuit,
+  block: SubcircuitBlock,
+  instanceId = `${block.name}-${Date.now()}`
+): CollapsedSheet<T> | { error: string } {
+  const removed = new Set(extracted.componentIds)
+  const grid = gridData.map((row) =>
+    row?.some((cell) => cell?.componentId && removed.has(cell.componentId))
+      ? row.map((cell) =>
+          cell?.componentId && removed.has(cell.componentId)
+            ? ({
+                ...cell,
+                occupied: false,
+                componentId: undefined,
+                componentType: undefined,
+                moduleDefinition: undefined,
+                isPowered: false,
+                cellIndex: undefined,
+                isClickable: false,
+              } as T)
+            : cell
+        )
+      : row
+  )
+  let sheetWires = wires.filter((wire) => !extracted.internalWireIds.has(wire.id))
+
+  const definition = buildSubcircuitDefinition(block)
+  const footprint = {
+    components: [{ componentId: instanceId, cells: definition.grid.map((c) => ({ dx: c.x, dy: c.y, cell: {} as T })) }],
+    wires: [],
+    width: definition.gridX,
+    height: definition.gridY,
+    origin: extracted.origin,
+  }
+  const origin = findPasteOrigin(grid, sheetWires, footprint, extracted.origin)
+  if (!origin) return { error: 'No free space on the sheet for the block' }
+
+  definition.grid.forEach((moduleCell, cellIndex) => {
+    const x = origin.x + moduleCell.x
+    const y = origin.y + moduleCell.y
+    grid[y] = [...grid[y]]
+    grid[y][x] = {
+      ...grid[y][x],
+      x,
+      y,
+      occupied: true,
+      componentId: instanceId,
+      componentType: definition.module,
+      moduleDefinition: definition,
+      cellIndex,
+      isPowered: false,
+      isClickable: false,
+    } as T
+  })
+
+  for (const [index, moduleCell] of definition.grid.entries()) {
+    if (!moduleCell.isConnectable || !moduleCell.pin) continue
+    const pinPos = { x: origin.x + moduleCell.x, y: origin.y + moduleCell.y }
+    for (const attach of extracted.attachPoints.get(moduleCell.pin) ?? []) {
+      const path = buildWirePath(attach, pinPos, grid, wireJunctionPoints(sheetWires))
+      const wire = wireBetween(path)
+      sheetWires = [...sheetWires, { ...wire, id: `wire-${Date.now()}-${index}-${sheetWires.length}` }]
+    }
+  }
+
+  return { gridData: grid, wires: sheetWires, instanceId }
+}
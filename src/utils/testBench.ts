@@ -0,0 +1,432 @@
+/**
+ * Stimulus scripts ("test benches") for a schematic: set switches, wipers,
+ * sensor stimuli and supply voltages at points on a timeline, then check net
+ * voltages, currents and on/off states against expectations. Each change is
+ * applied with `patchInteractableCell` (or `updatePowerSupplyInGrid`) and the
+ * sheet re-solved with `solveCircuit` before the next expectation, so a bench
+ * is a repeatable run of the clicks a user would make by hand.
+ *
+ *   # LED follows the switch
+ *   at 0 ms
+ *   set Switch1 off
+ *   expect LED1 off
+ *   at 100 ms
+ *   set Switch1 on
+ *   set PSU-1 voltage 9
+ *   set Potentiometer1 wiper 25%
+ *   set Thermistor1 temperature 40
+ *   expect LED1 on
+ *   expect V(LED1.+) > 1.8 V
+ *   expect V(Resistor1.1, Resistor1.2) = 2.5 V ± 0.1 V
+ *   expect I(LED1) < 20 mA
+ *
+ * Parts are named by their module plus an ordinal in reading order (LED1,
+ * PushButton2, TemperatureSensor1), supplies also by their PSU id, and any
+ * part by its component id. Pins are named as on the part or numbered from 1
+ * over its connectable cells; `V(x,y)` reads a grid position. The solver finds
+ * the DC operating point, so times order the steps rather than drive a
+ * transient.
+ */
+
+import { solveCircuit } from '../systems/chain'
+import type { GridCellLike } from '../systems/chain/types'
+import { posKey } from '../systems/chain/utils'
+import type { WireConnection } from '../modules/types'
+import { patchInteractableCell, scanInteractableComponents, type InteractableControl } from './interactableComponents'
+import { listPlacedPowerSupplies, updatePowerSupplyInGrid } from './powerSupplies'
+
+type Grid = GridCellLike[][]
+
+export interface BenchPinRef {
+  part: string
+  pin: string
+}
+
+export type BenchProbe =
+  | { kind: 'voltage'; at: BenchPinRef | { x: number; y: number }; ref: BenchPinRef | { x: number; y: number } | null }
+  | { kind: 'current'; part: string }
+  | { kind: 'state'; part: string }
+
+export type BenchOp = '>' | '>=' | '<' | '<=' | '=' | '!='
+
+export type BenchCommand =
+  | { kind: 'set'; line: number; atMs: number; part: string; key: string; value: number; percent: boolean }
+  | { kind: 'expect'; line: number; atMs: number; source: string; probe: BenchProbe; op: BenchOp; value: number; tolerance: number | null }
+
+export interface BenchIssue {
+  line: number
+  message: string
+}
+
+export interface ParsedTestBench {
+  commands: BenchCommand[]
+  errors: BenchIssue[]
+}
+
+/** A part a bench can name, and what `set` can do to it. */
+export interface BenchPart {
+  ref: string
+  componentId: string
+  module: string
+  /** Other names the part answers to (its PSU id) */
+  aliases: string[]
+  control: InteractableControl | null
+  supply: boolean
+}
+
+export interface BenchResult {
+  line: number
+  atMs: number
+  source: string
+  passed: boolean
+  /** Measured value, or null when the probe couldn't be read */
+  measured: number | null
+  message: string
+}
+
+export interface TestBenchRun {
+  results: BenchResult[]
+  /** Parse errors and `set` lines that couldn't be applied */
+  errors: BenchIssue[]
+  passed: number
+  failed: number
+  /** The sheet as the last step left it */
+  gridData: Grid
+}
+
+const SI_PREFIXES: Record<string, number> = { p: 1e-12, n: 1e-9, u: 1e-6, µ: 1e-6, μ: 1e-6, m: 1e-3, k: 1e3, M: 1e6 }
+/** Units whose prefix letters scale the value; anything else (°C, lx, cm, g) is read as written. */
+const SCALED_UNITS = new Set(['V', 'A', 's', 'Ω', 'ohm', 'Hz'])
+const QUANTITY_RE = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*(%|[pnuµμmkM]?(?:V|A|s|Ω|ohm|Hz)|[^\s\d][^\s]*)?$/
+const PART_RE = String.raw`[A-Za-z_][\w-]*`
+const PIN_RE = String.raw`[^\s,()]+`
+const POINT_RE = String.raw`(?:${PART_RE}\.${PIN_RE}|\d+\s*,\s*\d+)`
+const VOLTAGE_PROBE_RE = new RegExp(String.raw`^V\(\s*(${POINT_RE})\s*(?:,\s*(${POINT_RE})\s*)?\)$`)
+const CURRENT_PROBE_RE = new RegExp(String.raw`^I\(\s*(${PART_RE})\s*\)$`)
+const EXPECT_RE = /^(.+?)\s*(>=|<=|!=|==|=|≈|>|<)\s*(.+?)(?:\s*(?:±|\+-|\+\/-)\s*(.+))?$/
+/** Default match for `=`: 1% of the expected value, but no tighter than this. */
+const DEFAULT_TOLERANCE = { voltage: 0.01, current: 1e-6 }
+
+/** A number with an optional unit: `2.5`, `2.5 V`, `20mA`, `25%`, `100 ms`. */
+export function parseQuantity(text: string): { value: number; percent: boolean } | null {
+  const match = text.trim().match(QUANTITY_RE)
+  if (!match) return null
+  const value = parseFloat(match[1])
+  const unit = match[2] ?? ''
+  if (unit === '%') return { value: value / 100, percent: true }
+  const base = unit.replace(/^[pnuµμmkM]/, '')
+  const scale = unit.length > base.length && SCALED_UNITS.has(base) ? SI_PREFIXES[unit[0]] : 1
+  return { value: value * scale, percent: false }
+}
+
+function parseTime(text: string): number | null {
+  const quantity = parseQuantity(text)
+  if (!quantity || quantity.percent || quantity.value < 0) return null
+  // Times without a unit are ms; with one they were scaled to seconds.
+  return /[a-zµμ]$/i.test(text.trim()) ? quantity.value * 1000 : quantity.value
+}
+
+function parsePoint(text: string): BenchPinRef | { x: number; y: number } {
+  const grid = text.match(/^(\d+)\s*,\s*(\d+)$/)
+  if (grid) return { x: parseInt(grid[1], 10), y: parseInt(grid[2], 10) }
+  const dot = text.indexOf('.')
+  return { part: text.slice(0, dot), pin: text.slice(dot + 1) }
+}
+
+function parseProbe(text: string): BenchProbe | null {
+  const voltage = text.match(VOLTAGE_PROBE_RE)
+  if (voltage) return { kind: 'voltage', at: parsePoint(voltage[1]), ref: voltage[2] ? parsePoint(voltage[2]) : null }
+  const current = text.match(CURRENT_PROBE_RE)
+  if (current) return { kind: 'current', part: current[1] }
+  return null
+}
+
+/** Parse a bench script; lines that don't parse are reported and skipped. */
+export function parseTestBench(script: string): ParsedTestBench {
+  const commands: BenchCommand[] = []
+  const errors: BenchIssue[] = []
+  let atMs = 0
+
+  script.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const text = raw.replace(/(?:#|\/\/).*$/, '').trim()
+    if (!text) return
+    const [keyword, ...rest] = text.split(/\s+/)
+    const body = text.slice(keyword.length).trim()
+
+    switch (keyword.toLowerCase()) {
+      case 'at':
+      case 'wait': {
+        const ms = parseTime(body)
+        if (ms === null) {
+          errors.push({ line, message: `"${body}" is not a time` })
+          return
+        }
+        const next = keyword.toLowerCase() === 'wait' ? atMs + ms : ms
+        if (next < atMs) {
+          errors.push({ line, message: `time goes back from ${atMs} ms to ${next} ms` })
+          return
+        }
+        atMs = next
+        return
+      }
+      case 'set': {
+        const [part, key, ...value] = rest
+        if (!part || !key) {
+          errors.push({ line, message: 'expected `set <part> on|off` or `set <part> <setting> <value>`' })
+          return
+        }
+        if (/^(?:on|off|pressed|released|open|closed)$/i.test(key) && value.length === 0) {
+          const on = /^(?:on|pressed|closed)$/i.test(key)
+          commands.push({ kind: 'set', line, atMs, part, key: 'state', value: on ? 1 : 0, percent: false })
+          return
+        }
+        const quantity = parseQuantity(value.join(' '))
+        if (!quantity) {
+          errors.push({ line, message: `"${value.join(' ')}" is not a value for ${key}` })
+          return
+        }
+        commands.push({ kind: 'set', line, atMs, part, key, value: quantity.value, percent: quantity.percent })
+        return
+      }
+      case 'expect': {
+        const state = body.match(new RegExp(String.raw`^(${PART_RE})\s+(on|off)$`, 'i'))
+        if (state) {
+          commands.push({
+            kind: 'expect',
+            line,
+            atMs,
+            source: body,
+            probe: { kind: 'state', part: state[1] },
+            op: '=',
+            value: state[2].toLowerCase() === 'on' ? 1 : 0,
+            tolerance: 0,
+          })
+          return
+        }
+        const match = body.match(EXPECT_RE)
+        const probe = match ? parseProbe(match[1].trim()) : null
+        const expected = match ? parseQuantity(match[3]) : null
+        const tolerance = match?.[4] !== undefined ? parseQuantity(match[4]) : null
+        if (!match || !probe || !expected || (match[4] !== undefined && !tolerance)) {
+          errors.push({ line, message: 'expected `expect V(part.pin) <op> <value>`, `expect I(part) <op> <value>` or `expect <part> on|off`' })
+          return
+        }
+        const op = (match[2] === '==' || match[2] === '≈' ? '=' : match[2]) as BenchOp
+        commands.push({ kind: 'expect', line, atMs, source: body, probe, op, value: expected.value, tolerance: tolerance?.value ?? null })
+        return
+      }
+      default:
+        errors.push({ line, message: `unknown command "${keyword}"` })
+    }
+  })
+
+  return { commands, errors }
+}
+
+/** Placed parts with their bench names, in reading order. */
+export function listBenchParts(gridData: Grid): BenchPart[] {
+  const origins = new Map<string, { x: number; y: number; module: string }>()
+  gridData.forEach((row, y) => {
+    row?.forEach((cell, x) => {
+      if (!cell?.occupied || !cell.componentId || !cell.moduleDefinition) return
+      const cx = cell.x ?? x
+      const cy = cell.y ?? y
+      const origin = origins.get(cell.componentId)
+      if (!origin || cy < origin.y || (cy === origin.y && cx < origin.x)) {
+        origins.set(cell.componentId, { x: cx, y: cy, module: String(cell.moduleDefinition.module ?? '') })
+      }
+    })
+  })
+
+  const controls = new Map(
+    scanInteractableComponents(gridData as Parameters<typeof scanInteractableComponents>[0]).map((c) => [c.componentId, c])
+  )
+  const supplies = new Map(listPlacedPowerSupplies(gridData).map((s) => [s.componentId, s.supplyId]))
+  const counts = new Map<string, number>()
+  return [...origins.entries()]
+    .sort(([, a], [, b]) => a.y - b.y || a.x - b.x)
+    .map(([componentId, { module }]) => {
+      const stem = module.replace(/[^A-Za-z0-9]/g, '') || 'Part'
+      const n = (counts.get(stem) ?? 0) + 1
+      counts.set(stem, n)
+      const supplyId = supplies.get(componentId)
+      return {
+        ref: `${stem}${n}`,
+        componentId,
+        module,
+        aliases: supplyId && supplyId !== componentId ? [supplyId] : [],
+        control: controls.get(componentId) ?? null,
+        supply: supplyId !== undefined,
+      }
+    })
+}
+
+function findPart(parts: BenchPart[], name: string): BenchPart | undefined {
+  const lower = name.toLowerCase()
+  return parts.find(
+    (part) => part.ref.toLowerCase() === lower || part.componentId === name || part.aliases.some((alias) => alias.toLowerCase() === lower)
+  )
+}
+
+/** Connectable cells of a part in module-cell order, with the label each carries. */
+function connectablePins(gridData: Grid, componentId: string): Array<{ x: number; y: number; index: number; name: string }> {
+  const pins: Array<{ x: number; y: number; index: number; name: string }> = []
+  gridData.forEach((row, y) => {
+    row?.forEach((cell, x) => {
+      if (cell?.componentId !== componentId) return
+      const index = cell.cellIndex ?? 0
+      const moduleCell = cell.moduleDefinition?.grid?.[index]
+      if (!moduleCell?.isConnectable) return
+      pins.push({ x: cell.x ?? x, y: cell.y ?? y, index, name: String(moduleCell.pin || moduleCell.type || '') })
+    })
+  })
+  return pins.sort((a, b) => a.index - b.index)
+}
+
+/** A part's pins as a script names them: by label where that's unique on the part, else by number. */
+export function listPartPins(gridData: Grid, componentId: string): Array<{ pin: string; x: number; y: number }> {
+  const pins = connectablePins(gridData, componentId)
+  return pins.map(({ x, y, name }, i) => ({
+    pin: name && pins.filter((other) => other.name === name).length === 1 ? name : String(i + 1),
+    x,
+    y,
+  }))
+}
+
+/** Grid position of a part's pin: by name, else by 1-based index over its connectable cells. */
+function pinPosition(gridData: Grid, componentId: string, pin: string): { x: number; y: number } | null {
+  const pins = connectablePins(gridData, componentId)
+  const named = pins.find((cell) => cell.name.toLowerCase() === pin.toLowerCase())
+  if (named) return named
+  const ordinal = /^\d+$/.test(pin) ? parseInt(pin, 10) : NaN
+  return pins[ordinal - 1] ?? null
+}
+
+/** Apply one `set`; returns an error message when the part or setting doesn't fit. */
+function applySet(gridData: Grid, parts: BenchPart[], command: Extract<BenchCommand, { kind: 'set' }>): Grid | string {
+  const part = findPart(parts, command.part)
+  if (!part) return `no part named ${command.part}`
+  const key = command.key.toLowerCase()
+  if (part.supply && key === 'voltage') {
+    const supply = listPlacedPowerSupplies(gridData).find((s) => s.componentId === part.componentId)
+    return updatePowerSupplyInGrid(gridData, part.componentId, { voltage: command.value, current: supply?.current ?? 1 })
+  }
+  const control = part.control
+  if (!control) return `${part.ref} has nothing to set`
+  const patch = (values: Record<string, unknown>) =>
+    patchInteractableCell(gridData as Parameters<typeof patchInteractableCell>[0], part.componentId, control.bodyCellIndex, values) as Grid
+  if (key === 'state' && control.kind !== 'potentiometer' && control.kind !== 'sensor') return patch({ isOn: command.value >= 0.5 })
+  if ((key === 'wiper' || key === 'position') && control.kind === 'potentiometer') {
+    const wiper = command.percent ? command.value : command.value > 1 ? command.value / 100 : command.value
+    return patch({ wiperPosition: Math.max(0, Math.min(1, wiper)) })
+  }
+  const stimulus = control.stimuli?.find((s) => s.key.toLowerCase() === key)
+  if (stimulus) {
+    const raw = command.percent && stimulus.unit === '%' ? command.value * 100 : command.value
+    const value = stimulus.toggle ? (raw >= 0.5 ? 1 : 0) : Math.max(stimulus.min, Math.min(stimulus.max, raw))
+    const current = scanInteractableComponents(gridData as Parameters<typeof scanInteractableComponents>[0]).find(
+      (c) => c.componentId === part.componentId
+    )?.sensorInputs
+    return patch({ sensorInputs: { ...current, [stimulus.key]: value } })
+  }
+  if (key === 'state' && control.kind === 'sensor') {
+    const toggle = control.stimuli?.find((s) => s.toggle)
+    if (toggle) return applySet(gridData, parts, { ...command, key: toggle.key })
+  }
+  const options = control.kind === 'potentiometer' ? ['wiper'] : control.kind === 'sensor' ? control.stimuli?.map((s) => s.key) ?? [] : ['on', 'off']
+  return `${part.ref} takes ${options.join(', ')}, not ${command.key}`
+}
+
+const formatValue = (value: number, probe: BenchProbe) =>
+  probe.kind === 'state' ? (value ? 'on' : 'off') : `${Number(value.toPrecision(4))} ${probe.kind === 'current' ? 'A' : 'V'}`
+
+function compare(measured: number, op: BenchOp, expected: number, tolerance: number): boolean {
+  switch (op) {
+    case '>':
+      return measured > expected
+    case '>=':
+      return measured >= expected - tolerance
+    case '<':
+      return measured < expected
+    case '<=':
+      return measured <= expected + tolerance
+    case '=':
+      return Math.abs(measured - expected) <= tolerance
+    case '!=':
+      return Math.abs(measured - expected) > tolerance
+  }
+}
+
+/** Run a bench against a sheet, re-solving after every change that precedes an expectation. */
+export function runTestBench(script: string, gridData: Grid, wires: WireConnection[]): TestBenchRun {
+  const { commands, errors } = parseTestBench(script)
+  const issues = [...errors]
+  const results: BenchResult[] = []
+  const parts = listBenchParts(gridData)
+  let grid = gridData
+  let solved: ReturnType<typeof solveCircuit> | null = null
+
+  const voltageAt = (point: BenchPinRef | { x: number; y: number }): number | string => {
+    let position: { x: number; y: number } | null
+    if ('part' in point) {
+      const part = findPart(parts, point.part)
+      if (!part) return `no part named ${point.part}`
+      position = pinPosition(grid, part.componentId, point.pin)
+      if (!position) return `${part.ref} has no pin ${point.pin}`
+    } else {
+      position = point
+    }
+    const v = solved!.nodeVoltages.get(posKey(position.x, position.y))
+    return v === undefined ? `${'part' in point ? `${point.part}.${point.pin}` : `(${point.x},${point.y})`} is not on a solved net` : v
+  }
+
+  const measure = (probe: BenchProbe): number | string => {
+    if (probe.kind === 'voltage') {
+      const at = voltageAt(probe.at)
+      const ref = probe.ref ? voltageAt(probe.ref) : 0
+      if (typeof at === 'string') return at
+      if (typeof ref === 'string') return ref
+      return at - ref
+    }
+    const part = findPart(parts, probe.part)
+    if (!part) return `no part named ${probe.part}`
+    const states = [...solved!.componentStates.values()].filter(
+      (state) => state.componentId === part.componentId || state.componentId.startsWith(`${part.componentId}-`)
+    )
+    if (probe.kind === 'current') return Math.max(0, ...states.map((state) => Math.abs(state.outputCurrent || 0)))
+    return states.some((state) => state.isOn === true) ? 1 : 0
+  }
+
+  for (const command of commands) {
+    if (command.kind === 'set') {
+      const next = applySet(grid, parts, command)
+      if (typeof next === 'string') issues.push({ line: command.line, message: next })
+      else {
+        grid = next
+        solved = null
+      }
+      continue
+    }
+    solved ??= solveCircuit(grid, wires)
+    const measured = measure(command.probe)
+    if (typeof measured === 'string') {
+      results.push({ line: command.line, atMs: command.atMs, source: command.source, passed: false, measured: null, message: measured })
+      continue
+    }
+    const floor = command.probe.kind === 'current' ? DEFAULT_TOLERANCE.current : DEFAULT_TOLERANCE.voltage
+    const tolerance = command.tolerance ?? (command.probe.kind === 'state' ? 0 : Math.max(floor, Math.abs(command.value) * 0.01))
+    const passed = compare(measured, command.op, command.value, tolerance)
+    results.push({
+      line: command.line,
+      atMs: command.atMs,
+      source: command.source,
+      passed,
+      measured,
+      message: `${passed ? 'measured' : 'got'} ${formatValue(measured, command.probe)}`,
+    })
+  }
+
+  const passed = results.filter((result) => result.passed).length
+  return { results, errors: issues, passed, failed: results.length - passed, gridData: grid }
+}
@@ -1,3 +1,5 @@
+import type { WireConnection, WireSegment } from '../modules/types'
+
 type Point = { x: number; y: number }
 
 function cellKey(p: Point): string {
@@ -14,14 +16,15 @@ function horizontalClear(
   y: number,
   x1: number,
   x2: number,
-  endpoints: Set<string>
+  endpoints: Set<string>,
+  junctions: Set<string>
 ): boolean {
   const min = Math.min(x1, x2)
   const max = Math.max(x1, x2)
   for (let x = min; x <= max; x++) {
     const key = cellKey({ x, y })
     if (endpoints.has(key)) continue
-    if (isOccupied(gridData, x, y)) return false
+    if (isOccupied(gridData, x, y) || junctions.has(key)) return false
   }
   return true
 }
@@ -31,26 +34,27 @@ function verticalClear(
   x: number,
   y1: number,
   y2: number,
-  endpoints: Set<string>
+  endpoints: Set<string>,
+  junctions: Set<string>
 ): boolean {
   const min = Math.min(y1, y2)
   const max = Math.max(y1, y2)
   for (let y = min; y <= max; y++) {
     const key = cellKey({ x, y })
     if (endpoints.has(key)) continue
-    if (isOccupied(gridData, x, y)) return false
+    if (isOccupied(gridData, x, y) || junctions.has(key)) return false
   }
   return true
 }
 
-function pathClear(gridData: unknown[][], points: Point[], endpoints: Set<string>): boolean {
+function pathClear(gridData: unknown[][], points: Point[], endpoints: Set<string>, junctions: Set<string>): boolean {
   for (let i = 0; i < points.length - 1; i++) {
     const a = points[i]
     const b = points[i + 1]
     if (a.x === b.x) {
-      if (!verticalClear(gridData, a.x, a.y, b.y, endpoints)) return false
+      if (!verticalClear(gridData, a.x, a.y, b.y, endpoints, junctions)) return false
     } else if (a.y === b.y) {
-      if (!horizontalClear(gridData, a.y, a.x, b.x, endpoints)) return false
+      if (!horizontalClear(gridData, a.y, a.x, b.x, endpoints, junctions)) return false
     } else {
       return false
     }
@@ -58,8 +62,31 @@ function pathClear(gridData: unknown[][], points: Point[], endpoints: Set<string
   return true
 }
 
-/** Manhattan wire path that avoids routing through occupied cells (e.g. diode bodies). */
-export function buildWirePath(from: Point, to: Point, gridData: unknown[][]): Point[] {
+/**
+ * Segment endpoints of existing wires. Endpoints are what join nets, so a new
+ * path that bends on (or runs through) one of these would short two nets.
+ */
+export function wireJunctionPoints(wires: Array<{ segments: Array<{ from: Point; to: Point }> }>): Set<string> {
+  const points = new Set<string>()
+  for (const wire of wires) {
+    for (const segment of wire.segments) {
+      points.add(cellKey(segment.from))
+      points.add(cellKey(segment.to))
+    }
+  }
+  return points
+}
+
+/**
+ * Manhattan wire path that avoids routing through occupied cells (e.g. diode
+ * bodies) and, when given, the `junctions` of wires already on the grid.
+ */
+export function buildWirePath(
+  from: Point,
+  to: Point,
+  gridData: unknown[][],
+  junctions: Set<string> = new Set()
+): Point[] {
   const endpoints = new Set([cellKey(from), cellKey(to)])
 
   if (from.x === to.x && from.y === to.y) return [from]
@@ -70,7 +97,7 @@ export function buildWirePath(from: Point, to: Point, gridData: unknown[][]): Po
     [from, { x: from.x, y: to.y }, to],
   ]
 
-  for (const offset of [1, -1, 2, -2, 3, -3]) {
+  for (const offset of [1, -1, 2, -2, 3, -3, 4, -4, 5, -5, 6, -6]) {
     const detourY = from.y + offset
     if (detourY >= 0) {
       candidates.push([from, { x: from.x, y: detourY }, { x: to.x, y: detourY }, to])
@@ -82,8 +109,334 @@ export function buildWirePath(from: Point, to: Point, gridData: unknown[][]): Po
   }
 
   for (const path of candidates) {
-    if (pathClear(gridData, path, endpoints)) return path
+    if (pathClear(gridData, path, endpoints, junctions)) return path
+  }
+
+  return routeWire(from, to, gridData, { junctions }) ?? [from, { x: to.x, y: from.y }, to]
+}
+
+/** Bit set in {@link RouteObstacles.runs} for a wire passing a cell left–right. */
+const RUN_HORIZONTAL = 1
+/** Bit set in {@link RouteObstacles.runs} for a wire passing a cell up–down. */
+const RUN_VERTICAL = 2
+
+/**
+ * What a routed wire has to respect besides component bodies: `junctions` it
+ * may not touch (they would join nets) and `runs`, the cells existing wires
+ * pass through, which it may cross at right angles but not run along or bend on.
+ */
+export interface RouteObstacles {
+  junctions?: Set<string>
+  runs?: Map<string, number>
+}
+
+export interface RouteCosts {
+  /** Added for every change of direction */
+  bend: number
+  /** Added for every cell where the path crosses another wire */
+  crossing: number
+  /** Cells the search may wander past the bounding box of its endpoints */
+  margin: number
+}
+
+const DEFAULT_ROUTE_COSTS: RouteCosts = { bend: 4, crossing: 6, margin: 8 }
+
+function addRun(runs: Map<string, number>, a: Point, b: Point): void {
+  const axis = a.y === b.y ? RUN_HORIZONTAL : RUN_VERTICAL
+  const dx = Math.sign(b.x - a.x)
+  const dy = Math.sign(b.y - a.y)
+  for (let x = a.x, y = a.y; ; x += dx, y += dy) {
+    const key = cellKey({ x, y })
+    runs.set(key, (runs.get(key) ?? 0) | axis)
+    if (x === b.x && y === b.y) break
   }
+}
 
-  return [from, { x: to.x, y: from.y }, to]
+/** Junctions and runs of `wires` (see {@link RouteObstacles}). */
+export function wireObstacles(wires: Array<{ segments: Array<{ from: Point; to: Point }> }>): Required<RouteObstacles> {
+  const runs = new Map<string, number>()
+  for (const wire of wires) {
+    for (const segment of wire.segments) {
+      if (segment.from.x === segment.to.x || segment.from.y === segment.to.y) addRun(runs, segment.from, segment.to)
+    }
+  }
+  return { junctions: wireJunctionPoints(wires), runs }
+}
+
+/** Adds a routed path's corners and cells to `obstacles`, in place. */
+function addPathObstacles(obstacles: Required<RouteObstacles>, path: Point[]): void {
+  for (const point of path) obstacles.junctions.add(cellKey(point))
+  for (let i = 0; i < path.length - 1; i++) addRun(obstacles.runs, path[i], path[i + 1])
+}
+
+/** Right, left, down, up — indexed by the direction a search state arrived in. */
+const STEPS: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const NO_DIRECTION = 4
+
+interface SearchNode {
+  x: number
+  y: number
+  dir: number
+  cost: number
+  estimate: number
+  previous: SearchNode | null
+}
+
+/** Binary min-heap on `estimate`, just enough for the router's open set. */
+class OpenSet {
+  private readonly items: SearchNode[] = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(node: SearchNode): void {
+    const items = this.items
+    items.push(node)
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].estimate <= items[i].estimate) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): SearchNode {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()!
+    if (items.length > 0) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].estimate < items[smallest].estimate) smallest = left
+        if (right < items.length && items[right].estimate < items[smallest].estimate) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+}
+
+/**
+ * A* over grid cells that steps around component bodies and the `obstacles` of
+ * wires already placed, preferring few bends and few crossings over the
+ * shortest run. Returns the corner points of the cheapest path, or null when
+ * there is none inside the search margin.
+ */
+export function routeWire(
+  from: Point,
+  to: Point,
+  gridData: unknown[][],
+  obstacles: RouteObstacles = {},
+  costs: Partial<RouteCosts> = {}
+): Point[] | null {
+  if (from.x === to.x && from.y === to.y) return [from]
+  const { bend, crossing, margin } = { ...DEFAULT_ROUTE_COSTS, ...costs }
+  const junctions = obstacles.junctions ?? new Set<string>()
+  const runs = obstacles.runs ?? new Map<string, number>()
+  const endpoints = new Set([cellKey(from), cellKey(to)])
+  const gridWidth = gridData[0]?.length ?? 0
+  const minX = Math.max(0, Math.min(from.x, to.x) - margin)
+  const minY = Math.max(0, Math.min(from.y, to.y) - margin)
+  const maxX = Math.max(from.x, to.x, Math.min(gridWidth - 1, Math.max(from.x, to.x) + margin))
+  const maxY = Math.max(from.y, to.y, Math.min(gridData.length - 1, Math.max(from.y, to.y) + margin))
+  const heuristic = (x: number, y: number) => Math.abs(to.x - x) + Math.abs(to.y - y)
+
+  const best = new Map<string, number>()
+  const open = new OpenSet()
+  open.push({ ...from, dir: NO_DIRECTION, cost: 0, estimate: heuristic(from.x, from.y), previous: null })
+
+  while (open.size > 0) {
+    const node = open.pop()
+    const stateKey = `${node.x},${node.y},${node.dir}`
+    if ((best.get(stateKey) ?? Infinity) < node.cost) continue
+    if (node.x === to.x && node.y === to.y) return cornerPoints(node)
+
+    const here = cellKey(node)
+    const hereRun = endpoints.has(here) ? 0 : runs.get(here) ?? 0
+    for (let dir = 0; dir < STEPS.length; dir++) {
+      const turning = node.dir !== NO_DIRECTION && dir !== node.dir
+      // Reversing is never useful; bending on another wire would read as a junction.
+      if (turning && (dir ^ 1) === node.dir) continue
+      if (turning && hereRun !== 0) continue
+
+      const x = node.x + STEPS[dir][0]
+      const y = node.y + STEPS[dir][1]
+      if (x < minX || y < minY || x > maxX || y > maxY) continue
+      const key = cellKey({ x, y })
+      let cost = node.cost + 1 + (turning ? bend : 0)
+      if (!endpoints.has(key)) {
+        if (isOccupied(gridData, x, y) || junctions.has(key)) continue
+        const run = runs.get(key) ?? 0
+        if (run & (dir < 2 ? RUN_HORIZONTAL : RUN_VERTICAL)) continue
+        if (run) cost += crossing
+      }
+
+      const nextKey = `${x},${y},${dir}`
+      if ((best.get(nextKey) ?? Infinity) <= cost) continue
+      best.set(nextKey, cost)
+      open.push({ x, y, dir, cost, estimate: cost + heuristic(x, y), previous: node })
+    }
+  }
+  return null
+}
+
+function cornerPoints(end: SearchNode): Point[] {
+  const points: Point[] = [{ x: end.x, y: end.y }]
+  for (let node = end; node.previous; node = node.previous) {
+    const previous = node.previous
+    if (previous.previous && previous.dir !== node.dir) points.unshift({ x: previous.x, y: previous.y })
+    if (!previous.previous) points.unshift({ x: previous.x, y: previous.y })
+  }
+  return points
+}
+
+/** Outcome of {@link planReroute}. */
+export interface ReroutePlan {
+  /** New corner points for every wire that was ripped up */
+  paths: Map<string, Point[]>
+  /** Wires that could only be routed by falling back to {@link buildWirePath} */
+  failed: string[]
+  /** Wires left where they are because something joins them partway along */
+  kept: string[]
+}
+
+function chainPoints(wire: { segments: Array<{ from: Point; to: Point }> }): Point[] | null {
+  const points: Point[] = []
+  for (const segment of wire.segments) {
+    const last = points[points.length - 1]
+    if (!last) points.push(segment.from)
+    else if (last.x !== segment.from.x || last.y !== segment.from.y) return null
+    points.push(segment.to)
+  }
+  return points.length >= 2 ? points : null
+}
+
+/**
+ * Rip-up-and-reroute of a whole sheet. Every point-to-point wire is lifted and
+ * routed again with {@link routeWire}, shortest first; wires that find no path
+ * go first on the next pass, and the pass with the fewest failures wins.
+ * Wires with another wire or a pin joined partway along are kept as they are,
+ * since moving them would break that connection.
+ */
+export function planReroute(
+  gridData: unknown[][],
+  wires: Array<{ id: string; segments: Array<{ from: Point; to: Point }> }>,
+  passes = 3
+): ReroutePlan {
+  const pointUse = new Map<string, number>()
+  const chains = new Map<string, Point[] | null>()
+  for (const wire of wires) {
+    const points = chainPoints(wire)
+    chains.set(wire.id, points)
+    const keys = new Set((points ?? wire.segments.flatMap((s) => [s.from, s.to])).map(cellKey))
+    for (const key of keys) pointUse.set(key, (pointUse.get(key) ?? 0) + 1)
+  }
+
+  const movable: Array<{ id: string; from: Point; to: Point }> = []
+  const fixed: typeof wires = []
+  for (const wire of wires) {
+    const points = chains.get(wire.id)
+    const joinedPartway = points?.slice(1, -1).some((p) => pointUse.get(cellKey(p))! > 1 || isOccupied(gridData, p.x, p.y))
+    const from = points?.[0]
+    const to = points?.[points.length - 1]
+    if (!points || !from || !to || joinedPartway || (from.x === to.x && from.y === to.y)) fixed.push(wire)
+    else movable.push({ id: wire.id, from, to })
+  }
+
+  const span = (w: { from: Point; to: Point }) => Math.abs(w.from.x - w.to.x) + Math.abs(w.from.y - w.to.y)
+  let order = [...movable].sort((a, b) => span(a) - span(b))
+  let bestPaths = new Map<string, Point[]>()
+  let bestFailed: typeof movable | null = null
+
+  for (let pass = 0; pass < Math.max(1, passes); pass++) {
+    const obstacles = wireObstacles(fixed)
+    for (const wire of movable) {
+      obstacles.junctions.add(cellKey(wire.from))
+      obstacles.junctions.add(cellKey(wire.to))
+    }
+    const paths = new Map<string, Point[]>()
+    const failed: typeof movable = []
+    for (const wire of order) {
+      const path = routeWire(wire.from, wire.to, gridData, obstacles)
+      if (!path) {
+        failed.push(wire)
+        continue
+      }
+      paths.set(wire.id, path)
+      addPathObstacles(obstacles, path)
+    }
+    for (const wire of failed) {
+      const path = buildWirePath(wire.from, wire.to, gridData, obstacles.junctions)
+      paths.set(wire.id, path)
+      addPathObstacles(obstacles, path)
+    }
+    if (!bestFailed || failed.length < bestFailed.length) {
+      bestPaths = paths
+      bestFailed = failed
+    }
+    if (failed.length === 0) break
+    order = [...failed, ...order.filter((wire) => !failed.includes(wire))]
+  }
+
+  return {
+    paths: bestPaths,
+    failed: (bestFailed ?? []).map((wire) => wire.id),
+    kept: fixed.map((wire) => wire.id),
+  }
+}
+
+/**
+ * Segments for a path of corner points, styled after `template`'s first
+ * segment. Diagonal steps get an elbow so every segment stays Manhattan.
+ */
+export function segmentsFromPath(
+  points: Array<{ x: number; y: number }>,
+  template: WireConnection
+): WireSegment[] {
+  const expanded: Array<{ x: number; y: number }> = []
+  for (const point of points) {
+    if (expanded.length === 0) {
+      expanded.push(point)
+      continue
+    }
+    const prev = expanded[expanded.length - 1]
+    if (prev.x === point.x && prev.y === point.y) continue
+    if (prev.x !== point.x && prev.y !== point.y) {
+      expanded.push({ x: point.x, y: prev.y })
+    }
+    expanded.push(point)
+  }
+
+  const sample = template.segments[0]
+  const segments: WireSegment[] = []
+  for (let i = 0; i < expanded.length - 1; i++) {
+    segments.push({
+      id: `${template.id}-seg-${i}-${Date.now()}`,
+      from: expanded[i],
+      to: expanded[i + 1],
+      isPowered: template.isPowered,
+      isGrounded: template.isGrounded,
+      isPowerable: template.isPowerable,
+      isGroundable: template.isGroundable,
+      voltage: template.voltage,
+      current: template.current,
+      power: template.power,
+      color: sample?.color ?? template.color,
+      colorId: sample?.colorId ?? template.colorId,
+      thickness: sample?.thickness ?? template.thickness,
+      gauge: sample?.gauge ?? template.gauge,
+      maxCurrent: sample?.maxCurrent ?? template.maxCurrent,
+      maxPower: sample?.maxPower ?? template.maxPower,
+      pwm: template.pwm,
+    })
+  }
+  return segments
 }